@@ -0,0 +1,135 @@
+-- Add first-class billing tables (claims, invoices, service lines, payments)
+-- Replaces billing data previously stored inside Appointment.encryptedNotes
+
+-- Create billing enums
+DO $$ BEGIN
+    CREATE TYPE "ClaimStatus" AS ENUM ('PENDING', 'SUBMITTED', 'PROCESSING', 'PAID', 'DENIED', 'APPEALED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "InvoiceStatus" AS ENUM ('DRAFT', 'SENT', 'PARTIAL_PAYMENT', 'PAID', 'OVERDUE', 'CANCELLED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Create claim table
+CREATE TABLE IF NOT EXISTS "Claim" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "claimNumber" TEXT NOT NULL UNIQUE,
+    "appointmentId" TEXT,
+    "clientId" TEXT NOT NULL,
+    "professionalId" TEXT NOT NULL,
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "status" "ClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "payerName" TEXT,
+    "payerId" TEXT,
+    "insuranceEncrypted" JSONB,
+    "diagnosisCodes" JSONB NOT NULL,
+    "totalCharges" DOUBLE PRECISION NOT NULL,
+    "allowedAmount" DOUBLE PRECISION,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "adjustmentAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "patientResponsibility" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "payerClaimNumber" TEXT,
+    "denialCode" TEXT,
+    "denialReason" TEXT,
+    "appealDeadline" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3),
+    "processedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "deniedAt" TIMESTAMP(3),
+    "appealedAt" TIMESTAMP(3),
+    "statusHistory" JSONB NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Claim_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "Claim_appointmentId_idx" ON "Claim"("appointmentId");
+CREATE INDEX IF NOT EXISTS "Claim_clientId_idx" ON "Claim"("clientId");
+CREATE INDEX IF NOT EXISTS "Claim_professionalId_idx" ON "Claim"("professionalId");
+CREATE INDEX IF NOT EXISTS "Claim_status_idx" ON "Claim"("status");
+CREATE INDEX IF NOT EXISTS "Claim_serviceDate_idx" ON "Claim"("serviceDate");
+
+-- Create invoice table for client (self-pay and patient responsibility) billing
+CREATE TABLE IF NOT EXISTS "Invoice" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "invoiceNumber" TEXT NOT NULL UNIQUE,
+    "clientId" TEXT NOT NULL,
+    "professionalId" TEXT NOT NULL,
+    "issueDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "status" "InvoiceStatus" NOT NULL DEFAULT 'DRAFT',
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastReminderAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "Invoice_clientId_idx" ON "Invoice"("clientId");
+CREATE INDEX IF NOT EXISTS "Invoice_professionalId_idx" ON "Invoice"("professionalId");
+CREATE INDEX IF NOT EXISTS "Invoice_status_idx" ON "Invoice"("status");
+CREATE INDEX IF NOT EXISTS "Invoice_dueDate_idx" ON "Invoice"("dueDate");
+
+-- Create service line table (one row per CPT code billed)
+CREATE TABLE IF NOT EXISTS "ServiceLine" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "claimId" TEXT,
+    "invoiceId" TEXT,
+    "appointmentId" TEXT,
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "cptCode" TEXT NOT NULL,
+    "modifier" TEXT,
+    "description" TEXT NOT NULL,
+    "units" INTEGER NOT NULL DEFAULT 1,
+    "unitRate" DOUBLE PRECISION NOT NULL,
+    "chargeAmount" DOUBLE PRECISION NOT NULL,
+    "allowedAmount" DOUBLE PRECISION,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "adjustmentAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "diagnosisPointers" INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ServiceLine_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE CASCADE,
+    CONSTRAINT "ServiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "ServiceLine_claimId_idx" ON "ServiceLine"("claimId");
+CREATE INDEX IF NOT EXISTS "ServiceLine_invoiceId_idx" ON "ServiceLine"("invoiceId");
+CREATE INDEX IF NOT EXISTS "ServiceLine_appointmentId_idx" ON "ServiceLine"("appointmentId");
+
+-- Create payment table (insurance remittances and client payments)
+CREATE TABLE IF NOT EXISTS "Payment" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "clientId" TEXT NOT NULL,
+    "claimId" TEXT,
+    "invoiceId" TEXT,
+    "source" TEXT NOT NULL, -- insurance, client
+    "method" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "referenceNumber" TEXT,
+    "adjustments" JSONB,
+    "postedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payment_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE SET NULL,
+    CONSTRAINT "Payment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "Payment_clientId_idx" ON "Payment"("clientId");
+CREATE INDEX IF NOT EXISTS "Payment_claimId_idx" ON "Payment"("claimId");
+CREATE INDEX IF NOT EXISTS "Payment_invoiceId_idx" ON "Payment"("invoiceId");
+CREATE INDEX IF NOT EXISTS "Payment_paymentDate_idx" ON "Payment"("paymentDate");
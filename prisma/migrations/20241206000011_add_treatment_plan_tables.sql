@@ -0,0 +1,117 @@
+-- Add first-class treatment plan tables (plans, revisions, goals, objectives, progress)
+-- Replaces treatment plans previously stored inside SafetyPlan, which is reserved for crisis safety plans
+
+-- Create treatment plan enum
+DO $$ BEGIN
+    CREATE TYPE "TreatmentPlanStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'ARCHIVED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Create treatment plan table
+CREATE TABLE IF NOT EXISTS "TreatmentPlan" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "clientId" TEXT NOT NULL,
+    "therapistId" TEXT NOT NULL,
+    "status" "TreatmentPlanStatus" NOT NULL DEFAULT 'DRAFT',
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "contentEncrypted" JSONB NOT NULL,
+    "reviewFrequency" TEXT NOT NULL,
+    "nextReviewDate" TIMESTAMP(3) NOT NULL,
+    "lastReviewedAt" TIMESTAMP(3),
+    "reviewReminderSentAt" TIMESTAMP(3),
+    "activatedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "archivedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "TreatmentPlan_clientId_idx" ON "TreatmentPlan"("clientId");
+CREATE INDEX IF NOT EXISTS "TreatmentPlan_therapistId_idx" ON "TreatmentPlan"("therapistId");
+CREATE INDEX IF NOT EXISTS "TreatmentPlan_status_idx" ON "TreatmentPlan"("status");
+CREATE INDEX IF NOT EXISTS "TreatmentPlan_nextReviewDate_idx" ON "TreatmentPlan"("nextReviewDate");
+
+-- Create treatment plan revision table (immutable, signed snapshots)
+CREATE TABLE IF NOT EXISTS "TreatmentPlanRevision" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "planId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshotEncrypted" JSONB NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "changeSummary" TEXT,
+    "progressNoteEncrypted" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "clientSignedBy" TEXT,
+    "clientSignedAt" TIMESTAMP(3),
+    "clientSignatureEncrypted" JSONB,
+    "clinicianSignedBy" TEXT,
+    "clinicianSignedAt" TIMESTAMP(3),
+    "clinicianSignatureEncrypted" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TreatmentPlanRevision_planId_fkey" FOREIGN KEY ("planId") REFERENCES "TreatmentPlan"("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "TreatmentPlanRevision_planId_version_key" ON "TreatmentPlanRevision"("planId", "version");
+CREATE INDEX IF NOT EXISTS "TreatmentPlanRevision_planId_idx" ON "TreatmentPlanRevision"("planId");
+
+-- Create treatment goal table
+CREATE TABLE IF NOT EXISTS "TreatmentGoal" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "planId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "descriptionEncrypted" JSONB NOT NULL,
+    "measurableOutcomeEncrypted" JSONB NOT NULL,
+    "targetDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "achievedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TreatmentGoal_planId_fkey" FOREIGN KEY ("planId") REFERENCES "TreatmentPlan"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "TreatmentGoal_planId_idx" ON "TreatmentGoal"("planId");
+CREATE INDEX IF NOT EXISTS "TreatmentGoal_status_idx" ON "TreatmentGoal"("status");
+
+-- Create treatment objective table
+CREATE TABLE IF NOT EXISTS "TreatmentObjective" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "goalId" TEXT NOT NULL,
+    "descriptionEncrypted" JSONB NOT NULL,
+    "targetDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "achievedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TreatmentObjective_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "TreatmentGoal"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "TreatmentObjective_goalId_idx" ON "TreatmentObjective"("goalId");
+CREATE INDEX IF NOT EXISTS "TreatmentObjective_status_idx" ON "TreatmentObjective"("status");
+
+-- Create objective progress table, linked to the session note it was recorded in
+CREATE TABLE IF NOT EXISTS "ObjectiveProgress" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "objectiveId" TEXT NOT NULL,
+    "sessionNoteId" TEXT,
+    "recordedBy" TEXT NOT NULL,
+    "previousRating" INTEGER NOT NULL,
+    "currentRating" INTEGER NOT NULL,
+    "notesEncrypted" JSONB,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ObjectiveProgress_objectiveId_fkey" FOREIGN KEY ("objectiveId") REFERENCES "TreatmentObjective"("id") ON DELETE CASCADE,
+    CONSTRAINT "ObjectiveProgress_sessionNoteId_fkey" FOREIGN KEY ("sessionNoteId") REFERENCES "TherapySessionNote"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "ObjectiveProgress_objectiveId_idx" ON "ObjectiveProgress"("objectiveId");
+CREATE INDEX IF NOT EXISTS "ObjectiveProgress_sessionNoteId_idx" ON "ObjectiveProgress"("sessionNoteId");
+CREATE INDEX IF NOT EXISTS "ObjectiveProgress_recordedAt_idx" ON "ObjectiveProgress"("recordedAt");
@@ -0,0 +1,67 @@
+-- Add recurring appointment series with per-occurrence exceptions and calendar feeds
+-- Replaces the seriesId previously stored inside Appointment.encryptedNotes
+
+-- Create appointment series table
+CREATE TABLE IF NOT EXISTS "AppointmentSeries" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "clientId" TEXT NOT NULL,
+    "professionalId" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "dtstart" TIMESTAMP(3) NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "duration" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "location" TEXT NOT NULL DEFAULT 'office',
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "encryptedNotes" JSONB,
+    "endedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "AppointmentSeries_clientId_idx" ON "AppointmentSeries"("clientId");
+CREATE INDEX IF NOT EXISTS "AppointmentSeries_professionalId_idx" ON "AppointmentSeries"("professionalId");
+CREATE INDEX IF NOT EXISTS "AppointmentSeries_status_idx" ON "AppointmentSeries"("status");
+
+-- Create series exception table (moved or cancelled occurrences)
+CREATE TABLE IF NOT EXISTS "AppointmentSeriesException" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "seriesId" TEXT NOT NULL,
+    "originalStart" TIMESTAMP(3) NOT NULL,
+    "type" TEXT NOT NULL,
+    "newStart" TIMESTAMP(3),
+    "newDuration" INTEGER,
+    "reason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppointmentSeriesException_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "AppointmentSeries"("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AppointmentSeriesException_seriesId_originalStart_key" ON "AppointmentSeriesException"("seriesId", "originalStart");
+CREATE INDEX IF NOT EXISTS "AppointmentSeriesException_seriesId_idx" ON "AppointmentSeriesException"("seriesId");
+
+-- Link appointments to the series occurrence they were generated from
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "seriesId" TEXT;
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "originalStart" TIMESTAMP(3);
+
+DO $$ BEGIN
+    ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "AppointmentSeries"("id") ON DELETE SET NULL;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "Appointment_seriesId_idx" ON "Appointment"("seriesId");
+
+-- Create calendar feed table (per-user ICS subscription token versions)
+CREATE TABLE IF NOT EXISTS "CalendarFeed" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "userId" TEXT NOT NULL UNIQUE,
+    "tokenVersion" INTEGER NOT NULL DEFAULT 1,
+    "lastAccessedAt" TIMESTAMP(3),
+    "rotatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,74 @@
+-- Add provider availability, booking rules and slot holds for client self-scheduling
+
+-- Create provider availability table (one row of booking rules per professional)
+CREATE TABLE IF NOT EXISTS "ProviderAvailability" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "professionalId" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "bufferMinutes" INTEGER NOT NULL DEFAULT 15,
+    "maxSessionsPerDay" INTEGER NOT NULL DEFAULT 6,
+    "minNoticeHours" INTEGER NOT NULL DEFAULT 24,
+    "maxAdvanceDays" INTEGER NOT NULL DEFAULT 60,
+    "slotIntervalMinutes" INTEGER NOT NULL DEFAULT 30,
+    "sessionDurations" JSONB NOT NULL,
+    "acceptingNewClients" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ProviderAvailability_professionalId_key" ON "ProviderAvailability"("professionalId");
+
+-- Create weekly working hours table
+CREATE TABLE IF NOT EXISTS "AvailabilityWindow" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "availabilityId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "sessionTypes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityWindow_availabilityId_fkey" FOREIGN KEY ("availabilityId") REFERENCES "ProviderAvailability"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AvailabilityWindow_availabilityId_idx" ON "AvailabilityWindow"("availabilityId");
+
+-- Create blackout dates table
+CREATE TABLE IF NOT EXISTS "AvailabilityBlackout" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "availabilityId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityBlackout_availabilityId_fkey" FOREIGN KEY ("availabilityId") REFERENCES "ProviderAvailability"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AvailabilityBlackout_availabilityId_startsAt_idx" ON "AvailabilityBlackout"("availabilityId", "startsAt");
+
+-- Create slot hold table (hold-then-confirm reservations)
+CREATE TABLE IF NOT EXISTS "SlotHold" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "professionalId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "sessionType" TEXT NOT NULL,
+    "location" TEXT NOT NULL DEFAULT 'virtual',
+    "status" TEXT NOT NULL DEFAULT 'held',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "appointmentId" TEXT,
+    "confirmedAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "SlotHold_professionalId_startsAt_idx" ON "SlotHold"("professionalId", "startsAt");
+CREATE INDEX IF NOT EXISTS "SlotHold_clientId_idx" ON "SlotHold"("clientId");
+CREATE INDEX IF NOT EXISTS "SlotHold_status_expiresAt_idx" ON "SlotHold"("status", "expiresAt");
+
+-- Only one confirmed reservation can come from a given slot start
+CREATE UNIQUE INDEX IF NOT EXISTS "SlotHold_professionalId_startsAt_confirmed_key"
+    ON "SlotHold"("professionalId", "startsAt") WHERE "status" = 'confirmed';
@@ -0,0 +1,60 @@
+-- Add per-therapist waitlists and backfill offers for cancelled appointments
+
+-- Create waitlist entry table
+CREATE TABLE IF NOT EXISTS "WaitlistEntry" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "professionalId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "preferredDays" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[],
+    "preferredStartTime" TEXT,
+    "preferredEndTime" TEXT,
+    "sessionTypes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "modalities" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "earliestDate" TIMESTAMP(3),
+    "latestDate" TIMESTAMP(3),
+    "notesEncrypted" TEXT,
+    "bookedAppointmentId" TEXT,
+    "removedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "WaitlistEntry_professionalId_status_idx" ON "WaitlistEntry"("professionalId", "status");
+CREATE INDEX IF NOT EXISTS "WaitlistEntry_clientId_idx" ON "WaitlistEntry"("clientId");
+
+-- A client has at most one active entry per therapist
+CREATE UNIQUE INDEX IF NOT EXISTS "WaitlistEntry_professionalId_clientId_active_key"
+    ON "WaitlistEntry"("professionalId", "clientId") WHERE "status" = 'active';
+
+-- Create waitlist offer table (one row per client offered a freed slot)
+CREATE TABLE IF NOT EXISTS "WaitlistOffer" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "entryId" TEXT NOT NULL,
+    "professionalId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "sourceAppointmentId" TEXT NOT NULL,
+    "slotStart" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "sessionType" TEXT NOT NULL,
+    "modality" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "claimedAppointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WaitlistOffer_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "WaitlistEntry"("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "WaitlistOffer_entryId_sourceAppointmentId_key" ON "WaitlistOffer"("entryId", "sourceAppointmentId");
+CREATE INDEX IF NOT EXISTS "WaitlistOffer_sourceAppointmentId_idx" ON "WaitlistOffer"("sourceAppointmentId");
+CREATE INDEX IF NOT EXISTS "WaitlistOffer_clientId_status_idx" ON "WaitlistOffer"("clientId", "status");
+CREATE INDEX IF NOT EXISTS "WaitlistOffer_status_expiresAt_idx" ON "WaitlistOffer"("status", "expiresAt");
+
+-- Only one offer per freed slot can be pending or claimed at a time
+CREATE UNIQUE INDEX IF NOT EXISTS "WaitlistOffer_sourceAppointmentId_open_key"
+    ON "WaitlistOffer"("sourceAppointmentId") WHERE "status" IN ('pending', 'claimed');
@@ -0,0 +1,61 @@
+-- Add appointment reminder/no-show tracking and late-cancel / no-show fee policies
+
+-- Track confirmation, cancellation and no-show times on appointments
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "confirmedAt" TIMESTAMP(3);
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "cancelledAt" TIMESTAMP(3);
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "lateCancellation" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Appointment" ADD COLUMN IF NOT EXISTS "noShowAt" TIMESTAMP(3);
+
+-- Create appointment policy table (reminder schedule and fee rules per professional)
+CREATE TABLE IF NOT EXISTS "AppointmentPolicy" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "professionalId" TEXT NOT NULL,
+    "reminderOffsets" INTEGER[] NOT NULL DEFAULT ARRAY[2880, 120]::INTEGER[],
+    "noShowGraceMinutes" INTEGER NOT NULL DEFAULT 15,
+    "lateCancelHours" INTEGER NOT NULL DEFAULT 24,
+    "lateCancelFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "noShowFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "waiveFirstOffense" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AppointmentPolicy_professionalId_key" ON "AppointmentPolicy"("professionalId");
+
+-- Create appointment fee table (one policy fee per missed or late-cancelled appointment)
+CREATE TABLE IF NOT EXISTS "AppointmentFee" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "appointmentId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "professionalId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "waivedBy" TEXT,
+    "waivedReason" TEXT,
+    "waivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AppointmentFee_appointmentId_key" ON "AppointmentFee"("appointmentId");
+CREATE INDEX IF NOT EXISTS "AppointmentFee_clientId_professionalId_idx" ON "AppointmentFee"("clientId", "professionalId");
+CREATE INDEX IF NOT EXISTS "AppointmentFee_professionalId_createdAt_idx" ON "AppointmentFee"("professionalId", "createdAt");
+
+-- Reminder template rendered into NotificationQueue rows
+INSERT INTO "NotificationTemplate" ("id", "name", "category", "subject", "contentTemplate", "channels", "priority", "variables", "isActive", "createdAt", "updatedAt")
+VALUES (
+    gen_random_uuid()::text,
+    'appointment_reminder',
+    'appointment',
+    'Reminder: your session on {{appointmentTime}}',
+    'Hi {{userName}}, this is a reminder of your {{duration}}-minute session on {{appointmentTime}}. Confirm: {{confirmUrl}} | Cancel: {{cancelUrl}} | Reschedule: {{rescheduleUrl}}. Cancellations less than {{lateCancelHours}} hours before the session may incur a fee.',
+    ARRAY['email', 'sms', 'in-app'],
+    'normal',
+    '{"appointmentTime": "string", "duration": "number", "confirmUrl": "string", "cancelUrl": "string", "rescheduleUrl": "string", "lateCancelHours": "number"}'::jsonb,
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+)
+ON CONFLICT ("name") DO NOTHING;
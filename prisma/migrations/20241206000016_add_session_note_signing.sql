@@ -0,0 +1,143 @@
+-- Add template-driven session notes with clinician e-signature, supervisor co-signature and addenda
+-- Signed notes are locked: their content can no longer change, only be supplemented by addenda
+
+-- Create session note status enum
+DO $$ BEGIN
+    CREATE TYPE "SessionNoteStatus" AS ENUM ('DRAFT', 'PENDING_COSIGN', 'SIGNED');
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Add template, signing and deadline columns to session notes
+ALTER TABLE "TherapySessionNote"
+    ADD COLUMN IF NOT EXISTS "noteTemplate" TEXT,
+    ADD COLUMN IF NOT EXISTS "templateVersion" INTEGER,
+    ADD COLUMN IF NOT EXISTS "sectionsEncrypted" JSONB,
+    ADD COLUMN IF NOT EXISTS "status" "SessionNoteStatus" NOT NULL DEFAULT 'DRAFT',
+    ADD COLUMN IF NOT EXISTS "dueAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "contentHash" TEXT,
+    ADD COLUMN IF NOT EXISTS "signedBy" TEXT,
+    ADD COLUMN IF NOT EXISTS "signedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "signatureEncrypted" JSONB,
+    ADD COLUMN IF NOT EXISTS "lockedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "cosignRequired" BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS "cosignedBy" TEXT,
+    ADD COLUMN IF NOT EXISTS "cosignedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "cosignatureEncrypted" JSONB,
+    ADD COLUMN IF NOT EXISTS "overdueReminderSentAt" TIMESTAMP(3);
+
+-- Existing notes are unsigned drafts, due 72 hours after their session
+UPDATE "TherapySessionNote"
+SET "dueAt" = "sessionDate" + INTERVAL '72 hours'
+WHERE "dueAt" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "TherapySessionNote_status_dueAt_idx" ON "TherapySessionNote"("status", "dueAt");
+CREATE INDEX IF NOT EXISTS "TherapySessionNote_supervisorId_status_idx" ON "TherapySessionNote"("supervisorId", "status");
+
+-- Create session note addendum table (append-only)
+CREATE TABLE IF NOT EXISTS "SessionNoteAddendum" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "noteId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "reason" TEXT,
+    "contentEncrypted" JSONB NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "signatureEncrypted" JSONB NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SessionNoteAddendum_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "TherapySessionNote"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "SessionNoteAddendum_noteId_idx" ON "SessionNoteAddendum"("noteId");
+CREATE INDEX IF NOT EXISTS "SessionNoteAddendum_authorId_idx" ON "SessionNoteAddendum"("authorId");
+
+-- Create clinician supervision table
+CREATE TABLE IF NOT EXISTS "ClinicianSupervision" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "superviseeId" TEXT NOT NULL,
+    "supervisorId" TEXT NOT NULL,
+    "licenseLevel" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "ClinicianSupervision_superviseeId_idx" ON "ClinicianSupervision"("superviseeId");
+CREATE INDEX IF NOT EXISTS "ClinicianSupervision_supervisorId_idx" ON "ClinicianSupervision"("supervisorId");
+
+-- A clinician has at most one current supervisor
+CREATE UNIQUE INDEX IF NOT EXISTS "ClinicianSupervision_active_supervisee_key"
+    ON "ClinicianSupervision"("superviseeId") WHERE "endedAt" IS NULL;
+
+-- Reject changes to the signed content of locked notes. Only the
+-- co-signature, status and reminder bookkeeping may change after signing.
+CREATE OR REPLACE FUNCTION prevent_locked_session_note_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD."lockedAt" IS NOT NULL AND (
+        NEW."lockedAt" IS DISTINCT FROM OLD."lockedAt"
+        OR NEW."therapistId" IS DISTINCT FROM OLD."therapistId"
+        OR NEW."clientId" IS DISTINCT FROM OLD."clientId"
+        OR NEW."sessionId" IS DISTINCT FROM OLD."sessionId"
+        OR NEW."sessionDate" IS DISTINCT FROM OLD."sessionDate"
+        OR NEW."sessionType" IS DISTINCT FROM OLD."sessionType"
+        OR NEW."sessionDuration" IS DISTINCT FROM OLD."sessionDuration"
+        OR NEW."treatmentModality" IS DISTINCT FROM OLD."treatmentModality"
+        OR NEW."sessionGoalsEncrypted" IS DISTINCT FROM OLD."sessionGoalsEncrypted"
+        OR NEW."progressNotesEncrypted" IS DISTINCT FROM OLD."progressNotesEncrypted"
+        OR NEW."interventionsEncrypted" IS DISTINCT FROM OLD."interventionsEncrypted"
+        OR NEW."clientResponseEncrypted" IS DISTINCT FROM OLD."clientResponseEncrypted"
+        OR NEW."homeworkEncrypted" IS DISTINCT FROM OLD."homeworkEncrypted"
+        OR NEW."nextSessionPlanEncrypted" IS DISTINCT FROM OLD."nextSessionPlanEncrypted"
+        OR NEW."riskAssessment" IS DISTINCT FROM OLD."riskAssessment"
+        OR NEW."confidentialityNotesEncrypted" IS DISTINCT FROM OLD."confidentialityNotesEncrypted"
+        OR NEW."attachmentsEncrypted" IS DISTINCT FROM OLD."attachmentsEncrypted"
+        OR NEW."billable" IS DISTINCT FROM OLD."billable"
+        OR NEW."insuranceCode" IS DISTINCT FROM OLD."insuranceCode"
+        OR NEW."noteTemplate" IS DISTINCT FROM OLD."noteTemplate"
+        OR NEW."templateVersion" IS DISTINCT FROM OLD."templateVersion"
+        OR NEW."sectionsEncrypted" IS DISTINCT FROM OLD."sectionsEncrypted"
+        OR NEW."contentHash" IS DISTINCT FROM OLD."contentHash"
+        OR NEW."signedBy" IS DISTINCT FROM OLD."signedBy"
+        OR NEW."signedAt" IS DISTINCT FROM OLD."signedAt"
+        OR NEW."signatureEncrypted" IS DISTINCT FROM OLD."signatureEncrypted"
+    ) THEN
+        RAISE EXCEPTION 'Session note % is signed and locked', OLD."id";
+    END IF;
+
+    -- A co-signature, once given, is final
+    IF OLD."cosignedAt" IS NOT NULL AND (
+        NEW."cosignedAt" IS DISTINCT FROM OLD."cosignedAt"
+        OR NEW."cosignedBy" IS DISTINCT FROM OLD."cosignedBy"
+        OR NEW."cosignatureEncrypted" IS DISTINCT FROM OLD."cosignatureEncrypted"
+    ) THEN
+        RAISE EXCEPTION 'Session note % has already been co-signed', OLD."id";
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_locked_session_note_changes_trigger ON "TherapySessionNote";
+CREATE TRIGGER prevent_locked_session_note_changes_trigger
+    BEFORE UPDATE ON "TherapySessionNote"
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_locked_session_note_changes();
+
+-- Addenda are append-only
+CREATE OR REPLACE FUNCTION prevent_session_note_addendum_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Session note addenda cannot be changed once written';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_session_note_addendum_changes_trigger ON "SessionNoteAddendum";
+CREATE TRIGGER prevent_session_note_addendum_changes_trigger
+    BEFORE UPDATE ON "SessionNoteAddendum"
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_session_note_addendum_changes();
@@ -0,0 +1,33 @@
+-- Add opt-in server-side memory for AI chat: encrypted recent messages plus a
+-- rolling encrypted summary of older ones
+
+-- Create conversation memory table (one per user)
+CREATE TABLE IF NOT EXISTS "AIConversationMemory" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "userId" TEXT NOT NULL,
+    "consentGranted" BOOLEAN NOT NULL DEFAULT FALSE,
+    "consentVersion" TEXT,
+    "consentUpdatedAt" TIMESTAMP(3),
+    "summaryEncrypted" JSONB,
+    "summarizedCount" INTEGER NOT NULL DEFAULT 0,
+    "summaryUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "AIConversationMemory_userId_key" ON "AIConversationMemory"("userId");
+
+-- Create remembered message table
+CREATE TABLE IF NOT EXISTS "AIMemoryMessage" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "memoryId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "contentEncrypted" JSONB NOT NULL,
+    "tokenEstimate" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIMemoryMessage_memoryId_fkey" FOREIGN KEY ("memoryId") REFERENCES "AIConversationMemory"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AIMemoryMessage_memoryId_createdAt_idx" ON "AIMemoryMessage"("memoryId", "createdAt");
@@ -0,0 +1,63 @@
+-- Persist human oversight of AI conversations: flagged requests with their
+-- SLA deadline and resolution, reviewer notes, and scheduled follow-ups
+
+-- Create oversight request table
+CREATE TABLE IF NOT EXISTS "AIOversightRequest" (
+    "id" TEXT PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "riskLevel" TEXT,
+    "contextEncrypted" JSONB,
+    "assignedTo" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "slaDueAt" TIMESTAMP(3) NOT NULL,
+    "escalatedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionAction" TEXT,
+    "resolutionNotesEncrypted" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "AIOversightRequest_status_slaDueAt_idx" ON "AIOversightRequest"("status", "slaDueAt");
+CREATE INDEX IF NOT EXISTS "AIOversightRequest_sessionId_idx" ON "AIOversightRequest"("sessionId");
+CREATE INDEX IF NOT EXISTS "AIOversightRequest_assignedTo_idx" ON "AIOversightRequest"("assignedTo");
+CREATE INDEX IF NOT EXISTS "AIOversightRequest_createdAt_idx" ON "AIOversightRequest"("createdAt");
+
+-- Create reviewer note table
+CREATE TABLE IF NOT EXISTS "AIOversightNote" (
+    "id" TEXT PRIMARY KEY,
+    "requestId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "contentEncrypted" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIOversightNote_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "AIOversightRequest"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AIOversightNote_requestId_idx" ON "AIOversightNote"("requestId");
+
+-- Create follow-up table
+CREATE TABLE IF NOT EXISTS "AIOversightFollowUp" (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "requestId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "timeline" TEXT NOT NULL,
+    "assignedTo" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "completedBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIOversightFollowUp_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "AIOversightRequest"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "AIOversightFollowUp_requestId_idx" ON "AIOversightFollowUp"("requestId");
+CREATE INDEX IF NOT EXISTS "AIOversightFollowUp_assignedTo_status_idx" ON "AIOversightFollowUp"("assignedTo", "status");
@@ -0,0 +1,29 @@
+-- Persist the AI assistant's intervention history: what was offered to
+-- whom and in what context, the user's rating, and the mood change around it
+
+-- Create intervention outcome table
+CREATE TABLE IF NOT EXISTS "AIInterventionOutcome" (
+    "id" TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "interventionId" TEXT NOT NULL,
+    "interventionType" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "symptoms" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "riskLevel" TEXT NOT NULL,
+    "selectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "ratedAt" TIMESTAMP(3),
+    "rating" INTEGER,
+    "helpful" BOOLEAN,
+    "moodBefore" INTEGER,
+    "moodAfter" INTEGER,
+    "moodDelta" INTEGER,
+    "engagement" DOUBLE PRECISION,
+    "symptomImprovement" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "AIInterventionOutcome_userId_selectedAt_idx" ON "AIInterventionOutcome"("userId", "selectedAt");
+CREATE INDEX IF NOT EXISTS "AIInterventionOutcome_userId_interventionId_idx" ON "AIInterventionOutcome"("userId", "interventionId");
+CREATE INDEX IF NOT EXISTS "AIInterventionOutcome_ratedAt_idx" ON "AIInterventionOutcome"("ratedAt");
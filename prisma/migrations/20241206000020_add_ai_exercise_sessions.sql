@@ -0,0 +1,29 @@
+-- Persist guided exercise sessions: encrypted step answers, progress and
+-- pause state so an exercise can be resumed on another device, and the
+-- distress check-ins and rating recorded when it is finished
+
+-- Create exercise session table
+CREATE TABLE IF NOT EXISTS "AIExerciseSession" (
+    "id" TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "interventionId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "responsesEncrypted" JSONB,
+    "activeSeconds" INTEGER NOT NULL DEFAULT 0,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "lastDeviceId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pausedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "distressBefore" INTEGER,
+    "distressAfter" INTEGER,
+    "rating" INTEGER,
+    "journalEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "AIExerciseSession_userId_status_idx" ON "AIExerciseSession"("userId", "status");
+CREATE INDEX IF NOT EXISTS "AIExerciseSession_userId_interventionId_idx" ON "AIExerciseSession"("userId", "interventionId");
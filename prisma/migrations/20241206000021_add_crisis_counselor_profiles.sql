@@ -0,0 +1,17 @@
+-- Routing profiles for crisis counselors: languages, specialties, clinical
+-- credential and concurrent chat limit, used to pick who takes each alert
+
+-- Create counselor profile table
+CREATE TABLE IF NOT EXISTS "CrisisCounselorProfile" (
+    "id" TEXT PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "languages" TEXT[] NOT NULL DEFAULT ARRAY['en']::TEXT[],
+    "specialties" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "credentialLevel" TEXT NOT NULL DEFAULT 'counselor',
+    "maxConcurrentChats" INTEGER NOT NULL DEFAULT 3,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CrisisCounselorProfile_userId_key" ON "CrisisCounselorProfile"("userId");
@@ -0,0 +1,34 @@
+-- Crisis line rota: scheduled primary and on-call shifts, and the pages
+-- sent to on-call counselors when the live alert queue backs up
+
+-- Create shift table
+CREATE TABLE IF NOT EXISTS "CrisisShift" (
+    "id" TEXT PRIMARY KEY,
+    "counselorId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'primary',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "CrisisShift_startsAt_endsAt_idx" ON "CrisisShift"("startsAt", "endsAt");
+CREATE INDEX IF NOT EXISTS "CrisisShift_counselorId_idx" ON "CrisisShift"("counselorId");
+
+-- Create page table
+CREATE TABLE IF NOT EXISTS "CrisisPage" (
+    "id" TEXT PRIMARY KEY,
+    "counselorId" TEXT NOT NULL,
+    "shiftId" TEXT,
+    "reasons" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "unassignedAlerts" INTEGER NOT NULL,
+    "longestWaitSeconds" INTEGER NOT NULL,
+    "availableCounselors" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedAt" TIMESTAMP(3)
+);
+
+CREATE INDEX IF NOT EXISTS "CrisisPage_sentAt_idx" ON "CrisisPage"("sentAt");
+CREATE INDEX IF NOT EXISTS "CrisisPage_counselorId_idx" ON "CrisisPage"("counselorId");
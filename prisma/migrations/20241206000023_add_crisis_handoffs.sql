@@ -0,0 +1,39 @@
+-- Warm handoffs of live crisis conversations between counselors, and the
+-- chain of custody recorded for each crisis alert
+
+-- Create handoff table
+CREATE TABLE IF NOT EXISTS "CrisisHandoff" (
+    "id" TEXT PRIMARY KEY,
+    "alertId" TEXT NOT NULL,
+    "reportId" TEXT,
+    "userId" TEXT NOT NULL,
+    "fromCounselorId" TEXT NOT NULL,
+    "toCounselorId" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'counselor',
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'requested',
+    "contextEncrypted" JSONB NOT NULL,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "CrisisHandoff_alertId_idx" ON "CrisisHandoff"("alertId");
+CREATE INDEX IF NOT EXISTS "CrisisHandoff_toCounselorId_status_idx" ON "CrisisHandoff"("toCounselorId", "status");
+CREATE INDEX IF NOT EXISTS "CrisisHandoff_fromCounselorId_idx" ON "CrisisHandoff"("fromCounselorId");
+
+-- Create custody event table
+CREATE TABLE IF NOT EXISTS "CrisisCustodyEvent" (
+    "id" TEXT PRIMARY KEY,
+    "alertId" TEXT NOT NULL,
+    "reportId" TEXT,
+    "handoffId" TEXT,
+    "counselorId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "note" TEXT,
+    "at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "CrisisCustodyEvent_alertId_at_idx" ON "CrisisCustodyEvent"("alertId", "at");
+CREATE INDEX IF NOT EXISTS "CrisisCustodyEvent_reportId_idx" ON "CrisisCustodyEvent"("reportId");
@@ -0,0 +1,23 @@
+-- Columbia Suicide Severity Rating Scale (C-SSRS) screens given by crisis
+-- counselors, with their risk triage
+
+-- Create screening table
+CREATE TABLE IF NOT EXISTS "CssrsScreening" (
+    "id" TEXT PRIMARY KEY,
+    "userId" TEXT,
+    "reportId" TEXT,
+    "alertId" TEXT,
+    "version" TEXT NOT NULL,
+    "answersEncrypted" JSONB NOT NULL,
+    "risk" TEXT NOT NULL,
+    "ideationRecent" INTEGER NOT NULL,
+    "ideationLifetime" INTEGER,
+    "behaviorLifetime" BOOLEAN NOT NULL,
+    "behaviorRecent" BOOLEAN NOT NULL,
+    "administeredBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "CssrsScreening_userId_createdAt_idx" ON "CssrsScreening"("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "CssrsScreening_reportId_idx" ON "CssrsScreening"("reportId");
+CREATE INDEX IF NOT EXISTS "CssrsScreening_risk_createdAt_idx" ON "CssrsScreening"("risk", "createdAt");
@@ -0,0 +1,17 @@
+-- Scope payments to the practice they were made to, so one therapist's
+-- client balance does not count payments made to another
+
+ALTER TABLE "Payment" ADD COLUMN IF NOT EXISTS "professionalId" TEXT;
+
+-- Backfill from the claim or invoice each payment was posted against
+UPDATE "Payment" p
+SET "professionalId" = c."professionalId"
+FROM "Claim" c
+WHERE p."claimId" = c."id" AND p."professionalId" IS NULL;
+
+UPDATE "Payment" p
+SET "professionalId" = i."professionalId"
+FROM "Invoice" i
+WHERE p."invoiceId" = i."id" AND p."professionalId" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "Payment_clientId_professionalId_idx" ON "Payment"("clientId", "professionalId");
@@ -0,0 +1,6 @@
+-- Keep where a queued crisis alert came from and who should take it, so
+-- alerts restored after a restart keep their source, language and needs
+
+ALTER TABLE "SafetyAlert" ADD COLUMN IF NOT EXISTS "source" TEXT;
+ALTER TABLE "SafetyAlert" ADD COLUMN IF NOT EXISTS "language" TEXT;
+ALTER TABLE "SafetyAlert" ADD COLUMN IF NOT EXISTS "needs" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
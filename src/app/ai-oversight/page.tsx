@@ -0,0 +1,29 @@
+import { Suspense } from 'react';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { redirect } from 'next/navigation';
+import { authOptions } from '@/lib/auth-simple';
+import AIOversightConsole from '@/components/ai/AIOversightConsole';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+
+export default async function AIOversightPage() {
+  const session = await getServerSession(authOptions) as Session | null;
+  if (!session?.user?.id) {
+    redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-4 py-8">
+        <Suspense fallback={<LoadingSpinner />}>
+          <AIOversightConsole reviewerId={session.user.id} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'AI Oversight | Astral Core',
+  description: 'Review AI support conversations flagged for a licensed professional.',
+};
@@ -1,26 +1,215 @@
 // AI Chat API Endpoint
-// Provides AI therapy assistance using OpenAI and Gemini
+// Provides AI therapy assistance through the configured AI providers. Every turn runs
+// through the AITherapyAssistant safety pipeline around the model call;
+// `stream: true` (or Accept: text/event-stream) streams the reply as SSE.
 
-import { NextRequest } from 'next/server';
-import { aiService, AIMessage } from '@/lib/ai-service';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { aiService, AIMessage, AIResponse } from '@/lib/ai-service';
 import { createCachedResponse, CacheDurations } from '@/lib/cache';
 import { createApiErrorHandler } from '@/lib/api-error-handler';
 import { NeonDatabaseService } from '@/lib/neon-database';
+import { encodeServerSentEvent } from '@/lib/ai/streaming/ServerSentEvents';
+import { ConversationMemoryService } from '@/lib/ai/memory/ConversationMemoryService';
+import { OversightService } from '@/lib/ai/oversight/OversightService';
+import { InterventionService } from '@/lib/ai/interventions/InterventionService';
+import {
+  AITherapyAssistant,
+  ChatTurnResult,
+  ConversationContext,
+  Message,
+  SupportedLanguage,
+} from '@/lib/ai/core/AITherapyAssistant';
 
 interface ChatRequest {
   message: string;
   conversationHistory?: AIMessage[];
-  provider?: 'openai' | 'gemini';
+  provider?: string;
   sessionId?: string;
   systemPrompt?: string;
   therapistId?: string;
   therapistName?: string;
+  language?: SupportedLanguage;
+  stream?: boolean;
+  consent?: {
+    termsAccepted?: boolean;
+    dataProcessing?: boolean;
+  };
+}
+
+const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['en', 'es', 'fr', 'de', 'pt'];
+
+const CRISIS_RESOURCES = `\n\n🚨 **Immediate Support Available**\n\nIf you're having thoughts of self-harm, please reach out for immediate help:\n• Crisis Text Line: Text HOME to 741741\n• National Suicide Prevention Lifeline: 988\n• Emergency Services: 911\n\nYou don't have to go through this alone. Professional help is available 24/7.`;
+
+/**
+ * Conversation context for the safety pipeline. Signed-in users accepted the
+ * terms and privacy policy at registration; anonymous visitors and AI data
+ * processing consent come from the chat consent prompt. History comes from
+ * server-side memory when the user has it turned on, otherwise from the client.
+ */
+function buildConversationContext(
+  body: ChatRequest,
+  sessionId: string,
+  session: Session | null,
+  rememberedHistory: Message[] | null
+): ConversationContext {
+  const userId = session?.user?.id ?? `anonymous:${sessionId}`;
+  const language = body.language && SUPPORTED_LANGUAGES.includes(body.language) ? body.language : 'en';
+
+  return {
+    userId,
+    sessionId,
+    language,
+    conversationHistory: rememberedHistory ?? (body.conversationHistory ?? []).map((entry, index) => ({
+      id: `${sessionId}_${index}`,
+      role: entry.role,
+      content: entry.content,
+      timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date(),
+    })),
+    userProfile: {
+      id: userId,
+      preferredName: session?.user?.name ?? 'there',
+      preferences: {
+        communicationStyle: 'supportive',
+        interventionTypes: [],
+        privacyLevel: 'standard',
+        dataRetention: 90,
+      },
+      consentStatus: {
+        termsAccepted: !!session?.user || body.consent?.termsAccepted === true,
+        dataProcessing: body.consent?.dataProcessing === true,
+        emergencyContact: false,
+        timestamp: new Date(),
+      },
+    },
+  };
+}
+
+function toProviderHistory(history: Message[]): AIMessage[] {
+  return history.map(entry => ({
+    role: entry.role,
+    content: entry.content,
+    timestamp: entry.timestamp,
+  }));
+}
+
+interface TurnRecordOptions {
+  dbService: NeonDatabaseService;
+  sessionId: string;
+  userId?: string;
+  message: string;
+  provider?: string;
+  therapistId?: string;
+  therapistName?: string;
+  memory?: ConversationMemoryService;
+}
+
+/**
+ * Persist the assistant's side of a finished turn, log crisis events and
+ * build the response data returned to the client (or as the final SSE event)
+ */
+async function recordTurn(turn: ChatTurnResult<AIResponse>, options: TurnRecordOptions) {
+  const { dbService, sessionId } = options;
+  const aiResponse = turn.reply;
+  const provider = aiResponse?.provider ?? options.provider;
+  const riskLevel = aiResponse?.riskLevel === 'critical' ? 'critical' : turn.riskLevel;
+  let responseText = turn.message;
+
+  // Log for monitoring (without sensitive content)
+  console.log(
+    `AI Response: model=${aiResponse?.model ?? 'none'}, risk=${riskLevel}, safety=${turn.safety.action}, confidence=${aiResponse?.confidence}`
+  );
+
+  // Log AI response to database
+  try {
+    await dbService.saveAIChatMessage({
+      sessionId,
+      role: 'assistant',
+      content: responseText,
+      aiModel: aiResponse?.model,
+      confidenceScore: aiResponse?.confidence,
+      riskAssessment: riskLevel,
+      metadata: {
+        provider,
+        tokens: aiResponse?.tokens,
+        safety: turn.safety,
+        processingTime: Date.now(),
+        timestamp: new Date().toISOString(),
+        therapistId: options.therapistId,
+        therapistName: options.therapistName
+      }
+    });
+  } catch (dbError) {
+    console.error('Failed to log AI response to database:', dbError);
+  }
+
+  // Remember the turn for users with memory on (nothing was exchanged without consent)
+  if (options.memory && options.userId && !turn.safety.reasons.includes('consent_required')) {
+    try {
+      await options.memory.remember(options.userId, sessionId, [
+        { role: 'user', content: options.message },
+        { role: 'assistant', content: turn.message }
+      ]);
+    } catch (memoryError) {
+      console.error('Failed to update AI memory:', memoryError);
+    }
+  }
+
+  // Check for crisis situations
+  if (riskLevel === 'critical') {
+    console.warn(`CRISIS DETECTED: Session ${sessionId} - Risk Level: ${riskLevel}`);
+    
+    // Log crisis event to database
+    try {
+      await dbService.logCrisisEvent({
+        userId: options.userId,
+        sessionId,
+        triggerContent: options.message,
+        riskLevel,
+        aiAssessment: {
+          response: responseText,
+          model: aiResponse?.model,
+          confidence: aiResponse?.confidence,
+          provider,
+          safetyAction: turn.safety.action
+        },
+        interventionType: 'automated',
+        interventionData: {
+          action: 'crisis_resources_added',
+          humanHandoffNeeded: turn.humanHandoffNeeded,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (dbError) {
+      console.error('Failed to log crisis event to database:', dbError);
+    }
+    
+    // Add crisis resources to response
+    responseText += CRISIS_RESOURCES;
+  }
+
+  return {
+    response: responseText,
+    model: aiResponse?.model,
+    provider,
+    confidence: aiResponse?.confidence,
+    riskLevel,
+    tokens: aiResponse?.tokens,
+    safety: turn.safety,
+    escalationRequired: turn.escalationRequired,
+    humanHandoffNeeded: turn.humanHandoffNeeded,
+    memoryEnabled: !!options.memory,
+    timestamp: new Date().toISOString(),
+    sessionId,
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: ChatRequest = await request.json();
-    const { message, conversationHistory = [], provider = 'openai', sessionId, systemPrompt, therapistId, therapistName } = body;
+    const { message, provider, sessionId, systemPrompt, therapistId, therapistName } = body;
     
     // Initialize database service
     const dbService = new NeonDatabaseService();
@@ -36,31 +225,23 @@ export async function POST(request: NextRequest) {
 
     // Check if AI services are configured
     const aiConfig = aiService.isConfigured();
-    if (!aiConfig.openai && !aiConfig.gemini) {
+    if (!Object.values(aiConfig).some(Boolean)) {
       return createApiErrorHandler(
         'AI_NOT_CONFIGURED', 
-        'AI services are not configured. Please add API keys.', 
-        503
-      );
-    }
-
-    if (provider === 'openai' && !aiConfig.openai) {
-      return createApiErrorHandler(
-        'OPENAI_NOT_CONFIGURED', 
-        'OpenAI API key not configured', 
+        'AI services are not configured. Please add API keys or a local model.', 
         503
       );
     }
 
-    if (provider === 'gemini' && !aiConfig.gemini) {
+    if (provider && !aiConfig[provider]) {
       return createApiErrorHandler(
-        'GEMINI_NOT_CONFIGURED', 
-        'Gemini API key not configured', 
+        `${provider.toUpperCase()}_NOT_CONFIGURED`, 
+        `AI provider "${provider}" is not configured`, 
         503
       );
     }
 
-    console.log(`AI Chat request: provider=${provider}, message length=${message.length}`);
+    console.log(`AI Chat request: provider=${provider ?? aiService.getDefaultProvider()}, message length=${message.length}`);
 
     // Create or get session ID
     const currentSessionId = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -83,95 +264,103 @@ export async function POST(request: NextRequest) {
       console.error('Failed to log user message to database:', dbError);
     }
 
-    // Generate AI response (allow persona/system prompt override)
-    const aiResponse = systemPrompt
-      ? await aiService.generateResponse(
-          [
-            ...conversationHistory,
-            { role: 'user', content: message, timestamp: new Date() },
-          ],
-          { provider, systemPrompt, temperature: 0.7, maxTokens: 800 }
-        )
-      : await aiService.getTherapyResponse(
-          message,
-          conversationHistory,
-          provider
-        );
-
-    // Log for monitoring (without sensitive content)
-    console.log(`AI Response: model=${aiResponse.model}, risk=${aiResponse.riskLevel}, confidence=${aiResponse.confidence}`);
-
-    // Log AI response to database
-    try {
-      await dbService.saveAIChatMessage({
-        sessionId: currentSessionId,
-        role: 'assistant',
-        content: aiResponse.content,
-        aiModel: aiResponse.model,
-        confidenceScore: aiResponse.confidence,
-        riskAssessment: aiResponse.riskLevel,
-        metadata: {
-          provider,
-          tokens: aiResponse.tokens,
-          processingTime: Date.now(),
-          timestamp: new Date().toISOString(),
-          therapistId,
-          therapistName
-        }
-      });
-    } catch (dbError) {
-      console.error('Failed to log AI response to database:', dbError);
+    // Generate the AI response inside the safety pipeline (allow persona/system prompt override)
+    const session = await getServerSession(authOptions) as Session | null;
+    const userId = session?.user?.id;
+    let memory: ConversationMemoryService | undefined;
+    let rememberedHistory: Message[] | null = null;
+    if (userId) {
+      try {
+        rememberedHistory = await ConversationMemoryService.getInstance().loadHistory(userId);
+        memory = rememberedHistory ? ConversationMemoryService.getInstance() : undefined;
+      } catch (memoryError) {
+        console.error('Failed to load AI memory, using client history:', memoryError);
+      }
     }
+    const context = buildConversationContext(body, currentSessionId, session, rememberedHistory);
+    const assistant = AITherapyAssistant.getInstance();
+    // Conversations the assistant flags are stored for the reviewer console
+    OversightService.getInstance();
+    // Interventions it offers are stored with the user's ratings
+    InterventionService.getInstance();
+    const recordOptions: TurnRecordOptions = {
+      dbService,
+      sessionId: currentSessionId,
+      userId,
+      message,
+      provider,
+      therapistId,
+      therapistName,
+      memory,
+    };
 
-    // Check for crisis situations
-    if (aiResponse.riskLevel === 'critical') {
-      console.warn(`CRISIS DETECTED: Session ${currentSessionId} - Risk Level: ${aiResponse.riskLevel}`);
-      
-      // Log crisis event to database
-      try {
-        await dbService.logCrisisEvent({
-          sessionId: currentSessionId,
-          triggerContent: message,
-          riskLevel: aiResponse.riskLevel as 'medium' | 'high' | 'critical',
-          aiAssessment: {
-            response: aiResponse.content,
-            model: aiResponse.model,
-            confidence: aiResponse.confidence,
-            provider
-          },
-          interventionType: 'automated',
-          interventionData: {
-            action: 'crisis_resources_added',
-            timestamp: new Date().toISOString()
+    // Token streaming as Server-Sent Events
+    if (body.stream || request.headers.get('accept')?.includes('text/event-stream')) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: string, data: unknown) =>
+            controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+
+          try {
+            send('start', { sessionId: currentSessionId });
+            const turn = await assistant.processStreamingTurn(
+              message,
+              context,
+              ({ message: safeMessage, history }, { onDelta, signal }) =>
+                systemPrompt
+                  ? aiService.streamResponse(
+                      [...toProviderHistory(history), { role: 'user', content: safeMessage, timestamp: new Date() }],
+                      { provider, systemPrompt, temperature: 0.7, maxTokens: 800 },
+                      { onDelta, signal }
+                    )
+                  : aiService.streamTherapyResponse(safeMessage, toProviderHistory(history), provider, { onDelta, signal }),
+              event => send(event.type, event)
+            );
+            send('done', await recordTurn(turn, recordOptions));
+          } catch (error) {
+            console.error('AI Chat stream error:', error);
+            send('error', { error: 'AI_SERVICE_ERROR', message: 'AI service temporarily unavailable' });
+          } finally {
+            controller.close();
           }
-        });
-      } catch (dbError) {
-        console.error('Failed to log crisis event to database:', dbError);
-      }
-      
-      // Add crisis resources to response
-      aiResponse.content += `\n\n🚨 **Immediate Support Available**\n\nIf you're having thoughts of self-harm, please reach out for immediate help:\n• Crisis Text Line: Text HOME to 741741\n• National Suicide Prevention Lifeline: 988\n• Emergency Services: 911\n\nYou don't have to go through this alone. Professional help is available 24/7.`;
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+        },
+      });
     }
 
+    const turn = await assistant.processTurn(message, context, ({ message: safeMessage, history }) =>
+      systemPrompt
+        ? aiService.generateResponse(
+            [...toProviderHistory(history), { role: 'user', content: safeMessage, timestamp: new Date() }],
+            { provider, systemPrompt, temperature: 0.7, maxTokens: 800 }
+          )
+        : aiService.getTherapyResponse(safeMessage, toProviderHistory(history), provider)
+    );
+
     // Prepare response data
     const responseData = {
       success: true,
-      data: {
-        response: aiResponse.content,
-        model: aiResponse.model,
-        provider,
-        confidence: aiResponse.confidence,
-        riskLevel: aiResponse.riskLevel,
-        tokens: aiResponse.tokens,
-        timestamp: new Date().toISOString(),
-        sessionId: currentSessionId,
-      },
+      data: await recordTurn(turn, recordOptions),
       metadata: {
         aiConfigured: aiConfig,
         responseTime: Date.now(),
       }
     };
 
+    // Safety outcomes depend on the user's consent and history, so only
+    // plain allowed turns are cached
+    if (responseData.data.safety.action !== 'allowed') {
+      return NextResponse.json(responseData, { headers: { 'Cache-Control': 'no-store' } });
+    }
+
     // Cache response briefly for identical requests
     const cacheKey = `ai_chat_${Buffer.from(message).toString('base64').slice(0, 32)}`;
     
@@ -210,22 +399,25 @@ export async function POST(request: NextRequest) {
 // GET endpoint for checking AI service status
 export async function GET() {
   try {
-    const aiConfig = aiService.isConfigured();
+    const health = aiService.getHealth();
     
     return createCachedResponse({
       success: true,
       data: {
-        services: {
-          openai: {
-            configured: aiConfig.openai,
-            status: aiConfig.openai ? 'available' : 'not configured'
-          },
-          gemini: {
-            configured: aiConfig.gemini,
-            status: aiConfig.gemini ? 'available' : 'not configured'
-          }
-        },
-        defaultProvider: aiConfig.openai ? 'openai' : aiConfig.gemini ? 'gemini' : 'none',
+        services: Object.fromEntries(
+          health.providers.map(provider => [
+            provider.id,
+            {
+              configured: provider.configured,
+              external: provider.external,
+              status: !provider.configured
+                ? 'not configured'
+                : provider.circuit === 'open' ? 'unavailable' : 'available'
+            }
+          ])
+        ),
+        defaultProvider: health.defaultProvider ?? 'none',
+        externalProvidersAllowed: health.externalProvidersAllowed,
         lastChecked: new Date().toISOString()
       }
     }, CacheDurations.SHORT, {
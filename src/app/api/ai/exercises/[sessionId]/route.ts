@@ -0,0 +1,115 @@
+// AI Guided Exercise API Endpoint
+// One guided exercise: load it on any device, answer the current step, go
+// back, pause, resume or stop. Each change carries the version the device
+// last saw so two devices cannot overwrite each other's progress.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError, ValidationError } from '@/lib/error-handling/error-types';
+import { ExerciseService } from '@/lib/ai/interventions/ExerciseService';
+
+const ExerciseActionSchema = z.object({
+  version: z.number().int().min(0),
+  deviceId: z.string().max(100).optional(),
+  action: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('submit'),
+      input: z.record(z.string(), z.unknown()),
+      saveToJournal: z.boolean().optional()
+    }),
+    z.object({ type: z.literal('back') }),
+    z.object({ type: z.literal('pause') }),
+    z.object({ type: z.literal('resume') }),
+    z.object({ type: z.literal('abandon') })
+  ])
+});
+
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions) as Session | null;
+  return session?.user?.id ?? null;
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  // Step answers that failed validation, one message per field
+  if (error instanceof ValidationError) {
+    return NextResponse.json({ error: error.message, details: error.validationErrors }, { status: 400 });
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/exercises/[sessionId] - The exercise and the user's answers so far
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const exercise = await ExerciseService.getInstance().get(userId, params.sessionId);
+    return NextResponse.json({ success: true, data: exercise }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return handleError(error, 'Failed to load exercise');
+  }
+}
+
+// PATCH /api/ai/exercises/[sessionId] - Answer, go back, pause, resume or stop
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { version, deviceId, action } = ExerciseActionSchema.parse(await request.json());
+    const exercise = await ExerciseService.getInstance().act(userId, params.sessionId, version, action, deviceId);
+
+    if (exercise.status === 'completed' || exercise.status === 'abandoned' || exercise.crisisSupport) {
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId,
+          action: exercise.crisisSupport
+            ? 'AI_EXERCISE_CRISIS_SUPPORT_SHOWN'
+            : exercise.status === 'completed' ? 'AI_EXERCISE_COMPLETED' : 'AI_EXERCISE_ABANDONED',
+          resource: 'AIExerciseSession',
+          resourceId: exercise.id,
+          outcome: 'SUCCESS',
+          details: {
+            interventionId: exercise.interventionId,
+            currentStep: exercise.currentStep,
+            journalEntryId: exercise.journalEntryId,
+            ...(exercise.crisisSupport && { severity: exercise.crisisSupport.severity })
+          }
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, data: exercise });
+  } catch (error) {
+    return handleError(error, 'Failed to update exercise');
+  }
+}
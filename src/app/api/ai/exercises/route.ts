@@ -0,0 +1,92 @@
+// AI Guided Exercises API Endpoint
+// The guided exercises a signed-in user can do, the ones they have started
+// and not finished, and starting (or picking up) an exercise.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError } from '@/lib/error-handling/error-types';
+import { ExerciseService } from '@/lib/ai/interventions/ExerciseService';
+
+const StartExerciseSchema = z.object({
+  interventionId: z.string().min(1),
+  deviceId: z.string().max(100).optional()
+});
+
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions) as Session | null;
+  return session?.user?.id ?? null;
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/exercises - Guided exercises and the user's unfinished ones
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = ExerciseService.getInstance();
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          exercises: service.listExercises(),
+          unfinished: await service.listUnfinished(userId)
+        }
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    return handleError(error, 'Failed to load guided exercises');
+  }
+}
+
+// POST /api/ai/exercises - Start an exercise, or resume the one under way
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { interventionId, deviceId } = StartExerciseSchema.parse(await request.json());
+    const exercise = await ExerciseService.getInstance().start(userId, interventionId, deviceId);
+
+    await (prisma.auditLog as any).create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId,
+        action: 'AI_EXERCISE_STARTED',
+        resource: 'AIExerciseSession',
+        resourceId: exercise.id,
+        outcome: 'SUCCESS',
+        details: { interventionId, currentStep: exercise.currentStep }
+      }
+    });
+
+    return NextResponse.json({ success: true, data: exercise });
+  } catch (error) {
+    return handleError(error, 'Failed to start exercise');
+  }
+}
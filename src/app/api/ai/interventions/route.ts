@@ -0,0 +1,90 @@
+// AI Interventions API Endpoint
+// Lets signed-in users see the exercises the AI assistant has offered them
+// and rate them. A low rating keeps an exercise from being offered again.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError } from '@/lib/error-handling/error-types';
+import { InterventionService } from '@/lib/ai/interventions/InterventionService';
+
+const RateInterventionSchema = z.object({
+  interventionId: z.string().min(1),
+  rating: z.number().int().min(1).max(5).optional(),
+  helpful: z.boolean().optional(),
+  completed: z.boolean().optional()
+}).refine(
+  feedback => feedback.rating !== undefined || feedback.helpful !== undefined || feedback.completed !== undefined,
+  { message: 'Provide a rating, helpful or completed' }
+);
+
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions) as Session | null;
+  return session?.user?.id ?? null;
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/interventions?limit=20 - Exercises offered, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = z.coerce.number().int().min(1).max(50).catch(20)
+      .parse(request.nextUrl.searchParams.get('limit') ?? undefined);
+    const history = await InterventionService.getInstance().getHistory(userId, limit);
+    return NextResponse.json({ success: true, data: history }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return handleError(error, 'Failed to load intervention history');
+  }
+}
+
+// POST /api/ai/interventions - Rate an exercise
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { interventionId, ...feedback } = RateInterventionSchema.parse(await request.json());
+    const outcome = await InterventionService.getInstance().rate(userId, interventionId, feedback);
+
+    await (prisma.auditLog as any).create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId,
+        action: 'AI_INTERVENTION_RATED',
+        resource: 'AIInterventionOutcome',
+        resourceId: outcome.id,
+        outcome: 'SUCCESS',
+        details: { interventionId, ...feedback }
+      }
+    });
+
+    return NextResponse.json({ success: true, data: outcome });
+  } catch (error) {
+    return handleError(error, 'Failed to rate intervention');
+  }
+}
@@ -0,0 +1,112 @@
+// AI Memory API Endpoint
+// Lets signed-in users see what the AI assistant remembers about them, turn
+// memory on or off, and delete remembered messages or the summary.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError } from '@/lib/error-handling/error-types';
+import { ConversationMemoryService } from '@/lib/ai/memory/ConversationMemoryService';
+
+const UpdateMemorySchema = z.object({
+  enabled: z.boolean()
+});
+
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions) as Session | null;
+  return session?.user?.id ?? null;
+}
+
+async function audit(userId: string, action: string, details: Record<string, unknown>) {
+  await (prisma.auditLog as any).create({
+    data: {
+      id: generatePrismaCreateFields().id,
+      userId,
+      action,
+      resource: 'AIConversationMemory',
+      resourceId: userId,
+      outcome: 'SUCCESS',
+      details
+    }
+  });
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/memory - What the assistant remembers
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const memory = await ConversationMemoryService.getInstance().getMemory(userId);
+    return NextResponse.json({ success: true, data: memory }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return handleError(error, 'Failed to load AI memory');
+  }
+}
+
+// PUT /api/ai/memory - Turn memory on or off; turning it off deletes it
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { enabled } = UpdateMemorySchema.parse(await request.json());
+    const memory = await ConversationMemoryService.getInstance().setConsent(userId, enabled);
+    await audit(userId, enabled ? 'AI_MEMORY_ENABLED' : 'AI_MEMORY_DISABLED', { enabled });
+
+    return NextResponse.json({ success: true, data: memory });
+  } catch (error) {
+    return handleError(error, 'Failed to update AI memory');
+  }
+}
+
+// DELETE /api/ai/memory?messageId=... | ?scope=summary | (everything)
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = ConversationMemoryService.getInstance();
+    const messageId = request.nextUrl.searchParams.get('messageId');
+    const scope = messageId ? 'message' : request.nextUrl.searchParams.get('scope') === 'summary' ? 'summary' : 'all';
+
+    if (messageId) {
+      await service.forgetMessage(userId, messageId);
+    } else if (scope === 'summary') {
+      await service.forgetSummary(userId);
+    } else {
+      await service.forgetAll(userId);
+    }
+    await audit(userId, 'AI_MEMORY_DELETED', { scope });
+
+    return NextResponse.json({ success: true, data: await service.getMemory(userId) });
+  } catch (error) {
+    return handleError(error, 'Failed to delete AI memory');
+  }
+}
@@ -0,0 +1,149 @@
+// AI Oversight Request API Endpoint
+// A flagged AI conversation for a licensed reviewer: view it, claim it, add
+// notes and resolve it, optionally scheduling a follow-up. Every access is
+// audited so the oversight trail can be shown.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError } from '@/lib/error-handling/error-types';
+import { OversightService } from '@/lib/ai/oversight/OversightService';
+
+const REVIEWER_ROLES = ['THERAPIST', 'CRISIS_COUNSELOR'];
+
+const ResolutionActionSchema = z.enum([
+  'human_takeover',
+  'provided_guidance',
+  'referred_to_professional',
+  'crisis_intervention',
+  'no_action_needed',
+  'system_override'
+]);
+
+const FollowUpSchema = z.object({
+  type: z.enum(['check_in', 'schedule_appointment', 'monitor', 'transfer_care']),
+  timeline: z.string().min(1).max(100),
+  // Defaults to the reviewer resolving the request
+  assignedTo: z.string().min(1).optional()
+});
+
+const OversightActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('claim') }),
+  z.object({ action: z.literal('annotate'), note: z.string().trim().min(1).max(5000) }),
+  z.object({
+    action: z.literal('resolve'),
+    resolution: ResolutionActionSchema,
+    notes: z.string().trim().min(1).max(5000),
+    followUp: FollowUpSchema.optional()
+  })
+]);
+
+async function getReviewerId(): Promise<string | NextResponse> {
+  const session = await getServerSession(authOptions) as Session | null;
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!REVIEWER_ROLES.includes(session.user.role)) {
+    return NextResponse.json({ error: 'Forbidden - Licensed staff only' }, { status: 403 });
+  }
+  return session.user.id;
+}
+
+async function audit(userId: string, action: string, requestId: string, details: Record<string, unknown>) {
+  await (prisma.auditLog as any).create({
+    data: {
+      id: generatePrismaCreateFields().id,
+      userId,
+      action,
+      resource: 'AIOversightRequest',
+      resourceId: requestId,
+      outcome: 'SUCCESS',
+      details
+    }
+  });
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/oversight/[requestId] - The flagged conversation and its review
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const reviewerId = await getReviewerId();
+    if (reviewerId instanceof NextResponse) return reviewerId;
+
+    const oversightRequest = await OversightService.getInstance().get(params.requestId);
+    await audit(reviewerId, 'AI_OVERSIGHT_VIEWED', params.requestId, { status: oversightRequest.status });
+
+    return NextResponse.json({ success: true, data: oversightRequest }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return handleError(error, 'Failed to load oversight request');
+  }
+}
+
+// POST /api/ai/oversight/[requestId] - Claim, annotate or resolve
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { requestId: string } }
+) {
+  try {
+    const reviewerId = await getReviewerId();
+    if (reviewerId instanceof NextResponse) return reviewerId;
+
+    const input = OversightActionSchema.parse(await request.json());
+    const service = OversightService.getInstance();
+
+    switch (input.action) {
+      case 'claim': {
+        const claimed = await service.claim(params.requestId, reviewerId);
+        await audit(reviewerId, 'AI_OVERSIGHT_CLAIMED', params.requestId, { slaState: claimed.slaState });
+        return NextResponse.json({ success: true, data: claimed });
+      }
+
+      case 'annotate': {
+        const note = await service.annotate(params.requestId, reviewerId, input.note);
+        await audit(reviewerId, 'AI_OVERSIGHT_NOTE_ADDED', params.requestId, { noteId: note.id });
+        return NextResponse.json({ success: true, data: note }, { status: 201 });
+      }
+
+      case 'resolve': {
+        const followUp = input.followUp && {
+          ...input.followUp,
+          assignedTo: input.followUp.assignedTo ?? reviewerId
+        };
+        const resolved = await service.resolve(params.requestId, reviewerId, {
+          action: input.resolution,
+          notes: input.notes,
+          followUp
+        });
+        await audit(reviewerId, 'AI_OVERSIGHT_RESOLVED', params.requestId, {
+          resolution: input.resolution,
+          followUp: followUp ? { type: followUp.type, timeline: followUp.timeline, assignedTo: followUp.assignedTo } : null
+        });
+        return NextResponse.json({ success: true, data: resolved });
+      }
+    }
+  } catch (error) {
+    return handleError(error, 'Failed to update oversight request');
+  }
+}
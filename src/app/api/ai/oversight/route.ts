@@ -0,0 +1,116 @@
+// AI Oversight API Endpoint
+// Review queues of AI conversations flagged for human oversight, the
+// reviewer's follow-ups, and the oversight report. Reviewing is limited to
+// licensed staff; administrators may also read the report.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { AppError } from '@/lib/error-handling/error-types';
+import { OversightService } from '@/lib/ai/oversight/OversightService';
+
+const REVIEWER_ROLES = ['THERAPIST', 'CRISIS_COUNSELOR'];
+const REPORT_ROLES = [...REVIEWER_ROLES, 'ADMIN', 'SUPER_ADMIN'];
+
+const REPORT_DEFAULT_DAYS = 30;
+
+const ListQuerySchema = z.object({
+  view: z.enum(['queue', 'follow-ups', 'report']).default('queue'),
+  queue: z.enum(['open', 'mine', 'resolved']).default('open'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const FollowUpUpdateSchema = z.object({
+  followUpId: z.string().min(1),
+  status: z.enum(['completed', 'cancelled'])
+});
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid input', details: error.issues },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof AppError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/ai/oversight - Review queue, follow-ups or the oversight report
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = ListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+    const allowed = query.view === 'report' ? REPORT_ROLES : REVIEWER_ROLES;
+    if (!allowed.includes(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Licensed staff only' }, { status: 403 });
+    }
+
+    const service = OversightService.getInstance();
+    const headers = { 'Cache-Control': 'no-store' };
+
+    if (query.view === 'report') {
+      const to = query.to ?? new Date();
+      const from = query.from ?? new Date(to.getTime() - REPORT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+      const report = await service.getReport(from, to);
+      return NextResponse.json({ success: true, data: report }, { headers });
+    }
+
+    if (query.view === 'follow-ups') {
+      const followUps = await service.listFollowUps(session.user.id);
+      return NextResponse.json({ success: true, data: followUps }, { headers });
+    }
+
+    const requests = await service.list(query.queue, session.user.id, query.limit);
+    return NextResponse.json({ success: true, data: requests }, { headers });
+  } catch (error) {
+    return handleError(error, 'Failed to load oversight requests');
+  }
+}
+
+// PATCH /api/ai/oversight - Complete or cancel a follow-up
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!REVIEWER_ROLES.includes(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Licensed staff only' }, { status: 403 });
+    }
+
+    const { followUpId, status } = FollowUpUpdateSchema.parse(await request.json());
+    const followUp = await OversightService.getInstance().completeFollowUp(followUpId, session.user.id, status);
+
+    await (prisma.auditLog as any).create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId: session.user.id,
+        action: status === 'completed' ? 'AI_OVERSIGHT_FOLLOW_UP_COMPLETED' : 'AI_OVERSIGHT_FOLLOW_UP_CANCELLED',
+        resource: 'AIOversightFollowUp',
+        resourceId: followUpId,
+        outcome: 'SUCCESS',
+        details: { requestId: followUp.requestId, type: followUp.type }
+      }
+    });
+
+    return NextResponse.json({ success: true, data: followUp });
+  } catch (error) {
+    return handleError(error, 'Failed to update follow-up');
+  }
+}
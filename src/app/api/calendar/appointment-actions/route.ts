@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+import { availabilityService } from '@/lib/scheduling/availability-service';
+
+// Validation schemas
+const lookupSchema = z.object({
+  token: z.string().min(1),
+  action: z.enum(['confirm', 'cancel', 'reschedule']).optional(),
+});
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({ token: z.string().min(1), action: z.literal('confirm') }),
+  z.object({ token: z.string().min(1), action: z.literal('cancel'), reason: z.string().max(500).optional() }),
+  z.object({ token: z.string().min(1), action: z.literal('reschedule'), newStart: z.string().datetime() }),
+]);
+
+// Reschedule options shown from a reminder link
+const RESCHEDULE_SEARCH_DAYS = 14;
+
+function invalidLink() {
+  return NextResponse.json(
+    { error: 'Not Found', message: 'This link is invalid or has expired' },
+    { status: 404 }
+  );
+}
+
+// GET /api/calendar/appointment-actions - the appointment behind a reminder link.
+// Links are opened by mail scanners too, so GET never changes anything.
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 30, identifier);
+
+    const params = validateInput(lookupSchema, {
+      token: req.nextUrl.searchParams.get('token'),
+      action: req.nextUrl.searchParams.get('action') || undefined,
+    });
+
+    const appointment = await attendanceService.resolveActionToken(params.token);
+    if (!appointment) return invalidLink();
+
+    const [policy, options] = await Promise.all([
+      attendanceService.getPolicy(appointment.professionalId),
+      params.action === 'reschedule'
+        ? availabilityService.searchSlots(
+          appointment.professionalId,
+          appointment.type,
+          new Date(),
+          new Date(Date.now() + RESCHEDULE_SEARCH_DAYS * 24 * 60 * 60 * 1000)
+        ).catch(() => null)
+        : Promise.resolve(null),
+    ]);
+
+    return successResponse(
+      {
+        appointmentId: appointment.id,
+        scheduledAt: appointment.scheduledAt,
+        duration: appointment.duration,
+        status: appointment.status,
+        lateCancelHours: policy.lateCancelHours,
+        lateCancelFee: policy.lateCancelFee,
+        rescheduleOptions: options
+          ? { timeZone: options.timeZone, slots: options.slots.map(slot => slot.start) }
+          : undefined,
+      },
+      'Appointment retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve appointment');
+  }
+}
+
+// POST /api/calendar/appointment-actions - confirm, cancel or reschedule from a reminder
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 10, identifier);
+
+    const body = await req.json();
+    const data = validateInput(actionSchema, body);
+
+    const appointment = await attendanceService.resolveActionToken(data.token);
+    if (!appointment) return invalidLink();
+
+    let result: Record<string, unknown>;
+    switch (data.action) {
+      case 'confirm': {
+        const confirmed = await attendanceService.confirmAppointment(appointment.id);
+        result = { appointmentId: confirmed.id, status: confirmed.status };
+        break;
+      }
+      case 'cancel': {
+        const { appointment: cancelled, fee } = await attendanceService.cancelByClient(appointment.id, data.reason);
+        result = { appointmentId: cancelled.id, status: cancelled.status, lateCancellation: cancelled.lateCancellation, fee };
+        break;
+      }
+      case 'reschedule': {
+        const rescheduled = await attendanceService.rescheduleByClient(appointment.id, new Date(data.newStart));
+        result = {
+          appointmentId: rescheduled.appointment.id,
+          previousAppointmentId: rescheduled.previousAppointmentId,
+          scheduledAt: rescheduled.appointment.scheduledAt,
+          status: rescheduled.appointment.status,
+          fee: rescheduled.fee,
+        };
+        break;
+      }
+    }
+
+    // Audit log
+    await (auditLog as any)(
+      appointment.userId,
+      `${data.action}_appointment_from_reminder`,
+      'therapy_appointments',
+      appointment.id,
+      { professionalId: appointment.professionalId },
+      'success',
+      req
+    );
+
+    return successResponse(result, `Appointment ${data.action === 'confirm' ? 'confirmed' : data.action === 'cancel' ? 'cancelled' : 'rescheduled'} successfully`);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update appointment');
+  }
+}
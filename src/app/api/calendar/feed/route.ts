@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calendarFeedService } from '@/lib/scheduling/calendar-feed-service';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+
+// GET /api/calendar/feed?token=... - ICS subscription feed.
+// Authenticated by the signed token, since calendar apps cannot send sessions.
+export async function GET(req: NextRequest) {
+  try {
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 10, identifier);
+
+    const token = req.nextUrl.searchParams.get('token');
+    const userId = token ? await calendarFeedService.resolveFeedToken(token) : null;
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or revoked calendar feed token' },
+        { status: 401 }
+      );
+    }
+
+    const calendar = await calendarFeedService.buildFeed(userId);
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="therapy-sessions.ics"',
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Error', message: 'Failed to build calendar feed' },
+      { status: 500 }
+    );
+  }
+}
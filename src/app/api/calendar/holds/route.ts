@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAuth,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { ValidationError } from '@/lib/error-handling/error-types';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+import { availabilityService } from '@/lib/scheduling/availability-service';
+
+// Validation schemas
+const createHoldSchema = z.object({
+  professionalId: z.string().min(1),
+  start: z.string().datetime(),
+  sessionType: z.enum(['initial', 'follow_up', 'teletherapy']),
+  location: z.enum(['office', 'virtual', 'phone']).default('virtual'),
+});
+
+const confirmHoldSchema = z.object({
+  holdId: z.string().min(1),
+  notes: z.string().max(1000).optional(),
+});
+
+const releaseHoldSchema = z.object({
+  holdId: z.string().min(1),
+});
+
+// POST /api/calendar/holds - hold an open slot while the client confirms
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 20, identifier);
+
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const body = await req.json();
+    const data = validateInput(createHoldSchema, body);
+
+    if (data.professionalId === userId) {
+      throw new ValidationError('Cannot book a session with yourself');
+    }
+
+    await availabilityService.assertClientCanBook(data.professionalId, userId, data.sessionType);
+
+    const hold = await availabilityService.holdSlot({
+      professionalId: data.professionalId,
+      clientId: userId,
+      start: new Date(data.start),
+      sessionType: data.sessionType,
+      location: data.sessionType === 'teletherapy' ? 'virtual' : data.location,
+    });
+
+    return successResponse(
+      {
+        holdId: hold.id,
+        start: hold.startsAt,
+        end: hold.endsAt,
+        sessionType: hold.sessionType,
+        location: hold.location,
+        expiresAt: hold.expiresAt,
+      },
+      'Slot held successfully',
+      201
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to hold slot');
+  }
+}
+
+// PUT /api/calendar/holds - confirm a held slot as an appointment
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 20, identifier);
+
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const body = await req.json();
+    const data = validateInput(confirmHoldSchema, body);
+
+    const appointment = await availabilityService.confirmHold(data.holdId, userId, data.notes);
+
+    try {
+      await attendanceService.scheduleReminders(appointment.id);
+    } catch (error) {
+      console.error('Failed to schedule appointment reminders:', error);
+    }
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'self_schedule_appointment',
+      'therapy_appointments',
+      appointment.id,
+      { professionalId: appointment.professionalId, type: appointment.type, holdId: data.holdId },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        id: appointment.id,
+        professionalId: appointment.professionalId,
+        scheduledAt: appointment.scheduledAt,
+        duration: appointment.duration,
+        type: appointment.type,
+        status: appointment.status,
+        meetingUrl: appointment.meetingUrl,
+      },
+      'Appointment booked successfully',
+      201
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to confirm booking');
+  }
+}
+
+// DELETE /api/calendar/holds - give a held slot back before it expires
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const data = validateInput(releaseHoldSchema, {
+      holdId: req.nextUrl.searchParams.get('holdId'),
+    });
+
+    await availabilityService.releaseHold(data.holdId, userId);
+
+    return successResponse({ holdId: data.holdId }, 'Slot released successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to release slot');
+  }
+}
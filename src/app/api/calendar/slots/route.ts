@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAuth,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { availabilityService } from '@/lib/scheduling/availability-service';
+
+// Validation schemas
+const searchSlotsSchema = z.object({
+  professionalId: z.string().min(1),
+  sessionType: z.enum(['initial', 'follow_up', 'teletherapy']).default('follow_up'),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+// Default search range when the client does not pick one
+const DEFAULT_SEARCH_DAYS = 14;
+
+// GET /api/calendar/slots - open times a client can book with a professional
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 60, identifier);
+
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+
+    const searchParams = req.nextUrl.searchParams;
+    const params = validateInput(searchSlotsSchema, {
+      professionalId: searchParams.get('professionalId'),
+      sessionType: searchParams.get('sessionType') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    });
+
+    const from = params.from ? new Date(params.from) : new Date();
+    const to = params.to
+      ? new Date(params.to)
+      : new Date(from.getTime() + DEFAULT_SEARCH_DAYS * 24 * 60 * 60 * 1000);
+
+    const result = await availabilityService.searchSlots(params.professionalId, params.sessionType, from, to);
+
+    return successResponse(
+      {
+        professionalId: params.professionalId,
+        sessionType: params.sessionType,
+        timeZone: result.timeZone,
+        durationMinutes: result.durationMinutes,
+        slots: result.slots.map(slot => ({ start: slot.start, end: slot.end })),
+      },
+      'Available slots retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve available slots');
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAuth,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+import { waitlistService } from '@/lib/scheduling/waitlist-service';
+
+// Validation schemas
+const respondSchema = z.object({
+  offerId: z.string().min(1),
+  action: z.enum(['claim', 'decline']),
+});
+
+// PUT /api/calendar/waitlist/offers - claim or decline a backfill offer
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 20, identifier);
+
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const body = await req.json();
+    const data = validateInput(respondSchema, body);
+
+    if (data.action === 'decline') {
+      await waitlistService.declineOffer(data.offerId, userId);
+      return successResponse({ offerId: data.offerId, status: 'declined' }, 'Offer declined');
+    }
+
+    const appointment = await waitlistService.claimOffer(data.offerId, userId);
+
+    try {
+      await attendanceService.scheduleReminders(appointment.id);
+    } catch (error) {
+      console.error('Failed to schedule appointment reminders:', error);
+    }
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'claim_waitlist_offer',
+      'therapy_appointments',
+      appointment.id,
+      { offerId: data.offerId, professionalId: appointment.professionalId },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        offerId: data.offerId,
+        status: 'claimed',
+        appointment: {
+          id: appointment.id,
+          scheduledAt: appointment.scheduledAt,
+          duration: appointment.duration,
+          type: appointment.type,
+          meetingUrl: appointment.meetingUrl,
+        },
+      },
+      'Appointment booked successfully',
+      201
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to respond to offer');
+  }
+}
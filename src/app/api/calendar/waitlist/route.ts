@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAuth,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { apiRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { waitlistService } from '@/lib/scheduling/waitlist-service';
+
+// Validation schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const joinWaitlistSchema = z.object({
+  professionalId: z.string().min(1),
+  preferredDays: z.array(z.number().int().min(0).max(6)).default([]),
+  preferredStartTime: timeOfDay.optional(),
+  preferredEndTime: timeOfDay.optional(),
+  sessionTypes: z.array(z.enum(['initial', 'follow_up', 'teletherapy'])).default([]),
+  modalities: z.array(z.enum(['office', 'virtual', 'phone'])).default([]),
+  earliestDate: z.string().datetime().optional(),
+  latestDate: z.string().datetime().optional(),
+});
+
+// GET /api/calendar/waitlist - the client's waitlist entries and open offers
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const { entries, offers } = await waitlistService.listForClient(userId);
+
+    return successResponse(
+      {
+        entries: entries.map(entry => ({
+          id: entry.id,
+          professionalId: entry.professionalId,
+          preferredDays: entry.preferredDays,
+          preferredStartTime: entry.preferredStartTime,
+          preferredEndTime: entry.preferredEndTime,
+          sessionTypes: entry.sessionTypes,
+          modalities: entry.modalities,
+          createdAt: entry.createdAt,
+        })),
+        offers: offers.map(offer => ({
+          id: offer.id,
+          professionalId: offer.professionalId,
+          slotStart: offer.slotStart,
+          duration: offer.duration,
+          sessionType: offer.sessionType,
+          modality: offer.modality,
+          expiresAt: offer.expiresAt,
+        })),
+      },
+      'Waitlist retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve waitlist');
+  }
+}
+
+// POST /api/calendar/waitlist - join a therapist's waitlist
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await apiRateLimiter.check(req, 10, identifier);
+
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const body = await req.json();
+    const data = validateInput(joinWaitlistSchema, body);
+
+    const entry = await waitlistService.joinWaitlist({
+      ...data,
+      earliestDate: data.earliestDate ? new Date(data.earliestDate) : undefined,
+      latestDate: data.latestDate ? new Date(data.latestDate) : undefined,
+      clientId: userId,
+      createdBy: userId,
+    });
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'join_waitlist',
+      'therapy_waitlist',
+      entry.id,
+      { professionalId: data.professionalId },
+      'success',
+      req
+    );
+
+    return successResponse({ id: entry.id, status: entry.status }, 'Joined waitlist successfully', 201);
+  } catch (error) {
+    return errorResponse(error, 'Failed to join waitlist');
+  }
+}
+
+// DELETE /api/calendar/waitlist - leave a waitlist
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const entryId = req.nextUrl.searchParams.get('entryId');
+    if (!entryId) {
+      return errorResponse(null, 'Entry ID is required');
+    }
+
+    await waitlistService.removeEntry(entryId, { clientId: userId });
+
+    return successResponse({ id: entryId }, 'Left waitlist successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to leave waitlist');
+  }
+}
@@ -4,6 +4,7 @@ import { getServerSession } from 'next-auth/next';
 import { Session } from 'next-auth';
 import { authOptions } from '@/lib/auth-simple';
 import { prisma } from '@/lib/prisma';
+import { crisisScreeningService } from '@/lib/crisis-screening/screening-service';
 import { z } from 'zod';
 
 // Schema for crisis client data
@@ -116,6 +117,10 @@ export async function GET(request: NextRequest) {
       take: limit
     });
 
+    const latestScreenings = await crisisScreeningService.getLatestForReports(
+      crisisReports.map(report => report.id)
+    );
+
     // Transform data to match expected format
     const clients = crisisReports.map(report => {
       const metadata = report.encryptedDetails as any || {};
@@ -143,7 +148,8 @@ export async function GET(request: NextRequest) {
         interventionHistory: metadata.interventionHistory || [],
         notes: metadata.notes || '',
         isMinor: metadata.isMinor || false,
-        guardianInfo: metadata.guardianInfo
+        guardianInfo: metadata.guardianInfo,
+        latestScreening: latestScreenings.get(report.id) ?? null
       };
     });
 
@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { prisma } from '@/lib/prisma';
+import { withCrisisCounselor, withRateLimit, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { getCounselorDirectory } from '@/lib/crisis-queue/prisma-directory';
+import { COUNSELOR_SPECIALTIES, CREDENTIAL_LEVELS } from '@/lib/crisis-queue/types';
+import { z } from 'zod';
+
+// Roles that take crisis alerts and so can have a routing profile
+const COUNSELOR_ROLES: UserRole[] = [UserRole.CRISIS_COUNSELOR, UserRole.THERAPIST, UserRole.ADMIN, UserRole.SUPER_ADMIN];
+const ADMIN_ROLES: string[] = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+// Routing profile schema
+const updateProfileSchema = z.object({
+  counselorId: z.string().optional(),
+  languages: z.array(z.string().regex(/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/)).min(1).max(20),
+  specialties: z.array(z.enum(COUNSELOR_SPECIALTIES)).max(COUNSELOR_SPECIALTIES.length),
+  credentialLevel: z.enum(CREDENTIAL_LEVELS).optional(),
+  maxConcurrentChats: z.number().int().min(1).max(10),
+});
+
+function isAdmin(req: AuthenticatedRequest): boolean {
+  return ADMIN_ROLES.includes(req.user!.role);
+}
+
+// GET /api/crisis/counselor-profile - Get a counselor's routing profile
+export const GET = withRateLimit(60, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const counselorId = req.nextUrl.searchParams.get('counselorId') || req.user!.id;
+      if (counselorId !== req.user!.id && !isAdmin(req)) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
+      const [profile] = await getCounselorDirectory().getProfiles([counselorId]);
+      if (!profile) {
+        return NextResponse.json({ error: 'Counselor not found' }, { status: 404 });
+      }
+
+      const stored = await prisma.crisisCounselorProfile.findUnique({ where: { userId: counselorId } });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...profile,
+          // False while routing falls back to the account's language and role
+          configured: stored !== null,
+          updatedAt: stored?.updatedAt ?? null,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching counselor profile:', error);
+      return NextResponse.json({ error: 'Failed to fetch counselor profile' }, { status: 500 });
+    }
+  })
+);
+
+// PUT /api/crisis/counselor-profile - Set languages, specialties and chat limit
+export const PUT = withRateLimit(20, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = updateProfileSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { counselorId = req.user!.id, ...data } = validation.data;
+      if (counselorId !== req.user!.id && !isAdmin(req)) {
+        return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+      }
+
+      // Credentials are verified by an administrator, not self-declared
+      if (data.credentialLevel && !isAdmin(req)) {
+        return NextResponse.json(
+          { error: 'Only an administrator can change a credential level' },
+          { status: 403 }
+        );
+      }
+
+      const counselor = await prisma.user.findUnique({
+        where: { id: counselorId },
+        select: { role: true },
+      });
+      if (!counselor || !COUNSELOR_ROLES.includes(counselor.role)) {
+        return NextResponse.json({ error: 'Counselor not found' }, { status: 404 });
+      }
+
+      const existing = await prisma.crisisCounselorProfile.findUnique({ where: { userId: counselorId } });
+      const languages = Array.from(new Set(data.languages.map(language => language.toLowerCase())));
+      const specialties = Array.from(new Set(data.specialties));
+      const profile = await prisma.crisisCounselorProfile.upsert({
+        where: { userId: counselorId },
+        create: {
+          id: generatePrismaCreateFields().id,
+          userId: counselorId,
+          languages,
+          specialties,
+          ...(data.credentialLevel && { credentialLevel: data.credentialLevel }),
+          maxConcurrentChats: data.maxConcurrentChats,
+          updatedBy: req.user!.id,
+        },
+        update: {
+          languages,
+          specialties,
+          ...(data.credentialLevel && { credentialLevel: data.credentialLevel }),
+          maxConcurrentChats: data.maxConcurrentChats,
+          updatedBy: req.user!.id,
+        },
+      });
+      getCounselorDirectory().invalidate(counselorId);
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'update_counselor_profile',
+          resource: 'crisis_counselor_profile',
+          resourceId: profile.id,
+          details: {
+            counselorId,
+            languages,
+            specialties,
+            credentialLevel: profile.credentialLevel,
+            maxConcurrentChats: profile.maxConcurrentChats,
+            previous: existing && {
+              languages: existing.languages,
+              specialties: existing.specialties,
+              credentialLevel: existing.credentialLevel,
+              maxConcurrentChats: existing.maxConcurrentChats,
+            },
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: profile,
+        message: 'Counselor profile updated',
+      });
+    } catch (error) {
+      console.error('Error updating counselor profile:', error);
+      return NextResponse.json({ error: 'Failed to update counselor profile' }, { status: 500 });
+    }
+  })
+);
@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { prisma } from '@/lib/prisma';
+import { withCrisisCounselor, withRateLimit, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { AppError } from '@/lib/error-handling/error-types';
+import { crisisHandoffService } from '@/lib/crisis-handoff/handoff-service';
+import { HANDOFF_KINDS, HANDOFF_REASONS } from '@/lib/crisis-handoff/types';
+import { z } from 'zod';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Handoff request; the transcript is the conversation as the counselor's chat window
+// holds it, trimmed to the most recent messages by the service
+const requestHandoffSchema = z.object({
+  alertId: z.string().min(1),
+  kind: z.enum(HANDOFF_KINDS),
+  reason: z.enum(HANDOFF_REASONS),
+  toCounselorId: z.string().min(1).optional(),
+  notes: z.string().max(5000),
+  transcript: z.array(z.object({
+    sender: z.enum(['user', 'counselor', 'ai', 'system']),
+    content: z.string().max(5000),
+    at: z.string().datetime(),
+  })).max(1000).default([]),
+  reportId: z.string().min(1).optional(),
+});
+
+const updateHandoffSchema = z.object({
+  handoffId: z.string().min(1),
+  action: z.enum(['accept', 'decline', 'cancel', 'complete']),
+});
+
+function handoffErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError && error.statusCode < 500) {
+    return NextResponse.json(
+      { error: error.message, details: error.context },
+      { status: error.statusCode }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/crisis/handoffs - The signed-in counselor's handoffs, or ?id= for one handoff's context
+export const GET = withRateLimit(60, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const handoffId = req.nextUrl.searchParams.get('id');
+
+      if (handoffId) {
+        const { handoff, context } = await crisisHandoffService.getHandoffContext(handoffId, req.user!);
+
+        await (prisma.auditLog as any).create({
+          data: {
+            id: generatePrismaCreateFields().id,
+            userId: req.user!.id,
+            action: 'view_crisis_handoff_context',
+            resource: 'crisis_handoff',
+            resourceId: handoff.id,
+            details: {
+              alertId: handoff.alertId,
+              status: handoff.status,
+            },
+            outcome: 'success',
+          },
+        });
+
+        return NextResponse.json({ success: true, data: { ...handoff, context } });
+      }
+
+      const handoffs = await crisisHandoffService.listForCounselor(
+        req.user!.id,
+        req.user!.role,
+        new Date(Date.now() - DAY_MS)
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          handoffs,
+          // Offers waiting for the signed-in counselor to accept
+          incoming: handoffs.filter(handoff =>
+            handoff.status === 'requested' && handoff.fromCounselorId !== req.user!.id
+          ),
+        },
+      });
+    } catch (error) {
+      return handoffErrorResponse(error, 'Failed to fetch handoffs');
+    }
+  })
+);
+
+// POST /api/crisis/handoffs - Hand a live conversation to another counselor or a supervisor
+export const POST = withRateLimit(20, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = requestHandoffSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const handoff = await crisisHandoffService.requestHandoff({
+        ...validation.data,
+        fromCounselorId: req.user!.id,
+      });
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'request_crisis_handoff',
+          resource: 'crisis_handoff',
+          resourceId: handoff.id,
+          details: {
+            alertId: handoff.alertId,
+            kind: handoff.kind,
+            reason: handoff.reason,
+            toCounselorId: handoff.toCounselorId,
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: handoff,
+        message: 'Handoff requested. Stay with the conversation until your colleague joins.',
+      }, { status: 201 });
+    } catch (error) {
+      return handoffErrorResponse(error, 'Failed to request handoff');
+    }
+  })
+);
+
+// PATCH /api/crisis/handoffs - Accept, decline, withdraw or complete a handoff
+export const PATCH = withRateLimit(30, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = updateHandoffSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { handoffId, action } = validation.data;
+      const counselorId = req.user!.id;
+      const handoff =
+        action === 'accept' ? await crisisHandoffService.acceptHandoff(handoffId, counselorId) :
+        action === 'decline' ? await crisisHandoffService.declineHandoff(handoffId, counselorId) :
+        action === 'cancel' ? await crisisHandoffService.cancelHandoff(handoffId, counselorId) :
+        await crisisHandoffService.completeHandoff(handoffId, counselorId);
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: counselorId,
+          action: `${action}_crisis_handoff`,
+          resource: 'crisis_handoff',
+          resourceId: handoff.id,
+          details: {
+            alertId: handoff.alertId,
+            status: handoff.status,
+            fromCounselorId: handoff.fromCounselorId,
+            toCounselorId: handoff.toCounselorId,
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({ success: true, data: handoff });
+    } catch (error) {
+      return handoffErrorResponse(error, 'Failed to update handoff');
+    }
+  })
+);
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { withCrisisCounselor, withRateLimit, AuthenticatedRequest, withAuth } from '@/lib/auth-middleware';
 import { encryptJSON, decryptJSON, maskSensitiveData } from '@/lib/encryption';
 import { notifyCounselors, CrisisEvents } from '@/lib/websocket';
+import { crisisHandoffService } from '@/lib/crisis-handoff/handoff-service';
 // import { 
 //   CreateReportRequest, 
 //   UpdateReportRequest, 
@@ -149,6 +150,11 @@ export const GET = withRateLimit(60, 60000)(
         prisma.crisisReport.count({ where }),
       ]);
 
+      // Chain of custody: which counselors held each crisis conversation, and handoffs between them
+      const custody = canViewAllReports
+        ? await crisisHandoffService.getCustodyForReports(reports.map(report => report.id))
+        : new Map();
+
       // Transform reports for response
       const reportResponses: ReportResponse[] = await Promise.all(
         reports.map(async (report) => {
@@ -166,6 +172,10 @@ export const GET = withRateLimit(60, 60000)(
             updatedAt: report.updatedAt,
           };
 
+          if (custody.has(report.id)) {
+            response.custody = custody.get(report.id);
+          }
+
           // Decrypt details only for authorized users
           if (canViewAllReports || report.userId === user.id) {
             try {
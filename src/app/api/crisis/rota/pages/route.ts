@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { prisma } from '@/lib/prisma';
+import { withCrisisCounselor, withRateLimit, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import { crisisRotaService } from '@/lib/crisis-rota/rota-service';
+import { z } from 'zod';
+
+const acknowledgeSchema = z.object({
+  pageId: z.string().min(1),
+});
+
+// PATCH /api/crisis/rota/pages - Answer an on-call page; the counselor then starts taking alerts
+export const PATCH = withRateLimit(30, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = acknowledgeSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const page = await crisisRotaService.acknowledgePage(validation.data.pageId, req.user!.id);
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'acknowledge_on_call_page',
+          resource: 'crisis_page',
+          resourceId: page.id,
+          details: {
+            sentAt: page.sentAt,
+            acknowledgedAt: page.acknowledgedAt,
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: page,
+        message: 'Page acknowledged. Set yourself available to start taking alerts.',
+      });
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      console.error('Error acknowledging page:', error);
+      return NextResponse.json({ error: 'Failed to acknowledge page' }, { status: 500 });
+    }
+  })
+);
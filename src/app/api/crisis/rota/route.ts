@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { prisma } from '@/lib/prisma';
+import { withCrisisCounselor, withAdmin, withRateLimit, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { AppError } from '@/lib/error-handling/error-types';
+import { crisisRotaService } from '@/lib/crisis-rota/rota-service';
+import { SHIFT_ROLES } from '@/lib/crisis-rota/types';
+import { z } from 'zod';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Window shown when the dashboard does not ask for one
+const DEFAULT_WINDOW_HOURS = 48;
+const MAX_WINDOW_HOURS = 14 * 24;
+
+// Shift schema; a batch lets the rota be pasted in from a spreadsheet
+const createShiftsSchema = z.object({
+  shifts: z.array(z.object({
+    counselorId: z.string().min(1),
+    role: z.enum(SHIFT_ROLES),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+    notes: z.string().max(500).optional(),
+  })).min(1).max(200),
+});
+
+function rotaErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError && error.statusCode < 500) {
+    return NextResponse.json(
+      { error: error.message, details: error.context },
+      { status: error.statusCode }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/crisis/rota - Shifts, forecast coverage, who is on duty and recent pages
+export const GET = withRateLimit(30, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const searchParams = req.nextUrl.searchParams;
+      const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date();
+      const hours = Math.min(
+        Math.max(parseInt(searchParams.get('hours') || String(DEFAULT_WINDOW_HOURS)) || DEFAULT_WINDOW_HOURS, 1),
+        MAX_WINDOW_HOURS
+      );
+      if (isNaN(from.getTime())) {
+        return NextResponse.json({ error: 'Invalid from date' }, { status: 400 });
+      }
+
+      const now = new Date();
+      const [coverage, roster, pages] = await Promise.all([
+        crisisRotaService.getCoverage(from, hours),
+        crisisRotaService.getDutyRoster(now),
+        crisisRotaService.listRecentPages(new Date(now.getTime() - 24 * HOUR_MS)),
+      ]);
+      const shifts = await crisisRotaService.listShifts(coverage.from, coverage.to);
+
+      const counselorIds = Array.from(new Set([
+        ...shifts.map(shift => shift.counselorId),
+        ...roster.onDuty,
+        ...pages.map(page => page.counselorId),
+      ]));
+      const counselors = await prisma.user.findMany({
+        where: { id: { in: counselorIds } },
+        select: { id: true, displayName: true, firstName: true, lastName: true },
+      });
+      const names = Object.fromEntries(counselors.map(counselor => [
+        counselor.id,
+        counselor.displayName || [counselor.firstName, counselor.lastName].filter(Boolean).join(' ') || 'Counselor',
+      ]));
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          counselors: names,
+          shifts,
+          coverage,
+          onDuty: roster.onDuty,
+          onCall: roster.onCall,
+          rotaInUse: roster.scheduled,
+          pages,
+          // Pages waiting for the signed-in counselor to answer
+          myPendingPages: pages.filter(page => page.counselorId === req.user!.id && !page.acknowledgedAt),
+        },
+      });
+    } catch (error) {
+      return rotaErrorResponse(error, 'Failed to fetch crisis rota');
+    }
+  })
+);
+
+// POST /api/crisis/rota - Add shifts to the rota
+export const POST = withRateLimit(20, 60000)(
+  withAdmin(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = createShiftsSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const shifts = await crisisRotaService.createShifts(
+        validation.data.shifts.map(shift => ({
+          ...shift,
+          startsAt: new Date(shift.startsAt),
+          endsAt: new Date(shift.endsAt),
+        })),
+        req.user!.id
+      );
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'create_crisis_shifts',
+          resource: 'crisis_shift',
+          details: {
+            shiftIds: shifts.map(shift => shift.id),
+            counselorIds: Array.from(new Set(shifts.map(shift => shift.counselorId))),
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: shifts,
+        message: `${shifts.length} shift${shifts.length === 1 ? '' : 's'} added to the rota`,
+      }, { status: 201 });
+    } catch (error) {
+      return rotaErrorResponse(error, 'Failed to create shifts');
+    }
+  })
+);
+
+// DELETE /api/crisis/rota?id= - Remove a shift from the rota
+export const DELETE = withRateLimit(20, 60000)(
+  withAdmin(async (req: AuthenticatedRequest) => {
+    try {
+      const shiftId = req.nextUrl.searchParams.get('id');
+      if (!shiftId) {
+        return NextResponse.json({ error: 'Shift id is required' }, { status: 400 });
+      }
+
+      const shift = await crisisRotaService.deleteShift(shiftId);
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'delete_crisis_shift',
+          resource: 'crisis_shift',
+          resourceId: shift.id,
+          details: {
+            counselorId: shift.counselorId,
+            role: shift.role,
+            startsAt: shift.startsAt,
+            endsAt: shift.endsAt,
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({ success: true, message: 'Shift removed from the rota' });
+    } catch (error) {
+      return rotaErrorResponse(error, 'Failed to delete shift');
+    }
+  })
+);
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { prisma } from '@/lib/prisma';
+import { withCrisisCounselor, withRateLimit, AuthenticatedRequest } from '@/lib/auth-middleware';
+import { AppError } from '@/lib/error-handling/error-types';
+import { crisisScreeningService } from '@/lib/crisis-screening/screening-service';
+import { CSSRS_QUESTIONS } from '@/lib/crisis-screening/cssrs';
+import { CSSRS_VERSIONS } from '@/lib/crisis-screening/types';
+import { z } from 'zod';
+
+// A completed C-SSRS screen, for a crisis client record, a user, or both
+const recordScreeningSchema = z.object({
+  version: z.enum(CSSRS_VERSIONS),
+  answers: z.record(z.string(), z.boolean()),
+  userId: z.string().min(1).optional(),
+  reportId: z.string().min(1).optional(),
+}).refine(data => data.userId || data.reportId, {
+  message: 'Either userId or reportId is required',
+});
+
+function screeningErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof AppError && error.statusCode < 500) {
+    return NextResponse.json(
+      { error: error.message, details: error.context },
+      { status: error.statusCode }
+    );
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/crisis/screenings - Screens for ?reportId= or ?userId=, ?id= for one screen
+// with its answers, or neither for the question sets
+export const GET = withRateLimit(60, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = req.nextUrl;
+      const screeningId = searchParams.get('id');
+      const userId = searchParams.get('userId') ?? undefined;
+      const reportId = searchParams.get('reportId') ?? undefined;
+
+      if (screeningId) {
+        const { screening, result, answersAvailable } = await crisisScreeningService.getScreening(screeningId);
+
+        await (prisma.auditLog as any).create({
+          data: {
+            id: generatePrismaCreateFields().id,
+            userId: req.user!.id,
+            action: 'view_cssrs_screening',
+            resource: 'cssrs_screening',
+            resourceId: screening.id,
+            details: {
+              reportId: screening.reportId,
+              risk: screening.risk,
+            },
+            outcome: 'success',
+          },
+        });
+
+        return NextResponse.json({
+          success: true,
+          data: { ...screening, result, answersAvailable },
+          ...(!answersAvailable && { message: 'The answers to this screen could not be read; its recorded risk is shown' }),
+        });
+      }
+
+      if (!userId && !reportId) {
+        return NextResponse.json({ success: true, data: { questions: CSSRS_QUESTIONS } });
+      }
+
+      const screenings = await crisisScreeningService.listScreenings({ userId, reportId });
+      return NextResponse.json({ success: true, data: { screenings } });
+    } catch (error) {
+      return screeningErrorResponse(error, 'Failed to fetch screenings');
+    }
+  })
+);
+
+// POST /api/crisis/screenings - Record a C-SSRS screen; a high-risk result raises a crisis alert
+export const POST = withRateLimit(30, 60000)(
+  withCrisisCounselor(async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const validation = recordScreeningSchema.safeParse(body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', errors: validation.error.issues },
+          { status: 400 }
+        );
+      }
+
+      const { screening, result, alertUnavailable } = await crisisScreeningService.recordScreening({
+        ...validation.data,
+        administeredBy: req.user!.id,
+      });
+
+      await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: req.user!.id,
+          action: 'record_cssrs_screening',
+          resource: 'cssrs_screening',
+          resourceId: screening.id,
+          details: {
+            version: screening.version,
+            risk: screening.risk,
+            reportId: screening.reportId,
+            alertId: screening.alertId,
+            alertUnavailable,
+          },
+          outcome: 'success',
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { ...screening, result, alertUnavailable },
+        message: screening.alertId
+          ? 'High risk. A crisis alert has been raised; stay with the person.'
+          : alertUnavailable
+            ? 'High risk. No crisis alert could be raised for a client without an account; escalate to a supervisor now.'
+            : 'Screening recorded',
+      }, { status: 201 });
+    } catch (error) {
+      return screeningErrorResponse(error, 'Failed to record screening');
+    }
+  })
+);
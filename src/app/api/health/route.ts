@@ -4,6 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ensureInitialized, checkSystemHealth } from '@/lib/auto-init';
 import { NeonDatabaseService } from '@/lib/neon-database';
+import { aiService } from '@/lib/ai-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -37,6 +38,7 @@ export async function GET(request: NextRequest) {
           users: dbHealth.userCount,
           lastMaintenance: dbHealth.lastMaintenance,
         },
+        ai: aiService.getHealth(),
         memory: {
           used: process.memoryUsage().heapUsed,
           total: process.memoryUsage().heapTotal,
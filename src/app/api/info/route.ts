@@ -69,16 +69,14 @@ export async function GET(request: NextRequest) {
         url: process.env.VERCEL_URL || 'localhost:3000',
       },
       aiServices: {
-        openai: {
-          configured: aiConfig.openai,
-          status: aiConfig.openai ? '✅ Ready' : '❌ Not configured'
-        },
-        gemini: {
-          configured: aiConfig.gemini,
-          status: aiConfig.gemini ? '✅ Ready' : '❌ Not configured'
-        },
-        defaultProvider: aiConfig.openai ? 'OpenAI GPT-4' : aiConfig.gemini ? 'Google Gemini' : 'None',
-        therapyAssistant: aiConfig.openai || aiConfig.gemini ? 'Available' : 'Unavailable'
+        ...Object.fromEntries(
+          Object.entries(aiConfig).map(([provider, configured]) => [
+            provider,
+            { configured, status: configured ? '✅ Ready' : '❌ Not configured' }
+          ])
+        ),
+        defaultProvider: aiService.getDefaultProvider() ?? 'None',
+        therapyAssistant: Object.values(aiConfig).some(Boolean) ? 'Available' : 'Unavailable'
       },
       endpoints: {
         health: '/api/health',
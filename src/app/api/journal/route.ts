@@ -5,6 +5,7 @@ import { Session } from 'next-auth';
 import { authOptions } from '@/lib/auth-simple';
 import { prisma } from '@/lib/prisma';
 import { CreateJournalEntryRequest, JournalEntry } from '@/types/wellness';
+import { assessCrisisRisk, isAtLeast } from '@/lib/crisis-risk/risk-engine';
 import crypto from 'crypto';
 
 // Encryption helper functions
@@ -190,7 +191,7 @@ export async function POST(request: NextRequest) {
 
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
-      select: { id: true }
+      select: { id: true, preferredLanguage: true }
     });
 
     if (!user) {
@@ -220,6 +221,9 @@ export async function POST(request: NextRequest) {
     // Analyze sentiment
     const sentiment = analyzeSentiment(body.content);
 
+    // Same crisis scoring as posts, chat and the AI assistant
+    const risk = assessCrisisRisk(body.content, { language: user.preferredLanguage });
+
     // Create journal entry
     const entry = await prisma.journalEntry.create({
         data: {
@@ -257,7 +261,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: response,
-      message: 'Journal entry saved successfully'
+      message: 'Journal entry saved successfully',
+      ...(isAtLeast(risk.severity, 'high') && {
+        crisisSupport: {
+          severity: risk.severity,
+          immediateRisk: risk.immediateRisk,
+          resourcesUrl: '/crisis'
+        }
+      })
     });
 
   } catch (error) {
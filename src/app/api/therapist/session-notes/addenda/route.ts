@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { AppError, ValidationError } from '@/lib/error-handling/error-types';
+import { sessionNoteService } from '@/lib/clinical-notes/session-note-service';
+import { z } from 'zod';
+
+// Validation schema for addenda, late entries and corrections
+const AddendumSchema = z.object({
+  noteId: z.string(),
+  kind: z.enum(['addendum', 'late_entry', 'correction']),
+  reason: z.string().max(1000).optional(),
+  content: z.string().min(1).max(20000),
+  signerName: z.string().min(1),
+  credentials: z.string().min(1),
+  attestation: z.string().min(1)
+});
+
+// POST /api/therapist/session-notes/addenda - Append a signed addendum to a
+// locked note. The original note is never changed.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the user and verify they are a therapist
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || user.role !== 'THERAPIST') {
+      return NextResponse.json({ error: 'Forbidden - Therapist access only' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = AddendumSchema.parse(body);
+
+    // The author and the co-signing supervisor may add to a note
+    const note = await sessionNoteService.getNote(validatedData.noteId);
+    if (!note || (note.therapistId !== user.id && note.supervisorId !== user.id)) {
+      return NextResponse.json({ error: 'Session note not found' }, { status: 404 });
+    }
+
+    const addendum = await sessionNoteService.addAddendum({
+      noteId: note.id,
+      authorId: user.id,
+      kind: validatedData.kind,
+      reason: validatedData.reason,
+      content: validatedData.content,
+      signature: {
+        signerName: validatedData.signerName,
+        credentials: validatedData.credentials,
+        attestation: validatedData.attestation
+      }
+    });
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'ADD_SESSION_NOTE_ADDENDUM',
+        resource: 'TherapySessionNote',
+        resourceId: note.id,
+        outcome: 'SUCCESS',
+        details: {
+          clientId: note.clientId,
+          addendumId: addendum.id,
+          kind: addendum.kind,
+          contentHash: addendum.contentHash
+        }
+      }
+    });
+
+    return NextResponse.json({
+      id: addendum.id,
+      noteId: note.id,
+      kind: addendum.kind,
+      reason: addendum.reason,
+      content: validatedData.content.trim(),
+      authorId: addendum.authorId,
+      signedAt: addendum.signedAt,
+      contentHash: addendum.contentHash
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: (error as z.ZodError).issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: (error as ValidationError).validationErrors },
+        { status: error.statusCode }
+      );
+    }
+    
+    console.error('Error adding session note addendum:', error);
+    return NextResponse.json(
+      { error: 'Failed to add addendum' },
+      { status: 500 }
+    );
+  }
+}
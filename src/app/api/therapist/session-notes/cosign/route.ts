@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { AppError, ValidationError } from '@/lib/error-handling/error-types';
+import { sessionNoteService } from '@/lib/clinical-notes/session-note-service';
+import { z } from 'zod';
+
+// Validation schema for a supervisor co-signature
+const CosignNoteSchema = z.object({
+  noteId: z.string(),
+  signerName: z.string().min(1),
+  credentials: z.string().min(1),
+  attestation: z.string().min(1)
+});
+
+// POST /api/therapist/session-notes/cosign - Co-sign a note written by a supervisee
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the user and verify they are a therapist
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || user.role !== 'THERAPIST') {
+      return NextResponse.json({ error: 'Forbidden - Therapist access only' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = CosignNoteSchema.parse(body);
+
+    // Only the supervisor the note was routed to co-signs it
+    const note = await sessionNoteService.getNote(validatedData.noteId);
+    if (!note || note.supervisorId !== user.id) {
+      return NextResponse.json({ error: 'Session note not found' }, { status: 404 });
+    }
+
+    const cosigned = await sessionNoteService.cosignNote({
+      noteId: note.id,
+      signedBy: user.id,
+      signature: {
+        signerName: validatedData.signerName,
+        credentials: validatedData.credentials,
+        attestation: validatedData.attestation
+      }
+    });
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'COSIGN_SESSION_NOTE',
+        resource: 'TherapySessionNote',
+        resourceId: note.id,
+        outcome: 'SUCCESS',
+        details: {
+          clientId: note.clientId,
+          clinicianId: note.therapistId,
+          contentHash: note.contentHash
+        }
+      }
+    });
+
+    return NextResponse.json({ note: sessionNoteService.formatNote(cosigned) });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: (error as z.ZodError).issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: (error as ValidationError).validationErrors },
+        { status: error.statusCode }
+      );
+    }
+    
+    console.error('Error co-signing session note:', error);
+    return NextResponse.json(
+      { error: 'Failed to co-sign session note' },
+      { status: 500 }
+    );
+  }
+}
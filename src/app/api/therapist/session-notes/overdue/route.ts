@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { sessionNoteService } from '@/lib/clinical-notes/session-note-service';
+
+// GET /api/therapist/session-notes/overdue - Notes awaiting the therapist's
+// signature or co-signature, overdue or due within a day
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the user and verify they are a therapist
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || user.role !== 'THERAPIST') {
+      return NextResponse.json({ error: 'Forbidden - Therapist access only' }, { status: 403 });
+    }
+
+    const queue = await sessionNoteService.getOverdueQueue(user.id);
+
+    return NextResponse.json({
+      queue,
+      summary: {
+        total: queue.length,
+        overdue: queue.filter(item => item.overdue).length,
+        unsigned: queue.filter(item => item.reason === 'unsigned').length,
+        awaitingCosign: queue.filter(item => item.reason === 'awaiting_cosign').length
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching overdue session notes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch overdue session notes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/therapist/session-notes/overdue - Send overdue note reminders.
+// Run on a schedule; each outstanding signature is reminded once.
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || !['ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access only' }, { status: 403 });
+    }
+
+    const result = await sessionNoteService.sendOverdueReminders();
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'SEND_SESSION_NOTE_REMINDERS',
+        resource: 'TherapySessionNote',
+        outcome: 'SUCCESS',
+        details: result
+      }
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error sending overdue session note reminders:', error);
+    return NextResponse.json(
+      { error: 'Failed to send overdue session note reminders' },
+      { status: 500 }
+    );
+  }
+}
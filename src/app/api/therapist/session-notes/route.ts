@@ -4,10 +4,16 @@ import { getServerSession } from 'next-auth/next';
 import { Session } from 'next-auth';
 import { authOptions } from '@/lib/auth-simple';
 import { prisma } from '@/lib/prisma';
-import { encryptJSON as encryptApiField, decryptJSON as decryptApiField } from '@/lib/encryption';
+import { AppError, ValidationError } from '@/lib/error-handling/error-types';
+import { sessionNoteService } from '@/lib/clinical-notes/session-note-service';
+import { SessionNoteStatus } from '@/lib/clinical-notes/types';
 import { z } from 'zod';
 
-// Validation schema for session notes
+// Template section values: text, or a list for list sections
+const SectionsSchema = z.record(z.string(), z.union([z.string(), z.array(z.string())]));
+
+// Validation schema for session notes. Templated notes send `template` and
+// `sections`; free-form notes send progress notes and the fields around them.
 const SessionNoteSchema = z.object({
   clientId: z.string(),
   sessionId: z.string().optional(),
@@ -15,10 +21,12 @@ const SessionNoteSchema = z.object({
   sessionType: z.string(),
   sessionDuration: z.number(),
   treatmentModality: z.string(),
-  sessionGoals: z.array(z.string()),
-  progressNotes: z.string(),
-  interventions: z.array(z.string()),
-  clientResponse: z.string(),
+  template: z.enum(['soap', 'dap', 'birp', 'intake', 'discharge']).optional(),
+  sections: SectionsSchema.optional(),
+  sessionGoals: z.array(z.string()).optional(),
+  progressNotes: z.string().optional(),
+  interventions: z.array(z.string()).optional(),
+  clientResponse: z.string().optional(),
   homework: z.array(z.string()).optional(),
   nextSessionPlan: z.string().optional(),
   riskAssessment: z.enum(['LOW', 'MODERATE', 'HIGH', 'CRISIS']),
@@ -33,6 +41,36 @@ const SessionNoteSchema = z.object({
     type: z.string(),
     data: z.string() // base64 encoded
   })).optional()
+}).refine(data => data.template || data.progressNotes, {
+  message: 'Either a template or progress notes are required',
+  path: ['template']
+});
+
+// Draft updates: any subset of the note's fields
+const SessionNoteUpdateSchema = z.object({
+  noteId: z.string(),
+  sessionId: z.string().optional(),
+  sessionDate: z.string().optional(),
+  sessionType: z.string().optional(),
+  sessionDuration: z.number().optional(),
+  treatmentModality: z.string().optional(),
+  sections: SectionsSchema.optional(),
+  sessionGoals: z.array(z.string()).optional(),
+  progressNotes: z.string().optional(),
+  interventions: z.array(z.string()).optional(),
+  clientResponse: z.string().optional(),
+  homework: z.array(z.string()).optional(),
+  nextSessionPlan: z.string().optional(),
+  riskAssessment: z.enum(['LOW', 'MODERATE', 'HIGH', 'CRISIS']).optional(),
+  confidentialityNotes: z.string().optional(),
+  billable: z.boolean().optional(),
+  insuranceCode: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  attachments: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    data: z.string() // base64 encoded
+  })).optional()
 });
 
 // GET /api/therapist/session-notes - Get session notes for the therapist
@@ -55,11 +93,15 @@ export async function GET(request: NextRequest) {
 
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
+    const noteId = searchParams.get('noteId');
     const clientId = searchParams.get('clientId');
     const search = searchParams.get('search');
     const sessionType = searchParams.get('sessionType');
     const treatmentModality = searchParams.get('treatmentModality');
     const riskLevel = searchParams.get('riskLevel');
+    const status = searchParams.get('status');
+    const template = searchParams.get('template');
+    const supervising = searchParams.get('supervising') === 'true';
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const supervisorReview = searchParams.get('supervisorReview');
@@ -67,10 +109,23 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '20');
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {
-      therapistId: user.id
-    };
+    // A single note, with its signatures checked against the stored content
+    if (noteId) {
+      const note = await sessionNoteService.getNote(noteId);
+      if (!note || (note.therapistId !== user.id && note.supervisorId !== user.id)) {
+        return NextResponse.json({ error: 'Session note not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        note: sessionNoteService.formatNote(note),
+        integrity: sessionNoteService.verifyNote(note)
+      });
+    }
+
+    // Build where clause. Supervisors can list the notes they co-sign.
+    const where: any = supervising
+      ? { supervisorId: user.id, cosignRequired: true }
+      : { therapistId: user.id };
 
     if (clientId) {
       where.clientId = clientId;
@@ -88,6 +143,14 @@ export async function GET(request: NextRequest) {
       where.riskAssessment = riskLevel.toUpperCase();
     }
 
+    if (status && status.toUpperCase() in SessionNoteStatus) {
+      where.status = status.toUpperCase();
+    }
+
+    if (template) {
+      where.noteTemplate = template;
+    }
+
     if (supervisorReview !== null) {
       where.supervisorReview = supervisorReview === 'true';
     }
@@ -117,6 +180,7 @@ export async function GET(request: NextRequest) {
         take: limit,
         orderBy: { sessionDate: 'desc' },
         include: {
+          addenda: { orderBy: { createdAt: 'asc' } },
           session: {
             include: {
               client: {
@@ -136,59 +200,12 @@ export async function GET(request: NextRequest) {
 
     // Decrypt sensitive fields for each note
     const decryptedNotes = notes.map(note => {
-      const decrypted: any = {
-        id: note.id,
-        sessionId: note.sessionId,
-        therapistId: note.therapistId,
-        clientId: note.clientId,
-        sessionDate: note.sessionDate,
-        sessionType: note.sessionType,
-        sessionDuration: note.sessionDuration,
-        treatmentModality: note.treatmentModality,
-        riskAssessment: note.riskAssessment,
-        supervisorReview: note.supervisorReview,
-        supervisorId: note.supervisorId,
-        billable: note.billable,
-        insuranceCode: note.insuranceCode,
-        isTemplate: note.isTemplate,
-        tags: note.tags,
-        createdAt: note.createdAt,
-        updatedAt: note.updatedAt,
-        lastModified: note.lastModified,
-        client: note.session?.client
-      };
-
-      // Decrypt encrypted fields
       try {
-        if (note.sessionGoalsEncrypted) {
-          decrypted.sessionGoals = decryptApiField(note.sessionGoalsEncrypted as any);
-        }
-        if (note.progressNotesEncrypted) {
-          decrypted.progressNotes = decryptApiField(note.progressNotesEncrypted as any);
-        }
-        if (note.interventionsEncrypted) {
-          decrypted.interventions = decryptApiField(note.interventionsEncrypted as any);
-        }
-        if (note.clientResponseEncrypted) {
-          decrypted.clientResponse = decryptApiField(note.clientResponseEncrypted as any);
-        }
-        if (note.homeworkEncrypted) {
-          decrypted.homework = decryptApiField(note.homeworkEncrypted as any);
-        }
-        if (note.nextSessionPlanEncrypted) {
-          decrypted.nextSessionPlan = decryptApiField(note.nextSessionPlanEncrypted as any);
-        }
-        if (note.confidentialityNotesEncrypted) {
-          decrypted.confidentialityNotes = decryptApiField(note.confidentialityNotesEncrypted as any);
-        }
-        if (note.attachmentsEncrypted) {
-          decrypted.attachments = decryptApiField(note.attachmentsEncrypted as any);
-        }
+        return { ...sessionNoteService.formatNote(note), client: note.session?.client };
       } catch (error) {
         console.error('Failed to decrypt session note fields:', error);
+        return { id: note.id, status: note.status, sessionDate: note.sessionDate, client: note.session?.client };
       }
-
-      return decrypted;
     });
 
     return NextResponse.json({
@@ -245,48 +262,32 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
 
-    // Encrypt sensitive data
-    const encryptedData = {
-      sessionGoalsEncrypted: encryptApiField(validatedData.sessionGoals),
-      progressNotesEncrypted: encryptApiField(validatedData.progressNotes),
-      interventionsEncrypted: encryptApiField(validatedData.interventions),
-      clientResponseEncrypted: encryptApiField(validatedData.clientResponse),
-      homeworkEncrypted: validatedData.homework ? 
-        encryptApiField(validatedData.homework) : null,
-      nextSessionPlanEncrypted: validatedData.nextSessionPlan ? 
-        encryptApiField(validatedData.nextSessionPlan) : null,
-      confidentialityNotesEncrypted: validatedData.confidentialityNotes ? 
-        encryptApiField(validatedData.confidentialityNotes) : null,
-      attachmentsEncrypted: validatedData.attachments ? 
-        encryptApiField(validatedData.attachments) : null
-    };
-
-    // Create the session note
-    const sessionNote = await (prisma.therapySessionNote as any).create({
-        data: {
-          id: generatePrismaCreateFields().id,sessionId: validatedData.sessionId,
-        therapistId: user.id,
-        clientId: validatedData.clientId,
-        sessionDate: new Date(validatedData.sessionDate),
-        sessionType: validatedData.sessionType,
-        sessionDuration: validatedData.sessionDuration,
-        treatmentModality: validatedData.treatmentModality,
-        ...encryptedData,
-        riskAssessment: validatedData.riskAssessment as any,
-        supervisorReview: validatedData.supervisorReview || false,
-        billable: validatedData.billable,
-        insuranceCode: validatedData.insuranceCode,
-        isTemplate: validatedData.isTemplate || false,
-        tags: validatedData.tags || []
-      }
-    });
-
-    // Update client's last session date and session count
-    await prisma.therapistClient.update({
-      where: { id: validatedData.clientId },
-      data: {
-        lastSessionDate: new Date(validatedData.sessionDate),
-        completedSessions: { increment: 1 }
+    // Create the draft note; it is due for signature 72 hours after the session
+    const sessionNote = await sessionNoteService.createNote({
+      therapistId: user.id,
+      clientId: validatedData.clientId,
+      sessionId: validatedData.sessionId,
+      sessionDate: new Date(validatedData.sessionDate),
+      sessionType: validatedData.sessionType,
+      sessionDuration: validatedData.sessionDuration,
+      treatmentModality: validatedData.treatmentModality,
+      riskAssessment: validatedData.riskAssessment,
+      confidentialityNotes: validatedData.confidentialityNotes,
+      billable: validatedData.billable,
+      insuranceCode: validatedData.insuranceCode,
+      supervisorReview: validatedData.supervisorReview,
+      isTemplate: validatedData.isTemplate,
+      tags: validatedData.tags,
+      attachments: validatedData.attachments,
+      template: validatedData.template,
+      sections: validatedData.sections,
+      legacy: validatedData.template ? undefined : {
+        sessionGoals: validatedData.sessionGoals || [],
+        progressNotes: validatedData.progressNotes || '',
+        interventions: validatedData.interventions || [],
+        clientResponse: validatedData.clientResponse || '',
+        homework: validatedData.homework,
+        nextSessionPlan: validatedData.nextSessionPlan
       }
     });
 
@@ -300,22 +301,13 @@ export async function POST(request: NextRequest) {
         outcome: 'SUCCESS',
         details: {
           clientId: validatedData.clientId,
-          sessionDate: validatedData.sessionDate
+          sessionDate: validatedData.sessionDate,
+          template: validatedData.template
         }
       }
     });
 
-    // Return created note (without encrypted fields)
-    const response = {
-      id: sessionNote.id,
-      ...validatedData,
-      therapistId: user.id,
-      createdAt: sessionNote.createdAt,
-      updatedAt: sessionNote.updatedAt,
-      lastModified: sessionNote.lastModified
-    };
-
-    return NextResponse.json(response, { status: 201 });
+    return NextResponse.json(sessionNoteService.formatNote(sessionNote), { status: 201 });
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -324,6 +316,13 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: (error as ValidationError).validationErrors },
+        { status: error.statusCode }
+      );
+    }
     
     console.error('Error creating session note:', error);
     return NextResponse.json(
@@ -331,4 +330,99 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PUT /api/therapist/session-notes - Update a draft session note.
+// Signed notes are locked; later information is added as an addendum.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get the user and verify they are a therapist
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || user.role !== 'THERAPIST') {
+      return NextResponse.json({ error: 'Forbidden - Therapist access only' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = SessionNoteUpdateSchema.parse(body);
+
+    const note = await sessionNoteService.getNote(validatedData.noteId);
+    if (!note || note.therapistId !== user.id) {
+      return NextResponse.json({ error: 'Session note not found' }, { status: 404 });
+    }
+
+    const legacyFields = {
+      sessionGoals: validatedData.sessionGoals,
+      progressNotes: validatedData.progressNotes,
+      interventions: validatedData.interventions,
+      clientResponse: validatedData.clientResponse,
+      homework: validatedData.homework,
+      nextSessionPlan: validatedData.nextSessionPlan
+    };
+
+    const updated = await sessionNoteService.updateDraft({
+      noteId: note.id,
+      sessionId: validatedData.sessionId,
+      sessionDate: validatedData.sessionDate ? new Date(validatedData.sessionDate) : undefined,
+      sessionType: validatedData.sessionType,
+      sessionDuration: validatedData.sessionDuration,
+      treatmentModality: validatedData.treatmentModality,
+      riskAssessment: validatedData.riskAssessment,
+      confidentialityNotes: validatedData.confidentialityNotes,
+      billable: validatedData.billable,
+      insuranceCode: validatedData.insuranceCode,
+      tags: validatedData.tags,
+      attachments: validatedData.attachments,
+      sections: validatedData.sections,
+      legacy: Object.fromEntries(
+        Object.entries(legacyFields).filter(([, value]) => value !== undefined)
+      )
+    });
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'UPDATE_SESSION_NOTE',
+        resource: 'TherapySessionNote',
+        resourceId: note.id,
+        outcome: 'SUCCESS',
+        details: {
+          clientId: note.clientId,
+          fields: Object.keys(validatedData).filter(key => key !== 'noteId')
+        }
+      }
+    });
+
+    return NextResponse.json(sessionNoteService.formatNote(updated));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: (error as z.ZodError).issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: (error as ValidationError).validationErrors },
+        { status: error.statusCode }
+      );
+    }
+    
+    console.error('Error updating session note:', error);
+    return NextResponse.json(
+      { error: 'Failed to update session note' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { prisma } from '@/lib/prisma';
+import { AppError } from '@/lib/error-handling/error-types';
+import { sessionNoteService } from '@/lib/clinical-notes/session-note-service';
+import { z } from 'zod';
+
+// Validation schema for placing a pre-licensed clinician under supervision
+const SupervisionSchema = z.object({
+  superviseeId: z.string(),
+  supervisorId: z.string(),
+  licenseLevel: z.string().min(1).max(100)
+});
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+// GET /api/therapist/session-notes/supervision - Current supervision
+// arrangements. Therapists see their own; admins see all.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || (user.role !== 'THERAPIST' && !ADMIN_ROLES.includes(user.role))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (ADMIN_ROLES.includes(user.role)) {
+      return NextResponse.json({ supervision: await sessionNoteService.listSupervision() });
+    }
+
+    const [supervisor, supervisees] = await Promise.all([
+      sessionNoteService.getActiveSupervision(user.id),
+      sessionNoteService.listSupervision({ supervisorId: user.id })
+    ]);
+
+    return NextResponse.json({ supervisor, supervisees });
+
+  } catch (error) {
+    console.error('Error fetching supervision:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supervision' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/therapist/session-notes/supervision - Assign a supervisor. Notes
+// the clinician signs from now on need the supervisor's co-signature.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || !ADMIN_ROLES.includes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access only' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = SupervisionSchema.parse(body);
+
+    // Both parties must be clinicians
+    const clinicians = await prisma.user.count({
+      where: {
+        id: { in: [validatedData.superviseeId, validatedData.supervisorId] },
+        role: 'THERAPIST'
+      }
+    });
+
+    if (clinicians !== 2) {
+      return NextResponse.json({ error: 'Supervisor and supervisee must both be therapists' }, { status: 400 });
+    }
+
+    const result = await sessionNoteService.assignSupervisor({
+      ...validatedData,
+      createdBy: user.id
+    });
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'ASSIGN_CLINICAL_SUPERVISOR',
+        resource: 'ClinicianSupervision',
+        resourceId: result.supervision.id,
+        outcome: 'SUCCESS',
+        details: {
+          ...validatedData,
+          reassignedNotes: result.reassignedNotes
+        }
+      }
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: (error as z.ZodError).issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    
+    console.error('Error assigning supervisor:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign supervisor' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/therapist/session-notes/supervision?superviseeId= - End
+// supervision once the clinician is fully licensed
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions) as Session | null;
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user || !ADMIN_ROLES.includes(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access only' }, { status: 403 });
+    }
+
+    const superviseeId = request.nextUrl.searchParams.get('superviseeId');
+    if (!superviseeId) {
+      return NextResponse.json({ error: 'superviseeId is required' }, { status: 400 });
+    }
+
+    await sessionNoteService.endSupervision(superviseeId);
+
+    // Log the action for audit trail
+    await (prisma.auditLog as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: user.id ,
+        action: 'END_CLINICAL_SUPERVISION',
+        resource: 'ClinicianSupervision',
+        outcome: 'SUCCESS',
+        details: { superviseeId }
+      }
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    console.error('Error ending supervision:', error);
+    return NextResponse.json(
+      { error: 'Failed to end supervision' },
+      { status: 500 }
+    );
+  }
+}
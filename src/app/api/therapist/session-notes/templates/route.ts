@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Session } from 'next-auth';
+import { authOptions } from '@/lib/auth-simple';
+import { NOTE_TEMPLATES } from '@/lib/clinical-notes/note-templates';
+import { NOTE_DUE_HOURS, COSIGN_DUE_HOURS } from '@/lib/clinical-notes/note-rules';
+
+// GET /api/therapist/session-notes/templates - Note templates and their sections
+export async function GET() {
+  const session = await getServerSession(authOptions) as Session | null;
+  
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    templates: Object.values(NOTE_TEMPLATES),
+    deadlines: {
+      signWithinHours: NOTE_DUE_HOURS,
+      cosignWithinHours: COSIGN_DUE_HOURS
+    }
+  });
+}
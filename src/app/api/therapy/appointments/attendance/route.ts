@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+  verifyClientConsent,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+
+// Validation schemas
+const getHistorySchema = z.object({
+  clientId: z.string().min(1),
+});
+
+const waiveFeeSchema = z.object({
+  feeId: z.string().min(1),
+  reason: z.string().min(1).max(500),
+});
+
+// GET /api/therapy/appointments/attendance - a client's no-show and late-cancel history
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const params = validateInput(getHistorySchema, {
+      clientId: req.nextUrl.searchParams.get('clientId'),
+    });
+
+    const hasConsent = await verifyClientConsent(sessionUser.id, params.clientId);
+    if (!hasConsent) {
+      return errorResponse(null, 'No consent to access client data');
+    }
+
+    const history = await attendanceService.getClientHistory(params.clientId, sessionUser.id);
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'view_attendance_history',
+      'therapy_appointments',
+      params.clientId,
+      { noShows: history.summary.noShows, fees: history.fees.length },
+      'success',
+      req
+    );
+
+    return successResponse(history, 'Attendance history retrieved successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve attendance history');
+  }
+}
+
+// PUT /api/therapy/appointments/attendance - waive a late-cancel or no-show fee
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const body = await req.json();
+    const data = validateInput(waiveFeeSchema, body);
+
+    const fee = await attendanceService.waiveFee(data.feeId, sessionUser.id, sessionUser.id, data.reason);
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'waive_appointment_fee',
+      'therapy_billing',
+      fee.id,
+      { clientId: fee.clientId, type: fee.type, amount: fee.amount, reason: data.reason },
+      'success',
+      req
+    );
+
+    return successResponse(fee, 'Fee waived successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to waive fee');
+  }
+}
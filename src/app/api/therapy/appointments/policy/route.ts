@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+
+// Validation schemas
+const updatePolicySchema = z.object({
+  reminderOffsets: z.array(z.number().int().min(5).max(7 * 24 * 60)).max(5).optional(),
+  noShowGraceMinutes: z.number().int().min(5).max(120).optional(),
+  lateCancelHours: z.number().int().min(0).max(168).optional(),
+  lateCancelFee: z.number().min(0).max(1000).optional(),
+  noShowFee: z.number().min(0).max(1000).optional(),
+  waiveFirstOffense: z.boolean().optional(),
+});
+
+// GET /api/therapy/appointments/policy - reminder schedule and attendance fee rules
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const policy = await attendanceService.getPolicy((session as any).user.id);
+
+    return successResponse(policy, 'Appointment policy retrieved successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve appointment policy');
+  }
+}
+
+// PUT /api/therapy/appointments/policy - update reminder and fee rules
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 10, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const body = await req.json();
+    const data = validateInput(updatePolicySchema, body);
+
+    const policy = await attendanceService.updatePolicy(sessionUser.id, data);
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'update_appointment_policy',
+      'therapy_appointments',
+      sessionUser.id,
+      data,
+      'success',
+      req
+    );
+
+    return successResponse(policy, 'Appointment policy updated successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to update appointment policy');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import {
+  requireRole,
+  auditLog,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { processNotificationQueue } from '@/lib/notification-utils';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+
+// POST /api/therapy/appointments/reminders - send due reminders and mark
+// sessions past their grace period as no-shows. Run on a schedule.
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 10, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.ADMIN, UserRole.SUPER_ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const reminders = await processNotificationQueue();
+    const noShows = await attendanceService.markOverdueNoShows();
+
+    const result = { reminders, noShows };
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'process_appointment_reminders',
+      'therapy_appointments',
+      undefined,
+      result,
+      'success',
+      req
+    );
+
+    return successResponse(result, 'Appointment reminders processed');
+  } catch (error) {
+    return errorResponse(error, 'Failed to process appointment reminders');
+  }
+}
@@ -14,6 +14,10 @@ import {
 } from '@/lib/api-middleware';
 import { encryptJSON, decryptJSON } from '@/lib/encryption-exports';
 import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { generateMeetingUrl, seriesService } from '@/lib/scheduling/series-service';
+import { waitlistService } from '@/lib/scheduling/waitlist-service';
+import { attendanceService } from '@/lib/scheduling/attendance-service';
+import { isValidTimeZone, parseRRule, presetRule } from '@/lib/scheduling/rrule';
 
 // Validation schemas
 const getAppointmentsSchema = z.object({
@@ -34,9 +38,16 @@ const createAppointmentSchema = z.object({
   location: z.enum(['office', 'virtual', 'phone']).default('office'),
   notes: z.string().optional(),
   recurring: z.object({
-    frequency: z.enum(['weekly', 'biweekly', 'monthly']),
-    endDate: z.string().datetime(),
-  }).optional(),
+    frequency: z.enum(['weekly', 'biweekly', 'monthly', 'custom']),
+    endDate: z.string().datetime().optional(),
+    count: z.number().int().min(1).max(104).optional(),
+    // RFC 5545 RRULE, required for custom series (e.g. FREQ=WEEKLY;BYDAY=MO,TH;COUNT=16)
+    rrule: z.string().max(200).optional(),
+    timeZone: z.string().default('UTC').refine(isValidTimeZone, 'Unknown time zone'),
+  }).refine(
+    recurring => recurring.frequency === 'custom' ? !!recurring.rrule : !!(recurring.endDate || recurring.count),
+    'Custom series need an rrule; other series need an endDate or count'
+  ).optional(),
   reminders: z.object({
     email: z.boolean().default(true),
     sms: z.boolean().default(false),
@@ -183,6 +194,7 @@ export async function GET(req: NextRequest) {
         type: apt.type,
         status: apt.status,
         meetingUrl: apt.meetingUrl,
+        seriesId: apt.seriesId,
         notes: decryptedNotes?.notes,
         location: decryptedNotes?.location || 'office',
         confirmed: decryptedNotes?.confirmed || false,
@@ -254,91 +266,59 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const data = validateInput(createAppointmentSchema, body);
     
-    // Check for scheduling conflicts
-    const conflictWindow = 15; // 15 minutes buffer
-    const startTime = new Date(data.scheduledAt);
-    const endTime = new Date(startTime.getTime() + data.duration * 60000);
-    
-    const conflicts = await prisma.appointment.findMany({
-      where: {
-        professionalId: sessionUser.id,
-        status: { in: ['scheduled', 'confirmed'] },
-        OR: [
-          {
-            scheduledAt: {
-              gte: new Date(startTime.getTime() - conflictWindow * 60000),
-              lte: endTime,
-            },
-          },
-          {
-            AND: [
-              { scheduledAt: { lte: startTime } },
-              {
-                scheduledAt: {
-                  gte: new Date(startTime.getTime() - 180 * 60000), // Max appointment duration
-                },
-              },
-            ],
-          },
-        ],
-      },
-    });
-    
-    if (conflicts.length > 0) {
-      return errorResponse(null, 'Time slot conflicts with existing appointment');
-    }
-    
     // Create appointments (handle recurring)
-    const appointments = [];
+    const appointments: any[] = [];
+    let seriesId: string | undefined;
     
     if (data.recurring) {
-      const endDate = new Date(data.recurring.endDate);
-      const currentDate = new Date(data.scheduledAt);
+      const rule = data.recurring.frequency === 'custom'
+        ? parseRRule(data.recurring.rrule!)
+        : presetRule(data.recurring.frequency, {
+            until: data.recurring.endDate ? new Date(data.recurring.endDate) : undefined,
+            count: data.recurring.count,
+          });
+      const seriesParams = {
+        clientId: data.clientId,
+        professionalId: sessionUser.id,
+        dtstart: new Date(data.scheduledAt),
+        rule,
+        timeZone: data.recurring.timeZone,
+        duration: data.duration,
+        type: data.type,
+        location: data.location,
+        notes: data.notes,
+        reminders: data.reminders,
+        createdBy: sessionUser.id,
+      };
       
-      while (currentDate <= endDate) {
-        const encryptedNotes = encryptJSON({
-          notes: data.notes,
-          location: data.location,
-          reminders: data.reminders,
-          recurring: true,
-          seriesId: `${sessionUser.id}_${Date.now()}`,
-          createdBy: sessionUser.id,
-        });
-        
-        const appointment = await (prisma.appointment as any).create({
-          data: {
-            id: generatePrismaCreateFields().id,
-            userId: data.clientId,
-            professionalId: sessionUser.id,
-            scheduledAt: new Date(currentDate),
-            duration: data.duration,
-            type: data.type,
-            status: 'scheduled',
-            encryptedNotes,
-            meetingUrl: data.location === 'virtual'
-              ? `https://therapy.astralcore.com/room/${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-              : null,
-            createdAt: new Date(),
-            updatedAt: new Date(),
+      // Check every occurrence for conflicts before booking any of them
+      const { occurrences, conflicts } = await seriesService.previewSeries(seriesParams);
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Conflict',
+            message: `${conflicts.length} occurrence(s) conflict with existing appointments`,
+            conflicts,
           },
-        });
-        
-        appointments.push(appointment);
-        
-        // Move to next occurrence
-        switch (data.recurring.frequency) {
-          case 'weekly':
-            currentDate.setDate(currentDate.getDate() + 7);
-            break;
-          case 'biweekly':
-            currentDate.setDate(currentDate.getDate() + 14);
-            break;
-          case 'monthly':
-            currentDate.setMonth(currentDate.getMonth() + 1);
-            break;
-        }
+          { status: 409 }
+        );
       }
+      
+      const created = await seriesService.createSeries(seriesParams, occurrences);
+      seriesId = created.series.id;
+      appointments.push(...created.appointments);
     } else {
+      // Check for scheduling conflicts
+      const conflicts = await seriesService.findConflictsForSlot(
+        sessionUser.id,
+        new Date(data.scheduledAt),
+        data.duration
+      );
+      
+      if (conflicts.length > 0) {
+        return errorResponse(null, 'Time slot conflicts with existing appointment');
+      }
+      
       // Single appointment
       const encryptedNotes = encryptJSON({
         notes: data.notes,
@@ -357,9 +337,7 @@ export async function POST(req: NextRequest) {
           type: data.type,
           status: 'scheduled',
           encryptedNotes,
-          meetingUrl: data.location === 'virtual'
-            ? `https://therapy.astralcore.com/room/${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-            : null,
+          meetingUrl: data.location === 'virtual' ? generateMeetingUrl() : null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -368,46 +346,12 @@ export async function POST(req: NextRequest) {
       appointments.push(appointment);
     }
     
-    // Schedule reminders
+    // Queue confirm/cancel/reschedule reminders
     for (const appointment of appointments) {
-      if (data.reminders?.email || data.reminders?.push) {
-        for (const timing of data.reminders.timing || ['24h', '2h']) {
-          const reminderTime = new Date(appointment.scheduledAt);
-          
-          switch (timing) {
-            case '24h':
-              reminderTime.setHours(reminderTime.getHours() - 24);
-              break;
-            case '2h':
-              reminderTime.setHours(reminderTime.getHours() - 2);
-              break;
-            case '15m':
-              reminderTime.setMinutes(reminderTime.getMinutes() - 15);
-              break;
-          }
-          
-          if (reminderTime > new Date()) {
-            await (prisma.notification as any).create({
-              data: {
-                id: generatePrismaCreateFields().id,
-                userId: data.clientId,
-                type: 'appointment_reminder',
-                title: 'Upcoming Therapy Appointment',
-                message: `You have a therapy appointment ${timing === '24h' ? 'tomorrow' : timing === '2h' ? 'in 2 hours' : 'in 15 minutes'}`,
-                isPriority: timing === '15m',
-                metadata: {
-                  appointmentId: appointment.id,
-                  scheduledAt: appointment.scheduledAt,
-                  duration: appointment.duration,
-                  type: appointment.type,
-                  location: data.location,
-                  meetingUrl: appointment.meetingUrl,
-                },
-                createdAt: reminderTime,
-              },
-            });
-          }
-        }
+      try {
+        await attendanceService.scheduleReminders(appointment.id);
+      } catch (error) {
+        console.error('Failed to schedule appointment reminders:', error);
       }
     }
     
@@ -424,6 +368,7 @@ export async function POST(req: NextRequest) {
           appointmentId: appointments[0].id,
           appointmentsCount: appointments.length,
           recurring: !!data.recurring,
+          seriesId,
         },
       },
     });
@@ -439,6 +384,7 @@ export async function POST(req: NextRequest) {
         appointmentsCreated: appointments.length,
         type: data.type,
         recurring: !!data.recurring,
+        seriesId,
       },
       'success',
       req
@@ -446,6 +392,7 @@ export async function POST(req: NextRequest) {
     
     return successResponse(
       {
+        seriesId,
         appointments: appointments.map(apt => ({
           id: apt.id,
           scheduledAt: apt.scheduledAt,
@@ -495,19 +442,24 @@ export async function PUT(req: NextRequest) {
     // Prepare update data
     const updateData: any = {};
     
-    if (data.scheduledAt) {
-      // Check for conflicts if rescheduling
-      const conflicts = await prisma.appointment.findMany({
-        where: {
-          professionalId: sessionUser.id,
-          id: { not: data.appointmentId },
-          status: { in: ['scheduled', 'confirmed'] },
-          scheduledAt: {
-            gte: new Date(new Date(data.scheduledAt).getTime() - 15 * 60000),
-            lte: new Date(new Date(data.scheduledAt).getTime() + (data.duration || appointment.duration) * 60000),
-          },
-        },
+    if (data.scheduledAt && appointment.seriesId) {
+      // Moving one occurrence of a series is recorded as a series exception
+      await seriesService.applyOccurrenceException({
+        appointmentId: appointment.id,
+        type: 'moved',
+        newStart: new Date(data.scheduledAt),
+        newDuration: data.duration,
+        reason: data.cancelReason,
+        changedBy: sessionUser.id,
       });
+    } else if (data.scheduledAt) {
+      // Check for conflicts if rescheduling
+      const conflicts = await seriesService.findConflictsForSlot(
+        sessionUser.id,
+        new Date(data.scheduledAt),
+        data.duration || appointment.duration,
+        data.appointmentId
+      );
       
       if (conflicts.length > 0) {
         return errorResponse(null, 'New time conflicts with existing appointment');
@@ -520,16 +472,47 @@ export async function PUT(req: NextRequest) {
       updateData.duration = data.duration;
     }
     
+    if (data.status === 'no_show') {
+      // No-shows go through the attendance policy so fees are applied
+      const { appointment: missed, fee } = await attendanceService.markNoShow(appointment.id, sessionUser.id);
+      
+      // Audit log
+      await (auditLog as any)(
+        sessionUser.id,
+        'mark_appointment_no_show',
+        'therapy_appointments',
+        appointment.id,
+        { clientId: appointment.userId, fee },
+        'success',
+        req
+      );
+      
+      return successResponse(
+        {
+          appointmentId: missed.id,
+          status: missed.status,
+          scheduledAt: missed.scheduledAt,
+          fee,
+        },
+        'Appointment marked as no-show'
+      );
+    }
+    
     if (data.status) {
       updateData.status = data.status;
       
+      if (data.status === 'confirmed' && !appointment.confirmedAt) {
+        updateData.confirmedAt = new Date();
+      }
+      
       // Handle status-specific actions
-      if (data.status === 'cancelled' || data.status === 'no_show') {
+      if (data.status === 'cancelled') {
         // Store cancellation reason
         const existingNotes = appointment.encryptedNotes
           ? decryptJSON(appointment.encryptedNotes as string)
           : {};
         
+        updateData.cancelledAt = new Date();
         existingNotes.cancellation = {
           status: data.status,
           reason: data.cancelReason,
@@ -544,11 +527,9 @@ export async function PUT(req: NextRequest) {
           data: {
             id: generatePrismaCreateFields().id,
             userId: appointment.userId,
-            type: data.status === 'cancelled' ? 'appointment_cancelled' : 'appointment_no_show',
-            title: data.status === 'cancelled' ? 'Appointment Cancelled' : 'Missed Appointment',
-            message: data.status === 'cancelled'
-              ? `Your appointment has been cancelled. ${data.cancelReason || ''}`
-              : 'You missed your scheduled appointment. Please contact us to reschedule.',
+            type: 'appointment_cancelled',
+            title: 'Appointment Cancelled',
+            message: `Your appointment has been cancelled. ${data.cancelReason || ''}`,
             isPriority: true,
             metadata: {
               appointmentId: appointment.id,
@@ -580,6 +561,22 @@ export async function PUT(req: NextRequest) {
       },
     });
     
+    if (data.status === 'cancelled' && appointment.seriesId) {
+      await seriesService.applyOccurrenceException({
+        appointmentId: appointment.id,
+        type: 'cancelled',
+        reason: data.cancelReason,
+        changedBy: sessionUser.id,
+      });
+    }
+    
+    // Keep queued reminders in step with the appointment
+    if (data.status === 'cancelled' || data.status === 'completed') {
+      await attendanceService.cancelReminders([appointment.id]);
+    } else if (data.scheduledAt) {
+      await attendanceService.scheduleReminders(appointment.id);
+    }
+    
     // Audit log
     await (auditLog as any)(
       sessionUser.id,
@@ -645,44 +642,18 @@ export async function DELETE(req: NextRequest) {
     
     // Handle series cancellation if requested
     let cancelledCount = 0;
-    
-    if (cancelSeries && appointment.encryptedNotes) {
-      const notes = decryptJSON(appointment.encryptedNotes as string);
-      
-      if (notes.seriesId) {
-        // Cancel all future appointments in the series
-        const seriesAppointments = await prisma.appointment.findMany({
-          where: {
-            professionalId: sessionUser.id,
-            scheduledAt: { gte: new Date() },
-            status: { in: ['scheduled', 'confirmed'] },
-          },
-        });
-        
-        for (const apt of seriesAppointments) {
-          if (apt.encryptedNotes) {
-            const aptNotes = decryptJSON(apt.encryptedNotes as string);
-            if (aptNotes.seriesId === notes.seriesId) {
-              await prisma.appointment.update({
-                where: { id: apt.id },
-                data: {
-                  status: 'cancelled',
-                  encryptedNotes: encryptJSON({
-                    ...aptNotes,
-                    cancellation: {
-                      reason,
-                      cancelledBy: sessionUser.id,
-                      cancelledAt: new Date().toISOString(),
-                      seriesCancellation: true,
-                    },
-                  }),
-                },
-              });
-              cancelledCount++;
-            }
-          }
-        }
-      }
+    let cancelledIds = [appointmentId];
+    
+    if (cancelSeries && appointment.seriesId) {
+      // Cancel this and all following appointments in the series
+      const result = await seriesService.cancelSeriesFrom(
+        appointment.seriesId,
+        appointment.scheduledAt,
+        sessionUser.id,
+        reason
+      );
+      cancelledCount = result.cancelledCount;
+      cancelledIds = result.appointmentIds;
     } else {
       // Cancel single appointment
       const existingNotes = appointment.encryptedNotes
@@ -693,6 +664,7 @@ export async function DELETE(req: NextRequest) {
         where: { id: appointmentId },
         data: {
           status: 'cancelled',
+          cancelledAt: new Date(),
           encryptedNotes: encryptJSON({
             ...existingNotes,
             cancellation: {
@@ -704,6 +676,15 @@ export async function DELETE(req: NextRequest) {
         },
       });
       cancelledCount = 1;
+      
+      if (appointment.seriesId) {
+        await seriesService.applyOccurrenceException({
+          appointmentId,
+          type: 'cancelled',
+          reason,
+          changedBy: sessionUser.id,
+        });
+      }
     }
     
     // Notify client
@@ -723,6 +704,18 @@ export async function DELETE(req: NextRequest) {
       },
     });
     
+    await attendanceService.cancelReminders(cancelledIds);
+    
+    // Offer the freed slots to the therapist's waitlist
+    let backfillOffers = 0;
+    for (const cancelledId of cancelledIds) {
+      try {
+        if (await waitlistService.startBackfill(cancelledId)) backfillOffers++;
+      } catch (error) {
+        console.error('Failed to start waitlist backfill:', error);
+      }
+    }
+    
     // Audit log
     await (auditLog as any)(
       sessionUser.id,
@@ -734,6 +727,7 @@ export async function DELETE(req: NextRequest) {
         reason,
         seriesCancellation: cancelSeries,
         cancelledCount,
+        backfillOffers,
       },
       'success',
       req
@@ -743,6 +737,7 @@ export async function DELETE(req: NextRequest) {
       {
         appointmentId,
         cancelledCount,
+        backfillOffers,
         cancelledAt: new Date(),
       },
       `${cancelledCount} appointment(s) cancelled successfully`
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { decryptJSON } from '@/lib/encryption-exports';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { seriesService } from '@/lib/scheduling/series-service';
+
+// Validation schemas
+const getSeriesSchema = z.object({
+  seriesId: z.string().min(1),
+});
+
+// GET /api/therapy/appointments/series - series rule, occurrences and exceptions
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const params = validateInput(getSeriesSchema, {
+      seriesId: req.nextUrl.searchParams.get('seriesId'),
+    });
+
+    const series = await seriesService.getSeries(params.seriesId);
+    if (!series) {
+      return errorResponse(null, 'Appointment series not found');
+    }
+
+    if (series.professionalId !== sessionUser.id) {
+      return errorResponse(null, 'Unauthorized to view this appointment series');
+    }
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'view_appointment_series',
+      'therapy_appointments',
+      series.id,
+      { clientId: series.clientId, occurrences: series.appointments.length },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        id: series.id,
+        clientId: series.clientId,
+        rrule: series.rrule,
+        dtstart: series.dtstart,
+        timeZone: series.timeZone,
+        duration: series.duration,
+        type: series.type,
+        location: series.location,
+        status: series.status,
+        notes: series.encryptedNotes ? decryptJSON(series.encryptedNotes as string).notes : undefined,
+        endedAt: series.endedAt,
+        occurrences: series.appointments.map(apt => ({
+          appointmentId: apt.id,
+          originalStart: apt.originalStart,
+          scheduledAt: apt.scheduledAt,
+          duration: apt.duration,
+          status: apt.status,
+        })),
+        exceptions: series.exceptions.map(exception => ({
+          originalStart: exception.originalStart,
+          type: exception.type,
+          newStart: exception.newStart,
+          newDuration: exception.newDuration,
+          reason: exception.reason,
+          createdAt: exception.createdAt,
+        })),
+      },
+      'Appointment series retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve appointment series');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import {
+  requireRole,
+  auditLog,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { outcomesService } from '@/lib/outcomes/outcomes-service';
+
+// GET /api/therapy/assessments/alerts - "Not on track" alerts across the therapist's caseload
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const userId = (session as any).user.id;
+    const alerts = await outcomesService.getCaseloadAlerts(userId);
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'view_outcome_alerts',
+      'therapy_assessments',
+      undefined,
+      {
+        count: alerts.length,
+        clientIds: [...new Set(alerts.map(a => a.clientId))],
+      },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        alerts,
+        summary: {
+          total: alerts.length,
+          high: alerts.filter(a => a.severity === 'high').length,
+          medium: alerts.filter(a => a.severity === 'medium').length,
+        },
+      },
+      'Outcome alerts retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve outcome alerts');
+  }
+}
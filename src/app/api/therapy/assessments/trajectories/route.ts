@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+  verifyClientConsent,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { outcomesService } from '@/lib/outcomes/outcomes-service';
+import { evaluateOnTrack, INSTRUMENT_NORMS } from '@/lib/outcomes/reliable-change';
+
+// Validation schemas
+const getTrajectoriesSchema = z.object({
+  clientId: z.string().uuid(),
+  instrument: z.enum(['phq9', 'gad7', 'pcl5', 'audit', 'dast10']).optional(),
+});
+
+// GET /api/therapy/assessments/trajectories - Score trajectories with reliable change for a client
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const searchParams = req.nextUrl.searchParams;
+    const params = validateInput(getTrajectoriesSchema, {
+      clientId: searchParams.get('clientId'),
+      instrument: searchParams.get('instrument') || undefined,
+    });
+
+    // Verify consent for client
+    const hasConsent = await verifyClientConsent((session as any).user.id, params.clientId);
+    if (!hasConsent) {
+      return errorResponse(null, 'No consent to access this client\'s assessments');
+    }
+
+    const trajectories = await outcomesService.getClientTrajectories(params.clientId, params.instrument);
+
+    const results = trajectories.map(trajectory => ({
+      ...trajectory,
+      clinicalCutoff: INSTRUMENT_NORMS[trajectory.instrument].clinicalCutoff,
+      maxScore: INSTRUMENT_NORMS[trajectory.instrument].maxScore,
+      alert: evaluateOnTrack(trajectory),
+    }));
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'view_assessment_trajectories',
+      'therapy_assessments',
+      undefined,
+      {
+        clientId: params.clientId,
+        instruments: results.map(r => r.instrument),
+        notOnTrack: results.filter(r => r.alert).length,
+      },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        clientId: params.clientId,
+        trajectories: results,
+      },
+      'Assessment trajectories retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve assessment trajectories');
+  }
+}
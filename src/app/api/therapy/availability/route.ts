@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { availabilityService } from '@/lib/scheduling/availability-service';
+import { isValidTimeZone } from '@/lib/scheduling/rrule';
+
+// Validation schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const updateAvailabilitySchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  bufferMinutes: z.number().int().min(0).max(120).optional(),
+  maxSessionsPerDay: z.number().int().min(1).max(16).optional(),
+  minNoticeHours: z.number().int().min(0).max(336).optional(),
+  maxAdvanceDays: z.number().int().min(1).max(365).optional(),
+  slotIntervalMinutes: z.number().int().refine(value => [15, 30, 60].includes(value), 'Must be 15, 30 or 60').optional(),
+  sessionDurations: z.record(
+    z.enum(['initial', 'follow_up', 'teletherapy', 'group']),
+    z.number().int().min(15).max(180)
+  ).optional(),
+  acceptingNewClients: z.boolean().optional(),
+  windows: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeOfDay,
+    endTime: timeOfDay,
+    sessionTypes: z.array(z.enum(['initial', 'follow_up', 'teletherapy', 'group'])).default([]),
+  })).max(50).optional(),
+  blackouts: z.array(z.object({
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+    reason: z.string().max(200).optional(),
+  })).max(200).optional(),
+});
+
+function formatAvailability(availability: NonNullable<Awaited<ReturnType<typeof availabilityService.getAvailability>>>) {
+  return {
+    timeZone: availability.timeZone,
+    bufferMinutes: availability.bufferMinutes,
+    maxSessionsPerDay: availability.maxSessionsPerDay,
+    minNoticeHours: availability.minNoticeHours,
+    maxAdvanceDays: availability.maxAdvanceDays,
+    slotIntervalMinutes: availability.slotIntervalMinutes,
+    sessionDurations: availability.sessionDurations,
+    acceptingNewClients: availability.acceptingNewClients,
+    windows: availability.windows.map(window => ({
+      id: window.id,
+      dayOfWeek: window.dayOfWeek,
+      startTime: window.startTime,
+      endTime: window.endTime,
+      sessionTypes: window.sessionTypes,
+    })),
+    blackouts: availability.blackouts.map(blackout => ({
+      id: blackout.id,
+      startsAt: blackout.startsAt,
+      endsAt: blackout.endsAt,
+      reason: blackout.reason,
+    })),
+    updatedAt: availability.updatedAt,
+  };
+}
+
+// GET /api/therapy/availability - the therapist's working hours and booking rules
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const availability = await availabilityService.getAvailability(sessionUser.id);
+
+    return successResponse(
+      availability ? formatAvailability(availability) : null,
+      'Availability retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve availability');
+  }
+}
+
+// PUT /api/therapy/availability - update booking rules; windows and blackouts are replaced when given
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 10, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const body = await req.json();
+    const data = validateInput(updateAvailabilitySchema, body);
+
+    const availability = await availabilityService.updateAvailability(sessionUser.id, {
+      ...data,
+      blackouts: data.blackouts?.map(blackout => ({
+        startsAt: new Date(blackout.startsAt),
+        endsAt: new Date(blackout.endsAt),
+        reason: blackout.reason,
+      })),
+    });
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'update_availability',
+      'therapy_availability',
+      availability.id,
+      {
+        windows: availability.windows.length,
+        blackouts: availability.blackouts.length,
+        acceptingNewClients: availability.acceptingNewClients,
+      },
+      'success',
+      req
+    );
+
+    return successResponse(formatAvailability(availability), 'Availability updated successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to update availability');
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { billingService } from '@/lib/billing/billing-service';
+import { ClaimStatus, DiagnosisCode } from '@/lib/billing/types';
+import { generate837P, X12ClaimInput } from '@/lib/billing/x12-837p';
+import { X12SegmentError } from '@/lib/billing/x12-common';
+
+const addressSchema = z.object({
+  line1: z.string().min(1),
+  line2: z.string().optional(),
+  city: z.string().min(1),
+  state: z.string().length(2).transform(s => s.toUpperCase()),
+  postalCode: z.string().min(5),
+});
+
+// Validation schemas
+const export837Schema = z.object({
+  claimIds: z.array(z.string().min(1)).min(1).max(100),
+  placeOfService: z.string().regex(/^\d{2}$/).default('11'),
+  usage: z.enum(['P', 'T']).default('P'),
+  markSubmitted: z.boolean().default(true),
+  submitter: z.object({
+    name: z.string().min(1),
+    id: z.string().min(1).max(15),
+    contactName: z.string().min(1),
+    contactPhone: z.string().min(10),
+  }),
+  receiver: z.object({
+    name: z.string().min(1),
+    id: z.string().min(1).max(15),
+  }),
+  billingProvider: z.object({
+    organizationName: z.string().min(1),
+    npi: z.string().length(10),
+    taxId: z.string().min(9),
+    address: addressSchema,
+  }),
+  // Subscriber demographics that are not stored on the client record
+  subscribers: z.record(z.string(), z.object({
+    address: addressSchema.optional(),
+    gender: z.enum(['M', 'F', 'U']).optional(),
+  })).default({}),
+});
+
+// POST /api/therapy/billing/export - Generate an X12 837P claim file
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 5, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json();
+    const data = validateInput(export837Schema, body);
+    const userId = (session as any).user.id;
+
+    const claims = await prisma.claim.findMany({
+      where: {
+        id: { in: data.claimIds },
+        professionalId: userId,
+      },
+      include: { serviceLines: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    const errors: X12SegmentError[] = [];
+
+    const foundIds = new Set(claims.map(claim => claim.id));
+    data.claimIds
+      .filter(id => !foundIds.has(id))
+      .forEach(id => errors.push({ segment: 'CLM', message: `Claim ${id} not found` }));
+
+    claims
+      .filter(claim => claim.status !== ClaimStatus.PENDING)
+      .forEach(claim => errors.push({
+        segment: 'CLM',
+        claimNumber: claim.claimNumber,
+        message: `Only pending claims can be exported (claim is ${claim.status.toLowerCase()})`,
+      }));
+
+    const clients = await prisma.user.findMany({
+      where: { id: { in: claims.map(claim => claim.clientId) } },
+      select: { id: true, firstName: true, lastName: true, dateOfBirth: true },
+    });
+    const clientsById = new Map(clients.map(client => [client.id, client]));
+
+    const claimInputs: X12ClaimInput[] = claims.map(claim => {
+      const insurance = billingService.getInsuranceDetails(claim);
+      const client = clientsById.get(claim.clientId);
+      const demographics = data.subscribers[claim.clientId];
+      const diagnoses = [...((claim.diagnosisCodes as unknown as DiagnosisCode[]) || [])]
+        .sort((a, b) => Number(b.primary) - Number(a.primary));
+
+      return {
+        claimNumber: claim.claimNumber,
+        totalCharges: claim.totalCharges,
+        placeOfService: data.placeOfService,
+        diagnosisCodes: diagnoses.map(dx => dx.code),
+        priorAuthorization: insurance?.authorizationNumber,
+        subscriber: {
+          memberId: insurance?.policyNumber || '',
+          firstName: client?.firstName || '',
+          lastName: client?.lastName || '',
+          dateOfBirth: client?.dateOfBirth || undefined,
+          gender: demographics?.gender,
+          groupNumber: insurance?.groupNumber,
+          address: demographics?.address,
+        },
+        payer: {
+          name: claim.payerName || insurance?.provider || '',
+          id: claim.payerId || insurance?.payerId || '',
+        },
+        serviceLines: claim.serviceLines.map(line => ({
+          cptCode: line.cptCode,
+          modifier: line.modifier || undefined,
+          chargeAmount: line.chargeAmount,
+          units: line.units,
+          diagnosisPointers: line.diagnosisPointers,
+          serviceDate: line.serviceDate,
+        })),
+      };
+    });
+
+    const result = generate837P({
+      controlNumber: Math.floor(Date.now() / 1000) % 1000000000,
+      usage: data.usage,
+      submitter: data.submitter,
+      receiver: data.receiver,
+      billingProvider: data.billingProvider,
+      claims: claimInputs,
+    });
+
+    errors.push(...result.errors);
+
+    if (errors.length > 0) {
+      await (auditLog as any)(
+        userId,
+        'export_claims_837',
+        'therapy_billing',
+        undefined,
+        { claimIds: data.claimIds, errorCount: errors.length },
+        'failure',
+        req
+      );
+
+      return NextResponse.json(
+        {
+          error: 'Validation Error',
+          message: 'Claim file failed X12 837P validation',
+          errors,
+        },
+        { status: 422 }
+      );
+    }
+
+    if (data.markSubmitted && data.usage === 'P') {
+      for (const claim of claims) {
+        await billingService.transitionClaim({
+          claimId: claim.id,
+          to: ClaimStatus.SUBMITTED,
+          changedBy: userId,
+          reason: 'Exported in 837P batch',
+        });
+      }
+    }
+
+    await (auditLog as any)(
+      userId,
+      'export_claims_837',
+      'therapy_billing',
+      undefined,
+      {
+        claimIds: data.claimIds,
+        claimCount: result.claimCount,
+        segmentCount: result.segmentCount,
+        usage: data.usage,
+      },
+      'success',
+      req
+    );
+
+    return new NextResponse(result.content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/edi-x12',
+        'Content-Disposition': `attachment; filename="claims-837p-${Date.now()}.txt"`,
+        'X-Claim-Count': String(result.claimCount),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to export claims');
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { AppError, ValidationError } from '@/lib/error-handling/error-types';
+import { billingService } from '@/lib/billing/billing-service';
+import { parse835, toRemittancePosting } from '@/lib/billing/x12-835';
+
+// Validation schemas
+const import835Schema = z.object({
+  content: z.string().min(106).max(5 * 1024 * 1024),
+  dryRun: z.boolean().default(false),
+});
+
+// POST /api/therapy/billing/remittance - Import an X12 835 remittance advice file
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 5, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json();
+    const data = validateInput(import835Schema, body);
+    const userId = (session as any).user.id;
+
+    let remittance;
+    try {
+      remittance = parse835(data.content);
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : 'Invalid X12 file');
+    }
+
+    // File-level errors (wrong transaction set, unbalanced BPR) block all posting
+    const fileErrors = remittance.errors.filter(err => !err.claimNumber);
+    if (fileErrors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation Error',
+          message: 'Remittance file failed X12 835 validation',
+          errors: remittance.errors,
+        },
+        { status: 422 }
+      );
+    }
+
+    const posted: any[] = [];
+    const unmatched: any[] = [];
+    const failed: any[] = [];
+
+    for (const remittedClaim of remittance.claims) {
+      const claimErrors = remittance.errors.filter(err => err.claimNumber === remittedClaim.patientControlNumber);
+      if (claimErrors.length > 0) {
+        failed.push({ claimNumber: remittedClaim.patientControlNumber, errors: claimErrors });
+        continue;
+      }
+
+      const claim = await prisma.claim.findFirst({
+        where: {
+          claimNumber: remittedClaim.patientControlNumber,
+          ...((session as any).user.role !== UserRole.ADMIN && { professionalId: userId }),
+        },
+      });
+
+      if (!claim) {
+        unmatched.push({
+          claimNumber: remittedClaim.patientControlNumber,
+          payerClaimNumber: remittedClaim.payerClaimNumber,
+          paidAmount: remittedClaim.paidAmount,
+        });
+        continue;
+      }
+
+      if (remittedClaim.statusCode === '22') {
+        failed.push({
+          claimNumber: claim.claimNumber,
+          errors: [{ segment: 'CLP', element: 'CLP02', message: 'Payment reversals require manual review' }],
+        });
+        continue;
+      }
+
+      const posting = toRemittancePosting(remittedClaim, remittance);
+
+      if (data.dryRun) {
+        posted.push({ claimId: claim.id, claimNumber: claim.claimNumber, posting });
+        continue;
+      }
+
+      try {
+        const result = await billingService.postRemittance(claim.id, posting, userId);
+        posted.push({
+          claimId: claim.id,
+          claimNumber: claim.claimNumber,
+          status: result.claim.status.toLowerCase(),
+          paidAmount: posting.paidAmount,
+          patientResponsibility: result.claim.patientResponsibility,
+          insuranceOutstanding: result.insuranceOutstanding,
+          denial: posting.denial,
+        });
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        failed.push({
+          claimNumber: claim.claimNumber,
+          errors: [{ segment: 'CLP', message: error.message }],
+        });
+      }
+    }
+
+    await (auditLog as any)(
+      userId,
+      data.dryRun ? 'preview_remittance_835' : 'import_remittance_835',
+      'therapy_billing',
+      remittance.payment.traceNumber,
+      {
+        payer: remittance.payer.name,
+        totalAmount: remittance.payment.totalAmount,
+        posted: posted.length,
+        unmatched: unmatched.length,
+        failed: failed.length,
+      },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        dryRun: data.dryRun,
+        payer: remittance.payer,
+        payment: remittance.payment,
+        providerAdjustments: remittance.providerAdjustments,
+        posted,
+        unmatched,
+        failed,
+      },
+      data.dryRun ? 'Remittance preview generated' : 'Remittance imported successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to import remittance');
+  }
+}
@@ -9,10 +9,11 @@ import {
   validateInput,
   errorResponse,
   successResponse,
-  paginatedResponse,
 } from '@/lib/api-middleware';
-import { encryptJSON, decryptJSON, maskSensitiveData } from '@/lib/encryption';
+import { maskSensitiveData } from '@/lib/encryption-exports';
 import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { billingService } from '@/lib/billing/billing-service';
+import { ClaimStatus } from '@/lib/billing/types';
 
 // Validation schemas
 const getBillingSchema = z.object({
@@ -62,7 +63,7 @@ const createBillingSchema = z.object({
 });
 
 const updateBillingSchema = z.object({
-  billingId: z.string().uuid(),
+  billingId: z.string().min(1),
   status: z.enum(['pending', 'submitted', 'processing', 'paid', 'denied', 'appealed']).optional(),
   paymentInfo: z.object({
     amount: z.number(),
@@ -75,6 +76,18 @@ const updateBillingSchema = z.object({
     denialCode: z.string(),
     appealDeadline: z.string().datetime().optional(),
   }).optional(),
+  remittance: z.object({
+    paidAmount: z.number().min(0),
+    allowedAmount: z.number().optional(),
+    payerClaimNumber: z.string().optional(),
+    paymentDate: z.string().datetime(),
+    referenceNumber: z.string().optional(),
+    adjustments: z.array(z.object({
+      groupCode: z.enum(['CO', 'PR', 'OA', 'PI', 'CR']),
+      reasonCode: z.string(),
+      amount: z.number(),
+    })).default([]),
+  }).optional(),
   adjustments: z.array(z.object({
     type: z.enum(['writeoff', 'discount', 'adjustment', 'refund']),
     amount: z.number(),
@@ -90,6 +103,7 @@ const generateStatementSchema = z.object({
   includeDetails: z.boolean().default(true),
 });
 
+
 // GET /api/therapy/billing
 export async function GET(req: NextRequest) {
   try {
@@ -106,111 +120,126 @@ export async function GET(req: NextRequest) {
     const params = validateInput(getBillingSchema, {
       page: searchParams.get('page'),
       limit: searchParams.get('limit'),
-      clientId: searchParams.get('clientId'),
-      startDate: searchParams.get('startDate'),
-      endDate: searchParams.get('endDate'),
-      status: searchParams.get('status'),
-      insuranceProvider: searchParams.get('insuranceProvider'),
+      clientId: searchParams.get('clientId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      status: searchParams.get('status') || undefined,
+      insuranceProvider: searchParams.get('insuranceProvider') || undefined,
     });
     
     // Build query filters
-    const where: any = {};
+    const where: any = {
+      professionalId: (session as any).user.id,
+      ...(params.clientId && { clientId: params.clientId }),
+      ...(params.status && { status: params.status.toUpperCase() as ClaimStatus }),
+      ...(params.insuranceProvider && { payerName: params.insuranceProvider }),
+    };
     
     if (params.startDate || params.endDate) {
-      where.createdAt = {};
+      where.serviceDate = {};
       if (params.startDate) {
-        where.createdAt.gte = new Date(params.startDate);
+        where.serviceDate.gte = new Date(params.startDate);
       }
       if (params.endDate) {
-        where.createdAt.lte = new Date(params.endDate);
+        where.serviceDate.lte = new Date(params.endDate);
       }
     }
     
-    // Get billing records from Appointment table (using encryptedNotes for billing data)
-    const appointments = await prisma.appointment.findMany({
-      where: {
-        professionalId: (session as any).user.id,
-        ...(params.clientId && { userId: params.clientId }),
-        ...where,
-        encryptedNotes: { not: null },
-      },
-      include: {
-        User: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+    const [claims, total, statusCounts, totals] = await Promise.all([
+      prisma.claim.findMany({
+        where,
+        include: {
+          serviceLines: true,
+          payments: { orderBy: { paymentDate: 'desc' } },
         },
-      },
-      skip: (params.page - 1) * params.limit,
-      take: params.limit,
-      orderBy: { scheduledAt: 'desc' },
-    });
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+        orderBy: { serviceDate: 'desc' },
+      }),
+      prisma.claim.count({ where }),
+      prisma.claim.groupBy({
+        by: ['status'],
+        where,
+        _count: { _all: true },
+      }),
+      prisma.claim.aggregate({
+        where,
+        _sum: {
+          totalCharges: true,
+          paidAmount: true,
+          adjustmentAmount: true,
+          patientResponsibility: true,
+        },
+      }),
+    ]);
     
-    // Process and decrypt billing data
-    const billingRecords = [];
-    
-    for (const appointment of appointments) {
-      if (appointment.encryptedNotes) {
-        try {
-          const decryptedData = decryptJSON(appointment.encryptedNotes as string);
-          
-          if (decryptedData.billing) {
-            // Filter by status if specified
-            if (params.status && decryptedData.billing.status !== params.status) {
-              continue;
-            }
-            
-            // Filter by insurance provider if specified
-            if (params.insuranceProvider && 
-                decryptedData.billing.insurance?.provider !== params.insuranceProvider) {
-              continue;
-            }
-            
-            billingRecords.push({
-              id: `billing_${appointment.id}`,
-              sessionId: appointment.id,
-              clientId: appointment.userId,
-              clientName: `${appointment.User.firstName || ''} ${appointment.User.lastName || ''}`.trim(),
-              serviceDate: appointment.scheduledAt,
-              cptCodes: decryptedData.billing.cptCodes,
-              diagnosisCodes: decryptedData.billing.diagnosisCodes,
-              insurance: decryptedData.billing.insurance ? {
-                ...decryptedData.billing.insurance,
-                policyNumber: maskSensitiveData(decryptedData.billing.insurance.policyNumber, {}),
-              } : null,
-              selfPay: decryptedData.billing.selfPay,
-              totalCharges: calculateTotalCharges(decryptedData.billing.cptCodes),
-              amountPaid: decryptedData.billing.paymentInfo?.amount || 0,
-              balance: calculateBalance(decryptedData.billing),
-              status: decryptedData.billing.status || 'pending',
-              submittedDate: decryptedData.billing.submittedDate,
-              paymentDate: decryptedData.billing.paymentInfo?.paymentDate,
-              notes: decryptedData.billing.notes,
-              createdAt: appointment.createdAt,
-            });
-          }
-        } catch (error) {
-          console.error('Failed to decrypt billing data:', error);
-        }
-      }
-    }
+    const billingRecords = claims.map((claim: any) => {
+      const insurance = billingService.getInsuranceDetails(claim);
+      
+      return {
+        id: claim.id,
+        claimNumber: claim.claimNumber,
+        sessionId: claim.appointmentId,
+        clientId: claim.clientId,
+        serviceDate: claim.serviceDate,
+        cptCodes: claim.serviceLines.map((line: any) => ({
+          code: line.cptCode,
+          description: line.description,
+          units: line.units,
+          rate: line.unitRate,
+          modifier: line.modifier,
+          paidAmount: line.paidAmount,
+        })),
+        diagnosisCodes: claim.diagnosisCodes,
+        insurance: insurance ? {
+          ...insurance,
+          policyNumber: maskSensitiveData(insurance.policyNumber),
+        } : null,
+        totalCharges: claim.totalCharges,
+        allowedAmount: claim.allowedAmount,
+        amountPaid: claim.paidAmount,
+        adjustments: claim.adjustmentAmount,
+        patientResponsibility: claim.patientResponsibility,
+        balance: Math.max(0, claim.totalCharges - claim.paidAmount - claim.adjustmentAmount),
+        status: claim.status.toLowerCase(),
+        statusHistory: claim.statusHistory,
+        submittedDate: claim.submittedAt,
+        paymentDate: claim.paidAt,
+        denial: claim.denialCode ? {
+          denialCode: claim.denialCode,
+          reason: claim.denialReason,
+          appealDeadline: claim.appealDeadline,
+        } : null,
+        payments: claim.payments,
+        notes: claim.notes,
+        createdAt: claim.createdAt,
+      };
+    });
     
-    // Calculate summary statistics
+    // Calculate summary statistics across all matching claims
+    const countFor = (status: ClaimStatus) =>
+      statusCounts.find((row: any) => row.status === status)?._count._all || 0;
     const stats = {
-      totalCharges: billingRecords.reduce((sum, r) => sum + r.totalCharges, 0),
-      totalPaid: billingRecords.reduce((sum, r) => sum + r.amountPaid, 0),
-      totalBalance: billingRecords.reduce((sum, r) => sum + r.balance, 0),
-      pending: billingRecords.filter(r => r.status === 'pending').length,
-      submitted: billingRecords.filter(r => r.status === 'submitted').length,
-      paid: billingRecords.filter(r => r.status === 'paid').length,
-      denied: billingRecords.filter(r => r.status === 'denied').length,
+      totalCharges: totals._sum.totalCharges || 0,
+      totalPaid: totals._sum.paidAmount || 0,
+      totalAdjustments: totals._sum.adjustmentAmount || 0,
+      totalPatientResponsibility: totals._sum.patientResponsibility || 0,
+      totalBalance: Math.max(
+        0,
+        (totals._sum.totalCharges || 0) - (totals._sum.paidAmount || 0) - (totals._sum.adjustmentAmount || 0)
+      ),
+      pending: countFor(ClaimStatus.PENDING),
+      submitted: countFor(ClaimStatus.SUBMITTED),
+      processing: countFor(ClaimStatus.PROCESSING),
+      paid: countFor(ClaimStatus.PAID),
+      denied: countFor(ClaimStatus.DENIED),
+      appealed: countFor(ClaimStatus.APPEALED),
     };
     
-    // Get total count
-    const total = billingRecords.length;
+    // Per-client balance when viewing a single client's ledger
+    const clientBalance = params.clientId
+      ? await billingService.getClientBalance(params.clientId, (session as any).user.id)
+      : undefined;
     
     // Audit log
     await (auditLog as any)(
@@ -230,6 +259,7 @@ export async function GET(req: NextRequest) {
       {
         billingRecords,
         stats,
+        clientBalance,
         pagination: {
           total,
           page: params.page,
@@ -259,65 +289,93 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const data = validateInput(createBillingSchema, body);
     
+    if (!data.insurance && !data.selfPay) {
+      return NextResponse.json(
+        { error: 'Validation Error', message: 'Either insurance or selfPay details are required' },
+        { status: 400 }
+      );
+    }
+    
     // Verify session exists and belongs to therapist
     const appointment = await prisma.appointment.findUnique({
       where: { id: data.sessionId },
     });
     
     if (!appointment) {
-      return errorResponse(null, 'Session not found');
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Session not found' },
+        { status: 404 }
+      );
     }
     
     if (appointment.professionalId !== (session as any).user.id) {
-      return errorResponse(null, 'Unauthorized to bill for this session');
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Unauthorized to bill for this session' },
+        { status: 403 }
+      );
     }
     
     if (appointment.userId !== data.clientId) {
-      return errorResponse(null, 'Client ID mismatch with session');
+      return NextResponse.json(
+        { error: 'Validation Error', message: 'Client ID mismatch with session' },
+        { status: 400 }
+      );
     }
     
-    // Calculate totals
-    const totalCharges = calculateTotalCharges(data.cptCodes);
-    const estimatedPayment = data.insurance
-      ? calculateInsurancePayment(totalCharges, data.insurance)
-      : data.selfPay
-      ? totalCharges - (data.selfPay.discount || 0)
-      : totalCharges;
-    
-    // Prepare billing data
-    const billingData = {
-      sessionId: data.sessionId,
-      clientId: data.clientId,
-      serviceDate: data.serviceDate,
-      cptCodes: data.cptCodes,
-      diagnosisCodes: data.diagnosisCodes,
-      insurance: data.insurance,
-      selfPay: data.selfPay,
-      totalCharges,
-      estimatedPayment,
-      balance: totalCharges - estimatedPayment,
-      status: 'pending',
-      createdBy: (session as any).user.id,
-      createdAt: new Date().toISOString(),
-      notes: data.notes,
-    };
-    
-    // Get existing notes
-    const existingNotes = appointment.encryptedNotes
-      ? decryptJSON(appointment.encryptedNotes as string)
-      : {};
+    const serviceDate = new Date(data.serviceDate);
+    let record: { id: string; number: string; type: 'claim' | 'invoice' };
+    let totalCharges: number;
+    let estimatedPayment: number;
     
-    // Add billing data to appointment
-    existingNotes.billing = billingData;
-    
-    // Update appointment with billing data
-    await prisma.appointment.update({
-      where: { id: data.sessionId },
-      data: {
-        encryptedNotes: encryptJSON(existingNotes),
-        updatedAt: new Date(),
-      },
-    });
+    if (data.insurance) {
+      const claim = await billingService.createClaim({
+        appointmentId: data.sessionId,
+        clientId: data.clientId,
+        professionalId: (session as any).user.id,
+        serviceDate,
+        cptCodes: data.cptCodes,
+        diagnosisCodes: data.diagnosisCodes,
+        insurance: data.insurance,
+        notes: data.notes,
+        createdBy: (session as any).user.id,
+      });
+      
+      record = { id: claim.id, number: claim.claimNumber, type: 'claim' };
+      totalCharges = claim.totalCharges;
+      estimatedPayment = calculateInsurancePayment(totalCharges, data.insurance);
+      
+      // Create notification for billing team
+      await (prisma.notification as any).create({
+        data: {
+          id: generatePrismaCreateFields().id,userId: (session as any).user.id,
+          type: 'insurance_claim',
+          title: 'New Insurance Claim',
+          message: `Insurance claim ${claim.claimNumber} created for ${data.insurance.provider}`,
+          isPriority: false,
+          metadata: {
+            claimId: claim.id,
+            sessionId: data.sessionId,
+            clientId: data.clientId,
+            provider: data.insurance.provider,
+            totalCharges,
+          },
+        },
+      });
+    } else {
+      const invoice = await billingService.createInvoice({
+        appointmentId: data.sessionId,
+        clientId: data.clientId,
+        professionalId: (session as any).user.id,
+        serviceDate,
+        cptCodes: data.cptCodes,
+        discount: data.selfPay?.discount,
+        notes: data.notes,
+      });
+      
+      record = { id: invoice.id, number: invoice.invoiceNumber, type: 'invoice' };
+      totalCharges = invoice.subtotal;
+      estimatedPayment = invoice.totalAmount;
+    }
     
     // Create audit entry for billing
     await (prisma.auditLog as any).create({
@@ -325,13 +383,14 @@ export async function POST(req: NextRequest) {
           id: generatePrismaCreateFields().id,userId: (session as any).user.id,
         action: 'create_billing',
         resource: 'therapy_billing',
-        resourceId: data.sessionId,
+        resourceId: record.id,
         details: {
+          sessionId: data.sessionId,
           clientId: data.clientId,
           totalCharges,
           cptCodes: data.cptCodes.map(c => c.code),
           diagnosisCodes: data.diagnosisCodes.map(d => d.code),
-          billingType: data.insurance ? 'insurance' : 'self_pay',
+          billingType: record.type === 'claim' ? 'insurance' : 'self_pay',
         },
         outcome: 'success',
         ipAddress: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || '',
@@ -339,32 +398,15 @@ export async function POST(req: NextRequest) {
       },
     });
     
-    // Create notification for billing team if insurance claim
-    if (data.insurance) {
-      await (prisma.notification as any).create({
-        data: {
-          id: generatePrismaCreateFields().id,userId: (session as any).user.id,
-          type: 'insurance_claim',
-          title: 'New Insurance Claim',
-          message: `Insurance claim created for ${data.insurance.provider}`,
-          isPriority: false,
-          metadata: {
-            sessionId: data.sessionId,
-            clientId: data.clientId,
-            provider: data.insurance.provider,
-            totalCharges,
-          },
-        },
-      });
-    }
-    
     return successResponse(
       {
-        billingId: `billing_${data.sessionId}`,
+        billingId: record.id,
+        billingNumber: record.number,
+        billingType: record.type,
         sessionId: data.sessionId,
         totalCharges,
         estimatedPayment,
-        balance: billingData.balance,
+        balance: Math.max(0, totalCharges - estimatedPayment),
         status: 'pending',
         createdAt: new Date(),
       },
@@ -390,127 +432,130 @@ export async function PUT(req: NextRequest) {
     // Parse and validate request body
     const body = await req.json();
     const data = validateInput(updateBillingSchema, body);
+    const userId = (session as any).user.id;
     
-    // Extract session ID from billing ID
-    const sessionId = data.billingId.replace('billing_', '');
-    
-    // Get appointment with billing data
-    const appointment = await prisma.appointment.findUnique({
-      where: { id: sessionId },
+    const claim = await prisma.claim.findUnique({
+      where: { id: data.billingId },
     });
     
-    if (!appointment) {
-      return errorResponse(null, 'Billing record not found');
+    if (!claim) {
+      return NextResponse.json(
+        { error: 'Not Found', message: 'Billing record not found' },
+        { status: 404 }
+      );
     }
     
-    if (appointment.professionalId !== (session as any).user.id && (session as any).user.role !== UserRole.ADMIN) {
-      return errorResponse(null, 'Unauthorized to update this billing record');
+    if (claim.professionalId !== userId && (session as any).user.role !== UserRole.ADMIN) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Unauthorized to update this billing record' },
+        { status: 403 }
+      );
     }
     
-    // Decrypt existing billing data
-    const existingNotes = appointment.encryptedNotes
-      ? decryptJSON(appointment.encryptedNotes as string)
-      : {};
-    
-    if (!existingNotes.billing) {
-      return errorResponse(null, 'No billing data found for this session');
+    const denial = data.denialInfo ? {
+      code: data.denialInfo.denialCode,
+      reason: data.denialInfo.reason,
+      appealDeadline: data.denialInfo.appealDeadline ? new Date(data.denialInfo.appealDeadline) : undefined,
+    } : undefined;
+    
+    // Remittance posting drives its own status change (paid or denied)
+    if (data.remittance) {
+      await billingService.postRemittance(
+        claim.id,
+        {
+          ...data.remittance,
+          paymentDate: new Date(data.remittance.paymentDate),
+          denial,
+        },
+        userId
+      );
+    } else if (data.status) {
+      await billingService.transitionClaim({
+        claimId: claim.id,
+        to: data.status.toUpperCase() as ClaimStatus,
+        changedBy: userId,
+        reason: data.notes,
+        denial,
+      });
     }
     
-    // Update billing data
-    const updatedBilling = { ...existingNotes.billing };
-    
-    if (data.status) {
-      updatedBilling.status = data.status;
-      updatedBilling.statusUpdatedAt = new Date().toISOString();
-      updatedBilling.statusUpdatedBy = (session as any).user.id;
-      
-      // Handle status-specific updates
-      if (data.status === 'submitted') {
-        updatedBilling.submittedDate = new Date().toISOString();
-      } else if (data.status === 'denied' && data.denialInfo) {
-        updatedBilling.denialInfo = data.denialInfo;
-        
-        // Create alert for denial
-        await (prisma.notification as any).create({
+    if (denial && (data.remittance || data.status === 'denied')) {
+      // Create alert for denial
+      await (prisma.notification as any).create({
         data: {
-          id: generatePrismaCreateFields().id,userId: (session as any).user.id,
-            type: 'claim_denied',
-            title: 'Insurance Claim Denied',
-            message: `Claim denied: ${data.denialInfo.reason}`,
-            isPriority: true,
-            metadata: {
-              sessionId,
-              denialCode: data.denialInfo.denialCode,
-              appealDeadline: data.denialInfo.appealDeadline,
-            },
+          id: generatePrismaCreateFields().id,userId,
+          type: 'claim_denied',
+          title: 'Insurance Claim Denied',
+          message: `Claim ${claim.claimNumber} denied: ${denial.reason}`,
+          isPriority: true,
+          metadata: {
+            claimId: claim.id,
+            sessionId: claim.appointmentId,
+            denialCode: denial.code,
+            appealDeadline: data.denialInfo?.appealDeadline,
           },
-        });
-      }
+        },
+      });
     }
     
     if (data.paymentInfo) {
-      updatedBilling.paymentInfo = data.paymentInfo;
-      updatedBilling.amountPaid = (updatedBilling.amountPaid || 0) + data.paymentInfo.amount;
-      updatedBilling.balance = updatedBilling.totalCharges - updatedBilling.amountPaid;
-      
-      // Create payment history entry
-      if (!updatedBilling.paymentHistory) {
-        updatedBilling.paymentHistory = [];
+      if (data.paymentInfo.paymentMethod === 'insurance') {
+        // Simple insurance payment without line-level adjustments
+        await billingService.postRemittance(
+          claim.id,
+          {
+            paidAmount: data.paymentInfo.amount,
+            paymentDate: new Date(data.paymentInfo.paymentDate),
+            referenceNumber: data.paymentInfo.referenceNumber,
+            adjustments: [],
+          },
+          userId
+        );
+      } else {
+        await billingService.recordClientPayment({
+          clientId: claim.clientId,
+          professionalId: claim.professionalId,
+          amount: data.paymentInfo.amount,
+          method: data.paymentInfo.paymentMethod,
+          paymentDate: new Date(data.paymentInfo.paymentDate),
+          referenceNumber: data.paymentInfo.referenceNumber,
+          postedBy: userId,
+        });
       }
-      updatedBilling.paymentHistory.push({
-        ...data.paymentInfo,
-        processedBy: (session as any).user.id,
-        processedAt: new Date().toISOString(),
-      });
     }
     
-    if (data.adjustments) {
-      if (!updatedBilling.adjustments) {
-        updatedBilling.adjustments = [];
-      }
-      
-      for (const adjustment of data.adjustments) {
-        updatedBilling.adjustments.push({
-          ...adjustment,
-          appliedBy: (session as any).user.id,
-          appliedAt: new Date().toISOString(),
-        });
-        
-        // Apply adjustment to balance
-        if (adjustment.type === 'writeoff' || adjustment.type === 'discount') {
-          updatedBilling.balance -= adjustment.amount;
-        } else if (adjustment.type === 'refund') {
-          updatedBilling.balance += adjustment.amount;
-          updatedBilling.amountPaid -= adjustment.amount;
-        }
-      }
+    for (const adjustment of data.adjustments || []) {
+      await billingService.adjustClaim({
+        claimId: claim.id,
+        type: adjustment.type,
+        amount: adjustment.amount,
+        reason: adjustment.reason,
+        appliedBy: userId,
+      });
     }
     
     if (data.notes) {
-      updatedBilling.notes = (updatedBilling.notes ? updatedBilling.notes + '\n\n' : '') + 
-                             `[${new Date().toISOString()}] ${(session as any).user.id}: ${data.notes}`;
+      await prisma.claim.update({
+        where: { id: claim.id },
+        data: {
+          notes: (claim.notes ? claim.notes + '\n\n' : '') +
+                 `[${new Date().toISOString()}] ${userId}: ${data.notes}`,
+        },
+      });
     }
     
-    // Update appointment with new billing data
-    existingNotes.billing = updatedBilling;
-    
-    await prisma.appointment.update({
-      where: { id: sessionId },
-      data: {
-        encryptedNotes: encryptJSON(existingNotes),
-        updatedAt: new Date(),
-      },
-    });
+    const updatedClaim = await prisma.claim.findUnique({ where: { id: claim.id } });
+    const clientBalance = await billingService.getClientBalance(claim.clientId, claim.professionalId);
     
     // Audit log
     await (auditLog as any)(
-      (session as any).user.id,
+      userId,
       'update_billing',
       'therapy_billing',
-      sessionId,
+      claim.id,
       {
-        status: data.status,
-        paymentProcessed: !!data.paymentInfo,
+        status: updatedClaim?.status,
+        paymentProcessed: !!data.paymentInfo || !!data.remittance,
         adjustmentsApplied: data.adjustments?.length || 0,
         fieldsUpdated: Object.keys(data).filter(k => k !== 'billingId'),
       },
@@ -520,11 +565,15 @@ export async function PUT(req: NextRequest) {
     
     return successResponse(
       {
-        billingId: data.billingId,
-        status: updatedBilling.status,
-        balance: updatedBilling.balance,
-        amountPaid: updatedBilling.amountPaid,
-        updatedAt: new Date(),
+        billingId: claim.id,
+        status: updatedClaim?.status.toLowerCase(),
+        amountPaid: updatedClaim?.paidAmount,
+        patientResponsibility: updatedClaim?.patientResponsibility,
+        balance: updatedClaim
+          ? Math.max(0, updatedClaim.totalCharges - updatedClaim.paidAmount - updatedClaim.adjustmentAmount)
+          : 0,
+        clientBalance,
+        updatedAt: updatedClaim?.updatedAt,
       },
       'Billing record updated successfully'
     );
@@ -534,10 +583,6 @@ export async function PUT(req: NextRequest) {
 }
 
 // Helper functions
-function calculateTotalCharges(cptCodes: any[]): number {
-  return cptCodes.reduce((total, code) => total + (code.units * code.rate), 0);
-}
-
 function calculateInsurancePayment(totalCharges: number, insurance: any): number {
   const { copay, deductible, deductibleMet, coinsurance } = insurance;
   
@@ -551,16 +596,3 @@ function calculateInsurancePayment(totalCharges: number, insurance: any): number
   // Account for copay (if applicable)
   return Math.max(0, insurancePayment - copay);
 }
-
-function calculateBalance(billing: any): number {
-  const totalCharges = billing.totalCharges || 0;
-  const amountPaid = billing.amountPaid || 0;
-  const adjustments = billing.adjustments?.reduce((sum: number, adj: any) => {
-    if (adj.type === 'writeoff' || adj.type === 'discount') {
-      return sum + adj.amount;
-    }
-    return sum;
-  }, 0) || 0;
-  
-  return Math.max(0, totalCharges - amountPaid - adjustments);
-}
\ No newline at end of file
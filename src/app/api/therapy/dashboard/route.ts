@@ -11,6 +11,7 @@ import {
 } from '@/lib/api-middleware';
 import { decryptJSON } from '@/lib/encryption';
 import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { treatmentPlanService } from '@/lib/treatment-plans/treatment-plan-service';
 
 // Validation schema
 const getDashboardSchema = z.object({
@@ -186,33 +187,23 @@ export async function GET(req: NextRequest) {
     const pendingTasks = [];
     
     // Check for treatment plans needing review
-    const treatmentPlans = await prisma.safetyPlan.findMany({
-      where: {
-        userId: {
-          in: activeClients.map(c => c.userId).filter(Boolean) as string[],
-        },
-        isActive: true,
-        lastReviewedAt: {
-          lte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Over 30 days old
-        },
-      },
-      include: {
-        User: {
-          select: {
-            firstName: true,
-            lastName: true,
-          },
-        },
+    const dueReviews = (await treatmentPlanService.getDueReviews((session as any).user.id)).slice(0, 5);
+    const reviewClients = await prisma.user.findMany({
+      where: { id: { in: dueReviews.map(review => review.clientId) } },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
       },
-      take: 5,
     });
     
-    treatmentPlans.forEach(plan => {
+    dueReviews.forEach(review => {
+      const client = reviewClients.find(c => c.id === review.clientId);
       pendingTasks.push({
         type: 'treatment_plan_review',
-        clientName: `${plan.User.firstName || ''} ${plan.User.lastName || ''}`.trim(),
-        dueDate: new Date(plan.lastReviewedAt.getTime() + 30 * 24 * 60 * 60 * 1000),
-        priority: 'medium',
+        clientName: `${client?.firstName || ''} ${client?.lastName || ''}`.trim(),
+        dueDate: review.nextReviewDate,
+        priority: review.overdue ? 'high' : 'medium',
       });
     });
     
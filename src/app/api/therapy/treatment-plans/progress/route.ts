@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+  verifyClientConsent,
+} from '@/lib/api-middleware';
+import { prisma } from '@/lib/prisma';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { treatmentPlanService } from '@/lib/treatment-plans/treatment-plan-service';
+
+// Validation schemas
+const getProgressSchema = z.object({
+  planId: z.string().min(1),
+});
+
+const recordProgressSchema = z.object({
+  objectiveId: z.string().min(1),
+  rating: z.number().min(0).max(100),
+  sessionNoteId: z.string().min(1).optional(),
+  notes: z.string().max(5000).optional(),
+});
+
+// GET /api/therapy/treatment-plans/progress - objective progress history
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const params = validateInput(getProgressSchema, {
+      planId: req.nextUrl.searchParams.get('planId'),
+    });
+
+    const plan = await treatmentPlanService.getPlan(params.planId);
+    if (!plan) {
+      return errorResponse(null, 'Treatment plan not found');
+    }
+
+    const hasConsent = await verifyClientConsent((session as any).user.id, plan.clientId);
+    if (!hasConsent) {
+      return errorResponse(null, 'No consent to access this treatment plan');
+    }
+
+    const progress = await treatmentPlanService.getPlanProgress(plan.id);
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'view_treatment_plan_progress',
+      'therapy_treatment_plans',
+      plan.id,
+      { clientId: plan.clientId, count: progress.length },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        planId: plan.id,
+        goals: plan.goals.map(goal => ({
+          id: goal.id,
+          status: goal.status,
+          progress: goal.progress,
+          objectives: goal.objectives.map(objective => ({
+            id: objective.id,
+            status: objective.status,
+            progress: objective.progress,
+          })),
+        })),
+        progress,
+      },
+      'Treatment plan progress retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve treatment plan progress');
+  }
+}
+
+// POST /api/therapy/treatment-plans/progress - rate an objective
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const body = await req.json();
+    const data = validateInput(recordProgressSchema, body);
+
+    const objective = await prisma.treatmentObjective.findUnique({
+      where: { id: data.objectiveId },
+      select: { goal: { select: { plan: { select: { clientId: true } } } } },
+    });
+    if (!objective) {
+      return errorResponse(null, 'Treatment objective not found');
+    }
+
+    const hasConsent = await verifyClientConsent((session as any).user.id, objective.goal.plan.clientId);
+    if (!hasConsent) {
+      return errorResponse(null, 'No consent to update this treatment plan');
+    }
+
+    const result = await treatmentPlanService.recordObjectiveProgress({
+      objectiveId: data.objectiveId,
+      rating: data.rating,
+      sessionNoteId: data.sessionNoteId,
+      notes: data.notes,
+      recordedBy: (session as any).user.id,
+    });
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'record_treatment_progress',
+      'therapy_treatment_plans',
+      result.planId,
+      {
+        clientId: result.clientId,
+        objectiveId: data.objectiveId,
+        sessionNoteId: data.sessionNoteId,
+        previousRating: result.entry.previousRating,
+        currentRating: result.entry.currentRating,
+      },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        progressId: result.entry.id,
+        planId: result.planId,
+        objectiveId: data.objectiveId,
+        previousRating: result.entry.previousRating,
+        currentRating: result.entry.currentRating,
+        objectiveStatus: result.objective.status,
+        recordedAt: result.entry.recordedAt,
+      },
+      'Objective progress recorded successfully',
+      201
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to record objective progress');
+  }
+}
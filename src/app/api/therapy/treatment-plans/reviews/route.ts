@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import {
+  requireRole,
+  auditLog,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { treatmentPlanService } from '@/lib/treatment-plans/treatment-plan-service';
+
+// GET /api/therapy/treatment-plans/reviews - reviews due or overdue for the caseload
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const reviews = await treatmentPlanService.getDueReviews((session as any).user.id);
+
+    return successResponse(
+      {
+        reviews,
+        summary: {
+          total: reviews.length,
+          overdue: reviews.filter(review => review.overdue).length,
+        },
+      },
+      'Treatment plan reviews retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve treatment plan reviews');
+  }
+}
+
+// POST /api/therapy/treatment-plans/reviews - send review-due reminders.
+// Run on a schedule; each plan is reminded once per review cycle.
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 5, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.ADMIN, UserRole.SUPER_ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const result = await treatmentPlanService.sendReviewReminders();
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'send_treatment_plan_review_reminders',
+      'therapy_treatment_plans',
+      undefined,
+      result,
+      'success',
+      req
+    );
+
+    return successResponse(result, 'Treatment plan review reminders sent');
+  } catch (error) {
+    return errorResponse(error, 'Failed to send treatment plan review reminders');
+  }
+}
@@ -12,8 +12,9 @@ import {
   paginatedResponse,
   verifyClientConsent,
 } from '@/lib/api-middleware';
-import { encryptJSON, decryptJSON } from '@/lib/encryption-exports';
 import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { treatmentPlanService } from '@/lib/treatment-plans/treatment-plan-service';
+import { TreatmentPlanStatus } from '@/lib/treatment-plans/types';
 
 // Validation schemas
 const getTreatmentPlansSchema = z.object({
@@ -40,11 +41,14 @@ const createTreatmentPlanSchema = z.object({
     maintainingFactors: z.array(z.string()),
   })),
   goals: z.array(z.object({
+    id: z.string().min(1).optional(),
     type: z.enum(['long_term', 'short_term']),
     description: z.string(),
     targetDate: z.string().datetime(),
     measurableOutcome: z.string(),
+    status: z.enum(['active', 'achieved', 'modified', 'discontinued']).optional(),
     objectives: z.array(z.object({
+      id: z.string().min(1).optional(),
       description: z.string(),
       targetDate: z.string().datetime(),
       completed: z.boolean().default(false),
@@ -86,11 +90,20 @@ const createTreatmentPlanSchema = z.object({
 });
 
 const updateTreatmentPlanSchema = z.object({
-  planId: z.string().uuid(),
-  updates: createTreatmentPlanSchema.partial(),
+  planId: z.string().min(1),
+  updates: createTreatmentPlanSchema.omit({ clientId: true }).partial(),
+  status: z.enum(['active', 'on_hold', 'completed']).optional(),
   progressNote: z.string().optional(),
 });
 
+const API_STATUS_TO_PLAN_STATUS: Record<string, TreatmentPlanStatus> = {
+  draft: TreatmentPlanStatus.DRAFT,
+  active: TreatmentPlanStatus.ACTIVE,
+  on_hold: TreatmentPlanStatus.ON_HOLD,
+  completed: TreatmentPlanStatus.COMPLETED,
+};
+
+
 // GET /api/therapy/treatment-plans
 export async function GET(req: NextRequest) {
   try {
@@ -111,77 +124,61 @@ export async function GET(req: NextRequest) {
       status: searchParams.get('status'),
     });
     
-    // Build query filters
-    const where: any = {};
-    
     if (params.clientId) {
       // Verify consent for specific client
       const hasConsent = await verifyClientConsent((session as any).user.id, params.clientId);
       if (!hasConsent) {
         return errorResponse(null, 'No consent to access this client\'s treatment plans');
       }
-      where.userId = params.clientId;
     }
     
-    // Get treatment plans from SafetyPlan table (repurposed for treatment plans)
-    const plans = await prisma.safetyPlan.findMany({
-      where: {
-        ...where,
-        isActive: params.status === 'active' ? true : params.status === 'completed' ? false : undefined,
-      },
-      include: {
-        User: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
+    // Without a client filter, therapists only see the plans they own
+    const { plans, total } = await treatmentPlanService.listPlans({
+      clientId: params.clientId,
+      therapistId: (params.clientId || (session as any).user.role === UserRole.ADMIN)
+        ? undefined
+        : (session as any).user.id,
+      status: params.status ? API_STATUS_TO_PLAN_STATUS[params.status] : undefined,
+      page: params.page,
+      limit: params.limit,
+    });
+    
+    const clients = await prisma.user.findMany({
+      where: { id: { in: [...new Set(plans.map(plan => plan.clientId))] } },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
       },
-      skip: (params.page - 1) * params.limit,
-      take: params.limit,
-      orderBy: { updatedAt: 'desc' },
     });
+    const clientNames = new Map(
+      clients.map(client => [client.id, `${client.firstName || ''} ${client.lastName || ''}`.trim()])
+    );
     
     // Decrypt and format treatment plans
     const treatmentPlans = plans.map(plan => {
       let decryptedPlan = null;
       
       try {
-        // Combine all encrypted fields into a comprehensive treatment plan
-        const warningSignsEncrypted = plan.warningSignsEncrypted ? decryptJSON(plan.warningSignsEncrypted as string) : {};
-        const copingStrategies = plan.copingStrategiesEncrypted ? decryptJSON(plan.copingStrategiesEncrypted as string) : {};
-        const supportContacts = plan.supportContactsEncrypted ? decryptJSON(plan.supportContactsEncrypted as string) : {};
-        const safeEnvironment = plan.safeEnvironmentEncrypted ? decryptJSON(plan.safeEnvironmentEncrypted as string) : {};
-        const reasonsToLive = plan.reasonsToLiveEncrypted ? decryptJSON(plan.reasonsToLiveEncrypted as string) : {};
-        
-        decryptedPlan = {
-          ...warningSignsEncrypted,
-          ...copingStrategies,
-          ...supportContacts,
-          ...safeEnvironment,
-          ...reasonsToLive,
-        };
+        decryptedPlan = treatmentPlanService.formatPlan(plan);
       } catch (error) {
         console.error('Failed to decrypt treatment plan:', error);
       }
       
       return {
         id: plan.id,
-        clientId: plan.userId,
-        clientName: `${plan.User.firstName || ''} ${plan.User.lastName || ''}`.trim(),
-        status: plan.isActive ? 'active' : 'completed',
+        clientId: plan.clientId,
+        clientName: clientNames.get(plan.clientId) || '',
+        status: plan.status.toLowerCase(),
         plan: decryptedPlan,
+        version: plan.currentVersion,
+        nextReviewDate: plan.nextReviewDate,
         lastReviewedAt: plan.lastReviewedAt,
         createdAt: plan.createdAt,
         updatedAt: plan.updatedAt,
       };
     });
     
-    // Get total count
-    const total = await prisma.safetyPlan.count({ where });
-    
     // Audit log
     await (auditLog as any)(
       (session as any).user.id,
@@ -226,91 +223,42 @@ export async function POST(req: NextRequest) {
       return errorResponse(null, 'No consent to create treatment plan for this client');
     }
     
-    // Check for existing active plan
-    const existingPlan = await prisma.safetyPlan.findFirst({
-      where: {
-        userId: data.clientId,
-        isActive: true,
+    // New plans start as drafts; any existing active plan stays in force
+    // until client and clinician have signed this one
+    const newPlan = await treatmentPlanService.createPlan({
+      clientId: data.clientId,
+      therapistId: (session as any).user.id,
+      content: {
+        diagnoses: data.diagnoses,
+        presentingProblems: data.presentingProblems,
+        interventions: data.interventions,
+        strengthsAndResources: data.strengthsAndResources,
+        barriers: data.barriers,
+        crisisplan: data.crisisplan,
+        consentObtained: data.consentObtained,
+        clientInvolvement: data.clientInvolvement,
       },
-    });
-    
-    if (existingPlan) {
-      // Archive existing plan
-      await prisma.safetyPlan.update({
-        where: { id: existingPlan.id },
-        data: { isActive: false },
-      });
-    }
-    
-    // Encrypt treatment plan components
-    const treatmentPlanData = {
-      diagnoses: data.diagnoses,
-      presentingProblems: data.presentingProblems,
       goals: data.goals,
-      interventions: data.interventions,
-      strengthsAndResources: data.strengthsAndResources,
-      barriers: data.barriers,
       reviewSchedule: data.reviewSchedule,
-      consentObtained: data.consentObtained,
-      clientInvolvement: data.clientInvolvement,
-      createdBy: (session as any).user.id,
-      createdAt: new Date().toISOString(),
-    };
-    
-    // Create new treatment plan
-    const newPlan = await (prisma.safetyPlan as any).create({
-      data: {
-        id: generatePrismaCreateFields().id,
-        userId: data.clientId,
-        warningSignsEncrypted: encryptJSON(treatmentPlanData),
-        copingStrategiesEncrypted: encryptJSON(data.crisisplan.copingStrategies),
-        supportContactsEncrypted: encryptJSON({
-          support: data.crisisplan.supportContacts,
-          professional: data.crisisplan.professionalContacts,
-        }),
-        safeEnvironmentEncrypted: encryptJSON(data.crisisplan.safeEnvironment),
-        reasonsToLiveEncrypted: encryptJSON(data.crisisplan.warningSignsEncrypted),
-        isActive: true,
-        lastReviewedAt: new Date(),
-      },
     });
     
-    // Create notification for client
-    await (prisma.notification as any).create({
+    // Ask the client to review and sign the plan
+    await prisma.notification.create({
       data: {
         id: generatePrismaCreateFields().id,
         userId: data.clientId,
         type: 'treatment_plan_created',
         title: 'New Treatment Plan',
-        message: 'Your therapist has created a new treatment plan for your care',
+        message: 'Your therapist has created a new treatment plan for you to review and sign',
         isPriority: false,
         metadata: {
           planId: newPlan.id,
+          version: newPlan.currentVersion,
           therapistId: (session as any).user.id,
         },
       },
     });
     
-    // Schedule review reminder
-    if (data.reviewSchedule.nextReviewDate) {
-      await (prisma.notification as any).create({
-        data: {
-          id: generatePrismaCreateFields().id,
-          userId: (session as any).user.id,
-          type: 'treatment_plan_review',
-          title: 'Treatment Plan Review Due',
-          message: `Treatment plan review scheduled for client`,
-          isPriority: true,
-          metadata: {
-            planId: newPlan.id,
-            clientId: data.clientId,
-            reviewDate: data.reviewSchedule.nextReviewDate,
-          },
-          createdAt: new Date(data.reviewSchedule.nextReviewDate),
-        },
-      });
-    }
-    
     // Audit log
     await (auditLog as any)(
       (session as any).user.id,
@@ -331,8 +279,9 @@ export async function POST(req: NextRequest) {
       {
         planId: newPlan.id,
         clientId: data.clientId,
-        status: 'active',
-        nextReviewDate: data.reviewSchedule.nextReviewDate,
+        status: newPlan.status.toLowerCase(),
+        version: newPlan.currentVersion,
+        nextReviewDate: newPlan.nextReviewDate,
         createdAt: newPlan.createdAt,
       },
       'Treatment plan created successfully',
@@ -359,49 +308,28 @@ export async function PUT(req: NextRequest) {
     const data = validateInput(updateTreatmentPlanSchema, body);
     
     // Get existing plan
-    const existingPlan = await prisma.safetyPlan.findUnique({
-      where: { id: data.planId },
-    });
+    const existingPlan = await treatmentPlanService.getPlan(data.planId);
     
     if (!existingPlan) {
       return errorResponse(null, 'Treatment plan not found');
     }
     
     // Verify consent
-    const hasConsent = await verifyClientConsent((session as any).user.id, existingPlan.userId);
+    const hasConsent = await verifyClientConsent((session as any).user.id, existingPlan.clientId);
     if (!hasConsent) {
       return errorResponse(null, 'No consent to update this treatment plan');
     }
     
-    // Decrypt existing plan
-    const existingData = existingPlan.warningSignsEncrypted
-      ? decryptJSON(existingPlan.warningSignsEncrypted as string)
-      : {};
-    
-    // Merge updates
-    const updatedPlanData = {
-      ...existingData.treatmentPlan,
-      ...data.updates,
-      lastUpdatedBy: (session as any).user.id,
-      lastUpdatedAt: new Date().toISOString(),
-      progressNotes: [
-        ...(existingData.treatmentPlan?.progressNotes || []),
-        ...(data.progressNote ? [{
-          note: data.progressNote,
-          createdBy: (session as any).user.id,
-          createdAt: new Date().toISOString(),
-        }] : []),
-      ],
-    };
-    
-    // Update plan
-    const updatedPlan = await prisma.safetyPlan.update({
-      where: { id: data.planId },
-      data: {
-        warningSignsEncrypted: encryptJSON(updatedPlanData),
-        lastReviewedAt: new Date(),
-        updatedAt: new Date(),
-      },
+    // Each update is a plan review and produces a new revision to be signed
+    const { goals, reviewSchedule, ...content } = data.updates;
+    const updatedPlan = await treatmentPlanService.revisePlan({
+      planId: data.planId,
+      revisedBy: (session as any).user.id,
+      content,
+      goals,
+      reviewSchedule,
+      status: data.status ? API_STATUS_TO_PLAN_STATUS[data.status] : undefined,
+      progressNote: data.progressNote,
     });
     
     // Audit log
@@ -411,8 +339,10 @@ export async function PUT(req: NextRequest) {
       'therapy_treatment_plans',
       data.planId,
       {
-        clientId: existingPlan.userId,
+        clientId: existingPlan.clientId,
         fieldsUpdated: Object.keys(data.updates || {}),
+        version: updatedPlan.currentVersion,
+        status: updatedPlan.status,
         hasProgressNote: !!data.progressNote,
       },
       'success',
@@ -422,6 +352,9 @@ export async function PUT(req: NextRequest) {
     return successResponse(
       {
         planId: updatedPlan.id,
+        status: updatedPlan.status.toLowerCase(),
+        version: updatedPlan.currentVersion,
+        nextReviewDate: updatedPlan.nextReviewDate,
         updatedAt: updatedPlan.updatedAt,
         lastReviewedAt: updatedPlan.lastReviewedAt,
       },
@@ -451,28 +384,20 @@ export async function DELETE(req: NextRequest) {
     }
     
     // Get existing plan
-    const existingPlan = await prisma.safetyPlan.findUnique({
-      where: { id: planId },
-    });
+    const existingPlan = await treatmentPlanService.getPlan(planId);
     
     if (!existingPlan) {
       return errorResponse(null, 'Treatment plan not found');
     }
     
     // Verify consent
-    const hasConsent = await verifyClientConsent((session as any).user.id, existingPlan.userId);
+    const hasConsent = await verifyClientConsent((session as any).user.id, existingPlan.clientId);
     if (!hasConsent) {
       return errorResponse(null, 'No consent to archive this treatment plan');
     }
     
     // Archive plan (don't delete for compliance)
-    const archivedPlan = await prisma.safetyPlan.update({
-      where: { id: planId },
-      data: {
-        isActive: false,
-        updatedAt: new Date(),
-      },
-    });
+    const archivedPlan = await treatmentPlanService.archivePlan(planId);
     
     // Audit log
     await (auditLog as any)(
@@ -481,7 +406,7 @@ export async function DELETE(req: NextRequest) {
       'therapy_treatment_plans',
       planId,
       {
-        clientId: existingPlan.userId,
+        clientId: existingPlan.clientId,
         reason: 'therapist_initiated',
       },
       'success',
@@ -492,11 +417,11 @@ export async function DELETE(req: NextRequest) {
       {
         planId: archivedPlan.id,
         status: 'archived',
-        archivedAt: new Date(),
+        archivedAt: archivedPlan.archivedAt,
       },
       'Treatment plan archived successfully'
     );
   } catch (error) {
     return errorResponse(error, 'Failed to archive treatment plan');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  requireAuth,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+  verifyClientConsent,
+} from '@/lib/api-middleware';
+import { decryptJSON } from '@/lib/encryption-exports';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { treatmentPlanService } from '@/lib/treatment-plans/treatment-plan-service';
+import { getSignatureState } from '@/lib/treatment-plans/plan-rules';
+
+// Validation schemas
+const getRevisionsSchema = z.object({
+  planId: z.string().min(1),
+});
+
+const signRevisionSchema = z.object({
+  planId: z.string().min(1),
+  version: z.number().int().min(1),
+  role: z.enum(['client', 'clinician']),
+  signerName: z.string().min(1),
+  method: z.enum(['typed', 'drawn', 'in_person']),
+  attestation: z.string().min(1),
+  signatureData: z.string().optional(),
+});
+
+// GET /api/therapy/treatment-plans/signatures - revision and signature history
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication - clients may view the history of their own plans
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const params = validateInput(getRevisionsSchema, {
+      planId: req.nextUrl.searchParams.get('planId'),
+    });
+
+    const plan = await treatmentPlanService.getPlan(params.planId);
+    if (!plan) {
+      return errorResponse(null, 'Treatment plan not found');
+    }
+
+    if (plan.clientId !== userId && !(await verifyClientConsent(userId, plan.clientId))) {
+      return errorResponse(null, 'No consent to access this treatment plan');
+    }
+
+    const revisions = plan.revisions.map(revision => ({
+      version: revision.version,
+      changeSummary: revision.changeSummary,
+      contentHash: revision.contentHash,
+      progressNote: revision.progressNoteEncrypted
+        ? decryptJSON(revision.progressNoteEncrypted as string).note
+        : undefined,
+      createdBy: revision.createdBy,
+      createdAt: revision.createdAt,
+      ...getSignatureState(revision),
+      clientSignedAt: revision.clientSignedAt,
+      clinicianSignedAt: revision.clinicianSignedAt,
+    }));
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'view_treatment_plan_revisions',
+      'therapy_treatment_plans',
+      plan.id,
+      { clientId: plan.clientId, count: revisions.length },
+      'success',
+      req
+    );
+
+    return successResponse(
+      { planId: plan.id, currentVersion: plan.currentVersion, revisions },
+      'Treatment plan revisions retrieved successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve treatment plan revisions');
+  }
+}
+
+// POST /api/therapy/treatment-plans/signatures - sign the current revision
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 10, identifier);
+
+    // Authentication - the client signs their own plan, the clinician theirs
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const body = await req.json();
+    const data = validateInput(signRevisionSchema, body);
+
+    const plan = await treatmentPlanService.getPlan(data.planId);
+    if (!plan) {
+      return errorResponse(null, 'Treatment plan not found');
+    }
+
+    if (data.role === 'clinician' && plan.therapistId !== userId) {
+      return errorResponse(null, 'Only the treating clinician can sign this treatment plan');
+    }
+
+    if (data.role === 'client' && plan.clientId !== userId) {
+      // A clinician may witness a client's signature captured in session
+      const witnessed = data.method === 'in_person'
+        && plan.therapistId === userId
+        && await verifyClientConsent(userId, plan.clientId);
+      if (!witnessed) {
+        return errorResponse(null, 'Client signatures must be given by the client or witnessed in person');
+      }
+    }
+
+    const result = await treatmentPlanService.signRevision({
+      planId: data.planId,
+      version: data.version,
+      role: data.role,
+      signedBy: userId,
+      signature: {
+        signerName: data.signerName,
+        method: data.method,
+        attestation: data.attestation,
+        signatureData: data.signatureData,
+      },
+    });
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'sign_treatment_plan',
+      'therapy_treatment_plans',
+      plan.id,
+      {
+        clientId: plan.clientId,
+        version: data.version,
+        role: data.role,
+        method: data.method,
+        activated: result.activated,
+      },
+      'success',
+      req
+    );
+
+    return successResponse(
+      {
+        planId: plan.id,
+        version: data.version,
+        status: result.plan.status.toLowerCase(),
+        signatures: result.signatures,
+        activated: result.activated,
+      },
+      result.activated
+        ? 'Treatment plan signed and activated'
+        : 'Treatment plan signed successfully'
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign treatment plan');
+  }
+}
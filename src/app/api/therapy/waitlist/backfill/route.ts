@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import {
+  requireRole,
+  auditLog,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { waitlistService } from '@/lib/scheduling/waitlist-service';
+
+// POST /api/therapy/waitlist/backfill - expire unclaimed offers and offer
+// those slots to the next waitlisted client. Run on a schedule.
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 10, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.ADMIN, UserRole.SUPER_ADMIN]);
+    if (session instanceof NextResponse) return session;
+
+    const result = await waitlistService.expireOffers();
+
+    // Audit log
+    await (auditLog as any)(
+      (session as any).user.id,
+      'process_waitlist_backfill',
+      'therapy_waitlist',
+      undefined,
+      result,
+      'success',
+      req
+    );
+
+    return successResponse(result, 'Waitlist backfill processed');
+  } catch (error) {
+    return errorResponse(error, 'Failed to process waitlist backfill');
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import {
+  requireRole,
+  auditLog,
+  validateInput,
+  errorResponse,
+  successResponse,
+  verifyClientConsent,
+} from '@/lib/api-middleware';
+import { decryptJSON } from '@/lib/encryption-exports';
+import { therapyRateLimiter, getClientIdentifier } from '@/lib/rate-limit';
+import { waitlistService } from '@/lib/scheduling/waitlist-service';
+
+// Validation schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const preferencesSchema = z.object({
+  preferredDays: z.array(z.number().int().min(0).max(6)).default([]),
+  preferredStartTime: timeOfDay.optional(),
+  preferredEndTime: timeOfDay.optional(),
+  sessionTypes: z.array(z.enum(['initial', 'follow_up', 'teletherapy', 'group'])).default([]),
+  modalities: z.array(z.enum(['office', 'virtual', 'phone'])).default([]),
+  earliestDate: z.string().datetime().optional(),
+  latestDate: z.string().datetime().optional(),
+});
+
+const addEntrySchema = preferencesSchema.extend({
+  clientId: z.string().min(1),
+  priority: z.number().int().min(0).max(10).default(0),
+  notes: z.string().max(1000).optional(),
+});
+
+const updateEntrySchema = preferencesSchema.partial().extend({
+  entryId: z.string().min(1),
+  priority: z.number().int().min(0).max(10).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+function toDates<T extends { earliestDate?: string; latestDate?: string }>(data: T) {
+  return {
+    ...data,
+    earliestDate: data.earliestDate ? new Date(data.earliestDate) : undefined,
+    latestDate: data.latestDate ? new Date(data.latestDate) : undefined,
+  };
+}
+
+// GET /api/therapy/waitlist - the therapist's waitlist in offer order
+export async function GET(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 30, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const status = z.enum(['active', 'booked', 'removed']).catch('active')
+      .parse(req.nextUrl.searchParams.get('status') ?? undefined);
+
+    const entries = await waitlistService.listEntries(sessionUser.id, status);
+
+    const formattedEntries = entries.map(entry => ({
+      id: entry.id,
+      clientId: entry.clientId,
+      status: entry.status,
+      priority: entry.priority,
+      preferredDays: entry.preferredDays,
+      preferredStartTime: entry.preferredStartTime,
+      preferredEndTime: entry.preferredEndTime,
+      sessionTypes: entry.sessionTypes,
+      modalities: entry.modalities,
+      earliestDate: entry.earliestDate,
+      latestDate: entry.latestDate,
+      notes: entry.notesEncrypted ? decryptJSON(entry.notesEncrypted).notes : undefined,
+      recentOffers: entry.offers.map(offer => ({
+        id: offer.id,
+        slotStart: offer.slotStart,
+        status: offer.status,
+        expiresAt: offer.expiresAt,
+      })),
+      createdAt: entry.createdAt,
+    }));
+
+    return successResponse(formattedEntries, 'Waitlist retrieved successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve waitlist');
+  }
+}
+
+// POST /api/therapy/waitlist - add a client to the therapist's waitlist
+export async function POST(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const body = await req.json();
+    const data = validateInput(addEntrySchema, body);
+
+    const hasConsent = await verifyClientConsent(sessionUser.id, data.clientId);
+    if (!hasConsent) {
+      return errorResponse(null, 'No consent to manage this client');
+    }
+
+    const entry = await waitlistService.joinWaitlist({
+      ...toDates(data),
+      professionalId: sessionUser.id,
+      createdBy: sessionUser.id,
+    });
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'add_waitlist_entry',
+      'therapy_waitlist',
+      entry.id,
+      { clientId: data.clientId, priority: entry.priority },
+      'success',
+      req
+    );
+
+    return successResponse({ id: entry.id, status: entry.status }, 'Client added to waitlist', 201);
+  } catch (error) {
+    return errorResponse(error, 'Failed to add client to waitlist');
+  }
+}
+
+// PUT /api/therapy/waitlist - change an entry's priority or preferences
+export async function PUT(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const body = await req.json();
+    const { entryId, ...update } = validateInput(updateEntrySchema, body);
+
+    const entry = await waitlistService.updateEntry(entryId, sessionUser.id, toDates(update));
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'update_waitlist_entry',
+      'therapy_waitlist',
+      entry.id,
+      { clientId: entry.clientId, fields: Object.keys(update) },
+      'success',
+      req
+    );
+
+    return successResponse({ id: entry.id, priority: entry.priority }, 'Waitlist entry updated successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to update waitlist entry');
+  }
+}
+
+// DELETE /api/therapy/waitlist - remove a client from the waitlist
+export async function DELETE(req: NextRequest) {
+  try {
+    // Rate limiting
+    const identifier = getClientIdentifier(req);
+    await therapyRateLimiter.check(req, 20, identifier);
+
+    // Authentication & Authorization
+    const session = await requireRole(req, [UserRole.THERAPIST, UserRole.ADMIN]);
+    if (session instanceof NextResponse) return session;
+    const sessionUser = (session as any).user;
+
+    const entryId = req.nextUrl.searchParams.get('entryId');
+    if (!entryId) {
+      return errorResponse(null, 'Entry ID is required');
+    }
+
+    await waitlistService.removeEntry(entryId, { professionalId: sessionUser.id });
+
+    // Audit log
+    await (auditLog as any)(
+      sessionUser.id,
+      'remove_waitlist_entry',
+      'therapy_waitlist',
+      entryId,
+      {},
+      'success',
+      req
+    );
+
+    return successResponse({ id: entryId }, 'Client removed from waitlist');
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove waitlist entry');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAuth,
+  auditLog,
+  errorResponse,
+  successResponse,
+} from '@/lib/api-middleware';
+import { calendarFeedService } from '@/lib/scheduling/calendar-feed-service';
+
+function buildFeedUrls(req: NextRequest, token: string) {
+  const base = process.env.NEXTAUTH_URL || req.nextUrl.origin;
+  const url = `${base.replace(/\/$/, '')}/api/calendar/feed?token=${encodeURIComponent(token)}`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+}
+
+// GET /api/user/calendar-feed - the user's ICS subscription URL
+export async function GET(req: NextRequest) {
+  try {
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const token = await calendarFeedService.getFeedToken(userId);
+
+    return successResponse(buildFeedUrls(req, token), 'Calendar feed retrieved successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to retrieve calendar feed');
+  }
+}
+
+// POST /api/user/calendar-feed - rotate the URL, revoking every earlier one
+export async function POST(req: NextRequest) {
+  try {
+    const session = await requireAuth(req);
+    if (session instanceof NextResponse) return session;
+    const userId = (session as any).user.id;
+
+    const token = await calendarFeedService.rotateFeedToken(userId);
+
+    // Audit log
+    await (auditLog as any)(
+      userId,
+      'rotate_calendar_feed',
+      'calendar_feed',
+      userId,
+      {},
+      'success',
+      req
+    );
+
+    return successResponse(buildFeedUrls(req, token), 'Calendar feed URL rotated successfully');
+  } catch (error) {
+    return errorResponse(error, 'Failed to rotate calendar feed');
+  }
+}
@@ -3,6 +3,7 @@ import { generatePrismaCreateFields } from "@/lib/prisma-helpers";
 import * as crypto from 'crypto';
 import { prisma } from '@/lib/prisma';
 import { withAuth } from '@/lib/auth-middleware';
+import { assessCrisisRisk, isAtLeast } from '@/lib/crisis-risk/risk-engine';
 import {
   createAuditLog,
   validateRequest,
@@ -187,10 +188,13 @@ export const POST = withAuth(async (req) => {
       },
     });
     
-    // Check for concerning content
-    const concerningKeywords = ['suicide', 'kill myself', 'end it all', 'not worth living', 'self-harm', 'cutting'];
-    const contentLower = data.content.toLowerCase();
-    const hasConcerningContent = concerningKeywords.some(keyword => contentLower.includes(keyword));
+    // Check for concerning content with the shared crisis risk engine, in the writer's language
+    const writer = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredLanguage: true },
+    });
+    const risk = assessCrisisRisk(data.content, { language: writer?.preferredLanguage });
+    const hasConcerningContent = isAtLeast(risk.severity, 'high');
     
     if (hasConcerningContent) {
       // Create safety alert
@@ -198,13 +202,13 @@ export const POST = withAuth(async (req) => {
         data: {
           id: crypto.randomUUID(),
           type: 'journal_content',
-          severity: 'high',
+          severity: risk.severity,
           userId,
           context: 'journal_entry',
-          indicators: ['Concerning keywords detected in journal entry'],
+          indicators: risk.indicators.map(indicator => indicator.ruleId),
           handled: false,
           actions: [],
-          notes: 'Concerning keywords detected in journal entry',
+          notes: risk.explanation.join('\n'),
           detectedAt: new Date(),
         },
       });
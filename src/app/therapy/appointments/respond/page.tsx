@@ -0,0 +1,189 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Calendar, CheckCircle, Clock, XCircle } from 'lucide-react';
+
+type ReminderAction = 'confirm' | 'cancel' | 'reschedule';
+
+interface AppointmentSummary {
+  appointmentId: string;
+  scheduledAt: string;
+  duration: number;
+  status: string;
+  lateCancelHours: number;
+  lateCancelFee: number;
+  rescheduleOptions?: { timeZone: string; slots: string[] };
+}
+
+function formatTime(value: string, timeZone?: string) {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone,
+  });
+}
+
+function AppointmentResponse() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const initialAction = (searchParams.get('action') as ReminderAction) || 'confirm';
+
+  const [action, setAction] = useState<ReminderAction>(initialAction);
+  const [appointment, setAppointment] = useState<AppointmentSummary | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<string>('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ token, action });
+    fetch(`/api/calendar/appointment-actions?${params}`)
+      .then(async res => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.message || 'This link is invalid or has expired');
+        setAppointment(body.data);
+      })
+      .catch(err => setError(err.message));
+  }, [token, action]);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/calendar/appointment-actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token,
+          action,
+          ...(action === 'cancel' && reason && { reason }),
+          ...(action === 'reschedule' && { newStart: selectedSlot }),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || 'Something went wrong');
+      setDone(body.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="text-center">
+        <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+        <p className="text-lg text-gray-900">{done}</p>
+      </div>
+    );
+  }
+
+  if (!appointment) {
+    return error
+      ? <p className="text-center text-red-600">{error}</p>
+      : <p className="text-center text-gray-600">Loading appointment…</p>;
+  }
+
+  const isOpen = ['scheduled', 'confirmed'].includes(appointment.status);
+  const hoursUntil = (new Date(appointment.scheduledAt).getTime() - Date.now()) / (60 * 60 * 1000);
+  const isLate = hoursUntil < appointment.lateCancelHours && appointment.lateCancelFee > 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-6">
+        <Calendar className="w-8 h-8 text-blue-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Your therapy session</h1>
+          <p className="text-gray-600 flex items-center gap-1">
+            <Clock className="w-4 h-4" />
+            {formatTime(appointment.scheduledAt)} · {appointment.duration} minutes
+          </p>
+        </div>
+      </div>
+
+      {!isOpen ? (
+        <p className="text-gray-700">This appointment is {appointment.status.replace('_', ' ')} and can no longer be changed.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 mb-6">
+            {(['confirm', 'cancel', 'reschedule'] as ReminderAction[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setAction(option)}
+                className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                  action === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </button>
+            ))}
+          </div>
+
+          {action !== 'confirm' && isLate && (
+            <p className="mb-4 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+              Changes less than {appointment.lateCancelHours} hours before your session may incur a
+              ${appointment.lateCancelFee.toFixed(2)} late cancellation fee.
+            </p>
+          )}
+
+          {action === 'cancel' && (
+            <textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Reason for cancelling (optional)"
+              className="w-full mb-4 p-3 border border-gray-300 rounded-lg"
+              maxLength={500}
+            />
+          )}
+
+          {action === 'reschedule' && (
+            <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {appointment.rescheduleOptions?.slots.length ? (
+                appointment.rescheduleOptions.slots.map(slot => (
+                  <button
+                    key={slot}
+                    onClick={() => setSelectedSlot(slot)}
+                    className={`p-2 rounded-lg border text-sm ${
+                      selectedSlot === slot ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                    }`}
+                  >
+                    {formatTime(slot, appointment.rescheduleOptions!.timeZone)}
+                  </button>
+                ))
+              ) : (
+                <p className="text-gray-600">No open times in the next two weeks. Please contact your therapist.</p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="mb-4 text-red-600 flex items-center gap-1">
+              <XCircle className="w-4 h-4" /> {error}
+            </p>
+          )}
+
+          <button
+            onClick={submit}
+            disabled={submitting || (action === 'reschedule' && !selectedSlot)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {action === 'confirm' ? 'Confirm appointment' : action === 'cancel' ? 'Cancel appointment' : 'Move appointment'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function AppointmentRespondPage() {
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <Suspense fallback={<p className="text-center text-gray-600">Loading appointment…</p>}>
+        <AppointmentResponse />
+      </Suspense>
+    </div>
+  );
+}
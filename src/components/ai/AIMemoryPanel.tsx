@@ -0,0 +1,166 @@
+'use client';
+
+/**
+ * AI Memory Panel
+ * Shows what the AI assistant remembers between conversations and lets the
+ * user turn memory on or off and delete what it remembers
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Brain, Trash2 } from 'lucide-react';
+
+interface RememberedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+interface MemoryView {
+  enabled: boolean;
+  consentUpdatedAt: string | null;
+  summary: { content: string; messageCount: number; updatedAt: string | null } | null;
+  messages: RememberedMessage[];
+}
+
+export default function AIMemoryPanel() {
+  const [memory, setMemory] = useState<MemoryView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (init?: RequestInit, query = '') => {
+    setError(null);
+    const response = await fetch(`/api/ai/memory${query}`, init);
+    if (response.status === 401) {
+      setMemory(null);
+      setError('Sign in to let the assistant remember your conversations.');
+      return;
+    }
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    setMemory(result.data);
+  }, []);
+
+  useEffect(() => {
+    request()
+      .catch(() => setError('Could not load what the assistant remembers.'))
+      .finally(() => setLoading(false));
+  }, [request]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch {
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setEnabled = (enabled: boolean) => {
+    if (!enabled && !window.confirm('Turning memory off deletes everything the assistant remembers. Continue?')) {
+      return;
+    }
+    return run(
+      () => request({
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      }),
+      'Could not update memory settings.'
+    );
+  };
+
+  const forget = (query: string) =>
+    run(() => request({ method: 'DELETE' }, query), 'Could not delete that memory.');
+
+  if (loading) {
+    return <p className="text-gray-500">Loading…</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-red-600">{error}</p>}
+      {memory && (
+        <>
+          <div className="flex items-center justify-between py-2">
+            <span className="flex items-center gap-2">
+              <Brain className="w-4 h-4" />
+              Remember my conversations
+            </span>
+            <input
+              type="checkbox"
+              checked={memory.enabled}
+              disabled={busy}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            When on, your messages are stored encrypted so the assistant can pick up where you left off.
+            Older conversations are condensed into a summary.
+          </p>
+
+          {memory.summary && (
+            <div className="border rounded p-3 bg-gray-50">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium">
+                  Summary of {memory.summary.messageCount} earlier messages
+                </span>
+                <button
+                  onClick={() => forget('?scope=summary')}
+                  disabled={busy}
+                  className="p-1 rounded hover:bg-gray-200"
+                  aria-label="Delete summary"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="whitespace-pre-wrap text-gray-700">{memory.summary.content}</p>
+            </div>
+          )}
+
+          {memory.messages.length > 0 && (
+            <ul className="space-y-2">
+              {memory.messages.map(message => (
+                <li key={message.id} className="flex items-start justify-between gap-2 border-b pb-2">
+                  <div>
+                    <span className="text-xs text-gray-500">
+                      {message.role === 'user' ? 'You' : 'Assistant'} · {new Date(message.createdAt).toLocaleString()}
+                    </span>
+                    <p className="text-gray-700">{message.content}</p>
+                  </div>
+                  <button
+                    onClick={() => forget(`?messageId=${encodeURIComponent(message.id)}`)}
+                    disabled={busy}
+                    className="p-1 rounded hover:bg-gray-100 shrink-0"
+                    aria-label="Delete message from memory"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {memory.enabled && !memory.summary && memory.messages.length === 0 && (
+            <p className="text-gray-500">The assistant doesn&apos;t remember anything yet.</p>
+          )}
+
+          {(memory.summary || memory.messages.length > 0) && (
+            <button
+              onClick={() => forget('')}
+              disabled={busy}
+              className="px-3 py-1 border border-red-300 text-red-700 rounded hover:bg-red-50"
+            >
+              Forget everything
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+'use client';
+
+/**
+ * AI Oversight Console
+ * Where licensed staff work the queue of AI conversations flagged for human
+ * review: claim a conversation, read the flagged excerpt, add notes, resolve
+ * it and schedule follow-ups, and see the oversight report.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Clock, RefreshCw, ShieldCheck } from 'lucide-react';
+
+type Queue = 'open' | 'mine' | 'resolved';
+type Tab = Queue | 'follow-ups' | 'report';
+type SlaState = 'on_track' | 'due_soon' | 'breached' | 'met' | 'missed';
+
+interface TranscriptEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+interface FollowUp {
+  id: string;
+  requestId: string;
+  type: string;
+  timeline: string;
+  assignedTo: string;
+  dueAt: string | null;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  overdue: boolean;
+}
+
+interface OversightRequest {
+  id: string;
+  timestamp: string;
+  priority: 'low' | 'medium' | 'high' | 'immediate';
+  type: string;
+  reason: string;
+  status: string;
+  assignedTo?: string;
+  claimedAt?: string;
+  slaDueAt: string;
+  slaState: SlaState;
+  context: { riskLevel?: string; safetyReasons?: string[]; transcript?: TranscriptEntry[] };
+  notes?: Array<{ id: string; authorId: string; content: string; createdAt: string }>;
+  resolution?: { resolvedBy: string; resolvedAt: string; action: string; notes: string };
+  followUps: FollowUp[];
+}
+
+interface OversightReport {
+  totalRequests: number;
+  openRequests: number;
+  resolvedRequests: number;
+  escalatedRequests: number;
+  sla: { met: number; missed: number; breached: number; complianceRate: number };
+  medianMinutesToClaim: number | null;
+  medianMinutesToResolve: number | null;
+  byResolutionAction: Record<string, number>;
+}
+
+const RESOLUTION_ACTIONS = [
+  ['provided_guidance', 'Provided guidance'],
+  ['human_takeover', 'Human took over'],
+  ['referred_to_professional', 'Referred to a professional'],
+  ['crisis_intervention', 'Crisis intervention'],
+  ['system_override', 'Overrode the AI response'],
+  ['no_action_needed', 'No action needed'],
+] as const;
+
+const FOLLOW_UP_TYPES = [
+  ['check_in', 'Check in'],
+  ['schedule_appointment', 'Schedule appointment'],
+  ['monitor', 'Monitor'],
+  ['transfer_care', 'Transfer care'],
+] as const;
+
+const PRIORITY_STYLES: Record<OversightRequest['priority'], string> = {
+  immediate: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+const SLA_LABELS: Record<SlaState, { label: string; style: string }> = {
+  on_track: { label: 'On track', style: 'text-gray-600' },
+  due_soon: { label: 'Due soon', style: 'text-orange-600' },
+  breached: { label: 'SLA breached', style: 'text-red-600 font-medium' },
+  met: { label: 'Claimed in time', style: 'text-green-700' },
+  missed: { label: 'Claimed late', style: 'text-red-600' },
+};
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—';
+  return minutes < 90 ? `${Math.round(minutes)} min` : `${(minutes / 60).toFixed(1)} h`;
+}
+
+async function callApi<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed');
+  }
+  return result.data;
+}
+
+export default function AIOversightConsole({ reviewerId }: { reviewerId: string }) {
+  const [tab, setTab] = useState<Tab>('open');
+  const [requests, setRequests] = useState<OversightRequest[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [report, setReport] = useState<OversightReport | null>(null);
+  const [selected, setSelected] = useState<OversightRequest | null>(null);
+  const [note, setNote] = useState('');
+  const [resolution, setResolution] = useState({
+    action: 'provided_guidance',
+    notes: '',
+    followUpType: '',
+    followUpTimeline: '24h',
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      if (tab === 'report') {
+        setReport(await callApi<OversightReport>('/api/ai/oversight?view=report'));
+      } else if (tab === 'follow-ups') {
+        setFollowUps(await callApi<FollowUp[]>('/api/ai/oversight?view=follow-ups'));
+      } else {
+        setRequests(await callApi<OversightRequest[]>(`/api/ai/oversight?queue=${tab}`));
+      }
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load the oversight queue.');
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const act = (body: Record<string, unknown>) =>
+    run(async () => {
+      if (!selected) return;
+      await callApi(`/api/ai/oversight/${encodeURIComponent(selected.id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      setSelected(await callApi<OversightRequest>(`/api/ai/oversight/${encodeURIComponent(selected.id)}`));
+      await load();
+    });
+
+  const open = (request: OversightRequest) =>
+    run(async () => {
+      setSelected(await callApi<OversightRequest>(`/api/ai/oversight/${encodeURIComponent(request.id)}`));
+      setNote('');
+    });
+
+  const resolve = () =>
+    act({
+      action: 'resolve',
+      resolution: resolution.action,
+      notes: resolution.notes,
+      ...(resolution.followUpType && {
+        followUp: { type: resolution.followUpType, timeline: resolution.followUpTimeline },
+      }),
+    });
+
+  const updateFollowUp = (followUpId: string, status: 'completed' | 'cancelled') =>
+    run(async () => {
+      await callApi('/api/ai/oversight', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ followUpId, status }),
+      });
+      await load();
+    });
+
+  const claimedByMe = selected?.claimedAt && selected.assignedTo === reviewerId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6" />
+          AI Conversation Oversight
+        </h1>
+        <button onClick={load} className="p-2 rounded hover:bg-gray-100" aria-label="Refresh">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 border-b">
+        {([
+          ['open', 'Open queue'],
+          ['mine', 'My reviews'],
+          ['resolved', 'Resolved'],
+          ['follow-ups', 'My follow-ups'],
+          ['report', 'Report'],
+        ] as const).map(([value, title]) => (
+          <button
+            key={value}
+            onClick={() => { setTab(value); setSelected(null); }}
+            className={`px-3 py-2 -mb-px border-b-2 ${tab === value ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-600'}`}
+          >
+            {title}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {tab === 'report' && report && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Stat title="Flagged conversations" value={report.totalRequests} />
+          <Stat title="Resolved" value={report.resolvedRequests} />
+          <Stat title="Still open" value={report.openRequests} />
+          <Stat title="Escalated" value={report.escalatedRequests} />
+          <Stat title="Claimed within SLA" value={`${report.sla.complianceRate.toFixed(0)}%`} />
+          <Stat title="SLA breaches" value={report.sla.missed + report.sla.breached} />
+          <Stat title="Median time to claim" value={formatMinutes(report.medianMinutesToClaim)} />
+          <Stat title="Median time to resolve" value={formatMinutes(report.medianMinutesToResolve)} />
+          <div className="col-span-2 md:col-span-4 border rounded p-3">
+            <h2 className="font-medium mb-2">Resolutions</h2>
+            {Object.entries(report.byResolutionAction).map(([action, count]) => (
+              <div key={action} className="flex justify-between text-sm">
+                <span className="capitalize">{label(action)}</span>
+                <span>{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tab === 'follow-ups' && (
+        <ul className="space-y-2">
+          {followUps.length === 0 && <p className="text-gray-500">No follow-ups scheduled for you.</p>}
+          {followUps.map(followUp => (
+            <li key={followUp.id} className="flex items-center justify-between border rounded p-3">
+              <div>
+                <span className="font-medium capitalize">{label(followUp.type)}</span>
+                <span className={`ml-2 text-sm ${followUp.overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                  {followUp.dueAt ? `due ${new Date(followUp.dueAt).toLocaleString()}` : followUp.timeline}
+                  {followUp.overdue && ' · overdue'}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateFollowUp(followUp.id, 'completed')}
+                  disabled={busy}
+                  className="px-3 py-1 rounded bg-green-600 text-white"
+                >
+                  Done
+                </button>
+                <button
+                  onClick={() => updateFollowUp(followUp.id, 'cancelled')}
+                  disabled={busy}
+                  className="px-3 py-1 rounded border"
+                >
+                  Cancel
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(tab === 'open' || tab === 'mine' || tab === 'resolved') && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <ul className="space-y-2">
+            {requests.length === 0 && <p className="text-gray-500">Nothing in this queue.</p>}
+            {requests.map(request => (
+              <li key={request.id}>
+                <button
+                  onClick={() => open(request)}
+                  className={`w-full text-left border rounded p-3 hover:bg-gray-50 ${selected?.id === request.id ? 'ring-2 ring-indigo-400' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`px-2 py-0.5 rounded text-xs uppercase ${PRIORITY_STYLES[request.priority]}`}>
+                      {request.priority}
+                    </span>
+                    <span className={`text-xs flex items-center gap-1 ${SLA_LABELS[request.slaState].style}`}>
+                      <Clock className="w-3 h-3" />
+                      {SLA_LABELS[request.slaState].label}
+                      {!request.claimedAt && ` · ${new Date(request.slaDueAt).toLocaleTimeString()}`}
+                    </span>
+                  </div>
+                  <p className="mt-1 font-medium capitalize">{label(request.type)}</p>
+                  <p className="text-sm text-gray-600">{request.reason}</p>
+                  <p className="text-xs text-gray-500 mt-1 capitalize">
+                    {label(request.status)}
+                    {request.assignedTo && request.claimedAt &&
+                      (request.assignedTo === reviewerId ? ' · claimed by you' : ' · claimed by another reviewer')}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="border rounded p-4 space-y-4">
+              <div>
+                <h2 className="font-semibold capitalize flex items-center gap-2">
+                  {selected.priority === 'immediate' && <AlertTriangle className="w-4 h-4 text-red-600" />}
+                  {label(selected.type)}
+                </h2>
+                <p className="text-sm text-gray-600">{selected.reason}</p>
+                <p className="text-xs text-gray-500">
+                  Flagged {new Date(selected.timestamp).toLocaleString()}
+                  {selected.context.riskLevel && ` · risk ${selected.context.riskLevel}`}
+                </p>
+              </div>
+
+              <div className="space-y-2 max-h-72 overflow-y-auto bg-gray-50 rounded p-3">
+                {(selected.context.transcript ?? []).map((entry, index) => (
+                  <div key={index} className={entry.role === 'user' ? 'text-gray-900' : 'text-indigo-900'}>
+                    <span className="text-xs text-gray-500">{entry.role === 'user' ? 'User' : 'AI assistant'}</span>
+                    <p className="whitespace-pre-wrap">{entry.content}</p>
+                  </div>
+                ))}
+                {!selected.context.transcript?.length && (
+                  <p className="text-gray-500">No conversation excerpt was captured.</p>
+                )}
+              </div>
+
+              {selected.status !== 'resolved' && !selected.claimedAt && (
+                <button
+                  onClick={() => act({ action: 'claim' })}
+                  disabled={busy}
+                  className="px-4 py-2 rounded bg-indigo-600 text-white"
+                >
+                  Claim for review
+                </button>
+              )}
+
+              <div>
+                <h3 className="font-medium mb-1">Notes</h3>
+                <ul className="space-y-1 mb-2">
+                  {(selected.notes ?? []).map(entry => (
+                    <li key={entry.id} className="text-sm border-b pb-1">
+                      <span className="text-xs text-gray-500">
+                        {entry.authorId === reviewerId ? 'You' : 'Reviewer'} · {new Date(entry.createdAt).toLocaleString()}
+                      </span>
+                      <p className="whitespace-pre-wrap">{entry.content}</p>
+                    </li>
+                  ))}
+                </ul>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="w-full border rounded p-2 text-sm"
+                  rows={2}
+                  placeholder="Add a note"
+                />
+                <button
+                  onClick={() => act({ action: 'annotate', note }).then(() => setNote(''))}
+                  disabled={busy || !note.trim()}
+                  className="mt-1 px-3 py-1 rounded border"
+                >
+                  Add note
+                </button>
+              </div>
+
+              {claimedByMe && selected.status !== 'resolved' && (
+                <div className="space-y-2 border-t pt-3">
+                  <h3 className="font-medium">Resolve</h3>
+                  <select
+                    value={resolution.action}
+                    onChange={(e) => setResolution({ ...resolution, action: e.target.value })}
+                    className="w-full border rounded p-2"
+                  >
+                    {RESOLUTION_ACTIONS.map(([value, title]) => (
+                      <option key={value} value={value}>{title}</option>
+                    ))}
+                  </select>
+                  <textarea
+                    value={resolution.notes}
+                    onChange={(e) => setResolution({ ...resolution, notes: e.target.value })}
+                    className="w-full border rounded p-2 text-sm"
+                    rows={3}
+                    placeholder="What you did and why"
+                  />
+                  <div className="flex gap-2">
+                    <select
+                      value={resolution.followUpType}
+                      onChange={(e) => setResolution({ ...resolution, followUpType: e.target.value })}
+                      className="flex-1 border rounded p-2"
+                    >
+                      <option value="">No follow-up</option>
+                      {FOLLOW_UP_TYPES.map(([value, title]) => (
+                        <option key={value} value={value}>{title}</option>
+                      ))}
+                    </select>
+                    {resolution.followUpType && (
+                      <input
+                        value={resolution.followUpTimeline}
+                        onChange={(e) => setResolution({ ...resolution, followUpTimeline: e.target.value })}
+                        className="w-32 border rounded p-2"
+                        placeholder="e.g. 24h, 3 days"
+                      />
+                    )}
+                  </div>
+                  <button
+                    onClick={resolve}
+                    disabled={busy || !resolution.notes.trim()}
+                    className="px-4 py-2 rounded bg-green-600 text-white flex items-center gap-2"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    Resolve
+                  </button>
+                </div>
+              )}
+
+              {selected.resolution && (
+                <div className="border-t pt-3 text-sm">
+                  <p className="font-medium capitalize">Resolved: {label(selected.resolution.action)}</p>
+                  <p className="text-xs text-gray-500">{new Date(selected.resolution.resolvedAt).toLocaleString()}</p>
+                  <p className="whitespace-pre-wrap">{selected.resolution.notes}</p>
+                  {selected.followUps.map(followUp => (
+                    <p key={followUp.id} className="text-xs text-gray-600 capitalize">
+                      Follow-up: {label(followUp.type)} ({followUp.timeline}) · {followUp.status}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({ title, value }: { title: string; value: string | number }) {
+  return (
+    <div className="border rounded p-3">
+      <p className="text-xs text-gray-500">{title}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
@@ -24,9 +24,13 @@ import {
   VolumeX,
   Settings,
   Info,
+  Star,
   X
 } from 'lucide-react';
 import AIWebSocketService from '@/lib/ai/websocket/AIWebSocketService';
+import AIMemoryPanel from './AIMemoryPanel';
+import GuidedExercise from './GuidedExercise';
+import type { TurnSafety } from '@/lib/ai/core/TurnSafetyPolicy';
 import { useAITherapy } from '@/hooks/useAITherapy';
 import { useAccessibility } from '@/hooks/useAccessibility';
 import { useCrisisDetection } from '@/hooks/useCrisisDetection';
@@ -38,6 +42,7 @@ interface Message {
   content: string;
   timestamp: Date;
   interventions?: any[];
+  safety?: TurnSafety;
   metadata?: {
     sentiment?: number;
     confidence?: number;
@@ -45,6 +50,13 @@ interface Message {
   };
 }
 
+interface ChatConsent {
+  termsAccepted: boolean;
+  dataProcessing: boolean;
+}
+
+const CHAT_CONSENT_STORAGE_KEY = 'ai-chat-consent';
+
 interface InterventionCard {
   id: string;
   type: string;
@@ -64,7 +76,7 @@ export default function AITherapyInterface() {
     sessionId,
     connectionStatus
   } = useAITherapy();
-  const { checkForCrisis, crisisLevel } = useCrisisDetection();
+  const { checkForCrisis, crisisLevel } = useCrisisDetection(language);
   const {
     fontSize,
     highContrast,
@@ -81,10 +93,13 @@ export default function AITherapyInterface() {
   const [isTyping, setIsTyping] = useState(false);
   const [showInterventions, setShowInterventions] = useState(false);
   const [activeInterventions, setActiveInterventions] = useState<InterventionCard[]>([]);
+  const [interventionRatings, setInterventionRatings] = useState<Record<string, number>>({});
+  const [guidedExerciseId, setGuidedExerciseId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
   const [voiceInput, setVoiceInput] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [chatConsent, setChatConsent] = useState<ChatConsent | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLTextAreaElement | null>(null);
@@ -92,6 +107,16 @@ export default function AITherapyInterface() {
   const { therapist } = useTherapist();
   const systemPersonaRef = useRef<string | null>(null);
 
+  // Restore consent given through the chat consent prompt
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(CHAT_CONSENT_STORAGE_KEY);
+      if (stored) setChatConsent(JSON.parse(stored));
+    } catch {
+      // Ignore unreadable consent; the pipeline will ask again
+    }
+  }, []);
+
   // Initialize persona
   useEffect(() => {
     systemPersonaRef.current = therapist?.systemPrompt || null;
@@ -102,7 +127,8 @@ export default function AITherapyInterface() {
     if (sessionId) {
       wsService.current = new AIWebSocketService();
       
-      wsService.current.on('message', handleIncomingMessage);
+      wsService.current.on('message:ai_response', handleIncomingMessage);
+      wsService.current.on('message:ai_response_chunk', handleResponseChunk);
       wsService.current.on('typing_indicator', handleTypingIndicator);
       wsService.current.on('intervention_update', handleInterventionUpdate);
       wsService.current.on('crisis_alert', handleCrisisAlert);
@@ -151,15 +177,19 @@ export default function AITherapyInterface() {
 
   const handleIncomingMessage = useCallback((message: any) => {
     const newMessage: Message = {
-      id: message.id,
+      id: message.payload.responseToId ? `ws_${message.payload.responseToId}` : message.id,
       role: 'assistant',
       content: message.payload.content,
       timestamp: new Date(message.timestamp),
       interventions: message.payload.interventions,
+      safety: message.payload.safety,
       metadata: message.payload.metadata
     };
     
-    setMessages(prev => [...prev, newMessage]);
+    // Replace the streamed draft of this reply, if there was one
+    setMessages(prev => prev.some(m => m.id === newMessage.id)
+      ? prev.map(m => (m.id === newMessage.id ? newMessage : m))
+      : [...prev, newMessage]);
     setIsTyping(false);
     
     // Check for crisis indicators
@@ -178,6 +208,20 @@ export default function AITherapyInterface() {
     }
   }, [soundEnabled, voiceEnabled, checkForCrisis]);
 
+  // Render a reply streamed over the AI channel as its chunks arrive
+  const handleResponseChunk = useCallback((message: any) => {
+    const id = `ws_${message.payload.responseToId}`;
+    setIsTyping(false);
+    setMessages(prev => {
+      const existing = prev.find(m => m.id === id);
+      const draft: Message = existing || { id, role: 'assistant', content: '', timestamp: new Date(message.timestamp) };
+      const next: Message = message.payload.replace !== undefined
+        ? { ...draft, content: message.payload.replace, safety: message.payload.safety }
+        : { ...draft, content: draft.content + message.payload.delta };
+      return existing ? prev.map(m => (m.id === id ? next : m)) : [...prev, next];
+    });
+  }, []);
+
   const handleTypingIndicator = useCallback((data: any) => {
     setIsTyping(data.payload.isTyping);
   }, []);
@@ -211,6 +255,42 @@ export default function AITherapyInterface() {
     // In production, this would trigger immediate crisis protocols
   }, []);
 
+  const requestReply = async (content: string, history: Message[], consent: ChatConsent | null) => {
+    setIsTyping(true);
+    
+    // Streamed text is rendered into a placeholder as it arrives
+    const assistantId = `asst_${Date.now()}`;
+    const updateStreamed = (update: (message: Message) => Message) => {
+      setIsTyping(false);
+      setMessages(prev => {
+        const existing = prev.find(m => m.id === assistantId);
+        const base: Message = existing || { id: assistantId, role: 'assistant', content: '', timestamp: new Date() };
+        const next = update(base);
+        return existing ? prev.map(m => (m.id === assistantId ? next : m)) : [...prev, next];
+      });
+    };
+
+    // Send via the safety-checked chat API
+    // Always send to API for persona support
+    const res = await sendMessage(content, {
+      conversationHistory: history.map(m => ({ role: m.role, content: m.content })),
+      provider: 'openai',
+      systemPrompt: systemPersonaRef.current || undefined,
+      therapistId: therapist?.id,
+      therapistName: therapist?.name,
+      language,
+      consent: consent || undefined,
+      onDelta: delta => updateStreamed(m => ({ ...m, content: m.content + delta })),
+      onReplace: (replacement, safety) => updateStreamed(m => ({ ...m, content: replacement, safety })),
+    });
+    updateStreamed(m => ({
+      ...m,
+      content: res?.response || m.content || '…',
+      safety: res?.safety ?? m.safety,
+      metadata: { confidence: res?.confidence ?? 0.85, riskLevel: res?.riskLevel }
+    }));
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isProcessing) return;
     
@@ -223,28 +303,24 @@ export default function AITherapyInterface() {
     
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
-    setIsTyping(true);
     
-    // Send via WebSocket
-    // Always send to API for persona support
-    const history = messages.map(m => ({ role: m.role, content: m.content }));
-    const res = await sendMessage(userMessage.content, {
-      conversationHistory: history,
-      provider: 'openai',
-      systemPrompt: systemPersonaRef.current || undefined,
-      therapistId: therapist?.id,
-      therapistName: therapist?.name,
-    });
-    const text = res?.response || '…';
-    const assistant: Message = {
-      id: `asst_${Date.now()}`,
-      role: 'assistant',
-      content: text,
-      timestamp: new Date(),
-      metadata: { confidence: 0.85 }
-    };
-    setMessages(prev => [...prev, assistant]);
-    setIsTyping(false);
+    await requestReply(userMessage.content, messages, chatConsent);
+  };
+
+  // Record consent from the prompt on a blocked turn and retry the message it blocked
+  const handleAcceptConsent = async (blockedMessageId: string) => {
+    const consent: ChatConsent = { termsAccepted: true, dataProcessing: true };
+    setChatConsent(consent);
+    localStorage.setItem(CHAT_CONSENT_STORAGE_KEY, JSON.stringify(consent));
+
+    const blockedIndex = messages.findIndex(m => m.id === blockedMessageId);
+    const blockedTurn = messages.slice(0, blockedIndex).reverse().find(m => m.role === 'user');
+    if (!blockedTurn || isProcessing) return;
+
+    const history = messages
+      .slice(0, messages.indexOf(blockedTurn))
+      .filter(m => !m.safety || m.safety.action !== 'blocked');
+    await requestReply(blockedTurn.content, history, consent);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -254,7 +330,13 @@ export default function AITherapyInterface() {
     }
   };
 
-  const startIntervention = async (interventionId: string) => {
+  const startIntervention = async (intervention: any) => {
+    // Exercises with steps to fill in are done here rather than described
+    if (intervention.components?.some((component: any) => component.inputs?.length > 0)) {
+      setGuidedExerciseId(intervention.id);
+      return;
+    }
+    const interventionId = intervention.id;
     if (wsService.current?.isConnected()) {
       await wsService.current.startIntervention(interventionId, {
         startTime: new Date()
@@ -262,6 +344,25 @@ export default function AITherapyInterface() {
     }
   };
 
+  // Ratings of 2 or less stop the assistant offering the exercise again
+  const rateIntervention = async (interventionId: string, rating: number) => {
+    setInterventionRatings(prev => ({ ...prev, [interventionId]: rating }));
+    try {
+      const response = await fetch('/api/ai/interventions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interventionId, rating })
+      });
+      if (!response.ok) throw new Error(`Rating failed: ${response.status}`);
+    } catch (error) {
+      console.error('Failed to rate intervention:', error);
+      setInterventionRatings(prev => {
+        const { [interventionId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
   const playNotificationSound = () => {
     // Play a gentle notification sound
     const audio = new Audio('/sounds/notification.mp3');
@@ -375,6 +476,24 @@ export default function AITherapyInterface() {
           </button>
         </div>
       </header>
+      {/* Guided Exercise */}
+      <AnimatePresence>
+        {guidedExerciseId && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center"
+            role="dialog"
+            aria-modal="true"
+          >
+            <div className="absolute inset-0 bg-black/40" onClick={() => setGuidedExerciseId(null)} />
+            <div className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-xl shadow-xl">
+              <GuidedExercise interventionId={guidedExerciseId} onClose={() => setGuidedExerciseId(null)} />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
       {/* Settings Drawer */}
       <AnimatePresence>
         {showSettings && (
@@ -435,6 +554,10 @@ export default function AITherapyInterface() {
                     <option value="pt">Português</option>
                   </select>
                 </section>
+                <section>
+                  <h3 className="font-medium mb-2">Memory</h3>
+                  <AIMemoryPanel />
+                </section>
               </div>
             </div>
           </motion.div>
@@ -519,6 +642,39 @@ export default function AITherapyInterface() {
                   }`}>
                     <p className="whitespace-pre-wrap">{message.content}</p>
                     
+                    {/* Safety Pipeline Outcome */}
+                    {message.safety && message.safety.action !== 'allowed' && (
+                      <div
+                        className={`mt-2 px-3 py-2 rounded-lg border text-xs ${
+                          message.safety.action === 'blocked'
+                            ? 'bg-red-50 border-red-200 text-red-800'
+                            : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                        }`}
+                        role="status"
+                      >
+                        <p className="flex items-center font-medium">
+                          <Shield className="w-3 h-3 mr-1" />
+                          {message.safety.action === 'blocked'
+                            ? 'Blocked by safety checks'
+                            : 'Adjusted by safety checks'}
+                        </p>
+                        {message.safety.notice && <p className="mt-1">{message.safety.notice}</p>}
+                        {message.safety.reasons.includes('consent_required') && !chatConsent && (
+                          <div className="flex items-center gap-3 mt-2">
+                            <button
+                              onClick={() => handleAcceptConsent(message.id)}
+                              className="px-2 py-1 bg-purple-600 text-white rounded hover:bg-purple-700"
+                            >
+                              I agree, continue
+                            </button>
+                            <Link href="/therapy/ai-terms" className="underline">
+                              Review AI terms
+                            </Link>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Metadata Display */}
                     {message.metadata && message.role === 'assistant' && (
                       <div className="mt-2 pt-2 border-t border-gray-200 flex items-center space-x-3 text-xs">
@@ -543,7 +699,7 @@ export default function AITherapyInterface() {
                         {message.interventions.map((intervention: any) => (
                           <button
                             key={intervention.id}
-                            onClick={() => startIntervention(intervention.id)}
+                            onClick={() => startIntervention(intervention)}
                             className="w-full text-left px-3 py-2 bg-purple-50 hover:bg-purple-100 rounded-lg transition flex items-center justify-between group"
                           >
                             <div>
@@ -688,6 +844,31 @@ export default function AITherapyInterface() {
                           {intervention.active ? 'In Progress' : 'Start'}
                         </button>
                       </div>
+                      {!intervention.active && (
+                        <div className="flex items-center justify-between mt-2 pt-2 border-t">
+                          <span className="text-xs text-gray-500">Did this help?</span>
+                          <div className="flex" role="radiogroup" aria-label={`Rate ${intervention.name}`}>
+                            {[1, 2, 3, 4, 5].map(rating => (
+                              <button
+                                key={rating}
+                                onClick={() => rateIntervention(intervention.id, rating)}
+                                className="p-0.5"
+                                role="radio"
+                                aria-checked={interventionRatings[intervention.id] === rating}
+                                aria-label={`${rating} of 5`}
+                              >
+                                <Star
+                                  className={`w-4 h-4 ${
+                                    (interventionRatings[intervention.id] ?? 0) >= rating
+                                      ? 'fill-yellow-400 text-yellow-400'
+                                      : 'text-gray-300'
+                                  }`}
+                                />
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,415 @@
+'use client';
+
+/**
+ * Guided Exercise
+ * Walks the user through an exercise one step at a time, saving each answer
+ * so the exercise can be paused here and resumed on another device
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ChevronLeft, Pause, Play, X } from 'lucide-react';
+import type { ExerciseInput } from '@/lib/ai/core/InterventionSelector';
+
+interface ExerciseStep {
+  id: string;
+  title: string;
+  instruction: string;
+  durationMinutes: number;
+  inputs: ExerciseInput[];
+}
+
+interface ExerciseView {
+  id: string;
+  name: string;
+  status: 'in_progress' | 'paused' | 'completed' | 'abandoned';
+  currentStep: number;
+  steps: ExerciseStep[];
+  responses: Record<string, Record<string, unknown>>;
+  version: number;
+  completion?: {
+    distressBefore: number | null;
+    distressAfter: number | null;
+    improvement: number | null;
+    activeSeconds: number;
+  };
+  journalEntryId: string | null;
+  crisisSupport?: { immediateRisk: boolean; resourcesUrl: string };
+}
+
+type ExerciseAction =
+  | { type: 'submit'; input: Record<string, unknown>; saveToJournal?: boolean }
+  | { type: 'back' | 'pause' | 'resume' | 'abandon' };
+
+interface GuidedExerciseProps {
+  interventionId: string;
+  onClose: () => void;
+}
+
+const DEVICE_ID_STORAGE_KEY = 'exercise-device-id';
+
+function getDeviceId(): string {
+  let deviceId = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+// Answers from every step so far, for inputs that build on an earlier list
+function earlierItems(exercise: ExerciseView, draft: Record<string, unknown>, inputId?: string): string[] {
+  if (!inputId) return [];
+  const value = inputId in draft
+    ? draft[inputId]
+    : Object.values(exercise.responses).find(responses => inputId in responses)?.[inputId];
+  return Array.isArray(value) ? value : [];
+}
+
+// Times are stored as UTC; datetime inputs show local time without a zone
+function toLocalInput(iso?: string): string {
+  const time = iso ? new Date(iso) : null;
+  if (!time || Number.isNaN(time.getTime())) return '';
+  return new Date(time.getTime() - time.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+interface InputFieldProps {
+  input: ExerciseInput;
+  value: unknown;
+  items: string[];
+  onChange: (value: unknown) => void;
+}
+
+function InputField({ input, value, items, onChange }: InputFieldProps) {
+  switch (input.type) {
+    case 'text':
+      return (
+        <textarea
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="w-full p-2 border rounded"
+        />
+      );
+
+    case 'scale':
+      return (
+        <div className="flex flex-wrap gap-1" role="radiogroup" aria-label={input.label}>
+          {Array.from({ length: (input.max ?? 10) - (input.min ?? 0) + 1 }, (_, i) => (input.min ?? 0) + i).map(n => (
+            <button
+              key={n}
+              type="button"
+              role="radio"
+              aria-checked={value === n}
+              onClick={() => onChange(n)}
+              className={`w-8 h-8 rounded border ${value === n ? 'bg-purple-600 text-white' : 'hover:bg-gray-100'}`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'list': {
+      const list = Array.isArray(value) ? (value as string[]) : [];
+      const slots = Math.max(input.minItems ?? 1, Math.min(list.length + 1, input.maxItems ?? list.length + 1));
+      return (
+        <div className="space-y-1">
+          {Array.from({ length: slots }, (_, i) => (
+            <input
+              key={i}
+              value={list[i] ?? ''}
+              onChange={(e) => {
+                const next = [...list];
+                next[i] = e.target.value;
+                onChange(next);
+              }}
+              className="w-full p-2 border rounded"
+              aria-label={`${input.label} ${i + 1}`}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'select': {
+      const chosen = Array.isArray(value) ? (value as string[]) : [];
+      return (
+        <div className="space-y-1">
+          {items.map(item => (
+            <label key={item} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={chosen.includes(item)}
+                onChange={(e) => onChange(e.target.checked ? [...chosen, item] : chosen.filter(c => c !== item))}
+              />
+              {item}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'item_scales': {
+      const ratings = (value as Record<string, Record<string, number>>) ?? {};
+      return (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item} className="flex flex-wrap items-center gap-3">
+              <span className="font-medium w-40">{item}</span>
+              {(input.scales ?? []).map(scale => (
+                <label key={scale.id} className="flex items-center gap-1 text-sm">
+                  {scale.label}
+                  <input
+                    type="number"
+                    min={scale.min}
+                    max={scale.max}
+                    value={ratings[item]?.[scale.id] ?? ''}
+                    onChange={(e) => onChange({
+                      ...ratings,
+                      [item]: { ...ratings[item], [scale.id]: Number(e.target.value) }
+                    })}
+                    className="w-16 p-1 border rounded"
+                  />
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'schedule': {
+      const times = (value as Record<string, string>) ?? {};
+      return (
+        <div className="space-y-2">
+          {items.map(item => (
+            <label key={item} className="flex items-center gap-2">
+              <span className="w-40">{item}</span>
+              <input
+                type="datetime-local"
+                value={toLocalInput(times[item])}
+                onChange={(e) => onChange({ ...times, [item]: e.target.value && new Date(e.target.value).toISOString() })}
+                className="p-1 border rounded"
+              />
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'confirm':
+      return (
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+          {input.label}
+        </label>
+      );
+  }
+}
+
+export default function GuidedExercise({ interventionId, onClose }: GuidedExerciseProps) {
+  const [exercise, setExercise] = useState<ExerciseView | null>(null);
+  const [draft, setDraft] = useState<Record<string, unknown>>({});
+  const [saveToJournal, setSaveToJournal] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [crisisSupport, setCrisisSupport] = useState<ExerciseView['crisisSupport']>();
+
+  const show = useCallback((view: ExerciseView) => {
+    setExercise(view);
+    const step = view.steps[view.currentStep];
+    setDraft(step ? { ...view.responses[step.id] } : {});
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/ai/exercises', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ interventionId, deviceId: getDeviceId() })
+    })
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        show(result.data);
+      })
+      .catch(() => setErrors(['Could not start this exercise.']));
+  }, [interventionId, show]);
+
+  const act = async (action: ExerciseAction) => {
+    if (!exercise) return;
+    setBusy(true);
+    setErrors([]);
+    try {
+      const response = await fetch(`/api/ai/exercises/${exercise.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: exercise.version, deviceId: getDeviceId(), action })
+      });
+      const result = await response.json();
+      if (response.status === 409) {
+        // Moved on from another device: show where it is now
+        const latest = await fetch(`/api/ai/exercises/${exercise.id}`).then(r => r.json());
+        if (latest.data) show(latest.data);
+        setErrors([result.error]);
+        return;
+      }
+      if (!response.ok) {
+        setErrors(Array.isArray(result.details) ? result.details : [result.error]);
+        return;
+      }
+      show(result.data);
+      if (result.data.crisisSupport) setCrisisSupport(result.data.crisisSupport);
+    } catch {
+      setErrors(['Could not save your progress. Check your connection and try again.']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!exercise) {
+    return (
+      <div className="p-6">
+        {errors.length > 0 ? <p className="text-red-600">{errors[0]}</p> : <p className="text-gray-500">Loading…</p>}
+      </div>
+    );
+  }
+
+  const step = exercise.steps[exercise.currentStep]!;
+  const last = exercise.currentStep === exercise.steps.length - 1;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{exercise.name}</h2>
+        <button onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close exercise">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {crisisSupport && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded flex items-start gap-2" role="alert">
+          <AlertCircle className="w-5 h-5 text-red-600 shrink-0" />
+          <p className="text-sm text-red-800">
+            It sounds like you are going through a lot right now. You don&apos;t have to face this alone.{' '}
+            <Link href={crisisSupport.resourcesUrl} className="underline font-medium">Get support now</Link>
+          </p>
+        </div>
+      )}
+
+      {exercise.status === 'completed' && (
+        <div className="space-y-2">
+          <p className="font-medium">You finished the exercise.</p>
+          {exercise.completion && exercise.completion.distressBefore !== null && exercise.completion.distressAfter !== null && (
+            <p className="text-gray-700">
+              Distress went from {exercise.completion.distressBefore} to {exercise.completion.distressAfter}.
+            </p>
+          )}
+          {exercise.journalEntryId && <p className="text-sm text-gray-500">Saved to your journal.</p>}
+          <button onClick={onClose} className="px-4 py-2 bg-purple-600 text-white rounded">Done</button>
+        </div>
+      )}
+
+      {exercise.status === 'abandoned' && (
+        <div className="space-y-2">
+          <p className="text-gray-700">You stopped this exercise. You can start it again any time.</p>
+          <button onClick={onClose} className="px-4 py-2 border rounded">Close</button>
+        </div>
+      )}
+
+      {exercise.status === 'paused' && (
+        <div className="space-y-2">
+          <p className="text-gray-700">
+            Paused at step {exercise.currentStep + 1} of {exercise.steps.length}. Pick up here or on another device.
+          </p>
+          <button
+            onClick={() => act({ type: 'resume' })}
+            disabled={busy}
+            className="px-4 py-2 bg-purple-600 text-white rounded flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" /> Resume
+          </button>
+        </div>
+      )}
+
+      {exercise.status === 'in_progress' && (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            act({ type: 'submit', input: draft, ...(last && { saveToJournal }) });
+          }}
+        >
+          <div>
+            <p className="text-xs text-gray-500">
+              Step {exercise.currentStep + 1} of {exercise.steps.length} · about {step.durationMinutes} min
+            </p>
+            <h3 className="font-medium">{step.title}</h3>
+            <p className="text-gray-700">{step.instruction}</p>
+          </div>
+
+          {step.inputs.map(input => (
+            <div key={input.id} className="space-y-1">
+              {input.type !== 'confirm' && (
+                <p className="text-sm font-medium">
+                  {input.label}{input.required && <span className="text-red-600"> *</span>}
+                </p>
+              )}
+              <InputField
+                input={input}
+                value={draft[input.id]}
+                items={earlierItems(exercise, draft, input.itemsFrom)}
+                onChange={(value) => setDraft(prev => ({ ...prev, [input.id]: value }))}
+              />
+            </div>
+          ))}
+
+          {last && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={saveToJournal} onChange={(e) => setSaveToJournal(e.target.checked)} />
+              Save my answers to my journal
+            </label>
+          )}
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => act({ type: 'back' })}
+                disabled={busy || exercise.currentStep === 0}
+                className="px-3 py-2 border rounded flex items-center gap-1 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" /> Back
+              </button>
+              <button
+                type="button"
+                onClick={() => act({ type: 'pause' })}
+                disabled={busy}
+                className="px-3 py-2 border rounded flex items-center gap-1"
+              >
+                <Pause className="w-4 h-4" /> Pause
+              </button>
+              <button
+                type="button"
+                onClick={() => act({ type: 'abandon' })}
+                disabled={busy}
+                className="px-3 py-2 text-gray-600 hover:underline"
+              >
+                Stop
+              </button>
+            </div>
+            <button type="submit" disabled={busy} className="px-4 py-2 bg-purple-600 text-white rounded">
+              {last ? 'Finish' : 'Next'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
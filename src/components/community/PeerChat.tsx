@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import { ChatMessage, AnonymousUser, PeerMatch } from '@/types/community';
 import { getWebSocketInstance } from '@/services/community/websocket';
+import { assessCrisisRisk, isAtLeast } from '@/lib/crisis-risk/risk-engine';
 
 interface PeerChatProps {
   match: PeerMatch;
@@ -57,13 +58,6 @@ const PeerChat: React.FC<PeerChatProps> = ({
   // Common emojis for mental health support
   const supportEmojis = ['❤️', '🤗', '💪', '🌟', '🌈', '✨', '🙏', '💜', '🌻', '🦋'];
 
-  // Crisis keywords for detection
-  const crisisKeywords = [
-    'suicide', 'kill myself', 'end it all', 'not worth living',
-    'self-harm', 'cutting', 'overdose', 'no point',
-    'better off dead', 'goodbye forever'
-  ];
-
   useEffect(() => {
     initializeChat();
     scrollToBottom();
@@ -238,8 +232,7 @@ const PeerChat: React.FC<PeerChatProps> = ({
   };
 
   const detectCrisisContent = (content: string): boolean => {
-    const lowerContent = content.toLowerCase();
-    return crisisKeywords.some(keyword => lowerContent.includes(keyword));
+    return isAtLeast(assessCrisisRisk(content, { language: currentUser.languages[0] }).severity, 'high');
   };
 
   const handleSelfCrisisDetection = () => {
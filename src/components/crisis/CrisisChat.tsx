@@ -124,6 +124,16 @@ export default function CrisisChat({
     socketInstance.on('severity_update', (severity) => {
       setCurrentSeverity(severity);
     });
+
+    // Warm handoff: the new counselor joins while the current one is still here
+    socketInstance.on('crisis:handoff_started', (data) => {
+      connectToCounselor(data.counselorId);
+      addSystemMessage('Another counselor has joined to continue supporting you. They have your conversation so far, so you don\'t need to repeat anything.');
+    });
+
+    socketInstance.on('crisis:handoff_completed', () => {
+      addSystemMessage('Your previous counselor has left the chat. Your new counselor is here with you.');
+    });
     
     setSocket(socketInstance);
     
@@ -29,6 +29,9 @@ import {
   XMarkIcon
 } from '@heroicons/react/24/outline';
 import { format, differenceInMinutes, isToday, isThisWeek, addHours } from 'date-fns';
+import { useSession } from 'next-auth/react';
+import CrisisRotaPanel from './CrisisRotaPanel';
+import CssrsScreener, { ScreeningRecord } from './CssrsScreener';
 
 interface CrisisClient {
   id: string;
@@ -49,6 +52,7 @@ interface CrisisClient {
   notes: string;
   isMinor: boolean;
   guardianInfo?: GuardianInfo;
+  latestScreening?: ScreeningRecord | null;
 }
 
 interface EmergencyContact {
@@ -185,13 +189,22 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
   });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'clients' | 'interventions' | 'alerts' | 'reports'>('overview');
+  const { data: session } = useSession();
+  const [activeTab, setActiveTab] = useState<'overview' | 'clients' | 'interventions' | 'alerts' | 'rota' | 'reports'>('overview');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRiskLevel, setSelectedRiskLevel] = useState('');
   const [selectedStatus, setSelectedStatus] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [selectedClient, setSelectedClient] = useState<CrisisClient | null>(null);
   const [showClientModal, setShowClientModal] = useState(false);
+  const [screeningClient, setScreeningClient] = useState<CrisisClient | null>(null);
+
+  // On-call pages link straight to the rota tab
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('tab') === 'rota') {
+      setActiveTab('rota');
+    }
+  }, []);
 
   // Fetch crisis data on component mount
   useEffect(() => {
@@ -213,6 +226,10 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
             ...client,
             lastContact: new Date(client.lastContact),
             nextFollowUp: client.nextFollowUp ? new Date(client.nextFollowUp) : undefined,
+            latestScreening: client.latestScreening ? {
+              ...client.latestScreening,
+              createdAt: new Date(client.latestScreening.createdAt)
+            } : null,
             safetyPlan: client.safetyPlan ? {
               ...client.safetyPlan,
               createdDate: new Date(client.safetyPlan.createdDate || Date.now()),
@@ -319,6 +336,12 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
     }
   };
 
+  const handleScreeningRecorded = (clientId: string, screening: ScreeningRecord) => {
+    setCrisisClients(prev => prev.map(client =>
+      client.id === clientId ? { ...client, latestScreening: screening } : client
+    ));
+  };
+
   const handleViewClient = (client: CrisisClient) => {
     setSelectedClient(client);
     setShowClientModal(true);
@@ -475,6 +498,7 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
                 { id: 'clients', label: 'Active Clients', icon: UserGroupIcon, count: stats.activeClients },
                 { id: 'interventions', label: 'Interventions', icon: HeartIcon },
                 { id: 'alerts', label: 'Alerts', icon: BellAlertIcon, count: unacknowledgedAlerts.length },
+                { id: 'rota', label: 'Rota', icon: CalendarIcon },
                 { id: 'reports', label: 'Reports', icon: DocumentTextIcon }
               ].map((tab) => {
                 const Icon = tab.icon;
@@ -789,6 +813,13 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
                                 Safety plan in place
                               </div>
                             )}
+
+                            {client.latestScreening && (
+                              <div className="mt-2 text-sm text-gray-600">
+                                <ClipboardDocumentListIcon className="h-4 w-4 inline mr-1" />
+                                C-SSRS: {client.latestScreening.risk} risk, {format(client.latestScreening.createdAt, 'MMM d, h:mm a')}
+                              </div>
+                            )}
                           </div>
 
                           <div className="flex items-start gap-2 ml-4">
@@ -812,6 +843,16 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
                             >
                               <ChatBubbleLeftRightIcon className="h-4 w-4" />
                             </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setScreeningClient(client);
+                              }}
+                              className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                              title="C-SSRS Screen"
+                            >
+                              <ClipboardDocumentListIcon className="h-4 w-4" />
+                            </button>
                           </div>
                         </div>
                       </motion.div>
@@ -950,6 +991,20 @@ export default function CrisisCounselorDashboard({ className = "" }: CrisisCouns
               </div>
             )}
 
+            {/* Rota Tab */}
+            {activeTab === 'rota' && (
+              <CrisisRotaPanel canEdit={['ADMIN', 'SUPER_ADMIN'].includes((session?.user as any)?.role)} />
+            )}
+
+            {screeningClient && (
+              <CssrsScreener
+                reportId={screeningClient.id}
+                clientName={screeningClient.name}
+                onClose={() => setScreeningClient(null)}
+                onRecorded={screening => handleScreeningRecorded(screeningClient.id, screening)}
+              />
+            )}
+
             {/* Reports Tab */}
             {activeTab === 'reports' && (
               <div className="text-center py-12">
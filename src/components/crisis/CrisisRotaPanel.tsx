@@ -0,0 +1,390 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  BellAlertIcon,
+  CalendarIcon,
+  ExclamationTriangleIcon,
+  PhoneIcon,
+  PlusIcon,
+  TrashIcon,
+  UserGroupIcon
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+
+type ShiftRole = 'primary' | 'on_call';
+
+interface RotaShift {
+  id: string;
+  counselorId: string;
+  role: ShiftRole;
+  startsAt: Date;
+  endsAt: Date;
+  notes?: string | null;
+}
+
+interface CoverageGap {
+  start: Date;
+  end: Date;
+  status: 'short' | 'uncovered';
+  shortfall: number;
+  hasOnCall: boolean;
+}
+
+interface CoverageSlot {
+  hourStart: Date;
+  expected: number;
+  peak: number;
+  requiredCounselors: number;
+  scheduledCounselors: string[];
+  onCallCounselors: string[];
+  status: 'covered' | 'short' | 'uncovered';
+}
+
+interface OnCallPage {
+  id: string;
+  counselorId: string;
+  reasons: string[];
+  unassignedAlerts: number;
+  longestWaitSeconds: number;
+  sentAt: Date;
+  acknowledgedAt?: Date | null;
+}
+
+interface RotaData {
+  counselors: Record<string, string>;
+  shifts: RotaShift[];
+  slots: CoverageSlot[];
+  gaps: CoverageGap[];
+  onDuty: string[];
+  onCall: RotaShift[];
+  rotaInUse: boolean;
+  pages: OnCallPage[];
+  myPendingPages: OnCallPage[];
+}
+
+interface CrisisRotaPanelProps {
+  canEdit?: boolean;
+}
+
+const slotColors = {
+  covered: 'bg-green-400',
+  short: 'bg-yellow-400',
+  uncovered: 'bg-red-500'
+};
+
+const roleLabels: Record<ShiftRole, string> = {
+  primary: 'Primary',
+  on_call: 'On call'
+};
+
+const requestJson = async (url: string, options: RequestInit = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `API call failed: ${response.statusText}`);
+  }
+
+  return body;
+};
+
+const toDates = <T extends Record<string, any>>(item: T, fields: string[]): T => {
+  const copy: Record<string, any> = { ...item };
+  fields.forEach(field => {
+    if (copy[field]) copy[field] = new Date(copy[field]);
+  });
+  return copy as T;
+};
+
+export default function CrisisRotaPanel({ canEdit = false }: CrisisRotaPanelProps) {
+  const [rota, setRota] = useState<RotaData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showShiftForm, setShowShiftForm] = useState(false);
+  const [newShift, setNewShift] = useState({ counselorId: '', role: 'primary' as ShiftRole, startsAt: '', endsAt: '' });
+
+  const loadRota = useCallback(async () => {
+    try {
+      const { data } = await requestJson('/api/crisis/rota?hours=48');
+      setRota({
+        counselors: data.counselors,
+        shifts: data.shifts.map((shift: any) => toDates(shift, ['startsAt', 'endsAt'])),
+        slots: data.coverage.slots.map((slot: any) => toDates(slot, ['hourStart'])),
+        gaps: data.coverage.gaps.map((gap: any) => toDates(gap, ['start', 'end'])),
+        onDuty: data.onDuty,
+        onCall: data.onCall.map((shift: any) => toDates(shift, ['startsAt', 'endsAt'])),
+        rotaInUse: data.rotaInUse,
+        pages: data.pages.map((page: any) => toDates(page, ['sentAt', 'acknowledgedAt'])),
+        myPendingPages: data.myPendingPages.map((page: any) => toDates(page, ['sentAt']))
+      });
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching crisis rota:', err);
+      setError('Failed to load the rota');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRota();
+    const interval = setInterval(loadRota, 30000);
+    return () => clearInterval(interval);
+  }, [loadRota]);
+
+  const handleAcknowledgePage = async (pageId: string) => {
+    try {
+      await requestJson('/api/crisis/rota/pages', {
+        method: 'PATCH',
+        body: JSON.stringify({ pageId })
+      });
+      await loadRota();
+    } catch (err) {
+      console.error('Error acknowledging page:', err);
+      setError('Failed to acknowledge page');
+    }
+  };
+
+  const handleAddShift = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await requestJson('/api/crisis/rota', {
+        method: 'POST',
+        body: JSON.stringify({
+          shifts: [{
+            counselorId: newShift.counselorId,
+            role: newShift.role,
+            startsAt: new Date(newShift.startsAt).toISOString(),
+            endsAt: new Date(newShift.endsAt).toISOString()
+          }]
+        })
+      });
+      setShowShiftForm(false);
+      setNewShift({ counselorId: '', role: 'primary', startsAt: '', endsAt: '' });
+      await loadRota();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add shift');
+    }
+  };
+
+  const handleDeleteShift = async (shiftId: string) => {
+    try {
+      await requestJson(`/api/crisis/rota?id=${encodeURIComponent(shiftId)}`, { method: 'DELETE' });
+      await loadRota();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove shift');
+    }
+  };
+
+  if (!rota) {
+    return (
+      <div className="text-center py-12 text-gray-600">
+        {error || 'Loading rota...'}
+      </div>
+    );
+  }
+
+  const nameOf = (counselorId: string) => rota.counselors[counselorId] || counselorId;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-100 border border-red-300 rounded-lg p-3 text-sm text-red-800">{error}</div>
+      )}
+
+      {/* Pages waiting for this counselor */}
+      {rota.myPendingPages.map(page => (
+        <div key={page.id} className="bg-red-100 border border-red-300 rounded-lg p-4 flex items-center gap-3">
+          <BellAlertIcon className="h-6 w-6 text-red-600" />
+          <div className="flex-1">
+            <h3 className="font-medium text-red-800">You have been paged</h3>
+            <p className="text-sm text-red-700">{page.reasons.join('. ')}</p>
+          </div>
+          <button
+            onClick={() => handleAcknowledgePage(page.id)}
+            className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+          >
+            Acknowledge
+          </button>
+        </div>
+      ))}
+
+      {/* On duty now */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-3">
+            <UserGroupIcon className="h-5 w-5 text-blue-600" />
+            On Duty Now
+          </h3>
+          {!rota.rotaInUse ? (
+            <p className="text-sm text-yellow-700 bg-yellow-50 rounded p-3">
+              No shift covers the current time, so every counselor who is online is taking alerts.
+            </p>
+          ) : rota.onDuty.length > 0 ? (
+            <ul className="space-y-1 text-sm text-gray-700">
+              {rota.onDuty.map(counselorId => <li key={counselorId}>{nameOf(counselorId)}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm text-red-700">Nobody on duty has come online yet.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-3">
+            <PhoneIcon className="h-5 w-5 text-purple-600" />
+            On Call
+          </h3>
+          {rota.onCall.length > 0 ? (
+            <ul className="space-y-1 text-sm text-gray-700">
+              {rota.onCall.map(shift => (
+                <li key={shift.id}>
+                  {nameOf(shift.counselorId)} until {format(shift.endsAt, 'EEE HH:mm')}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">Nobody is on call.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Coverage against forecast */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <CalendarIcon className="h-5 w-5 text-green-600" />
+          Coverage, Next 48 Hours
+        </h3>
+        <div className="flex gap-px">
+          {rota.slots.map(slot => (
+            <div
+              key={slot.hourStart.toISOString()}
+              className={`flex-1 h-8 ${slotColors[slot.status]}`}
+              title={`${format(slot.hourStart, 'EEE HH:mm')}: ${slot.scheduledCounselors.length} of ${slot.requiredCounselors} scheduled, ~${slot.expected} alerts forecast`}
+            />
+          ))}
+        </div>
+        {rota.gaps.length > 0 ? (
+          <ul className="mt-4 space-y-2">
+            {rota.gaps.map(gap => (
+              <li key={gap.start.toISOString()} className="flex items-center gap-2 text-sm">
+                <ExclamationTriangleIcon className={`h-4 w-4 ${gap.status === 'uncovered' ? 'text-red-600' : 'text-yellow-600'}`} />
+                <span className="text-gray-900">
+                  {format(gap.start, 'EEE HH:mm')} - {format(gap.end, 'HH:mm')}
+                </span>
+                <span className="text-gray-600">
+                  {gap.status === 'uncovered' ? 'Nobody scheduled' : `${gap.shortfall} counselor${gap.shortfall === 1 ? '' : 's'} short`}
+                  {!gap.hasOnCall && ', no on-call backup'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-4 text-sm text-green-700">The rota covers forecast demand.</p>
+        )}
+      </div>
+
+      {/* Shifts */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Shifts</h3>
+          {canEdit && (
+            <button
+              onClick={() => setShowShiftForm(!showShiftForm)}
+              className="inline-flex items-center gap-1 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add Shift
+            </button>
+          )}
+        </div>
+        {showShiftForm && (
+          <form onSubmit={handleAddShift} className="p-4 grid grid-cols-1 md:grid-cols-5 gap-3 border-b border-gray-200">
+            <input
+              required
+              value={newShift.counselorId}
+              onChange={(e) => setNewShift({ ...newShift, counselorId: e.target.value })}
+              placeholder="Counselor ID"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <select
+              value={newShift.role}
+              onChange={(e) => setNewShift({ ...newShift, role: e.target.value as ShiftRole })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="primary">Primary</option>
+              <option value="on_call">On call</option>
+            </select>
+            <input
+              required
+              type="datetime-local"
+              value={newShift.startsAt}
+              onChange={(e) => setNewShift({ ...newShift, startsAt: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              required
+              type="datetime-local"
+              value={newShift.endsAt}
+              onChange={(e) => setNewShift({ ...newShift, endsAt: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button type="submit" className="px-3 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-gray-800">
+              Save
+            </button>
+          </form>
+        )}
+        <div className="divide-y divide-gray-200">
+          {rota.shifts.length > 0 ? rota.shifts.map(shift => (
+            <div key={shift.id} className="px-4 py-3 flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{nameOf(shift.counselorId)}</span>
+                <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                  shift.role === 'on_call' ? 'bg-purple-50 text-purple-700' : 'bg-blue-50 text-blue-700'
+                }`}>
+                  {roleLabels[shift.role]}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 text-gray-600">
+                {format(shift.startsAt, 'EEE d MMM HH:mm')} - {format(shift.endsAt, 'HH:mm')}
+                {canEdit && (
+                  <button
+                    onClick={() => handleDeleteShift(shift.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove shift"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          )) : (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No shifts scheduled in the next 48 hours.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Recent pages */}
+      {rota.pages.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">On-call Pages, Last 24 Hours</h3>
+          <ul className="space-y-2 text-sm">
+            {rota.pages.map(page => (
+              <li key={page.id} className="flex items-center justify-between">
+                <span className="text-gray-900">
+                  {format(page.sentAt, 'HH:mm')} {nameOf(page.counselorId)}: {page.reasons.join('. ')}
+                </span>
+                <span className={page.acknowledgedAt ? 'text-green-700' : 'text-red-700'}>
+                  {page.acknowledgedAt ? `Answered ${format(page.acknowledgedAt, 'HH:mm')}` : 'Unanswered'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
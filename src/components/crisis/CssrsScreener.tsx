@@ -0,0 +1,249 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  ClipboardDocumentListIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { nextQuestion, PERIOD_LABELS } from '@/lib/crisis-screening/cssrs';
+import { CssrsAnswers, CssrsResult, CssrsRisk, CssrsVersion } from '@/lib/crisis-screening/types';
+
+export interface ScreeningRecord {
+  id: string;
+  risk: CssrsRisk;
+  alertId: string | null;
+  createdAt: Date;
+}
+
+interface CssrsScreenerProps {
+  reportId: string;
+  clientName: string;
+  onClose: () => void;
+  onRecorded?: (screening: ScreeningRecord) => void;
+}
+
+const versionLabels: Record<CssrsVersion, string> = {
+  screener: 'Screen Version (past month)',
+  lifetime_recent: 'Lifetime/Recent'
+};
+
+const riskColors: Record<CssrsRisk, string> = {
+  high: 'bg-red-100 text-red-800 border-red-300',
+  moderate: 'bg-orange-100 text-orange-800 border-orange-300',
+  low: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  none: 'bg-green-100 text-green-800 border-green-300'
+};
+
+const riskLabels: Record<CssrsRisk, string> = {
+  high: 'High risk',
+  moderate: 'Moderate risk',
+  low: 'Low risk',
+  none: 'No risk identified'
+};
+
+const requestJson = async (url: string, options: RequestInit = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `API call failed: ${response.statusText}`);
+  }
+
+  return body;
+};
+
+export default function CssrsScreener({ reportId, clientName, onClose, onRecorded }: CssrsScreenerProps) {
+  const [version, setVersion] = useState<CssrsVersion | null>(null);
+  // Question ids in the order answered, so the counselor can step back
+  const [asked, setAsked] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<CssrsAnswers>({});
+  const [result, setResult] = useState<CssrsResult | null>(null);
+  const [alertRaised, setAlertRaised] = useState(false);
+  const [alertUnavailable, setAlertUnavailable] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const question = version ? nextQuestion(version, answers) : null;
+
+  const handleAnswer = (answer: boolean) => {
+    if (!question) return;
+    setAsked(prev => [...prev, question.id]);
+    setAnswers(prev => ({ ...prev, [question.id]: answer }));
+  };
+
+  const handleBack = () => {
+    const last = asked[asked.length - 1];
+    if (!last) {
+      setVersion(null);
+      return;
+    }
+    setAsked(prev => prev.slice(0, -1));
+    setAnswers(prev => {
+      const { [last]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!version) return;
+    setIsSubmitting(true);
+    try {
+      const { data } = await requestJson('/api/crisis/screenings', {
+        method: 'POST',
+        body: JSON.stringify({ version, answers, reportId })
+      });
+      setResult(data.result);
+      setAlertRaised(Boolean(data.alertId));
+      setAlertUnavailable(Boolean(data.alertUnavailable));
+      setError(null);
+      onRecorded?.({ id: data.id, risk: data.risk, alertId: data.alertId, createdAt: new Date(data.createdAt) });
+    } catch (err) {
+      console.error('Error recording screening:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record screening');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <ClipboardDocumentListIcon className="h-5 w-5 text-blue-600" />
+            C-SSRS: {clientName}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700" title="Close">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-100 border border-red-300 rounded-lg p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          {/* Choose the version */}
+          {!version && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Ask each question as written. Follow-up questions appear only when the answers call for them.
+              </p>
+              {(Object.keys(versionLabels) as CssrsVersion[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setVersion(option)}
+                  className="w-full text-left px-4 py-3 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300"
+                >
+                  {versionLabels[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* One question at a time */}
+          {version && question && (
+            <div className="space-y-4">
+              <div className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                Question {question.item} &middot; {PERIOD_LABELS[question.period]}
+              </div>
+              <p className="text-lg text-gray-900">{question.text}</p>
+              <p className="text-sm text-gray-500">&ldquo;Yes&rdquo; means: {question.construct.toLowerCase()}</p>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => handleAnswer(true)}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                >
+                  Yes
+                </button>
+                <button
+                  onClick={() => handleAnswer(false)}
+                  className="flex-1 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+                >
+                  No
+                </button>
+              </div>
+              <button onClick={handleBack} className="text-sm text-gray-600 hover:text-gray-800 flex items-center gap-1">
+                <ArrowUturnLeftIcon className="h-4 w-4" />
+                Back
+              </button>
+            </div>
+          )}
+
+          {/* All applicable questions answered */}
+          {version && !question && !result && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700">
+                All questions answered. Record the screen to score it and add it to the client&apos;s record.
+              </p>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Recording...' : 'Record screen'}
+                </button>
+                <button onClick={handleBack} disabled={isSubmitting} className="text-sm text-gray-600 hover:text-gray-800">
+                  Change last answer
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Scored result */}
+          {result && (
+            <div className="space-y-4">
+              <div className={`border rounded-lg p-4 ${riskColors[result.risk]}`}>
+                <h3 className="font-semibold">{riskLabels[result.risk]}</h3>
+                {result.reasons.length > 0 && (
+                  <ul className="mt-2 text-sm space-y-1">
+                    {result.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              {alertRaised && (
+                <div className="bg-red-50 border border-red-300 rounded-lg p-3 text-sm text-red-800 flex items-center gap-2">
+                  <ExclamationTriangleIcon className="h-5 w-5" />
+                  A crisis alert has been raised. Stay with the person.
+                </div>
+              )}
+
+              {alertUnavailable && (
+                <div className="bg-red-50 border border-red-300 rounded-lg p-3 text-sm text-red-800 flex items-center gap-2">
+                  <ExclamationTriangleIcon className="h-5 w-5" />
+                  No crisis alert could be raised because this client has no account. Escalate to a supervisor now and stay with the person.
+                </div>
+              )}
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-1">Recommended Actions:</p>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {result.recommendedActions.map(action => (
+                    <li key={action} className="flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
+                      {action}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <button onClick={onClose} className="px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200">
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -108,6 +108,21 @@ interface TherapistStats {
   insuranceClaims: number;
 }
 
+interface OutcomeAlert {
+  clientId: string;
+  clientName?: string;
+  instrument: string;
+  instrumentName: string;
+  reason: 'reliable_deterioration' | 'worsening_since_last' | 'no_reliable_improvement';
+  severity: 'medium' | 'high';
+  message: string;
+  baselineScore: number;
+  latestScore: number;
+  change: number;
+  reliableChangeIndex: number | null;
+  latestAt: Date | string;
+}
+
 interface TherapistDashboardProps {
   className?: string;
 }
@@ -262,6 +277,7 @@ export default function TherapistDashboard({ className = "" }: TherapistDashboar
     pendingNotes: 0,
     insuranceClaims: 0
   });
+  const [outcomeAlerts, setOutcomeAlerts] = useState<OutcomeAlert[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'clients' | 'sessions' | 'notes' | 'billing'>('overview');
@@ -321,6 +337,13 @@ export default function TherapistDashboard({ className = "" }: TherapistDashboar
           });
         }
 
+        // Fetch measurement-based care alerts
+        const alertsResponse = await fetch('/api/therapy/assessments/alerts');
+        if (alertsResponse.ok) {
+          const alertsData = await alertsResponse.json();
+          setOutcomeAlerts(alertsData.data?.alerts || []);
+        }
+
       } catch (err) {
         console.error('Error fetching data:', err);
         setError('Failed to load dashboard data. Please refresh the page.');
@@ -596,6 +619,42 @@ export default function TherapistDashboard({ className = "" }: TherapistDashboar
             </div>
           )}
 
+          {/* Not On Track Alerts */}
+          {outcomeAlerts.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Not On Track</h3>
+                <span className="text-sm text-gray-500">Reliable change on standardized measures</span>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {outcomeAlerts.map(alert => (
+                  <div key={`${alert.clientId}-${alert.instrument}`} className="px-6 py-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <ArrowTrendingUpIcon className={`w-5 h-5 ${alert.severity === 'high' ? 'text-red-600' : 'text-orange-500'}`} />
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-900">{alert.clientName || 'Client'}</h4>
+                          <p className="text-sm text-gray-500">{alert.message}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm text-gray-600">
+                          {alert.baselineScore} → {alert.latestScore}
+                        </span>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          alert.severity === 'high' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'
+                        }`}>
+                          {alert.instrument.toUpperCase()}
+                        </span>
+                        <span className="text-xs text-gray-400">{format(new Date(alert.latestAt), 'MMM dd')}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quick Insights */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
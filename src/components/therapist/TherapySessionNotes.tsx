@@ -17,7 +17,8 @@ import {
   CheckIcon,
   XMarkIcon,
   DocumentArrowDownIcon,
-  PrinterIcon
+  PrinterIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 
@@ -45,6 +46,23 @@ interface SessionNote {
   isTemplate: boolean;
   tags: string[];
   attachments: { id: string; name: string; type: string; }[];
+  template?: 'soap' | 'dap' | 'birp' | 'intake' | 'discharge';
+  status: 'draft' | 'pending_cosign' | 'signed';
+  dueAt?: Date;
+  signedBy?: string;
+  signedAt?: Date;
+  cosignedBy?: string;
+  cosignedAt?: Date;
+  addenda: SessionNoteAddendum[];
+}
+
+interface SessionNoteAddendum {
+  id: string;
+  kind: 'addendum' | 'late_entry' | 'correction';
+  reason?: string;
+  content: string;
+  signedBy: string;
+  signedAt: Date;
 }
 
 interface TherapySessionNotesProps {
@@ -75,7 +93,23 @@ const mockSessionNotes: SessionNote[] = [
     lastModified: new Date('2024-01-15T15:30:00'),
     isTemplate: false,
     tags: ['anxiety', 'CBT', 'progress'],
-    attachments: []
+    attachments: [],
+    template: 'soap',
+    status: 'signed',
+    signedBy: 'Dr. Emily Chen',
+    signedAt: new Date('2024-01-15T15:30:00'),
+    cosignedBy: 'Dr. Robert Hayes',
+    cosignedAt: new Date('2024-01-16T09:10:00'),
+    addenda: [
+      {
+        id: 'ad001',
+        kind: 'late_entry',
+        reason: 'Information received from primary care after the note was signed',
+        content: 'PCP confirmed sertraline dose increased to 100mg on 2024-01-10.',
+        signedBy: 'Dr. Emily Chen',
+        signedAt: new Date('2024-01-17T11:00:00')
+      }
+    ]
   },
   {
     id: 'sn002',
@@ -100,7 +134,12 @@ const mockSessionNotes: SessionNote[] = [
     lastModified: new Date('2024-01-14T11:15:00'),
     isTemplate: false,
     tags: ['PTSD', 'EMDR', 'trauma'],
-    attachments: [{ id: 'att001', name: 'EMDR_Protocol_Notes.pdf', type: 'pdf' }]
+    attachments: [{ id: 'att001', name: 'EMDR_Protocol_Notes.pdf', type: 'pdf' }],
+    template: 'birp',
+    status: 'pending_cosign',
+    signedBy: 'Dr. Emily Chen',
+    signedAt: new Date('2024-01-14T11:15:00'),
+    addenda: []
   },
   {
     id: 'sn003',
@@ -125,7 +164,11 @@ const mockSessionNotes: SessionNote[] = [
     lastModified: new Date('2024-01-13T17:30:00'),
     isTemplate: false,
     tags: ['family therapy', 'adolescent', 'communication'],
-    attachments: []
+    attachments: [],
+    template: 'dap',
+    status: 'draft',
+    dueAt: new Date('2024-01-16T16:00:00'),
+    addenda: []
   }
 ];
 
@@ -145,6 +188,18 @@ const treatmentModalityOptions = [
   { value: 'integrated', label: 'Integrated Approach' }
 ];
 
+const noteStatusLabels: Record<SessionNote['status'], string> = {
+  draft: 'Draft',
+  pending_cosign: 'Awaiting co-signature',
+  signed: 'Signed'
+};
+
+const addendumKindLabels: Record<SessionNoteAddendum['kind'], string> = {
+  addendum: 'Addendum',
+  late_entry: 'Late entry',
+  correction: 'Correction'
+};
+
 const insuranceCodeOptions = [
   { code: '90834', description: '45-minute psychotherapy' },
   { code: '90837', description: '60-minute psychotherapy' },
@@ -220,7 +275,11 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
     setShowCreateModal(true);
   };
 
+  // Signed notes are locked; changes are made through addenda
+  const isLocked = (note: SessionNote) => note.status !== 'draft';
+
   const handleEditNote = (note: SessionNote) => {
+    if (isLocked(note)) return;
     setEditingNote(note);
     setShowCreateModal(true);
   };
@@ -243,6 +302,14 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
     }
   };
 
+  const getStatusColor = (status: SessionNote['status'], dueAt?: Date) => {
+    switch (status) {
+      case 'signed': return 'text-green-700 bg-green-50';
+      case 'pending_cosign': return 'text-purple-700 bg-purple-50';
+      default: return dueAt && dueAt < new Date() ? 'text-red-700 bg-red-50' : 'text-gray-700 bg-gray-100';
+    }
+  };
+
   const getSessionTypeIcon = (type: string) => {
     switch (type) {
       case 'individual': return UserIcon;
@@ -385,6 +452,14 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
                         <span className={`px-2 py-1 text-xs font-medium rounded-full ${getRiskColor(note.riskAssessment)}`}>
                           {note.riskAssessment} risk
                         </span>
+                        <span className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(note.status, note.dueAt)}`}>
+                          {isLocked(note) && <LockClosedIcon className="h-3 w-3" />}
+                          {noteStatusLabels[note.status]}
+                          {note.status === 'draft' && note.dueAt && ` • due ${format(note.dueAt, 'MMM d')}`}
+                        </span>
+                        {note.template && (
+                          <span className="text-xs uppercase text-gray-500">{note.template}</span>
+                        )}
                         {note.supervisorReview && (
                           <CheckIcon className="h-4 w-4 text-green-500" title="Supervisor Reviewed" />
                         )}
@@ -438,15 +513,17 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
                     </div>
 
                     <div className="flex items-start gap-2 ml-4">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleEditNote(note);
-                        }}
-                        className="p-1 text-gray-400 hover:text-indigo-600 transition-colors"
-                      >
-                        <PencilIcon className="h-4 w-4" />
-                      </button>
+                      {!isLocked(note) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleEditNote(note);
+                          }}
+                          className="p-1 text-gray-400 hover:text-indigo-600 transition-colors"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                      )}
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -456,17 +533,19 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
                       >
                         <PrinterIcon className="h-4 w-4" />
                       </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (confirm('Are you sure you want to delete this session note?')) {
-                            handleDeleteNote(note.id);
-                          }
-                        }}
-                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                      </button>
+                      {!isLocked(note) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (confirm('Are you sure you want to delete this session note?')) {
+                              handleDeleteNote(note.id);
+                            }
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </motion.div>
@@ -629,6 +708,53 @@ export default function TherapySessionNotes({ className = "" }: TherapySessionNo
                   </div>
                 )}
 
+                {/* Signatures */}
+                <div className="p-4 border border-gray-200 rounded-lg text-sm">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center gap-2">
+                    {isLocked(selectedNote) && <LockClosedIcon className="h-5 w-5 text-gray-500" />}
+                    {noteStatusLabels[selectedNote.status]}
+                  </h3>
+                  {selectedNote.signedAt ? (
+                    <p className="text-gray-700">
+                      Signed by {selectedNote.signedBy} on {format(selectedNote.signedAt, 'PPP p')}
+                    </p>
+                  ) : (
+                    <p className="text-gray-700">
+                      Not yet signed{selectedNote.dueAt && ` — due ${format(selectedNote.dueAt, 'PPP p')}`}
+                    </p>
+                  )}
+                  {selectedNote.cosignedAt && (
+                    <p className="text-gray-700">
+                      Co-signed by {selectedNote.cosignedBy} on {format(selectedNote.cosignedAt, 'PPP p')}
+                    </p>
+                  )}
+                  {isLocked(selectedNote) && (
+                    <p className="text-gray-500 mt-2">
+                      This note is locked. Further information can only be added as a signed addendum.
+                    </p>
+                  )}
+                </div>
+
+                {/* Addenda */}
+                {selectedNote.addenda.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">Addenda</h3>
+                    <div className="space-y-3">
+                      {selectedNote.addenda.map(addendum => (
+                        <div key={addendum.id} className="p-3 border-l-4 border-indigo-300 bg-indigo-50 rounded">
+                          <p className="text-sm font-medium text-indigo-900">
+                            {addendumKindLabels[addendum.kind]} — {addendum.signedBy}, {format(addendum.signedAt, 'PPP p')}
+                          </p>
+                          {addendum.reason && (
+                            <p className="text-sm text-indigo-800 italic">Reason: {addendum.reason}</p>
+                          )}
+                          <p className="text-gray-700 mt-1 whitespace-pre-wrap">{addendum.content}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Footer */}
                 <div className="border-t border-gray-200 pt-4 text-sm text-gray-500">
                   <div className="flex justify-between">
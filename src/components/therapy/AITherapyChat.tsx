@@ -30,6 +30,7 @@ import {
   Share2,
   Bookmark
 } from 'lucide-react';
+import { useAITherapy } from '@/hooks/useAITherapy';
 
 interface Message {
   id: string;
@@ -73,6 +74,7 @@ export default function AITherapyChat({ className = "", sessionId }: AITherapyCh
   const [sessionTags, setSessionTags] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [isMinimized, setIsMinimized] = useState(false);
+  const { sendMessage } = useAITherapy();
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -125,45 +127,32 @@ export default function AITherapyChat({ className = "", sessionId }: AITherapyCh
     scrollToBottom();
   }, [messages]);
 
-  const simulateAIResponse = async (userMessage: string): Promise<Message> => {
-    // Simulate AI processing delay
-    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-    
-    // Simple keyword-based responses (in production, this would be a sophisticated AI model)
-    let response = "";
+  // Keyword-based topic tags, suggestions and exercises shown alongside the AI reply
+  const getTopicGuidance = (userMessage: string): Pick<Message, 'type' | 'metadata'> => {
     let type: Message['type'] = 'text';
     const metadata: Message['metadata'] = {};
     
     const lowerMessage = userMessage.toLowerCase();
     
     if (lowerMessage.includes('anxious') || lowerMessage.includes('anxiety')) {
-      response = "I hear that you're feeling anxious. Anxiety is a very common experience, and it's completely understandable. Can you tell me more about what's been triggering these anxious feelings? Sometimes just talking about what's on your mind can help provide clarity and relief.";
       metadata.tags = ['anxiety', 'emotions'];
       metadata.suggestions = ['Try the 5-4-3-2-1 grounding technique', 'Practice deep breathing', 'Consider what specific thoughts are creating anxiety'];
     } else if (lowerMessage.includes('sad') || lowerMessage.includes('depressed') || lowerMessage.includes('down')) {
-      response = "Thank you for sharing how you're feeling. Sadness is a natural human emotion, and it's important that you're acknowledging it rather than pushing it away. Would you like to explore what might be contributing to these feelings? Sometimes there are specific events or thoughts that influence our mood.";
       metadata.tags = ['depression', 'sadness', 'emotions'];
       metadata.suggestions = ['Reflect on recent events or changes', 'Consider your self-talk patterns', 'Think about activities that usually bring you joy'];
     } else if (lowerMessage.includes('work') || lowerMessage.includes('job')) {
-      response = "Work-related stress is incredibly common. Many people struggle to find balance between their professional responsibilities and personal well-being. What specifically about work is feeling challenging right now? Is it the workload, relationships with colleagues, or something else?";
       metadata.tags = ['work', 'stress'];
     } else if (lowerMessage.includes('sleep') || lowerMessage.includes('tired')) {
-      response = "Sleep issues can significantly impact our mental health and daily functioning. When we don't get quality rest, everything feels more difficult to manage. Have you noticed any patterns in your sleep difficulties? What does your bedtime routine typically look like?";
       metadata.tags = ['sleep', 'wellness'];
       metadata.suggestions = ['Review your bedtime routine', 'Consider screen time before bed', 'Try progressive muscle relaxation'];
     } else if (lowerMessage.includes('relationship') || lowerMessage.includes('family') || lowerMessage.includes('friend')) {
-      response = "Relationships are such an important part of our lives, and they can be sources of both joy and stress. It takes courage to examine our connections with others. What's been on your mind about your relationships? Are there specific dynamics or interactions that you'd like to explore?";
       metadata.tags = ['relationships', 'social'];
     } else if (lowerMessage.includes('overwhelmed') || lowerMessage.includes('stress')) {
-      response = "Feeling overwhelmed is a signal that there's a lot on your plate right now. It's your mind and body's way of telling you that you need some support or perhaps a different approach to managing everything. Let's break this down - what are the main things that are feeling overwhelming right now?";
       metadata.tags = ['stress', 'overwhelm'];
       metadata.suggestions = ['List your current priorities', 'Identify what you can control vs. cannot control', 'Consider which tasks can be delegated or postponed'];
     } else if (lowerMessage.includes('motivation') || lowerMessage.includes('unmotivated')) {
-      response = "Lack of motivation is something many people experience, especially during difficult periods. It's not a personal failing - sometimes our emotional state affects our drive to do things. What activities or goals are you finding it hard to feel motivated about? Understanding this can help us find ways to reconnect with your sense of purpose.";
       metadata.tags = ['motivation', 'goals'];
     } else {
-      // General supportive response
-      response = "I appreciate you sharing that with me. It sounds like there's a lot on your mind. Can you help me understand more about what you're experiencing? I'm here to listen and support you through whatever you're going through. Your feelings and experiences are valid, and we can work through this together.";
       metadata.tags = ['general', 'support'];
     }
 
@@ -178,18 +167,10 @@ export default function AITherapyChat({ className = "", sessionId }: AITherapyCh
       if (relevantExercises.length > 0) {
         type = 'exercise';
         metadata.exercises = relevantExercises.slice(0, 2);
-        response += `\n\nWould you like to try a brief exercise that might help? I can guide you through ${relevantExercises[0].title.toLowerCase()}.`;
       }
     }
 
-    return {
-      id: Date.now().toString(),
-      content: response,
-      sender: 'ai',
-      timestamp: new Date(),
-      type,
-      metadata
-    };
+    return { type, metadata };
   };
 
   const handleSendMessage = async () => {
@@ -207,23 +188,56 @@ export default function AITherapyChat({ className = "", sessionId }: AITherapyCh
     setInputMessage('');
     setIsTyping(true);
     
+    // The reply is streamed into a placeholder message as it arrives
+    const replyId = `${userMessage.id}_reply`;
+    const updateReply = (update: (message: Message) => Message) => {
+      setMessages(prev => {
+        const existing = prev.find(m => m.id === replyId);
+        const base: Message = existing || { id: replyId, content: '', sender: 'ai', timestamp: new Date(), type: 'text' };
+        const next = update(base);
+        return existing ? prev.map(m => (m.id === replyId ? next : m)) : [...prev, next];
+      });
+    };
+    
     try {
-      const aiResponse = await simulateAIResponse(inputMessage);
-      setMessages(prev => [...prev, aiResponse]);
+      const reply = await sendMessage(userMessage.content, {
+        conversationHistory: messages.map(m => ({
+          role: m.sender === 'user' ? 'user' as const : 'assistant' as const,
+          content: m.content
+        })),
+        onDelta: delta => {
+          setIsTyping(false);
+          updateReply(m => ({ ...m, content: m.content + delta }));
+        },
+        onReplace: replacement => {
+          setIsTyping(false);
+          updateReply(m => ({ ...m, content: replacement, type: 'crisis' }));
+        }
+      });
+      if (!reply) throw new Error('No reply received');
+      
+      // Safety notices for blocked or rewritten turns are shown with the reply
+      const guidance = getTopicGuidance(userMessage.content);
+      const blocked = reply.safety?.action === 'blocked' || reply.riskLevel === 'critical';
+      const notice = reply.safety && reply.safety.action !== 'allowed' ? reply.safety.notice : undefined;
+      updateReply(m => ({
+        ...m,
+        content: notice ? `${reply.response}\n\n${notice}` : reply.response,
+        type: blocked ? 'crisis' : m.type === 'crisis' ? 'crisis' : guidance.type,
+        metadata: blocked ? undefined : guidance.metadata
+      }));
       
       // Update session metadata
-      if (aiResponse.metadata?.tags) {
-        setSessionTags(prev => [...new Set([...prev, ...aiResponse.metadata!.tags!])]);
+      if (!blocked && guidance.metadata?.tags) {
+        setSessionTags(prev => [...new Set([...prev, ...guidance.metadata!.tags!])]);
       }
     } catch (error) {
       console.error('Error getting AI response:', error);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
+      updateReply(m => ({
+        ...m,
         content: "I apologize, but I'm having trouble responding right now. Please try again in a moment.",
-        sender: 'ai',
-        timestamp: new Date(),
         type: 'text'
-      }]);
+      }));
     } finally {
       setIsTyping(false);
     }
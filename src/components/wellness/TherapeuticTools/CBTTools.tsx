@@ -1,11 +1,27 @@
 import React from 'react';
 import { Brain } from 'lucide-react';
+import GuidedExercise from '../../ai/GuidedExercise';
+
+// Tools that run as step-by-step guided exercises, by intervention id
+const GUIDED_EXERCISES: Record<string, string> = {
+  'thought-record': 'cbt_thought_record'
+};
 
 interface CBTToolsProps {
   toolId?: string;
+  onClose?: () => void;
 }
 
-const CBTTools: React.FC<CBTToolsProps> = ({ toolId }: CBTToolsProps) => {
+const CBTTools: React.FC<CBTToolsProps> = ({ toolId, onClose }: CBTToolsProps) => {
+  const interventionId = toolId ? GUIDED_EXERCISES[toolId] : undefined;
+  if (interventionId) {
+    return (
+      <div className="bg-purple-50 dark:bg-purple-900/20 rounded-xl">
+        <GuidedExercise interventionId={interventionId} onClose={() => onClose?.()} />
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 bg-purple-50 dark:bg-purple-900/20 rounded-xl">
       <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
@@ -19,4 +35,4 @@ const CBTTools: React.FC<CBTToolsProps> = ({ toolId }: CBTToolsProps) => {
   );
 };
 
-export default CBTTools;
\ No newline at end of file
+export default CBTTools;
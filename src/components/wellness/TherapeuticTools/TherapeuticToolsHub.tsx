@@ -339,7 +339,7 @@ const TherapeuticToolsHub: React.FC<TherapeuticToolsHubProps> = ({
 
     switch (selectedTool.category) {
       case 'cbt':
-        return <CBTTools toolId={selectedTool.id} />;
+        return <CBTTools toolId={selectedTool.id} onClose={() => setActiveView('grid')} />;
       case 'mindfulness':
         return <MindfulnessCenter toolId={selectedTool.id} />;
       case 'journaling':
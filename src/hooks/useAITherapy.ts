@@ -1,4 +1,6 @@
 import { useState, useCallback } from 'react';
+import type { TurnSafety } from '@/lib/ai/core/TurnSafetyPolicy';
+import { readServerSentEvents } from '@/lib/ai/streaming/ServerSentEvents';
 
 interface AIMetrics {
   responseTime: number;
@@ -12,10 +14,23 @@ interface SendOptions {
   systemPrompt?: string;
   therapistId?: string;
   therapistName?: string;
+  language?: string;
+  consent?: { termsAccepted: boolean; dataProcessing: boolean };
+  // Stream the reply: called with each released piece of text
+  onDelta?: (delta: string) => void;
+  // Called when the safety checks cut the streamed reply off
+  onReplace?: (content: string, safety: TurnSafety) => void;
+}
+
+interface ChatReply {
+  response: string;
+  safety?: TurnSafety;
+  riskLevel?: string;
+  confidence?: number;
 }
 
 interface AITherapyHook {
-  sendMessage: (content: string, options?: SendOptions) => Promise<{ response: string } | null>;
+  sendMessage: (content: string, options?: SendOptions) => Promise<ChatReply | null>;
   isProcessing: boolean;
   sessionId: string;
   connectionStatus: 'connected' | 'connecting' | 'disconnected';
@@ -36,10 +51,12 @@ export function useAITherapy(): AITherapyHook {
     setIsProcessing(true);
     
     try {
+      const stream = !!options?.onDelta;
       const response = await fetch('/api/ai/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(stream ? { Accept: 'text/event-stream' } : {}),
         },
         body: JSON.stringify({
           message: content,
@@ -49,6 +66,9 @@ export function useAITherapy(): AITherapyHook {
           systemPrompt: options?.systemPrompt,
           therapistId: options?.therapistId,
           therapistName: options?.therapistName,
+          language: options?.language,
+          consent: options?.consent,
+          stream,
         })
       });
 
@@ -56,9 +76,28 @@ export function useAITherapy(): AITherapyHook {
         throw new Error('Failed to send message');
       }
 
-      const data = await response.json();
-      const text = data?.data?.response as string | undefined;
-      return text ? { response: text } : null;
+      let result: any = null;
+      if (stream && response.body) {
+        await readServerSentEvents(response.body, ({ event, data }) => {
+          const parsed = JSON.parse(data);
+          if (event === 'delta') options?.onDelta?.(parsed.content);
+          if (event === 'replace') options?.onReplace?.(parsed.content, parsed.safety);
+          if (event === 'done') result = parsed;
+          if (event === 'error') throw new Error(parsed.message || 'Failed to stream message');
+        });
+      } else {
+        result = (await response.json())?.data;
+      }
+
+      const text = result?.response as string | undefined;
+      return text
+        ? {
+            response: text,
+            safety: result.safety,
+            riskLevel: result.riskLevel,
+            confidence: result.confidence,
+          }
+        : null;
     } catch (error) {
       console.error('Error sending message:', error);
       return null;
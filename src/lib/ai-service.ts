@@ -1,7 +1,19 @@
 // AI Service Integration
-// Provides OpenAI and Google Gemini AI capabilities for therapy assistance
+// Provides OpenAI, Google Gemini and self-hosted model capabilities for therapy
+// assistance through a provider registry configured per deployment
 
 import { createApiErrorHandler } from './api-error-handler';
+import { readServerSentEvents } from './ai/streaming/ServerSentEvents';
+import {
+  AIProvider,
+  AIProvidersHealth,
+  DEFAULT_PROVIDER_POLICY,
+  ProviderRegistry,
+  readProviderPolicy,
+} from './ai/providers/ProviderRegistry';
+import { LocalModelProvider, LOCAL_MODEL_POLICY } from './ai/providers/LocalModelProvider';
+import { MockProvider } from './ai/providers/MockProvider';
+import { assessResponseRisk } from './ai/providers/ResponseRisk';
 
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -16,20 +28,56 @@ export interface AIResponse {
   reasoning?: string;
   confidence?: number;
   riskLevel?: 'low' | 'medium' | 'high' | 'critical';
+  // Registry id of the provider that produced the response
+  provider?: string;
 }
 
 export interface AIConfig {
-  provider: 'openai' | 'gemini';
+  // Preferred provider id; the registry's default order when omitted
+  provider?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
 }
 
+export interface AIStreamOptions {
+  onDelta: (delta: string) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a compassionate AI therapy assistant focused on mental health support.';
+
+const THERAPY_SYSTEM_PROMPT = `You are a compassionate and professional AI therapy assistant. Your role is to:
+
+1. Provide emotional support and active listening
+2. Ask thoughtful, open-ended questions to help users explore their feelings
+3. Suggest healthy coping strategies and mental health techniques
+4. Recognize crisis situations and gently guide users to appropriate resources
+5. Maintain appropriate boundaries as an AI assistant, not a licensed therapist
+
+Important guidelines:
+- Always prioritize user safety and well-being
+- Be empathetic, non-judgmental, and validating
+- If you detect signs of severe distress or self-harm, recommend professional help
+- Do not diagnose mental health conditions
+- Encourage users to seek professional help when appropriate
+- Use person-first language and avoid stigmatizing terms
+
+Respond in a warm, supportive tone that makes the user feel heard and understood.`;
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
 /**
  * OpenAI GPT Integration
  */
-export class OpenAIService {
+export class OpenAIService implements AIProvider {
+  readonly id = 'openai';
+  readonly name = 'OpenAI';
+  readonly kind = 'cloud' as const;
+  readonly external = true;
   private apiKey: string;
   private baseUrl = 'https://api.openai.com/v1';
 
@@ -40,9 +88,14 @@ export class OpenAIService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
   async generateResponse(
     messages: AIMessage[],
-    config: Partial<AIConfig> = {}
+    config: Partial<AIConfig> = {},
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     if (!this.apiKey) {
       throw new Error('OpenAI API key not configured');
@@ -52,7 +105,7 @@ export class OpenAIService {
       model = 'gpt-4',
       temperature = 0.7,
       maxTokens = 1000,
-      systemPrompt = 'You are a compassionate AI therapy assistant focused on mental health support.'
+      systemPrompt = DEFAULT_SYSTEM_PROMPT
     } = config;
 
     try {
@@ -74,6 +127,7 @@ export class OpenAIService {
           max_tokens: maxTokens,
           stream: false,
         }),
+        signal,
       });
 
       if (!response.ok) {
@@ -84,7 +138,7 @@ export class OpenAIService {
       const content = data.choices[0]?.message?.content || '';
 
       // Analyze response for mental health risk indicators
-      const riskLevel = this.assessMentalHealthRisk(content);
+      const riskLevel = assessResponseRisk(content);
 
       return {
         content,
@@ -95,43 +149,80 @@ export class OpenAIService {
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('OpenAI API error:', error);
       throw createApiErrorHandler('AI_SERVICE_ERROR', `Failed to generate AI response: ${error}`);
     }
   }
 
   /**
-   * Assess mental health risk level from AI response
+   * Stream a response token by token; resolves with the complete response
    */
-  private assessMentalHealthRisk(content: string): 'low' | 'medium' | 'high' | 'critical' {
-    const criticalKeywords = [
-      'suicide', 'kill myself', 'end it all', 'not worth living',
-      'better off dead', 'suicide plan', 'hurt myself'
-    ];
-    
-    const highKeywords = [
-      'hopeless', 'worthless', 'can\'t go on', 'severe depression',
-      'panic attack', 'self-harm', 'cutting', 'overdose'
-    ];
-    
-    const mediumKeywords = [
-      'anxious', 'depressed', 'stressed', 'overwhelmed',
-      'panic', 'anxiety', 'sad', 'down', 'worried'
-    ];
+  async streamResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
 
-    const lowerContent = content.toLowerCase();
+    const {
+      model = 'gpt-4',
+      temperature = 0.7,
+      maxTokens = 1000,
+      systemPrompt = DEFAULT_SYSTEM_PROMPT
+    } = config;
 
-    if (criticalKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'critical';
-    }
-    if (highKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'high';
-    }
-    if (mediumKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'medium';
-    }
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'system', content: systemPrompt }, ...messages],
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+        }),
+        signal: options.signal,
+      });
 
-    return 'low';
+      if (!response.ok || !response.body) {
+        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+      }
+
+      let content = '';
+      let finishReason: string | undefined;
+
+      await readServerSentEvents(response.body, async ({ data }) => {
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+        if (delta) {
+          content += delta;
+          await options.onDelta(delta);
+        }
+      });
+
+      return {
+        content,
+        model,
+        confidence: this.calculateConfidence({
+          choices: [{ message: { content }, finish_reason: finishReason }]
+        }),
+        riskLevel: assessResponseRisk(content),
+      };
+
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('OpenAI streaming error:', error);
+      throw createApiErrorHandler('AI_SERVICE_ERROR', `Failed to stream AI response: ${error}`);
+    }
   }
 
   private calculateConfidence(data: any): number {
@@ -151,7 +242,11 @@ export class OpenAIService {
 /**
  * Google Gemini Integration
  */
-export class GeminiService {
+export class GeminiService implements AIProvider {
+  readonly id = 'gemini';
+  readonly name = 'Google Gemini';
+  readonly kind = 'cloud' as const;
+  readonly external = true;
   private apiKey: string;
   private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
 
@@ -162,9 +257,14 @@ export class GeminiService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
   async generateResponse(
     messages: AIMessage[],
-    config: Partial<AIConfig> = {}
+    config: Partial<AIConfig> = {},
+    signal?: AbortSignal
   ): Promise<AIResponse> {
     if (!this.apiKey) {
       throw new Error('Gemini API key not configured');
@@ -174,7 +274,7 @@ export class GeminiService {
       model = 'gemini-pro',
       temperature = 0.7,
       maxTokens = 1000,
-      systemPrompt = 'You are a compassionate AI therapy assistant focused on mental health support.'
+      systemPrompt = DEFAULT_SYSTEM_PROMPT
     } = config;
 
     try {
@@ -196,25 +296,9 @@ export class GeminiService {
               topP: 0.8,
               topK: 10,
             },
-            safetySettings: [
-              {
-                category: 'HARM_CATEGORY_HARASSMENT',
-                threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-              },
-              {
-                category: 'HARM_CATEGORY_HATE_SPEECH',
-                threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-              },
-              {
-                category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-                threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-              },
-              {
-                category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-                threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-              }
-            ]
+            safetySettings: this.getSafetySettings()
           }),
+          signal,
         }
       );
 
@@ -229,7 +313,7 @@ export class GeminiService {
         throw new Error('No content generated by Gemini');
       }
 
-      const riskLevel = this.assessMentalHealthRisk(content);
+      const riskLevel = assessResponseRisk(content);
 
       return {
         content,
@@ -239,11 +323,111 @@ export class GeminiService {
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Gemini API error:', error);
       throw createApiErrorHandler('AI_SERVICE_ERROR', `Failed to generate AI response: ${error}`);
     }
   }
 
+  /**
+   * Stream a response chunk by chunk; resolves with the complete response
+   */
+  async streamResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    if (!this.apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    const {
+      model = 'gemini-pro',
+      temperature = 0.7,
+      maxTokens = 1000,
+      systemPrompt = DEFAULT_SYSTEM_PROMPT
+    } = config;
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            contents: this.convertMessagesToGeminiFormat(messages, systemPrompt),
+            generationConfig: {
+              temperature,
+              maxOutputTokens: maxTokens,
+              topP: 0.8,
+              topK: 10,
+            },
+            safetySettings: this.getSafetySettings(),
+          }),
+          signal: options.signal,
+        }
+      );
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+      }
+
+      let content = '';
+      let finishReason: string | undefined;
+
+      await readServerSentEvents(response.body, async ({ data }) => {
+        const chunk = JSON.parse(data);
+        const delta = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+        finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+        if (delta) {
+          content += delta;
+          await options.onDelta(delta);
+        }
+      });
+
+      if (!content) {
+        throw new Error('No content generated by Gemini');
+      }
+
+      return {
+        content,
+        model,
+        confidence: this.calculateConfidence({
+          candidates: [{ content: { parts: [{ text: content }] }, finishReason }]
+        }),
+        riskLevel: assessResponseRisk(content),
+      };
+
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Gemini streaming error:', error);
+      throw createApiErrorHandler('AI_SERVICE_ERROR', `Failed to stream AI response: ${error}`);
+    }
+  }
+
+  private getSafetySettings() {
+    return [
+      {
+        category: 'HARM_CATEGORY_HARASSMENT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+      },
+      {
+        category: 'HARM_CATEGORY_HATE_SPEECH',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+      },
+      {
+        category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+      },
+      {
+        category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+      }
+    ];
+  }
+
   private convertMessagesToGeminiFormat(messages: AIMessage[], systemPrompt: string) {
     const contents = [];
     
@@ -271,38 +455,6 @@ export class GeminiService {
     return contents;
   }
 
-  private assessMentalHealthRisk(content: string): 'low' | 'medium' | 'high' | 'critical' {
-    // Same risk assessment logic as OpenAI
-    const criticalKeywords = [
-      'suicide', 'kill myself', 'end it all', 'not worth living',
-      'better off dead', 'suicide plan', 'hurt myself'
-    ];
-    
-    const highKeywords = [
-      'hopeless', 'worthless', 'can\'t go on', 'severe depression',
-      'panic attack', 'self-harm', 'cutting', 'overdose'
-    ];
-    
-    const mediumKeywords = [
-      'anxious', 'depressed', 'stressed', 'overwhelmed',
-      'panic', 'anxiety', 'sad', 'down', 'worried'
-    ];
-
-    const lowerContent = content.toLowerCase();
-
-    if (criticalKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'critical';
-    }
-    if (highKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'high';
-    }
-    if (mediumKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return 'medium';
-    }
-
-    return 'low';
-  }
-
   private calculateConfidence(data: any): number {
     const hasCandidate = data.candidates && data.candidates.length > 0;
     const hasContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
@@ -316,45 +468,80 @@ export class GeminiService {
   }
 }
 
+// Fallback order when AI_PROVIDERS is not set; unconfigured providers are skipped
+const DEFAULT_PROVIDER_ORDER = ['openai', 'gemini', 'local'];
+
+function createProvider(id: string, env: Record<string, string | undefined>): AIProvider | undefined {
+  switch (id) {
+    case 'openai':
+      return new OpenAIService(env.OPENAI_API_KEY);
+    case 'gemini':
+      return new GeminiService(env.GEMINI_API_KEY);
+    case 'local':
+      return new LocalModelProvider({
+        baseUrl: env.LOCAL_AI_BASE_URL,
+        model: env.LOCAL_AI_MODEL,
+        apiKey: env.LOCAL_AI_API_KEY,
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the provider registry for this deployment:
+ * - AI_PROVIDERS: comma-separated provider ids in fallback order
+ * - AI_ALLOW_EXTERNAL_PROVIDERS=false: never send messages to cloud providers
+ * - LOCAL_AI_BASE_URL / LOCAL_AI_MODEL / LOCAL_AI_API_KEY: OpenAI-compatible local server
+ * - AI_<ID>_TIMEOUT_MS, AI_<ID>_MAX_RETRIES, ...: per-provider policy overrides
+ */
+export function createProviderRegistry(
+  env: Record<string, string | undefined> = process.env
+): ProviderRegistry {
+  const allowExternal = env.AI_ALLOW_EXTERNAL_PROVIDERS !== 'false';
+  const registry = new ProviderRegistry({ allowExternal });
+  const order = env.AI_PROVIDERS
+    ? env.AI_PROVIDERS.split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_ORDER;
+
+  for (const id of order) {
+    if (!allowExternal && (id === 'openai' || id === 'gemini')) continue;
+
+    const provider = createProvider(id, env);
+    if (!provider) {
+      console.warn(`Unknown AI provider "${id}" in AI_PROVIDERS`);
+      continue;
+    }
+    const defaults = provider.kind === 'local'
+      ? { ...DEFAULT_PROVIDER_POLICY, ...LOCAL_MODEL_POLICY }
+      : DEFAULT_PROVIDER_POLICY;
+    registry.register(provider, readProviderPolicy(id, env, defaults));
+  }
+
+  return registry;
+}
+
 /**
  * Unified AI Service Factory
  */
 export class AIService {
-  private openaiService: OpenAIService;
-  private geminiService: GeminiService;
+  private registry: ProviderRegistry;
 
-  constructor() {
-    this.openaiService = new OpenAIService();
-    this.geminiService = new GeminiService();
+  constructor(registry: ProviderRegistry = createProviderRegistry()) {
+    this.registry = registry;
   }
 
   /**
-   * Generate AI response using specified provider
+   * Generate AI response using the specified provider, falling back through
+   * the other configured providers
    */
   async generateResponse(
     messages: AIMessage[],
-    config: AIConfig = { provider: 'openai' }
+    config: Partial<AIConfig> = {}
   ): Promise<AIResponse> {
-    try {
-      switch (config.provider) {
-        case 'gemini':
-          return await this.geminiService.generateResponse(messages, config);
-        case 'openai':
-        default:
-          return await this.openaiService.generateResponse(messages, config);
-      }
-    } catch (error) {
-      console.error(`AI Service (${config.provider}) error:`, error);
-      
-      // Fallback to alternative provider
-      if (config.provider === 'openai') {
-        console.log('Falling back to Gemini...');
-        return await this.geminiService.generateResponse(messages, { ...config, provider: 'gemini' });
-      } else {
-        console.log('Falling back to OpenAI...');
-        return await this.openaiService.generateResponse(messages, { ...config, provider: 'openai' });
-      }
-    }
+    return this.registry.generate(messages, { systemPrompt: DEFAULT_SYSTEM_PROMPT, ...config });
   }
 
   /**
@@ -363,26 +550,8 @@ export class AIService {
   async getTherapyResponse(
     userMessage: string,
     conversationHistory: AIMessage[] = [],
-    provider: 'openai' | 'gemini' = 'openai'
+    provider?: string
   ): Promise<AIResponse> {
-    const systemPrompt = `You are a compassionate and professional AI therapy assistant. Your role is to:
-
-1. Provide emotional support and active listening
-2. Ask thoughtful, open-ended questions to help users explore their feelings
-3. Suggest healthy coping strategies and mental health techniques
-4. Recognize crisis situations and gently guide users to appropriate resources
-5. Maintain appropriate boundaries as an AI assistant, not a licensed therapist
-
-Important guidelines:
-- Always prioritize user safety and well-being
-- Be empathetic, non-judgmental, and validating
-- If you detect signs of severe distress or self-harm, recommend professional help
-- Do not diagnose mental health conditions
-- Encourage users to seek professional help when appropriate
-- Use person-first language and avoid stigmatizing terms
-
-Respond in a warm, supportive tone that makes the user feel heard and understood.`;
-
     const messages: AIMessage[] = [
       ...conversationHistory,
       {
@@ -394,22 +563,61 @@ Respond in a warm, supportive tone that makes the user feel heard and understood
 
     return this.generateResponse(messages, {
       provider,
-      systemPrompt,
+      systemPrompt: THERAPY_SYSTEM_PROMPT,
       temperature: 0.7,
       maxTokens: 800
     });
   }
 
   /**
-   * Check if AI services are configured
+   * Stream a response using the specified provider. Falls back to another
+   * provider only if the first fails before producing any output.
+   */
+  async streamResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    return this.registry.stream(messages, { systemPrompt: DEFAULT_SYSTEM_PROMPT, ...config }, options);
+  }
+
+  /**
+   * Stream a therapy-focused AI response
+   */
+  async streamTherapyResponse(
+    userMessage: string,
+    conversationHistory: AIMessage[] = [],
+    provider: string | undefined,
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    return this.streamResponse(
+      [...conversationHistory, { role: 'user', content: userMessage, timestamp: new Date() }],
+      { provider, systemPrompt: THERAPY_SYSTEM_PROMPT, temperature: 0.7, maxTokens: 800 },
+      options
+    );
+  }
+
+  /**
+   * Check which registered AI providers are configured
+   */
+  isConfigured(): Record<string, boolean> {
+    return this.registry.isConfigured();
+  }
+
+  /**
+   * Provider used when a request does not name one
+   */
+  getDefaultProvider(): string | undefined {
+    return this.registry.getDefaultProviderId();
+  }
+
+  /**
+   * Circuit state and request statistics per provider
    */
-  isConfigured(): { openai: boolean; gemini: boolean } {
-    return {
-      openai: !!process.env.OPENAI_API_KEY,
-      gemini: !!process.env.GEMINI_API_KEY
-    };
+  getHealth(): AIProvidersHealth {
+    return this.registry.getHealth();
   }
 }
 
 // Export singleton instance
-export const aiService = new AIService();
\ No newline at end of file
+export const aiService = new AIService();
@@ -5,13 +5,16 @@
  */
 
 import { EventEmitter } from 'events';
-import { CrisisDetector } from './CrisisDetector';
+import { CrisisAssessment, CrisisDetector } from './CrisisDetector';
 import { EthicalBoundaryManager } from './EthicalBoundaryManager';
 import { InterventionSelector, InterventionType } from './InterventionSelector';
 import { PrivacyManager } from './PrivacyManager';
 import { AuditLogger } from './AuditLogger';
 import { HumanOversightManager } from './HumanOversightManager';
 import { LanguageProcessor } from './LanguageProcessor';
+import { ConsentType } from './PrivacyManager';
+import { StreamSafetyBuffer } from './StreamSafetyBuffer';
+import { TurnSafety, TurnSafetyReason, buildTurnSafety } from './TurnSafetyPolicy';
 
 export interface ConversationContext {
   userId: string;
@@ -176,7 +179,51 @@ export interface PrivacyCheckResult {
   encryptionApplied: boolean;
 }
 
+// What the language model is given for a turn, with PII already redacted
+export interface ChatTurnInput {
+  message: string;
+  history: Message[];
+}
+
+export interface GeneratedReply {
+  content: string;
+  confidence?: number;
+}
+
+export interface ChatTurnResult<T extends GeneratedReply = GeneratedReply> {
+  message: string;
+  safety: TurnSafety;
+  riskLevel: RiskLevel;
+  reply?: T;
+  interventions?: Intervention[];
+  escalationRequired: boolean;
+  humanHandoffNeeded: boolean;
+}
+
+export interface StreamingGenerateOptions {
+  onDelta: (delta: string) => Promise<void>;
+  signal: AbortSignal;
+}
+
+// `replace` discards everything streamed so far for the substitute message
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'replace'; content: string; safety: TurnSafety };
+
+interface StreamInterception {
+  reason: TurnSafetyReason;
+  content: string;
+  violations?: string[];
+}
+
+// Version recorded with consent given through the chat consent prompt
+export const AI_CHAT_CONSENT_VERSION = '1.0';
+
+// Earlier messages kept with a conversation flagged for oversight
+const OVERSIGHT_EXCERPT_MESSAGES = 6;
+
 export class AITherapyAssistant extends EventEmitter {
+  private static instance: AITherapyAssistant | null = null;
   private crisisDetector!: CrisisDetector;
   private ethicalBoundaryManager!: EthicalBoundaryManager;
   private interventionSelector!: InterventionSelector;
@@ -203,6 +250,38 @@ export class AITherapyAssistant extends EventEmitter {
     this.setupSafetyProtocols();
   }
 
+  /**
+   * Shared assistant for chat transports; its components keep timers and
+   * per-user state, so one instance serves every request
+   */
+  public static getInstance(): AITherapyAssistant {
+    if (!AITherapyAssistant.instance) {
+      AITherapyAssistant.instance = new AITherapyAssistant();
+    }
+    return AITherapyAssistant.instance;
+  }
+
+  /**
+   * Consent records, shared with services that keep conversation data
+   */
+  public getPrivacyManager(): PrivacyManager {
+    return this.privacyManager;
+  }
+
+  /**
+   * Oversight requests raised by flagged conversations, for the reviewer console
+   */
+  public getOversightManager(): HumanOversightManager {
+    return this.humanOversightManager;
+  }
+
+  /**
+   * Intervention library and per-user history, for rating and review
+   */
+  public getInterventionSelector(): InterventionSelector {
+    return this.interventionSelector;
+  }
+
   private initializeComponents(): void {
     this.crisisDetector = new CrisisDetector();
     this.ethicalBoundaryManager = new EthicalBoundaryManager(this.ETHICAL_BOUNDARIES);
@@ -327,6 +406,340 @@ export class AITherapyAssistant extends EventEmitter {
     }
   }
 
+  /**
+   * Run one chat turn through the safety pipeline around an external model.
+   * Consent, crisis and PII checks run before `generate` is called; boundary
+   * and PII checks, audit and oversight run on the reply it returns.
+   */
+  public async processTurn<T extends GeneratedReply>(
+    message: string,
+    context: ConversationContext,
+    generate: (input: ChatTurnInput) => Promise<T>
+  ): Promise<ChatTurnResult<T>> {
+    const preChecks = await this.runPreChecks<T>(message, context);
+    if ('blocked' in preChecks) {
+      return preChecks.blocked;
+    }
+    const { input, reasons, redactedTypes, crisisAssessment } = preChecks;
+
+    const reply = await generate(input);
+
+    // Boundary check on the reply, replaced with a safe alternative on violation
+    let content = reply.content;
+    const ethicalCheck = await this.ethicalBoundaryManager.validate(content, context);
+    if (!ethicalCheck.passed) {
+      reasons.push('boundary_violation');
+      content = this.ethicalBoundaryManager.getAlternativeResponse(
+        ethicalCheck.violationTypes?.[0] ?? 'boundary_crossing'
+      );
+    }
+
+    // PII redaction on the way out
+    const redactedReply = this.privacyManager.redactPII(content);
+    if (redactedReply.redactedItems.length > 0) {
+      reasons.push('response_pii_redacted');
+      redactedTypes.push(...redactedReply.redactedItems.map(item => item.type));
+    }
+
+    const oversight = await this.humanOversightManager.evaluate(context, crisisAssessment, {
+      confidence: reply.confidence ?? 1
+    });
+
+    return this.completeTurn(context, message, {
+      message: redactedReply.content,
+      safety: buildTurnSafety(reasons, { violations: ethicalCheck.violations, redactedTypes }),
+      riskLevel: crisisAssessment.level,
+      reply,
+      escalationRequired: oversight.escalationRequired,
+      humanHandoffNeeded: oversight.handoffNeeded
+    }, oversight.reason);
+  }
+
+  /**
+   * Streaming variant of processTurn. Model output is released to `onEvent`
+   * a sentence at a time once the crisis and boundary checks pass on the
+   * reply so far; if either trips, generation is aborted and a `replace`
+   * event substitutes a safe message for everything already shown.
+   */
+  public async processStreamingTurn<T extends GeneratedReply>(
+    message: string,
+    context: ConversationContext,
+    generate: (input: ChatTurnInput, options: StreamingGenerateOptions) => Promise<T>,
+    onEvent: (event: ChatStreamEvent) => void | Promise<void>
+  ): Promise<ChatTurnResult<T>> {
+    const preChecks = await this.runPreChecks<T>(message, context);
+    if ('blocked' in preChecks) {
+      return preChecks.blocked;
+    }
+    const { input, reasons, redactedTypes, crisisAssessment } = preChecks;
+
+    const buffer = new StreamSafetyBuffer();
+    const controller = new AbortController();
+    const stream: { shown: string; interception: StreamInterception | null } = {
+      shown: '',
+      interception: null
+    };
+
+    const checkAndRelease = async (segment: string): Promise<void> => {
+      if (!segment || stream.interception) return;
+
+      stream.interception = await this.checkPartialReply(buffer.withReleased(segment), context);
+      if (stream.interception) {
+        controller.abort();
+        return;
+      }
+
+      const redacted = this.privacyManager.redactPII(segment);
+      if (redacted.redactedItems.length > 0) {
+        reasons.push('response_pii_redacted');
+        redactedTypes.push(...redacted.redactedItems.map(item => item.type));
+      }
+      buffer.release(segment);
+      stream.shown += redacted.content;
+      await onEvent({ type: 'delta', content: redacted.content });
+    };
+
+    let reply: T | undefined;
+    try {
+      reply = await generate(input, {
+        signal: controller.signal,
+        onDelta: delta => checkAndRelease(buffer.push(delta))
+      });
+    } catch (error) {
+      // Aborting generation is how an interception stops the model
+      if (!stream.interception) throw error;
+    }
+    await checkAndRelease(buffer.drain());
+
+    const interception = stream.interception as StreamInterception | null;
+    if (interception) {
+      reasons.push(interception.reason);
+    }
+    const safety = buildTurnSafety(reasons, { violations: interception?.violations, redactedTypes });
+    if (interception) {
+      await onEvent({ type: 'replace', content: interception.content, safety });
+    }
+
+    const oversight = await this.humanOversightManager.evaluate(
+      context,
+      interception?.reason === 'response_crisis_detected' ? { ...crisisAssessment, level: 'high' } : crisisAssessment,
+      { confidence: reply?.confidence ?? 1 }
+    );
+
+    return this.completeTurn(context, message, {
+      message: interception ? interception.content : stream.shown,
+      safety,
+      riskLevel: crisisAssessment.level,
+      reply: reply && { ...reply, content: stream.shown },
+      escalationRequired: oversight.escalationRequired,
+      humanHandoffNeeded: oversight.handoffNeeded
+    }, oversight.reason);
+  }
+
+  /**
+   * Consent, crisis and PII checks shared by both turn variants. Returns the
+   * finished turn when it is blocked, otherwise the redacted model input.
+   */
+  private async runPreChecks<T extends GeneratedReply>(
+    message: string,
+    context: ConversationContext
+  ): Promise<
+    | { blocked: ChatTurnResult<T> }
+    | {
+        input: ChatTurnInput;
+        reasons: TurnSafetyReason[];
+        redactedTypes: string[];
+        crisisAssessment: CrisisAssessment;
+      }
+  > {
+    // 1. Consent
+    if (!(await this.syncConsent(context))) {
+      return {
+        blocked: await this.completeTurn<T>(context, message, {
+          message: this.createConsentRequiredResponse().message,
+          safety: buildTurnSafety(['consent_required']),
+          riskLevel: 'none',
+          escalationRequired: false,
+          humanHandoffNeeded: false
+        })
+      };
+    }
+
+    // 2. Crisis detection; a critical message never reaches the model
+    const crisisAssessment = await this.crisisDetector.assess(message, context);
+    if (crisisAssessment.level === 'critical') {
+      const crisisResponse = await this.handleCrisisResponse(crisisAssessment, context);
+      return {
+        blocked: await this.completeTurn<T>(context, message, {
+          message: crisisResponse.message,
+          safety: buildTurnSafety(['crisis_detected']),
+          riskLevel: 'critical',
+          interventions: crisisResponse.interventions,
+          escalationRequired: true,
+          humanHandoffNeeded: true
+        }, 'Critical crisis level in user message')
+      };
+    }
+
+    // 3. PII redaction before anything leaves for the model
+    const reasons: TurnSafetyReason[] = [];
+    const redactedTypes: string[] = [];
+    const redactedMessage = this.privacyManager.redactPII(message);
+    if (redactedMessage.redactedItems.length > 0) {
+      reasons.push('message_pii_redacted');
+      redactedTypes.push(...redactedMessage.redactedItems.map(item => item.type));
+    }
+    const history = context.conversationHistory.map(entry => ({
+      ...entry,
+      content: this.privacyManager.redactPII(entry.content).content
+    }));
+
+    return {
+      input: { message: redactedMessage.content, history },
+      reasons,
+      redactedTypes,
+      crisisAssessment
+    };
+  }
+
+  /**
+   * Crisis and boundary checks on a partial reply; returns what to show
+   * instead when one trips
+   */
+  private async checkPartialReply(
+    text: string,
+    context: ConversationContext
+  ): Promise<StreamInterception | null> {
+    const crisis = await this.crisisDetector.screen(text, context);
+    if (crisis.level === 'critical') {
+      const crisisResponse = await this.handleCrisisResponse(crisis, context);
+      return { reason: 'response_crisis_detected', content: crisisResponse.message };
+    }
+
+    const ethicalCheck = await this.ethicalBoundaryManager.validate(text, context);
+    if (!ethicalCheck.passed) {
+      return {
+        reason: 'boundary_violation',
+        content: this.ethicalBoundaryManager.getAlternativeResponse(
+          ethicalCheck.violationTypes?.[0] ?? 'boundary_crossing'
+        ),
+        violations: ethicalCheck.violations
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Bring the privacy manager's consent records in line with the consent the
+   * transport reports for this user, then validate them
+   */
+  private async syncConsent(context: ConversationContext): Promise<boolean> {
+    const status = context.userProfile.consentStatus;
+    const granted = status.termsAccepted && status.dataProcessing;
+    const current = await this.privacyManager.validateConsent(context.userId);
+    if (current.valid === granted) {
+      return current.valid;
+    }
+
+    const consents: Array<[ConsentType, boolean]> = [
+      ['terms_of_service', status.termsAccepted],
+      ['privacy_policy', status.termsAccepted],
+      ['data_processing', status.dataProcessing]
+    ];
+    for (const [consentType, consentGranted] of consents) {
+      await this.privacyManager.recordConsent({
+        userId: context.userId,
+        consentType,
+        granted: consentGranted,
+        timestamp: status.timestamp,
+        version: AI_CHAT_CONSENT_VERSION
+      });
+    }
+
+    return (await this.privacyManager.validateConsent(context.userId)).valid;
+  }
+
+  private async completeTurn<T extends GeneratedReply>(
+    context: ConversationContext,
+    message: string,
+    result: ChatTurnResult<T>,
+    oversightReason?: string
+  ): Promise<ChatTurnResult<T>> {
+    // Message content stays out of the audit trail; the outcome is what reviewers need
+    await this.auditLogger.log({
+      sessionId: context.sessionId,
+      userId: context.userId,
+      action: 'chat_turn',
+      category: 'conversation' as const,
+      severity: result.safety.action === 'blocked' ? 'warning' as const : 'info' as const,
+      timestamp: new Date(),
+      details: {
+        safetyAction: result.safety.action,
+        reasons: result.safety.reasons,
+        violations: result.safety.violations,
+        redactedTypes: result.safety.redactedTypes,
+        riskLevel: result.riskLevel,
+        messageLength: message.length,
+        escalationRequired: result.escalationRequired
+      }
+    });
+
+    if (result.escalationRequired || result.humanHandoffNeeded) {
+      await this.flagForOversight(context, message, result, oversightReason);
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue the conversation for a licensed reviewer with a redacted excerpt
+   * of it. A failure here is logged rather than failing the turn.
+   */
+  private async flagForOversight(
+    context: ConversationContext,
+    message: string,
+    result: ChatTurnResult,
+    reason?: string
+  ): Promise<void> {
+    const now = new Date();
+    const transcript = [
+      ...context.conversationHistory.slice(-OVERSIGHT_EXCERPT_MESSAGES),
+      { role: 'user' as const, content: message, timestamp: now },
+      { role: 'assistant' as const, content: result.message, timestamp: now }
+    ]
+      .filter(entry => entry.role !== 'system')
+      .map(entry => ({
+        role: entry.role,
+        content: this.privacyManager.redactPII(entry.content).content,
+        timestamp: entry.timestamp
+      }));
+
+    const crisis = result.riskLevel === 'critical' || result.riskLevel === 'high' ||
+      result.safety.reasons.some(r => r === 'crisis_detected' || r === 'response_crisis_detected');
+
+    try {
+      await this.humanOversightManager.requestOversight({
+        type: crisis
+          ? 'crisis_escalation'
+          : result.safety.reasons.includes('boundary_violation') ? 'ethical_violation' : 'clinical_review',
+        priority: result.riskLevel === 'critical' ? 'immediate' : crisis || result.humanHandoffNeeded ? 'high' : 'medium',
+        userId: context.userId,
+        sessionId: context.sessionId,
+        reason: reason ?? (crisis ? 'Crisis detected in conversation' : 'Flagged for human review'),
+        context: {
+          riskLevel: result.riskLevel,
+          language: context.language,
+          safetyReasons: result.safety.reasons,
+          handoffNeeded: result.humanHandoffNeeded,
+          transcript
+        }
+      });
+    } catch (error) {
+      console.error('Failed to queue conversation for oversight:', error);
+    }
+  }
+
   private async generateTherapeuticResponse(
     processedMessage: any,
     context: ConversationContext,
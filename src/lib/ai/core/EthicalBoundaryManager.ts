@@ -22,6 +22,7 @@ export interface EthicalCheckResult {
   warnings?: string[];
   recommendations?: string[];
   requiredActions?: string[];
+  violationTypes?: ViolationType[];
 }
 
 export interface BoundaryViolation {
@@ -163,6 +164,7 @@ export class EthicalBoundaryManager extends EventEmitter {
     const warnings: string[] = [];
     const recommendations: string[] = [];
     const requiredActions: string[] = [];
+    const violationTypes: ViolationType[] = [];
 
     // Extract text content
     const text = this.extractText(message);
@@ -177,10 +179,12 @@ export class EthicalBoundaryManager extends EventEmitter {
         switch (violation.severity) {
           case 'critical':
             violations.push(rule.name);
+            violationTypes.push(rule.violationType);
             requiredActions.push(`Block: ${rule.description}`);
             break;
           case 'high':
             violations.push(rule.name);
+            violationTypes.push(rule.violationType);
             break;
           case 'medium':
             warnings.push(rule.name);
@@ -235,13 +239,14 @@ export class EthicalBoundaryManager extends EventEmitter {
       violations: violations.length > 0 ? violations : undefined,
       warnings: warnings.length > 0 ? warnings : undefined,
       recommendations: recommendations.length > 0 ? recommendations : undefined,
-      requiredActions: requiredActions.length > 0 ? requiredActions : undefined
+      requiredActions: requiredActions.length > 0 ? requiredActions : undefined,
+      violationTypes: violationTypes.length > 0 ? violationTypes : undefined
     };
   }
 
   private extractText(message: any): string {
     if (typeof message === 'string') return message;
-    return message.content || message.text || '';
+    return message.content || message.text || message.original || '';
   }
 
   private checkBoundaryRule(text: string, rule: BoundaryRule): BoundaryViolation | null {
@@ -456,6 +461,20 @@ export class EthicalBoundaryManager extends EventEmitter {
     });
   }
 
+  /**
+   * Safe replacement for a reply that crossed a boundary
+   */
+  public getAlternativeResponse(type: ViolationType): string {
+    return this.generateAlternative({
+      type,
+      severity: 'high',
+      content: '',
+      context: '',
+      timestamp: new Date(),
+      action: 'modify'
+    });
+  }
+
   private generateAlternative(violation: BoundaryViolation): string {
     // Generate appropriate alternative based on violation type
     const alternatives = {
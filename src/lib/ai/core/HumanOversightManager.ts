@@ -4,6 +4,7 @@
  */
 
 import { EventEmitter } from 'events';
+import { WorkflowError } from '@/lib/error-handling/error-types';
 
 export interface OversightRequest {
   id: string;
@@ -16,9 +17,21 @@ export interface OversightRequest {
   context: any;
   status: OversightStatus;
   assignedTo?: string;
+  // When a reviewer claimed the request, and when it must be claimed by
+  claimedAt?: Date;
+  slaDueAt?: Date;
+  escalatedAt?: Date;
+  notes?: OversightNote[];
   resolution?: OversightResolution;
 }
 
+export interface OversightNote {
+  id: string;
+  authorId: string;
+  content: string;
+  createdAt: Date;
+}
+
 export type OversightType = 
   | 'crisis_escalation'
   | 'ethical_violation'
@@ -109,6 +122,40 @@ export interface EscalationCriteria {
   autoEscalate: boolean;
 }
 
+/**
+ * Durable storage for oversight requests, so they survive restarts and can
+ * be worked from any server instance
+ */
+export interface OversightStore {
+  load(requestId: string): Promise<OversightRequest | null>;
+  loadOpen(): Promise<OversightRequest[]>;
+  save(request: OversightRequest): Promise<void>;
+  addNote(requestId: string, note: OversightNote): Promise<void>;
+  scheduleFollowUp(requestId: string, followUp: FollowUpAction, scheduledAt: Date): Promise<void>;
+}
+
+// Minutes a reviewer has to claim a request whose risk level matches no
+// escalation criteria
+export const OVERSIGHT_RESPONSE_MINUTES: Record<OversightRequest['priority'], number> = {
+  immediate: 5,
+  high: 15,
+  medium: 30,
+  low: 240
+};
+
+const PRIORITY_RANK: Record<OversightRequest['priority'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  immediate: 3
+};
+
+const CRISIS_PRIORITY: Record<string, OversightRequest['priority']> = {
+  critical: 'immediate',
+  high: 'high',
+  medium: 'medium'
+};
+
 export interface OversightMetrics {
   totalRequests: number;
   pendingRequests: number;
@@ -124,9 +171,11 @@ export class HumanOversightManager extends EventEmitter {
   private escalationCriteria: EscalationCriteria[];
   private assignmentQueue: OversightRequest[];
   private metrics: OversightMetrics;
+  private store: OversightStore | null;
 
   constructor() {
     super();
+    this.store = null;
     this.oversightRequests = new Map();
     this.professionals = new Map();
     this.escalationCriteria = [];
@@ -176,7 +225,9 @@ export class HumanOversightManager extends EventEmitter {
   private startMonitoring(): void {
     // Check for timeout escalations every minute
     setInterval(() => {
-      this.checkTimeoutEscalations();
+      this.checkTimeoutEscalations().catch(error => {
+        console.error('Oversight timeout check failed:', error);
+      });
     }, 60 * 1000);
 
     // Update metrics every 5 minutes
@@ -185,6 +236,62 @@ export class HumanOversightManager extends EventEmitter {
     }, 5 * 60 * 1000);
   }
 
+  /**
+   * Persist requests to the store and pick up the open ones already in it
+   */
+  public attachStore(store: OversightStore): void {
+    this.store = store;
+    this.refreshFromStore().catch(error => {
+      console.error('Failed to load oversight requests:', error);
+    });
+  }
+
+  private async refreshFromStore(): Promise<void> {
+    if (!this.store) return;
+    for (const request of await this.store.loadOpen()) {
+      this.track(request);
+    }
+  }
+
+  // Keep the latest copy of a request; unassigned ones wait in the queue
+  private track(request: OversightRequest): void {
+    this.oversightRequests.set(request.id, request);
+    this.assignmentQueue = this.assignmentQueue.filter(r => r.id !== request.id);
+    if (!request.assignedTo && (request.status === 'pending' || request.status === 'escalated')) {
+      this.assignmentQueue.push(request);
+    }
+  }
+
+  // The store's copy wins, since another instance may have changed it
+  private async findRequest(requestId: string): Promise<OversightRequest> {
+    const stored = await this.store?.load(requestId);
+    if (stored) {
+      this.track(stored);
+    }
+
+    const request = this.oversightRequests.get(requestId);
+    if (!request) {
+      throw new WorkflowError('Oversight request not found', { requestId });
+    }
+    return request;
+  }
+
+  private async persist(request: OversightRequest): Promise<void> {
+    await this.store?.save(request);
+  }
+
+  /**
+   * When a reviewer must claim the request by: the timeout of the escalation
+   * criteria for its risk level, otherwise the window for its priority
+   */
+  private responseDeadline(request: OversightRequest, from: Date = request.timestamp): Date {
+    const criteria = this.escalationCriteria.find(c =>
+      c.riskLevel === request.context?.riskLevel
+    );
+    const minutes = criteria?.timeoutMinutes ?? OVERSIGHT_RESPONSE_MINUTES[request.priority];
+    return new Date(from.getTime() + minutes * 60 * 1000);
+  }
+
   public async evaluate(
     context: any,
     crisisAssessment: any,
@@ -278,6 +385,16 @@ export class HumanOversightManager extends EventEmitter {
     reason: string;
     context: any;
   }): Promise<OversightRequest> {
+    // One open request per conversation; later flags update it
+    const open = params.sessionId
+      ? Array.from(this.oversightRequests.values()).find(r =>
+          r.sessionId === params.sessionId && r.status !== 'resolved' && r.status !== 'cancelled'
+        )
+      : undefined;
+    if (open) {
+      return this.mergeRequest(open, params);
+    }
+
     const request: OversightRequest = {
       id: this.generateRequestId(),
       timestamp: new Date(),
@@ -289,6 +406,7 @@ export class HumanOversightManager extends EventEmitter {
       context: params.context,
       status: 'pending'
     };
+    request.slaDueAt = this.responseDeadline(request);
 
     this.oversightRequests.set(request.id, request);
     this.assignmentQueue.push(request);
@@ -297,6 +415,7 @@ export class HumanOversightManager extends EventEmitter {
 
     // Attempt immediate assignment
     await this.assignRequest(request);
+    await this.persist(request);
 
     // Emit event for monitoring
     this.emit('oversight-requested', request);
@@ -309,6 +428,32 @@ export class HumanOversightManager extends EventEmitter {
     return request;
   }
 
+  private async mergeRequest(
+    request: OversightRequest,
+    params: Pick<OversightRequest, 'type' | 'priority' | 'reason' | 'context'>
+  ): Promise<OversightRequest> {
+    request.context = { ...request.context, ...params.context };
+
+    const raised = PRIORITY_RANK[params.priority] > PRIORITY_RANK[request.priority];
+    if (raised) {
+      request.type = params.type;
+      request.priority = params.priority;
+      request.reason = params.reason;
+      const deadline = this.responseDeadline(request, new Date());
+      if (!request.slaDueAt || deadline < request.slaDueAt) {
+        request.slaDueAt = deadline;
+      }
+    }
+
+    await this.persist(request);
+    this.emit('oversight-updated', request);
+
+    if (raised && request.priority === 'immediate' && !request.claimedAt) {
+      await this.sendImmediateAlert(request);
+    }
+    return request;
+  }
+
   private generateRequestId(): string {
     return `oversight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -324,6 +469,7 @@ export class HumanOversightManager extends EventEmitter {
       
       // Update professional's caseload
       professional.currentCaseload++;
+      await this.persist(request);
       
       // Notify professional
       await this.notifyProfessional(professional, request);
@@ -406,6 +552,7 @@ export class HumanOversightManager extends EventEmitter {
 
   private async escalateToSupervisor(request: OversightRequest): Promise<void> {
     request.status = 'escalated';
+    request.escalatedAt = new Date();
     
     // Find clinical supervisor
     const supervisor = Array.from(this.professionals.values())
@@ -416,6 +563,7 @@ export class HumanOversightManager extends EventEmitter {
       await this.notifyProfessional(supervisor, request);
     }
 
+    await this.persist(request);
     this.emit('request-escalated', request);
   }
 
@@ -423,13 +571,17 @@ export class HumanOversightManager extends EventEmitter {
     requestId: string,
     resolution: OversightResolution
   ): Promise<void> {
-    const request = this.oversightRequests.get(requestId);
-    if (!request) {
-      throw new Error(`Request ${requestId} not found`);
+    const request = await this.findRequest(requestId);
+    if (request.status !== 'in_review' || request.assignedTo !== resolution.resolvedBy) {
+      throw new WorkflowError('Claim the oversight request before resolving it', {
+        requestId,
+        status: request.status
+      });
     }
 
     request.status = 'resolved';
     request.resolution = resolution;
+    await this.persist(request);
     
     // Update professional's caseload
     if (request.assignedTo) {
@@ -473,24 +625,80 @@ export class HumanOversightManager extends EventEmitter {
       createdAt: new Date()
     };
 
+    await this.store?.scheduleFollowUp(request.id, followUp, followUpTask.createdAt);
     this.emit('follow-up-scheduled', followUpTask);
   }
 
-  private checkTimeoutEscalations(): void {
-    const now = new Date();
-    
-    for (const request of this.assignmentQueue) {
-      const criteria = this.escalationCriteria.find(c => 
-        c.riskLevel === request.context?.riskLevel
-      );
-      
-      if (criteria) {
-        const timeElapsed = (now.getTime() - request.timestamp.getTime()) / (60 * 1000);
-        
-        if (timeElapsed > criteria.timeoutMinutes) {
-          // Escalate due to timeout
-          this.escalateToSupervisor(request);
-        }
+  /**
+   * A reviewer takes a request off the queue. Claiming is what meets the
+   * request's SLA; claiming it again is a no-op for the same reviewer.
+   */
+  public async claimRequest(requestId: string, reviewerId: string): Promise<OversightRequest> {
+    const request = await this.findRequest(requestId);
+    if (request.status === 'resolved' || request.status === 'cancelled') {
+      throw new WorkflowError('Oversight request is already closed', { requestId, status: request.status });
+    }
+    if (request.claimedAt) {
+      if (request.assignedTo !== reviewerId) {
+        throw new WorkflowError('Oversight request is claimed by another reviewer', { requestId });
+      }
+      return request;
+    }
+
+    // Hand back an automatic assignment
+    if (request.assignedTo && request.assignedTo !== reviewerId) {
+      const professional = this.professionals.get(request.assignedTo);
+      if (professional) {
+        professional.currentCaseload--;
+      }
+    }
+
+    request.assignedTo = reviewerId;
+    request.claimedAt = new Date();
+    request.status = 'in_review';
+    this.assignmentQueue = this.assignmentQueue.filter(r => r.id !== request.id);
+    await this.persist(request);
+
+    this.emit('request-claimed', { request, reviewerId });
+    return request;
+  }
+
+  public async annotateRequest(
+    requestId: string,
+    authorId: string,
+    content: string
+  ): Promise<OversightNote> {
+    const request = await this.findRequest(requestId);
+    const note: OversightNote = {
+      id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      authorId,
+      content,
+      createdAt: new Date()
+    };
+
+    request.notes = [...(request.notes ?? []), note];
+    await this.store?.addNote(request.id, note);
+
+    this.emit('request-annotated', { request, note });
+    return note;
+  }
+
+  /**
+   * Escalate requests nobody has claimed within their response window. Runs
+   * against the store too, so requests raised on other instances are covered.
+   */
+  private async checkTimeoutEscalations(now: Date = new Date()): Promise<void> {
+    await this.refreshFromStore();
+
+    for (const request of Array.from(this.oversightRequests.values())) {
+      if (request.claimedAt || (request.status !== 'pending' && request.status !== 'assigned')) {
+        continue;
+      }
+
+      const deadline = request.slaDueAt ?? this.responseDeadline(request);
+      if (now > deadline) {
+        // Escalate due to timeout
+        await this.escalateToSupervisor(request);
       }
     }
   }
@@ -568,13 +776,17 @@ export class HumanOversightManager extends EventEmitter {
   }
 
   public async notifyCrisis(data: any): Promise<void> {
+    // Low-level signals stay with the conversation unless it is flagged later
+    const priority = CRISIS_PRIORITY[data.level];
+    if (!priority) return;
+
     await this.requestOversight({
       type: 'crisis_escalation',
-      priority: 'immediate',
+      priority,
       userId: data.userId,
       sessionId: data.sessionId,
       reason: 'Crisis detected by AI system',
-      context: data
+      context: { ...data, riskLevel: data.level }
     });
   }
 
@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from 'events';
+import { ValidationError } from '@/lib/error-handling/error-types';
+import { ruledOutByUser, scoreArm } from '../interventions/InterventionBandit';
 
 export interface Intervention {
   id: string;
@@ -18,6 +20,8 @@ export interface Intervention {
   modality: InterventionModality;
   components: InterventionComponent[];
   effectiveness: EffectivenessData;
+  // Religious or cultural considerations (as in CulturalFactors) it should not be offered under
+  culturalExclusions?: string[];
   implementation: () => Promise<InterventionResult>;
 }
 
@@ -64,6 +68,31 @@ export interface InterventionComponent {
   duration: number;
   userAction?: string;
   systemResponse?: string;
+  // What the user records at this step when doing it as a guided exercise
+  inputs?: ExerciseInput[];
+}
+
+export type ExerciseInputType =
+  | 'text' // string
+  | 'scale' // number between min and max
+  | 'list' // string[]
+  | 'select' // string[] chosen from the list in `itemsFrom`
+  | 'item_scales' // Record<item, Record<scale id, number>> for each item in `itemsFrom`
+  | 'schedule' // Record<item, ISO date-time> for each item in `itemsFrom`
+  | 'confirm'; // true once done
+
+export interface ExerciseInput {
+  id: string;
+  type: ExerciseInputType;
+  label: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  minItems?: number;
+  maxItems?: number;
+  // Input id, earlier in the exercise, whose items this one works on
+  itemsFrom?: string;
+  scales?: { id: string; label: string; min: number; max: number }[];
 }
 
 export interface EffectivenessData {
@@ -106,19 +135,163 @@ export interface CulturalFactors {
   preferredApproach?: string;
 }
 
+// One intervention offered to a user, and what they made of it
+export interface InterventionOutcomeRecord {
+  id: string;
+  userId: string;
+  interventionId: string;
+  interventionType: InterventionType;
+  sessionId?: string;
+  // The context it was selected in
+  symptoms: string[];
+  riskLevel: string;
+  selectedAt: Date;
+  completedAt?: Date;
+  ratedAt?: Date;
+  rating?: number; // 1-5, from the user
+  helpful?: boolean;
+  // Latest mood check-in before selection and first one after (1-10)
+  moodBefore?: number;
+  moodAfter?: number;
+  engagement?: number; // 0-1
+  symptomImprovement?: number; // percentage
+}
+
+export interface InterventionFeedback {
+  rating?: number;
+  helpful?: boolean;
+  completed?: boolean;
+  engagement?: number;
+  symptomImprovement?: number;
+}
+
+/**
+ * Durable per-user intervention history, so ratings and mood changes
+ * shape what is offered next across sessions and server instances
+ */
+export interface InterventionHistoryStore {
+  recordSelections(selections: Omit<InterventionOutcomeRecord, 'id'>[]): Promise<void>;
+  // Applied to the user's latest selection of the intervention, or a new record if it was never selected
+  recordFeedback(
+    userId: string,
+    intervention: Pick<Intervention, 'id' | 'type'>,
+    feedback: InterventionFeedback
+  ): Promise<InterventionOutcomeRecord>;
+  // Newest first
+  loadHistory(userId: string, limit: number): Promise<InterventionOutcomeRecord[]>;
+  // Rated outcomes of other users for any of the symptoms
+  loadOutcomes(symptoms: string[], excludeUserId: string, limit: number): Promise<InterventionOutcomeRecord[]>;
+}
+
+// Selections kept per user, and other users' outcomes consulted, per selection
+const HISTORY_LIMIT = 50;
+const POPULATION_LIMIT = 500;
+
+/**
+ * History kept in process, used until a durable store is attached
+ */
+export class MemoryInterventionStore implements InterventionHistoryStore {
+  private records = new Map<string, InterventionOutcomeRecord[]>();
+  private nextId = 1;
+
+  public async recordSelections(selections: Omit<InterventionOutcomeRecord, 'id'>[]): Promise<void> {
+    for (const selection of selections) {
+      this.add({ ...selection, id: `selection-${this.nextId++}` });
+    }
+  }
+
+  public async recordFeedback(
+    userId: string,
+    intervention: Pick<Intervention, 'id' | 'type'>,
+    feedback: InterventionFeedback
+  ): Promise<InterventionOutcomeRecord> {
+    const history = this.records.get(userId) ?? [];
+    const existing = [...history].reverse().find(record => record.interventionId === intervention.id);
+    const record = existing ?? this.add({
+      id: `selection-${this.nextId++}`,
+      userId,
+      interventionId: intervention.id,
+      interventionType: intervention.type,
+      symptoms: [],
+      riskLevel: 'low',
+      selectedAt: new Date()
+    });
+    Object.assign(record, applyFeedback(feedback, new Date()));
+    return record;
+  }
+
+  public async loadHistory(userId: string, limit: number): Promise<InterventionOutcomeRecord[]> {
+    return [...(this.records.get(userId) ?? [])].reverse().slice(0, limit);
+  }
+
+  public async loadOutcomes(
+    symptoms: string[],
+    excludeUserId: string,
+    limit: number
+  ): Promise<InterventionOutcomeRecord[]> {
+    return [...this.records.entries()]
+      .filter(([userId]) => userId !== excludeUserId)
+      .flatMap(([, history]) => history)
+      .filter(record => record.ratedAt && record.symptoms.some(symptom => symptoms.includes(symptom)))
+      .slice(-limit);
+  }
+
+  private add(record: InterventionOutcomeRecord): InterventionOutcomeRecord {
+    const history = this.records.get(record.userId) ?? [];
+    history.push(record);
+    this.records.set(record.userId, history.slice(-HISTORY_LIMIT));
+    return record;
+  }
+}
+
+/**
+ * The record fields a piece of feedback sets; rating or helpfulness also
+ * stamps when the user gave it
+ */
+export function applyFeedback(
+  feedback: InterventionFeedback,
+  now: Date
+): Partial<InterventionOutcomeRecord> {
+  const rated = feedback.rating !== undefined || feedback.helpful !== undefined;
+  return {
+    ...(feedback.rating !== undefined && { rating: feedback.rating }),
+    ...(feedback.helpful !== undefined && { helpful: feedback.helpful }),
+    ...(feedback.engagement !== undefined && { engagement: feedback.engagement }),
+    ...(feedback.symptomImprovement !== undefined && { symptomImprovement: feedback.symptomImprovement }),
+    ...(feedback.completed && { completedAt: now }),
+    ...(rated && { ratedAt: now })
+  };
+}
+
+// What the bandit learns from for one selection
+interface SelectionEvidence {
+  personal: InterventionOutcomeRecord[];
+  population: InterventionOutcomeRecord[];
+}
+
+// Never filtered out by the user's ratings, and eligible in any crisis
+const SAFETY_TYPES: InterventionType[] = ['safety_planning', 'crisis_escalation'];
+
 export class InterventionSelector extends EventEmitter {
   private interventionLibrary: Map<string, Intervention>;
-  private selectionHistory: Map<string, InterventionHistory[]>;
   private effectivenessTracker: Map<string, EffectivenessMetrics>;
+  private store: InterventionHistoryStore;
 
   constructor() {
     super();
     this.interventionLibrary = new Map();
-    this.selectionHistory = new Map();
     this.effectivenessTracker = new Map();
+    this.store = new MemoryInterventionStore();
     this.initializeInterventionLibrary();
   }
 
+  /**
+   * Keep intervention history and feedback in a durable store
+   */
+  public attachStore(store: InterventionHistoryStore): void {
+    this.store = store;
+  }
+
   private initializeInterventionLibrary(): void {
     // CBT Interventions
     this.addIntervention({
@@ -137,31 +310,49 @@ export class InterventionSelector extends EventEmitter {
           step: 1,
           instruction: 'Identify the situation that triggered your thoughts',
           duration: 2,
-          userAction: 'Describe the situation'
+          userAction: 'Describe the situation',
+          inputs: [
+            { id: 'situation', type: 'text', label: 'What happened?', required: true }
+          ]
         },
         {
           step: 2,
           instruction: 'Notice your automatic thoughts',
           duration: 3,
-          userAction: 'Write down your immediate thoughts'
+          userAction: 'Write down your immediate thoughts',
+          inputs: [
+            { id: 'automatic_thoughts', type: 'text', label: 'What went through your mind?', required: true }
+          ]
         },
         {
           step: 3,
           instruction: 'Identify the emotions you\'re feeling',
           duration: 2,
-          userAction: 'Name and rate your emotions (0-10)'
+          userAction: 'Name and rate your emotions (0-10)',
+          inputs: [
+            { id: 'emotions', type: 'list', label: 'Emotions', required: true, minItems: 1 },
+            { id: 'emotion_intensity', type: 'scale', label: 'How strong (0-10)?', required: true, min: 0, max: 10 }
+          ]
         },
         {
           step: 4,
           instruction: 'Examine the evidence for and against your thoughts',
           duration: 5,
-          userAction: 'List evidence supporting and contradicting your thoughts'
+          userAction: 'List evidence supporting and contradicting your thoughts',
+          inputs: [
+            { id: 'evidence_for', type: 'text', label: 'Evidence for the thought', required: true },
+            { id: 'evidence_against', type: 'text', label: 'Evidence against the thought', required: true }
+          ]
         },
         {
           step: 5,
           instruction: 'Develop a balanced, realistic thought',
           duration: 3,
-          userAction: 'Create an alternative, balanced perspective'
+          userAction: 'Create an alternative, balanced perspective',
+          inputs: [
+            { id: 'balanced_thought', type: 'text', label: 'A more balanced thought', required: true },
+            { id: 'emotion_intensity_after', type: 'scale', label: 'How strong are the emotions now (0-10)?', required: true, min: 0, max: 10 }
+          ]
         }
       ],
       effectiveness: {
@@ -187,6 +378,7 @@ export class InterventionSelector extends EventEmitter {
       evidenceBase: 'strong',
       targetSymptoms: ['anxiety', 'stress', 'panic', 'racing thoughts'],
       contraindications: ['severe respiratory conditions'],
+      culturalExclusions: ['avoids meditation'],
       duration: 5,
       difficulty: 'easy',
       modality: 'mindfulness',
@@ -245,6 +437,7 @@ export class InterventionSelector extends EventEmitter {
       evidenceBase: 'strong',
       targetSymptoms: ['emotional dysregulation', 'crisis', 'intense distress'],
       contraindications: ['cardiac conditions', 'pregnancy'],
+      culturalExclusions: ['religious fasting'],
       duration: 10,
       difficulty: 'moderate',
       modality: 'somatic',
@@ -253,25 +446,37 @@ export class InterventionSelector extends EventEmitter {
           step: 1,
           instruction: 'Temperature: Splash cold water on face or hold ice',
           duration: 2,
-          userAction: 'Apply cold water/ice to face'
+          userAction: 'Apply cold water/ice to face',
+          inputs: [
+            { id: 'temperature_done', type: 'confirm', label: 'I cooled my face', required: true }
+          ]
         },
         {
           step: 2,
           instruction: 'Intense Exercise: Do jumping jacks or run in place',
           duration: 3,
-          userAction: 'Engage in brief intense movement'
+          userAction: 'Engage in brief intense movement',
+          inputs: [
+            { id: 'exercise_done', type: 'confirm', label: 'I moved intensely', required: true }
+          ]
         },
         {
           step: 3,
           instruction: 'Paced Breathing: Breathe out longer than in (4-6 pattern)',
           duration: 3,
-          userAction: 'Practice slow, paced breathing'
+          userAction: 'Practice slow, paced breathing',
+          inputs: [
+            { id: 'breathing_done', type: 'confirm', label: 'I breathed out longer than in', required: true }
+          ]
         },
         {
           step: 4,
           instruction: 'Paired Muscle Relaxation: Tense and release muscle groups',
           duration: 2,
-          userAction: 'Systematically tense and relax muscles'
+          userAction: 'Systematically tense and relax muscles',
+          inputs: [
+            { id: 'relaxation_done', type: 'confirm', label: 'I tensed and released my muscles', required: true }
+          ]
         }
       ],
       effectiveness: {
@@ -305,31 +510,46 @@ export class InterventionSelector extends EventEmitter {
           step: 1,
           instruction: 'Name 5 things you can see',
           duration: 1,
-          userAction: 'Identify 5 visual objects'
+          userAction: 'Identify 5 visual objects',
+          inputs: [
+            { id: 'see', type: 'list', label: 'Things you can see', required: true, minItems: 5, maxItems: 5 }
+          ]
         },
         {
           step: 2,
           instruction: 'Name 4 things you can touch',
           duration: 1,
-          userAction: 'Notice 4 tactile sensations'
+          userAction: 'Notice 4 tactile sensations',
+          inputs: [
+            { id: 'touch', type: 'list', label: 'Things you can touch', required: true, minItems: 4, maxItems: 4 }
+          ]
         },
         {
           step: 3,
           instruction: 'Name 3 things you can hear',
           duration: 1,
-          userAction: 'Listen for 3 sounds'
+          userAction: 'Listen for 3 sounds',
+          inputs: [
+            { id: 'hear', type: 'list', label: 'Things you can hear', required: true, minItems: 3, maxItems: 3 }
+          ]
         },
         {
           step: 4,
           instruction: 'Name 2 things you can smell',
           duration: 1,
-          userAction: 'Notice 2 scents'
+          userAction: 'Notice 2 scents',
+          inputs: [
+            { id: 'smell', type: 'list', label: 'Things you can smell', required: true, minItems: 2, maxItems: 2 }
+          ]
         },
         {
           step: 5,
           instruction: 'Name 1 thing you can taste',
           duration: 1,
-          userAction: 'Notice 1 taste'
+          userAction: 'Notice 1 taste',
+          inputs: [
+            { id: 'taste', type: 'list', label: 'Something you can taste', required: true, minItems: 1, maxItems: 1 }
+          ]
         }
       ],
       effectiveness: {
@@ -363,31 +583,57 @@ export class InterventionSelector extends EventEmitter {
           step: 1,
           instruction: 'List activities that used to bring joy or meaning',
           duration: 5,
-          userAction: 'Create activity list'
+          userAction: 'Create activity list',
+          inputs: [
+            { id: 'activities', type: 'list', label: 'Activities', required: true, minItems: 1, maxItems: 10 }
+          ]
         },
         {
           step: 2,
           instruction: 'Rate each activity: Importance (1-10) and Difficulty (1-10)',
           duration: 3,
-          userAction: 'Rate activities'
+          userAction: 'Rate activities',
+          inputs: [
+            {
+              id: 'activity_ratings',
+              type: 'item_scales',
+              label: 'Rate each activity',
+              required: true,
+              itemsFrom: 'activities',
+              scales: [
+                { id: 'importance', label: 'Importance', min: 1, max: 10 },
+                { id: 'difficulty', label: 'Difficulty', min: 1, max: 10 }
+              ]
+            }
+          ]
         },
         {
           step: 3,
           instruction: 'Choose 1-2 high importance, low difficulty activities',
           duration: 2,
-          userAction: 'Select activities'
+          userAction: 'Select activities',
+          inputs: [
+            { id: 'chosen_activities', type: 'select', label: 'Activities to do this week', required: true, itemsFrom: 'activities', minItems: 1, maxItems: 2 }
+          ]
         },
         {
           step: 4,
           instruction: 'Schedule specific times for these activities this week',
           duration: 5,
-          userAction: 'Create schedule'
+          userAction: 'Create schedule',
+          inputs: [
+            { id: 'activity_schedule', type: 'schedule', label: 'When will you do them?', required: true, itemsFrom: 'chosen_activities' }
+          ]
         },
         {
           step: 5,
           instruction: 'Identify potential barriers and solutions',
           duration: 5,
-          userAction: 'Problem-solve barriers'
+          userAction: 'Problem-solve barriers',
+          inputs: [
+            { id: 'barriers', type: 'text', label: 'What might get in the way?' },
+            { id: 'solutions', type: 'text', label: 'How will you handle it?' }
+          ]
         }
       ],
       effectiveness: {
@@ -537,19 +783,26 @@ export class InterventionSelector extends EventEmitter {
     message: any,
     crisisAssessment: any
   ): Promise<Intervention[]> {
+    const personal = await this.store.loadHistory(context.userId, HISTORY_LIMIT);
     const criteria: SelectionCriteria = this.buildSelectionCriteria(
       context,
       message,
-      crisisAssessment
+      crisisAssessment,
+      personal
     );
+    const evidence: SelectionEvidence = {
+      personal,
+      population: await this.store.loadOutcomes(criteria.currentSymptoms, context.userId, POPULATION_LIMIT)
+    };
 
     // Filter interventions based on criteria
-    const eligibleInterventions = this.filterInterventions(criteria);
+    const eligibleInterventions = this.filterInterventions(criteria, evidence);
 
     // Rank interventions by appropriateness
     const rankedInterventions = this.rankInterventions(
       eligibleInterventions,
-      criteria
+      criteria,
+      evidence
     );
 
     // Select top interventions
@@ -559,7 +812,7 @@ export class InterventionSelector extends EventEmitter {
     );
 
     // Record selection for learning
-    await this.recordSelection(context.userId, selectedInterventions, criteria);
+    await this.recordSelection(context, selectedInterventions, criteria);
 
     // Emit selection event
     this.emit('interventions-selected', {
@@ -574,7 +827,8 @@ export class InterventionSelector extends EventEmitter {
   private buildSelectionCriteria(
     context: any,
     message: any,
-    crisisAssessment: any
+    crisisAssessment: any,
+    history: InterventionOutcomeRecord[]
   ): SelectionCriteria {
     return {
       userProfile: context.userProfile,
@@ -582,7 +836,7 @@ export class InterventionSelector extends EventEmitter {
       riskLevel: crisisAssessment.level,
       preferences: this.extractPreferences(context),
       contraindications: this.extractContraindications(context),
-      previousInterventions: this.getPreviousInterventions(context.userId),
+      previousInterventions: [...new Set(history.map(record => record.interventionId))],
       culturalFactors: this.extractCulturalFactors(context)
     };
   }
@@ -651,11 +905,6 @@ export class InterventionSelector extends EventEmitter {
     return contraindications;
   }
 
-  private getPreviousInterventions(userId: string): string[] {
-    const history = this.selectionHistory.get(userId) || [];
-    return history.map(h => h.interventionId);
-  }
-
   private extractCulturalFactors(context: any): CulturalFactors {
     const profile = context.userProfile;
     return {
@@ -666,12 +915,17 @@ export class InterventionSelector extends EventEmitter {
     };
   }
 
-  private filterInterventions(criteria: SelectionCriteria): Intervention[] {
+  private filterInterventions(criteria: SelectionCriteria, evidence: SelectionEvidence): Intervention[] {
     const interventions = Array.from(this.interventionLibrary.values());
     
+    const inCrisis = criteria.riskLevel === 'high' || criteria.riskLevel === 'critical';
+
     return interventions.filter(intervention => {
+      // In a crisis, safety interventions are offered whatever the symptoms, time and difficulty
+      const crisisOverride = inCrisis && SAFETY_TYPES.includes(intervention.type);
+
       // Check if intervention targets current symptoms
-      const targetsSymptoms = intervention.targetSymptoms.some(
+      const targetsSymptoms = crisisOverride || intervention.targetSymptoms.some(
         symptom => criteria.currentSymptoms.includes(symptom)
       );
       
@@ -681,10 +935,10 @@ export class InterventionSelector extends EventEmitter {
       );
       
       // Check time availability
-      const fitsTimeframe = intervention.duration <= criteria.preferences.timeAvailable;
+      const fitsTimeframe = crisisOverride || intervention.duration <= criteria.preferences.timeAvailable;
       
       // Check difficulty level
-      const appropriateDifficulty = this.isDifficultyAppropriate(
+      const appropriateDifficulty = crisisOverride || this.isDifficultyAppropriate(
         intervention.difficulty,
         criteria.preferences.difficultyLevel
       );
@@ -693,15 +947,32 @@ export class InterventionSelector extends EventEmitter {
       const modalityAcceptable = !criteria.preferences.avoidModalities.includes(
         intervention.modality
       );
+
+      // Check cultural and religious considerations
+      const culturallyAppropriate = !this.conflictsWithCulture(intervention, criteria.culturalFactors);
+
+      // Don't offer again what the user told us doesn't help
+      const notRuledOut = SAFETY_TYPES.includes(intervention.type) ||
+        !ruledOutByUser(intervention.id, evidence.personal);
       
       return targetsSymptoms && 
              !hasContraindication && 
              fitsTimeframe && 
              appropriateDifficulty &&
-             modalityAcceptable;
+             modalityAcceptable &&
+             culturallyAppropriate &&
+             notRuledOut;
     });
   }
 
+  private conflictsWithCulture(intervention: Intervention, factors: CulturalFactors): boolean {
+    const considerations = [
+      ...(factors.religiousConsiderations ?? []),
+      ...(factors.culturalBackground ? [factors.culturalBackground] : [])
+    ].map(consideration => consideration.toLowerCase());
+    return (intervention.culturalExclusions ?? []).some(exclusion => considerations.includes(exclusion));
+  }
+
   private isDifficultyAppropriate(
     interventionDifficulty: string,
     userPreference: string
@@ -716,20 +987,18 @@ export class InterventionSelector extends EventEmitter {
 
   private rankInterventions(
     interventions: Intervention[],
-    criteria: SelectionCriteria
+    criteria: SelectionCriteria,
+    evidence: SelectionEvidence
   ): Intervention[] {
     const scored = interventions.map(intervention => {
       let score = 0;
       
-      // Evidence base score (0-30 points)
-      const evidenceScores = { strong: 30, moderate: 20, emerging: 10, expert_consensus: 15 };
+      // Evidence base score (0-15 points)
+      const evidenceScores = { strong: 15, moderate: 10, emerging: 5, expert_consensus: 8 };
       score += evidenceScores[intervention.evidenceBase];
       
-      // Effectiveness score (0-20 points)
-      score += (intervention.effectiveness.averageImprovement / 100) * 20;
-      
-      // User engagement score (0-15 points)
-      score += (intervention.effectiveness.engagementRate / 100) * 15;
+      // Learned effectiveness for this user, with an exploration bonus (0-60 points)
+      score += scoreArm(intervention, evidence.personal, evidence.population).score * 50;
       
       // Symptom match score (0-20 points)
       const symptomMatches = intervention.targetSymptoms.filter(
@@ -738,22 +1007,22 @@ export class InterventionSelector extends EventEmitter {
       score += (symptomMatches / Math.max(intervention.targetSymptoms.length, 1)) * 20;
       
       // Preference match score (0-15 points)
-      if (criteria.preferences.preferredModalities.includes(intervention.modality)) {
+      const preferredApproach = criteria.culturalFactors.preferredApproach;
+      if (
+        criteria.preferences.preferredModalities.includes(intervention.modality) ||
+        preferredApproach === intervention.type ||
+        preferredApproach === intervention.modality
+      ) {
         score += 15;
       }
       
       // Crisis appropriateness
       if (criteria.riskLevel === 'high' || criteria.riskLevel === 'critical') {
-        if (intervention.type === 'safety_planning' || intervention.type === 'crisis_escalation') {
+        if (SAFETY_TYPES.includes(intervention.type)) {
           score += 50; // Heavily prioritize crisis interventions
         }
       }
       
-      // Novelty bonus (avoid repetition)
-      if (!criteria.previousInterventions.includes(intervention.id)) {
-        score += 5;
-      }
-      
       return { intervention, score };
     });
     
@@ -788,47 +1057,62 @@ export class InterventionSelector extends EventEmitter {
   }
 
   private async recordSelection(
-    userId: string,
+    context: any,
     interventions: Intervention[],
     criteria: SelectionCriteria
   ): Promise<void> {
-    if (!this.selectionHistory.has(userId)) {
-      this.selectionHistory.set(userId, []);
-    }
-    
-    const history = this.selectionHistory.get(userId)!;
-    for (const intervention of interventions) {
-      history.push({
-        interventionId: intervention.id,
-        timestamp: new Date(),
-        criteria,
-        outcome: null // To be filled after intervention completion
-      });
-    }
-    
-    // Keep only last 50 selections
-    if (history.length > 50) {
-      this.selectionHistory.set(userId, history.slice(-50));
-    }
+    const selectedAt = new Date();
+    await this.store.recordSelections(interventions.map(intervention => ({
+      userId: context.userId,
+      interventionId: intervention.id,
+      interventionType: intervention.type,
+      sessionId: context.sessionId,
+      symptoms: criteria.currentSymptoms,
+      riskLevel: criteria.riskLevel,
+      selectedAt
+    })));
   }
 
   public async recordOutcome(
     userId: string,
     interventionId: string,
-    outcome: InterventionResult
+    outcome: InterventionResult,
+    feedback: InterventionFeedback = {}
   ): Promise<void> {
-    const history = this.selectionHistory.get(userId);
-    if (!history) return;
-    
-    const record = history.find(h => h.interventionId === interventionId && !h.outcome);
-    if (record) {
-      record.outcome = outcome;
-    }
+    await this.recordFeedback(userId, interventionId, {
+      ...feedback,
+      completed: outcome.success,
+      engagement: outcome.userEngagement,
+      symptomImprovement: outcome.symptomImprovement
+    });
     
     // Update effectiveness metrics
     await this.updateEffectivenessMetrics(interventionId, outcome);
   }
 
+  /**
+   * Record what the user said about an intervention; a low rating keeps it
+   * from being offered to them again
+   */
+  public async recordFeedback(
+    userId: string,
+    interventionId: string,
+    feedback: InterventionFeedback
+  ): Promise<InterventionOutcomeRecord> {
+    const intervention = this.interventionLibrary.get(interventionId);
+    if (!intervention) {
+      throw new ValidationError('Unknown intervention', undefined, { interventionId });
+    }
+
+    const record = await this.store.recordFeedback(userId, intervention, feedback);
+    this.emit('feedback-recorded', { userId, interventionId, record });
+    return record;
+  }
+
+  public async getHistory(userId: string, limit = HISTORY_LIMIT): Promise<InterventionOutcomeRecord[]> {
+    return this.store.loadHistory(userId, limit);
+  }
+
   private async updateEffectivenessMetrics(
     interventionId: string,
     outcome: InterventionResult
@@ -877,13 +1161,6 @@ export class InterventionSelector extends EventEmitter {
   }
 }
 
-interface InterventionHistory {
-  interventionId: string;
-  timestamp: Date;
-  criteria: SelectionCriteria;
-  outcome: InterventionResult | null;
-}
-
 interface EffectivenessMetrics {
   totalUses: number;
   successfulUses: number;
@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from 'events';
+import { analyzeClauses, ownStatements } from '@/lib/crisis-risk/clause-analysis';
+import type { ClauseAnalysis } from '@/lib/crisis-risk/types';
 
 export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt';
 
@@ -18,6 +20,8 @@ export interface ProcessedMessage {
   keywords: string[];
   topics: string[];
   therapeuticElements: TherapeuticElements;
+  // Who each clause is about, its tense, and what it negates or reports
+  clauses: ClauseAnalysis[];
 }
 
 export interface SentimentAnalysis {
@@ -266,6 +270,10 @@ export class LanguageProcessor extends EventEmitter {
       this.emit('language-mismatch', { expected: language, detected: detectedLanguage });
     }
 
+    // Split into clauses, keeping what the writer says about themselves now
+    const clauses = analyzeClauses(text, detectedLanguage);
+    const ownText = this.normalizeText(ownStatements(text, clauses));
+
     // Analyze sentiment
     const sentiment = this.analyzeSentiment(normalized, config);
 
@@ -273,7 +281,7 @@ export class LanguageProcessor extends EventEmitter {
     const emotions = this.analyzeEmotions(normalized, config);
 
     // Classify intent
-    const intent = this.classifyIntent(normalized);
+    const intent = this.classifyIntent(normalized, ownText);
 
     // Extract entities
     const entities = this.extractEntities(normalized);
@@ -285,7 +293,7 @@ export class LanguageProcessor extends EventEmitter {
     const topics = this.identifyTopics(normalized, keywords);
 
     // Extract therapeutic elements
-    const therapeuticElements = this.extractTherapeuticElements(normalized, config);
+    const therapeuticElements = this.extractTherapeuticElements(normalized, config, ownText);
 
     const processed: ProcessedMessage = {
       original: text,
@@ -297,7 +305,8 @@ export class LanguageProcessor extends EventEmitter {
       entities,
       keywords,
       topics,
-      therapeuticElements
+      therapeuticElements,
+      clauses
     };
 
     // Emit analysis complete event
@@ -513,13 +522,13 @@ export class LanguageProcessor extends EventEmitter {
     };
   }
 
-  private classifyIntent(text: string): IntentClassification {
+  private classifyIntent(text: string, ownText: string): IntentClassification {
     const detectedIntents: Map<IntentType, number> = new Map();
     
-    // Check intent patterns
+    // Check intent patterns; crisis wording only counts when it is the writer's own
     for (const [intent, patterns] of this.intentPatterns) {
       for (const pattern of patterns) {
-        if (pattern.test(text)) {
+        if (pattern.test(intent === 'crisis_expression' ? ownText : text)) {
           const current = detectedIntents.get(intent) || 0;
           detectedIntents.set(intent, current + 1);
         }
@@ -663,7 +672,8 @@ export class LanguageProcessor extends EventEmitter {
 
   private extractTherapeuticElements(
     text: string,
-    config: LanguageConfig
+    config: LanguageConfig,
+    ownText: string
   ): TherapeuticElements {
     const elements: TherapeuticElements = {
       copingMechanisms: [],
@@ -709,13 +719,13 @@ export class LanguageProcessor extends EventEmitter {
       }
     }
     
-    // Extract risk factors
+    // Extract risk factors, leaving out other people's and long-past ones
     const riskKeywords = [
       'alone', 'isolated', 'hopeless', 'worthless', 'burden',
       'give up', 'no support', 'cant cope'
     ];
     for (const keyword of riskKeywords) {
-      if (text.includes(keyword)) {
+      if (ownText.includes(keyword)) {
         elements.riskFactors.push(keyword);
       }
     }
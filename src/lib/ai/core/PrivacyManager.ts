@@ -34,7 +34,8 @@ export type ConsentType =
   | 'emergency_contact'
   | 'data_sharing'
   | 'marketing'
-  | 'research';
+  | 'research'
+  | 'conversation_memory';
 
 export interface DataClassification {
   level: 'public' | 'internal' | 'confidential' | 'restricted';
@@ -279,6 +280,17 @@ export class PrivacyManager extends EventEmitter {
     return { valid, missing: missingConsents.length > 0 ? missingConsents : undefined };
   }
 
+  /**
+   * Whether the user's current consent of this type is granted
+   */
+  public hasConsent(userId: string, consentType: ConsentType): boolean {
+    const current = (this.consentRecords.get(userId) || []).filter(c =>
+      c.consentType === consentType &&
+      (!c.expiresAt || c.expiresAt > new Date())
+    );
+    return current.length > 0 && current[current.length - 1]!.granted;
+  }
+
   public async recordConsent(consent: ConsentRecord): Promise<void> {
     if (!this.consentRecords.has(consent.userId)) {
       this.consentRecords.set(consent.userId, []);
@@ -308,26 +320,11 @@ export class PrivacyManager extends EventEmitter {
   }
 
   public async sanitizeResponse(response: any): Promise<SanitizedResponse> {
-    let content = typeof response === 'string' ? response : response.content;
-    const redactedItems: RedactedItem[] = [];
-    const privacyViolations: string[] = [];
-
-    // Check for PII
-    for (const piiPattern of this.PII_PATTERNS) {
-      const matches = content.match(piiPattern.pattern);
-      if (matches) {
-        matches.forEach((match: string) => {
-          const redacted = this.redactString(match);
-          content = content.replace(match, redacted);
-          redactedItems.push({
-            type: piiPattern.type,
-            originalLength: match.length,
-            reason: 'PII_DETECTED'
-          });
-        });
-        privacyViolations.push(`${piiPattern.type} detected and redacted`);
-      }
-    }
+    const redaction = this.redactPII(typeof response === 'string' ? response : response.content);
+    let content = redaction.content;
+    const redactedItems = redaction.redactedItems;
+    const privacyViolations = Array.from(new Set(redactedItems.map(item => item.type)))
+      .map(type => `${type} detected and redacted`);
 
     // Check for health information disclosure
     const healthInfoPatterns = [
@@ -359,6 +356,31 @@ export class PrivacyManager extends EventEmitter {
     };
   }
 
+  /**
+   * Redact PII without any other rewriting, for text that is passed on as-is
+   * (chat messages before they reach the model, model replies to the user)
+   */
+  public redactPII(text: string): { content: string; redactedItems: RedactedItem[] } {
+    let content = text;
+    const redactedItems: RedactedItem[] = [];
+
+    for (const piiPattern of this.PII_PATTERNS) {
+      const matches = content.match(piiPattern.pattern);
+      if (matches) {
+        matches.forEach((match: string) => {
+          content = content.replace(match, this.redactString(match));
+          redactedItems.push({
+            type: piiPattern.type,
+            originalLength: match.length,
+            reason: 'PII_DETECTED'
+          });
+        });
+      }
+    }
+
+    return { content, redactedItems };
+  }
+
   private redactString(str: string): string {
     // Keep first and last character for context, redact middle
     if (str.length <= 2) return '**';
@@ -0,0 +1,77 @@
+/**
+ * Stream Safety Buffer
+ * Holds streamed model output back until a sentence is complete, so the
+ * safety checks see each sentence before the user does and a reply can be
+ * cut off before anything unsafe is shown.
+ */
+
+// Longest run of text held back while waiting for a sentence to end
+export const MAX_HELD_CHARS = 320;
+
+// End of a sentence (with any closing quotes or brackets) or of a line
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s+|\n+/g;
+
+/**
+ * Split held text into the part that can be checked and released now and
+ * the part that must wait for more output
+ */
+export function splitAtSentenceBoundary(
+  text: string,
+  maxHeld: number = MAX_HELD_CHARS
+): { ready: string; rest: string } {
+  let cut = -1;
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    cut = (match.index ?? 0) + match[0].length;
+  }
+
+  if (cut === -1 && text.length > maxHeld) {
+    const lastSpace = text.lastIndexOf(' ', maxHeld);
+    cut = lastSpace > 0 ? lastSpace + 1 : maxHeld;
+  }
+
+  return cut === -1 ? { ready: '', rest: text } : { ready: text.slice(0, cut), rest: text.slice(cut) };
+}
+
+export class StreamSafetyBuffer {
+  private released = '';
+  private held = '';
+
+  constructor(private readonly maxHeld: number = MAX_HELD_CHARS) {}
+
+  /**
+   * Add streamed output; returns text ready to be checked, or '' while the
+   * current sentence is incomplete
+   */
+  public push(delta: string): string {
+    const { ready, rest } = splitAtSentenceBoundary(this.held + delta, this.maxHeld);
+    this.held = rest;
+    return ready;
+  }
+
+  /**
+   * Everything still held, once the stream has ended
+   */
+  public drain(): string {
+    const rest = this.held;
+    this.held = '';
+    return rest;
+  }
+
+  /**
+   * Mark checked text as shown to the user
+   */
+  public release(segment: string): void {
+    this.released += segment;
+  }
+
+  /**
+   * Output shown so far followed by `segment`, the text the checks run on
+   */
+  public withReleased(segment: string): string {
+    return this.released + segment;
+  }
+
+  public get releasedText(): string {
+    return this.released;
+  }
+}
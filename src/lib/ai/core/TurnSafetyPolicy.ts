@@ -0,0 +1,75 @@
+/**
+ * Turn Safety Policy
+ * Decides what happened to a chat turn in the safety pipeline and how that is
+ * explained to the user. Blocked turns never reach the language model;
+ * rewritten turns were changed on the way in or out.
+ */
+
+export type TurnSafetyAction = 'allowed' | 'rewritten' | 'blocked';
+
+export type TurnSafetyReason =
+  | 'consent_required'
+  | 'crisis_detected'
+  | 'message_pii_redacted'
+  | 'boundary_violation'
+  | 'response_crisis_detected'
+  | 'response_pii_redacted';
+
+export interface TurnSafety {
+  action: TurnSafetyAction;
+  reasons: TurnSafetyReason[];
+  notice?: string;
+  violations?: string[];
+  redactedTypes?: string[];
+}
+
+// Reasons that stop the turn before anything is sent to the model
+const BLOCKING_REASONS: TurnSafetyReason[] = ['consent_required', 'crisis_detected'];
+
+const REASON_NOTICES: Record<TurnSafetyReason, string> = {
+  consent_required:
+    'AI chat needs your consent to the terms of service, privacy policy and processing of your messages before it can reply.',
+  crisis_detected:
+    'Your message suggests you may not be safe right now, so instead of an AI reply you are being offered crisis support.',
+  message_pii_redacted:
+    'Personal details such as phone numbers or email addresses were removed from your message before it was sent to the AI.',
+  boundary_violation:
+    "The AI's reply went beyond what it can safely advise on, so it was replaced with a safer response.",
+  response_crisis_detected:
+    "The AI's reply was stopped because it raised safety concerns, and crisis support information is shown instead.",
+  response_pii_redacted: "Personal details were removed from the AI's reply.",
+};
+
+export function isBlockingReason(reason: TurnSafetyReason): boolean {
+  return BLOCKING_REASONS.includes(reason);
+}
+
+export function getTurnSafetyAction(reasons: TurnSafetyReason[]): TurnSafetyAction {
+  if (reasons.some(isBlockingReason)) return 'blocked';
+  return reasons.length > 0 ? 'rewritten' : 'allowed';
+}
+
+/**
+ * User-facing explanation of a blocked or rewritten turn, in the order the
+ * checks ran. Allowed turns have no notice.
+ */
+export function getTurnSafetyNotice(reasons: TurnSafetyReason[]): string | undefined {
+  const unique = Array.from(new Set(reasons));
+  if (unique.length === 0) return undefined;
+  return unique.map(reason => REASON_NOTICES[reason]).join(' ');
+}
+
+export function buildTurnSafety(
+  reasons: TurnSafetyReason[],
+  details: { violations?: string[]; redactedTypes?: string[] } = {}
+): TurnSafety {
+  const unique = Array.from(new Set(reasons));
+  const redactedTypes = Array.from(new Set(details.redactedTypes ?? []));
+  return {
+    action: getTurnSafetyAction(unique),
+    reasons: unique,
+    notice: getTurnSafetyNotice(unique),
+    violations: details.violations?.length ? details.violations : undefined,
+    redactedTypes: redactedTypes.length > 0 ? redactedTypes : undefined,
+  };
+}
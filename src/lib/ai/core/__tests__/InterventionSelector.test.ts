@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals'
+import { InterventionSelector } from '../InterventionSelector'
+
+const anxious = { emotions: { primary: 'anxiety', intensity: 0.5 } }
+const lowRisk = { level: 'low' }
+
+const ids = (interventions: { id: string }[]) => interventions.map(intervention => intervention.id)
+
+describe('InterventionSelector', () => {
+  it('should record what it selects in the user\'s history', async () => {
+    const selector = new InterventionSelector()
+    const selected = await selector.select({ userId: 'user-1', sessionId: 'session-1' }, anxious, lowRisk)
+
+    const history = await selector.getHistory('user-1')
+    expect(history.map(record => record.interventionId).sort()).toEqual(ids(selected).sort())
+    expect(history[0]).toMatchObject({ sessionId: 'session-1', symptoms: ['anxiety'], riskLevel: 'low' })
+  })
+
+  it('should not offer an exercise again after the user said it did not help', async () => {
+    const selector = new InterventionSelector()
+    const context = { userId: 'user-1', sessionId: 'session-1' }
+    expect(ids(await selector.select(context, anxious, lowRisk))).toContain('mindfulness_breathing')
+
+    await selector.recordFeedback('user-1', 'mindfulness_breathing', { rating: 1 })
+
+    expect(ids(await selector.select(context, anxious, lowRisk))).not.toContain('mindfulness_breathing')
+    expect(ids(await selector.select({ userId: 'user-2' }, anxious, lowRisk))).toContain('mindfulness_breathing')
+  })
+
+  it('should respect religious and cultural considerations', async () => {
+    const selector = new InterventionSelector()
+    const context = {
+      userId: 'user-1',
+      userProfile: { preferences: { religiousConsiderations: ['Avoids meditation'] } }
+    }
+
+    expect(ids(await selector.select(context, anxious, lowRisk))).not.toContain('mindfulness_breathing')
+  })
+
+  it('should keep offering safety planning whatever it was rated', async () => {
+    const selector = new InterventionSelector()
+    await selector.recordFeedback('user-1', 'crisis_safety_planning', { rating: 1 })
+
+    const selected = await selector.select({ userId: 'user-1' }, anxious, { level: 'critical' })
+    expect(ids(selected)).toEqual(['crisis_safety_planning'])
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from '@jest/globals'
+import { LanguageProcessor } from '../LanguageProcessor'
+
+describe('LanguageProcessor', () => {
+  it('should expose clause analysis in the processed message', async () => {
+    const processed = await new LanguageProcessor().analyze('My friend said she wants to give up', 'en')
+
+    expect(processed.clauses).toHaveLength(2)
+    expect(processed.clauses[1]).toMatchObject({ subject: 'third_person', reportedSpeech: true })
+  })
+
+  it('should only read crisis intent and risk factors from the writer\'s own statements', async () => {
+    const processor = new LanguageProcessor()
+
+    const own = await processor.analyze('I feel hopeless and I want to give up', 'en')
+    expect([own.intent.primary, ...(own.intent.secondary ?? [])]).toContain('crisis_expression')
+    expect(own.therapeuticElements.riskFactors).toEqual(['hopeless', 'give up'])
+
+    const friend = await processor.analyze('My friend feels hopeless and wants to give up', 'en')
+    expect([friend.intent.primary, ...(friend.intent.secondary ?? [])]).not.toContain('crisis_expression')
+    expect(friend.therapeuticElements.riskFactors).toEqual([])
+  })
+})
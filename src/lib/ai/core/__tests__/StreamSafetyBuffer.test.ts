@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals'
+import { StreamSafetyBuffer, splitAtSentenceBoundary } from '../StreamSafetyBuffer'
+
+describe('Stream safety buffer', () => {
+  it('should hold text until a sentence ends', () => {
+    const buffer = new StreamSafetyBuffer()
+
+    expect(buffer.push('That sounds')).toBe('')
+    expect(buffer.push(' really hard. What')).toBe('That sounds really hard. ')
+    expect(buffer.push(' helps?')).toBe('')
+    expect(buffer.drain()).toBe('What helps?')
+  })
+
+  it('should not split email addresses or decimals at their dots', () => {
+    expect(splitAtSentenceBoundary('Write to care@example.org or take 2.5')).toEqual({
+      ready: '',
+      rest: 'Write to care@example.org or take 2.5',
+    })
+  })
+
+  it('should release at line breaks and after closing quotes', () => {
+    expect(splitAtSentenceBoundary('Try this:\n- Breathe')).toEqual({ ready: 'Try this:\n', rest: '- Breathe' })
+    expect(splitAtSentenceBoundary('You said "I can\'t." Then')).toEqual({
+      ready: 'You said "I can\'t." ',
+      rest: 'Then',
+    })
+  })
+
+  it('should release long runs without a sentence end at a word boundary', () => {
+    const { ready, rest } = splitAtSentenceBoundary('one two three four', 10)
+
+    expect(ready).toBe('one two ')
+    expect(rest).toBe('three four')
+  })
+
+  it('should check new text together with what was already shown', () => {
+    const buffer = new StreamSafetyBuffer()
+    const first = buffer.push('First sentence. ')
+    buffer.release(first)
+
+    expect(buffer.withReleased('Second one. ')).toBe('First sentence. Second one. ')
+    expect(buffer.releasedText).toBe('First sentence. ')
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildTurnSafety, getTurnSafetyAction, getTurnSafetyNotice } from '../TurnSafetyPolicy'
+
+describe('Turn safety policy', () => {
+  it('should allow turns that no check changed', () => {
+    const safety = buildTurnSafety([])
+
+    expect(safety.action).toBe('allowed')
+    expect(safety.notice).toBeUndefined()
+  })
+
+  it('should block turns stopped before generation', () => {
+    expect(getTurnSafetyAction(['consent_required'])).toBe('blocked')
+    expect(getTurnSafetyAction(['crisis_detected'])).toBe('blocked')
+  })
+
+  it('should mark redacted or replaced turns as rewritten', () => {
+    expect(getTurnSafetyAction(['message_pii_redacted'])).toBe('rewritten')
+    expect(getTurnSafetyAction(['boundary_violation', 'response_pii_redacted'])).toBe('rewritten')
+  })
+
+  it('should explain every reason once, in the order the checks ran', () => {
+    const notice = getTurnSafetyNotice(['message_pii_redacted', 'boundary_violation', 'message_pii_redacted'])
+
+    expect(notice).toBe(
+      'Personal details such as phone numbers or email addresses were removed from your message before it was sent to the AI. ' +
+        "The AI's reply went beyond what it can safely advise on, so it was replaced with a safer response."
+    )
+  })
+
+  it('should list redacted data types without duplicates and omit empty details', () => {
+    const safety = buildTurnSafety(['message_pii_redacted'], {
+      violations: [],
+      redactedTypes: ['Email', 'Phone', 'Email'],
+    })
+
+    expect(safety.redactedTypes).toEqual(['Email', 'Phone'])
+    expect(safety.violations).toBeUndefined()
+  })
+})
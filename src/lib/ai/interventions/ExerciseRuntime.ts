@@ -0,0 +1,387 @@
+/**
+ * Exercise Runtime
+ * Runs an intervention as a guided exercise: one step at a time, each
+ * capturing the structured input its library component asks for, between a
+ * distress check-in at the start and a check-out at the end. The state is
+ * plain data so it can be saved after every step and picked up on another
+ * device; every transition returns a new state.
+ */
+
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import type { ExerciseInput, Intervention } from '../core/InterventionSelector';
+
+export type ExerciseStatus = 'in_progress' | 'paused' | 'completed' | 'abandoned';
+
+export type ExerciseValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | Record<string, string>
+  | Record<string, Record<string, number>>;
+
+// Answers for one step, by input id
+export type StepResponses = Record<string, ExerciseValue>;
+
+export interface ExerciseStep {
+  id: string;
+  title: string;
+  instruction: string;
+  durationMinutes: number;
+  inputs: ExerciseInput[];
+}
+
+export interface ExerciseState {
+  interventionId: string;
+  status: ExerciseStatus;
+  currentStep: number;
+  // By step id
+  responses: Record<string, StepResponses>;
+  startedAt: Date;
+  lastActiveAt: Date;
+  pausedAt?: Date;
+  finishedAt?: Date;
+  // Time spent on the exercise, not counting pauses or long idle gaps
+  activeSeconds: number;
+}
+
+export interface ExerciseCompletion {
+  interventionId: string;
+  distressBefore: number | null;
+  distressAfter: number | null;
+  // Percentage drop in distress from check-in to check-out
+  improvement: number | null;
+  // 1-5, how helpful the user found it
+  rating: number | null;
+  answeredSteps: number;
+  totalSteps: number;
+  activeSeconds: number;
+  completedAt: Date;
+}
+
+// Idle time beyond this between two actions is not counted as active
+const MAX_ACTIVE_GAP_SECONDS = 15 * 60;
+const MAX_TEXT_LENGTH = 2000;
+
+export const CHECK_IN_STEP: ExerciseStep = {
+  id: 'check_in',
+  title: 'Check in',
+  instruction: 'Before you start, notice how you feel right now',
+  durationMinutes: 0.5,
+  inputs: [
+    { id: 'distress_before', type: 'scale', label: 'How distressed do you feel (0-10)?', required: true, min: 0, max: 10 }
+  ]
+};
+
+export const CHECK_OUT_STEP: ExerciseStep = {
+  id: 'check_out',
+  title: 'Check out',
+  instruction: 'Notice how you feel now that you have finished',
+  durationMinutes: 0.5,
+  inputs: [
+    { id: 'distress_after', type: 'scale', label: 'How distressed do you feel now (0-10)?', required: true, min: 0, max: 10 },
+    { id: 'helpfulness', type: 'scale', label: 'How helpful was this (1-5)?', min: 1, max: 5 }
+  ]
+};
+
+export function isGuidedExercise(intervention: Intervention): boolean {
+  return intervention.components.some(component => (component.inputs?.length ?? 0) > 0);
+}
+
+export function buildExerciseSteps(intervention: Intervention): ExerciseStep[] {
+  return [
+    CHECK_IN_STEP,
+    ...intervention.components.map(component => ({
+      id: `step_${component.step}`,
+      title: component.userAction ?? `Step ${component.step}`,
+      instruction: component.instruction,
+      durationMinutes: component.duration,
+      inputs: component.inputs ?? []
+    })),
+    CHECK_OUT_STEP
+  ];
+}
+
+export function startExercise(intervention: Intervention, now: Date): ExerciseState {
+  if (!isGuidedExercise(intervention)) {
+    throw new ValidationError('This intervention has no guided exercise', undefined, {
+      interventionId: intervention.id
+    });
+  }
+  return {
+    interventionId: intervention.id,
+    status: 'in_progress',
+    currentStep: 0,
+    responses: {},
+    startedAt: now,
+    lastActiveAt: now,
+    activeSeconds: 0
+  };
+}
+
+function invalidTransition(state: ExerciseState, action: string): WorkflowError {
+  return new WorkflowError(`Cannot ${action} an exercise that is ${state.status.replace('_', ' ')}`, {
+    interventionId: state.interventionId,
+    status: state.status
+  });
+}
+
+function requireStatus(state: ExerciseState, status: ExerciseStatus, action: string): void {
+  if (state.status !== status) {
+    throw invalidTransition(state, action);
+  }
+}
+
+function touch(state: ExerciseState, now: Date): Pick<ExerciseState, 'activeSeconds' | 'lastActiveAt'> {
+  const gap = Math.max(0, (now.getTime() - state.lastActiveAt.getTime()) / 1000);
+  return {
+    activeSeconds: state.activeSeconds + Math.round(Math.min(gap, MAX_ACTIVE_GAP_SECONDS)),
+    lastActiveAt: now
+  };
+}
+
+// The answer to an input from any step, for inputs that work on an earlier list
+export function findResponse(state: ExerciseState, inputId: string): ExerciseValue | undefined {
+  for (const responses of Object.values(state.responses)) {
+    if (inputId in responses) return responses[inputId];
+  }
+  return undefined;
+}
+
+function isBlank(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function inRange(value: unknown, min = -Infinity, max = Infinity): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function itemsFor(state: ExerciseState, input: ExerciseInput): string[] {
+  const items = input.itemsFrom ? findResponse(state, input.itemsFrom) : undefined;
+  return Array.isArray(items) ? items : [];
+}
+
+// The cleaned value, or an error message
+function checkInput(state: ExerciseState, input: ExerciseInput, raw: unknown): { value: ExerciseValue } | { error: string } {
+  const count = (items: unknown[]) =>
+    (input.minItems === undefined || items.length >= input.minItems) &&
+    (input.maxItems === undefined || items.length <= input.maxItems);
+  const countError = `${input.label}: give ${input.minItems === input.maxItems
+    ? input.minItems
+    : `${input.minItems ?? 0} to ${input.maxItems ?? 'any number of'}`} items`;
+
+  switch (input.type) {
+    case 'text':
+      if (typeof raw !== 'string') return { error: `${input.label}: expected text` };
+      if (raw.length > MAX_TEXT_LENGTH) return { error: `${input.label}: keep it under ${MAX_TEXT_LENGTH} characters` };
+      return { value: raw.trim() };
+
+    case 'scale':
+      if (!inRange(raw, input.min, input.max)) return { error: `${input.label}: choose ${input.min} to ${input.max}` };
+      return { value: raw };
+
+    case 'list': {
+      if (!Array.isArray(raw) || raw.some(item => typeof item !== 'string')) {
+        return { error: `${input.label}: expected a list` };
+      }
+      const items = (raw as string[]).map(item => item.trim()).filter(Boolean);
+      if (items.some(item => item.length > MAX_TEXT_LENGTH)) return { error: `${input.label}: an item is too long` };
+      return count(items) ? { value: items } : { error: countError };
+    }
+
+    case 'select': {
+      const options = itemsFor(state, input);
+      if (!Array.isArray(raw) || raw.some(item => !options.includes(item as string))) {
+        return { error: `${input.label}: choose from your earlier list` };
+      }
+      const chosen = [...new Set(raw as string[])];
+      return count(chosen) ? { value: chosen } : { error: countError };
+    }
+
+    case 'item_scales': {
+      const scales = input.scales ?? [];
+      const ratings = raw as Record<string, Record<string, unknown>>;
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { error: `${input.label}: expected ratings` };
+      const value: Record<string, Record<string, number>> = {};
+      for (const item of itemsFor(state, input)) {
+        value[item] = {};
+        for (const scale of scales) {
+          const rating = ratings[item]?.[scale.id];
+          if (!inRange(rating, scale.min, scale.max)) {
+            return { error: `${input.label}: rate "${item}" for ${scale.label.toLowerCase()} (${scale.min}-${scale.max})` };
+          }
+          value[item]![scale.id] = rating;
+        }
+      }
+      return { value };
+    }
+
+    case 'schedule': {
+      const times = raw as Record<string, unknown>;
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { error: `${input.label}: expected times` };
+      const value: Record<string, string> = {};
+      for (const item of itemsFor(state, input)) {
+        const time = times[item];
+        if (typeof time !== 'string' || Number.isNaN(Date.parse(time))) {
+          return { error: `${input.label}: pick a time for "${item}"` };
+        }
+        value[item] = new Date(time).toISOString();
+      }
+      return { value };
+    }
+
+    case 'confirm':
+      if (typeof raw !== 'boolean') return { error: `${input.label}: expected yes or no` };
+      return { value: raw };
+  }
+}
+
+/**
+ * Check a step's answers against its inputs. Unknown fields are dropped;
+ * missing required answers and malformed ones are all reported together.
+ */
+export function validateStepInput(
+  state: ExerciseState,
+  step: ExerciseStep,
+  input: Record<string, unknown>
+): StepResponses {
+  const responses: StepResponses = {};
+  const errors: string[] = [];
+
+  for (const field of step.inputs) {
+    const raw = input[field.id];
+    if (isBlank(raw)) {
+      if (field.required) errors.push(`${field.label}: required`);
+      continue;
+    }
+    const checked = checkInput(state, field, raw);
+    if ('error' in checked) {
+      errors.push(checked.error);
+    } else if (field.required && isBlank(checked.value)) {
+      errors.push(`${field.label}: required`);
+    } else {
+      responses[field.id] = checked.value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Some answers need another look', errors, { stepId: step.id });
+  }
+  return responses;
+}
+
+/**
+ * Save the answers for the current step and move on; answering the last
+ * step completes the exercise
+ */
+export function submitStep(
+  state: ExerciseState,
+  steps: ExerciseStep[],
+  input: Record<string, unknown>,
+  now: Date
+): ExerciseState {
+  requireStatus(state, 'in_progress', 'answer');
+  const step = steps[state.currentStep]!;
+  const responses = validateStepInput(state, step, input);
+  const last = state.currentStep === steps.length - 1;
+
+  return {
+    ...state,
+    ...touch(state, now),
+    responses: { ...state.responses, [step.id]: responses },
+    currentStep: last ? state.currentStep : state.currentStep + 1,
+    ...(last && { status: 'completed' as const, finishedAt: now })
+  };
+}
+
+export function goBack(state: ExerciseState, now: Date): ExerciseState {
+  requireStatus(state, 'in_progress', 'go back in');
+  return { ...state, ...touch(state, now), currentStep: Math.max(0, state.currentStep - 1) };
+}
+
+export function pauseExercise(state: ExerciseState, now: Date): ExerciseState {
+  requireStatus(state, 'in_progress', 'pause');
+  return { ...state, ...touch(state, now), status: 'paused', pausedAt: now };
+}
+
+// Time spent paused is not counted as active
+export function resumeExercise(state: ExerciseState, now: Date): ExerciseState {
+  requireStatus(state, 'paused', 'resume');
+  const { pausedAt: _pausedAt, ...rest } = state;
+  return { ...rest, status: 'in_progress', lastActiveAt: now };
+}
+
+export function abandonExercise(state: ExerciseState, now: Date): ExerciseState {
+  if (state.status === 'completed' || state.status === 'abandoned') {
+    throw invalidTransition(state, 'stop');
+  }
+  return { ...state, ...(state.status === 'in_progress' && touch(state, now)), status: 'abandoned', finishedAt: now };
+}
+
+export function summarizeExercise(state: ExerciseState, steps: ExerciseStep[]): ExerciseCompletion {
+  const number = (inputId: string) => {
+    const value = findResponse(state, inputId);
+    return typeof value === 'number' ? value : null;
+  };
+  const distressBefore = number('distress_before');
+  const distressAfter = number('distress_after');
+
+  return {
+    interventionId: state.interventionId,
+    distressBefore,
+    distressAfter,
+    improvement: distressBefore && distressAfter !== null
+      ? Math.round(((distressBefore - distressAfter) / distressBefore) * 100)
+      : null,
+    rating: number('helpfulness'),
+    answeredSteps: steps.filter(step => step.id in state.responses).length,
+    totalSteps: steps.length,
+    activeSeconds: state.activeSeconds,
+    completedAt: state.finishedAt ?? state.lastActiveAt
+  };
+}
+
+function formatValue(value: ExerciseValue): string {
+  if (typeof value === 'boolean') return value ? 'Done' : 'Not done';
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) return value.map(item => `- ${item}`).join('\n');
+  return Object.entries(value)
+    .map(([item, detail]) => `- ${item}: ${typeof detail === 'string'
+      ? new Date(detail).toLocaleString()
+      : Object.entries(detail).map(([scale, rating]) => `${scale} ${rating}`).join(', ')}`)
+    .join('\n');
+}
+
+/**
+ * The exercise written out as a journal entry, step by step
+ */
+export function formatExerciseJournal(
+  intervention: Intervention,
+  steps: ExerciseStep[],
+  state: ExerciseState
+): { title: string; content: string } {
+  const sections = steps
+    .filter(step => state.responses[step.id] && Object.keys(state.responses[step.id]!).length > 0)
+    .map(step => [
+      `## ${step.title}`,
+      ...step.inputs
+        .filter(input => input.id in state.responses[step.id]!)
+        .map(input => `${input.label}\n${formatValue(state.responses[step.id]![input.id]!)}`)
+    ].join('\n\n'));
+
+  return {
+    title: `${intervention.name} — ${(state.finishedAt ?? state.lastActiveAt).toLocaleDateString()}`,
+    content: sections.join('\n\n')
+  };
+}
+
+// Everything the user typed in a step, for the crisis check
+export function exerciseText(responses: StepResponses): string {
+  return Object.values(responses)
+    .flatMap(value => (typeof value === 'string' ? [value] : Array.isArray(value) ? value : []))
+    .join('\n');
+}
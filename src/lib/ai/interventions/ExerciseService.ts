@@ -0,0 +1,338 @@
+/**
+ * Exercise Service
+ * Stores guided exercise sessions so users can do an exercise step by step,
+ * pause it and pick it up on another device. A finished exercise is
+ * recorded in the user's intervention history, with its distress change
+ * and rating, and can be saved to their journal.
+ */
+
+import * as crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { encryptApiField } from '@/lib/api-utils';
+import {
+  EncryptedField,
+  PHI_FIELD_TYPES,
+  decryptField,
+  encryptField,
+} from '@/lib/encryption/field-encryption';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import { assessCrisisRisk, isAtLeast } from '@/lib/crisis-risk/risk-engine';
+import type { RiskSeverity } from '@/lib/crisis-risk/types';
+import type { Intervention, InterventionSelector } from '../core/InterventionSelector';
+import {
+  abandonExercise,
+  buildExerciseSteps,
+  exerciseText,
+  ExerciseCompletion,
+  ExerciseState,
+  ExerciseStatus,
+  ExerciseStep,
+  findResponse,
+  formatExerciseJournal,
+  goBack,
+  isGuidedExercise,
+  pauseExercise,
+  resumeExercise,
+  startExercise,
+  StepResponses,
+  submitStep,
+  summarizeExercise,
+} from './ExerciseRuntime';
+import { InterventionService } from './InterventionService';
+
+export type ExerciseAction =
+  | { type: 'submit'; input: Record<string, unknown>; saveToJournal?: boolean }
+  | { type: 'back' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'abandon' };
+
+export interface GuidedExerciseSummary {
+  interventionId: string;
+  name: string;
+  description: string;
+  durationMinutes: number;
+  stepCount: number;
+}
+
+export interface CrisisSupport {
+  severity: RiskSeverity;
+  immediateRisk: boolean;
+  resourcesUrl: string;
+}
+
+export interface ExerciseSessionView {
+  id: string;
+  interventionId: string;
+  name: string;
+  status: ExerciseStatus;
+  currentStep: number;
+  steps: ExerciseStep[];
+  responses: Record<string, StepResponses>;
+  version: number;
+  startedAt: Date;
+  lastActiveAt: Date;
+  pausedAt: Date | null;
+  finishedAt: Date | null;
+  activeSeconds: number;
+  completion?: ExerciseCompletion;
+  journalEntryId: string | null;
+  // Present when the answers just given suggest the user is at risk
+  crisisSupport?: CrisisSupport;
+}
+
+const UNFINISHED_STATUSES: ExerciseStatus[] = ['in_progress', 'paused'];
+
+type ExerciseRecord = Awaited<ReturnType<typeof prisma.aIExerciseSession.findMany>>[number];
+
+export class ExerciseService {
+  private static instance: ExerciseService | null = null;
+
+  constructor(
+    private readonly selector: InterventionSelector,
+    private readonly interventions: InterventionService
+  ) {}
+
+  /**
+   * Service for guided exercises, recording outcomes through the shared
+   * intervention history
+   */
+  public static getInstance(): ExerciseService {
+    if (!ExerciseService.instance) {
+      const interventions = InterventionService.getInstance();
+      ExerciseService.instance = new ExerciseService(interventions.getSelector(), interventions);
+    }
+    return ExerciseService.instance;
+  }
+
+  public listExercises(): GuidedExerciseSummary[] {
+    return this.selector.getAllInterventions()
+      .filter(isGuidedExercise)
+      .map(intervention => ({
+        interventionId: intervention.id,
+        name: intervention.name,
+        description: intervention.description,
+        durationMinutes: intervention.duration,
+        stepCount: buildExerciseSteps(intervention).length,
+      }));
+  }
+
+  /**
+   * Exercises started and not finished, most recently active first
+   */
+  public async listUnfinished(userId: string): Promise<ExerciseSessionView[]> {
+    const records = await prisma.aIExerciseSession.findMany({
+      where: { userId, status: { in: UNFINISHED_STATUSES } },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+    return records.map(record => this.toView(record));
+  }
+
+  /**
+   * Start an exercise, or pick up the one already under way for the same
+   * intervention
+   */
+  public async start(userId: string, interventionId: string, deviceId?: string): Promise<ExerciseSessionView> {
+    const intervention = this.findIntervention(interventionId);
+    const existing = await prisma.aIExerciseSession.findFirst({
+      where: { userId, interventionId, status: { in: UNFINISHED_STATUSES } },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+    if (existing) {
+      return this.toView(existing);
+    }
+
+    const state = startExercise(intervention, new Date());
+    const record = await prisma.aIExerciseSession.create({
+      data: { userId, ...this.toData(state, userId), lastDeviceId: deviceId },
+    });
+    return this.toView(record);
+  }
+
+  public async get(userId: string, sessionId: string): Promise<ExerciseSessionView> {
+    return this.toView(await this.findRecord(userId, sessionId));
+  }
+
+  /**
+   * Apply one action to an exercise. `version` is the one the device last
+   * saw; if another device has moved the exercise on since, nothing is
+   * changed and the device has to reload.
+   */
+  public async act(
+    userId: string,
+    sessionId: string,
+    version: number,
+    action: ExerciseAction,
+    deviceId?: string
+  ): Promise<ExerciseSessionView> {
+    const record = await this.findRecord(userId, sessionId);
+    const intervention = this.findIntervention(record.interventionId);
+    const steps = buildExerciseSteps(intervention);
+    const state = this.toState(record);
+    const now = new Date();
+
+    const next = this.apply(state, steps, action, now);
+    const { count } = await prisma.aIExerciseSession.updateMany({
+      where: { id: sessionId, userId, version },
+      data: { ...this.toData(next, userId), version: { increment: 1 }, lastDeviceId: deviceId },
+    });
+    if (count === 0) {
+      throw new WorkflowError('This exercise was updated on another device. Reload it to continue.', {
+        sessionId,
+        version,
+      });
+    }
+
+    let journalEntryId: string | null = null;
+    if (next.status === 'completed' || next.status === 'abandoned') {
+      await this.recordOutcome(userId, next, steps);
+      if (next.status === 'completed' && action.type === 'submit' && action.saveToJournal) {
+        journalEntryId = await this.saveToJournal(userId, intervention, steps, next);
+      }
+    }
+
+    const updated = journalEntryId
+      ? await prisma.aIExerciseSession.update({ where: { id: sessionId }, data: { journalEntryId } })
+      : await prisma.aIExerciseSession.findUniqueOrThrow({ where: { id: sessionId } });
+    const view = this.toView(updated);
+
+    if (action.type === 'submit') {
+      const step = steps[state.currentStep]!;
+      const risk = assessCrisisRisk(exerciseText(next.responses[step.id] ?? {}));
+      if (isAtLeast(risk.severity, 'high')) {
+        view.crisisSupport = { severity: risk.severity, immediateRisk: risk.immediateRisk, resourcesUrl: '/crisis' };
+      }
+    }
+    return view;
+  }
+
+  private apply(state: ExerciseState, steps: ExerciseStep[], action: ExerciseAction, now: Date): ExerciseState {
+    switch (action.type) {
+      case 'submit':
+        return submitStep(state, steps, action.input, now);
+      case 'back':
+        return goBack(state, now);
+      case 'pause':
+        return pauseExercise(state, now);
+      case 'resume':
+        return resumeExercise(state, now);
+      case 'abandon':
+        return abandonExercise(state, now);
+    }
+  }
+
+  // Abandoned exercises count too: how far users get is part of effectiveness
+  private async recordOutcome(userId: string, state: ExerciseState, steps: ExerciseStep[]): Promise<void> {
+    const completion = summarizeExercise(state, steps);
+    try {
+      await this.interventions.recordCompletion(userId, completion, state.status === 'completed');
+    } catch (error) {
+      console.error('Failed to record exercise outcome:', error);
+    }
+  }
+
+  private async saveToJournal(
+    userId: string,
+    intervention: Intervention,
+    steps: ExerciseStep[],
+    state: ExerciseState
+  ): Promise<string> {
+    const { title, content } = formatExerciseJournal(intervention, steps, state);
+    const now = new Date();
+    const entry = await prisma.journalEntry.create({
+      data: {
+        id: crypto.randomUUID(),
+        userId,
+        encryptedTitle: encryptApiField(title),
+        encryptedContent: encryptApiField(content),
+        encryptedTags: encryptApiField(['guided-exercise', intervention.name]),
+        isPrivate: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    return entry.id;
+  }
+
+  private findIntervention(interventionId: string): Intervention {
+    const intervention = this.selector.getIntervention(interventionId);
+    if (!intervention) {
+      throw new WorkflowError('Exercise not found', { interventionId });
+    }
+    return intervention;
+  }
+
+  private async findRecord(userId: string, sessionId: string): Promise<ExerciseRecord> {
+    const record = await prisma.aIExerciseSession.findFirst({ where: { id: sessionId, userId } });
+    if (!record) {
+      throw new WorkflowError('Exercise not found', { sessionId });
+    }
+    return record;
+  }
+
+  private toData(state: ExerciseState, userId: string) {
+    const summary = (inputId: string) => {
+      const value = findResponse(state, inputId);
+      return typeof value === 'number' ? value : null;
+    };
+    return {
+      interventionId: state.interventionId,
+      status: state.status,
+      currentStep: state.currentStep,
+      responsesEncrypted: encryptField(
+        JSON.stringify(state.responses),
+        PHI_FIELD_TYPES.EXERCISE_RESPONSES,
+        userId
+      ) as unknown as Prisma.InputJsonValue,
+      activeSeconds: state.activeSeconds,
+      startedAt: state.startedAt,
+      lastActiveAt: state.lastActiveAt,
+      pausedAt: state.pausedAt ?? null,
+      finishedAt: state.finishedAt ?? null,
+      distressBefore: summary('distress_before'),
+      distressAfter: summary('distress_after'),
+      rating: summary('helpfulness'),
+    };
+  }
+
+  private toState(record: ExerciseRecord): ExerciseState {
+    const responses = record.responsesEncrypted
+      ? decryptField(record.responsesEncrypted as unknown as EncryptedField, record.userId)
+      : null;
+    return {
+      interventionId: record.interventionId,
+      status: record.status as ExerciseStatus,
+      currentStep: record.currentStep,
+      responses: responses ? JSON.parse(responses) : {},
+      startedAt: record.startedAt,
+      lastActiveAt: record.lastActiveAt,
+      ...(record.pausedAt && { pausedAt: record.pausedAt }),
+      ...(record.finishedAt && { finishedAt: record.finishedAt }),
+      activeSeconds: record.activeSeconds,
+    };
+  }
+
+  private toView(record: ExerciseRecord): ExerciseSessionView {
+    const intervention = this.findIntervention(record.interventionId);
+    const steps = buildExerciseSteps(intervention);
+    const state = this.toState(record);
+    return {
+      id: record.id,
+      interventionId: record.interventionId,
+      name: intervention.name,
+      status: state.status,
+      currentStep: state.currentStep,
+      steps,
+      responses: state.responses,
+      version: record.version,
+      startedAt: record.startedAt,
+      lastActiveAt: record.lastActiveAt,
+      pausedAt: record.pausedAt,
+      finishedAt: record.finishedAt,
+      activeSeconds: record.activeSeconds,
+      ...(state.status === 'completed' && { completion: summarizeExercise(state, steps) }),
+      journalEntryId: record.journalEntryId,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Intervention Bandit
+ * Ranks interventions as arms of a contextual bandit. Each arm starts from a
+ * prior built from the library's published effectiveness, then learns from
+ * outcomes: the user's own ratings and mood changes count most, other users'
+ * outcomes for the same symptoms count a little. An uncertainty bonus keeps
+ * rarely tried interventions in the running without letting one that failed
+ * this user keep coming back.
+ */
+
+import type { Intervention, InterventionOutcomeRecord } from '../core/InterventionSelector';
+
+// A mood change of this many points (on the 1-10 check-in scale) either
+// way is full reward or none
+const MOOD_SWING = 2;
+
+// How many outcomes the library's effectiveness data is worth
+const PRIOR_STRENGTH = 4;
+
+// What one outcome adds to the posterior: the user's own, and one from
+// another user with the same symptoms
+const PERSONAL_WEIGHT = 3;
+const POPULATION_WEIGHT = 0.25;
+
+// How many standard deviations of uncertainty are added to the mean
+const EXPLORATION = 1;
+
+export interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+export interface ArmScore {
+  interventionId: string;
+  mean: number;
+  uncertainty: number;
+  // Mean plus the exploration bonus, 0-1 plus a little
+  score: number;
+  personalOutcomes: number;
+  populationOutcomes: number;
+}
+
+/**
+ * Reward for one outcome, 0-1: the average of whatever the user told us
+ * (rating, helpful or not) and how their mood moved. Null when there is no
+ * feedback at all, so unrated selections teach the bandit nothing.
+ */
+export function rewardOf(outcome: InterventionOutcomeRecord): number | null {
+  const signals: number[] = [];
+  if (outcome.rating !== undefined) {
+    signals.push((outcome.rating - 1) / 4);
+  } else if (outcome.helpful !== undefined) {
+    signals.push(outcome.helpful ? 1 : 0);
+  }
+  if (outcome.moodBefore !== undefined && outcome.moodAfter !== undefined) {
+    const delta = outcome.moodAfter - outcome.moodBefore;
+    signals.push(Math.min(1, Math.max(0, 0.5 + delta / (2 * MOOD_SWING))));
+  }
+  if (signals.length === 0) return null;
+  return signals.reduce((sum, signal) => sum + signal, 0) / signals.length;
+}
+
+// The library's expected success rate, from improvement and satisfaction
+export function priorFor(intervention: Intervention): BetaPosterior {
+  const { averageImprovement, userSatisfaction } = intervention.effectiveness;
+  const mean = (averageImprovement / 100 + (userSatisfaction - 1) / 4) / 2;
+  return { alpha: mean * PRIOR_STRENGTH, beta: (1 - mean) * PRIOR_STRENGTH };
+}
+
+function update(posterior: BetaPosterior, rewards: number[], weight: number): BetaPosterior {
+  return rewards.reduce(
+    (current, reward) => ({
+      alpha: current.alpha + reward * weight,
+      beta: current.beta + (1 - reward) * weight,
+    }),
+    posterior
+  );
+}
+
+function rewardsFor(interventionId: string, outcomes: InterventionOutcomeRecord[]): number[] {
+  return outcomes
+    .filter(outcome => outcome.interventionId === interventionId)
+    .map(rewardOf)
+    .filter((reward): reward is number => reward !== null);
+}
+
+/**
+ * Score one intervention for a user. `population` should already be
+ * limited to outcomes for the current symptoms, which is the bandit's
+ * context; the user's own outcomes are left out of it.
+ */
+export function scoreArm(
+  intervention: Intervention,
+  personal: InterventionOutcomeRecord[],
+  population: InterventionOutcomeRecord[]
+): ArmScore {
+  const own = rewardsFor(intervention.id, personal);
+  const others = rewardsFor(intervention.id, population);
+  const posterior = update(
+    update(priorFor(intervention), others, POPULATION_WEIGHT),
+    own,
+    PERSONAL_WEIGHT
+  );
+
+  const total = posterior.alpha + posterior.beta;
+  const mean = posterior.alpha / total;
+  const uncertainty = Math.sqrt((posterior.alpha * posterior.beta) / (total * total * (total + 1)));
+
+  return {
+    interventionId: intervention.id,
+    mean,
+    uncertainty,
+    score: mean + EXPLORATION * uncertainty,
+    personalOutcomes: own.length,
+    populationOutcomes: others.length,
+  };
+}
+
+/**
+ * Whether the user's latest feedback on an intervention said it did not
+ * help: a rating of 2 or less, or marked not helpful
+ */
+export function ruledOutByUser(interventionId: string, personal: InterventionOutcomeRecord[]): boolean {
+  const latest = personal
+    .filter(outcome => outcome.interventionId === interventionId
+      && (outcome.rating !== undefined || outcome.helpful !== undefined))
+    .sort((a, b) => (b.ratedAt ?? b.selectedAt).getTime() - (a.ratedAt ?? a.selectedAt).getTime())[0];
+  if (!latest) return false;
+  return latest.rating !== undefined ? latest.rating <= 2 : latest.helpful === false;
+}
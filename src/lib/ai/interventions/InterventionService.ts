@@ -0,0 +1,96 @@
+/**
+ * Intervention Service
+ * Persists the assistant's intervention history and lets users rate what
+ * they were offered. Ratings and the mood check-ins around each exercise
+ * feed the selector's ranking, so one a user said didn't help is not
+ * offered to them again.
+ */
+
+import { AITherapyAssistant } from '../core/AITherapyAssistant';
+import type {
+  InterventionFeedback,
+  InterventionOutcomeRecord,
+  InterventionSelector,
+} from '../core/InterventionSelector';
+import type { ExerciseCompletion } from './ExerciseRuntime';
+import { PrismaInterventionStore } from './PrismaInterventionStore';
+
+export interface InterventionHistoryView extends InterventionOutcomeRecord {
+  name: string;
+  description: string;
+  moodDelta: number | null;
+}
+
+export class InterventionService {
+  private static instance: InterventionService | null = null;
+
+  constructor(
+    private readonly selector: InterventionSelector,
+    store: PrismaInterventionStore = new PrismaInterventionStore()
+  ) {
+    selector.attachStore(store);
+  }
+
+  /**
+   * Service persisting the chat assistant's intervention history. Created
+   * before the first chat turn so selections are stored.
+   */
+  public static getInstance(): InterventionService {
+    if (!InterventionService.instance) {
+      InterventionService.instance = new InterventionService(
+        AITherapyAssistant.getInstance().getInterventionSelector()
+      );
+    }
+    return InterventionService.instance;
+  }
+
+  public getSelector(): InterventionSelector {
+    return this.selector;
+  }
+
+  public async getHistory(userId: string, limit?: number): Promise<InterventionHistoryView[]> {
+    const history = await this.selector.getHistory(userId, limit);
+    return history.map(record => this.toView(record));
+  }
+
+  public async rate(
+    userId: string,
+    interventionId: string,
+    feedback: InterventionFeedback
+  ): Promise<InterventionHistoryView> {
+    return this.toView(await this.selector.recordFeedback(userId, interventionId, feedback));
+  }
+
+  /**
+   * Record a guided exercise the user finished or stopped: how much of it
+   * they did, the change in distress, and their rating if they gave one
+   */
+  public async recordCompletion(
+    userId: string,
+    completion: ExerciseCompletion,
+    completed: boolean
+  ): Promise<void> {
+    await this.selector.recordOutcome(
+      userId,
+      completion.interventionId,
+      {
+        success: completed,
+        userEngagement: completion.answeredSteps / completion.totalSteps,
+        ...(completion.improvement !== null && { symptomImprovement: completion.improvement })
+      },
+      completion.rating !== null ? { rating: completion.rating } : {}
+    );
+  }
+
+    private toView(record: InterventionOutcomeRecord): InterventionHistoryView {
+    const intervention = this.selector.getIntervention(record.interventionId);
+    return {
+      ...record,
+      name: intervention?.name ?? record.interventionId,
+      description: intervention?.description ?? '',
+      moodDelta: record.moodBefore !== undefined && record.moodAfter !== undefined
+        ? record.moodAfter - record.moodBefore
+        : null,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Prisma Intervention Store
+ * Keeps the intervention selector's history in the database, with the mood
+ * check-ins around each selection: the latest one before it is recorded at
+ * selection time, the first one after it once the user has logged it.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  applyFeedback,
+  Intervention,
+  InterventionFeedback,
+  InterventionHistoryStore,
+  InterventionOutcomeRecord,
+  InterventionType,
+} from '../core/InterventionSelector';
+
+// How long after a selection a mood check-in still counts as its outcome
+export const MOOD_AFTER_WINDOW_HOURS = 24;
+
+type OutcomeRecord = Awaited<ReturnType<typeof prisma.aIInterventionOutcome.findMany>>[number];
+
+export class PrismaInterventionStore implements InterventionHistoryStore {
+  public async recordSelections(selections: Omit<InterventionOutcomeRecord, 'id'>[]): Promise<void> {
+    const first = selections[0];
+    if (!first) return;
+
+    const moodBefore = await this.latestMood(first.userId, first.selectedAt);
+    await prisma.aIInterventionOutcome.createMany({
+      data: selections.map(selection => ({
+        userId: selection.userId,
+        interventionId: selection.interventionId,
+        interventionType: selection.interventionType,
+        sessionId: selection.sessionId,
+        symptoms: selection.symptoms,
+        riskLevel: selection.riskLevel,
+        selectedAt: selection.selectedAt,
+        moodBefore,
+      })),
+    });
+  }
+
+  public async recordFeedback(
+    userId: string,
+    intervention: Pick<Intervention, 'id' | 'type'>,
+    feedback: InterventionFeedback
+  ): Promise<InterventionOutcomeRecord> {
+    const now = new Date();
+    const existing = await prisma.aIInterventionOutcome.findFirst({
+      where: { userId, interventionId: intervention.id },
+      orderBy: { selectedAt: 'desc' },
+    });
+    const data = applyFeedback(feedback, now);
+
+    const record = existing
+      ? await prisma.aIInterventionOutcome.update({ where: { id: existing.id }, data })
+      : await prisma.aIInterventionOutcome.create({
+          data: {
+            userId,
+            interventionId: intervention.id,
+            interventionType: intervention.type,
+            riskLevel: 'low',
+            selectedAt: now,
+            moodBefore: await this.latestMood(userId, now),
+            ...data,
+          },
+        });
+
+    const [withMood] = await this.fillMoodAfter([record]);
+    return this.toOutcome(withMood!);
+  }
+
+  public async loadHistory(userId: string, limit: number): Promise<InterventionOutcomeRecord[]> {
+    const records = await prisma.aIInterventionOutcome.findMany({
+      where: { userId },
+      orderBy: { selectedAt: 'desc' },
+      take: limit,
+    });
+    return (await this.fillMoodAfter(records)).map(record => this.toOutcome(record));
+  }
+
+  public async loadOutcomes(
+    symptoms: string[],
+    excludeUserId: string,
+    limit: number
+  ): Promise<InterventionOutcomeRecord[]> {
+    if (symptoms.length === 0) return [];
+
+    const records = await prisma.aIInterventionOutcome.findMany({
+      where: {
+        userId: { not: excludeUserId },
+        symptoms: { hasSome: symptoms },
+        ratedAt: { not: null },
+      },
+      orderBy: { ratedAt: 'desc' },
+      take: limit,
+    });
+    return records.map(record => this.toOutcome(record));
+  }
+
+  private async latestMood(userId: string, before: Date): Promise<number | null> {
+    const entry = await prisma.moodEntry.findFirst({
+      where: { userId, createdAt: { lte: before } },
+      orderBy: { createdAt: 'desc' },
+      select: { moodScore: true },
+    });
+    return entry?.moodScore ?? null;
+  }
+
+  /**
+   * Record the first mood check-in after each selection that had one
+   * before it, once the user has logged it inside the window
+   */
+  private async fillMoodAfter(records: OutcomeRecord[]): Promise<OutcomeRecord[]> {
+    const now = Date.now();
+    const windowMs = MOOD_AFTER_WINDOW_HOURS * 60 * 60 * 1000;
+    // Older selections have had their window checked on earlier loads
+    const pending = records.filter(record =>
+      record.moodBefore !== null &&
+      record.moodAfter === null &&
+      now - record.selectedAt.getTime() < 2 * windowMs
+    );
+    const earliest = pending.reduce<Date | null>(
+      (min, record) => (!min || record.selectedAt < min ? record.selectedAt : min),
+      null
+    );
+    if (!earliest) return records;
+
+    const entries = await prisma.moodEntry.findMany({
+      where: { userId: pending[0]!.userId, createdAt: { gt: earliest } },
+      orderBy: { createdAt: 'asc' },
+      select: { moodScore: true, createdAt: true },
+    });
+
+    const filled = new Map<string, OutcomeRecord>();
+    for (const record of pending) {
+      const after = entries.find(entry =>
+        entry.createdAt > record.selectedAt &&
+        entry.createdAt.getTime() - record.selectedAt.getTime() <= windowMs
+      );
+      if (!after) continue;
+      filled.set(record.id, await prisma.aIInterventionOutcome.update({
+        where: { id: record.id },
+        data: { moodAfter: after.moodScore, moodDelta: after.moodScore - record.moodBefore! },
+      }));
+    }
+    return records.map(record => filled.get(record.id) ?? record);
+  }
+
+  private toOutcome(record: OutcomeRecord): InterventionOutcomeRecord {
+    return {
+      id: record.id,
+      userId: record.userId,
+      interventionId: record.interventionId,
+      interventionType: record.interventionType as InterventionType,
+      sessionId: record.sessionId ?? undefined,
+      symptoms: record.symptoms,
+      riskLevel: record.riskLevel,
+      selectedAt: record.selectedAt,
+      completedAt: record.completedAt ?? undefined,
+      ratedAt: record.ratedAt ?? undefined,
+      rating: record.rating ?? undefined,
+      helpful: record.helpful ?? undefined,
+      moodBefore: record.moodBefore ?? undefined,
+      moodAfter: record.moodAfter ?? undefined,
+      engagement: record.engagement ?? undefined,
+      symptomImprovement: record.symptomImprovement ?? undefined,
+    };
+  }
+}
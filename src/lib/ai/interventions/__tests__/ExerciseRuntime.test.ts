@@ -0,0 +1,155 @@
+import { describe, expect, it } from '@jest/globals'
+import { InterventionSelector } from '../../core/InterventionSelector'
+import {
+  abandonExercise,
+  buildExerciseSteps,
+  exerciseText,
+  formatExerciseJournal,
+  goBack,
+  isGuidedExercise,
+  pauseExercise,
+  resumeExercise,
+  startExercise,
+  submitStep,
+  summarizeExercise
+} from '../ExerciseRuntime'
+
+const selector = new InterventionSelector()
+const grounding = selector.getIntervention('grounding_54321')!
+const activation = selector.getIntervention('behavioral_activation_planning')!
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 12, minutes))
+
+const groundingAnswers = [
+  { distress_before: 8 },
+  { see: ['lamp', 'door', 'window', 'cup', 'plant'] },
+  { touch: ['desk', 'sleeve', 'chair', 'floor'] },
+  { hear: ['traffic', 'fan', 'birds'] },
+  { smell: ['coffee', 'soap'] },
+  { taste: ['mint'] },
+  { distress_after: 4, helpfulness: 4 }
+]
+
+describe('guided exercises', () => {
+  it('should guide the four structured exercises and not the descriptive ones', () => {
+    const guided = selector.getAllInterventions().filter(isGuidedExercise).map(intervention => intervention.id)
+
+    expect(guided).toEqual(['cbt_thought_record', 'dbt_tipp', 'grounding_54321', 'behavioral_activation_planning'])
+  })
+
+  it('should wrap the library steps in a check-in and a check-out', () => {
+    const steps = buildExerciseSteps(grounding)
+
+    expect(steps.map(step => step.id)).toEqual(['check_in', 'step_1', 'step_2', 'step_3', 'step_4', 'step_5', 'check_out'])
+    expect(steps[1]).toMatchObject({ instruction: 'Name 5 things you can see', inputs: [{ id: 'see', minItems: 5 }] })
+  })
+
+  it('should refuse to start an intervention without steps to fill in', () => {
+    expect(() => startExercise(selector.getIntervention('self_compassion_break')!, at(0))).toThrow('no guided exercise')
+  })
+})
+
+describe('submitStep', () => {
+  it('should run an exercise to completion and summarize it', () => {
+    const steps = buildExerciseSteps(grounding)
+    let state = startExercise(grounding, at(0))
+    groundingAnswers.forEach((answers, i) => {
+      state = submitStep(state, steps, answers, at(i + 1))
+    })
+
+    expect(state.status).toBe('completed')
+    expect(summarizeExercise(state, steps)).toMatchObject({
+      distressBefore: 8,
+      distressAfter: 4,
+      improvement: 50,
+      rating: 4,
+      answeredSteps: 7,
+      totalSteps: 7,
+      activeSeconds: 7 * 60
+    })
+  })
+
+  it('should report every answer that needs another look', () => {
+    const steps = buildExerciseSteps(grounding)
+    const state = submitStep(startExercise(grounding, at(0)), steps, { distress_before: 5 }, at(1))
+
+    expect(() => submitStep(state, steps, { see: ['lamp', ' '] }, at(2))).toThrow('Some answers need another look')
+    try {
+      submitStep(state, steps, { see: ['lamp'] }, at(2))
+    } catch (error) {
+      expect((error as { validationErrors: string[] }).validationErrors).toEqual(['Things you can see: give 5 items'])
+    }
+    expect(() => submitStep(state, steps, {}, at(2))).toThrow()
+  })
+
+  it('should check choices and ratings against the user\'s earlier list', () => {
+    const steps = buildExerciseSteps(activation)
+    let state = startExercise(activation, at(0))
+    state = submitStep(state, steps, { distress_before: 6 }, at(1))
+    state = submitStep(state, steps, { activities: ['walk', 'call mum', 'paint'] }, at(2))
+
+    expect(() => submitStep(state, steps, { activity_ratings: { walk: { importance: 8, difficulty: 3 } } }, at(3))).toThrow()
+    state = submitStep(state, steps, {
+      activity_ratings: {
+        walk: { importance: 8, difficulty: 3 },
+        'call mum': { importance: 9, difficulty: 2 },
+        paint: { importance: 5, difficulty: 6 }
+      }
+    }, at(3))
+
+    expect(() => submitStep(state, steps, { chosen_activities: ['swim'] }, at(4))).toThrow()
+    state = submitStep(state, steps, { chosen_activities: ['walk', 'call mum'] }, at(4))
+    state = submitStep(state, steps, {
+      activity_schedule: { walk: '2024-01-02T08:00:00Z', 'call mum': '2024-01-03T18:30:00Z' }
+    }, at(5))
+
+    expect(state.responses.step_4).toEqual({
+      activity_schedule: { walk: '2024-01-02T08:00:00.000Z', 'call mum': '2024-01-03T18:30:00.000Z' }
+    })
+  })
+})
+
+describe('pause and resume', () => {
+  it('should not count paused time and keep answers across a resume', () => {
+    const steps = buildExerciseSteps(grounding)
+    let state = submitStep(startExercise(grounding, at(0)), steps, { distress_before: 7 }, at(2))
+    state = pauseExercise(state, at(3))
+
+    expect(() => submitStep(state, steps, groundingAnswers[1]!, at(4))).toThrow('Cannot answer an exercise that is paused')
+
+    state = resumeExercise(state, at(50))
+    state = submitStep(state, steps, groundingAnswers[1]!, at(51))
+
+    expect(state).toMatchObject({ status: 'in_progress', currentStep: 2, activeSeconds: 4 * 60 })
+    expect(state.pausedAt).toBeUndefined()
+    expect(state.responses.check_in).toEqual({ distress_before: 7 })
+  })
+
+  it('should go back a step and stop for good when abandoned', () => {
+    const steps = buildExerciseSteps(grounding)
+    let state = submitStep(startExercise(grounding, at(0)), steps, { distress_before: 7 }, at(1))
+    state = goBack(state, at(2))
+    expect(state.currentStep).toBe(0)
+
+    state = abandonExercise(state, at(3))
+    expect(state.status).toBe('abandoned')
+    expect(() => resumeExercise(state, at(4))).toThrow()
+    expect(() => abandonExercise(state, at(4))).toThrow()
+  })
+})
+
+describe('formatExerciseJournal', () => {
+  it('should write out each answered step', () => {
+    const steps = buildExerciseSteps(grounding)
+    let state = startExercise(grounding, at(0))
+    groundingAnswers.forEach((answers, i) => {
+      state = submitStep(state, steps, answers, at(i + 1))
+    })
+
+    const { title, content } = formatExerciseJournal(grounding, steps, state)
+    expect(title).toContain('5-4-3-2-1 Grounding')
+    expect(content).toContain('## Identify 5 visual objects')
+    expect(content).toContain('- lamp')
+    expect(exerciseText(state.responses.step_1!)).toBe('lamp\ndoor\nwindow\ncup\nplant')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals'
+import { InterventionOutcomeRecord, InterventionSelector } from '../../core/InterventionSelector'
+import { rewardOf, ruledOutByUser, scoreArm } from '../InterventionBandit'
+
+const breathing = new InterventionSelector().getIntervention('mindfulness_breathing')!
+
+let nextId = 1
+const outcome = (fields: Partial<InterventionOutcomeRecord>): InterventionOutcomeRecord => ({
+  id: `outcome-${nextId++}`,
+  userId: 'user-1',
+  interventionId: 'mindfulness_breathing',
+  interventionType: 'mindfulness',
+  symptoms: ['anxiety'],
+  riskLevel: 'low',
+  selectedAt: new Date(Date.UTC(2024, 0, 1)),
+  ...fields
+})
+
+describe('rewardOf', () => {
+  it('should average the rating with the mood change', () => {
+    expect(rewardOf(outcome({ rating: 5 }))).toBe(1)
+    expect(rewardOf(outcome({ rating: 1, moodBefore: 4, moodAfter: 6 }))).toBe(0.5)
+    expect(rewardOf(outcome({ helpful: false }))).toBe(0)
+  })
+
+  it('should not learn from selections without feedback', () => {
+    expect(rewardOf(outcome({}))).toBeNull()
+    expect(rewardOf(outcome({ moodBefore: 5 }))).toBeNull()
+  })
+})
+
+describe('scoreArm', () => {
+  it('should start from the library effectiveness with room to explore', () => {
+    const score = scoreArm(breathing, [], [])
+
+    expect(score.mean).toBeGreaterThan(0.5)
+    expect(score.score).toBeGreaterThan(score.mean)
+    expect(score.personalOutcomes).toBe(0)
+  })
+
+  it('should weigh the user\'s own ratings above other users\'', () => {
+    const prior = scoreArm(breathing, [], [])
+    const ownBad = scoreArm(breathing, [outcome({ rating: 1 })], [])
+    const othersBad = scoreArm(breathing, [], [outcome({ userId: 'user-2', rating: 1 })])
+
+    expect(ownBad.mean).toBeLessThan(othersBad.mean)
+    expect(othersBad.mean).toBeLessThan(prior.mean)
+  })
+
+  it('should explore less as outcomes accumulate', () => {
+    const few = scoreArm(breathing, [outcome({ rating: 4 })], [])
+    const many = scoreArm(breathing, [1, 2, 3, 4, 5].map(() => outcome({ rating: 4 })), [])
+
+    expect(many.uncertainty).toBeLessThan(few.uncertainty)
+  })
+})
+
+describe('ruledOutByUser', () => {
+  it('should follow the user\'s latest feedback', () => {
+    const early = new Date(Date.UTC(2024, 0, 1))
+    const late = new Date(Date.UTC(2024, 0, 2))
+
+    expect(ruledOutByUser('mindfulness_breathing', [outcome({ rating: 2, ratedAt: late })])).toBe(true)
+    expect(ruledOutByUser('mindfulness_breathing', [
+      outcome({ rating: 2, ratedAt: early }),
+      outcome({ rating: 4, ratedAt: late })
+    ])).toBe(false)
+    expect(ruledOutByUser('mindfulness_breathing', [outcome({ helpful: false, ratedAt: late })])).toBe(true)
+    expect(ruledOutByUser('mindfulness_breathing', [outcome({})])).toBe(false)
+  })
+})
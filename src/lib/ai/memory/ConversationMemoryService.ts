@@ -0,0 +1,324 @@
+/**
+ * Conversation Memory Service
+ * Server-side memory of AI chat for users who opted in. Messages are stored
+ * encrypted per user; older ones are folded into a rolling summary so the
+ * prompt stays within budget. Everything here is gated on the user's
+ * `conversation_memory` consent in the privacy manager.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { aiService } from '@/lib/ai-service';
+import {
+  EncryptedField,
+  PHI_FIELD_TYPES,
+  decryptField,
+  encryptField,
+} from '@/lib/encryption/field-encryption';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import { AITherapyAssistant, Message } from '../core/AITherapyAssistant';
+import { PrivacyManager } from '../core/PrivacyManager';
+import {
+  DEFAULT_MEMORY_BUDGET,
+  MemoryBudget,
+  RememberedText,
+  buildExtractiveSummary,
+  estimateTokens,
+  selectMessagesToSummarize,
+  truncateToTokens,
+} from './MemoryBudget';
+
+// Version recorded with consent given through the memory settings
+export const AI_MEMORY_CONSENT_VERSION = '1.0';
+
+export interface RememberedMessage extends RememberedText {
+  id: string;
+  sessionId: string;
+  createdAt: Date;
+}
+
+export interface ConversationMemoryView {
+  enabled: boolean;
+  consentUpdatedAt: Date | null;
+  summary: {
+    content: string;
+    messageCount: number;
+    updatedAt: Date | null;
+  } | null;
+  messages: RememberedMessage[];
+}
+
+export type MemorySummarizer = (
+  previousSummary: string | null,
+  messages: RememberedText[],
+  maxTokens: number
+) => Promise<string>;
+
+const SUMMARY_PROMPT = `You keep a private memory of a user's conversations with a mental health support assistant. Write a concise summary, in the third person, of what the assistant should remember next time: ongoing concerns, important events and people, goals, coping strategies that helped or did not, and any safety concerns. Merge it with the existing summary if there is one. Leave out small talk and never add details that were not said.`;
+
+const summarizeWithAIService: MemorySummarizer = async (previousSummary, messages, maxTokens) => {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n');
+  const response = await aiService.generateResponse(
+    [{
+      role: 'user',
+      content: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New conversation:\n${transcript}`
+    }],
+    { systemPrompt: SUMMARY_PROMPT, temperature: 0.3, maxTokens }
+  );
+  return response.content.trim();
+};
+
+type MemoryRecord = Prisma.AIConversationMemoryGetPayload<{ include: { messages: true } }>;
+
+export class ConversationMemoryService {
+  private static instance: ConversationMemoryService | null = null;
+
+  constructor(
+    private readonly privacyManager: PrivacyManager,
+    private readonly summarize: MemorySummarizer = summarizeWithAIService,
+    private readonly budget: MemoryBudget = DEFAULT_MEMORY_BUDGET
+  ) {}
+
+  /**
+   * Memory service sharing the chat assistant's consent records
+   */
+  public static getInstance(): ConversationMemoryService {
+    if (!ConversationMemoryService.instance) {
+      ConversationMemoryService.instance = new ConversationMemoryService(
+        AITherapyAssistant.getInstance().getPrivacyManager()
+      );
+    }
+    return ConversationMemoryService.instance;
+  }
+
+  public async isEnabled(userId: string): Promise<boolean> {
+    const memory = await prisma.aIConversationMemory.findUnique({ where: { userId } });
+    return this.syncConsent(userId, memory);
+  }
+
+  /**
+   * Turn memory on or off. Withdrawing consent deletes everything remembered.
+   */
+  public async setConsent(userId: string, granted: boolean): Promise<ConversationMemoryView> {
+    const now = new Date();
+    await prisma.aIConversationMemory.upsert({
+      where: { userId },
+      create: {
+        userId,
+        consentGranted: granted,
+        consentVersion: AI_MEMORY_CONSENT_VERSION,
+        consentUpdatedAt: now,
+      },
+      update: {
+        consentGranted: granted,
+        consentVersion: AI_MEMORY_CONSENT_VERSION,
+        consentUpdatedAt: now,
+      },
+    });
+    await this.privacyManager.recordConsent({
+      userId,
+      consentType: 'conversation_memory',
+      granted,
+      timestamp: now,
+      version: AI_MEMORY_CONSENT_VERSION,
+    });
+
+    if (!granted) {
+      await this.forgetAll(userId);
+    }
+    return this.getMemory(userId);
+  }
+
+  /**
+   * Prompt history for the next turn: the rolling summary as a system
+   * message, then the remembered messages. Null when memory is off, so the
+   * caller falls back to the history the client sent.
+   */
+  public async loadHistory(userId: string): Promise<Message[] | null> {
+    const memory = await this.findMemory(userId);
+    if (!(await this.syncConsent(userId, memory)) || !memory) {
+      return null;
+    }
+
+    const history: Message[] = [];
+    const summary = this.decrypt(memory.summaryEncrypted, userId);
+    if (summary) {
+      history.push({
+        id: `memory_summary_${memory.id}`,
+        role: 'system',
+        content: `Summary of earlier conversations with this user:\n${summary}`,
+        timestamp: memory.summaryUpdatedAt ?? memory.updatedAt,
+      });
+    }
+    for (const message of memory.messages) {
+      history.push({
+        id: message.id,
+        role: message.role as RememberedText['role'],
+        content: this.decrypt(message.contentEncrypted, userId) ?? '',
+        timestamp: message.createdAt,
+      });
+    }
+    return history;
+  }
+
+  /**
+   * Store the messages of a finished turn and fold older messages into the
+   * summary if the memory has outgrown its budget
+   */
+  public async remember(userId: string, sessionId: string, entries: RememberedText[]): Promise<void> {
+    const memory = await prisma.aIConversationMemory.findUnique({ where: { userId } });
+    if (!(await this.syncConsent(userId, memory)) || !memory) {
+      return;
+    }
+
+    const now = Date.now();
+    const kept = entries.filter(entry => entry.content.trim() !== '');
+    await prisma.$transaction(
+      kept.map((entry, index) =>
+        prisma.aIMemoryMessage.create({
+          data: {
+            memoryId: memory.id,
+            sessionId,
+            role: entry.role,
+            contentEncrypted: this.encrypt(entry.content, userId),
+            tokenEstimate: estimateTokens(entry.content),
+            // Keep the turn's messages in order even within one millisecond
+            createdAt: new Date(now + index),
+          },
+        })
+      )
+    );
+
+    await this.rollSummary(userId);
+  }
+
+  public async getMemory(userId: string): Promise<ConversationMemoryView> {
+    const memory = await this.findMemory(userId);
+    const enabled = await this.syncConsent(userId, memory);
+    const summary = memory ? this.decrypt(memory.summaryEncrypted, userId) : null;
+
+    return {
+      enabled,
+      consentUpdatedAt: memory?.consentUpdatedAt ?? null,
+      summary: memory && summary
+        ? { content: summary, messageCount: memory.summarizedCount, updatedAt: memory.summaryUpdatedAt }
+        : null,
+      messages: (memory?.messages ?? []).map(message => ({
+        id: message.id,
+        sessionId: message.sessionId,
+        role: message.role as RememberedText['role'],
+        content: this.decrypt(message.contentEncrypted, userId) ?? '',
+        createdAt: message.createdAt,
+      })),
+    };
+  }
+
+  public async forgetMessage(userId: string, messageId: string): Promise<void> {
+    const { count } = await prisma.aIMemoryMessage.deleteMany({
+      where: { id: messageId, memory: { userId } },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Remembered message not found', { messageId });
+    }
+  }
+
+  public async forgetSummary(userId: string): Promise<void> {
+    await prisma.aIConversationMemory.updateMany({
+      where: { userId },
+      data: { summaryEncrypted: Prisma.DbNull, summarizedCount: 0, summaryUpdatedAt: null },
+    });
+  }
+
+  public async forgetAll(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.aIMemoryMessage.deleteMany({ where: { memory: { userId } } }),
+      prisma.aIConversationMemory.updateMany({
+        where: { userId },
+        data: { summaryEncrypted: Prisma.DbNull, summarizedCount: 0, summaryUpdatedAt: null },
+      }),
+    ]);
+  }
+
+  private async findMemory(userId: string): Promise<MemoryRecord | null> {
+    return prisma.aIConversationMemory.findUnique({
+      where: { userId },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+  }
+
+  /**
+   * The privacy manager's consent records are the gate. They are kept in
+   * memory, so the stored consent restores them after a restart and
+   * withdrawals made through another instance are applied here too.
+   */
+  private async syncConsent(
+    userId: string,
+    memory: { consentGranted: boolean; consentVersion: string | null; consentUpdatedAt: Date | null } | null
+  ): Promise<boolean> {
+    const stored = memory?.consentGranted ?? false;
+    if (this.privacyManager.hasConsent(userId, 'conversation_memory') !== stored) {
+      await this.privacyManager.recordConsent({
+        userId,
+        consentType: 'conversation_memory',
+        granted: stored,
+        timestamp: memory?.consentUpdatedAt ?? new Date(),
+        version: memory?.consentVersion ?? AI_MEMORY_CONSENT_VERSION,
+      });
+    }
+    return this.privacyManager.hasConsent(userId, 'conversation_memory');
+  }
+
+  private async rollSummary(userId: string): Promise<void> {
+    const memory = await this.findMemory(userId);
+    if (!memory) return;
+
+    const previous = this.decrypt(memory.summaryEncrypted, userId);
+    const toFold = selectMessagesToSummarize(
+      memory.messages,
+      previous ? estimateTokens(previous) : 0,
+      this.budget
+    );
+    if (toFold.length === 0) return;
+
+    // The summarizer may be a cloud model, so it only sees redacted text
+    const folded: RememberedText[] = toFold.map(message => ({
+      role: message.role as RememberedText['role'],
+      content: this.privacyManager.redactPII(this.decrypt(message.contentEncrypted, userId) ?? '').content,
+    }));
+
+    let summary = '';
+    try {
+      summary = await this.summarize(previous, folded, this.budget.summaryTokens);
+    } catch (error) {
+      console.error('AI memory summarization failed, using an extractive summary:', error);
+    }
+    if (!summary) {
+      summary = buildExtractiveSummary(previous, folded, this.budget.summaryTokens);
+    }
+
+    summary = truncateToTokens(summary, this.budget.summaryTokens);
+    await prisma.$transaction([
+      prisma.aIConversationMemory.update({
+        where: { id: memory.id },
+        data: {
+          summaryEncrypted: summary ? this.encrypt(summary, userId) : Prisma.DbNull,
+          summarizedCount: { increment: toFold.length },
+          summaryUpdatedAt: new Date(),
+        },
+      }),
+      prisma.aIMemoryMessage.deleteMany({ where: { id: { in: toFold.map(message => message.id) } } }),
+    ]);
+  }
+
+  private encrypt(text: string, userId: string): Prisma.InputJsonValue {
+    return encryptField(text, PHI_FIELD_TYPES.AI_CONVERSATION_MEMORY, userId) as unknown as Prisma.InputJsonValue;
+  }
+
+  private decrypt(value: Prisma.JsonValue | null, userId: string): string | null {
+    return value ? decryptField(value as unknown as EncryptedField, userId) : null;
+  }
+}
+
+export default ConversationMemoryService;
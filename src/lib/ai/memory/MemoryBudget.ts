@@ -0,0 +1,85 @@
+/**
+ * Memory Budget
+ * Keeps remembered conversation within the prompt token budget: once the
+ * summary and recent messages outgrow it, the oldest messages are folded
+ * into the summary.
+ */
+
+export interface MemoryBudget {
+  // Tokens available for the summary and remembered messages in a prompt
+  maxPromptTokens: number;
+  // Longest the rolling summary may grow
+  summaryTokens: number;
+  // Most recent messages that are never folded into the summary
+  keepRecentMessages: number;
+}
+
+export const DEFAULT_MEMORY_BUDGET: MemoryBudget = {
+  maxPromptTokens: 2000,
+  summaryTokens: 400,
+  keepRecentMessages: 6,
+};
+
+export interface RememberedText {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Rough token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+  const cut = text.lastIndexOf(' ', maxChars);
+  return `${text.slice(0, cut > 0 ? cut : maxChars).trimEnd()}…`;
+}
+
+/**
+ * Oldest messages to fold into the summary. Nothing is folded while the
+ * memory fits; once it does not, messages are folded down to half of the
+ * space left beside the summary, so summarization runs every few turns
+ * rather than on every turn.
+ */
+export function selectMessagesToSummarize<T extends { tokenEstimate: number }>(
+  messages: T[],
+  summaryTokens: number,
+  budget: MemoryBudget = DEFAULT_MEMORY_BUDGET
+): T[] {
+  let remaining = messages.reduce((total, message) => total + message.tokenEstimate, 0);
+  if (summaryTokens + remaining <= budget.maxPromptTokens) {
+    return [];
+  }
+
+  const target = (budget.maxPromptTokens - budget.summaryTokens) / 2;
+  const foldable = Math.max(0, messages.length - budget.keepRecentMessages);
+  let count = 0;
+  while (count < foldable && remaining > target) {
+    remaining -= messages[count]!.tokenEstimate;
+    count++;
+  }
+
+  return messages.slice(0, count);
+}
+
+/**
+ * Summary used when no model is available to write one: the previous
+ * summary followed by the first sentence of each thing the user said
+ */
+export function buildExtractiveSummary(
+  previousSummary: string | null,
+  messages: RememberedText[],
+  maxTokens: number
+): string {
+  const points = messages
+    .filter(message => message.role === 'user')
+    .map(message => message.content.trim().split(/(?<=[.!?])\s+/)[0] ?? '')
+    .filter(point => point.length > 0)
+    .map(point => `- User said: ${point}`);
+
+  return truncateToTokens([previousSummary, ...points].filter(Boolean).join('\n'), maxTokens);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  MemoryBudget,
+  buildExtractiveSummary,
+  estimateTokens,
+  selectMessagesToSummarize,
+  truncateToTokens,
+} from '../MemoryBudget'
+
+const budget: MemoryBudget = { maxPromptTokens: 100, summaryTokens: 20, keepRecentMessages: 2 }
+
+function messages(...tokens: number[]) {
+  return tokens.map((tokenEstimate, index) => ({ id: `m${index}`, tokenEstimate }))
+}
+
+describe('Memory budget', () => {
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcdefghi')).toBe(3)
+  })
+
+  it('should not fold anything while the memory fits', () => {
+    expect(selectMessagesToSummarize(messages(30, 30, 30), 10, budget)).toEqual([])
+  })
+
+  it('should fold the oldest messages down to half of the space beside the summary', () => {
+    const folded = selectMessagesToSummarize(messages(20, 20, 20, 20, 20, 20), 0, budget)
+
+    // 120 tokens > 100, folded until the rest is at most (100 - 20) / 2 = 40
+    expect(folded.map(message => message.id)).toEqual(['m0', 'm1', 'm2', 'm3'])
+  })
+
+  it('should always keep the most recent messages verbatim', () => {
+    const folded = selectMessagesToSummarize(messages(10, 80, 80), 0, budget)
+
+    expect(folded.map(message => message.id)).toEqual(['m0'])
+  })
+
+  it('should count the existing summary against the budget', () => {
+    expect(selectMessagesToSummarize(messages(30, 30, 30), 20, budget)).toHaveLength(1)
+  })
+
+  it('should truncate at a word boundary', () => {
+    expect(truncateToTokens('one two three four', 3)).toBe('one two…')
+    expect(truncateToTokens('short', 3)).toBe('short')
+  })
+
+  it('should build an extractive summary from what the user said', () => {
+    const summary = buildExtractiveSummary(
+      'User is preparing for exams.',
+      [
+        { role: 'user', content: 'My sister is visiting. She always criticizes me.' },
+        { role: 'assistant', content: 'That sounds stressful.' },
+      ],
+      100
+    )
+
+    expect(summary).toBe('User is preparing for exams.\n- User said: My sister is visiting.')
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Oversight Service
+ * The reviewer console's view of human oversight: queues of flagged AI
+ * conversations, claiming, notes and resolution through the assistant's
+ * oversight manager, follow-ups, and the report that shows oversight took
+ * place.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import { AITherapyAssistant } from '../core/AITherapyAssistant';
+import type {
+  FollowUpAction,
+  HumanOversightManager,
+  OversightNote,
+  OversightRequest,
+  OversightStatus,
+  OversightType,
+  ResolutionAction,
+} from '../core/HumanOversightManager';
+import {
+  OPEN_OVERSIGHT_STATUSES,
+  OversightReport,
+  SlaState,
+  getSlaState,
+  summarizeOversight,
+} from './OversightWorkflow';
+import { PrismaOversightStore } from './PrismaOversightStore';
+
+export type OversightQueue = 'open' | 'mine' | 'resolved';
+
+export type FollowUpStatus = 'scheduled' | 'completed' | 'cancelled';
+
+export interface OversightFollowUpView extends FollowUpAction {
+  id: string;
+  requestId: string;
+  dueAt: Date | null;
+  status: FollowUpStatus;
+  overdue: boolean;
+  completedBy: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface OversightRequestView extends OversightRequest {
+  slaDueAt: Date;
+  slaState: SlaState;
+  followUps: OversightFollowUpView[];
+}
+
+export interface ResolveOversightInput {
+  action: ResolutionAction;
+  notes: string;
+  followUp?: FollowUpAction;
+}
+
+type FollowUpRecord = Awaited<ReturnType<typeof prisma.aIOversightFollowUp.findMany>>[number];
+
+export class OversightService {
+  private static instance: OversightService | null = null;
+
+  constructor(
+    private readonly manager: HumanOversightManager,
+    private readonly store: PrismaOversightStore = new PrismaOversightStore()
+  ) {
+    manager.attachStore(store);
+  }
+
+  /**
+   * Service persisting the chat assistant's oversight requests. Created
+   * before the first chat turn so flagged conversations are stored.
+   */
+  public static getInstance(): OversightService {
+    if (!OversightService.instance) {
+      OversightService.instance = new OversightService(
+        AITherapyAssistant.getInstance().getOversightManager()
+      );
+    }
+    return OversightService.instance;
+  }
+
+  public async list(queue: OversightQueue, reviewerId: string, limit = 50): Promise<OversightRequestView[]> {
+    const records = await prisma.aIOversightRequest.findMany({
+      where: queue === 'resolved'
+        ? { status: 'resolved' }
+        : {
+            status: { in: OPEN_OVERSIGHT_STATUSES },
+            ...(queue === 'mine' && { assignedTo: reviewerId }),
+          },
+      include: {
+        notes: { orderBy: { createdAt: 'asc' } },
+        followUps: { orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: queue === 'resolved' ? { resolvedAt: 'desc' } : { slaDueAt: 'asc' },
+      take: limit,
+    });
+
+    const now = new Date();
+    return records.map(record => this.toView(this.store.toRequest(record), record.followUps, now));
+  }
+
+  public async get(requestId: string): Promise<OversightRequestView> {
+    const record = await prisma.aIOversightRequest.findUnique({
+      where: { id: requestId },
+      include: {
+        notes: { orderBy: { createdAt: 'asc' } },
+        followUps: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+    if (!record) {
+      throw new WorkflowError('Oversight request not found', { requestId });
+    }
+    return this.toView(this.store.toRequest(record), record.followUps, new Date());
+  }
+
+  public async claim(requestId: string, reviewerId: string): Promise<OversightRequestView> {
+    await this.manager.claimRequest(requestId, reviewerId);
+    return this.get(requestId);
+  }
+
+  public async annotate(requestId: string, authorId: string, content: string): Promise<OversightNote> {
+    return this.manager.annotateRequest(requestId, authorId, content);
+  }
+
+  public async resolve(
+    requestId: string,
+    reviewerId: string,
+    input: ResolveOversightInput
+  ): Promise<OversightRequestView> {
+    await this.manager.resolveRequest(requestId, {
+      resolvedBy: reviewerId,
+      resolvedAt: new Date(),
+      action: input.action,
+      notes: input.notes,
+      followUp: input.followUp,
+    });
+    return this.get(requestId);
+  }
+
+  /**
+   * Follow-ups still to do for a reviewer, soonest first
+   */
+  public async listFollowUps(assignedTo: string): Promise<OversightFollowUpView[]> {
+    const records = await prisma.aIOversightFollowUp.findMany({
+      where: { assignedTo, status: 'scheduled' },
+      orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+    });
+    const now = new Date();
+    return records.map(record => this.toFollowUpView(record, now));
+  }
+
+  public async completeFollowUp(
+    followUpId: string,
+    reviewerId: string,
+    status: Exclude<FollowUpStatus, 'scheduled'>
+  ): Promise<OversightFollowUpView> {
+    const { count } = await prisma.aIOversightFollowUp.updateMany({
+      where: { id: followUpId, status: 'scheduled' },
+      data: { status, completedBy: reviewerId, completedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Scheduled follow-up not found', { followUpId });
+    }
+
+    const record = await prisma.aIOversightFollowUp.findUniqueOrThrow({ where: { id: followUpId } });
+    return this.toFollowUpView(record, new Date());
+  }
+
+  public async getReport(start: Date, end: Date): Promise<OversightReport> {
+    const records = await prisma.aIOversightRequest.findMany({
+      where: { createdAt: { gte: start, lte: end } },
+      select: {
+        type: true,
+        priority: true,
+        status: true,
+        createdAt: true,
+        slaDueAt: true,
+        claimedAt: true,
+        escalatedAt: true,
+        resolvedAt: true,
+        resolvedBy: true,
+        resolutionAction: true,
+      },
+    });
+
+    return summarizeOversight(
+      records.map(record => ({
+        ...record,
+        type: record.type as OversightType,
+        priority: record.priority as OversightRequest['priority'],
+        status: record.status as OversightStatus,
+        resolutionAction: record.resolutionAction as ResolutionAction | null,
+      })),
+      { start, end }
+    );
+  }
+
+  private toView(
+    request: OversightRequest,
+    followUps: FollowUpRecord[],
+    now: Date
+  ): OversightRequestView {
+    const slaDueAt = request.slaDueAt ?? request.timestamp;
+    return {
+      ...request,
+      slaDueAt,
+      slaState: getSlaState({ timestamp: request.timestamp, slaDueAt, claimedAt: request.claimedAt }, now),
+      followUps: followUps.map(followUp => this.toFollowUpView(followUp, now)),
+    };
+  }
+
+  private toFollowUpView(record: FollowUpRecord, now: Date): OversightFollowUpView {
+    return {
+      id: record.id,
+      requestId: record.requestId,
+      type: record.type as FollowUpAction['type'],
+      timeline: record.timeline,
+      assignedTo: record.assignedTo,
+      dueAt: record.dueAt,
+      status: record.status as FollowUpStatus,
+      overdue: record.status === 'scheduled' && record.dueAt !== null && record.dueAt < now,
+      completedBy: record.completedBy,
+      completedAt: record.completedAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
+
+export default OversightService;
@@ -0,0 +1,176 @@
+/**
+ * Oversight Workflow
+ * SLA state, follow-up due dates and the oversight report for the reviewer
+ * console. A request's SLA is the time a licensed reviewer has to claim it.
+ */
+
+import type {
+  OversightRequest,
+  OversightStatus,
+  OversightType,
+  ResolutionAction,
+} from '../core/HumanOversightManager';
+
+export type SlaState = 'on_track' | 'due_soon' | 'breached' | 'met' | 'missed';
+
+// Share of the response window left when a request counts as due soon
+const DUE_SOON_FRACTION = 0.25;
+
+export const OPEN_OVERSIGHT_STATUSES: OversightStatus[] = ['pending', 'assigned', 'in_review', 'escalated'];
+
+/**
+ * Where a request stands against its deadline. Claimed requests have met or
+ * missed it; unclaimed ones are on track, due soon or breached.
+ */
+export function getSlaState(
+  request: { timestamp: Date; slaDueAt: Date; claimedAt?: Date | null },
+  now: Date = new Date()
+): SlaState {
+  const due = request.slaDueAt.getTime();
+  if (request.claimedAt) {
+    return request.claimedAt.getTime() <= due ? 'met' : 'missed';
+  }
+  if (now.getTime() > due) return 'breached';
+
+  const window = due - request.timestamp.getTime();
+  return due - now.getTime() <= window * DUE_SOON_FRACTION ? 'due_soon' : 'on_track';
+}
+
+const TIMELINE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Due date of a follow-up from its timeline: a duration such as "24h",
+ * "3 days" or "within 1 week", or an ISO date. Null when it cannot be read,
+ * in which case the follow-up is kept without a due date.
+ */
+export function parseFollowUpTimeline(timeline: string, from: Date = new Date()): Date | null {
+  const text = timeline.trim().toLowerCase();
+  const duration = text.match(/^(?:within\s+|in\s+)?(\d+(?:\.\d+)?)\s*(m|min|minute|h|hour|d|day|w|week)s?$/);
+  if (duration) {
+    const unit = TIMELINE_UNITS[duration[2]!]!;
+    return new Date(from.getTime() + Number(duration[1]) * unit);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(timeline.trim());
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+export interface OversightReportRecord {
+  type: OversightType;
+  priority: OversightRequest['priority'];
+  status: OversightStatus;
+  createdAt: Date;
+  slaDueAt: Date;
+  claimedAt: Date | null;
+  escalatedAt: Date | null;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  resolutionAction: ResolutionAction | null;
+}
+
+export interface OversightReport {
+  period: { start: Date; end: Date };
+  totalRequests: number;
+  openRequests: number;
+  resolvedRequests: number;
+  escalatedRequests: number;
+  byType: Partial<Record<OversightType, number>>;
+  byPriority: Partial<Record<OversightRequest['priority'], number>>;
+  byResolutionAction: Partial<Record<ResolutionAction, number>>;
+  sla: {
+    met: number;
+    missed: number;
+    breached: number;
+    // Share of claimed or overdue requests that were claimed in time, 0-100
+    complianceRate: number;
+  };
+  medianMinutesToClaim: number | null;
+  medianMinutesToResolve: number | null;
+  reviewers: Array<{ reviewerId: string; resolved: number }>;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+function count<K extends string>(counts: Partial<Record<K, number>>, key: K): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (60 * 1000);
+
+/**
+ * Evidence that flagged conversations were reviewed by a person: how many
+ * were claimed within their SLA, how quickly, and who resolved them
+ */
+export function summarizeOversight(
+  records: OversightReportRecord[],
+  period: { start: Date; end: Date },
+  now: Date = new Date()
+): OversightReport {
+  const report: OversightReport = {
+    period,
+    totalRequests: records.length,
+    openRequests: 0,
+    resolvedRequests: 0,
+    escalatedRequests: 0,
+    byType: {},
+    byPriority: {},
+    byResolutionAction: {},
+    sla: { met: 0, missed: 0, breached: 0, complianceRate: 100 },
+    medianMinutesToClaim: null,
+    medianMinutesToResolve: null,
+    reviewers: [],
+  };
+
+  const toClaim: number[] = [];
+  const toResolve: number[] = [];
+  const resolvedBy = new Map<string, number>();
+
+  for (const record of records) {
+    count(report.byType, record.type);
+    count(report.byPriority, record.priority);
+    if (OPEN_OVERSIGHT_STATUSES.includes(record.status)) report.openRequests++;
+    if (record.status === 'resolved') report.resolvedRequests++;
+    if (record.escalatedAt) report.escalatedRequests++;
+    if (record.resolutionAction) count(report.byResolutionAction, record.resolutionAction);
+
+    const state = getSlaState({ timestamp: record.createdAt, slaDueAt: record.slaDueAt, claimedAt: record.claimedAt }, now);
+    if (state === 'met' || state === 'missed' || state === 'breached') {
+      report.sla[state]++;
+    }
+
+    if (record.claimedAt) toClaim.push(minutesBetween(record.createdAt, record.claimedAt));
+    if (record.resolvedAt) toResolve.push(minutesBetween(record.createdAt, record.resolvedAt));
+    if (record.resolvedBy) resolvedBy.set(record.resolvedBy, (resolvedBy.get(record.resolvedBy) ?? 0) + 1);
+  }
+
+  const judged = report.sla.met + report.sla.missed + report.sla.breached;
+  if (judged > 0) {
+    report.sla.complianceRate = (report.sla.met / judged) * 100;
+  }
+  report.medianMinutesToClaim = median(toClaim);
+  report.medianMinutesToResolve = median(toResolve);
+  report.reviewers = Array.from(resolvedBy, ([reviewerId, resolved]) => ({ reviewerId, resolved }))
+    .sort((a, b) => b.resolved - a.resolved);
+
+  return report;
+}
@@ -0,0 +1,156 @@
+/**
+ * Prisma Oversight Store
+ * Keeps the oversight manager's requests, reviewer notes and follow-ups in
+ * the database. The flagged conversation excerpt and everything reviewers
+ * write are encrypted under the user the conversation belongs to.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  EncryptedField,
+  PHI_FIELD_TYPES,
+  PHIFieldType,
+  decryptField,
+  encryptField,
+} from '@/lib/encryption/field-encryption';
+import type {
+  FollowUpAction,
+  OversightNote,
+  OversightRequest,
+  OversightStatus,
+  OversightStore,
+  OversightType,
+  ResolutionAction,
+} from '../core/HumanOversightManager';
+import { OPEN_OVERSIGHT_STATUSES, parseFollowUpTimeline } from './OversightWorkflow';
+
+export type OversightRequestRecord = Prisma.AIOversightRequestGetPayload<{ include: { notes: true } }>;
+
+export class PrismaOversightStore implements OversightStore {
+  public async load(requestId: string): Promise<OversightRequest | null> {
+    const record = await prisma.aIOversightRequest.findUnique({
+      where: { id: requestId },
+      include: { notes: { orderBy: { createdAt: 'asc' } } },
+    });
+    return record ? this.toRequest(record) : null;
+  }
+
+  public async loadOpen(): Promise<OversightRequest[]> {
+    const records = await prisma.aIOversightRequest.findMany({
+      where: { status: { in: OPEN_OVERSIGHT_STATUSES } },
+      include: { notes: { orderBy: { createdAt: 'asc' } } },
+    });
+    return records.map(record => this.toRequest(record));
+  }
+
+  public async save(request: OversightRequest): Promise<void> {
+    const resolution = request.resolution;
+    const data = {
+      type: request.type,
+      priority: request.priority,
+      status: request.status,
+      userId: request.userId,
+      sessionId: request.sessionId,
+      reason: request.reason,
+      riskLevel: typeof request.context?.riskLevel === 'string' ? request.context.riskLevel : null,
+      contextEncrypted: request.context
+        ? this.encrypt(JSON.stringify(request.context), PHI_FIELD_TYPES.SESSION_TRANSCRIPT, request.userId)
+        : Prisma.DbNull,
+      assignedTo: request.assignedTo ?? null,
+      claimedAt: request.claimedAt ?? null,
+      slaDueAt: request.slaDueAt ?? request.timestamp,
+      escalatedAt: request.escalatedAt ?? null,
+      resolvedBy: resolution?.resolvedBy ?? null,
+      resolvedAt: resolution?.resolvedAt ?? null,
+      resolutionAction: resolution?.action ?? null,
+      resolutionNotesEncrypted: resolution?.notes
+        ? this.encrypt(resolution.notes, PHI_FIELD_TYPES.CRISIS_NOTES, request.userId)
+        : Prisma.DbNull,
+    };
+
+    await prisma.aIOversightRequest.upsert({
+      where: { id: request.id },
+      create: { id: request.id, createdAt: request.timestamp, ...data },
+      update: data,
+    });
+  }
+
+  public async addNote(requestId: string, note: OversightNote): Promise<void> {
+    const request = await prisma.aIOversightRequest.findUniqueOrThrow({
+      where: { id: requestId },
+      select: { userId: true },
+    });
+    await prisma.aIOversightNote.create({
+      data: {
+        id: note.id,
+        requestId,
+        authorId: note.authorId,
+        contentEncrypted: this.encrypt(note.content, PHI_FIELD_TYPES.CRISIS_NOTES, request.userId),
+        createdAt: note.createdAt,
+      },
+    });
+  }
+
+  public async scheduleFollowUp(
+    requestId: string,
+    followUp: FollowUpAction,
+    scheduledAt: Date
+  ): Promise<void> {
+    await prisma.aIOversightFollowUp.create({
+      data: {
+        requestId,
+        type: followUp.type,
+        timeline: followUp.timeline,
+        assignedTo: followUp.assignedTo,
+        dueAt: parseFollowUpTimeline(followUp.timeline, scheduledAt),
+        createdAt: scheduledAt,
+      },
+    });
+  }
+
+  public toRequest(record: OversightRequestRecord): OversightRequest {
+    const context = this.decrypt(record.contextEncrypted, record.userId);
+    const resolutionNotes = this.decrypt(record.resolutionNotesEncrypted, record.userId);
+
+    return {
+      id: record.id,
+      timestamp: record.createdAt,
+      priority: record.priority as OversightRequest['priority'],
+      type: record.type as OversightType,
+      userId: record.userId,
+      sessionId: record.sessionId,
+      reason: record.reason,
+      context: context ? JSON.parse(context) : {},
+      status: record.status as OversightStatus,
+      assignedTo: record.assignedTo ?? undefined,
+      claimedAt: record.claimedAt ?? undefined,
+      slaDueAt: record.slaDueAt,
+      escalatedAt: record.escalatedAt ?? undefined,
+      notes: record.notes.map(note => ({
+        id: note.id,
+        authorId: note.authorId,
+        content: this.decrypt(note.contentEncrypted, record.userId) ?? '',
+        createdAt: note.createdAt,
+      })),
+      resolution: record.resolvedBy && record.resolvedAt && record.resolutionAction
+        ? {
+            resolvedBy: record.resolvedBy,
+            resolvedAt: record.resolvedAt,
+            action: record.resolutionAction as ResolutionAction,
+            notes: resolutionNotes ?? '',
+          }
+        : undefined,
+    };
+  }
+
+  private encrypt(text: string, fieldType: PHIFieldType, userId: string): Prisma.InputJsonValue {
+    return encryptField(text, fieldType, userId) as unknown as Prisma.InputJsonValue;
+  }
+
+  private decrypt(value: Prisma.JsonValue | null, userId: string): string | null {
+    return value ? decryptField(value as unknown as EncryptedField, userId) : null;
+  }
+}
+
+export default PrismaOversightStore;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  OversightReportRecord,
+  getSlaState,
+  parseFollowUpTimeline,
+  summarizeOversight
+} from '../OversightWorkflow'
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 12, minutes))
+
+describe('getSlaState', () => {
+  const request = { timestamp: at(0), slaDueAt: at(20) }
+
+  it('should be on track early in the response window', () => {
+    expect(getSlaState(request, at(5))).toBe('on_track')
+  })
+
+  it('should be due soon in the last quarter of the window', () => {
+    expect(getSlaState(request, at(16))).toBe('due_soon')
+  })
+
+  it('should be breached once the deadline passes unclaimed', () => {
+    expect(getSlaState(request, at(21))).toBe('breached')
+  })
+
+  it('should judge claimed requests by when they were claimed', () => {
+    expect(getSlaState({ ...request, claimedAt: at(19) }, at(90))).toBe('met')
+    expect(getSlaState({ ...request, claimedAt: at(25) }, at(90))).toBe('missed')
+  })
+})
+
+describe('parseFollowUpTimeline', () => {
+  const from = at(0)
+
+  it('should read durations in several forms', () => {
+    expect(parseFollowUpTimeline('24h', from)).toEqual(new Date(from.getTime() + 24 * 60 * 60 * 1000))
+    expect(parseFollowUpTimeline('3 days', from)).toEqual(new Date(from.getTime() + 3 * 24 * 60 * 60 * 1000))
+    expect(parseFollowUpTimeline('within 1 week', from)).toEqual(new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000))
+    expect(parseFollowUpTimeline('30 min', from)).toEqual(at(30))
+  })
+
+  it('should read ISO dates', () => {
+    expect(parseFollowUpTimeline('2024-01-05T09:00:00Z', from)).toEqual(new Date('2024-01-05T09:00:00Z'))
+  })
+
+  it('should return null for timelines it cannot read', () => {
+    expect(parseFollowUpTimeline('after the next session', from)).toBeNull()
+  })
+})
+
+describe('summarizeOversight', () => {
+  const record = (overrides: Partial<OversightReportRecord>): OversightReportRecord => ({
+    type: 'crisis_escalation',
+    priority: 'high',
+    status: 'pending',
+    createdAt: at(0),
+    slaDueAt: at(15),
+    claimedAt: null,
+    escalatedAt: null,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolutionAction: null,
+    ...overrides
+  })
+
+  const period = { start: at(0), end: at(120) }
+
+  it('should count SLA outcomes and compliance', () => {
+    const report = summarizeOversight([
+      record({ status: 'resolved', claimedAt: at(5), resolvedAt: at(35), resolvedBy: 'r1', resolutionAction: 'provided_guidance' }),
+      record({ status: 'resolved', claimedAt: at(25), resolvedAt: at(45), resolvedBy: 'r1', resolutionAction: 'crisis_intervention' }),
+      record({ status: 'escalated', escalatedAt: at(16) }),
+      record({ type: 'clinical_review', priority: 'medium', slaDueAt: at(200) })
+    ], period, at(60))
+
+    expect(report.totalRequests).toBe(4)
+    expect(report.resolvedRequests).toBe(2)
+    expect(report.openRequests).toBe(2)
+    expect(report.escalatedRequests).toBe(1)
+    expect(report.sla).toMatchObject({ met: 1, missed: 1, breached: 1 })
+    expect(report.sla.complianceRate).toBeCloseTo(33.33, 2)
+    expect(report.byType).toEqual({ crisis_escalation: 3, clinical_review: 1 })
+    expect(report.byResolutionAction).toEqual({ provided_guidance: 1, crisis_intervention: 1 })
+  })
+
+  it('should report median times and who resolved requests', () => {
+    const report = summarizeOversight([
+      record({ status: 'resolved', claimedAt: at(2), resolvedAt: at(10), resolvedBy: 'r1' }),
+      record({ status: 'resolved', claimedAt: at(4), resolvedAt: at(30), resolvedBy: 'r2' }),
+      record({ status: 'resolved', claimedAt: at(12), resolvedAt: at(50), resolvedBy: 'r2' })
+    ], period, at(60))
+
+    expect(report.medianMinutesToClaim).toBe(4)
+    expect(report.medianMinutesToResolve).toBe(30)
+    expect(report.reviewers).toEqual([
+      { reviewerId: 'r2', resolved: 2 },
+      { reviewerId: 'r1', resolved: 1 }
+    ])
+  })
+
+  it('should treat an empty period as fully compliant', () => {
+    const report = summarizeOversight([], period, at(60))
+    expect(report.sla.complianceRate).toBe(100)
+    expect(report.medianMinutesToClaim).toBeNull()
+  })
+})
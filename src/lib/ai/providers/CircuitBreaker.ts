@@ -0,0 +1,64 @@
+/**
+ * Circuit Breaker
+ * Stops calling a model provider after repeated failures and lets a single
+ * trial request through once the reset timeout has passed.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  public get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.resetTimeoutMs ? 'half_open' : 'open';
+  }
+
+  public get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only one
+   * trial request is let through until it succeeds or fails.
+   */
+  public tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    // A failed trial re-opens the circuit for another full reset timeout
+    if (this.openedAt !== null || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Give back a trial slot without an outcome, e.g. when the caller cancelled
+   */
+  public release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+export default CircuitBreaker;
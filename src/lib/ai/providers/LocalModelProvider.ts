@@ -0,0 +1,147 @@
+/**
+ * Local Model Provider
+ * Adapter for a self-hosted model behind an OpenAI-compatible chat
+ * completions API, such as the llama.cpp server or Ollama. Conversation
+ * content stays inside the deployment.
+ */
+
+import type { AIConfig, AIMessage, AIResponse, AIStreamOptions } from '@/lib/ai-service';
+import { readServerSentEvents } from '../streaming/ServerSentEvents';
+import type { AIProvider, ProviderPolicy } from './ProviderRegistry';
+import { assessResponseRisk } from './ResponseRisk';
+
+export interface LocalModelProviderOptions {
+  // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  id?: string;
+  name?: string;
+}
+
+// Local models on modest hardware are slow to answer but rarely flaky
+export const LOCAL_MODEL_POLICY: Partial<ProviderPolicy> = {
+  timeoutMs: 120000,
+  maxRetries: 0,
+};
+
+const DEFAULT_LOCAL_MODEL = 'default';
+
+function confidenceFor(content: string, finishReason?: string): number {
+  if (!content) return 0.3;
+  if (finishReason === 'stop') return 0.9;
+  if (finishReason === 'length') return 0.7;
+  return 0.6;
+}
+
+export class LocalModelProvider implements AIProvider {
+  public readonly id: string;
+  public readonly name: string;
+  public readonly kind = 'local' as const;
+  public readonly external = false;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+
+  constructor(options: LocalModelProviderOptions = {}) {
+    this.id = options.id ?? 'local';
+    this.name = options.name ?? 'Local model';
+    this.baseUrl = (options.baseUrl ?? '').replace(/\/+$/, '');
+    this.model = options.model || DEFAULT_LOCAL_MODEL;
+    this.apiKey = options.apiKey || undefined;
+  }
+
+  public isConfigured(): boolean {
+    return this.baseUrl !== '';
+  }
+
+  public async generateResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const model = config.model || this.model;
+    const response = await this.request(messages, config, model, false, signal);
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || '';
+
+    return {
+      content,
+      model,
+      tokens: data.usage?.total_tokens,
+      confidence: confidenceFor(content, data.choices?.[0]?.finish_reason),
+      riskLevel: assessResponseRisk(content),
+    };
+  }
+
+  public async streamResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    const model = config.model || this.model;
+    const response = await this.request(messages, config, model, true, options.signal);
+    if (!response.body) {
+      throw new Error('Local model returned no stream');
+    }
+
+    let content = '';
+    let finishReason: string | undefined;
+
+    await readServerSentEvents(response.body, async ({ data }) => {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+      if (delta) {
+        content += delta;
+        await options.onDelta(delta);
+      }
+    });
+
+    return {
+      content,
+      model,
+      confidence: confidenceFor(content, finishReason),
+      riskLevel: assessResponseRisk(content),
+    };
+  }
+
+  private async request(
+    messages: AIMessage[],
+    config: Partial<AIConfig>,
+    model: string,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (!this.isConfigured()) {
+      throw new Error('Local model base URL not configured');
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(config.systemPrompt ? [{ role: 'system', content: config.systemPrompt }] : []),
+          ...messages.map(({ role, content }) => ({ role, content })),
+        ],
+        temperature: config.temperature ?? 0.7,
+        max_tokens: config.maxTokens ?? 1000,
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local model error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+export default LocalModelProvider;
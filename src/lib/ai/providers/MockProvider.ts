@@ -0,0 +1,106 @@
+/**
+ * Mock Provider
+ * Deterministic offline provider for tests, demos and load testing: the
+ * same conversation always gets the same reply, streamed word by word.
+ */
+
+import type { AIConfig, AIMessage, AIResponse, AIStreamOptions } from '@/lib/ai-service';
+import type { AIProvider } from './ProviderRegistry';
+import { assessResponseRisk } from './ResponseRisk';
+
+export interface MockProviderOptions {
+  id?: string;
+  replies?: string[];
+  // Delay before a reply, and between streamed words
+  latencyMs?: number;
+}
+
+export const MOCK_REPLIES = [
+  'Thank you for sharing that with me. What feels most important to talk about right now?',
+  'That sounds like a lot to carry. How have you been looking after yourself this week?',
+  'I hear you. Would it help to try a short grounding exercise together?',
+  'It makes sense that you feel this way. What has helped you get through moments like this before?',
+];
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Small stable string hash, so reply choice does not depend on run or process
+function hash(text: string): number {
+  let value = 5381;
+  for (let i = 0; i < text.length; i++) {
+    value = ((value << 5) + value + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+export class MockProvider implements AIProvider {
+  public readonly id: string;
+  public readonly name = 'Mock provider';
+  public readonly kind = 'mock' as const;
+  public readonly external = false;
+  private readonly replies: string[];
+  private readonly latencyMs: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.id = options.id ?? 'mock';
+    this.replies = options.replies?.length ? options.replies : MOCK_REPLIES;
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public getReply(messages: AIMessage[]): string {
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    return this.replies[hash(lastUserMessage?.content ?? '') % this.replies.length] ?? '';
+  }
+
+  public async generateResponse(
+    messages: AIMessage[],
+    _config: Partial<AIConfig> = {},
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    await delay(this.latencyMs, signal);
+    return this.toResponse(this.getReply(messages));
+  }
+
+  public async streamResponse(
+    messages: AIMessage[],
+    _config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    const content = this.getReply(messages);
+    for (const word of content.match(/\S+\s*/g) ?? []) {
+      await delay(this.latencyMs, options.signal);
+      await options.onDelta(word);
+    }
+    return this.toResponse(content);
+  }
+
+  private toResponse(content: string): AIResponse {
+    return {
+      content,
+      model: 'mock',
+      confidence: 0.9,
+      riskLevel: assessResponseRisk(content),
+    };
+  }
+}
+
+export default MockProvider;
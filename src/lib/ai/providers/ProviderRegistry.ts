@@ -0,0 +1,409 @@
+/**
+ * AI Provider Registry
+ * Model backends behind one interface, tried in the deployment's configured
+ * order with per-provider timeouts, retry with backoff and circuit breaking.
+ * When external providers are not allowed they are never registered, so no
+ * message can reach a third-party cloud, not even as a fallback.
+ */
+
+import type { AIConfig, AIMessage, AIResponse, AIStreamOptions } from '@/lib/ai-service';
+import type { HealthStatus } from '@/lib/monitoring/health-check';
+import { ExternalAPIError } from '@/lib/error-handling/error-types';
+import { CircuitBreaker, CircuitState } from './CircuitBreaker';
+
+export type AIProviderKind = 'cloud' | 'local' | 'mock';
+
+export interface AIProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly kind: AIProviderKind;
+  // Sends conversation content outside the deployment
+  readonly external: boolean;
+  isConfigured(): boolean;
+  generateResponse(
+    messages: AIMessage[],
+    config?: Partial<AIConfig>,
+    signal?: AbortSignal
+  ): Promise<AIResponse>;
+  streamResponse(
+    messages: AIMessage[],
+    config: Partial<AIConfig> | undefined,
+    options: AIStreamOptions
+  ): Promise<AIResponse>;
+}
+
+export interface ProviderPolicy {
+  // Whole request when generating; longest gap between chunks when streaming
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_PROVIDER_POLICY: ProviderPolicy = {
+  timeoutMs: 30000,
+  maxRetries: 1,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 4000,
+  failureThreshold: 5,
+  resetTimeoutMs: 60000,
+};
+
+export interface ProviderHealth {
+  id: string;
+  name: string;
+  kind: AIProviderKind;
+  external: boolean;
+  configured: boolean;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  averageLatencyMs?: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+export interface AIProvidersHealth {
+  status: HealthStatus;
+  defaultProvider: string | null;
+  externalProvidersAllowed: boolean;
+  providers: ProviderHealth[];
+}
+
+export interface ProviderRegistryOptions {
+  allowExternal?: boolean;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface ProviderEntry {
+  provider: AIProvider;
+  policy: ProviderPolicy;
+  breaker: CircuitBreaker;
+  stats: {
+    requests: number;
+    failures: number;
+    successes: number;
+    totalLatencyMs: number;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+    lastError?: string;
+  };
+}
+
+type ProviderCall = (
+  entry: ProviderEntry,
+  config: Partial<AIConfig>,
+  signal: AbortSignal,
+  touch: () => void
+) => Promise<AIResponse>;
+
+const POLICY_ENV_FIELDS: Record<keyof ProviderPolicy, string> = {
+  timeoutMs: 'TIMEOUT_MS',
+  maxRetries: 'MAX_RETRIES',
+  retryBaseDelayMs: 'RETRY_BASE_DELAY_MS',
+  retryMaxDelayMs: 'RETRY_MAX_DELAY_MS',
+  failureThreshold: 'FAILURE_THRESHOLD',
+  resetTimeoutMs: 'RESET_TIMEOUT_MS',
+};
+
+/**
+ * Policy for a provider from `AI_<ID>_TIMEOUT_MS`, `AI_<ID>_MAX_RETRIES`,
+ * etc., falling back to `defaults` for unset or invalid values
+ */
+export function readProviderPolicy(
+  id: string,
+  env: Record<string, string | undefined>,
+  defaults: ProviderPolicy = DEFAULT_PROVIDER_POLICY
+): ProviderPolicy {
+  const prefix = `AI_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+  const policy = { ...defaults };
+
+  for (const [field, suffix] of Object.entries(POLICY_ENV_FIELDS) as [keyof ProviderPolicy, string][]) {
+    const raw = env[prefix + suffix];
+    const value = raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+    if (Number.isInteger(value) && value >= 0) {
+      policy[field] = value;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Exponential backoff before retry number `attempt + 1`
+ */
+export function getRetryDelay(attempt: number, policy: ProviderPolicy): number {
+  return Math.min(policy.retryBaseDelayMs * 2 ** attempt, policy.retryMaxDelayMs);
+}
+
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  // The cloud adapters throw their error Response
+  if (typeof Response !== 'undefined' && error instanceof Response) return `HTTP ${error.status}`;
+  return String(error);
+}
+
+export class ProviderRegistry {
+  private entries = new Map<string, ProviderEntry>();
+  private readonly allowExternal: boolean;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(options: ProviderRegistryOptions = {}) {
+    this.allowExternal = options.allowExternal ?? true;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Add a provider at the end of the fallback order. Returns false when the
+   * provider is external and this deployment does not allow external providers.
+   */
+  public register(provider: AIProvider, policy: Partial<ProviderPolicy> = {}): boolean {
+    if (provider.external && !this.allowExternal) {
+      return false;
+    }
+
+    const resolved = { ...DEFAULT_PROVIDER_POLICY, ...policy };
+    this.entries.set(provider.id, {
+      provider,
+      policy: resolved,
+      breaker: new CircuitBreaker(resolved.failureThreshold, resolved.resetTimeoutMs, this.now),
+      stats: { requests: 0, failures: 0, successes: 0, totalLatencyMs: 0 },
+    });
+    return true;
+  }
+
+  public getProvider(id: string): AIProvider | undefined {
+    return this.entries.get(id)?.provider;
+  }
+
+  public isConfigured(): Record<string, boolean> {
+    const configured: Record<string, boolean> = {};
+    for (const [id, entry] of this.entries) {
+      configured[id] = entry.provider.isConfigured();
+    }
+    return configured;
+  }
+
+  /**
+   * First configured provider whose circuit is not open
+   */
+  public getDefaultProviderId(): string | undefined {
+    const configured = Array.from(this.entries.values()).filter(entry => entry.provider.isConfigured());
+    return (configured.find(entry => entry.breaker.state !== 'open') ?? configured[0])?.provider.id;
+  }
+
+  /**
+   * Generate a response with the preferred provider (`config.provider`),
+   * falling back through the others in order
+   */
+  public async generate(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    return this.execute(config, signal, (entry, providerConfig, attemptSignal) =>
+      entry.provider.generateResponse(messages, providerConfig, attemptSignal)
+    );
+  }
+
+  /**
+   * Stream a response. Retries and fallback only happen before the first
+   * chunk; once output has reached the caller a failure is final.
+   */
+  public async stream(
+    messages: AIMessage[],
+    config: Partial<AIConfig> = {},
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    let started = false;
+    return this.execute(
+      config,
+      options.signal,
+      (entry, providerConfig, attemptSignal, touch) =>
+        entry.provider.streamResponse(messages, providerConfig, {
+          signal: attemptSignal,
+          onDelta: delta => {
+            started = true;
+            touch();
+            return options.onDelta(delta);
+          },
+        }),
+      () => !started
+    );
+  }
+
+  public getHealth(): AIProvidersHealth {
+    const providers = Array.from(this.entries.values()).map(entry => this.toHealth(entry));
+    const configured = providers.filter(provider => provider.configured);
+    const usable = configured.filter(provider => provider.circuit !== 'open');
+
+    return {
+      status: usable.length === 0 ? 'unhealthy' : usable.length < configured.length ? 'degraded' : 'healthy',
+      defaultProvider: this.getDefaultProviderId() ?? null,
+      externalProvidersAllowed: this.allowExternal,
+      providers,
+    };
+  }
+
+  private candidates(preferred?: string): ProviderEntry[] {
+    const ordered = Array.from(this.entries.values());
+    const first = preferred ? this.entries.get(preferred) : undefined;
+    return (first ? [first, ...ordered.filter(entry => entry !== first)] : ordered).filter(entry =>
+      entry.provider.isConfigured()
+    );
+  }
+
+  private async execute(
+    config: Partial<AIConfig>,
+    signal: AbortSignal | undefined,
+    call: ProviderCall,
+    canRetry: () => boolean = () => true
+  ): Promise<AIResponse> {
+    const candidates = this.candidates(config.provider);
+    if (candidates.length === 0) {
+      throw new ExternalAPIError('No AI provider is configured', config.provider, undefined, {
+        reason: 'not_configured',
+      });
+    }
+
+    let lastError: unknown;
+    for (const entry of candidates) {
+      // Model names are provider specific, so only the requested provider gets one
+      const providerConfig =
+        entry.provider.id === config.provider ? config : { ...config, model: undefined };
+
+      for (let attempt = 0; attempt <= entry.policy.maxRetries; attempt++) {
+        if (!entry.breaker.tryAcquire()) {
+          if (attempt === 0) {
+            lastError = new ExternalAPIError(`AI provider ${entry.provider.id} circuit is open`, entry.provider.id);
+          }
+          break;
+        }
+
+        try {
+          const response = await this.attempt(entry, providerConfig, signal, call);
+          return { ...response, provider: entry.provider.id };
+        } catch (error) {
+          if (signal?.aborted || !canRetry()) throw error;
+          lastError = error;
+          if (attempt < entry.policy.maxRetries) {
+            await this.sleep(getRetryDelay(attempt, entry.policy));
+          }
+        }
+      }
+
+      console.warn(`AI provider ${entry.provider.id} unavailable: ${describeError(lastError)}`);
+    }
+
+    throw new ExternalAPIError('All AI providers failed', undefined, undefined, {
+      reason: 'unavailable',
+      providers: candidates.map(entry => entry.provider.id),
+      lastError: describeError(lastError),
+    });
+  }
+
+  /**
+   * One call to one provider, aborted when the caller aborts or the provider
+   * goes quiet for longer than its timeout
+   */
+  private async attempt(
+    entry: ProviderEntry,
+    config: Partial<AIConfig>,
+    signal: AbortSignal | undefined,
+    call: ProviderCall
+  ): Promise<AIResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let rejectAborted: (error: Error) => void = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      rejectAborted = reject;
+    });
+    aborted.catch(() => {});
+
+    const abort = () => {
+      controller.abort();
+      rejectAborted(createAbortError());
+    };
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        abort();
+      }, entry.policy.timeoutMs);
+    };
+
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) abort();
+    touch();
+
+    const startedAt = this.now();
+    entry.stats.requests++;
+
+    try {
+      // Providers that ignore the signal are still cut off on abort
+      const response = await Promise.race([call(entry, config, controller.signal, touch), aborted]);
+      entry.breaker.recordSuccess();
+      entry.stats.successes++;
+      entry.stats.totalLatencyMs += this.now() - startedAt;
+      entry.stats.lastSuccessAt = this.now();
+      return response;
+    } catch (error) {
+      if (signal?.aborted) {
+        entry.breaker.release();
+        throw error;
+      }
+
+      const failure = timedOut
+        ? new ExternalAPIError(
+            `AI provider ${entry.provider.id} timed out after ${entry.policy.timeoutMs}ms`,
+            entry.provider.id,
+            undefined,
+            { reason: 'timeout' }
+          )
+        : error;
+      entry.breaker.recordFailure();
+      entry.stats.failures++;
+      entry.stats.lastFailureAt = this.now();
+      entry.stats.lastError = describeError(failure);
+      throw failure;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private toHealth(entry: ProviderEntry): ProviderHealth {
+    const { provider, breaker, stats } = entry;
+    return {
+      id: provider.id,
+      name: provider.name,
+      kind: provider.kind,
+      external: provider.external,
+      configured: provider.isConfigured(),
+      circuit: breaker.state,
+      consecutiveFailures: breaker.failures,
+      requests: stats.requests,
+      failures: stats.failures,
+      averageLatencyMs: stats.successes > 0 ? Math.round(stats.totalLatencyMs / stats.successes) : undefined,
+      lastSuccessAt: stats.lastSuccessAt ? new Date(stats.lastSuccessAt).toISOString() : undefined,
+      lastFailureAt: stats.lastFailureAt ? new Date(stats.lastFailureAt).toISOString() : undefined,
+      lastError: stats.lastError,
+    };
+  }
+}
+
+export default ProviderRegistry;
@@ -0,0 +1,38 @@
+/**
+ * Response Risk
+ * Keyword screen of model output shared by all providers, used to flag
+ * replies that should trigger crisis logging and resources.
+ */
+
+export type ResponseRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+const CRITICAL_KEYWORDS = [
+  'suicide', 'kill myself', 'end it all', 'not worth living',
+  'better off dead', 'suicide plan', 'hurt myself'
+];
+
+const HIGH_KEYWORDS = [
+  'hopeless', 'worthless', 'can\'t go on', 'severe depression',
+  'panic attack', 'self-harm', 'cutting', 'overdose'
+];
+
+const MEDIUM_KEYWORDS = [
+  'anxious', 'depressed', 'stressed', 'overwhelmed',
+  'panic', 'anxiety', 'sad', 'down', 'worried'
+];
+
+export function assessResponseRisk(content: string): ResponseRiskLevel {
+  const lowerContent = content.toLowerCase();
+
+  if (CRITICAL_KEYWORDS.some(keyword => lowerContent.includes(keyword))) {
+    return 'critical';
+  }
+  if (HIGH_KEYWORDS.some(keyword => lowerContent.includes(keyword))) {
+    return 'high';
+  }
+  if (MEDIUM_KEYWORDS.some(keyword => lowerContent.includes(keyword))) {
+    return 'medium';
+  }
+
+  return 'low';
+}
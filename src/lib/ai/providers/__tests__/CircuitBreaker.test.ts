@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals'
+import { CircuitBreaker } from '../CircuitBreaker'
+
+function createBreaker() {
+  const clock = { now: 0 }
+  const breaker = new CircuitBreaker(3, 1000, () => clock.now)
+  return { clock, breaker }
+}
+
+describe('Circuit breaker', () => {
+  it('should open after consecutive failures reach the threshold', () => {
+    const { breaker } = createBreaker()
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.state).toBe('closed')
+
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+    expect(breaker.tryAcquire()).toBe(false)
+  })
+
+  it('should reset the failure count on success', () => {
+    const { breaker } = createBreaker()
+
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.failures).toBe(1)
+  })
+
+  it('should let a single trial through once the reset timeout passes', () => {
+    const { clock, breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+
+    clock.now = 1000
+    expect(breaker.state).toBe('half_open')
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('should re-open for a full timeout when the trial fails', () => {
+    const { clock, breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+
+    clock.now = 1500
+    breaker.tryAcquire()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+    clock.now = 2499
+    expect(breaker.state).toBe('open')
+    clock.now = 2500
+    expect(breaker.state).toBe('half_open')
+  })
+
+  it('should free the trial slot when a request is released without an outcome', () => {
+    const { clock, breaker } = createBreaker()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    clock.now = 1000
+
+    breaker.tryAcquire()
+    breaker.release()
+
+    expect(breaker.tryAcquire()).toBe(true)
+  })
+})
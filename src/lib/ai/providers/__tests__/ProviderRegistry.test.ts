@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals'
+import type { AIResponse, AIStreamOptions } from '@/lib/ai-service'
+import { AIProvider, ProviderRegistry, getRetryDelay, readProviderPolicy, DEFAULT_PROVIDER_POLICY } from '../ProviderRegistry'
+import { MockProvider } from '../MockProvider'
+
+interface FakeBehaviour {
+  failures?: number
+  hang?: boolean
+  external?: boolean
+  configured?: boolean
+  deltasBeforeFailure?: string[]
+}
+
+function createFakeProvider(id: string, behaviour: FakeBehaviour = {}) {
+  const calls: { model?: string }[] = []
+  let remainingFailures = behaviour.failures ?? 0
+
+  const respond = async (model?: string): Promise<AIResponse> => {
+    calls.push({ model })
+    if (behaviour.hang) return new Promise<AIResponse>(() => {})
+    if (remainingFailures > 0) {
+      remainingFailures--
+      throw new Error(`${id} failed`)
+    }
+    return { content: `reply from ${id}`, model: model ?? id }
+  }
+
+  const provider: AIProvider = {
+    id,
+    name: id,
+    kind: behaviour.external ? 'cloud' : 'local',
+    external: behaviour.external ?? false,
+    isConfigured: () => behaviour.configured ?? true,
+    generateResponse: (_messages, config) => respond(config?.model),
+    streamResponse: async (_messages, config, options: AIStreamOptions) => {
+      for (const delta of behaviour.deltasBeforeFailure ?? []) {
+        await options.onDelta(delta)
+      }
+      return respond(config?.model)
+    },
+  }
+  return { provider, calls }
+}
+
+const noWait = { sleep: async () => {} }
+const messages = [{ role: 'user' as const, content: 'I had a rough day' }]
+
+describe('AI provider registry', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should use the requested provider and report which one answered', async () => {
+    const registry = new ProviderRegistry(noWait)
+    registry.register(createFakeProvider('first').provider)
+    registry.register(createFakeProvider('second').provider)
+
+    const response = await registry.generate(messages, { provider: 'second' })
+
+    expect(response.content).toBe('reply from second')
+    expect(response.provider).toBe('second')
+  })
+
+  it('should retry a failing provider before falling back', async () => {
+    const registry = new ProviderRegistry(noWait)
+    const flaky = createFakeProvider('flaky', { failures: 1 })
+    registry.register(flaky.provider, { maxRetries: 1 })
+    registry.register(createFakeProvider('backup').provider)
+
+    const response = await registry.generate(messages)
+
+    expect(response.provider).toBe('flaky')
+    expect(flaky.calls).toHaveLength(2)
+  })
+
+  it('should fall back in order and only pass the model name to the requested provider', async () => {
+    const registry = new ProviderRegistry(noWait)
+    registry.register(createFakeProvider('primary', { failures: 5 }).provider, { maxRetries: 0 })
+    const backup = createFakeProvider('backup')
+    registry.register(backup.provider)
+
+    const response = await registry.generate(messages, { provider: 'primary', model: 'primary-large' })
+
+    expect(response.provider).toBe('backup')
+    expect(backup.calls[0]?.model).toBeUndefined()
+  })
+
+  it('should skip unconfigured providers', async () => {
+    const registry = new ProviderRegistry(noWait)
+    registry.register(createFakeProvider('missing', { configured: false }).provider)
+    registry.register(createFakeProvider('present').provider)
+
+    expect(registry.getDefaultProviderId()).toBe('present')
+    expect((await registry.generate(messages)).provider).toBe('present')
+  })
+
+  it('should never register external providers when they are not allowed', async () => {
+    const registry = new ProviderRegistry({ ...noWait, allowExternal: false })
+
+    expect(registry.register(createFakeProvider('cloud', { external: true }).provider)).toBe(false)
+    expect(registry.register(new MockProvider())).toBe(true)
+    expect(registry.isConfigured()).toEqual({ mock: true })
+  })
+
+  it('should time out a provider that does not answer', async () => {
+    // Fake timers, so a loaded machine cannot fire the deadline early or late
+    jest.useFakeTimers()
+    const registry = new ProviderRegistry(noWait)
+    registry.register(createFakeProvider('slow', { hang: true }).provider, { timeoutMs: 10, maxRetries: 0 })
+
+    const result = expect(registry.generate(messages)).rejects.toThrow('All AI providers failed')
+    await jest.advanceTimersByTimeAsync(9)
+    expect(registry.getHealth().providers[0]?.lastError).toBeUndefined()
+    await jest.advanceTimersByTimeAsync(1)
+
+    await result
+    expect(registry.getHealth().providers[0]?.lastError).toBe('AI provider slow timed out after 10ms')
+  })
+
+  it('should open the circuit after repeated failures and report it in health', async () => {
+    const registry = new ProviderRegistry(noWait)
+    const broken = createFakeProvider('broken', { failures: 10 })
+    registry.register(broken.provider, { maxRetries: 0, failureThreshold: 2 })
+    registry.register(createFakeProvider('backup').provider)
+
+    await registry.generate(messages)
+    await registry.generate(messages)
+    await registry.generate(messages)
+
+    const health = registry.getHealth()
+    expect(broken.calls).toHaveLength(2)
+    expect(health.status).toBe('degraded')
+    expect(health.defaultProvider).toBe('backup')
+    expect(health.providers[0]).toMatchObject({ id: 'broken', circuit: 'open', failures: 2 })
+  })
+
+  it('should not retry or fall back once a stream has produced output', async () => {
+    const registry = new ProviderRegistry(noWait)
+    registry.register(
+      createFakeProvider('partial', { failures: 1, deltasBeforeFailure: ['Hello '] }).provider,
+      { maxRetries: 2 }
+    )
+    const backup = createFakeProvider('backup')
+    registry.register(backup.provider)
+    const deltas: string[] = []
+
+    await expect(registry.stream(messages, {}, { onDelta: delta => { deltas.push(delta) } })).rejects.toThrow(
+      'partial failed'
+    )
+    expect(deltas).toEqual(['Hello '])
+    expect(backup.calls).toHaveLength(0)
+  })
+
+  it('should not count a caller abort as a provider failure', async () => {
+    const registry = new ProviderRegistry(noWait)
+    registry.register(createFakeProvider('slow', { hang: true }).provider)
+    const controller = new AbortController()
+
+    const pending = registry.stream(messages, {}, { onDelta: () => {}, signal: controller.signal })
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(registry.getHealth().providers[0]).toMatchObject({ failures: 0, circuit: 'closed' })
+  })
+
+  it('should stream deterministic replies from the mock provider', async () => {
+    const registry = new ProviderRegistry(noWait)
+    const mock = new MockProvider()
+    registry.register(mock)
+    const deltas: string[] = []
+
+    const response = await registry.stream(messages, {}, { onDelta: delta => { deltas.push(delta) } })
+
+    expect(deltas.join('')).toBe(response.content)
+    expect(response.content).toBe(mock.getReply(messages))
+    expect(response.provider).toBe('mock')
+  })
+})
+
+describe('Provider policy', () => {
+  it('should read per-provider overrides and ignore invalid values', () => {
+    const policy = readProviderPolicy('local', {
+      AI_LOCAL_TIMEOUT_MS: '90000',
+      AI_LOCAL_MAX_RETRIES: 'three',
+      AI_OPENAI_TIMEOUT_MS: '5',
+    })
+
+    expect(policy.timeoutMs).toBe(90000)
+    expect(policy.maxRetries).toBe(DEFAULT_PROVIDER_POLICY.maxRetries)
+  })
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = { ...DEFAULT_PROVIDER_POLICY, retryBaseDelayMs: 100, retryMaxDelayMs: 350 }
+
+    expect([0, 1, 2].map(attempt => getRetryDelay(attempt, policy))).toEqual([100, 200, 350])
+  })
+})
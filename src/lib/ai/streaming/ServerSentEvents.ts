@@ -0,0 +1,83 @@
+/**
+ * Server-Sent Events
+ * Encoding and incremental parsing of text/event-stream bodies, shared by the
+ * model provider adapters, the streaming chat route and the browser client.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+/**
+ * Parser fed with arbitrary text chunks; calls `onEvent` for each complete
+ * event. Events without an `event:` field are reported as "message".
+ */
+export function createServerSentEventParser(
+  onEvent: (event: ServerSentEvent) => void
+): (chunk: string) => void {
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+    }
+    eventName = '';
+    dataLines = [];
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        dispatch();
+      } else if (line.startsWith(':')) {
+        continue;
+      } else {
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'event') eventName = value;
+        if (field === 'data') dataLines.push(value);
+      }
+    }
+  };
+}
+
+/**
+ * Read a text/event-stream body to the end, awaiting `onEvent` for each event
+ * so slow consumers apply back-pressure to the reader
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void | Promise<void>
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const pending: ServerSentEvent[] = [];
+  const parse = createServerSentEventParser(event => pending.push(event));
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      parse(done ? decoder.decode() + '\n\n' : decoder.decode(value, { stream: true }));
+      while (pending.length > 0) {
+        await onEvent(pending.shift()!);
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
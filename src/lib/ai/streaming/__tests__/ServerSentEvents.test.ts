@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  ServerSentEvent,
+  createServerSentEventParser,
+  encodeServerSentEvent,
+} from '../ServerSentEvents'
+
+function parseAll(chunks: string[]): ServerSentEvent[] {
+  const events: ServerSentEvent[] = []
+  const parse = createServerSentEventParser(event => events.push(event))
+  chunks.forEach(parse)
+  return events
+}
+
+describe('Server-Sent Events', () => {
+  it('should round-trip encoded events', () => {
+    const encoded = encodeServerSentEvent('delta', { content: 'Hello.\nHow are you?' })
+
+    expect(parseAll([encoded])).toEqual([
+      { event: 'delta', data: JSON.stringify({ content: 'Hello.\nHow are you?' }) },
+    ])
+  })
+
+  it('should reassemble events split across chunks', () => {
+    const events = parseAll(['data: {"a"', ':1}\n', '\nevent: done\nda', 'ta: [DONE]\n\n'])
+
+    expect(events).toEqual([
+      { event: 'message', data: '{"a":1}' },
+      { event: 'done', data: '[DONE]' },
+    ])
+  })
+
+  it('should join multi-line data and ignore comments', () => {
+    const events = parseAll([': keep-alive\r\ndata: first\r\ndata: second\r\n\r\n'])
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }])
+  })
+
+  it('should not dispatch an event until its blank line arrives', () => {
+    expect(parseAll(['event: delta\ndata: partial\n'])).toEqual([])
+  })
+})
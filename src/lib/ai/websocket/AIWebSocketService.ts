@@ -1,9 +1,13 @@
 /**
  * AI WebSocket Service
- * Real-time bidirectional communication for AI therapy sessions
+ * Real-time bidirectional communication for AI therapy sessions. Chat turns
+ * are streamed from the safety-checked chat endpoint rather than the socket,
+ * so every AI reply has passed the AITherapyAssistant safety pipeline;
+ * partial replies arrive as `ai_response_chunk` messages.
  */
 
 import { EventEmitter } from 'events';
+import { readServerSentEvents } from '../streaming/ServerSentEvents';
 
 export interface WebSocketConfig {
   url: string;
@@ -12,6 +16,7 @@ export interface WebSocketConfig {
   heartbeatInterval: number;
   messageTimeout: number;
   enableEncryption: boolean;
+  chatEndpoint: string;
 }
 
 export interface WebSocketMessage {
@@ -27,6 +32,7 @@ export interface WebSocketMessage {
 export type MessageType = 
   | 'chat_message'
   | 'ai_response'
+  | 'ai_response_chunk'
   | 'intervention_start'
   | 'intervention_update'
   | 'intervention_complete'
@@ -97,7 +103,8 @@ export class AIWebSocketService extends EventEmitter {
       maxReconnectAttempts: partial.maxReconnectAttempts || 10,
       heartbeatInterval: partial.heartbeatInterval || 30000,
       messageTimeout: partial.messageTimeout || 10000,
-      enableEncryption: partial.enableEncryption !== false
+      enableEncryption: partial.enableEncryption !== false,
+      chatEndpoint: partial.chatEndpoint || '/api/ai/chat'
     };
   }
 
@@ -356,6 +363,21 @@ export class AIWebSocketService extends EventEmitter {
       message.payload = await this.decryptPayload(message.payload);
     }
 
+    // AI replies without a safety verdict did not come through the pipeline,
+    // and partial replies only ever come from the chat stream
+    if (
+      (message.type === 'ai_response' && !message.payload?.safety) ||
+      message.type === 'ai_response_chunk'
+    ) {
+      console.warn('Dropping AI response without a safety check:', message.id);
+      this.emit('unchecked_response', message);
+      return;
+    }
+
+    await this.dispatchMessage(message);
+  }
+
+  private async dispatchMessage(message: WebSocketMessage): Promise<void> {
     // Handle response to pending message
     if (message.payload?.responseToId) {
       this.resolvePendingMessage(message.payload.responseToId, message);
@@ -401,6 +423,9 @@ export class AIWebSocketService extends EventEmitter {
         if (message.payload.riskLevel) {
           this.sessionState.riskLevel = message.payload.riskLevel;
         }
+        if (message.payload.humanHandoffNeeded) {
+          this.sessionState.humanOversight = true;
+        }
         break;
       
       case 'intervention_start':
@@ -472,13 +497,84 @@ export class AIWebSocketService extends EventEmitter {
     this.emit('presence', message.payload);
   }
 
+  /**
+   * Stream a chat turn from the safety-checked chat endpoint. Partial output
+   * is delivered to `ai_response_chunk` handlers (a `replace` chunk means the
+   * safety checks cut the reply off) and the finished turn to `ai_response`
+   * handlers, including whether it was blocked or rewritten.
+   */
   public async sendChatMessage(content: string, metadata?: any): Promise<void> {
-    await this.send({
-      type: 'chat_message',
-      payload: {
-        content,
-        metadata,
-        timestamp: new Date()
+    const requestId = this.generateMessageId();
+    const startedAt = Date.now();
+    const sessionId = this.sessionState?.id || '';
+
+    if (this.sessionState) {
+      this.sessionState.lastActivity = new Date();
+      this.sessionState.messageCount++;
+    }
+    this.updateMetrics('message_sent');
+
+    const response = await fetch(this.config.chatEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({
+        ...metadata,
+        message: content,
+        sessionId: sessionId || undefined,
+        stream: true
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      this.updateMetrics('error');
+      const error = new Error(`Chat request failed with status ${response.status}`);
+      this.emit('error', error);
+      throw error;
+    }
+
+    const localMessage = (type: MessageType, payload: any): WebSocketMessage => ({
+      id: this.generateMessageId(),
+      type,
+      payload: { responseToId: requestId, ...payload },
+      timestamp: new Date(),
+      sessionId,
+      userId: this.sessionState?.userId
+    });
+
+    await readServerSentEvents(response.body, async ({ event, data }) => {
+      const parsed = JSON.parse(data);
+      switch (event) {
+        case 'delta':
+          await this.dispatchMessage(localMessage('ai_response_chunk', { delta: parsed.content }));
+          break;
+        case 'replace':
+          await this.dispatchMessage(localMessage('ai_response_chunk', {
+            replace: parsed.content,
+            safety: parsed.safety
+          }));
+          break;
+        case 'done':
+          this.updateAverageResponseTime(Date.now() - startedAt);
+          await this.dispatchMessage(localMessage('ai_response', {
+            content: parsed.response,
+            safety: parsed.safety,
+            confidence: parsed.confidence,
+            riskLevel: parsed.riskLevel,
+            escalationRequired: parsed.escalationRequired,
+            humanHandoffNeeded: parsed.humanHandoffNeeded,
+            metadata: {
+              confidence: parsed.confidence,
+              riskLevel: parsed.riskLevel,
+              safety: parsed.safety
+            }
+          }));
+          break;
+        case 'error': {
+          this.updateMetrics('error');
+          const error = new Error(parsed.message || 'Chat stream failed');
+          this.emit('error', error);
+          throw error;
+        }
       }
     });
   }
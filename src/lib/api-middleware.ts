@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { UserRole } from '@prisma/client';
 import { z } from 'zod';
 import rateLimit from '@/lib/rate-limit';
+import { AppError } from '@/lib/error-handling/error-types';
 
 // HIPAA compliance headers
 export function addSecurityHeaders(response: NextResponse): NextResponse {
@@ -178,6 +179,14 @@ export function errorResponse(
     );
   }
   
+  // Operational application errors carry their own status and safe message
+  if (error instanceof AppError && error.isOperational) {
+    return NextResponse.json(
+      { error: error.category, message: error.message },
+      { status: error.statusCode }
+    );
+  }
+  
   if (error instanceof Error) {
     // Don't expose internal error messages in production
     const message = process.env.NODE_ENV === 'development' 
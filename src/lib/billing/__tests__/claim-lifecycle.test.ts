@@ -0,0 +1,155 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  applyRemittance,
+  assertClaimTransition,
+  calculateClientBalance,
+  calculateTotalCharges,
+  canTransitionClaim,
+  getInvoiceStatusForBalance,
+} from '../claim-lifecycle'
+import { ClaimStatus, InvoiceStatus } from '../types'
+
+const baseClaim = {
+  status: ClaimStatus.PROCESSING,
+  totalCharges: 200,
+  paidAmount: 0,
+  adjustmentAmount: 0,
+  patientResponsibility: 0,
+}
+
+describe('Claim lifecycle', () => {
+  describe('transitions', () => {
+    it('should follow pending → submitted → processing → paid', () => {
+      expect(canTransitionClaim(ClaimStatus.PENDING, ClaimStatus.SUBMITTED)).toBe(true)
+      expect(canTransitionClaim(ClaimStatus.SUBMITTED, ClaimStatus.PROCESSING)).toBe(true)
+      expect(canTransitionClaim(ClaimStatus.PROCESSING, ClaimStatus.PAID)).toBe(true)
+    })
+
+    it('should only allow appeals from denied claims', () => {
+      expect(canTransitionClaim(ClaimStatus.DENIED, ClaimStatus.APPEALED)).toBe(true)
+      expect(canTransitionClaim(ClaimStatus.PROCESSING, ClaimStatus.APPEALED)).toBe(false)
+      expect(canTransitionClaim(ClaimStatus.PAID, ClaimStatus.APPEALED)).toBe(false)
+    })
+
+    it('should reject skipping submission', () => {
+      expect(() => assertClaimTransition(ClaimStatus.PENDING, ClaimStatus.PAID))
+        .toThrow('Claim cannot move from pending to paid')
+    })
+
+    it('should treat paid as terminal', () => {
+      Object.values(ClaimStatus).forEach(status => {
+        expect(canTransitionClaim(ClaimStatus.PAID, status)).toBe(false)
+      })
+    })
+  })
+
+  describe('applyRemittance', () => {
+    it('should split contractual write-offs from patient responsibility', () => {
+      const result = applyRemittance(baseClaim, {
+        paidAmount: 120,
+        paymentDate: new Date('2024-03-01'),
+        adjustments: [
+          { groupCode: 'CO', reasonCode: '45', amount: 50 },
+          { groupCode: 'PR', reasonCode: '3', amount: 30 },
+        ],
+      })
+
+      expect(result.nextStatus).toBe(ClaimStatus.PAID)
+      expect(result.paidAmount).toBe(120)
+      expect(result.adjustmentAmount).toBe(50)
+      expect(result.patientResponsibility).toBe(30)
+      expect(result.insuranceOutstanding).toBe(0)
+    })
+
+    it('should deny a zero-pay remittance with a denial', () => {
+      const result = applyRemittance(baseClaim, {
+        paidAmount: 0,
+        paymentDate: new Date('2024-03-01'),
+        adjustments: [],
+        denial: { code: 'CO-50', reason: 'Not medically necessary' },
+      })
+
+      expect(result.nextStatus).toBe(ClaimStatus.DENIED)
+      expect(result.insuranceOutstanding).toBe(200)
+    })
+
+    it('should accept remittances for submitted claims', () => {
+      const result = applyRemittance(
+        { ...baseClaim, status: ClaimStatus.SUBMITTED },
+        { paidAmount: 200, paymentDate: new Date('2024-03-01'), adjustments: [] }
+      )
+
+      expect(result.nextStatus).toBe(ClaimStatus.PAID)
+    })
+
+    it('should add a second remittance to a paid claim without reopening it', () => {
+      const primary = applyRemittance(baseClaim, {
+        paidAmount: 120,
+        paymentDate: new Date('2024-03-01'),
+        adjustments: [
+          { groupCode: 'CO', reasonCode: '45', amount: 50 },
+          { groupCode: 'PR', reasonCode: '2', amount: 30 },
+        ],
+      })
+      const secondary = applyRemittance({ ...baseClaim, ...primary, status: primary.nextStatus }, {
+        paidAmount: 25,
+        paymentDate: new Date('2024-03-20'),
+        adjustments: [{ groupCode: 'PR', reasonCode: '2', amount: -25 }],
+      })
+
+      expect(secondary.nextStatus).toBe(ClaimStatus.PAID)
+      expect(secondary.paidAmount).toBe(145)
+      expect(secondary.adjustmentAmount).toBe(50)
+      expect(secondary.patientResponsibility).toBe(5)
+
+      const secondaryDenial = applyRemittance({ ...baseClaim, ...primary, status: primary.nextStatus }, {
+        paidAmount: 0,
+        paymentDate: new Date('2024-03-20'),
+        adjustments: [],
+        denial: { code: 'CO-22', reason: 'Covered by another payer' },
+      })
+      expect(secondaryDenial.nextStatus).toBe(ClaimStatus.PAID)
+    })
+
+    it('should reject remittances for pending claims', () => {
+      expect(() => applyRemittance(
+        { ...baseClaim, status: ClaimStatus.PENDING },
+        { paidAmount: 200, paymentDate: new Date('2024-03-01'), adjustments: [] }
+      )).toThrow()
+    })
+  })
+
+  describe('calculateClientBalance', () => {
+    it('should combine patient responsibility, denials and self-pay invoices', () => {
+      const balance = calculateClientBalance(
+        'client-1',
+        [
+          { ...baseClaim, status: ClaimStatus.PAID, paidAmount: 120, adjustmentAmount: 50, patientResponsibility: 30 },
+          { ...baseClaim, status: ClaimStatus.DENIED },
+        ],
+        [
+          { status: InvoiceStatus.SENT, totalAmount: 100 },
+          { status: InvoiceStatus.CANCELLED, totalAmount: 500 },
+        ],
+        [{ amount: 80 }]
+      )
+
+      expect(balance.patientResponsibility).toBe(230)
+      expect(balance.selfPayCharges).toBe(100)
+      expect(balance.clientPayments).toBe(80)
+      expect(balance.balance).toBe(250)
+      expect(balance.openClaims).toBe(1)
+      expect(balance.openInvoices).toBe(1)
+    })
+  })
+
+  it('should total CPT charges by units and rate', () => {
+    expect(calculateTotalCharges([{ units: 1, rate: 150 }, { units: 2, rate: 32.5 }])).toBe(215)
+  })
+
+  it('should derive invoice status from amount paid', () => {
+    expect(getInvoiceStatusForBalance(100, 0)).toBe(InvoiceStatus.SENT)
+    expect(getInvoiceStatusForBalance(100, 40)).toBe(InvoiceStatus.PARTIAL_PAYMENT)
+    expect(getInvoiceStatusForBalance(100, 100)).toBe(InvoiceStatus.PAID)
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, expect, it } from '@jest/globals'
+import * as fs from 'fs'
+import * as path from 'path'
+import { parse835, toRemittancePosting } from '../x12-835'
+import { generate837P, Generate837Input } from '../x12-837p'
+import { isValidNpi, tokenizeX12 } from '../x12-common'
+import { applyRemittance } from '../claim-lifecycle'
+import { ClaimStatus } from '../types'
+
+const remittanceFixture = fs.readFileSync(
+  path.join(__dirname, 'fixtures', 'remittance-835.edi'),
+  'utf8'
+)
+
+const address = { line1: '100 Main St', city: 'Springfield', state: 'IL', postalCode: '62701' }
+
+const validBatch = (): Generate837Input => ({
+  controlNumber: 42,
+  createdAt: new Date('2024-03-10T15:30:00Z'),
+  submitter: { name: 'CALM MINDS THERAPY', id: 'CALMMINDS', contactName: 'Billing Office', contactPhone: '(555) 123-4567' },
+  receiver: { name: 'CLEARINGHOUSE', id: 'CLEARHOUSE01' },
+  billingProvider: {
+    organizationName: 'CALM MINDS THERAPY',
+    npi: '1234567893',
+    taxId: '12-3456789',
+    address,
+  },
+  claims: [
+    {
+      claimNumber: 'CLM-20240301-AAA111',
+      totalCharges: 300,
+      placeOfService: '11',
+      diagnosisCodes: ['F32.9', 'F41.1'],
+      priorAuthorization: 'AUTH123',
+      subscriber: {
+        memberId: 'XYZ123456',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        dateOfBirth: new Date('1990-05-01'),
+        gender: 'F',
+        address,
+      },
+      payer: { name: 'ACME HEALTH PLAN', id: 'ACME01' },
+      serviceLines: [
+        { cptCode: '90834', chargeAmount: 150, units: 1, diagnosisPointers: [1, 2], serviceDate: new Date('2024-03-01') },
+        { cptCode: '90834', chargeAmount: 150, units: 1, diagnosisPointers: [1], serviceDate: new Date('2024-03-08') },
+      ],
+    },
+  ],
+})
+
+describe('X12 billing files', () => {
+  describe('isValidNpi', () => {
+    it('should validate the NPI check digit', () => {
+      expect(isValidNpi('1234567893')).toBe(true)
+      expect(isValidNpi('1234567890')).toBe(false)
+      expect(isValidNpi('12345')).toBe(false)
+    })
+  })
+
+  describe('generate837P', () => {
+    it('should generate a valid professional claim interchange', () => {
+      const result = generate837P(validBatch())
+
+      expect(result.errors).toEqual([])
+      expect(result.claimCount).toBe(1)
+
+      const { segments } = tokenizeX12(result.content)
+      const ids = segments.map(s => s.id)
+      expect(ids[0]).toBe('ISA')
+      expect(ids.slice(-3)).toEqual(['SE', 'GE', 'IEA'])
+
+      const se = segments.find(s => s.id === 'SE')!
+      const stIndex = ids.indexOf('ST')
+      const seIndex = ids.indexOf('SE')
+      expect(Number(se.elements[1])).toBe(seIndex - stIndex + 1)
+
+      expect(result.content).toContain('CLM*CLM-20240301-AAA111*300***11:B:1*Y*A*Y*Y~')
+      expect(result.content).toContain('HI*ABK:F329*ABF:F411~')
+      expect(result.content).toContain('SV1*HC:90834*150*UN*1***1:2~')
+      expect(result.content).toContain('REF*EI*123456789~')
+      expect(result.content).toContain('REF*G1*AUTH123~')
+    })
+
+    it('should report per-segment errors for invalid claims', () => {
+      const batch = validBatch()
+      batch.billingProvider.npi = '1234567890'
+      batch.claims[0]!.totalCharges = 250
+      batch.claims[0]!.diagnosisCodes = ['ABC']
+      batch.claims[0]!.subscriber.memberId = ''
+
+      const { errors } = generate837P(batch)
+
+      expect(errors).toEqual(expect.arrayContaining([
+        expect.objectContaining({ segment: 'NM1', element: 'NM109', loop: '2010AA' }),
+        expect.objectContaining({ segment: 'NM1', element: 'NM109', loop: '2010BA', claimNumber: 'CLM-20240301-AAA111' }),
+        expect.objectContaining({ segment: 'CLM', element: 'CLM02', loop: '2300' }),
+        expect.objectContaining({ segment: 'HI', element: 'HI01' }),
+      ]))
+    })
+  })
+
+  describe('parse835', () => {
+    it('should parse payer, payment and claim details', () => {
+      const remittance = parse835(remittanceFixture)
+
+      expect(remittance.errors).toEqual([])
+      expect(remittance.payer).toEqual({ name: 'ACME HEALTH PLAN', id: 'ACME01' })
+      expect(remittance.payee.npi).toBe('1234567893')
+      expect(remittance.payment.totalAmount).toBe(200)
+      expect(remittance.payment.traceNumber).toBe('EFT123456')
+      expect(remittance.payment.date?.toISOString()).toBe('2024-03-15T00:00:00.000Z')
+      expect(remittance.claims).toHaveLength(2)
+
+      const [paid] = remittance.claims
+      expect(paid!.serviceLines).toHaveLength(2)
+      expect(paid!.serviceLines[0]!.adjustments).toEqual([
+        { groupCode: 'CO', reasonCode: '45', amount: 30 },
+        { groupCode: 'PR', reasonCode: '3', amount: 20 },
+      ])
+    })
+
+    it('should convert paid claims into postings that balance the claim', () => {
+      const remittance = parse835(remittanceFixture)
+      const posting = toRemittancePosting(remittance.claims[0]!, remittance)
+
+      expect(posting.denial).toBeUndefined()
+      expect(posting.serviceLines).toEqual([
+        { cptCode: '90834', paidAmount: 100, adjustmentAmount: 30 },
+        { cptCode: '90834', paidAmount: 100, adjustmentAmount: 30 },
+      ])
+
+      const result = applyRemittance(
+        { status: ClaimStatus.SUBMITTED, totalCharges: 300, paidAmount: 0, adjustmentAmount: 0, patientResponsibility: 0 },
+        posting
+      )
+      expect(result.nextStatus).toBe(ClaimStatus.PAID)
+      expect(result.adjustmentAmount).toBe(60)
+      expect(result.patientResponsibility).toBe(40)
+      expect(result.insuranceOutstanding).toBe(0)
+    })
+
+    it('should convert denied claims into denial postings', () => {
+      const remittance = parse835(remittanceFixture)
+      const posting = toRemittancePosting(remittance.claims[1]!, remittance)
+
+      expect(posting.denial).toEqual({
+        code: 'CO-50',
+        reason: 'Not deemed a medical necessity by the payer',
+      })
+    })
+
+    it('should flag claims that do not balance', () => {
+      const unbalanced = remittanceFixture.replace('CAS*CO*50*150~', 'CAS*CO*50*100~')
+      const remittance = parse835(unbalanced)
+
+      expect(remittance.errors).toEqual([
+        expect.objectContaining({ segment: 'CLP', claimNumber: 'CLM-20240302-BBB222' }),
+      ])
+    })
+
+    it('should flag a payment total that does not match claim payments', () => {
+      const remittance = parse835(remittanceFixture.replace('BPR*I*200*', 'BPR*I*250*'))
+
+      expect(remittance.errors).toEqual([
+        expect.objectContaining({ segment: 'BPR', element: 'BPR02' }),
+      ])
+    })
+
+    it('should reject transaction sets other than 835', () => {
+      const remittance = parse835(remittanceFixture.replace('ST*835*0001', 'ST*837*0001'))
+
+      expect(remittance.errors[0]).toEqual(expect.objectContaining({ segment: 'ST', element: 'ST01' }))
+      expect(remittance.claims).toHaveLength(0)
+    })
+
+    it('should throw when the ISA header is missing', () => {
+      expect(() => parse835('GS*HP*ACME01~')).toThrow('ISA')
+    })
+  })
+})
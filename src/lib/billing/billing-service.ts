@@ -0,0 +1,496 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { encryptJSON, decryptJSON } from '@/lib/encryption-exports';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  ClaimStatus,
+  ClientBalance,
+  DiagnosisCode,
+  InsuranceDetails,
+  InvoiceStatus,
+  PaymentMethod,
+  ProcedureCode,
+  RemittancePosting,
+} from './types';
+import {
+  applyRemittance,
+  assertClaimTransition,
+  buildStatusHistoryEntry,
+  calculateClientBalance,
+  calculateLineCharge,
+  calculateTotalCharges,
+  getInvoiceStatusForBalance,
+  getStatusTimestampField,
+  roundCurrency,
+} from './claim-lifecycle';
+
+export interface CreateClaimParams {
+  appointmentId?: string;
+  clientId: string;
+  professionalId: string;
+  serviceDate: Date;
+  cptCodes: ProcedureCode[];
+  diagnosisCodes: DiagnosisCode[];
+  insurance: InsuranceDetails;
+  notes?: string;
+  createdBy: string;
+}
+
+export interface CreateInvoiceParams {
+  appointmentId?: string;
+  clientId: string;
+  professionalId: string;
+  serviceDate: Date;
+  cptCodes: ProcedureCode[];
+  discount?: number;
+  dueInDays?: number;
+  notes?: string;
+}
+
+export interface TransitionClaimParams {
+  claimId: string;
+  to: ClaimStatus;
+  changedBy: string;
+  reason?: string;
+  denial?: {
+    code: string;
+    reason: string;
+    appealDeadline?: Date;
+  };
+}
+
+export interface ClientPaymentParams {
+  clientId: string;
+  // Practice the payment is made to; an invoice payment takes the invoice's
+  professionalId: string;
+  invoiceId?: string;
+  amount: number;
+  method: PaymentMethod;
+  paymentDate: Date;
+  referenceNumber?: string;
+  postedBy: string;
+}
+
+export interface ClaimAdjustmentParams {
+  claimId: string;
+  type: 'writeoff' | 'discount' | 'adjustment' | 'refund';
+  amount: number;
+  reason: string;
+  appliedBy: string;
+}
+
+/**
+ * Billing Service
+ * Persists claims, invoices, service lines and payments, enforcing the claim
+ * lifecycle and keeping per-client balances reconcilable against remittances.
+ */
+export class BillingService {
+  private static instance: BillingService;
+
+  private constructor() {}
+
+  static getInstance(): BillingService {
+    if (!BillingService.instance) {
+      BillingService.instance = new BillingService();
+    }
+    return BillingService.instance;
+  }
+
+  /**
+   * Create an insurance claim with one service line per CPT code
+   */
+  async createClaim(params: CreateClaimParams) {
+    const totalCharges = calculateTotalCharges(params.cptCodes);
+    const primaryIndex = Math.max(0, params.diagnosisCodes.findIndex(dx => dx.primary));
+
+    return prisma.claim.create({
+      data: {
+        claimNumber: this.generateClaimNumber(params.serviceDate),
+        appointmentId: params.appointmentId,
+        clientId: params.clientId,
+        professionalId: params.professionalId,
+        serviceDate: params.serviceDate,
+        status: ClaimStatus.PENDING,
+        payerName: params.insurance.provider,
+        payerId: params.insurance.payerId,
+        insuranceEncrypted: encryptJSON(params.insurance),
+        diagnosisCodes: params.diagnosisCodes as any,
+        totalCharges,
+        statusHistory: [buildStatusHistoryEntry(null, ClaimStatus.PENDING, params.createdBy)] as any,
+        notes: params.notes,
+        createdBy: params.createdBy,
+        serviceLines: {
+          create: params.cptCodes.map(code => ({
+            appointmentId: params.appointmentId,
+            serviceDate: params.serviceDate,
+            cptCode: code.code,
+            modifier: code.modifier,
+            description: code.description,
+            units: code.units,
+            unitRate: code.rate,
+            chargeAmount: calculateLineCharge(code),
+            // ICD-10 pointers are 1-based with the primary diagnosis first
+            diagnosisPointers: [primaryIndex + 1],
+          })),
+        },
+      },
+      include: { serviceLines: true },
+    });
+  }
+
+  /**
+   * Create a self-pay invoice for the client
+   */
+  async createInvoice(params: CreateInvoiceParams) {
+    const subtotal = calculateTotalCharges(params.cptCodes);
+    const totalAmount = roundCurrency(Math.max(0, subtotal - (params.discount || 0)));
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + (params.dueInDays ?? 30));
+
+    return prisma.invoice.create({
+      data: {
+        invoiceNumber: this.generateInvoiceNumber(params.serviceDate),
+        clientId: params.clientId,
+        professionalId: params.professionalId,
+        dueDate,
+        subtotal,
+        totalAmount,
+        balance: totalAmount,
+        status: InvoiceStatus.DRAFT,
+        notes: params.notes,
+        serviceLines: {
+          create: params.cptCodes.map(code => ({
+            appointmentId: params.appointmentId,
+            serviceDate: params.serviceDate,
+            cptCode: code.code,
+            modifier: code.modifier,
+            description: code.description,
+            units: code.units,
+            unitRate: code.rate,
+            chargeAmount: calculateLineCharge(code),
+            diagnosisPointers: [],
+          })),
+        },
+      },
+      include: { serviceLines: true },
+    });
+  }
+
+  /**
+   * Move a claim to a new status, rejecting transitions outside the lifecycle
+   */
+  async transitionClaim(params: TransitionClaimParams) {
+    const claim = await this.getClaimOrThrow(params.claimId);
+    const from = claim.status as ClaimStatus;
+
+    assertClaimTransition(from, params.to);
+
+    if (params.to === ClaimStatus.DENIED && !params.denial) {
+      throw new WorkflowError('Denial code and reason are required to deny a claim', {
+        claimId: params.claimId,
+      });
+    }
+
+    const timestampField = getStatusTimestampField(params.to);
+    const history = [
+      ...this.readHistory(claim.statusHistory),
+      buildStatusHistoryEntry(from, params.to, params.changedBy, params.reason || params.denial?.reason),
+    ];
+
+    return prisma.$transaction(async tx => {
+      await this.updateClaimIfUnchanged(tx, claim, {
+        status: params.to,
+        statusHistory: history as any,
+        ...(timestampField && { [timestampField]: new Date() }),
+        ...(params.denial && {
+          denialCode: params.denial.code,
+          denialReason: params.denial.reason,
+          appealDeadline: params.denial.appealDeadline,
+        }),
+      });
+      return tx.claim.findUniqueOrThrow({ where: { id: params.claimId } });
+    });
+  }
+
+  /**
+   * Post a payer remittance against a claim and record the insurance payment
+   */
+  async postRemittance(claimId: string, remittance: RemittancePosting, postedBy: string) {
+    const claim = await this.getClaimOrThrow(claimId);
+    const from = claim.status as ClaimStatus;
+    const result = applyRemittance(
+      {
+        status: from,
+        totalCharges: claim.totalCharges,
+        paidAmount: claim.paidAmount,
+        adjustmentAmount: claim.adjustmentAmount,
+        patientResponsibility: claim.patientResponsibility,
+      },
+      remittance
+    );
+
+    const history = this.readHistory(claim.statusHistory);
+    if (from === ClaimStatus.SUBMITTED && result.nextStatus === ClaimStatus.PAID) {
+      history.push(buildStatusHistoryEntry(from, ClaimStatus.PROCESSING, postedBy, 'Remittance received'));
+      history.push(buildStatusHistoryEntry(ClaimStatus.PROCESSING, result.nextStatus, postedBy));
+    } else {
+      history.push(buildStatusHistoryEntry(from, result.nextStatus, postedBy, remittance.denial?.reason));
+    }
+
+    // A further remittance on a paid claim keeps the date it was first paid
+    const timestampField = result.nextStatus !== from ? getStatusTimestampField(result.nextStatus) : null;
+
+    return prisma.$transaction(async tx => {
+      // The claim write goes first so a concurrent posting fails before
+      // anything is recorded
+      await this.updateClaimIfUnchanged(tx, claim, {
+        status: result.nextStatus,
+        statusHistory: history as any,
+        paidAmount: result.paidAmount,
+        adjustmentAmount: result.adjustmentAmount,
+        patientResponsibility: result.patientResponsibility,
+        allowedAmount: remittance.allowedAmount ?? claim.allowedAmount,
+        payerClaimNumber: remittance.payerClaimNumber ?? claim.payerClaimNumber,
+        ...(timestampField && { [timestampField]: new Date() }),
+        ...(from === ClaimStatus.SUBMITTED && { processedAt: new Date() }),
+        // A later payer's denial is kept in the history, not on a paid claim
+        ...(remittance.denial && from !== ClaimStatus.PAID && {
+          denialCode: remittance.denial.code,
+          denialReason: remittance.denial.reason,
+          appealDeadline: remittance.denial.appealDeadline,
+        }),
+      });
+
+      const payment = await tx.payment.create({
+        data: {
+          clientId: claim.clientId,
+          professionalId: claim.professionalId,
+          claimId,
+          source: 'insurance',
+          method: 'insurance',
+          amount: remittance.paidAmount,
+          paymentDate: remittance.paymentDate,
+          referenceNumber: remittance.referenceNumber,
+          adjustments: remittance.adjustments as any,
+          postedBy,
+        },
+      });
+      await this.applyLineRemittance(tx, claimId, remittance);
+      const updatedClaim = await tx.claim.findUniqueOrThrow({ where: { id: claimId } });
+
+      return { payment, claim: updatedClaim, insuranceOutstanding: result.insuranceOutstanding };
+    });
+  }
+
+  /**
+   * Apply a manual write-off, discount or refund to a claim
+   */
+  async adjustClaim(params: ClaimAdjustmentParams) {
+    const claim = await this.getClaimOrThrow(params.claimId);
+
+    if (params.amount <= 0) {
+      throw new WorkflowError('Adjustment amount must be positive', { claimId: params.claimId });
+    }
+
+    const data: Record<string, number> = {};
+    if (params.type === 'refund') {
+      if (params.amount > claim.paidAmount) {
+        throw new WorkflowError('Refund exceeds amount paid on claim', { claimId: params.claimId });
+      }
+      data.paidAmount = roundCurrency(claim.paidAmount - params.amount);
+    } else {
+      data.adjustmentAmount = roundCurrency(claim.adjustmentAmount + params.amount);
+    }
+
+    const history = [
+      ...this.readHistory(claim.statusHistory),
+      {
+        ...buildStatusHistoryEntry(claim.status as ClaimStatus, claim.status as ClaimStatus, params.appliedBy, params.reason),
+        adjustment: { type: params.type, amount: params.amount },
+      },
+    ];
+
+    return prisma.$transaction(async tx => {
+      await this.updateClaimIfUnchanged(tx, claim, { ...data, statusHistory: history as any });
+      return tx.claim.findUniqueOrThrow({ where: { id: params.claimId } });
+    });
+  }
+
+  /**
+   * Record a payment made by the client, optionally against an invoice
+   */
+  async recordClientPayment(params: ClientPaymentParams) {
+    if (params.amount <= 0) {
+      throw new WorkflowError('Payment amount must be positive', { clientId: params.clientId });
+    }
+
+    if (!params.invoiceId) {
+      return prisma.payment.create({
+        data: {
+          clientId: params.clientId,
+          professionalId: params.professionalId,
+          source: 'client',
+          method: params.method,
+          amount: params.amount,
+          paymentDate: params.paymentDate,
+          referenceNumber: params.referenceNumber,
+          postedBy: params.postedBy,
+        },
+      });
+    }
+
+    const invoice = await prisma.invoice.findUnique({ where: { id: params.invoiceId } });
+    if (!invoice || invoice.clientId !== params.clientId || invoice.professionalId !== params.professionalId) {
+      throw new WorkflowError('Invoice not found for client', { invoiceId: params.invoiceId });
+    }
+    if (invoice.status === InvoiceStatus.CANCELLED) {
+      throw new WorkflowError('Cannot record payment against a cancelled invoice', { invoiceId: invoice.id });
+    }
+
+    const paidAmount = roundCurrency(invoice.paidAmount + params.amount);
+
+    const [payment] = await prisma.$transaction([
+      prisma.payment.create({
+        data: {
+          clientId: params.clientId,
+          professionalId: invoice.professionalId,
+          invoiceId: invoice.id,
+          source: 'client',
+          method: params.method,
+          amount: params.amount,
+          paymentDate: params.paymentDate,
+          referenceNumber: params.referenceNumber,
+          postedBy: params.postedBy,
+        },
+      }),
+      prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          paidAmount,
+          balance: roundCurrency(Math.max(0, invoice.totalAmount - paidAmount)),
+          status: getInvoiceStatusForBalance(invoice.totalAmount, paidAmount),
+        },
+      }),
+    ]);
+
+    return payment;
+  }
+
+  /**
+   * Compute what a client owes across claims, invoices and payments
+   */
+  async getClientBalance(clientId: string, professionalId?: string): Promise<ClientBalance> {
+    const scope = { clientId, ...(professionalId && { professionalId }) };
+
+    const [claims, invoices, payments] = await Promise.all([
+      prisma.claim.findMany({
+        where: scope,
+        select: {
+          status: true,
+          totalCharges: true,
+          paidAmount: true,
+          adjustmentAmount: true,
+          patientResponsibility: true,
+        },
+      }),
+      prisma.invoice.findMany({
+        where: scope,
+        select: { status: true, totalAmount: true },
+      }),
+      prisma.payment.findMany({
+        where: { ...scope, source: 'client' },
+        select: { amount: true },
+      }),
+    ]);
+
+    return calculateClientBalance(
+      clientId,
+      claims.map((c: any) => ({ ...c, status: c.status as ClaimStatus })),
+      invoices.map((inv: any) => ({ ...inv, status: inv.status as InvoiceStatus })),
+      payments
+    );
+  }
+
+  /**
+   * Decrypt the insurance details stored on a claim
+   */
+  getInsuranceDetails(claim: { insuranceEncrypted: unknown }): InsuranceDetails | null {
+    if (!claim.insuranceEncrypted) return null;
+    return decryptJSON(claim.insuranceEncrypted as string) as InsuranceDetails;
+  }
+
+  private async getClaimOrThrow(claimId: string) {
+    const claim = await prisma.claim.findUnique({ where: { id: claimId } });
+    if (!claim) {
+      throw new WorkflowError('Claim not found', { claimId });
+    }
+    return claim;
+  }
+
+  /**
+   * Write a claim only if no other update has touched it since it was read.
+   * Claim writes are computed from the claim as read (status checks,
+   * running totals, history), so a concurrent posting or transition must
+   * fail rather than be overwritten or counted twice.
+   */
+  private async updateClaimIfUnchanged(
+    tx: Prisma.TransactionClient,
+    claim: { id: string; status: string; updatedAt: Date },
+    data: Prisma.ClaimUpdateManyMutationInput
+  ): Promise<void> {
+    const { count } = await tx.claim.updateMany({
+      where: { id: claim.id, status: claim.status as ClaimStatus, updatedAt: claim.updatedAt },
+      data,
+    });
+    if (count === 0) {
+      throw new WorkflowError('Claim was changed by another update; reload it and try again', {
+        claimId: claim.id,
+        expectedStatus: claim.status,
+      });
+    }
+  }
+
+  /**
+   * Match remittance service lines to billed lines by CPT code, in billed order
+   */
+  private async applyLineRemittance(tx: Prisma.TransactionClient, claimId: string, remittance: RemittancePosting) {
+    if (!remittance.serviceLines?.length) return;
+
+    const unmatched = await tx.serviceLine.findMany({
+      where: { claimId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const remitted of remittance.serviceLines) {
+      const index = unmatched.findIndex(line => line.cptCode === remitted.cptCode);
+      if (index === -1) continue;
+      const [line] = unmatched.splice(index, 1);
+
+      await tx.serviceLine.update({
+        where: { id: line!.id },
+        data: {
+          paidAmount: roundCurrency(line!.paidAmount + remitted.paidAmount),
+          adjustmentAmount: roundCurrency(line!.adjustmentAmount + remitted.adjustmentAmount),
+        },
+      });
+    }
+  }
+
+  private readHistory(history: unknown): any[] {
+    return Array.isArray(history) ? [...history] : [];
+  }
+
+  private generateClaimNumber(serviceDate: Date): string {
+    const datePart = serviceDate.toISOString().slice(0, 10).replace(/-/g, '');
+    const random = Math.random().toString(36).substr(2, 6).toUpperCase();
+    return `CLM-${datePart}-${random}`;
+  }
+
+  private generateInvoiceNumber(serviceDate: Date): string {
+    const datePart = serviceDate.toISOString().slice(0, 7).replace(/-/g, '');
+    const random = Math.random().toString(36).substr(2, 6).toUpperCase();
+    return `INV-${datePart}-${random}`;
+  }
+}
+
+export const billingService = BillingService.getInstance();
@@ -0,0 +1,203 @@
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  ClaimStatus,
+  ClaimStatusHistoryEntry,
+  ClientBalance,
+  InvoiceStatus,
+  ProcedureCode,
+  RemittancePosting,
+} from './types';
+
+/**
+ * Claim Lifecycle Rules
+ * pending → submitted → processing → paid / denied → appealed
+ * Enforced server-side for every status change and remittance posting.
+ */
+
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  [ClaimStatus.PENDING]: [ClaimStatus.SUBMITTED],
+  [ClaimStatus.SUBMITTED]: [ClaimStatus.PROCESSING, ClaimStatus.DENIED],
+  [ClaimStatus.PROCESSING]: [ClaimStatus.PAID, ClaimStatus.DENIED],
+  [ClaimStatus.DENIED]: [ClaimStatus.APPEALED],
+  // An appeal is re-adjudicated by the payer and ends paid or denied again
+  [ClaimStatus.APPEALED]: [ClaimStatus.PROCESSING, ClaimStatus.PAID, ClaimStatus.DENIED],
+  [ClaimStatus.PAID]: [],
+};
+
+// Adjustment group codes that reduce the claim without shifting cost to the client
+const WRITE_OFF_GROUP_CODES = ['CO', 'OA', 'PI', 'CR'];
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertClaimTransition(from: ClaimStatus, to: ClaimStatus): void {
+  if (!canTransitionClaim(from, to)) {
+    throw new WorkflowError(
+      `Claim cannot move from ${from.toLowerCase()} to ${to.toLowerCase()}`,
+      { from, to, allowed: CLAIM_STATUS_TRANSITIONS[from] }
+    );
+  }
+}
+
+export function buildStatusHistoryEntry(
+  from: ClaimStatus | null,
+  to: ClaimStatus,
+  changedBy: string,
+  reason?: string
+): ClaimStatusHistoryEntry {
+  return {
+    from,
+    to,
+    changedBy,
+    changedAt: new Date().toISOString(),
+    ...(reason && { reason }),
+  };
+}
+
+// Timestamp column recorded when a claim enters each status
+export function getStatusTimestampField(status: ClaimStatus): string | null {
+  switch (status) {
+    case ClaimStatus.SUBMITTED:
+      return 'submittedAt';
+    case ClaimStatus.PROCESSING:
+      return 'processedAt';
+    case ClaimStatus.PAID:
+      return 'paidAt';
+    case ClaimStatus.DENIED:
+      return 'deniedAt';
+    case ClaimStatus.APPEALED:
+      return 'appealedAt';
+    default:
+      return null;
+  }
+}
+
+export function calculateLineCharge(code: Pick<ProcedureCode, 'units' | 'rate'>): number {
+  return roundCurrency(code.units * code.rate);
+}
+
+export function calculateTotalCharges(codes: Array<Pick<ProcedureCode, 'units' | 'rate'>>): number {
+  return roundCurrency(codes.reduce((total, code) => total + calculateLineCharge(code), 0));
+}
+
+export interface ClaimAmounts {
+  status: ClaimStatus;
+  totalCharges: number;
+  paidAmount: number;
+  adjustmentAmount: number;
+  patientResponsibility: number;
+}
+
+export interface RemittanceResult {
+  nextStatus: ClaimStatus;
+  paidAmount: number;
+  adjustmentAmount: number;
+  patientResponsibility: number;
+  insuranceOutstanding: number;
+}
+
+/**
+ * Applies a payer remittance to a claim's running totals.
+ * CO/OA/PI/CR adjustments are written off, PR adjustments move to the client's
+ * balance, and anything left unexplained stays outstanding with the payer.
+ * Further remittances on a paid claim (a secondary payer or a follow-up
+ * adjustment) add to its totals and leave it paid.
+ */
+export function applyRemittance(claim: ClaimAmounts, remittance: RemittancePosting): RemittanceResult {
+  const alreadyPaid = claim.status === ClaimStatus.PAID;
+  const nextStatus = !alreadyPaid && remittance.denial && remittance.paidAmount <= 0
+    ? ClaimStatus.DENIED
+    : ClaimStatus.PAID;
+
+  // Remittances arrive for claims the payer has accepted; submitted claims
+  // implicitly pass through processing first.
+  if (claim.status === ClaimStatus.SUBMITTED && nextStatus === ClaimStatus.PAID) {
+    assertClaimTransition(ClaimStatus.PROCESSING, nextStatus);
+  } else if (!alreadyPaid) {
+    assertClaimTransition(claim.status, nextStatus);
+  }
+
+  if (remittance.paidAmount < 0) {
+    throw new WorkflowError('Remittance paid amount cannot be negative', {
+      paidAmount: remittance.paidAmount,
+    });
+  }
+
+  const writeOffs = remittance.adjustments
+    .filter(adj => WRITE_OFF_GROUP_CODES.includes(adj.groupCode))
+    .reduce((sum, adj) => sum + adj.amount, 0);
+  const patientShare = remittance.adjustments
+    .filter(adj => adj.groupCode === 'PR')
+    .reduce((sum, adj) => sum + adj.amount, 0);
+
+  const paidAmount = roundCurrency(claim.paidAmount + remittance.paidAmount);
+  const adjustmentAmount = roundCurrency(claim.adjustmentAmount + writeOffs);
+  const patientResponsibility = roundCurrency(claim.patientResponsibility + patientShare);
+  const insuranceOutstanding = roundCurrency(
+    Math.max(0, claim.totalCharges - paidAmount - adjustmentAmount - patientResponsibility)
+  );
+
+  return {
+    nextStatus,
+    paidAmount,
+    adjustmentAmount,
+    patientResponsibility,
+    insuranceOutstanding,
+  };
+}
+
+export function getInsuranceOutstanding(claim: ClaimAmounts): number {
+  if (claim.status === ClaimStatus.PAID || claim.status === ClaimStatus.DENIED) {
+    return 0;
+  }
+  return roundCurrency(
+    Math.max(0, claim.totalCharges - claim.paidAmount - claim.adjustmentAmount - claim.patientResponsibility)
+  );
+}
+
+export function getInvoiceStatusForBalance(totalAmount: number, paidAmount: number): InvoiceStatus {
+  if (paidAmount <= 0) return InvoiceStatus.SENT;
+  if (roundCurrency(totalAmount - paidAmount) <= 0) return InvoiceStatus.PAID;
+  return InvoiceStatus.PARTIAL_PAYMENT;
+}
+
+/**
+ * Rolls claims, self-pay invoices and client payments up into a single balance.
+ * Denied claims are owed by the client in full unless written off or appealed.
+ */
+export function calculateClientBalance(
+  clientId: string,
+  claims: ClaimAmounts[],
+  invoices: Array<{ status: InvoiceStatus; totalAmount: number }>,
+  clientPayments: Array<{ amount: number }>
+): ClientBalance {
+  const sum = (values: number[]) => roundCurrency(values.reduce((total, v) => total + v, 0));
+
+  const billableInvoices = invoices.filter(inv => inv.status !== InvoiceStatus.CANCELLED);
+  const deniedOwed = claims
+    .filter(c => c.status === ClaimStatus.DENIED)
+    .map(c => Math.max(0, c.totalCharges - c.paidAmount - c.adjustmentAmount - c.patientResponsibility));
+
+  const patientResponsibility = sum([...claims.map(c => c.patientResponsibility), ...deniedOwed]);
+  const selfPayCharges = sum(billableInvoices.map(inv => inv.totalAmount));
+  const paid = sum(clientPayments.map(p => p.amount));
+
+  return {
+    clientId,
+    totalCharges: sum([...claims.map(c => c.totalCharges), selfPayCharges]),
+    insurancePaid: sum(claims.map(c => c.paidAmount)),
+    insuranceOutstanding: sum(claims.map(getInsuranceOutstanding)),
+    contractualAdjustments: sum(claims.map(c => c.adjustmentAmount)),
+    patientResponsibility,
+    selfPayCharges,
+    clientPayments: paid,
+    balance: roundCurrency(Math.max(0, patientResponsibility + selfPayCharges - paid)),
+    openClaims: claims.filter(c => c.status !== ClaimStatus.PAID).length,
+    openInvoices: billableInvoices.filter(inv => inv.status !== InvoiceStatus.PAID).length,
+  };
+}
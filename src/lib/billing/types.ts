@@ -0,0 +1,201 @@
+/**
+ * Therapy Billing Types
+ * Shared shapes for claims, invoices, service lines and payments.
+ * Mirrors the Claim / Invoice / ServiceLine / Payment Prisma models.
+ */
+
+// Claim lifecycle statuses (matches the ClaimStatus Prisma enum)
+export enum ClaimStatus {
+  PENDING = 'PENDING',
+  SUBMITTED = 'SUBMITTED',
+  PROCESSING = 'PROCESSING',
+  PAID = 'PAID',
+  DENIED = 'DENIED',
+  APPEALED = 'APPEALED',
+}
+
+// Client invoice statuses (matches the InvoiceStatus Prisma enum)
+export enum InvoiceStatus {
+  DRAFT = 'DRAFT',
+  SENT = 'SENT',
+  PARTIAL_PAYMENT = 'PARTIAL_PAYMENT',
+  PAID = 'PAID',
+  OVERDUE = 'OVERDUE',
+  CANCELLED = 'CANCELLED',
+}
+
+export type PaymentSource = 'insurance' | 'client';
+export type PaymentMethod = 'insurance' | 'credit_card' | 'check' | 'cash' | 'ach';
+
+// X12 claim adjustment group codes used on remittances
+export type AdjustmentGroupCode =
+  | 'CO' // Contractual obligation (provider write-off)
+  | 'PR' // Patient responsibility
+  | 'OA' // Other adjustment
+  | 'PI' // Payer initiated reduction
+  | 'CR'; // Correction / reversal
+
+export interface ProcedureCode {
+  code: string;
+  description: string;
+  units: number;
+  rate: number;
+  modifier?: string;
+}
+
+export interface DiagnosisCode {
+  code: string;
+  description: string;
+  primary: boolean;
+}
+
+export interface InsuranceDetails {
+  provider: string;
+  payerId?: string;
+  policyNumber: string;
+  groupNumber?: string;
+  copay: number;
+  deductible: number;
+  deductibleMet: number;
+  coinsurance: number;
+  authorizationNumber?: string;
+  authorizationVisits?: number;
+  authorizationUsed?: number;
+}
+
+export interface ServiceLine {
+  id: string;
+  claimId?: string | null;
+  invoiceId?: string | null;
+  appointmentId?: string | null;
+  serviceDate: Date;
+  cptCode: string;
+  modifier?: string | null;
+  description: string;
+  units: number;
+  unitRate: number;
+  chargeAmount: number;
+  allowedAmount?: number | null;
+  paidAmount: number;
+  adjustmentAmount: number;
+  diagnosisPointers: number[];
+}
+
+export interface ClaimStatusHistoryEntry {
+  from: ClaimStatus | null;
+  to: ClaimStatus;
+  changedBy: string;
+  changedAt: string;
+  reason?: string;
+}
+
+export interface Claim {
+  id: string;
+  claimNumber: string;
+  appointmentId?: string | null;
+  clientId: string;
+  professionalId: string;
+  serviceDate: Date;
+  status: ClaimStatus;
+  payerName?: string | null;
+  payerId?: string | null;
+  diagnosisCodes: DiagnosisCode[];
+  totalCharges: number;
+  allowedAmount?: number | null;
+  paidAmount: number;
+  adjustmentAmount: number;
+  patientResponsibility: number;
+  payerClaimNumber?: string | null;
+  denialCode?: string | null;
+  denialReason?: string | null;
+  appealDeadline?: Date | null;
+  submittedAt?: Date | null;
+  processedAt?: Date | null;
+  paidAt?: Date | null;
+  deniedAt?: Date | null;
+  appealedAt?: Date | null;
+  statusHistory: ClaimStatusHistoryEntry[];
+  notes?: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  serviceLines?: ServiceLine[];
+  payments?: Payment[];
+}
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  clientId: string;
+  professionalId: string;
+  issueDate: Date;
+  dueDate: Date;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  paidAmount: number;
+  balance: number;
+  status: InvoiceStatus;
+  remindersSent: number;
+  lastReminderAt?: Date | null;
+  notes?: string | null;
+  serviceLines?: ServiceLine[];
+  payments?: Payment[];
+}
+
+export interface RemittanceAdjustment {
+  groupCode: AdjustmentGroupCode;
+  reasonCode: string;
+  amount: number;
+}
+
+export interface Payment {
+  id: string;
+  clientId: string;
+  professionalId?: string | null;
+  claimId?: string | null;
+  invoiceId?: string | null;
+  source: PaymentSource;
+  method: PaymentMethod;
+  amount: number;
+  paymentDate: Date;
+  referenceNumber?: string | null;
+  adjustments?: RemittanceAdjustment[] | null;
+  postedBy: string;
+  createdAt: Date;
+}
+
+// Payer adjudication result posted against a single claim
+export interface RemittancePosting {
+  paidAmount: number;
+  allowedAmount?: number;
+  payerClaimNumber?: string;
+  paymentDate: Date;
+  referenceNumber?: string;
+  adjustments: RemittanceAdjustment[];
+  serviceLines?: Array<{
+    cptCode: string;
+    paidAmount: number;
+    adjustmentAmount: number;
+  }>;
+  denial?: {
+    code: string;
+    reason: string;
+    appealDeadline?: Date;
+  };
+}
+
+// Outstanding amounts owed for one client across claims and invoices
+export interface ClientBalance {
+  clientId: string;
+  totalCharges: number;
+  insurancePaid: number;
+  insuranceOutstanding: number;
+  contractualAdjustments: number;
+  patientResponsibility: number;
+  selfPayCharges: number;
+  clientPayments: number;
+  balance: number;
+  openClaims: number;
+  openInvoices: number;
+}
@@ -0,0 +1,335 @@
+import { AdjustmentGroupCode, RemittanceAdjustment, RemittancePosting } from './types';
+import {
+  X12Segment,
+  X12SegmentError,
+  element,
+  parseX12Amount,
+  parseX12Date,
+  tokenizeX12,
+} from './x12-common';
+
+/**
+ * X12 835 Electronic Remittance Advice Parser (005010X221A1)
+ * Turns payer remittances into per-claim payment and denial records that can
+ * be posted with BillingService.postRemittance.
+ */
+
+// CLP02 claim status codes
+export const CLAIM_STATUS_CODES: Record<string, string> = {
+  '1': 'Processed as primary',
+  '2': 'Processed as secondary',
+  '3': 'Processed as tertiary',
+  '4': 'Denied',
+  '19': 'Processed as primary, forwarded to additional payer',
+  '20': 'Processed as secondary, forwarded to additional payer',
+  '21': 'Processed as tertiary, forwarded to additional payer',
+  '22': 'Reversal of previous payment',
+  '23': 'Not our claim, forwarded to additional payer',
+};
+
+// Common claim adjustment reason codes seen on behavioral health remittances
+export const ADJUSTMENT_REASON_CODES: Record<string, string> = {
+  '1': 'Deductible amount',
+  '2': 'Coinsurance amount',
+  '3': 'Co-payment amount',
+  '4': 'Procedure code inconsistent with modifier',
+  '16': 'Claim lacks information needed for adjudication',
+  '18': 'Exact duplicate claim/service',
+  '27': 'Expenses incurred after coverage terminated',
+  '29': 'Time limit for filing has expired',
+  '45': 'Charge exceeds fee schedule/maximum allowable',
+  '50': 'Not deemed a medical necessity by the payer',
+  '96': 'Non-covered charge(s)',
+  '97': 'Payment included in another service already adjudicated',
+  '109': 'Claim not covered by this payer/contractor',
+  '119': 'Benefit maximum for this time period has been reached',
+  '197': 'Precertification/authorization absent',
+  '242': 'Services not provided by network/primary care providers',
+};
+
+const GROUP_CODES: AdjustmentGroupCode[] = ['CO', 'PR', 'OA', 'PI', 'CR'];
+
+export interface RemittanceServiceLine {
+  cptCode: string;
+  modifier?: string;
+  chargeAmount: number;
+  paidAmount: number;
+  units: number;
+  serviceDate?: Date;
+  adjustments: RemittanceAdjustment[];
+}
+
+export interface RemittanceClaim {
+  patientControlNumber: string; // Our claim number, echoed from CLM01
+  statusCode: string;
+  statusDescription: string;
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  payerClaimNumber?: string;
+  adjustments: RemittanceAdjustment[];
+  serviceLines: RemittanceServiceLine[];
+  position: number;
+}
+
+export interface ProviderLevelAdjustment {
+  reasonCode: string;
+  reference?: string;
+  amount: number;
+}
+
+export interface Remittance835 {
+  payer: { name: string; id?: string };
+  payee: { name: string; npi?: string };
+  payment: {
+    method: string;
+    totalAmount: number;
+    date: Date | null;
+    traceNumber?: string;
+  };
+  claims: RemittanceClaim[];
+  providerAdjustments: ProviderLevelAdjustment[];
+  errors: X12SegmentError[];
+}
+
+export function parse835(content: string): Remittance835 {
+  const { delimiters, segments } = tokenizeX12(content);
+  const errors: X12SegmentError[] = [];
+
+  const result: Remittance835 = {
+    payer: { name: '' },
+    payee: { name: '' },
+    payment: { method: '', totalAmount: 0, date: null },
+    claims: [],
+    providerAdjustments: [],
+    errors,
+  };
+
+  const st = segments.find(seg => seg.id === 'ST');
+  if (!st || element(st, 1) !== '835') {
+    errors.push({ segment: 'ST', position: st?.position, element: 'ST01', message: 'Transaction set is not an 835 remittance advice' });
+    return result;
+  }
+
+  let currentClaim: RemittanceClaim | null = null;
+  let currentLine: RemittanceServiceLine | null = null;
+  let entityContext: 'payer' | 'payee' | null = null;
+
+  for (const segment of segments) {
+    switch (segment.id) {
+      case 'BPR': {
+        result.payment.totalAmount = parseX12Amount(element(segment, 2));
+        result.payment.method = element(segment, 4);
+        result.payment.date = parseX12Date(element(segment, 16));
+        if (!result.payment.date) {
+          errors.push({ segment: 'BPR', position: segment.position, element: 'BPR16', message: 'Payment effective date is missing or invalid' });
+        }
+        break;
+      }
+      case 'TRN':
+        result.payment.traceNumber = element(segment, 2);
+        break;
+      case 'N1':
+        if (element(segment, 1) === 'PR') {
+          entityContext = 'payer';
+          result.payer.name = element(segment, 2);
+        } else if (element(segment, 1) === 'PE') {
+          entityContext = 'payee';
+          result.payee.name = element(segment, 2);
+          if (element(segment, 3) === 'XX') {
+            result.payee.npi = element(segment, 4);
+          }
+        }
+        break;
+      case 'REF':
+        if (entityContext === 'payer' && element(segment, 1) === '2U') {
+          result.payer.id = element(segment, 2);
+        }
+        break;
+      case 'CLP': {
+        currentLine = null;
+        currentClaim = parseClaim(segment, errors);
+        result.claims.push(currentClaim);
+        entityContext = null;
+        break;
+      }
+      case 'CAS': {
+        const adjustments = parseAdjustments(segment, errors, currentClaim?.patientControlNumber);
+        if (currentLine) {
+          currentLine.adjustments.push(...adjustments);
+        } else if (currentClaim) {
+          currentClaim.adjustments.push(...adjustments);
+        } else {
+          errors.push({ segment: 'CAS', position: segment.position, message: 'Adjustment found outside of a claim' });
+        }
+        break;
+      }
+      case 'SVC': {
+        if (!currentClaim) {
+          errors.push({ segment: 'SVC', position: segment.position, message: 'Service line found outside of a claim' });
+          break;
+        }
+        const [qualifier, cptCode, modifier] = element(segment, 1).split(delimiters.component);
+        if (qualifier !== 'HC' || !cptCode) {
+          errors.push({ segment: 'SVC', position: segment.position, element: 'SVC01', claimNumber: currentClaim.patientControlNumber, message: 'Service line must carry an HC procedure code' });
+        }
+        currentLine = {
+          cptCode: cptCode ?? '',
+          modifier: modifier || undefined,
+          chargeAmount: parseX12Amount(element(segment, 2)),
+          paidAmount: parseX12Amount(element(segment, 3)),
+          units: parseX12Amount(element(segment, 5)) || 1,
+          adjustments: [],
+        };
+        currentClaim.serviceLines.push(currentLine);
+        break;
+      }
+      case 'DTM':
+        if (currentLine && element(segment, 1) === '472') {
+          currentLine.serviceDate = parseX12Date(element(segment, 2)) ?? undefined;
+        }
+        break;
+      case 'PLB': {
+        // Provider-level adjustments come in reason:reference / amount pairs from PLB03
+        for (let i = 3; i < segment.elements.length; i += 2) {
+          const [reasonCode, reference] = element(segment, i).split(delimiters.component);
+          if (!reasonCode) continue;
+          result.providerAdjustments.push({
+            reasonCode,
+            reference,
+            amount: parseX12Amount(element(segment, i + 1)),
+          });
+        }
+        break;
+      }
+      case 'SE':
+        currentClaim = null;
+        currentLine = null;
+        break;
+      default:
+        break;
+    }
+  }
+
+  validateBalancing(result, segments);
+  return result;
+}
+
+function parseClaim(segment: X12Segment, errors: X12SegmentError[]): RemittanceClaim {
+  const patientControlNumber = element(segment, 1);
+  const statusCode = element(segment, 2);
+
+  if (!patientControlNumber) {
+    errors.push({ segment: 'CLP', position: segment.position, element: 'CLP01', message: 'Patient control number is required' });
+  }
+  if (!CLAIM_STATUS_CODES[statusCode]) {
+    errors.push({ segment: 'CLP', position: segment.position, element: 'CLP02', claimNumber: patientControlNumber, message: `Unknown claim status code ${statusCode}` });
+  }
+
+  return {
+    patientControlNumber,
+    statusCode,
+    statusDescription: CLAIM_STATUS_CODES[statusCode] ?? 'Unknown',
+    chargeAmount: parseX12Amount(element(segment, 3)),
+    paidAmount: parseX12Amount(element(segment, 4)),
+    patientResponsibility: parseX12Amount(element(segment, 5)),
+    payerClaimNumber: element(segment, 7) || undefined,
+    adjustments: [],
+    serviceLines: [],
+    position: segment.position,
+  };
+}
+
+function parseAdjustments(
+  segment: X12Segment,
+  errors: X12SegmentError[],
+  claimNumber?: string
+): RemittanceAdjustment[] {
+  const groupCode = element(segment, 1) as AdjustmentGroupCode;
+  if (!GROUP_CODES.includes(groupCode)) {
+    errors.push({ segment: 'CAS', position: segment.position, element: 'CAS01', claimNumber, message: `Unknown adjustment group code ${groupCode}` });
+    return [];
+  }
+
+  // Up to six reason / amount / quantity triplets starting at CAS02
+  const adjustments: RemittanceAdjustment[] = [];
+  for (let i = 2; i < segment.elements.length; i += 3) {
+    const reasonCode = element(segment, i);
+    if (!reasonCode) continue;
+    adjustments.push({ groupCode, reasonCode, amount: parseX12Amount(element(segment, i + 1)) });
+  }
+  return adjustments;
+}
+
+/**
+ * Applies the 835 balancing rules: each claim's charge must equal paid plus
+ * adjustments, and the BPR total must equal claim payments less PLB amounts.
+ */
+function validateBalancing(result: Remittance835, segments: X12Segment[]) {
+  const sumAdjustments = (adjustments: RemittanceAdjustment[]) =>
+    adjustments.reduce((sum, adj) => sum + adj.amount, 0);
+
+  for (const claim of result.claims) {
+    const lineAdjustments = claim.serviceLines.reduce((sum, line) => sum + sumAdjustments(line.adjustments), 0);
+    const adjusted = claim.paidAmount + sumAdjustments(claim.adjustments) + lineAdjustments;
+
+    if (claim.statusCode !== '22' && Math.abs(claim.chargeAmount - adjusted) > 0.005) {
+      result.errors.push({
+        segment: 'CLP',
+        position: claim.position,
+        claimNumber: claim.patientControlNumber,
+        message: `Claim does not balance: charge ${claim.chargeAmount} vs paid plus adjustments ${adjusted.toFixed(2)}`,
+      });
+    }
+  }
+
+  const claimPayments = result.claims.reduce((sum, claim) => sum + claim.paidAmount, 0);
+  const providerAdjustments = result.providerAdjustments.reduce((sum, adj) => sum + adj.amount, 0);
+  if (Math.abs(result.payment.totalAmount - (claimPayments - providerAdjustments)) > 0.005) {
+    result.errors.push({
+      segment: 'BPR',
+      position: segments.find(seg => seg.id === 'BPR')?.position,
+      element: 'BPR02',
+      message: `Payment total ${result.payment.totalAmount} does not equal claim payments less provider adjustments ${(claimPayments - providerAdjustments).toFixed(2)}`,
+    });
+  }
+}
+
+/**
+ * Converts a parsed 835 claim into a posting for BillingService.postRemittance
+ */
+export function toRemittancePosting(
+  claim: RemittanceClaim,
+  remittance: Pick<Remittance835, 'payment'>
+): RemittancePosting {
+  const adjustments = [
+    ...claim.adjustments,
+    ...claim.serviceLines.flatMap(line => line.adjustments),
+  ];
+
+  const denialAdjustment = adjustments.find(adj => adj.groupCode !== 'PR') ?? adjustments[0];
+  const denied = claim.statusCode === '4';
+
+  return {
+    paidAmount: claim.paidAmount,
+    payerClaimNumber: claim.payerClaimNumber,
+    paymentDate: remittance.payment.date ?? new Date(),
+    referenceNumber: remittance.payment.traceNumber,
+    adjustments,
+    serviceLines: claim.serviceLines.map(line => ({
+      cptCode: line.cptCode,
+      paidAmount: line.paidAmount,
+      adjustmentAmount: line.adjustments
+        .filter(adj => adj.groupCode !== 'PR')
+        .reduce((sum, adj) => sum + adj.amount, 0),
+    })),
+    ...(denied && {
+      denial: {
+        code: denialAdjustment ? `${denialAdjustment.groupCode}-${denialAdjustment.reasonCode}` : 'DENIED',
+        reason: denialAdjustment
+          ? ADJUSTMENT_REASON_CODES[denialAdjustment.reasonCode] ?? `Adjustment reason ${denialAdjustment.reasonCode}`
+          : claim.statusDescription,
+      },
+    }),
+  };
+}
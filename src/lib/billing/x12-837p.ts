@@ -0,0 +1,313 @@
+import {
+  DEFAULT_DELIMITERS,
+  X12SegmentError,
+  formatX12Amount,
+  formatX12Date,
+  formatX12Time,
+  isValidNpi,
+  padControlNumber,
+  padRight,
+} from './x12-common';
+
+/**
+ * X12 837P Professional Claim Generator (005010X222A1)
+ * Builds a clearinghouse-ready 837P interchange for a batch of therapy claims
+ * and reports validation errors per segment instead of emitting a bad file.
+ */
+
+const IMPLEMENTATION_VERSION = '005010X222A1';
+const MAX_DIAGNOSIS_CODES = 12;
+const MAX_SERVICE_LINES = 50;
+
+export interface X12Address {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface X12Party {
+  name: string;
+  id: string;
+}
+
+export interface X12Submitter extends X12Party {
+  contactName: string;
+  contactPhone: string;
+}
+
+export interface X12BillingProvider {
+  organizationName: string;
+  npi: string;
+  taxId: string;
+  address: X12Address;
+}
+
+export interface X12Subscriber {
+  memberId: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: Date;
+  gender?: 'M' | 'F' | 'U';
+  groupNumber?: string;
+  address?: X12Address;
+}
+
+export interface X12ServiceLine {
+  cptCode: string;
+  modifier?: string;
+  chargeAmount: number;
+  units: number;
+  diagnosisPointers: number[];
+  serviceDate: Date;
+}
+
+export interface X12ClaimInput {
+  claimNumber: string;
+  totalCharges: number;
+  placeOfService: string; // CMS place of service code, e.g. 11 office, 02/10 telehealth
+  diagnosisCodes: string[]; // Primary first
+  priorAuthorization?: string;
+  subscriber: X12Subscriber;
+  payer: X12Party;
+  serviceLines: X12ServiceLine[];
+}
+
+export interface Generate837Input {
+  controlNumber: number;
+  createdAt?: Date;
+  usage?: 'P' | 'T'; // Production or test interchange
+  submitter: X12Submitter;
+  receiver: X12Party;
+  billingProvider: X12BillingProvider;
+  claims: X12ClaimInput[];
+}
+
+export interface Generate837Result {
+  content: string;
+  segmentCount: number;
+  claimCount: number;
+  errors: X12SegmentError[];
+}
+
+const CPT_PATTERN = /^[0-9A-Z]{5}$/;
+const ICD10_PATTERN = /^[A-TV-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+
+export function generate837P(input: Generate837Input): Generate837Result {
+  const { element: e, component: c, segment: s } = DEFAULT_DELIMITERS;
+  const createdAt = input.createdAt ?? new Date();
+  const isaControl = padControlNumber(input.controlNumber);
+  const groupControl = String(input.controlNumber % 1000000000);
+  const transactionControl = padControlNumber(input.controlNumber % 10000, 4);
+
+  const errors: X12SegmentError[] = [];
+  const body: string[] = [];
+
+  const add = (...elements: Array<string | undefined>) => {
+    // Trailing empty elements must be dropped rather than emitted as "**~"
+    let last = elements.length - 1;
+    while (last > 0 && !elements[last]) last--;
+    body.push(elements.slice(0, last + 1).map(value => value ?? '').join(e));
+  };
+
+  const requireValue = (
+    value: string | undefined,
+    segment: string,
+    ref: string,
+    loop: string,
+    label: string,
+    claimNumber?: string
+  ) => {
+    if (!value || !value.trim()) {
+      errors.push({ segment, element: ref, loop, claimNumber, message: `${label} is required` });
+    } else if ([e, c, s, DEFAULT_DELIMITERS.repetition].some(d => value.includes(d))) {
+      errors.push({ segment, element: ref, loop, claimNumber, message: `${label} contains an X12 delimiter` });
+    }
+  };
+
+  // Loop 1000A - submitter, 1000B - receiver
+  requireValue(input.submitter.name, 'NM1', 'NM103', '1000A', 'Submitter name');
+  requireValue(input.submitter.id, 'NM1', 'NM109', '1000A', 'Submitter ID');
+  requireValue(input.submitter.contactPhone, 'PER', 'PER04', '1000A', 'Submitter contact phone');
+  requireValue(input.receiver.name, 'NM1', 'NM103', '1000B', 'Receiver name');
+  requireValue(input.receiver.id, 'NM1', 'NM109', '1000B', 'Receiver ID');
+
+  add('ST', '837', transactionControl, IMPLEMENTATION_VERSION);
+  add('BHT', '0019', '00', `B${input.controlNumber}`, formatX12Date(createdAt), formatX12Time(createdAt), 'CH');
+  add('NM1', '41', '2', input.submitter.name, '', '', '', '', '46', input.submitter.id);
+  add('PER', 'IC', input.submitter.contactName, 'TE', input.submitter.contactPhone.replace(/\D/g, ''));
+  add('NM1', '40', '2', input.receiver.name, '', '', '', '', '46', input.receiver.id);
+
+  // Loop 2000A/2010AA - billing provider
+  const provider = input.billingProvider;
+  requireValue(provider.organizationName, 'NM1', 'NM103', '2010AA', 'Billing provider name');
+  if (!isValidNpi(provider.npi)) {
+    errors.push({ segment: 'NM1', element: 'NM109', loop: '2010AA', message: `Billing provider NPI ${provider.npi} is invalid` });
+  }
+  if (!/^\d{9}$/.test(provider.taxId.replace(/-/g, ''))) {
+    errors.push({ segment: 'REF', element: 'REF02', loop: '2010AA', message: 'Billing provider tax ID must be 9 digits' });
+  }
+  validateAddress(provider.address, '2010AA', errors);
+
+  add('HL', '1', '', '20', '1');
+  add('NM1', '85', '2', provider.organizationName, '', '', '', '', 'XX', provider.npi);
+  addAddress(add, provider.address);
+  add('REF', 'EI', provider.taxId.replace(/-/g, ''));
+
+  let hlCounter = 1;
+
+  input.claims.forEach(claim => {
+    const claimNumber = claim.claimNumber;
+    hlCounter += 1;
+
+    // Loop 2000B/2010BA - subscriber (the client is the subscriber)
+    requireValue(claim.subscriber.memberId, 'NM1', 'NM109', '2010BA', 'Subscriber member ID', claimNumber);
+    requireValue(claim.subscriber.lastName, 'NM1', 'NM103', '2010BA', 'Subscriber last name', claimNumber);
+    requireValue(claim.subscriber.firstName, 'NM1', 'NM104', '2010BA', 'Subscriber first name', claimNumber);
+    if (!claim.subscriber.address) {
+      errors.push({ segment: 'N3', loop: '2010BA', claimNumber, message: 'Subscriber address is required when the client is the subscriber' });
+    } else {
+      validateAddress(claim.subscriber.address, '2010BA', errors, claimNumber);
+    }
+    if (!claim.subscriber.dateOfBirth) {
+      errors.push({ segment: 'DMG', element: 'DMG02', loop: '2010BA', claimNumber, message: 'Subscriber date of birth is required' });
+    }
+
+    add('HL', String(hlCounter), '1', '22', '0');
+    add('SBR', 'P', '18', claim.subscriber.groupNumber, '', '', '', '', '', 'CI');
+    add('NM1', 'IL', '1', claim.subscriber.lastName, claim.subscriber.firstName, '', '', '', 'MI', claim.subscriber.memberId);
+    if (claim.subscriber.address) {
+      addAddress(add, claim.subscriber.address);
+    }
+    if (claim.subscriber.dateOfBirth) {
+      add('DMG', 'D8', formatX12Date(claim.subscriber.dateOfBirth), claim.subscriber.gender ?? 'U');
+    }
+
+    // Loop 2010BB - payer
+    requireValue(claim.payer.name, 'NM1', 'NM103', '2010BB', 'Payer name', claimNumber);
+    requireValue(claim.payer.id, 'NM1', 'NM109', '2010BB', 'Payer ID', claimNumber);
+    add('NM1', 'PR', '2', claim.payer.name, '', '', '', '', 'PI', claim.payer.id);
+
+    // Loop 2300 - claim
+    requireValue(claimNumber, 'CLM', 'CLM01', '2300', 'Patient control number', claimNumber);
+    if (claimNumber.length > 38) {
+      errors.push({ segment: 'CLM', element: 'CLM01', loop: '2300', claimNumber, message: 'Patient control number exceeds 38 characters' });
+    }
+    if (!/^\d{2}$/.test(claim.placeOfService)) {
+      errors.push({ segment: 'CLM', element: 'CLM05-1', loop: '2300', claimNumber, message: 'Place of service must be a 2-digit code' });
+    }
+
+    const lineTotal = claim.serviceLines.reduce((sum, line) => sum + line.chargeAmount, 0);
+    if (Math.abs(lineTotal - claim.totalCharges) > 0.005) {
+      errors.push({
+        segment: 'CLM',
+        element: 'CLM02',
+        loop: '2300',
+        claimNumber,
+        message: `Claim total ${formatX12Amount(claim.totalCharges)} does not equal sum of service lines ${formatX12Amount(lineTotal)}`,
+      });
+    }
+
+    add('CLM', claimNumber, formatX12Amount(claim.totalCharges), '', '', `${claim.placeOfService}${c}B${c}1`, 'Y', 'A', 'Y', 'Y');
+    if (claim.priorAuthorization) {
+      add('REF', 'G1', claim.priorAuthorization);
+    }
+
+    // Diagnoses: first is principal (ABK), remainder are other (ABF)
+    if (claim.diagnosisCodes.length === 0) {
+      errors.push({ segment: 'HI', element: 'HI01', loop: '2300', claimNumber, message: 'At least one diagnosis code is required' });
+    }
+    if (claim.diagnosisCodes.length > MAX_DIAGNOSIS_CODES) {
+      errors.push({ segment: 'HI', loop: '2300', claimNumber, message: `No more than ${MAX_DIAGNOSIS_CODES} diagnosis codes are allowed` });
+    }
+    claim.diagnosisCodes.forEach((code, index) => {
+      if (!ICD10_PATTERN.test(code.toUpperCase())) {
+        errors.push({ segment: 'HI', element: `HI${String(index + 1).padStart(2, '0')}`, loop: '2300', claimNumber, message: `Diagnosis code ${code} is not a valid ICD-10-CM code` });
+      }
+    });
+    const diagnoses = claim.diagnosisCodes.slice(0, MAX_DIAGNOSIS_CODES).map((code, index) =>
+      `${index === 0 ? 'ABK' : 'ABF'}${c}${code.replace('.', '').toUpperCase()}`
+    );
+    if (diagnoses.length > 0) {
+      add('HI', ...diagnoses);
+    }
+
+    // Loop 2400 - service lines
+    if (claim.serviceLines.length === 0) {
+      errors.push({ segment: 'LX', loop: '2400', claimNumber, message: 'At least one service line is required' });
+    }
+    if (claim.serviceLines.length > MAX_SERVICE_LINES) {
+      errors.push({ segment: 'LX', loop: '2400', claimNumber, message: `No more than ${MAX_SERVICE_LINES} service lines are allowed` });
+    }
+
+    claim.serviceLines.forEach((line, index) => {
+      if (!CPT_PATTERN.test(line.cptCode)) {
+        errors.push({ segment: 'SV1', element: 'SV101-2', loop: '2400', claimNumber, message: `Procedure code ${line.cptCode} is not a valid CPT/HCPCS code` });
+      }
+      if (line.units <= 0) {
+        errors.push({ segment: 'SV1', element: 'SV104', loop: '2400', claimNumber, message: 'Service units must be greater than zero' });
+      }
+      const pointers = line.diagnosisPointers.length > 0 ? line.diagnosisPointers : [1];
+      if (pointers.length > 4 || pointers.some(p => p < 1 || p > claim.diagnosisCodes.length)) {
+        errors.push({ segment: 'SV1', element: 'SV107', loop: '2400', claimNumber, message: 'Diagnosis pointers must reference up to 4 listed diagnosis codes' });
+      }
+
+      const procedure = ['HC', line.cptCode, line.modifier].filter(Boolean).join(c);
+      add('LX', String(index + 1));
+      add('SV1', procedure, formatX12Amount(line.chargeAmount), 'UN', String(line.units), '', '', pointers.slice(0, 4).join(c));
+      add('DTP', '472', 'D8', formatX12Date(line.serviceDate));
+    });
+  });
+
+  // ST through SE inclusive
+  add('SE', String(body.length + 1), transactionControl);
+
+  const isa = [
+    'ISA',
+    '00', padRight('', 10),
+    '00', padRight('', 10),
+    'ZZ', padRight(input.submitter.id, 15),
+    'ZZ', padRight(input.receiver.id, 15),
+    formatX12Date(createdAt).slice(2),
+    formatX12Time(createdAt),
+    DEFAULT_DELIMITERS.repetition,
+    '00501',
+    isaControl,
+    '1',
+    input.usage ?? 'P',
+    c,
+  ].join(e);
+  const gs = ['GS', 'HC', input.submitter.id, input.receiver.id, formatX12Date(createdAt), formatX12Time(createdAt), groupControl, 'X', IMPLEMENTATION_VERSION].join(e);
+  const ge = ['GE', '1', groupControl].join(e);
+  const iea = ['IEA', '1', isaControl].join(e);
+
+  const segments = [isa, gs, ...body, ge, iea];
+
+  return {
+    content: segments.join(`${s}\n`) + s,
+    segmentCount: body.length,
+    claimCount: input.claims.length,
+    errors,
+  };
+}
+
+function addAddress(add: (...elements: Array<string | undefined>) => void, address: X12Address) {
+  add('N3', address.line1, address.line2);
+  add('N4', address.city, address.state, address.postalCode.replace(/-/g, ''));
+}
+
+function validateAddress(address: X12Address, loop: string, errors: X12SegmentError[], claimNumber?: string) {
+  if (!address.line1) {
+    errors.push({ segment: 'N3', element: 'N301', loop, claimNumber, message: 'Address line is required' });
+  }
+  if (!address.city) {
+    errors.push({ segment: 'N4', element: 'N401', loop, claimNumber, message: 'City is required' });
+  }
+  if (!/^[A-Z]{2}$/.test(address.state)) {
+    errors.push({ segment: 'N4', element: 'N402', loop, claimNumber, message: 'State must be a 2-letter code' });
+  }
+  if (!/^\d{5}(\d{4})?$/.test(address.postalCode.replace(/-/g, ''))) {
+    errors.push({ segment: 'N4', element: 'N403', loop, claimNumber, message: 'Postal code must be 5 or 9 digits' });
+  }
+}
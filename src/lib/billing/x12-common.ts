@@ -0,0 +1,122 @@
+/**
+ * ANSI X12 Shared Utilities
+ * Delimiters, formatting and per-segment validation errors shared by the
+ * 837P claim generator and the 835 remittance parser (version 005010).
+ */
+
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  repetition: string;
+  segment: string;
+}
+
+export const DEFAULT_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: ':',
+  repetition: '^',
+  segment: '~',
+};
+
+export interface X12SegmentError {
+  segment: string;       // Segment ID, e.g. NM1, CLP
+  position?: number;     // 1-based segment position within the file
+  loop?: string;         // Implementation guide loop, e.g. 2010AA
+  element?: string;      // Element reference, e.g. NM109
+  claimNumber?: string;  // Claim the error belongs to, when known
+  message: string;
+}
+
+export interface X12Segment {
+  id: string;
+  elements: string[];    // elements[0] is the segment ID
+  position: number;
+}
+
+export function formatX12Date(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export function formatX12Time(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+export function parseX12Date(value: string): Date | null {
+  if (!/^\d{8}$/.test(value)) return null;
+  const date = new Date(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// X12 decimals drop trailing zeros: 150.00 → 150, 32.50 → 32.5
+export function formatX12Amount(amount: number): string {
+  return (Math.round(amount * 100) / 100).toString();
+}
+
+export function parseX12Amount(value: string | undefined): number {
+  if (!value) return 0;
+  const amount = parseFloat(value);
+  return isNaN(amount) ? 0 : amount;
+}
+
+export function padRight(value: string, length: number): string {
+  return value.slice(0, length).padEnd(length, ' ');
+}
+
+export function padControlNumber(controlNumber: number, length: number = 9): string {
+  return controlNumber.toString().padStart(length, '0').slice(-length);
+}
+
+/**
+ * Validates an NPI using the Luhn check digit with the 80840 health industry prefix
+ */
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false;
+
+  const digits = `80840${npi.slice(0, 9)}`.split('').map(Number);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Double every second digit counting from the right of the payload
+    let digit = digits[digits.length - 1 - i]!;
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(npi[9]);
+}
+
+/**
+ * Reads delimiters from the fixed-width ISA header and splits the interchange
+ */
+export function tokenizeX12(content: string): { delimiters: X12Delimiters; segments: X12Segment[] } {
+  const trimmed = content.replace(/^﻿/, '').trimStart();
+
+  if (!trimmed.startsWith('ISA') || trimmed.length < 106) {
+    throw new Error('X12 interchange must begin with a complete ISA segment');
+  }
+
+  const delimiters: X12Delimiters = {
+    element: trimmed[3]!,
+    repetition: trimmed[82]!,
+    component: trimmed[104]!,
+    segment: trimmed[105]!,
+  };
+
+  const segments = trimmed
+    .split(delimiters.segment)
+    .map(raw => raw.replace(/[\r\n]/g, '').trim())
+    .filter(raw => raw.length > 0)
+    .map((raw, index) => {
+      const elements = raw.split(delimiters.element);
+      return { id: elements[0]!, elements, position: index + 1 };
+    });
+
+  return { delimiters, segments };
+}
+
+export function element(segment: X12Segment, index: number): string {
+  return segment.elements[index] ?? '';
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  NOTE_TEMPLATES,
+  getNoteTemplate,
+  normalizeSections,
+  renderNoteText,
+  validateNoteSections,
+} from '../note-templates'
+import {
+  assertCanAddAddendum,
+  assertCanCosignNote,
+  assertNoteEditable,
+  getNoteDueAt,
+  getOutstandingReason,
+  hashAddendum,
+  hashNoteContent,
+  isSignedLate,
+} from '../note-rules'
+import { SessionNoteStatus, SignableNoteContent } from '../types'
+
+const draft = {
+  id: 'note-1',
+  status: SessionNoteStatus.DRAFT,
+  lockedAt: null,
+  signedAt: null,
+  cosignRequired: false,
+  cosignedAt: null,
+}
+
+const signedAt = new Date('2024-01-04T09:00:00Z')
+const pendingCosign = {
+  ...draft,
+  status: SessionNoteStatus.PENDING_COSIGN,
+  lockedAt: signedAt,
+  signedAt,
+  cosignRequired: true,
+}
+
+describe('Session note templates', () => {
+  it('should allow incomplete drafts but require every section to sign', () => {
+    const sections = { subjective: 'Reports better sleep', plan: 'Continue CBT' }
+
+    expect(validateNoteSections(NOTE_TEMPLATES.soap, sections, { complete: false })).toEqual([])
+    expect(
+      validateNoteSections(NOTE_TEMPLATES.soap, sections, { complete: true }).map(e => e.field)
+    ).toEqual(['objective', 'assessment'])
+  })
+
+  it('should reject unknown sections, wrong shapes and invalid choices', () => {
+    const errors = validateNoteSections(
+      NOTE_TEMPLATES.discharge,
+      { dischargeReason: 'moved_away', referrals: 'Support group', mood: 'ok' },
+      { complete: false }
+    )
+
+    expect(errors.map(e => e.field)).toEqual(['mood', 'dischargeReason', 'referrals'])
+  })
+
+  it('should reject unknown templates', () => {
+    expect(() => getNoteTemplate('narrative')).toThrow('Unknown note template "narrative"')
+  })
+
+  it('should trim sections and render them in template order', () => {
+    const sections = normalizeSections({
+      plan: ' Review homework ',
+      behavior: 'Engaged',
+      intervention: '',
+      response: 'Receptive',
+    })
+
+    expect(sections).toEqual({ plan: 'Review homework', behavior: 'Engaged', response: 'Receptive' })
+    expect(renderNoteText(NOTE_TEMPLATES.birp, sections)).toBe(
+      'Behavior:\nEngaged\n\nResponse:\nReceptive\n\nPlan:\nReview homework'
+    )
+  })
+})
+
+describe('Session note signing rules', () => {
+  it('should lock notes once signed', () => {
+    expect(() => assertNoteEditable(draft)).not.toThrow()
+    expect(() => assertNoteEditable(pendingCosign)).toThrow('add an addendum instead')
+  })
+
+  it('should only accept co-signatures for notes awaiting one', () => {
+    expect(() => assertCanCosignNote(pendingCosign)).not.toThrow()
+    expect(() => assertCanCosignNote({ ...pendingCosign, cosignedAt: new Date() })).toThrow(
+      'not awaiting a co-signature'
+    )
+    expect(() => assertCanCosignNote(draft)).toThrow('not awaiting a co-signature')
+  })
+
+  it('should require a reason for late entries and corrections on locked notes', () => {
+    expect(() => assertCanAddAddendum(draft, 'addendum')).toThrow('only be added to signed')
+    expect(() => assertCanAddAddendum(pendingCosign, 'addendum')).not.toThrow()
+    expect(() => assertCanAddAddendum(pendingCosign, 'late_entry', ' ')).toThrow(
+      'A reason is required for a late entry'
+    )
+  })
+
+  it('should detect any change to signed content', () => {
+    const content: SignableNoteContent = {
+      noteId: 'note-1',
+      therapistId: 'therapist-1',
+      clientId: 'client-1',
+      sessionDate: '2024-01-01T10:00:00.000Z',
+      sessionType: 'individual',
+      sessionDuration: 50,
+      treatmentModality: 'CBT',
+      riskAssessment: 'LOW',
+      template: { id: 'dap', version: 1 },
+      sections: { data: 'Reports improved mood', assessment: 'Progressing', plan: 'Continue' },
+    }
+    const reordered = { ...content, sections: { plan: 'Continue', assessment: 'Progressing', data: 'Reports improved mood' } }
+
+    expect(hashNoteContent(reordered)).toBe(hashNoteContent(content))
+    expect(hashNoteContent({ ...content, riskAssessment: 'MODERATE' })).not.toBe(hashNoteContent(content))
+  })
+
+  it('should chain addendum hashes to the note they supplement', () => {
+    const addendum = {
+      noteContentHash: 'abc',
+      kind: 'late_entry' as const,
+      reason: 'Collateral call received after signing',
+      content: 'Spoke with GP',
+      authorId: 'therapist-1',
+      signedAt: '2024-01-05T09:00:00.000Z',
+    }
+
+    expect(hashAddendum({ ...addendum, noteContentHash: 'def' })).not.toBe(hashAddendum(addendum))
+  })
+})
+
+describe('Overdue notes', () => {
+  const sessionDate = new Date('2024-01-01T10:00:00Z')
+  const dueAt = getNoteDueAt(sessionDate)
+
+  it('should make notes due 72 hours after the session', () => {
+    expect(dueAt.toISOString()).toBe('2024-01-04T10:00:00.000Z')
+    expect(isSignedLate({ signedAt: new Date('2024-01-04T11:00:00Z'), dueAt })).toBe(true)
+    expect(isSignedLate({ signedAt, dueAt })).toBe(false)
+  })
+
+  it('should list unsigned notes past their due date, or due soon when asked', () => {
+    const note = { ...draft, dueAt }
+
+    expect(getOutstandingReason(note, new Date('2024-01-03T12:00:00Z'))).toBeNull()
+    expect(getOutstandingReason(note, new Date('2024-01-03T12:00:00Z'), true)).toBe('unsigned')
+    expect(getOutstandingReason(note, new Date('2024-01-04T10:01:00Z'))).toBe('unsigned')
+  })
+
+  it('should list co-signatures outstanding a week after signing', () => {
+    const note = { ...pendingCosign, dueAt }
+
+    expect(getOutstandingReason(note, new Date('2024-01-10T09:00:00Z'))).toBeNull()
+    expect(getOutstandingReason(note, new Date('2024-01-11T09:01:00Z'))).toBe('awaiting_cosign')
+    expect(
+      getOutstandingReason({ ...note, status: SessionNoteStatus.SIGNED }, new Date('2024-02-01T00:00:00Z'))
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  AddendumKind,
+  NoteSigningState,
+  OverdueNoteCandidate,
+  OverdueNoteReason,
+  SessionNoteStatus,
+  SignableNoteContent,
+} from './types';
+
+/**
+ * Session Note Signing Rules
+ * draft → signed, or draft → pending co-signature → signed for clinicians
+ * practising under supervision. The clinician's signature locks the note;
+ * anything learned later is recorded as a signed addendum.
+ */
+
+// Hours after the session by which the clinician must sign the note
+export const NOTE_DUE_HOURS = 72;
+
+// Hours after the clinician's signature by which the supervisor must co-sign
+export const COSIGN_DUE_HOURS = 168;
+
+// Notes due within this many hours are listed in the queue ahead of time
+export const DUE_SOON_HOURS = 24;
+
+export const ADDENDUM_KINDS: AddendumKind[] = ['addendum', 'late_entry', 'correction'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getNoteDueAt(sessionDate: Date): Date {
+  return new Date(sessionDate.getTime() + NOTE_DUE_HOURS * HOUR_MS);
+}
+
+export function getCosignDueAt(signedAt: Date): Date {
+  return new Date(signedAt.getTime() + COSIGN_DUE_HOURS * HOUR_MS);
+}
+
+export function isNoteLocked(note: Pick<NoteSigningState, 'lockedAt'>): boolean {
+  return !!note.lockedAt;
+}
+
+export function assertNoteEditable(note: NoteSigningState & { id: string }): void {
+  if (isNoteLocked(note) || note.status !== SessionNoteStatus.DRAFT) {
+    throw new WorkflowError('Signed session notes cannot be edited; add an addendum instead', {
+      noteId: note.id,
+      status: note.status,
+    });
+  }
+}
+
+export function assertCanSignNote(note: NoteSigningState & { id: string }): void {
+  if (isNoteLocked(note) || note.status !== SessionNoteStatus.DRAFT) {
+    throw new WorkflowError('Session note has already been signed', {
+      noteId: note.id,
+      status: note.status,
+    });
+  }
+}
+
+export function assertCanCosignNote(note: NoteSigningState & { id: string }): void {
+  if (note.status !== SessionNoteStatus.PENDING_COSIGN || !note.cosignRequired || note.cosignedAt) {
+    throw new WorkflowError('Session note is not awaiting a co-signature', {
+      noteId: note.id,
+      status: note.status,
+    });
+  }
+}
+
+/**
+ * Addenda supplement a locked note; drafts are simply edited. Late entries
+ * and corrections must say why the information was not in the original.
+ */
+export function assertCanAddAddendum(
+  note: NoteSigningState & { id: string },
+  kind: AddendumKind,
+  reason?: string
+): void {
+  if (!isNoteLocked(note)) {
+    throw new WorkflowError('Addenda can only be added to signed session notes', { noteId: note.id });
+  }
+  if (kind !== 'addendum' && !reason?.trim()) {
+    throw new ValidationError(`A reason is required for a ${kind.replace('_', ' ')}`);
+  }
+}
+
+/**
+ * Status after the clinician signs: final, or waiting for the supervisor
+ */
+export function getStatusAfterSigning(cosignRequired: boolean): SessionNoteStatus {
+  return cosignRequired ? SessionNoteStatus.PENDING_COSIGN : SessionNoteStatus.SIGNED;
+}
+
+/**
+ * Why a note is in the overdue queue, or null if nothing is outstanding or
+ * it is not yet due (within DUE_SOON_HOURS when `includeDueSoon` is set)
+ */
+export function getOutstandingReason(
+  note: OverdueNoteCandidate,
+  now: Date = new Date(),
+  includeDueSoon = false
+): OverdueNoteReason | null {
+  const horizon = now.getTime() + (includeDueSoon ? DUE_SOON_HOURS * HOUR_MS : 0);
+
+  if (note.status === SessionNoteStatus.DRAFT) {
+    return note.dueAt && note.dueAt.getTime() < horizon ? 'unsigned' : null;
+  }
+
+  if (note.status === SessionNoteStatus.PENDING_COSIGN && note.signedAt) {
+    return getCosignDueAt(note.signedAt).getTime() < horizon ? 'awaiting_cosign' : null;
+  }
+
+  return null;
+}
+
+/**
+ * Deadline for the outstanding step: the note's due date while unsigned,
+ * the co-signature deadline while awaiting the supervisor
+ */
+export function getOutstandingDeadline(note: OverdueNoteCandidate): Date | null {
+  if (note.status === SessionNoteStatus.PENDING_COSIGN && note.signedAt) {
+    return getCosignDueAt(note.signedAt);
+  }
+  return note.status === SessionNoteStatus.DRAFT ? note.dueAt : null;
+}
+
+/**
+ * Signed after its due date, so the note is itself a late entry
+ */
+export function isSignedLate(note: { signedAt: Date | null; dueAt: Date | null }): boolean {
+  return !!note.signedAt && !!note.dueAt && note.signedAt.getTime() > note.dueAt.getTime();
+}
+
+/**
+ * Hash of the signed content with keys sorted, so a signature can be checked
+ * against exactly what was signed
+ */
+export function hashNoteContent(content: SignableNoteContent): string {
+  return createHash('sha256').update(stableStringify(content)).digest('hex');
+}
+
+/**
+ * Hash of an addendum, chained to the hash of the note it supplements
+ */
+export function hashAddendum(addendum: {
+  noteContentHash: string;
+  kind: AddendumKind;
+  reason?: string;
+  content: string;
+  authorId: string;
+  signedAt: string;
+}): string {
+  return createHash('sha256').update(stableStringify(addendum)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,207 @@
+import { ValidationError } from '@/lib/error-handling/error-types';
+import { NoteFieldError, NoteSections, NoteTemplate, NoteTemplateId } from './types';
+
+/**
+ * Session Note Templates
+ * Structured formats for progress notes (SOAP, DAP, BIRP), intake
+ * assessments and discharge summaries. Drafts may be saved incomplete;
+ * every required section must be filled in before the note is signed.
+ */
+
+// Longest value accepted for a single text section
+export const MAX_SECTION_LENGTH = 20000;
+
+// Longest list accepted for a single list section
+export const MAX_LIST_ITEMS = 50;
+
+const DISCHARGE_REASONS = [
+  'goals_met',
+  'client_request',
+  'transfer',
+  'referral',
+  'non_attendance',
+  'administrative',
+  'other',
+];
+
+export const NOTE_TEMPLATES: Record<NoteTemplateId, NoteTemplate> = {
+  soap: {
+    id: 'soap',
+    version: 1,
+    name: 'SOAP Progress Note',
+    documentationType: 'progress_note',
+    fields: [
+      { key: 'subjective', label: 'Subjective', type: 'text', required: true, help: 'Client-reported symptoms, concerns and progress' },
+      { key: 'objective', label: 'Objective', type: 'text', required: true, help: 'Clinician observations, mental status and measures' },
+      { key: 'assessment', label: 'Assessment', type: 'text', required: true, help: 'Clinical impression and progress towards goals' },
+      { key: 'plan', label: 'Plan', type: 'text', required: true, help: 'Next steps, homework and next session focus' },
+      { key: 'interventions', label: 'Interventions Used', type: 'list', required: false },
+    ],
+  },
+  dap: {
+    id: 'dap',
+    version: 1,
+    name: 'DAP Progress Note',
+    documentationType: 'progress_note',
+    fields: [
+      { key: 'data', label: 'Data', type: 'text', required: true, help: 'Subjective and objective information from the session' },
+      { key: 'assessment', label: 'Assessment', type: 'text', required: true, help: 'Interpretation of the data and progress towards goals' },
+      { key: 'plan', label: 'Plan', type: 'text', required: true, help: 'Next steps, homework and next session focus' },
+      { key: 'interventions', label: 'Interventions Used', type: 'list', required: false },
+    ],
+  },
+  birp: {
+    id: 'birp',
+    version: 1,
+    name: 'BIRP Progress Note',
+    documentationType: 'progress_note',
+    fields: [
+      { key: 'behavior', label: 'Behavior', type: 'text', required: true, help: 'Presentation, reported and observed behavior' },
+      { key: 'intervention', label: 'Intervention', type: 'text', required: true, help: 'Techniques and interventions used' },
+      { key: 'response', label: 'Response', type: 'text', required: true, help: 'Client response to the interventions' },
+      { key: 'plan', label: 'Plan', type: 'text', required: true, help: 'Next steps, homework and next session focus' },
+    ],
+  },
+  intake: {
+    id: 'intake',
+    version: 1,
+    name: 'Intake Assessment',
+    documentationType: 'intake_assessment',
+    fields: [
+      { key: 'presentingProblem', label: 'Presenting Problem', type: 'text', required: true },
+      { key: 'history', label: 'Psychosocial History', type: 'text', required: true },
+      { key: 'mentalStatus', label: 'Mental Status Examination', type: 'text', required: true },
+      { key: 'riskScreening', label: 'Risk Screening', type: 'text', required: true, help: 'Suicide, self-harm, violence and safeguarding screening' },
+      { key: 'substanceUse', label: 'Substance Use', type: 'text', required: false },
+      { key: 'medicalHistory', label: 'Medical History and Medications', type: 'text', required: false },
+      { key: 'diagnosticImpression', label: 'Diagnostic Impression', type: 'text', required: true },
+      { key: 'recommendations', label: 'Treatment Recommendations', type: 'text', required: true },
+    ],
+  },
+  discharge: {
+    id: 'discharge',
+    version: 1,
+    name: 'Discharge Summary',
+    documentationType: 'discharge_summary',
+    fields: [
+      { key: 'dischargeReason', label: 'Reason for Discharge', type: 'choice', required: true, options: DISCHARGE_REASONS },
+      { key: 'treatmentSummary', label: 'Course of Treatment', type: 'text', required: true },
+      { key: 'goalOutcomes', label: 'Progress Towards Goals', type: 'text', required: true },
+      { key: 'conditionAtDischarge', label: 'Condition at Discharge', type: 'text', required: true },
+      { key: 'aftercarePlan', label: 'Aftercare Plan', type: 'text', required: true },
+      { key: 'referrals', label: 'Referrals', type: 'list', required: false },
+    ],
+  },
+};
+
+export function isNoteTemplateId(value: string): value is NoteTemplateId {
+  return value in NOTE_TEMPLATES;
+}
+
+export function getNoteTemplate(id: string): NoteTemplate {
+  if (!isNoteTemplateId(id)) {
+    throw new ValidationError(`Unknown note template "${id}"`);
+  }
+  return NOTE_TEMPLATES[id];
+}
+
+/**
+ * Check section values against a template. Unknown sections and values of
+ * the wrong shape are always errors; missing required sections only once
+ * the note is complete (about to be signed).
+ */
+export function validateNoteSections(
+  template: NoteTemplate,
+  sections: NoteSections,
+  options: { complete: boolean }
+): NoteFieldError[] {
+  const errors: NoteFieldError[] = [];
+  const known = new Set(template.fields.map(field => field.key));
+
+  for (const key of Object.keys(sections)) {
+    if (!known.has(key)) {
+      errors.push({ field: key, message: `${template.name} has no "${key}" section` });
+    }
+  }
+
+  for (const field of template.fields) {
+    const value = sections[field.key];
+
+    if (value === undefined || isBlank(value)) {
+      if (field.required && options.complete) {
+        errors.push({ field: field.key, message: `${field.label} is required` });
+      }
+      continue;
+    }
+
+    if (field.type === 'list') {
+      if (!Array.isArray(value)) {
+        errors.push({ field: field.key, message: `${field.label} must be a list` });
+      } else if (value.length > MAX_LIST_ITEMS) {
+        errors.push({ field: field.key, message: `${field.label} can have at most ${MAX_LIST_ITEMS} items` });
+      } else if (value.some(item => item.length > MAX_SECTION_LENGTH)) {
+        errors.push({ field: field.key, message: `${field.label} items must be at most ${MAX_SECTION_LENGTH} characters` });
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      errors.push({ field: field.key, message: `${field.label} must be text` });
+    } else if (field.type === 'choice' && !field.options?.includes(value)) {
+      errors.push({ field: field.key, message: `${field.label} must be one of ${field.options?.join(', ')}` });
+    } else if (value.length > MAX_SECTION_LENGTH) {
+      errors.push({ field: field.key, message: `${field.label} must be at most ${MAX_SECTION_LENGTH} characters` });
+    }
+  }
+
+  return errors;
+}
+
+export function assertValidSections(
+  template: NoteTemplate,
+  sections: NoteSections,
+  options: { complete: boolean }
+): void {
+  const errors = validateNoteSections(template, sections, options);
+  if (errors.length > 0) {
+    throw new ValidationError(
+      options.complete
+        ? `${template.name} is incomplete and cannot be signed`
+        : `${template.name} has invalid sections`,
+      errors
+    );
+  }
+}
+
+/**
+ * Trim text sections and drop empty list items and blank sections
+ */
+export function normalizeSections(sections: NoteSections): NoteSections {
+  const normalized: NoteSections = {};
+  for (const [key, value] of Object.entries(sections)) {
+    const cleaned = Array.isArray(value)
+      ? value.map(item => item.trim()).filter(Boolean)
+      : value.trim();
+    if (!isBlank(cleaned)) normalized[key] = cleaned;
+  }
+  return normalized;
+}
+
+function isBlank(value: string | string[]): boolean {
+  return Array.isArray(value) ? value.length === 0 : value.trim().length === 0;
+}
+
+/**
+ * Plain-text rendering of a templated note, stored as the note's progress
+ * notes so lists, search and printouts show the full content
+ */
+export function renderNoteText(template: NoteTemplate, sections: NoteSections): string {
+  return template.fields
+    .filter(field => sections[field.key] !== undefined)
+    .map(field => {
+      const value = sections[field.key]!;
+      const body = Array.isArray(value) ? value.map(item => `- ${item}`).join('\n') : value;
+      return `${field.label}:\n${body}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,757 @@
+import { prisma } from '@/lib/prisma';
+import { Prisma, RiskLevel, TherapySessionNote } from '@prisma/client';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { encryptJSON, decryptJSON } from '@/lib/encryption-exports';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  AddendumKind,
+  NoteSections,
+  NoteSignatureDetails,
+  OverdueNoteReason,
+  SessionNoteStatus,
+  SignableNoteContent,
+} from './types';
+import {
+  assertValidSections,
+  getNoteTemplate,
+  normalizeSections,
+  renderNoteText,
+} from './note-templates';
+import {
+  DUE_SOON_HOURS,
+  assertCanAddAddendum,
+  assertCanCosignNote,
+  assertCanSignNote,
+  assertNoteEditable,
+  getCosignDueAt,
+  getNoteDueAt,
+  getOutstandingDeadline,
+  getOutstandingReason,
+  getStatusAfterSigning,
+  hashAddendum,
+  hashNoteContent,
+  isSignedLate,
+} from './note-rules';
+
+/**
+ * Free-form note fields used before templates. Templated notes fill these
+ * from their sections so older views keep working.
+ */
+export interface LegacyNoteFields {
+  sessionGoals: string[];
+  progressNotes: string;
+  interventions: string[];
+  clientResponse: string;
+  homework?: string[];
+  nextSessionPlan?: string;
+}
+
+export interface NoteSessionDetails {
+  sessionId?: string;
+  sessionDate: Date;
+  sessionType: string;
+  sessionDuration: number;
+  treatmentModality: string;
+  riskAssessment: RiskLevel;
+  confidentialityNotes?: string;
+  billable: boolean;
+  insuranceCode?: string;
+  tags?: string[];
+  attachments?: Array<{ name: string; type: string; data: string }>;
+}
+
+export interface CreateSessionNoteParams extends NoteSessionDetails {
+  therapistId: string;
+  clientId: string;
+  supervisorReview?: boolean;
+  isTemplate?: boolean;
+  template?: string;
+  sections?: NoteSections;
+  legacy?: LegacyNoteFields;
+}
+
+export interface UpdateDraftParams extends Partial<NoteSessionDetails> {
+  noteId: string;
+  sections?: NoteSections;
+  legacy?: Partial<LegacyNoteFields>;
+}
+
+export interface SignNoteParams {
+  noteId: string;
+  signedBy: string;
+  signature: NoteSignatureDetails;
+}
+
+export interface AddAddendumParams {
+  noteId: string;
+  authorId: string;
+  kind: AddendumKind;
+  reason?: string;
+  content: string;
+  signature: NoteSignatureDetails;
+}
+
+export interface AssignSupervisorParams {
+  superviseeId: string;
+  supervisorId: string;
+  licenseLevel: string;
+  createdBy: string;
+}
+
+export interface OverdueNoteItem {
+  noteId: string;
+  clientId: string;
+  therapistId: string;
+  supervisorId: string | null;
+  sessionDate: Date;
+  template: string | null;
+  status: SessionNoteStatus;
+  reason: OverdueNoteReason;
+  deadline: Date | null;
+  overdue: boolean;
+}
+
+const NOTE_INCLUDE = {
+  addenda: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.TherapySessionNoteInclude;
+
+type NoteWithAddenda = Prisma.TherapySessionNoteGetPayload<{ include: typeof NOTE_INCLUDE }>;
+
+/**
+ * Session Note Service
+ * Writes template-driven and free-form session notes, locks them with the
+ * clinician's e-signature, routes notes by pre-licensed clinicians to their
+ * supervisor for co-signature, and keeps later additions as signed addenda.
+ */
+export class SessionNoteService {
+  private static instance: SessionNoteService;
+
+  private constructor() {}
+
+  static getInstance(): SessionNoteService {
+    if (!SessionNoteService.instance) {
+      SessionNoteService.instance = new SessionNoteService();
+    }
+    return SessionNoteService.instance;
+  }
+
+  /**
+   * Save a draft note, due NOTE_DUE_HOURS after the session. Templated notes
+   * may be incomplete until they are signed.
+   */
+  async createNote(params: CreateSessionNoteParams) {
+    const content = this.buildContent(params.template, params.sections, params.legacy);
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const note = await tx.therapySessionNote.create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          therapistId: params.therapistId,
+          clientId: params.clientId,
+          sessionId: params.sessionId,
+          sessionDate: params.sessionDate,
+          sessionType: params.sessionType,
+          sessionDuration: params.sessionDuration,
+          treatmentModality: params.treatmentModality,
+          riskAssessment: params.riskAssessment,
+          billable: params.billable,
+          insuranceCode: params.insuranceCode,
+          supervisorReview: params.supervisorReview || false,
+          isTemplate: params.isTemplate || false,
+          tags: params.tags || [],
+          confidentialityNotesEncrypted: params.confidentialityNotes
+            ? encryptJSON(params.confidentialityNotes)
+            : undefined,
+          attachmentsEncrypted: params.attachments ? encryptJSON(params.attachments) : undefined,
+          ...content,
+          status: SessionNoteStatus.DRAFT,
+          // Reusable templates are never signed, so they have no deadline
+          dueAt: params.isTemplate ? null : getNoteDueAt(params.sessionDate),
+          lastModified: now,
+        },
+        include: NOTE_INCLUDE,
+      });
+
+      await tx.therapistClient.update({
+        where: { id: params.clientId },
+        data: {
+          lastSessionDate: params.sessionDate,
+          completedSessions: { increment: 1 },
+        },
+      });
+
+      return note;
+    });
+  }
+
+  async getNote(noteId: string) {
+    return prisma.therapySessionNote.findUnique({ where: { id: noteId }, include: NOTE_INCLUDE });
+  }
+
+  /**
+   * Change a draft. Sections are merged, so a section is cleared by sending
+   * an empty value.
+   */
+  async updateDraft(params: UpdateDraftParams) {
+    const note = await this.getNoteOrThrow(params.noteId);
+    assertNoteEditable(this.signingState(note));
+    if (!note.noteTemplate && params.sections) {
+      throw new ValidationError('Free-form session notes have no template sections');
+    }
+
+    const sections = note.noteTemplate
+      ? { ...this.decryptSections(note), ...params.sections }
+      : undefined;
+    const legacy = note.noteTemplate
+      ? undefined
+      : { ...this.decryptLegacy(note), ...params.legacy };
+
+    const content = this.buildContent(note.noteTemplate ?? undefined, sections, legacy);
+    const sessionDate = params.sessionDate ?? note.sessionDate;
+
+    const { count } = await prisma.therapySessionNote.updateMany({
+      where: { id: note.id, status: SessionNoteStatus.DRAFT, lockedAt: null },
+      data: {
+        ...content,
+        sessionId: params.sessionId,
+        sessionDate,
+        sessionType: params.sessionType,
+        sessionDuration: params.sessionDuration,
+        treatmentModality: params.treatmentModality,
+        riskAssessment: params.riskAssessment,
+        billable: params.billable,
+        insuranceCode: params.insuranceCode,
+        tags: params.tags,
+        ...(params.confidentialityNotes !== undefined && {
+          confidentialityNotesEncrypted: encryptJSON(params.confidentialityNotes),
+        }),
+        ...(params.attachments && { attachmentsEncrypted: encryptJSON(params.attachments) }),
+        dueAt: note.isTemplate ? null : getNoteDueAt(sessionDate),
+        lastModified: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Session note was signed while it was being edited', { noteId: note.id });
+    }
+
+    return this.getNoteOrThrow(note.id);
+  }
+
+  /**
+   * Sign and lock a draft. Notes by clinicians under supervision then wait
+   * for their supervisor's co-signature.
+   */
+  async signNote(params: SignNoteParams) {
+    const note = await this.getNoteOrThrow(params.noteId);
+    assertCanSignNote(this.signingState(note));
+    if (note.isTemplate) {
+      throw new WorkflowError('Reusable note templates are not signed', { noteId: note.id });
+    }
+
+    if (note.noteTemplate) {
+      assertValidSections(getNoteTemplate(note.noteTemplate), this.decryptSections(note), { complete: true });
+    }
+
+    const supervision = await this.getActiveSupervision(note.therapistId);
+    const cosignRequired = !!supervision;
+    const contentHash = hashNoteContent(this.getSignableContent(note));
+    const now = new Date();
+
+    const { count } = await prisma.therapySessionNote.updateMany({
+      where: { id: note.id, status: SessionNoteStatus.DRAFT, lockedAt: null },
+      data: {
+        status: getStatusAfterSigning(cosignRequired),
+        contentHash,
+        signedBy: params.signedBy,
+        signedAt: now,
+        signatureEncrypted: encryptJSON({ ...params.signature, contentHash }),
+        lockedAt: now,
+        cosignRequired,
+        supervisorId: supervision?.supervisorId ?? note.supervisorId,
+        supervisorReview: cosignRequired || note.supervisorReview,
+        overdueReminderSentAt: null,
+        lastModified: now,
+      },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Session note has already been signed', { noteId: note.id });
+    }
+
+    if (supervision) {
+      await this.notify(supervision.supervisorId, {
+        type: 'session_note_cosign',
+        title: 'Session Note Awaiting Co-signature',
+        message: `A session note from ${note.sessionDate.toISOString().split('T')[0]} needs your co-signature by ${getCosignDueAt(now).toISOString().split('T')[0]}`,
+        isPriority: false,
+        metadata: { noteId: note.id, clinicianId: note.therapistId },
+      });
+    }
+
+    const signed = await this.getNoteOrThrow(note.id);
+    return { note: signed, cosignRequired, late: isSignedLate(signed) };
+  }
+
+  /**
+   * Supervisor co-signature. The content is re-hashed first so a note that
+   * no longer matches its signature is never co-signed.
+   */
+  async cosignNote(params: SignNoteParams) {
+    const note = await this.getNoteOrThrow(params.noteId);
+    assertCanCosignNote(this.signingState(note));
+
+    if (note.supervisorId !== params.signedBy) {
+      throw new WorkflowError('Only the assigned supervisor can co-sign this session note', {
+        noteId: note.id,
+      });
+    }
+    this.assertIntegrity(note);
+
+    const now = new Date();
+    const { count } = await prisma.therapySessionNote.updateMany({
+      where: { id: note.id, status: SessionNoteStatus.PENDING_COSIGN, cosignedAt: null },
+      data: {
+        status: SessionNoteStatus.SIGNED,
+        cosignedBy: params.signedBy,
+        cosignedAt: now,
+        cosignatureEncrypted: encryptJSON({ ...params.signature, contentHash: note.contentHash }),
+        overdueReminderSentAt: null,
+        lastModified: now,
+      },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Session note has already been co-signed', { noteId: note.id });
+    }
+
+    await this.notify(note.therapistId, {
+      type: 'session_note_cosigned',
+      title: 'Session Note Co-signed',
+      message: `Your session note from ${note.sessionDate.toISOString().split('T')[0]} has been co-signed`,
+      isPriority: false,
+      metadata: { noteId: note.id },
+    });
+
+    return this.getNoteOrThrow(note.id);
+  }
+
+  /**
+   * Append a signed addendum, late entry or correction to a locked note.
+   * The original note is left exactly as it was signed.
+   */
+  async addAddendum(params: AddAddendumParams) {
+    const note = await this.getNoteOrThrow(params.noteId);
+    assertCanAddAddendum(this.signingState(note), params.kind, params.reason);
+    this.assertIntegrity(note);
+
+    const signedAt = new Date();
+    const reason = params.reason?.trim() || undefined;
+    const content = params.content.trim();
+    if (!content) {
+      throw new ValidationError('Addendum content is required');
+    }
+
+    const contentHash = hashAddendum({
+      noteContentHash: note.contentHash!,
+      kind: params.kind,
+      reason,
+      content,
+      authorId: params.authorId,
+      signedAt: signedAt.toISOString(),
+    });
+
+    return prisma.sessionNoteAddendum.create({
+      data: {
+        noteId: note.id,
+        kind: params.kind,
+        reason,
+        contentEncrypted: encryptJSON({ content }),
+        contentHash,
+        authorId: params.authorId,
+        signatureEncrypted: encryptJSON({ ...params.signature, contentHash }),
+        signedAt,
+      },
+    });
+  }
+
+  /**
+   * Re-hash a signed note and its addenda and compare with the stored hashes
+   */
+  verifyNote(note: NoteWithAddenda) {
+    if (!note.contentHash) {
+      return { signed: false, valid: null, addenda: [] };
+    }
+
+    const valid = hashNoteContent(this.getSignableContent(note)) === note.contentHash;
+    const addenda = note.addenda.map(addendum => {
+      const { content } = decryptJSON(addendum.contentEncrypted as string);
+      const expected = hashAddendum({
+        noteContentHash: note.contentHash!,
+        kind: addendum.kind as AddendumKind,
+        reason: addendum.reason ?? undefined,
+        content,
+        authorId: addendum.authorId,
+        signedAt: addendum.signedAt.toISOString(),
+      });
+      return { id: addendum.id, valid: expected === addendum.contentHash };
+    });
+
+    return { signed: true, valid, addenda };
+  }
+
+  /**
+   * Notes waiting on this clinician: their own unsigned notes and notes
+   * they supervise awaiting co-signature, overdue or due within
+   * DUE_SOON_HOURS, most urgent first
+   */
+  async getOverdueQueue(userId: string, now: Date = new Date()): Promise<OverdueNoteItem[]> {
+    const horizon = new Date(now.getTime() + DUE_SOON_HOURS * 60 * 60 * 1000);
+    const notes = await prisma.therapySessionNote.findMany({
+      where: {
+        isTemplate: false,
+        OR: [
+          { therapistId: userId, status: SessionNoteStatus.DRAFT, dueAt: { lte: horizon } },
+          { supervisorId: userId, status: SessionNoteStatus.PENDING_COSIGN },
+        ],
+      },
+      orderBy: { sessionDate: 'asc' },
+    });
+
+    return notes
+      .map(note => {
+        const candidate = { ...this.signingState(note), dueAt: note.dueAt };
+        const reason = getOutstandingReason(candidate, now, true);
+        if (!reason) return null;
+
+        const deadline = getOutstandingDeadline(candidate);
+        return {
+          noteId: note.id,
+          clientId: note.clientId,
+          therapistId: note.therapistId,
+          supervisorId: note.supervisorId,
+          sessionDate: note.sessionDate,
+          template: note.noteTemplate,
+          status: note.status as SessionNoteStatus,
+          reason,
+          deadline,
+          overdue: !!deadline && deadline.getTime() < now.getTime(),
+        };
+      })
+      .filter((item): item is OverdueNoteItem => item !== null)
+      .sort((a, b) => (a.deadline?.getTime() ?? 0) - (b.deadline?.getTime() ?? 0));
+  }
+
+  /**
+   * Notify clinicians of unsigned notes and supervisors of co-signatures
+   * past their deadline. Safe to run on any schedule: each outstanding step
+   * is reminded once.
+   */
+  async sendOverdueReminders(now: Date = new Date()) {
+    const candidates = await prisma.therapySessionNote.findMany({
+      where: {
+        isTemplate: false,
+        overdueReminderSentAt: null,
+        OR: [
+          { status: SessionNoteStatus.DRAFT, dueAt: { lt: now } },
+          { status: SessionNoteStatus.PENDING_COSIGN },
+        ],
+      },
+    });
+
+    let reminded = 0;
+    for (const note of candidates) {
+      const reason = getOutstandingReason({ ...this.signingState(note), dueAt: note.dueAt }, now);
+      const recipient = reason === 'awaiting_cosign' ? note.supervisorId : note.therapistId;
+      if (!reason || !recipient) continue;
+
+      const sessionDay = note.sessionDate.toISOString().split('T')[0];
+      await prisma.$transaction([
+        prisma.notification.create({
+          data: {
+            id: generatePrismaCreateFields().id,
+            userId: recipient,
+            type: 'session_note_overdue',
+            title: reason === 'unsigned' ? 'Session Note Overdue' : 'Co-signature Overdue',
+            message: reason === 'unsigned'
+              ? `The session note for ${sessionDay} has not been signed`
+              : `The session note for ${sessionDay} is still awaiting your co-signature`,
+            isPriority: true,
+            metadata: { noteId: note.id, reason },
+          },
+        }),
+        prisma.therapySessionNote.update({
+          where: { id: note.id },
+          data: { overdueReminderSentAt: now },
+        }),
+      ]);
+      reminded++;
+    }
+
+    return { checked: candidates.length, reminded };
+  }
+
+  async getActiveSupervision(clinicianId: string) {
+    return prisma.clinicianSupervision.findFirst({
+      where: { superviseeId: clinicianId, endedAt: null },
+    });
+  }
+
+  async listSupervision(filter: { supervisorId?: string; superviseeId?: string } = {}) {
+    return prisma.clinicianSupervision.findMany({
+      where: { endedAt: null, ...filter },
+      orderBy: { startsAt: 'desc' },
+    });
+  }
+
+  /**
+   * Place a pre-licensed clinician under a supervisor, replacing any current
+   * supervisor. Co-signatures still outstanding move to the new supervisor.
+   */
+  async assignSupervisor(params: AssignSupervisorParams) {
+    if (params.superviseeId === params.supervisorId) {
+      throw new ValidationError('A clinician cannot supervise themselves');
+    }
+
+    const now = new Date();
+    return prisma.$transaction(async (tx) => {
+      await tx.clinicianSupervision.updateMany({
+        where: { superviseeId: params.superviseeId, endedAt: null },
+        data: { endedAt: now },
+      });
+
+      const supervision = await tx.clinicianSupervision.create({
+        data: {
+          superviseeId: params.superviseeId,
+          supervisorId: params.supervisorId,
+          licenseLevel: params.licenseLevel,
+          startsAt: now,
+          createdBy: params.createdBy,
+        },
+      });
+
+      const { count } = await tx.therapySessionNote.updateMany({
+        where: {
+          therapistId: params.superviseeId,
+          status: SessionNoteStatus.PENDING_COSIGN,
+          supervisorId: { not: params.supervisorId },
+        },
+        data: { supervisorId: params.supervisorId, overdueReminderSentAt: null },
+      });
+
+      return { supervision, reassignedNotes: count };
+    });
+  }
+
+  /**
+   * End supervision, e.g. once the clinician is fully licensed. Notes they
+   * have already signed still need their supervisor's co-signature.
+   */
+  async endSupervision(superviseeId: string) {
+    const { count } = await prisma.clinicianSupervision.updateMany({
+      where: { superviseeId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Clinician is not currently under supervision', { superviseeId });
+    }
+  }
+
+  /**
+   * Decrypt a note for API responses, with its signing state and addenda
+   */
+  formatNote(note: NoteWithAddenda) {
+    const legacy = this.decryptLegacy(note);
+
+    return {
+      id: note.id,
+      sessionId: note.sessionId,
+      therapistId: note.therapistId,
+      clientId: note.clientId,
+      sessionDate: note.sessionDate,
+      sessionType: note.sessionType,
+      sessionDuration: note.sessionDuration,
+      treatmentModality: note.treatmentModality,
+      riskAssessment: note.riskAssessment,
+      template: note.noteTemplate,
+      templateVersion: note.templateVersion,
+      sections: note.noteTemplate ? this.decryptSections(note) : undefined,
+      ...legacy,
+      confidentialityNotes: note.confidentialityNotesEncrypted
+        ? decryptJSON(note.confidentialityNotesEncrypted as string)
+        : undefined,
+      attachments: note.attachmentsEncrypted
+        ? decryptJSON(note.attachmentsEncrypted as string)
+        : undefined,
+      supervisorReview: note.supervisorReview,
+      supervisorId: note.supervisorId,
+      billable: note.billable,
+      insuranceCode: note.insuranceCode,
+      isTemplate: note.isTemplate,
+      tags: note.tags,
+      status: note.status,
+      locked: !!note.lockedAt,
+      dueAt: note.dueAt,
+      signature: note.signedAt
+        ? {
+            signedBy: note.signedBy,
+            signedAt: note.signedAt,
+            late: isSignedLate(note),
+            contentHash: note.contentHash,
+            ...pickSigner(note.signatureEncrypted),
+          }
+        : null,
+      cosignature: note.cosignRequired
+        ? {
+            required: true,
+            supervisorId: note.supervisorId,
+            cosignedBy: note.cosignedBy,
+            cosignedAt: note.cosignedAt,
+            dueAt: note.signedAt ? getCosignDueAt(note.signedAt) : null,
+            ...pickSigner(note.cosignatureEncrypted),
+          }
+        : null,
+      addenda: note.addenda.map(addendum => ({
+        id: addendum.id,
+        kind: addendum.kind,
+        reason: addendum.reason,
+        content: decryptJSON(addendum.contentEncrypted as string).content,
+        authorId: addendum.authorId,
+        signedAt: addendum.signedAt,
+        contentHash: addendum.contentHash,
+        ...pickSigner(addendum.signatureEncrypted),
+      })),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      lastModified: note.lastModified,
+    };
+  }
+
+  private async getNoteOrThrow(noteId: string) {
+    const note = await this.getNote(noteId);
+    if (!note) {
+      throw new WorkflowError('Session note not found', { noteId });
+    }
+    return note;
+  }
+
+  private assertIntegrity(note: NoteWithAddenda) {
+    if (!note.contentHash || hashNoteContent(this.getSignableContent(note)) !== note.contentHash) {
+      throw new WorkflowError('Session note content does not match its signature', { noteId: note.id });
+    }
+  }
+
+  /**
+   * Encrypted column values for a note's content. Templated notes keep their
+   * sections and fill the free-form columns from them.
+   */
+  private buildContent(template?: string, sections?: NoteSections, legacy?: Partial<LegacyNoteFields>) {
+    if (template) {
+      const definition = getNoteTemplate(template);
+      const normalized = normalizeSections(sections ?? {});
+      assertValidSections(definition, normalized, { complete: false });
+      const interventions = normalized.interventions ?? normalized.intervention;
+
+      return {
+        noteTemplate: definition.id,
+        templateVersion: definition.version,
+        sectionsEncrypted: encryptJSON(normalized),
+        sessionGoalsEncrypted: encryptJSON([]),
+        progressNotesEncrypted: encryptJSON(renderNoteText(definition, normalized)),
+        interventionsEncrypted: encryptJSON(
+          Array.isArray(interventions) ? interventions : interventions ? [interventions] : []
+        ),
+        clientResponseEncrypted: encryptJSON(typeof normalized.response === 'string' ? normalized.response : ''),
+        nextSessionPlanEncrypted: typeof normalized.plan === 'string' ? encryptJSON(normalized.plan) : Prisma.DbNull,
+      };
+    }
+
+    if (!legacy?.progressNotes) {
+      throw new ValidationError('Session notes need either a template or progress notes');
+    }
+
+    return {
+      sessionGoalsEncrypted: encryptJSON(legacy.sessionGoals ?? []),
+      progressNotesEncrypted: encryptJSON(legacy.progressNotes),
+      interventionsEncrypted: encryptJSON(legacy.interventions ?? []),
+      clientResponseEncrypted: encryptJSON(legacy.clientResponse ?? ''),
+      homeworkEncrypted: legacy.homework ? encryptJSON(legacy.homework) : Prisma.DbNull,
+      nextSessionPlanEncrypted: legacy.nextSessionPlan ? encryptJSON(legacy.nextSessionPlan) : Prisma.DbNull,
+    };
+  }
+
+  private decryptSections(note: TherapySessionNote): NoteSections {
+    return note.sectionsEncrypted ? decryptJSON(note.sectionsEncrypted as string) : {};
+  }
+
+  private decryptLegacy(note: TherapySessionNote): LegacyNoteFields {
+    return {
+      sessionGoals: decryptJSON(note.sessionGoalsEncrypted as string),
+      progressNotes: decryptJSON(note.progressNotesEncrypted as string),
+      interventions: decryptJSON(note.interventionsEncrypted as string),
+      clientResponse: decryptJSON(note.clientResponseEncrypted as string),
+      homework: note.homeworkEncrypted ? decryptJSON(note.homeworkEncrypted as string) : undefined,
+      nextSessionPlan: note.nextSessionPlanEncrypted
+        ? decryptJSON(note.nextSessionPlanEncrypted as string)
+        : undefined,
+    };
+  }
+
+  /**
+   * Everything the clinician attests to when signing. Attachments are
+   * covered by their encrypted form rather than decoded.
+   */
+  private getSignableContent(note: TherapySessionNote): SignableNoteContent {
+    return {
+      noteId: note.id,
+      therapistId: note.therapistId,
+      clientId: note.clientId,
+      sessionDate: note.sessionDate.toISOString(),
+      sessionType: note.sessionType,
+      sessionDuration: note.sessionDuration,
+      treatmentModality: note.treatmentModality,
+      riskAssessment: note.riskAssessment,
+      template: note.noteTemplate
+        ? { id: note.noteTemplate, version: note.templateVersion ?? 1 }
+        : null,
+      sections: {
+        ...(note.noteTemplate ? this.decryptSections(note) : this.decryptLegacy(note)),
+        confidentialityNotes: note.confidentialityNotesEncrypted
+          ? decryptJSON(note.confidentialityNotesEncrypted as string)
+          : undefined,
+        attachments: note.attachmentsEncrypted ?? undefined,
+        billable: note.billable,
+        insuranceCode: note.insuranceCode ?? undefined,
+      },
+    };
+  }
+
+  private signingState(note: TherapySessionNote) {
+    return {
+      id: note.id,
+      status: note.status as SessionNoteStatus,
+      lockedAt: note.lockedAt,
+      signedAt: note.signedAt,
+      cosignRequired: note.cosignRequired,
+      cosignedAt: note.cosignedAt,
+    };
+  }
+
+  private async notify(
+    userId: string,
+    notification: { type: string; title: string; message: string; isPriority: boolean; metadata: Prisma.InputJsonObject }
+  ) {
+    await prisma.notification.create({
+      data: { id: generatePrismaCreateFields().id, userId, ...notification },
+    });
+  }
+}
+
+/**
+ * Signer name and credentials for display; the attestation stays encrypted
+ */
+function pickSigner(signatureEncrypted: Prisma.JsonValue | null) {
+  if (!signatureEncrypted) return {};
+  const { signerName, credentials } = decryptJSON(signatureEncrypted as string) as NoteSignatureDetails;
+  return { signerName, credentials };
+}
+
+export const sessionNoteService = SessionNoteService.getInstance();
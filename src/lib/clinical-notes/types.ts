@@ -0,0 +1,83 @@
+/**
+ * Clinical Note Types
+ * Shared shapes for template-driven session notes, their signatures and
+ * addenda. Mirrors the TherapySessionNote and SessionNoteAddendum models.
+ */
+
+// Note lifecycle statuses (matches the SessionNoteStatus Prisma enum)
+export enum SessionNoteStatus {
+  DRAFT = 'DRAFT',
+  PENDING_COSIGN = 'PENDING_COSIGN',
+  SIGNED = 'SIGNED',
+}
+
+export type NoteTemplateId = 'soap' | 'dap' | 'birp' | 'intake' | 'discharge';
+
+// Values of DocumentationType in the therapy session manager
+export type NoteDocumentationType = 'progress_note' | 'intake_assessment' | 'discharge_summary';
+
+export type NoteFieldType = 'text' | 'list' | 'choice';
+
+export type AddendumKind = 'addendum' | 'late_entry' | 'correction';
+
+export interface NoteTemplateField {
+  key: string;
+  label: string;
+  type: NoteFieldType;
+  required: boolean;
+  help?: string;
+  options?: string[];
+}
+
+export interface NoteTemplate {
+  id: NoteTemplateId;
+  version: number;
+  name: string;
+  documentationType: NoteDocumentationType;
+  fields: NoteTemplateField[];
+}
+
+// Section values keyed by template field
+export type NoteSections = Record<string, string | string[]>;
+
+export interface NoteFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * The clinical content a signature covers. Free-form notes written before
+ * templates carry their legacy fields instead of template sections.
+ */
+export interface SignableNoteContent {
+  noteId: string;
+  therapistId: string;
+  clientId: string;
+  sessionDate: string;
+  sessionType: string;
+  sessionDuration: number;
+  treatmentModality: string;
+  riskAssessment: string;
+  template: { id: string; version: number } | null;
+  sections: Record<string, unknown>;
+}
+
+export interface NoteSignatureDetails {
+  signerName: string;
+  credentials: string;
+  attestation: string;
+}
+
+export interface NoteSigningState {
+  status: SessionNoteStatus;
+  lockedAt: Date | null;
+  signedAt: Date | null;
+  cosignRequired: boolean;
+  cosignedAt: Date | null;
+}
+
+export type OverdueNoteReason = 'unsigned' | 'awaiting_cosign';
+
+export interface OverdueNoteCandidate extends NoteSigningState {
+  dueAt: Date | null;
+}
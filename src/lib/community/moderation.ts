@@ -1,27 +1,8 @@
 // Community moderation utilities with crisis detection and content safety
 import { prisma } from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
-
-// Crisis keywords and patterns for detection
-const CRISIS_PATTERNS = {
-  high_risk: [
-    /\b(suicide|suicidal|kill myself|end it all|want to die|can't go on)\b/gi,
-    /\b(self[\s-]?harm|cutting|hurting myself|overdose)\b/gi,
-    /\b(no reason to live|life is meaningless|better off dead)\b/gi,
-    /\b(planning to|going to|decided to)\s+(die|end|kill|hurt)/gi,
-  ],
-  medium_risk: [
-    /\b(depressed|depression|hopeless|worthless|alone|isolated)\b/gi,
-    /\b(anxiety|panic|scared|terrified|can't breathe)\b/gi,
-    /\b(nobody cares|no one understands|burden to everyone)\b/gi,
-    /\b(giving up|can't take it|falling apart)\b/gi,
-  ],
-  support_needed: [
-    /\b(need help|someone to talk|crisis|emergency)\b/gi,
-    /\b(struggling|difficult time|hard time|tough time)\b/gi,
-    /\b(thoughts of|thinking about|considering)\s+(suicide|self-harm)/gi,
-  ],
-};
+import { assessCrisisRisk, isAtLeast } from "@/lib/crisis-risk/risk-engine";
+import { RiskSeverity } from "@/lib/crisis-risk/types";
 
 // Spam detection patterns
 const SPAM_PATTERNS = [
@@ -54,7 +35,10 @@ export interface ModerationResult {
 export interface CrisisDetectionResult {
   detected: boolean;
   level: "high" | "medium" | "low" | "none";
+  // Severity on the shared crisis risk scale; critical and high both moderate as "high"
+  severity: RiskSeverity;
   keywords: string[];
+  explanation: string[];
   suggestedInterventions: string[];
   notifyModerators: boolean;
   triggerSafetyPlan: boolean;
@@ -76,8 +60,11 @@ export async function moderateContent(
     requiresReview: false,
   };
 
-  // Crisis detection
-  const crisisCheck = detectCrisis(content);
+  // Crisis detection, in the author's language when they are known
+  const author = userId
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { preferredLanguage: true } })
+    : null;
+  const crisisCheck = detectCrisis(content, author?.preferredLanguage);
   if (crisisCheck.detected) {
     result.crisisDetected = true;
     result.crisisLevel = crisisCheck.level as "high" | "medium" | "low";
@@ -125,69 +112,47 @@ export async function moderateContent(
   return result;
 }
 
-// Crisis detection function
-export function detectCrisis(content: string): CrisisDetectionResult {
+// Crisis detection function, scored by the shared crisis risk engine
+export function detectCrisis(content: string, language?: string): CrisisDetectionResult {
+  const risk = assessCrisisRisk(content, { language });
   const result: CrisisDetectionResult = {
-    detected: false,
+    detected: risk.severity !== "none",
     level: "none",
-    keywords: [],
+    severity: risk.severity,
+    keywords: risk.indicators.map((indicator) => indicator.matchedText),
+    explanation: risk.explanation,
     suggestedInterventions: [],
     notifyModerators: false,
     triggerSafetyPlan: false,
   };
 
-  // Check high risk patterns
-  for (const pattern of CRISIS_PATTERNS.high_risk) {
-    const matches = content.match(pattern);
-    if (matches) {
-      result.detected = true;
-      result.level = "high";
-      result.keywords.push(...matches);
-      result.notifyModerators = true;
-      result.triggerSafetyPlan = true;
-      result.suggestedInterventions.push(
-        "Immediate crisis intervention required",
-        "Display crisis hotline numbers",
-        "Activate safety plan",
-        "Notify crisis counselor",
-        "Offer immediate support chat"
-      );
-      return result; // High risk takes priority
-    }
-  }
-
-  // Check medium risk patterns
-  for (const pattern of CRISIS_PATTERNS.medium_risk) {
-    const matches = content.match(pattern);
-    if (matches) {
-      result.detected = true;
-      result.level = "medium";
-      result.keywords.push(...matches);
-      result.notifyModerators = true;
-      result.suggestedInterventions.push(
-        "Display mental health resources",
-        "Suggest coping strategies",
-        "Offer peer support groups",
-        "Recommend professional help"
-      );
-    }
-  }
-
-  // Check support needed patterns
-  if (!result.detected) {
-    for (const pattern of CRISIS_PATTERNS.support_needed) {
-      const matches = content.match(pattern);
-      if (matches) {
-        result.detected = true;
-        result.level = "low";
-        result.keywords.push(...matches);
-        result.suggestedInterventions.push(
-          "Display support resources",
-          "Suggest community support groups",
-          "Offer self-help tools"
-        );
-      }
-    }
+  if (isAtLeast(risk.severity, "high")) {
+    result.level = "high";
+    result.notifyModerators = true;
+    result.triggerSafetyPlan = true;
+    result.suggestedInterventions.push(
+      "Immediate crisis intervention required",
+      "Display crisis hotline numbers",
+      "Activate safety plan",
+      "Notify crisis counselor",
+      "Offer immediate support chat"
+    );
+  } else if (risk.severity === "medium") {
+    result.level = "medium";
+    result.notifyModerators = true;
+    result.suggestedInterventions.push(
+      "Display mental health resources",
+      "Suggest coping strategies",
+      "Offer peer support groups",
+      "Recommend professional help"
+    );
+  } else if (risk.severity === "low") {
+    result.level = "low";
+    result.suggestedInterventions.push(
+      "Display support resources",
+      "Suggest community support groups",
+      "Offer self-help tools"
+    );
   }
 
   return result;
@@ -1,6 +1,24 @@
 import { prisma } from './prisma';
 import { WebSocketServer } from './websocket/server';
 import { auditLog } from './audit-logger';
+import { assessCrisisRisk, isAtLeast } from './crisis-risk/risk-engine';
+import { CrisisType } from './crisis-risk/types';
+import { CrisisQueue, ESCALATION_DELAYS_MS, getCrisisQueue } from './crisis-queue/crisis-queue';
+import { crisisHandoffService, HandoffRequest, HandoffSummary } from './crisis-handoff/handoff-service';
+import { ValidationError, WorkflowError } from './error-handling/error-types';
+
+// Escalation deadlines live in the shared crisis queue, so they survive
+// restarts and fire once across all instances
+const ESCALATION_TIMER = 'crisis_alert_escalation';
+
+const ALERT_TYPES: Partial<Record<CrisisType, CrisisAlert['type']>> = {
+  suicidal_ideation: 'suicide_ideation',
+  suicide_plan: 'suicide_ideation',
+  suicide_intent: 'suicide_ideation',
+  self_harm: 'self_harm',
+  substance_crisis: 'substance_abuse',
+  domestic_violence: 'domestic_violence',
+};
 
 export interface CrisisAlert {
   id: string;
@@ -28,9 +46,13 @@ export interface CrisisAlert {
 
 export class CrisisAlertSystem {
   private webSocketServer: WebSocketServer;
+  private queue: CrisisQueue;
   
-  constructor(webSocketServer: WebSocketServer) {
+  constructor(webSocketServer: WebSocketServer, queue: CrisisQueue = getCrisisQueue()) {
     this.webSocketServer = webSocketServer;
+    this.queue = queue;
+    // The socket server's CrisisManager starts the queue that fires these
+    this.queue.onTimer(ESCALATION_TIMER, alertId => this.runEscalation(alertId));
   }
 
   async triggerAlert(alertData: Omit<CrisisAlert, 'id' | 'createdAt' | 'isActive' | 'escalationLevel'>): Promise<CrisisAlert> {
@@ -84,7 +106,7 @@ export class CrisisAlertSystem {
       });
 
       // Schedule escalation if not responded within time limit
-      this.scheduleEscalation(alert.id);
+      await this.scheduleEscalation(alert.id, alertData.severity);
 
       return alert as CrisisAlert;
     } catch (error) {
@@ -199,34 +221,30 @@ export class CrisisAlertSystem {
     }
   }
 
-  private scheduleEscalation(alertId: string) {
+  private async scheduleEscalation(alertId: string, severity: CrisisAlert['severity']) {
     // Critical alerts: 2 minutes
     // High alerts: 5 minutes
     // Medium alerts: 10 minutes
     // Low alerts: 30 minutes
-    
-    setTimeout(async () => {
-      try {
-        const alert = await (prisma as any).crisisAlert.findUnique({
-          where: { id: alertId }
-        });
+    await this.queue.scheduleTimer(ESCALATION_TIMER, alertId, this.getEscalationDelay(severity));
+  }
 
-        if (!alert || !alert.isActive || alert.respondedAt) {
-          return; // Alert resolved or already responded
-        }
+  private async runEscalation(alertId: string) {
+    const alert = await (prisma as any).crisisAlert.findUnique({
+      where: { id: alertId }
+    });
 
-        // Escalate the alert
-        await this.escalateAlert(alertId);
-      } catch (error) {
-        console.error('Failed to escalate alert:', error);
-      }
-    }, this.getEscalationDelay(alertId));
+    if (!alert || !alert.isActive || alert.respondedAt) {
+      return; // Alert resolved or already responded
+    }
+
+    // Escalate the alert
+    await this.escalateAlert(alertId);
   }
 
-  private getEscalationDelay(alertId: string): number {
-    // In a real implementation, you'd fetch the alert severity
-    // For now, default to 5 minutes
-    return 5 * 60 * 1000; // 5 minutes
+  private getEscalationDelay(severity: string): number {
+    const level = severity.toLowerCase() as CrisisAlert['severity'];
+    return ESCALATION_DELAYS_MS[level] ?? ESCALATION_DELAYS_MS.high;
   }
 
   private async escalateAlert(alertId: string) {
@@ -276,7 +294,7 @@ export class CrisisAlertSystem {
 
       // Schedule next escalation if needed
       if (newEscalationLevel < 5) {
-        this.scheduleEscalation(alertId);
+        await this.scheduleEscalation(alertId, newEscalationLevel >= 3 ? 'critical' : alert.severity);
       }
 
       // Audit escalation
@@ -296,13 +314,41 @@ export class CrisisAlertSystem {
     }
   }
 
-  async respondToAlert(alertId: string, counselorId: string, responseType: 'acknowledge' | 'accept' | 'transfer'): Promise<void> {
+  /**
+   * A 'transfer' hands the user's live crisis conversation to another
+   * counselor or a supervisor (see crisis-handoff), with the chain of
+   * custody recorded against the alert's report
+   */
+  async respondToAlert(
+    alertId: string,
+    counselorId: string,
+    responseType: 'acknowledge' | 'accept' | 'transfer',
+    transfer?: Omit<HandoffRequest, 'alertId' | 'fromCounselorId' | 'reportId'>
+  ): Promise<HandoffSummary | null> {
     try {
+      const alert = await (prisma as any).crisisAlert.findUnique({ where: { id: alertId } });
       const updateData: any = {
         respondedAt: new Date(),
-        responseTime: Date.now() - (await (prisma as any).crisisAlert.findUnique({ where: { id: alertId } }))!.createdAt.getTime()
+        responseTime: Date.now() - alert!.createdAt.getTime()
       };
 
+      let handoff: HandoffSummary | null = null;
+      if (responseType === 'transfer') {
+        if (!transfer) {
+          throw new ValidationError('Say who the conversation is going to and why');
+        }
+        const conversation = await this.queue.findOpenForUser(alert!.userId);
+        if (!conversation) {
+          throw new WorkflowError('This user has no live crisis conversation to transfer', { alertId });
+        }
+        handoff = await crisisHandoffService.requestHandoff({
+          ...transfer,
+          alertId: conversation.id,
+          fromCounselorId: counselorId,
+          reportId: alert!.reportId ?? undefined,
+        });
+      }
+
       if (responseType === 'accept') {
         updateData.assignedCounselorId = counselorId;
       }
@@ -311,9 +357,11 @@ export class CrisisAlertSystem {
         where: { id: alertId },
         data: updateData
       });
+      await this.queue.cancelTimer(ESCALATION_TIMER, alertId);
 
-      // Notify other counselors that alert has been responded to
-      const otherCounselors = await prisma.user.findMany({
+      // Notify other counselors that alert has been responded to; a
+      // transfer only concerns those it is offered to, who already know
+      const otherCounselors = responseType === 'transfer' ? [] : await prisma.user.findMany({
         where: {
           role: 'CRISIS_COUNSELOR',
           id: { not: counselorId },
@@ -348,9 +396,12 @@ export class CrisisAlertSystem {
         details: {
           alertId,
           responseType,
-          responseTime: updateData.responseTime
+          responseTime: updateData.responseTime,
+          ...(handoff && { handoffId: handoff.id })
         }
       });
+
+      return handoff;
     } catch (error) {
       console.error('Failed to respond to alert:', error);
       throw error;
@@ -366,6 +417,7 @@ export class CrisisAlertSystem {
           resolvedAt: new Date()
         }
       });
+      await this.queue.cancelTimer(ESCALATION_TIMER, alertId);
 
       // Update related crisis report
       const alert = await (prisma as any).crisisAlert.findUnique({
@@ -410,40 +462,27 @@ export class CrisisAlertSystem {
   // AI-powered crisis detection from messages/posts
   async analyzePotentialCrisis(content: string, userId: string, source: 'message' | 'post' | 'journal'): Promise<void> {
     try {
-      // Simple keyword detection (in production, would use AI/ML)
-      const crisisKeywords = {
-        suicide: ['suicide', 'kill myself', 'end it all', 'not worth living', 'better off dead'],
-        selfHarm: ['cut myself', 'hurt myself', 'self harm', 'cutting', 'burning myself'],
-        substance: ['overdose', 'too many pills', 'drink myself', 'getting high to forget'],
-        violence: ['hurt me', 'threatens me', 'hits me', 'abusive', 'scared for my life']
-      };
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferredLanguage: true },
+      });
+      const risk = assessCrisisRisk(content, { language: user?.preferredLanguage });
 
-      let detectedType: CrisisAlert['type'] | null = null;
-      const keywordMatches: string[] = [];
-      let confidenceScore = 0;
+      // Trigger alert if the shared risk engine rates the content high or above
+      if (isAtLeast(risk.severity, 'high')) {
+        const strongest = [...risk.indicators]
+          .filter(indicator => indicator.type !== null)
+          .sort((a, b) => b.weight - a.weight)[0];
 
-      for (const [type, keywords] of Object.entries(crisisKeywords)) {
-        for (const keyword of keywords) {
-          if (content.toLowerCase().includes(keyword)) {
-            detectedType = type as CrisisAlert['type'];
-            keywordMatches.push(keyword);
-            confidenceScore += 0.2;
-          }
-        }
-      }
-
-      // Trigger alert if crisis detected with sufficient confidence
-      if (detectedType && confidenceScore >= 0.4) {
         await this.triggerAlert({
           userId,
-          type: detectedType,
-          severity: confidenceScore >= 0.8 ? 'critical' : 'high',
+          type: (strongest?.type && ALERT_TYPES[strongest.type]) || 'other',
+          severity: risk.severity === 'critical' ? 'critical' : 'high',
           description: `Potential crisis detected in ${source}: ${content.substring(0, 200)}...`,
           metadata: {
-            keywordTriggers: keywordMatches,
-            confidenceScore,
+            keywordTriggers: risk.indicators.map(indicator => indicator.matchedText),
+            confidenceScore: risk.score,
             sources: [source],
-            
           }
         });
       }
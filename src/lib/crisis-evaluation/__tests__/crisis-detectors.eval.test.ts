@@ -0,0 +1,49 @@
+/**
+ * Runs all crisis detectors over the labeled corpora and fails on
+ * regressions against the stored baseline.
+ *
+ *   npm run eval:crisis                     print the report and check the baseline
+ *   npm run eval:crisis:baseline            accept the current scores as the new baseline
+ *   CRISIS_EVAL_REPORT=report.md npm run eval:crisis   also write the report to a file
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import * as fs from 'fs'
+import * as path from 'path'
+import { loadCorpora } from '../corpus'
+import { createDefaultAdapters } from '../detector-adapters'
+import { runEvaluation } from '../evaluation'
+import { compareToBaseline, toBaseline } from '../baseline'
+import { formatEvaluationReport } from '../report'
+import { EvaluationBaseline } from '../types'
+
+const CORPORA_DIR = path.join(__dirname, '..', 'corpora')
+const BASELINE_PATH = path.join(__dirname, '..', 'baseline.json')
+
+describe('crisis detector evaluation', () => {
+  beforeEach(() => {
+    // CrisisDetectionService logs every assessment
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  it('should not regress against the baseline', async () => {
+    const evaluations = await runEvaluation(loadCorpora(CORPORA_DIR), createDefaultAdapters())
+
+    if (process.env.CRISIS_EVAL_UPDATE_BASELINE) {
+      fs.writeFileSync(BASELINE_PATH, `${JSON.stringify(toBaseline(evaluations), null, 2)}\n`)
+    }
+
+    const baseline = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8')) as EvaluationBaseline
+    const comparison = compareToBaseline(evaluations, baseline)
+    const report = formatEvaluationReport(evaluations, comparison)
+
+    if (process.env.CRISIS_EVAL_REPORT) {
+      fs.writeFileSync(process.env.CRISIS_EVAL_REPORT, report)
+    }
+    if (process.env.CRISIS_EVAL_VERBOSE || comparison.regressions.length > 0 || comparison.stale.length > 0) {
+      process.stdout.write(`${report}\n`)
+    }
+
+    expect(comparison.stale).toEqual([])
+    expect(comparison.regressions).toEqual([])
+  })
+})
@@ -0,0 +1,212 @@
+import { describe, expect, it } from '@jest/globals'
+import { CorpusError, parseCorpus } from '../corpus'
+import { evaluateDetector, runEvaluation } from '../evaluation'
+import { compareToBaseline, toBaseline } from '../baseline'
+import { formatEvaluationReport } from '../report'
+import { CrisisDetectorAdapter, DetectorPrediction, LabeledExample } from '../types'
+
+const example = (id: string, severity: LabeledExample['severity'], types: LabeledExample['types'] = []): LabeledExample => ({
+  id,
+  text: id,
+  language: 'en',
+  severity,
+  types
+})
+
+const predict = (severity: DetectorPrediction['severity'], types: DetectorPrediction['types'] = null): DetectorPrediction => ({
+  detected: severity !== 'none',
+  severity,
+  types
+})
+
+const examples = [
+  example('si-1', 'critical', ['suicidal_ideation']),
+  example('si-2', 'high', ['suicidal_ideation']),
+  example('sh-1', 'high', ['self_harm']),
+  example('no-1', 'none'),
+  example('no-2', 'none')
+]
+
+describe('parseCorpus', () => {
+  it('should read examples and default the language to the file', () => {
+    const parsed = parseCorpus([
+      '{"id":"a","text":"I want to die","severity":"critical","types":["suicidal_ideation"]}',
+      '',
+      '{"id":"b","text":"Nice day","severity":"none","language":"fr"}'
+    ].join('\n'), 'en.jsonl', 'en')
+
+    expect(parsed).toEqual([
+      { id: 'a', text: 'I want to die', severity: 'critical', types: ['suicidal_ideation'], language: 'en' },
+      { id: 'b', text: 'Nice day', severity: 'none', types: [], language: 'fr' }
+    ])
+  })
+
+  it('should report the line of an invalid example', () => {
+    const corpus = '{"id":"a","text":"x","severity":"none"}\n{"id":"b","text":"y","severity":"severe"}'
+    expect(() => parseCorpus(corpus, 'en.jsonl', 'en')).toThrow(CorpusError)
+    expect(() => parseCorpus(corpus, 'en.jsonl', 'en')).toThrow(/en\.jsonl:2/)
+  })
+
+  it('should reject crisis types on examples without a crisis', () => {
+    expect(() => parseCorpus('{"id":"a","text":"x","severity":"none","types":["self_harm"]}', 'en.jsonl', 'en'))
+      .toThrow(/cannot have crisis types/)
+  })
+})
+
+describe('evaluateDetector', () => {
+  it('should score crisis detection and list misses and false alarms', () => {
+    const result = evaluateDetector('test', 'en', examples, [
+      predict('critical', ['suicidal_ideation']),
+      predict('none', []),
+      predict('high', ['self_harm']),
+      predict('low', ['severe_depression']),
+      predict('none', [])
+    ])
+
+    expect(result.detection).toMatchObject({ support: 3, truePositives: 2, falsePositives: 1, falseNegatives: 1 })
+    expect(result.detection.precision).toBeCloseTo(2 / 3)
+    expect(result.detection.recall).toBeCloseTo(2 / 3)
+    expect(result.missed).toEqual([{ id: 'si-2', severity: 'high', types: ['suicidal_ideation'], predicted: 'none' }])
+    expect(result.falseAlarms).toEqual(['no-1'])
+  })
+
+  it('should score each crisis type, including types only ever predicted', () => {
+    const result = evaluateDetector('test', 'en', examples, [
+      predict('critical', ['suicidal_ideation']),
+      predict('high', ['self_harm']),
+      predict('high', ['self_harm']),
+      predict('none', []),
+      predict('none', [])
+    ])
+
+    expect(result.byType.suicidal_ideation).toMatchObject({ support: 2, truePositives: 1, falseNegatives: 1, precision: 1, recall: 0.5 })
+    expect(result.byType.self_harm).toMatchObject({ support: 1, truePositives: 1, falsePositives: 1, precision: 0.5, recall: 1 })
+    expect(result.byType.psychosis).toBeUndefined()
+  })
+
+  it('should credit untyped detectors per type on recall only', () => {
+    const result = evaluateDetector('test', 'en', examples, [
+      predict('high'),
+      predict('none'),
+      predict('medium'),
+      predict('none'),
+      predict('none')
+    ])
+
+    expect(result.byType.suicidal_ideation).toMatchObject({ truePositives: 1, falsePositives: 0, precision: null, recall: 0.5, f1: null })
+  })
+
+  it('should build a severity confusion matrix', () => {
+    const result = evaluateDetector('test', 'en', examples, [
+      predict('high'),
+      predict('high'),
+      predict('medium'),
+      predict('none'),
+      predict('none')
+    ])
+
+    expect(result.severityConfusion.critical.high).toBe(1)
+    expect(result.severityConfusion.high).toMatchObject({ high: 1, medium: 1 })
+    expect(result.severityConfusion.none.none).toBe(2)
+    expect(result.bySeverity.high).toMatchObject({ support: 2, truePositives: 1, falsePositives: 1, falseNegatives: 1 })
+    expect(result.bySeverity.low.precision).toBeNull()
+  })
+})
+
+describe('runEvaluation', () => {
+  it('should score each language and all languages together', async () => {
+    const adapter: CrisisDetectorAdapter = {
+      id: 'keyword',
+      name: 'Keyword',
+      detect: async text => predict(text.includes('die') || text.includes('morir') ? 'critical' : 'none')
+    }
+    const corpus = [
+      { ...example('en-1', 'critical', ['suicidal_ideation']), text: 'I want to die' },
+      { ...example('es-1', 'critical', ['suicidal_ideation']), text: 'Me quiero morir', language: 'es' },
+      { ...example('es-2', 'high', ['suicidal_ideation']), text: 'Ya no aguanto esto', language: 'es' }
+    ]
+
+    const results = await runEvaluation(corpus, [adapter])
+
+    expect(results.map(result => [result.language, result.detection.recall])).toEqual([
+      ['en', 1],
+      ['es', 0.5],
+      ['all', 2 / 3]
+    ])
+  })
+})
+
+describe('compareToBaseline', () => {
+  const perfect = evaluateDetector('test', 'en', examples, [
+    predict('critical', ['suicidal_ideation']),
+    predict('high', ['suicidal_ideation']),
+    predict('high', ['self_harm']),
+    predict('none', []),
+    predict('none', [])
+  ])
+  const baseline = toBaseline([perfect])
+
+  it('should find nothing when scores are unchanged', () => {
+    expect(compareToBaseline([perfect], baseline)).toEqual({ regressions: [], improvements: [], stale: [] })
+  })
+
+  it('should flag any drop in suicidal ideation recall as critical', () => {
+    const worse = evaluateDetector('test', 'en', examples, [
+      predict('critical', ['suicidal_ideation']),
+      predict('none', []),
+      predict('high', ['self_harm']),
+      predict('none', []),
+      predict('none', [])
+    ])
+
+    const { regressions } = compareToBaseline([worse], baseline)
+
+    expect(regressions[0]).toMatchObject({ metric: 'detection.recall', critical: true })
+    expect(regressions).toContainEqual(expect.objectContaining({
+      metric: 'byType.suicidal_ideation.recall',
+      baseline: 1,
+      current: 0.5,
+      critical: true
+    }))
+    expect(regressions.filter(change => !change.critical).length).toBeGreaterThan(0)
+  })
+
+  it('should allow small drops in other metrics within the tolerance', () => {
+    const slightlyWorse = toBaseline([perfect])
+    slightlyWorse.results.test!.en!.bySeverity.high = { precision: 0.99, recall: 1, f1: 0.99 }
+
+    expect(compareToBaseline([perfect], slightlyWorse).improvements).toEqual([])
+    expect(compareToBaseline([perfect], slightlyWorse, 0).improvements).toHaveLength(2)
+  })
+
+  it('should mark results as stale when the corpus or detectors change', () => {
+    const other = evaluateDetector('other', 'en', examples.slice(0, 4), [
+      predict('critical'), predict('high'), predict('high'), predict('none')
+    ])
+    const shrunk = evaluateDetector('test', 'en', examples.slice(0, 4), [
+      predict('critical', ['suicidal_ideation']), predict('high', ['suicidal_ideation']), predict('high', ['self_harm']), predict('none', [])
+    ])
+
+    expect(compareToBaseline([shrunk, other], baseline).stale).toEqual([
+      { detectorId: 'test', language: 'en', reason: 'corpus changed from 5 to 4 examples' },
+      { detectorId: 'other', language: 'en', reason: 'not in baseline' }
+    ])
+  })
+})
+
+describe('formatEvaluationReport', () => {
+  it('should list regressions and missed crises', () => {
+    const result = evaluateDetector('test', 'en', examples, [
+      predict('critical'), predict('none'), predict('high'), predict('none'), predict('none')
+    ])
+    const report = formatEvaluationReport([result], {
+      regressions: [{ detectorId: 'test', language: 'en', metric: 'detection.recall', baseline: 1, current: 2 / 3, critical: true }],
+      improvements: [],
+      stale: []
+    })
+
+    expect(report).toContain('test [en] detection.recall: 100.0% → 66.7% **(critical)**')
+    expect(report).toContain('Missed crises: si-2 (high)')
+    expect(report).toContain('| high | 1 | 0 | 0 | 1 | 0 |')
+  })
+})
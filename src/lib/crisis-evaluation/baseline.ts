@@ -0,0 +1,120 @@
+/**
+ * Crisis Evaluation Baseline
+ * Stores the last accepted scores and compares new evaluation runs against
+ * them. Scores may drift within a tolerance, except that recall on
+ * suicide-related types and overall crisis recall may not drop at all.
+ */
+
+import {
+  BaselineComparison,
+  BaselineEntry,
+  DetectorEvaluation,
+  EvaluationBaseline,
+  MetricChange,
+  MetricScores,
+  SUICIDE_RISK_TYPES,
+} from './types';
+
+export const DEFAULT_TOLERANCE = 0.02;
+
+// Floating point slack for zero-tolerance metrics
+const EPSILON = 1e-6;
+
+const SCORE_KEYS: Array<keyof MetricScores> = ['precision', 'recall', 'f1'];
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10000) / 10000;
+}
+
+function toScores(metrics: MetricScores): MetricScores {
+  return { precision: round(metrics.precision), recall: round(metrics.recall), f1: round(metrics.f1) };
+}
+
+function toEntry(evaluation: DetectorEvaluation): BaselineEntry {
+  return {
+    examples: evaluation.examples,
+    detection: toScores(evaluation.detection),
+    byType: Object.fromEntries(
+      Object.entries(evaluation.byType).map(([type, metrics]) => [type, toScores(metrics)])
+    ),
+    bySeverity: Object.fromEntries(
+      Object.entries(evaluation.bySeverity).map(([level, metrics]) => [level, toScores(metrics)])
+    ),
+  };
+}
+
+export function toBaseline(evaluations: DetectorEvaluation[]): EvaluationBaseline {
+  const results: EvaluationBaseline['results'] = {};
+  for (const evaluation of evaluations) {
+    results[evaluation.detectorId] = {
+      ...results[evaluation.detectorId],
+      [evaluation.language]: toEntry(evaluation),
+    };
+  }
+  return { version: 1, results };
+}
+
+function isCriticalMetric(metric: string): boolean {
+  return metric === 'detection.recall'
+    || SUICIDE_RISK_TYPES.some(type => metric === `byType.${type}.recall`);
+}
+
+/**
+ * Every metric that dropped beyond tolerance, rose beyond it, or can no
+ * longer be judged because the corpus or detector set changed
+ */
+export function compareToBaseline(
+  evaluations: DetectorEvaluation[],
+  baseline: EvaluationBaseline,
+  tolerance: number = DEFAULT_TOLERANCE
+): BaselineComparison {
+  const comparison: BaselineComparison = { regressions: [], improvements: [], stale: [] };
+
+  for (const evaluation of evaluations) {
+    const { detectorId, language } = evaluation;
+    const entry = baseline.results[detectorId]?.[language];
+    if (!entry) {
+      comparison.stale.push({ detectorId, language, reason: 'not in baseline' });
+      continue;
+    }
+    if (entry.examples !== evaluation.examples) {
+      comparison.stale.push({
+        detectorId,
+        language,
+        reason: `corpus changed from ${entry.examples} to ${evaluation.examples} examples`,
+      });
+    }
+
+    const current = toEntry(evaluation);
+    const groups: Array<[string, Record<string, MetricScores>, Record<string, MetricScores>]> = [
+      ['detection', { '': entry.detection }, { '': current.detection }],
+      ['byType', entry.byType, current.byType],
+      ['bySeverity', entry.bySeverity, current.bySeverity],
+    ];
+
+    for (const [group, before, after] of groups) {
+      for (const [name, scores] of Object.entries(before)) {
+        for (const key of SCORE_KEYS) {
+          const baselineValue = scores[key];
+          if (baselineValue === null) continue;
+
+          const metric = [group, name, key].filter(Boolean).join('.');
+          const critical = isCriticalMetric(metric);
+          const allowed = critical ? EPSILON : tolerance + EPSILON;
+          const currentValue = after[name]?.[key] ?? null;
+          const change: MetricChange = { detectorId, language, metric, baseline: baselineValue, current: currentValue, critical };
+
+          if (currentValue === null || currentValue < baselineValue - allowed) {
+            comparison.regressions.push(change);
+          } else if (currentValue > baselineValue + allowed) {
+            comparison.improvements.push(change);
+          }
+        }
+      }
+    }
+  }
+
+  // Critical regressions first
+  comparison.regressions.sort((a, b) => Number(b.critical) - Number(a.critical));
+  return comparison;
+}
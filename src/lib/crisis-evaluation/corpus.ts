@@ -0,0 +1,81 @@
+/**
+ * Crisis Evaluation Corpora
+ * Labeled examples are stored one JSON object per line, one file per
+ * language (en.jsonl, es.jsonl, ...). A line's language defaults to its
+ * file's name.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { CRISIS_TYPES, LabeledExample, SEVERITY_LEVELS } from './types';
+
+const ExampleSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().min(1),
+  language: z.string().min(2).optional(),
+  severity: z.enum(SEVERITY_LEVELS as [string, ...string[]]),
+  types: z.array(z.enum(CRISIS_TYPES as [string, ...string[]])).default([]),
+  note: z.string().optional(),
+});
+
+export class CorpusError extends Error {
+  constructor(message: string, public readonly source: string, public readonly line?: number) {
+    super(`${source}${line ? `:${line}` : ''}: ${message}`);
+    this.name = 'CorpusError';
+  }
+}
+
+export function parseCorpus(content: string, source: string, defaultLanguage?: string): LabeledExample[] {
+  const examples: LabeledExample[] = [];
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//')) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new CorpusError('invalid JSON', source, index + 1);
+    }
+
+    const parsed = ExampleSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new CorpusError(`${issue?.path.join('.') || 'example'}: ${issue?.message}`, source, index + 1);
+    }
+
+    const { language, ...example } = parsed.data;
+    const exampleLanguage = language ?? defaultLanguage;
+    if (!exampleLanguage) {
+      throw new CorpusError('language missing', source, index + 1);
+    }
+    if (example.severity === 'none' && example.types.length > 0) {
+      throw new CorpusError('an example without a crisis cannot have crisis types', source, index + 1);
+    }
+
+    examples.push({ ...example, language: exampleLanguage } as LabeledExample);
+  });
+
+  return examples;
+}
+
+/**
+ * Every *.jsonl corpus in a directory, checked for duplicate example ids
+ */
+export function loadCorpora(directory: string): LabeledExample[] {
+  const files = fs.readdirSync(directory).filter(file => file.endsWith('.jsonl')).sort();
+  const examples = files.flatMap(file =>
+    parseCorpus(fs.readFileSync(path.join(directory, file), 'utf8'), file, path.basename(file, '.jsonl'))
+  );
+
+  const seen = new Set<string>();
+  for (const example of examples) {
+    if (seen.has(example.id)) {
+      throw new CorpusError(`duplicate example id ${example.id}`, directory);
+    }
+    seen.add(example.id);
+  }
+  return examples;
+}
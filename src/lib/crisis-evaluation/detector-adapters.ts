@@ -0,0 +1,98 @@
+/**
+ * Crisis Detector Adapters
+ * Wraps the shared risk engine and the three detectors built on it behind
+ * one interface and maps each one's result onto the shared severity scale.
+ */
+
+import { CrisisDetector } from '@/lib/ai/core/CrisisDetector';
+import { CrisisDetectionService, CrisisSeverity } from '@/services/crisis/CrisisDetectionService';
+import { detectCrisis } from '@/lib/community/moderation';
+import { assessCrisisRisk } from '@/lib/crisis-risk/risk-engine';
+import { CrisisDetectorAdapter, CrisisType, SeverityLevel } from './types';
+
+const SERVICE_SEVERITY: Record<CrisisSeverity, SeverityLevel> = {
+  [CrisisSeverity.NONE]: 'none',
+  [CrisisSeverity.LOW]: 'low',
+  [CrisisSeverity.MODERATE]: 'medium',
+  [CrisisSeverity.HIGH]: 'high',
+  [CrisisSeverity.CRITICAL]: 'critical',
+  [CrisisSeverity.IMMEDIATE]: 'critical',
+};
+
+// The shared engine on its own, without any consumer's mapping
+export function createRiskEngineAdapter(): CrisisDetectorAdapter {
+  return {
+    id: 'risk-engine',
+    name: 'assessCrisisRisk (lib/crisis-risk)',
+    async detect(text, language) {
+      const risk = assessCrisisRisk(text, { language });
+      return {
+        detected: risk.severity !== 'none',
+        severity: risk.severity,
+        types: risk.types,
+      };
+    },
+  };
+}
+
+// AI assistant detector (lib/ai/core). Risk engine plus conversation context.
+export function createCoreDetectorAdapter(detector: CrisisDetector = new CrisisDetector()): CrisisDetectorAdapter {
+  return {
+    id: 'ai-core',
+    name: 'CrisisDetector (lib/ai/core)',
+    async detect(text, language) {
+      const assessment = await detector.screen(text, { conversationHistory: [], language });
+      return {
+        detected: assessment.level !== 'none',
+        severity: assessment.level,
+        types: [...new Set<CrisisType>(assessment.indicators.map(indicator => indicator.type))],
+      };
+    },
+  };
+}
+
+// Crisis chat service (services/crisis). Risk engine plus typing behavior.
+export function createServiceDetectorAdapter(
+  service: CrisisDetectionService = CrisisDetectionService.getInstance()
+): CrisisDetectorAdapter {
+  return {
+    id: 'crisis-service',
+    name: 'CrisisDetectionService (services/crisis)',
+    async detect(text, language) {
+      const assessment = await service.analyzeText(text, undefined, language);
+      return {
+        detected: assessment.isInCrisis,
+        severity: SERVICE_SEVERITY[assessment.severity],
+        types: [
+          ...new Set(assessment.indicators.flatMap(indicator => (indicator.crisisType ? [indicator.crisisType] : []))),
+        ],
+      };
+    },
+  };
+}
+
+// Community moderation check (lib/community/moderation). Three levels, no crisis type.
+export function createModerationDetectorAdapter(): CrisisDetectorAdapter {
+  return {
+    id: 'community-moderation',
+    name: 'detectCrisis (lib/community/moderation)',
+    async detect(text) {
+      // Declared async in types/global.d.ts, synchronous in the module itself
+      const result = await detectCrisis(text);
+      return {
+        detected: result.detected,
+        severity: result.level as SeverityLevel,
+        types: null,
+      };
+    },
+  };
+}
+
+export function createDefaultAdapters(): CrisisDetectorAdapter[] {
+  return [
+    createRiskEngineAdapter(),
+    createCoreDetectorAdapter(),
+    createServiceDetectorAdapter(),
+    createModerationDetectorAdapter(),
+  ];
+}
@@ -0,0 +1,165 @@
+/**
+ * Crisis Detector Evaluation
+ * Runs detectors over labeled examples and scores them: crisis versus no
+ * crisis, each crisis type, each severity level, and a severity confusion
+ * matrix. Results are per language plus an 'all' row across languages.
+ */
+
+import {
+  CRISIS_TYPES,
+  ClassMetrics,
+  CrisisDetectorAdapter,
+  DetectorEvaluation,
+  DetectorPrediction,
+  LabeledExample,
+  SEVERITY_LEVELS,
+  SeverityLevel,
+} from './types';
+
+export const ALL_LANGUAGES = 'all';
+
+interface Counts {
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+export function toClassMetrics(counts: Counts, precisionDefined = true): ClassMetrics {
+  const precision = precisionDefined ? ratio(counts.truePositives, counts.truePositives + counts.falsePositives) : null;
+  const recall = ratio(counts.truePositives, counts.support);
+  const f1 = precision === null || recall === null
+    ? null
+    : precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+
+  return { ...counts, precision, recall, f1 };
+}
+
+function emptyCounts(): Counts {
+  return { support: 0, truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+}
+
+// Counts one example for a class: was it labeled with it, was it predicted as it
+function tally(counts: Counts, labeled: boolean, predicted: boolean): void {
+  if (labeled) {
+    counts.support++;
+    if (predicted) counts.truePositives++;
+    else counts.falseNegatives++;
+  } else if (predicted) {
+    counts.falsePositives++;
+  }
+}
+
+function predictedSeverity(prediction: DetectorPrediction): SeverityLevel {
+  return prediction.detected ? prediction.severity : 'none';
+}
+
+/**
+ * Score one detector's predictions; predictions[i] belongs to examples[i]
+ */
+export function evaluateDetector(
+  detectorId: string,
+  language: string,
+  examples: LabeledExample[],
+  predictions: DetectorPrediction[]
+): DetectorEvaluation {
+  if (examples.length !== predictions.length) {
+    throw new Error(`Expected ${examples.length} predictions from ${detectorId}, got ${predictions.length}`);
+  }
+
+  const detection = emptyCounts();
+  const typeCounts = new Map(CRISIS_TYPES.map(type => [type, emptyCounts()]));
+  const severityCounts = new Map(SEVERITY_LEVELS.map(level => [level, emptyCounts()]));
+  const severityConfusion = Object.fromEntries(
+    SEVERITY_LEVELS.map(expected => [expected, Object.fromEntries(SEVERITY_LEVELS.map(level => [level, 0]))])
+  ) as DetectorEvaluation['severityConfusion'];
+  const missed: DetectorEvaluation['missed'] = [];
+  const falseAlarms: string[] = [];
+  // Detectors that never name a crisis type can only be scored on recall per type
+  const typed = predictions.some(prediction => prediction.types !== null);
+
+  examples.forEach((example, index) => {
+    const prediction = predictions[index]!;
+    const isCrisis = example.severity !== 'none';
+    const predicted = predictedSeverity(prediction);
+
+    tally(detection, isCrisis, prediction.detected);
+    if (isCrisis && !prediction.detected) {
+      missed.push({ id: example.id, severity: example.severity, types: example.types, predicted });
+    }
+    if (!isCrisis && prediction.detected) {
+      falseAlarms.push(example.id);
+    }
+
+    for (const [type, counts] of typeCounts) {
+      const predictedType = prediction.types === null
+        ? prediction.detected
+        : prediction.detected && prediction.types.includes(type);
+      tally(counts, example.types.includes(type), typed ? predictedType : predictedType && example.types.includes(type));
+    }
+
+    for (const [level, counts] of severityCounts) {
+      tally(counts, example.severity === level, predicted === level);
+    }
+    severityConfusion[example.severity][predicted]++;
+  });
+
+  const byType: DetectorEvaluation['byType'] = {};
+  for (const [type, counts] of typeCounts) {
+    if (counts.support > 0 || counts.falsePositives > 0) {
+      byType[type] = toClassMetrics(counts, typed);
+    }
+  }
+
+  return {
+    detectorId,
+    language,
+    examples: examples.length,
+    detection: toClassMetrics(detection),
+    byType,
+    bySeverity: Object.fromEntries(
+      SEVERITY_LEVELS.map(level => [level, toClassMetrics(severityCounts.get(level)!)])
+    ) as DetectorEvaluation['bySeverity'],
+    severityConfusion,
+    missed,
+    falseAlarms,
+  };
+}
+
+/**
+ * Run every detector over the examples, one at a time, and score each
+ * language separately and all languages together
+ */
+export async function runEvaluation(
+  examples: LabeledExample[],
+  adapters: CrisisDetectorAdapter[]
+): Promise<DetectorEvaluation[]> {
+  const languages = [...new Set(examples.map(example => example.language))].sort();
+  const evaluations: DetectorEvaluation[] = [];
+
+  for (const adapter of adapters) {
+    const predictions: DetectorPrediction[] = [];
+    for (const example of examples) {
+      predictions.push(await adapter.detect(example.text, example.language));
+    }
+
+    for (const language of languages) {
+      const indexes = examples.flatMap((example, index) => (example.language === language ? [index] : []));
+      evaluations.push(evaluateDetector(
+        adapter.id,
+        language,
+        indexes.map(index => examples[index]!),
+        indexes.map(index => predictions[index]!)
+      ));
+    }
+    if (languages.length > 1) {
+      evaluations.push(evaluateDetector(adapter.id, ALL_LANGUAGES, examples, predictions));
+    }
+  }
+
+  return evaluations;
+}
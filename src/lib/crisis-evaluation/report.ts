@@ -0,0 +1,115 @@
+/**
+ * Crisis Evaluation Report
+ * Markdown summary of an evaluation run: per detector and language scores,
+ * severity confusion matrices, missed crises and baseline changes.
+ */
+
+import {
+  BaselineComparison,
+  ClassMetrics,
+  DetectorEvaluation,
+  MetricChange,
+  SEVERITY_LEVELS,
+  SUICIDE_RISK_TYPES,
+} from './types';
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function metricRow(label: string, metrics: ClassMetrics): string[] {
+  return [
+    label,
+    String(metrics.support),
+    String(metrics.truePositives),
+    String(metrics.falsePositives),
+    String(metrics.falseNegatives),
+    percent(metrics.precision),
+    percent(metrics.recall),
+    percent(metrics.f1),
+  ];
+}
+
+const METRIC_HEADERS = ['Support', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'F1'];
+
+function formatChange(change: MetricChange): string {
+  const flag = change.critical ? ' **(critical)**' : '';
+  return `- ${change.detectorId} [${change.language}] ${change.metric}: ${percent(change.baseline)} → ${percent(change.current)}${flag}`;
+}
+
+function formatEvaluation(evaluation: DetectorEvaluation): string[] {
+  const lines = [
+    `### ${evaluation.detectorId} — ${evaluation.language} (${evaluation.examples} examples)`,
+    '',
+    ...table(['Class', ...METRIC_HEADERS], [
+      metricRow('any crisis', evaluation.detection),
+      ...Object.entries(evaluation.byType).map(([type, metrics]) => metricRow(type, metrics)),
+    ]),
+    '',
+    ...table(['Severity', ...METRIC_HEADERS], SEVERITY_LEVELS.map(level => metricRow(level, evaluation.bySeverity[level]))),
+    '',
+    'Severity confusion (rows labeled, columns predicted):',
+    '',
+    ...table(['', ...SEVERITY_LEVELS], SEVERITY_LEVELS.map(expected => [
+      expected,
+      ...SEVERITY_LEVELS.map(predicted => String(evaluation.severityConfusion[expected][predicted])),
+    ])),
+  ];
+
+  if (evaluation.missed.length > 0) {
+    // Missed suicide risk is listed first
+    const missed = [...evaluation.missed].sort((a, b) =>
+      Number(b.types.some(type => SUICIDE_RISK_TYPES.includes(type)))
+        - Number(a.types.some(type => SUICIDE_RISK_TYPES.includes(type)))
+    );
+    lines.push('', `Missed crises: ${missed.map(example => `${example.id} (${example.severity})`).join(', ')}`);
+  }
+  if (evaluation.falseAlarms.length > 0) {
+    lines.push('', `False alarms: ${evaluation.falseAlarms.join(', ')}`);
+  }
+
+  return lines;
+}
+
+export function formatEvaluationReport(
+  evaluations: DetectorEvaluation[],
+  comparison?: BaselineComparison
+): string {
+  const lines = ['# Crisis detector evaluation', ''];
+
+  if (comparison) {
+    lines.push('## Baseline', '');
+    if (comparison.regressions.length === 0 && comparison.stale.length === 0) {
+      lines.push('No regressions against the baseline.');
+    }
+    if (comparison.regressions.length > 0) {
+      lines.push(`Regressions (${comparison.regressions.length}):`, ...comparison.regressions.map(formatChange));
+    }
+    if (comparison.stale.length > 0) {
+      lines.push(
+        '',
+        'Baseline out of date:',
+        ...comparison.stale.map(entry => `- ${entry.detectorId} [${entry.language}]: ${entry.reason}`)
+      );
+    }
+    if (comparison.improvements.length > 0) {
+      lines.push('', `Improvements (${comparison.improvements.length}):`, ...comparison.improvements.map(formatChange));
+    }
+    lines.push('');
+  }
+
+  lines.push('## Results', '');
+  for (const evaluation of evaluations) {
+    lines.push(...formatEvaluation(evaluation), '');
+  }
+
+  return lines.join('\n');
+}
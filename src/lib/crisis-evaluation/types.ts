@@ -0,0 +1,108 @@
+/**
+ * Crisis Detector Evaluation Types
+ * Labeled examples, detector predictions normalized to one severity scale,
+ * and the metrics and baselines the offline evaluation works with.
+ */
+
+import { CRISIS_TYPE_LABELS, CrisisType, RISK_SEVERITIES, RiskSeverity } from '@/lib/crisis-risk/types';
+
+export type { CrisisType };
+
+// The shared crisis risk severity scale; every detector's levels are mapped onto it
+export type SeverityLevel = RiskSeverity;
+
+export const SEVERITY_LEVELS: SeverityLevel[] = RISK_SEVERITIES;
+
+export const CRISIS_TYPES = Object.keys(CRISIS_TYPE_LABELS) as CrisisType[];
+
+// Misses of these are the most serious regressions; their recall may not drop at all
+export const SUICIDE_RISK_TYPES: CrisisType[] = ['suicidal_ideation', 'suicide_plan', 'suicide_intent'];
+
+export interface LabeledExample {
+  id: string;
+  text: string;
+  language: string;
+  severity: SeverityLevel;
+  types: CrisisType[];
+  note?: string;
+}
+
+export interface DetectorPrediction {
+  detected: boolean;
+  severity: SeverityLevel;
+  // Null for detectors that flag crises without saying which kind
+  types: CrisisType[] | null;
+}
+
+export interface CrisisDetectorAdapter {
+  id: string;
+  name: string;
+  detect(text: string, language: string): Promise<DetectorPrediction>;
+}
+
+export interface ClassMetrics {
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null where undefined: no predictions, no labeled examples, or a detector without types
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface MissedExample {
+  id: string;
+  severity: SeverityLevel;
+  types: CrisisType[];
+  predicted: SeverityLevel;
+}
+
+export interface DetectorEvaluation {
+  detectorId: string;
+  language: string;
+  examples: number;
+  // Crisis (any labeled severity above none) versus no crisis
+  detection: ClassMetrics;
+  byType: Partial<Record<CrisisType, ClassMetrics>>;
+  bySeverity: Record<SeverityLevel, ClassMetrics>;
+  // Counts indexed by labeled severity, then predicted severity
+  severityConfusion: Record<SeverityLevel, Record<SeverityLevel, number>>;
+  missed: MissedExample[];
+  falseAlarms: string[];
+}
+
+export interface MetricScores {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface BaselineEntry {
+  examples: number;
+  detection: MetricScores;
+  byType: Partial<Record<CrisisType, MetricScores>>;
+  bySeverity: Partial<Record<SeverityLevel, MetricScores>>;
+}
+
+export interface EvaluationBaseline {
+  version: 1;
+  // Detector id, then language
+  results: Record<string, Record<string, BaselineEntry>>;
+}
+
+export interface MetricChange {
+  detectorId: string;
+  language: string;
+  metric: string; // e.g. detection.recall, byType.suicidal_ideation.recall
+  baseline: number;
+  current: number | null;
+  critical: boolean;
+}
+
+export interface BaselineComparison {
+  regressions: MetricChange[];
+  improvements: MetricChange[];
+  // Results the baseline cannot judge, e.g. after corpus changes
+  stale: Array<{ detectorId: string; language: string; reason: string }>;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildHandoffContext, custodyPeriods, MAX_TRANSCRIPT_ENTRIES } from '../context'
+import { CustodyEntry, TranscriptEntry } from '../types'
+import type { QueuedAlert } from '@/lib/crisis-queue/types'
+
+const START = Date.UTC(2024, 0, 8, 22)
+const minutes = (n: number) => new Date(START + n * 60 * 1000)
+
+const alert: QueuedAlert = {
+  id: 'alert_1',
+  userId: 'user-1',
+  type: 'other',
+  severity: 'high',
+  status: 'assigned',
+  assignedCounselorId: 'alice',
+  supportingCounselorId: null,
+  escalationLevel: 0,
+  source: 'websocket',
+  message: 'Crisis indicators detected in user communication',
+  triggers: ['hopeless'],
+  language: null,
+  needs: [],
+  createdAt: START,
+  updatedAt: START,
+  assignedAt: START,
+  resolvedAt: null
+}
+
+const said = (sender: TranscriptEntry['sender'], content: string, minute: number): TranscriptEntry => ({
+  sender,
+  content,
+  at: minutes(minute).toISOString()
+})
+
+const custody = (counselorId: string, action: CustodyEntry['action'], minute: number): CustodyEntry => ({
+  counselorId,
+  action,
+  handoffId: null,
+  note: null,
+  at: minutes(minute)
+})
+
+describe('buildHandoffContext', () => {
+  it('should reassess risk from what the user said rather than what the counselor said', () => {
+    const transcript = [
+      said('counselor', 'Are you thinking about killing yourself?', 1),
+      said('user', 'I had a good day at work today', 2)
+    ]
+
+    const context = buildHandoffContext({ alert, transcript, notes: 'Settled now', safetyPlan: null, now: minutes(5) })
+
+    expect(context.risk.severity).toBe('none')
+    expect(context.risk.assessedAt).toBe(minutes(5).toISOString())
+    expect(context.safetyPlan).toEqual({ exists: false, active: false, lastReviewedAt: null })
+    expect(context.notes).toBe('Settled now')
+  })
+
+  it('should carry the safety plan status and only the most recent part of a long transcript', () => {
+    const transcript = Array.from({ length: MAX_TRANSCRIPT_ENTRIES + 10 }, (_, i) => said('user', `message ${i}`, i))
+    const safetyPlan = { isActive: true, lastReviewedAt: minutes(-60) }
+
+    const context = buildHandoffContext({ alert, transcript, notes: '', safetyPlan, now: minutes(300) })
+
+    expect(context.transcript).toHaveLength(MAX_TRANSCRIPT_ENTRIES)
+    expect(context.transcript[0]?.content).toBe('message 10')
+    expect(context.safetyPlan).toEqual({ exists: true, active: true, lastReviewedAt: minutes(-60).toISOString() })
+  })
+})
+
+describe('custodyPeriods', () => {
+  it('should show the overlap where both counselors were in the conversation', () => {
+    const periods = custodyPeriods([
+      custody('alice', 'assigned', 0),
+      custody('alice', 'handoff_requested', 20),
+      custody('bob', 'joined', 22),
+      custody('alice', 'left', 30),
+      custody('bob', 'resolved', 50)
+    ])
+
+    expect(periods).toEqual([
+      { counselorId: 'alice', from: minutes(0), to: minutes(30), shared: true },
+      { counselorId: 'bob', from: minutes(22), to: minutes(50), shared: true }
+    ])
+  })
+
+  it('should leave the current counselor\'s period open and unshared after a declined handoff', () => {
+    const periods = custodyPeriods([
+      custody('bob', 'handoff_declined', 5),
+      custody('alice', 'assigned', 0)
+    ])
+
+    expect(periods).toEqual([{ counselorId: 'alice', from: minutes(0), to: null, shared: false }])
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Handoff context and chain of custody
+ * Pure helpers: what travels with a handoff, and who held a crisis
+ * conversation when
+ */
+
+import { assessCrisisRisk } from '@/lib/crisis-risk/risk-engine';
+import type { QueuedAlert } from '@/lib/crisis-queue/types';
+import { CustodyEntry, CustodyPeriod, HandoffContext, TranscriptEntry } from './types';
+
+// Only the most recent part of a long conversation is handed over
+export const MAX_TRANSCRIPT_ENTRIES = 200;
+
+// Actions that bring a counselor into the conversation, and take them out of it
+const JOINS = new Set<CustodyEntry['action']>(['assigned', 'joined']);
+const LEAVES = new Set<CustodyEntry['action']>(['left', 'released', 'resolved']);
+
+export interface HandoffContextInput {
+  alert: QueuedAlert;
+  transcript: TranscriptEntry[];
+  notes: string;
+  safetyPlan: { isActive: boolean; lastReviewedAt: Date } | null;
+  now: Date;
+}
+
+/**
+ * Reassess risk from what the user has said so far, falling back to the
+ * alert's own message when the transcript has nothing from them
+ */
+export function buildHandoffContext({ alert, transcript, notes, safetyPlan, now }: HandoffContextInput): HandoffContext {
+  const recent = transcript.slice(-MAX_TRANSCRIPT_ENTRIES);
+  const userText = recent
+    .filter(entry => entry.sender === 'user')
+    .map(entry => entry.content)
+    .join('\n');
+  const assessment = assessCrisisRisk(userText || alert.message, { language: alert.language ?? undefined });
+
+  return {
+    alert: {
+      id: alert.id,
+      type: alert.type,
+      severity: alert.severity,
+      message: alert.message,
+      triggers: alert.triggers,
+      escalationLevel: alert.escalationLevel,
+      raisedAt: new Date(alert.createdAt).toISOString(),
+    },
+    risk: {
+      severity: assessment.severity,
+      score: assessment.score,
+      types: assessment.types,
+      immediateRisk: assessment.immediateRisk,
+      explanation: assessment.explanation,
+      assessedAt: now.toISOString(),
+    },
+    safetyPlan: {
+      exists: safetyPlan !== null,
+      active: safetyPlan?.isActive ?? false,
+      lastReviewedAt: safetyPlan ? safetyPlan.lastReviewedAt.toISOString() : null,
+    },
+    transcript: recent,
+    notes,
+  };
+}
+
+/**
+ * Turn custody events into the stretches each counselor was in the
+ * conversation. A period is shared when it overlaps someone else's, as
+ * during a handoff's overlap.
+ */
+export function custodyPeriods(entries: CustodyEntry[]): CustodyPeriod[] {
+  const periods: CustodyPeriod[] = [];
+  const open = new Map<string, CustodyPeriod>();
+
+  for (const entry of [...entries].sort((a, b) => a.at.getTime() - b.at.getTime())) {
+    if (JOINS.has(entry.action) && !open.has(entry.counselorId)) {
+      const period: CustodyPeriod = { counselorId: entry.counselorId, from: entry.at, to: null, shared: false };
+      open.set(entry.counselorId, period);
+      periods.push(period);
+    } else if (LEAVES.has(entry.action)) {
+      // Resolving ends the conversation for everyone still in it
+      const leaving = entry.action === 'resolved' ? Array.from(open.keys()) : [entry.counselorId];
+      for (const counselorId of leaving) {
+        const period = open.get(counselorId);
+        if (!period) continue;
+        period.to = entry.at;
+        open.delete(counselorId);
+      }
+    }
+  }
+
+  for (const period of periods) {
+    period.shared = periods.some(
+      other =>
+        other !== period &&
+        other.counselorId !== period.counselorId &&
+        other.from.getTime() < (period.to?.getTime() ?? Infinity) &&
+        (other.to?.getTime() ?? Infinity) > period.from.getTime()
+    );
+  }
+  return periods;
+}
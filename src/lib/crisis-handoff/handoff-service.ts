@@ -0,0 +1,515 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { decryptJSON, encryptJSON } from '@/lib/encryption-exports';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { CrisisQueue, getCrisisQueue } from '@/lib/crisis-queue/crisis-queue';
+import { buildHandoffContext, custodyPeriods } from './context';
+import {
+  CustodyAction,
+  CustodyEntry,
+  CustodyPeriod,
+  HandoffContext,
+  HandoffKind,
+  HandoffReason,
+  HandoffStatus,
+  OPEN_HANDOFF_STATUSES,
+  TranscriptEntry,
+} from './types';
+
+export interface HandoffRequest {
+  alertId: string;
+  fromCounselorId: string;
+  kind: HandoffKind;
+  reason: HandoffReason;
+  // Left out to offer the conversation to every eligible counselor or supervisor
+  toCounselorId?: string;
+  notes: string;
+  // The conversation as the handing-off counselor sees it
+  transcript: TranscriptEntry[];
+  // Crisis report the chain of custody is recorded against
+  reportId?: string;
+}
+
+export interface HandoffSummary {
+  id: string;
+  alertId: string;
+  reportId: string | null;
+  userId: string;
+  fromCounselorId: string;
+  toCounselorId: string | null;
+  kind: HandoffKind;
+  reason: string;
+  status: HandoffStatus;
+  requestedAt: Date;
+  acceptedAt: Date | null;
+  completedAt: Date | null;
+}
+
+// A request nobody accepts in this time expires and the first counselor keeps the conversation
+export const HANDOFF_ACCEPT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// How long both counselors stay in the conversation before the first leaves
+export const HANDOFF_OVERLAP_MS = 10 * 60 * 1000;
+
+const ACCEPT_TIMEOUT_TIMER = 'handoff_accept_timeout';
+const OVERLAP_END_TIMER = 'handoff_overlap_end';
+
+const COUNSELOR_ROLES: UserRole[] = [UserRole.CRISIS_COUNSELOR, UserRole.THERAPIST, UserRole.ADMIN, UserRole.SUPER_ADMIN];
+const SUPERVISOR_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+type HandoffRow = Omit<HandoffSummary, 'kind' | 'status'> & {
+  kind: string;
+  status: string;
+  contextEncrypted: unknown;
+};
+
+function toSummary(handoff: HandoffRow): HandoffSummary {
+  return {
+    id: handoff.id,
+    alertId: handoff.alertId,
+    reportId: handoff.reportId,
+    userId: handoff.userId,
+    fromCounselorId: handoff.fromCounselorId,
+    toCounselorId: handoff.toCounselorId,
+    kind: handoff.kind === 'supervisor' ? 'supervisor' : 'counselor',
+    reason: handoff.reason,
+    status: handoff.status as HandoffStatus,
+    requestedAt: handoff.requestedAt,
+    acceptedAt: handoff.acceptedAt,
+    completedAt: handoff.completedAt,
+  };
+}
+
+/**
+ * Crisis Handoff Service
+ * Moves a live crisis conversation from one counselor to another, or up to
+ * a supervisor, with the risk assessment, safety plan status, transcript
+ * and notes going along. The receiving counselor joins before the first
+ * one leaves, and every join and leave is kept as the alert's chain of
+ * custody.
+ */
+export class CrisisHandoffService {
+  private static instance: CrisisHandoffService;
+  private queue: CrisisQueue;
+
+  private constructor(queue: CrisisQueue = getCrisisQueue()) {
+    this.queue = queue;
+    this.queue.onTimer(ACCEPT_TIMEOUT_TIMER, handoffId => this.expireHandoff(handoffId));
+    this.queue.onTimer(OVERLAP_END_TIMER, async handoffId => {
+      await this.finishOverlap(handoffId);
+    });
+  }
+
+  static getInstance(): CrisisHandoffService {
+    if (!CrisisHandoffService.instance) {
+      CrisisHandoffService.instance = new CrisisHandoffService();
+    }
+    return CrisisHandoffService.instance;
+  }
+
+  /**
+   * Offer a live conversation to another counselor or a supervisor. Only
+   * the counselor who currently has it can hand it off, one handoff at a
+   * time.
+   */
+  async requestHandoff(request: HandoffRequest, now: Date = new Date()): Promise<HandoffSummary> {
+    const alert = await this.queue.getAlert(request.alertId);
+    if (!alert || alert.status === 'resolved' || alert.assignedCounselorId !== request.fromCounselorId) {
+      throw new WorkflowError('Only live crisis conversations can be handed off, by the counselor who has them', {
+        alertId: request.alertId,
+      });
+    }
+    if (request.toCounselorId === request.fromCounselorId) {
+      throw new ValidationError('A conversation cannot be handed off to the same counselor');
+    }
+
+    const open = await prisma.crisisHandoff.findFirst({
+      where: { alertId: alert.id, status: { in: OPEN_HANDOFF_STATUSES } },
+    });
+    if (open) {
+      throw new WorkflowError('This conversation already has a handoff in progress', {
+        handoffId: open.id,
+        status: open.status,
+      });
+    }
+
+    const recipients = await this.eligibleRecipients(request.kind, request.fromCounselorId, request.toCounselorId);
+    if (recipients.length === 0) {
+      throw new ValidationError(
+        request.toCounselorId
+          ? `That person cannot take a ${request.kind} handoff`
+          : `Nobody is available to take a ${request.kind} handoff`,
+        undefined,
+        { toCounselorId: request.toCounselorId }
+      );
+    }
+
+    const safetyPlan = await prisma.safetyPlan.findFirst({
+      where: { userId: alert.userId },
+      orderBy: [{ isActive: 'desc' }, { lastReviewedAt: 'desc' }],
+      select: { isActive: true, lastReviewedAt: true },
+    });
+    const context = buildHandoffContext({
+      alert,
+      transcript: request.transcript,
+      notes: request.notes,
+      safetyPlan,
+      now,
+    });
+
+    const handoff = await prisma.crisisHandoff.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        alertId: alert.id,
+        reportId: request.reportId,
+        userId: alert.userId,
+        fromCounselorId: request.fromCounselorId,
+        toCounselorId: request.toCounselorId ?? null,
+        kind: request.kind,
+        reason: request.reason,
+        status: 'requested',
+        contextEncrypted: encryptJSON(context),
+        requestedAt: now,
+      },
+    });
+
+    if (request.reportId) {
+      await this.linkReport(alert.id, request.reportId);
+    }
+    await this.recordCustody(alert.id, request.fromCounselorId, 'handoff_requested', {
+      handoffId: handoff.id,
+      note: request.reason,
+      at: now,
+    });
+    await this.queue.scheduleTimer(ACCEPT_TIMEOUT_TIMER, handoff.id, HANDOFF_ACCEPT_TIMEOUT_MS);
+
+    const title = request.kind === 'supervisor' ? 'Supervisor needed in a crisis chat' : 'Crisis chat handoff';
+    await this.notify(recipients, {
+      title,
+      message: `A ${context.risk.severity === 'none' ? alert.severity : context.risk.severity} risk conversation ` +
+        `is being handed over (${request.reason.replace(/_/g, ' ')}). The notes and transcript are ready for you.`,
+      data: { handoffId: handoff.id, alertId: alert.id },
+      actionUrl: `/crisis/alert/${alert.id}`,
+      actionText: 'Review and join',
+    });
+
+    return toSummary(handoff);
+  }
+
+  /**
+   * Join the conversation. The accepting counselor takes it over and the
+   * first counselor stays for the overlap period.
+   */
+  async acceptHandoff(handoffId: string, counselorId: string, now: Date = new Date()): Promise<HandoffSummary> {
+    const handoff = await this.getOpenHandoff(handoffId, 'requested');
+    const kind = handoff.kind === 'supervisor' ? 'supervisor' : 'counselor';
+    if (handoff.fromCounselorId === counselorId) {
+      throw new ValidationError('A conversation cannot be handed off to the same counselor');
+    }
+    if (handoff.toCounselorId && handoff.toCounselorId !== counselorId) {
+      throw new WorkflowError('This handoff was offered to someone else', { handoffId });
+    }
+    if ((await this.eligibleRecipients(kind, handoff.fromCounselorId, counselorId)).length === 0) {
+      throw new WorkflowError(`Only ${kind === 'supervisor' ? 'supervisors' : 'crisis staff'} can accept this handoff`, {
+        handoffId,
+      });
+    }
+
+    // Whoever gets here first takes it
+    const { count } = await prisma.crisisHandoff.updateMany({
+      where: { id: handoffId, status: 'requested' },
+      data: { status: 'overlap', toCounselorId: counselorId, acceptedAt: now },
+    });
+    if (count === 0) {
+      throw new WorkflowError('This handoff has already been accepted or withdrawn', { handoffId });
+    }
+    await this.queue.cancelTimer(ACCEPT_TIMEOUT_TIMER, handoffId);
+
+    const alert = await this.queue.transfer(handoff.alertId, handoff.fromCounselorId, counselorId);
+    if (!alert) {
+      await prisma.crisisHandoff.update({
+        where: { id: handoffId },
+        data: { status: 'cancelled', completedAt: now },
+      });
+      await this.recordCustody(handoff.alertId, handoff.fromCounselorId, 'handoff_cancelled', {
+        handoffId,
+        note: 'Conversation ended or moved before the handoff was accepted',
+        at: now,
+      });
+      throw new WorkflowError('The conversation is no longer with the counselor handing it off', { handoffId });
+    }
+
+    await this.recordCustody(handoff.alertId, counselorId, 'joined', { handoffId, at: now });
+    await this.queue.scheduleTimer(OVERLAP_END_TIMER, handoffId, HANDOFF_OVERLAP_MS);
+
+    await this.notify([handoff.fromCounselorId], {
+      title: 'Handoff accepted',
+      message: 'Your colleague has joined the conversation. Introduce them, then leave when you are ready.',
+      data: { handoffId, alertId: handoff.alertId },
+      actionUrl: `/crisis/alert/${handoff.alertId}`,
+      actionText: 'Open conversation',
+    });
+
+    return toSummary({ ...handoff, status: 'overlap', toCounselorId: counselorId, acceptedAt: now });
+  }
+
+  async declineHandoff(handoffId: string, counselorId: string, now: Date = new Date()): Promise<HandoffSummary> {
+    const handoff = await this.getOpenHandoff(handoffId, 'requested');
+    if (handoff.toCounselorId !== counselorId) {
+      // Open offers stay open for everyone else
+      throw new WorkflowError('Only the counselor a handoff was offered to can decline it', { handoffId });
+    }
+    return this.closeRequest(handoff, 'declined', counselorId, now);
+  }
+
+  async cancelHandoff(handoffId: string, counselorId: string, now: Date = new Date()): Promise<HandoffSummary> {
+    const handoff = await this.getOpenHandoff(handoffId, 'requested');
+    if (handoff.fromCounselorId !== counselorId) {
+      throw new WorkflowError('Only the counselor handing off can withdraw the request', { handoffId });
+    }
+    return this.closeRequest(handoff, 'cancelled', counselorId, now);
+  }
+
+  /**
+   * End the overlap: the first counselor leaves the conversation. Either
+   * counselor can end it; otherwise it ends on its own.
+   */
+  async completeHandoff(handoffId: string, counselorId: string, now: Date = new Date()): Promise<HandoffSummary> {
+    const handoff = await this.getOpenHandoff(handoffId, 'overlap');
+    if (handoff.fromCounselorId !== counselorId && handoff.toCounselorId !== counselorId) {
+      throw new WorkflowError('Only the counselors in this handoff can complete it', { handoffId });
+    }
+    const completed = await this.finishOverlap(handoffId, now);
+    if (!completed) {
+      throw new WorkflowError('This handoff has already been completed', { handoffId });
+    }
+    return completed;
+  }
+
+  /**
+   * The context that travels with a handoff, for the two counselors in it
+   * and supervisors
+   */
+  async getHandoffContext(
+    handoffId: string,
+    viewer: { id: string; role: string }
+  ): Promise<{ handoff: HandoffSummary; context: HandoffContext }> {
+    const handoff = await prisma.crisisHandoff.findUnique({ where: { id: handoffId } });
+    if (!handoff) {
+      throw new WorkflowError('Handoff not found', { handoffId });
+    }
+
+    const isParty = handoff.fromCounselorId === viewer.id || handoff.toCounselorId === viewer.id;
+    const isOfferedToViewer = handoff.status === 'requested' && !handoff.toCounselorId &&
+      (await this.eligibleRecipients(handoff.kind === 'supervisor' ? 'supervisor' : 'counselor', handoff.fromCounselorId, viewer.id)).length > 0;
+    if (!isParty && !isOfferedToViewer && !SUPERVISOR_ROLES.includes(viewer.role as UserRole)) {
+      throw new WorkflowError('Handoff not found', { handoffId });
+    }
+
+    return {
+      handoff: toSummary(handoff),
+      context: decryptJSON(handoff.contextEncrypted as string) as HandoffContext,
+    };
+  }
+
+  /**
+   * Handoffs a counselor is part of or could pick up, newest first
+   */
+  async listForCounselor(counselorId: string, role: string, since: Date): Promise<HandoffSummary[]> {
+    const openKinds: HandoffKind[] = SUPERVISOR_ROLES.includes(role as UserRole) ? ['counselor', 'supervisor'] : ['counselor'];
+    const handoffs = await prisma.crisisHandoff.findMany({
+      where: {
+        requestedAt: { gte: since },
+        OR: [
+          { fromCounselorId: counselorId },
+          { toCounselorId: counselorId },
+          { toCounselorId: null, status: 'requested', kind: { in: openKinds }, fromCounselorId: { not: counselorId } },
+        ],
+      },
+      orderBy: { requestedAt: 'desc' },
+    });
+    return handoffs.map(toSummary);
+  }
+
+  /**
+   * Add a step to an alert's chain of custody. Once a crisis report is
+   * linked to the alert, later steps are recorded against it too.
+   */
+  async recordCustody(
+    alertId: string,
+    counselorId: string,
+    action: CustodyAction,
+    options: { handoffId?: string; note?: string; at?: Date } = {}
+  ): Promise<void> {
+    const linked = await prisma.crisisCustodyEvent.findFirst({
+      where: { alertId, reportId: { not: null } },
+      select: { reportId: true },
+    });
+    await prisma.crisisCustodyEvent.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        alertId,
+        reportId: linked?.reportId ?? null,
+        handoffId: options.handoffId ?? null,
+        counselorId,
+        action,
+        note: options.note ?? null,
+        at: options.at ?? new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record the alert's chain of custody, so far and from now on, against a crisis report
+   */
+  async linkReport(alertId: string, reportId: string): Promise<void> {
+    await prisma.crisisCustodyEvent.updateMany({
+      where: { alertId, reportId: null },
+      data: { reportId },
+    });
+    await prisma.crisisHandoff.updateMany({
+      where: { alertId, reportId: null },
+      data: { reportId },
+    });
+  }
+
+  /**
+   * Chain of custody for each of the given crisis reports
+   */
+  async getCustodyForReports(
+    reportIds: string[]
+  ): Promise<Map<string, { events: CustodyEntry[]; periods: CustodyPeriod[] }>> {
+    const events = await prisma.crisisCustodyEvent.findMany({
+      where: { reportId: { in: reportIds } },
+      orderBy: { at: 'asc' },
+    });
+
+    const byReport = new Map<string, { events: CustodyEntry[]; periods: CustodyPeriod[] }>();
+    for (const event of events) {
+      const entry: CustodyEntry = {
+        counselorId: event.counselorId,
+        action: event.action as CustodyAction,
+        handoffId: event.handoffId,
+        note: event.note,
+        at: event.at,
+      };
+      const chain = byReport.get(event.reportId!) ?? { events: [], periods: [] };
+      chain.events.push(entry);
+      byReport.set(event.reportId!, chain);
+    }
+    byReport.forEach(chain => {
+      chain.periods = custodyPeriods(chain.events);
+    });
+    return byReport;
+  }
+
+  private async finishOverlap(handoffId: string, now: Date = new Date()): Promise<HandoffSummary | null> {
+    const { count } = await prisma.crisisHandoff.updateMany({
+      where: { id: handoffId, status: 'overlap' },
+      data: { status: 'completed', completedAt: now },
+    });
+    if (count === 0) return null;
+
+    const handoff = await prisma.crisisHandoff.findUniqueOrThrow({ where: { id: handoffId } });
+    await this.queue.cancelTimer(OVERLAP_END_TIMER, handoffId);
+    // The alert may have been resolved during the overlap; the first counselor leaves all the same
+    await this.queue.endSupport(handoff.alertId, handoff.fromCounselorId);
+    await this.recordCustody(handoff.alertId, handoff.fromCounselorId, 'left', { handoffId, at: now });
+    return toSummary(handoff);
+  }
+
+  private async expireHandoff(handoffId: string): Promise<void> {
+    const handoff = await prisma.crisisHandoff.findUnique({ where: { id: handoffId } });
+    if (!handoff || handoff.status !== 'requested') return;
+
+    await this.closeRequest(handoff, 'expired', handoff.fromCounselorId, new Date());
+    await this.notify([handoff.fromCounselorId], {
+      title: 'Handoff not picked up',
+      message: 'Nobody accepted the handoff in time. Stay with the conversation and try again or ask a supervisor.',
+      data: { handoffId, alertId: handoff.alertId },
+      actionUrl: `/crisis/alert/${handoff.alertId}`,
+      actionText: 'Open conversation',
+    });
+  }
+
+  private async closeRequest(
+    handoff: HandoffRow,
+    status: 'declined' | 'cancelled' | 'expired',
+    counselorId: string,
+    now: Date
+  ): Promise<HandoffSummary> {
+    const { count } = await prisma.crisisHandoff.updateMany({
+      where: { id: handoff.id, status: 'requested' },
+      data: { status, completedAt: now },
+    });
+    if (count === 0) {
+      throw new WorkflowError('This handoff has already been accepted or withdrawn', { handoffId: handoff.id });
+    }
+    await this.queue.cancelTimer(ACCEPT_TIMEOUT_TIMER, handoff.id);
+
+    const action: Record<typeof status, CustodyAction> = {
+      declined: 'handoff_declined',
+      cancelled: 'handoff_cancelled',
+      expired: 'handoff_expired',
+    };
+    await this.recordCustody(handoff.alertId, counselorId, action[status], { handoffId: handoff.id, at: now });
+    return toSummary({ ...handoff, status, completedAt: now });
+  }
+
+  private async getOpenHandoff(handoffId: string, status: 'requested' | 'overlap') {
+    const handoff = await prisma.crisisHandoff.findUnique({ where: { id: handoffId } });
+    if (!handoff) {
+      throw new WorkflowError('Handoff not found', { handoffId });
+    }
+    if (handoff.status !== status) {
+      throw new WorkflowError(`This handoff is ${handoff.status}`, { handoffId, status: handoff.status });
+    }
+    return handoff;
+  }
+
+  /**
+   * Who a handoff can go to: the named counselor if they qualify, or else
+   * every active supervisor, or every counselor taking alerts right now
+   */
+  private async eligibleRecipients(kind: HandoffKind, fromCounselorId: string, toCounselorId?: string): Promise<string[]> {
+    const roles = kind === 'supervisor' ? SUPERVISOR_ROLES : COUNSELOR_ROLES;
+    const candidates = toCounselorId
+      ? [toCounselorId]
+      : kind === 'counselor'
+        ? (await this.queue.listAvailableCounselors()).filter(id => id !== fromCounselorId)
+        : undefined;
+
+    const staff = await prisma.user.findMany({
+      where: {
+        role: { in: roles },
+        isActive: true,
+        id: candidates ? { in: candidates } : { not: fromCounselorId },
+      },
+      select: { id: true },
+    });
+    return staff.map(member => member.id);
+  }
+
+  private async notify(
+    userIds: string[],
+    notification: { title: string; message: string; data: Record<string, unknown>; actionUrl: string; actionText: string }
+  ): Promise<void> {
+    for (const userId of userIds) {
+      try {
+        await notificationService.createNotification({
+          userId,
+          type: 'crisis',
+          priority: 'urgent',
+          ...notification,
+        });
+      } catch (error) {
+        // The handoff is on record and visible on the dashboard either way
+        console.error('Failed to send handoff notification:', error);
+      }
+    }
+  }
+}
+
+export const crisisHandoffService = CrisisHandoffService.getInstance();
@@ -0,0 +1,97 @@
+/**
+ * Crisis Handoff Types
+ * Warm handoffs of live crisis conversations and the chain of custody
+ * kept for each crisis alert
+ */
+
+import type { CrisisType, RiskSeverity } from '@/lib/crisis-risk/types';
+
+// Another counselor, or a supervisor taking over a conversation that needs more
+export type HandoffKind = 'counselor' | 'supervisor';
+
+export const HANDOFF_KINDS: HandoffKind[] = ['counselor', 'supervisor'];
+
+export type HandoffReason = 'end_of_shift' | 'specialty' | 'language' | 'escalation' | 'other';
+
+export const HANDOFF_REASONS: HandoffReason[] = ['end_of_shift', 'specialty', 'language', 'escalation', 'other'];
+
+// requested -> overlap -> completed; a request can also be declined,
+// cancelled or left to expire
+export type HandoffStatus = 'requested' | 'overlap' | 'completed' | 'declined' | 'cancelled' | 'expired';
+
+export const OPEN_HANDOFF_STATUSES: HandoffStatus[] = ['requested', 'overlap'];
+
+export type CustodyAction =
+  | 'assigned'
+  | 'handoff_requested'
+  | 'joined'
+  | 'left'
+  | 'handoff_declined'
+  | 'handoff_cancelled'
+  | 'handoff_expired'
+  | 'released'
+  | 'resolved';
+
+export type TranscriptSender = 'user' | 'counselor' | 'ai' | 'system';
+
+export interface TranscriptEntry {
+  sender: TranscriptSender;
+  content: string;
+  // ISO timestamp
+  at: string;
+}
+
+// Risk as it stood when the handoff was requested
+export interface HandoffRiskAssessment {
+  severity: RiskSeverity;
+  score: number;
+  types: CrisisType[];
+  immediateRisk: boolean;
+  explanation: string[];
+  assessedAt: string;
+}
+
+export interface SafetyPlanStatus {
+  exists: boolean;
+  active: boolean;
+  lastReviewedAt: string | null;
+}
+
+/**
+ * Everything the receiving counselor needs to pick the conversation up
+ * without asking the user to start again
+ */
+export interface HandoffContext {
+  alert: {
+    id: string;
+    type: string;
+    severity: string;
+    message: string;
+    triggers: string[];
+    escalationLevel: number;
+    raisedAt: string;
+  };
+  risk: HandoffRiskAssessment;
+  safetyPlan: SafetyPlanStatus;
+  transcript: TranscriptEntry[];
+  // The handing-off counselor's notes for whoever takes over
+  notes: string;
+}
+
+export interface CustodyEntry {
+  counselorId: string;
+  action: CustodyAction;
+  handoffId: string | null;
+  note: string | null;
+  at: Date;
+}
+
+// A stretch of time a counselor held, or shared, the conversation
+export interface CustodyPeriod {
+  counselorId: string;
+  from: Date;
+  // Null while they still hold it
+  to: Date | null;
+  // True while another counselor was also present
+  shared: boolean;
+}
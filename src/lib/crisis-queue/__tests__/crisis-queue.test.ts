@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it } from '@jest/globals'
+import { CrisisQueue, COUNSELOR_TTL_MS, ESCALATION_DELAYS_MS, NewQueuedAlert } from '../crisis-queue'
+import { MemoryCrisisQueueAdapter } from '../memory-adapter'
+import { CrisisQueueEvent } from '../types'
+
+const START = Date.UTC(2024, 0, 1, 12)
+
+// Two server instances sharing one store, with a clock the test moves
+function cluster() {
+  let time = START
+  const adapter = new MemoryCrisisQueueAdapter()
+  const now = () => time
+  const a = new CrisisQueue(adapter, { instanceId: 'a', now })
+  const b = new CrisisQueue(adapter, { instanceId: 'b', now })
+  return { adapter, a, b, advance: (ms: number) => { time += ms } }
+}
+
+const alert = (id: string, overrides: Partial<NewQueuedAlert> = {}): NewQueuedAlert => ({
+  id,
+  userId: `user-${id}`,
+  type: 'suicidal_ideation',
+  severity: 'high',
+  source: 'websocket',
+  message: 'Crisis indicators detected',
+  ...overrides
+})
+
+let running: CrisisQueue[] = []
+
+afterEach(async () => {
+  await Promise.all(running.map(queue => queue.stop()))
+  running = []
+})
+
+describe('CrisisQueue', () => {
+  it('should show an alert raised on one instance to the other', async () => {
+    const { a, b } = cluster()
+    running = [a, b]
+    const seenByB: CrisisQueueEvent[] = []
+    b.onEvent(event => seenByB.push(event))
+    await a.start()
+    await b.start()
+
+    await a.enqueue(alert('1'))
+
+    expect(seenByB).toEqual([expect.objectContaining({ type: 'alert_created', origin: 'a', alert: expect.objectContaining({ id: '1' }) })])
+    expect((await b.listOpen()).map(open => open.id)).toEqual(['1'])
+  })
+
+  it('should list open alerts most urgent first', async () => {
+    const { a, advance } = cluster()
+    await a.enqueue(alert('low', { severity: 'low' }))
+    advance(1000)
+    await a.enqueue(alert('critical', { severity: 'critical' }))
+    advance(1000)
+    await a.enqueue(alert('high'))
+
+    expect((await a.listOpen()).map(open => open.id)).toEqual(['critical', 'high', 'low'])
+  })
+
+  it('should assign an alert exactly once when instances race for it', async () => {
+    const { a, b } = cluster()
+    await a.enqueue(alert('1'))
+
+    const results = await Promise.all([a.assign('1', 'counselor-a'), b.assign('1', 'counselor-b')])
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+    expect((await b.getAlert('1'))?.assignedCounselorId).toBe('counselor-a')
+  })
+
+  it('should give new alerts to the least loaded available counselor', async () => {
+    const { a, b } = cluster()
+    await a.setCounselorAvailability('busy', true)
+    await b.setCounselorAvailability('free', true)
+    await a.enqueue(alert('1'))
+    await a.assign('1', 'busy')
+    await b.enqueue(alert('2'))
+
+    expect((await b.autoAssign('2'))?.assignedCounselorId).toBe('free')
+  })
+
+  it('should keep the first counselor on a transferred alert until the handoff completes', async () => {
+    const { a, b } = cluster()
+    await a.enqueue(alert('1'))
+    await a.assign('1', 'alice')
+
+    expect(await b.transfer('1', 'carol', 'bob')).toBeNull()
+    expect(await b.transfer('1', 'alice', 'bob')).toMatchObject({ assignedCounselorId: 'bob', supportingCounselorId: 'alice' })
+    expect(await a.getCounselorLoads()).toEqual(new Map([['bob', 1], ['alice', 1]]))
+
+    expect(await a.endSupport('1', 'alice')).toMatchObject({ assignedCounselorId: 'bob', supportingCounselorId: null })
+    expect(await a.endSupport('1', 'alice')).toBeNull()
+  })
+})
+
+describe('escalation timers', () => {
+  it('should escalate an unassigned alert once however many instances tick', async () => {
+    const { a, b, advance } = cluster()
+    await a.enqueue(alert('1', { severity: 'critical' }))
+    advance(ESCALATION_DELAYS_MS.critical)
+
+    await Promise.all([a.tick(), b.tick(), a.tick(), b.tick()])
+
+    expect([a.isLeader(), b.isLeader()]).toEqual([true, false])
+    expect(await a.getAlert('1')).toMatchObject({ status: 'escalated', escalationLevel: 1 })
+
+    advance(ESCALATION_DELAYS_MS.critical)
+    await b.tick()
+    expect((await a.getAlert('1'))?.escalationLevel).toBe(1)
+    await a.tick()
+    expect((await a.getAlert('1'))?.escalationLevel).toBe(2)
+  })
+
+  it('should bring escalation forward when an alert is raised to a higher severity', async () => {
+    const { a, advance } = cluster()
+    await a.enqueue(alert('1', { severity: 'medium' }))
+    advance(ESCALATION_DELAYS_MS.high)
+    await a.update('1', { severity: 'high' })
+    await a.tick()
+
+    expect(await a.getAlert('1')).toMatchObject({ severity: 'high', escalationLevel: 1 })
+  })
+
+  it('should hand timers to another instance when the leader stops', async () => {
+    const { a, b, advance } = cluster()
+    await a.enqueue(alert('1', { severity: 'critical' }))
+    await a.tick()
+    await a.stop()
+
+    advance(ESCALATION_DELAYS_MS.critical)
+    await b.tick()
+
+    expect(b.isLeader()).toBe(true)
+    expect((await b.getAlert('1'))?.escalationLevel).toBe(1)
+  })
+
+  it('should not escalate an alert a counselor has taken', async () => {
+    const { a, advance } = cluster()
+    await a.setCounselorAvailability('counselor', true)
+    await a.enqueue(alert('1'))
+    await a.autoAssign('1')
+    advance(ESCALATION_DELAYS_MS.high)
+    await a.tick()
+
+    expect(await a.getAlert('1')).toMatchObject({ status: 'assigned', escalationLevel: 0 })
+  })
+
+  it('should retry a timer whose handler failed', async () => {
+    const { a, advance } = cluster()
+    const calls: string[] = []
+    a.onTimer('follow_up', async id => {
+      calls.push(id)
+      if (calls.length === 1) throw new Error('database unavailable')
+    })
+    await a.scheduleTimer('follow_up', 'x', 1000)
+    advance(1000)
+
+    await a.tick()
+    await a.tick()
+    expect(calls).toEqual(['x'])
+
+    advance(30 * 1000)
+    await a.tick()
+    advance(30 * 1000)
+    await a.tick()
+    expect(calls).toEqual(['x', 'x'])
+  })
+})
+
+describe('counselor availability', () => {
+  it('should reassign a counselor\'s alerts when they stop taking them', async () => {
+    const { a, b } = cluster()
+    await a.setCounselorAvailability('leaving', true)
+    await a.enqueue(alert('1'))
+    await a.autoAssign('1')
+    await b.setCounselorAvailability('staying', true)
+
+    const reassigned = await a.setCounselorAvailability('leaving', false)
+
+    expect(reassigned.map(result => result.assignedCounselorId)).toEqual(['staying'])
+  })
+
+  it('should take alerts back from counselors whose instance went away', async () => {
+    const { a, b, advance } = cluster()
+    await b.setCounselorAvailability('on-b', true)
+    await a.enqueue(alert('1'))
+    await a.autoAssign('1')
+    await b.stop()
+
+    advance(COUNSELOR_TTL_MS + 1)
+    await a.tick()
+
+    expect(await a.getAlert('1')).toMatchObject({ status: 'pending', assignedCounselorId: null })
+  })
+})
+
+describe('recover', () => {
+  it('should restore lost alerts, restart lost timers and release alerts held by departed counselors', async () => {
+    const { adapter, a, advance } = cluster()
+    await a.enqueue(alert('kept'))
+    await a.setCounselorAvailability('gone', true)
+    await a.autoAssign('kept')
+    await adapter.saveAlert({ ...(await a.getAlert('kept'))!, id: 'timerless', assignedCounselorId: null, status: 'pending' })
+    advance(COUNSELOR_TTL_MS + 1)
+
+    const restarted = new CrisisQueue(adapter, { instanceId: 'a2', now: () => START + COUNSELOR_TTL_MS + 1 })
+    running = [restarted]
+    const report = await restarted.start(async () => [
+      alert('kept'),
+      alert('from-database', { createdAt: START - 60 * 60 * 1000 })
+    ])
+
+    expect(report).toEqual({ restored: 1, rescheduled: 1, released: 1, assigned: 0 })
+    expect((await restarted.listOpen()).map(open => [open.id, open.status, open.escalationLevel])).toEqual([
+      ['from-database', 'escalated', 1],
+      ['kept', 'pending', 0],
+      ['timerless', 'escalated', 1]
+    ])
+  })
+})
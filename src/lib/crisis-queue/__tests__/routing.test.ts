@@ -0,0 +1,142 @@
+import { describe, expect, it } from '@jest/globals'
+import { CrisisQueue } from '../crisis-queue'
+import { MemoryCrisisQueueAdapter } from '../memory-adapter'
+import { CounselorCandidate, MATCH_WAIT_MS, routeAlert } from '../routing'
+import { CounselorRoutingProfile, CrisisQueueEvent, QueuedAlert } from '../types'
+
+const START = Date.UTC(2024, 0, 1, 12)
+
+const counselor = (
+  counselorId: string,
+  overrides: Partial<CounselorRoutingProfile> = {},
+  load = 0
+): CounselorCandidate => ({
+  profile: {
+    counselorId,
+    languages: ['en'],
+    specialties: [],
+    credentialLevel: 'counselor',
+    maxConcurrentChats: 3,
+    ...overrides
+  },
+  load
+})
+
+const alert = (overrides: Partial<QueuedAlert> = {}) => ({
+  severity: 'high' as const,
+  language: 'en',
+  needs: [],
+  createdAt: START,
+  ...overrides
+})
+
+describe('routeAlert', () => {
+  it('should send a Spanish-speaking user to a counselor who speaks Spanish', () => {
+    const decision = routeAlert(
+      alert({ language: 'es' }),
+      [counselor('english'), counselor('bilingual', { languages: ['en', 'es-MX'] }, 2)],
+      [],
+      START
+    )
+
+    expect(decision?.counselorId).toBe('bilingual')
+    expect(decision?.languageMatch).toBe(true)
+    expect(decision?.relaxed).toEqual([])
+  })
+
+  it('should hold out for a matching language, then take whoever is free', () => {
+    const candidates = [counselor('english')]
+    const spanish = alert({ language: 'es' })
+
+    expect(routeAlert(spanish, candidates, [], START + MATCH_WAIT_MS.high - 1)).toBeNull()
+
+    const decision = routeAlert(spanish, candidates, [], START + MATCH_WAIT_MS.high)
+    expect(decision?.counselorId).toBe('english')
+    expect(decision?.relaxed).toEqual(['language'])
+    expect(decision?.reasons).toContain('No counselor who speaks es was free')
+  })
+
+  it('should not wait at all for an emergency', () => {
+    const decision = routeAlert(alert({ severity: 'emergency', language: 'es' }), [counselor('english')], [], START)
+
+    expect(decision?.counselorId).toBe('english')
+    expect(decision?.relaxed).toEqual(['language', 'credential'])
+  })
+
+  it('should give critical alerts to licensed counselors', () => {
+    const candidates = [
+      counselor('peer', { credentialLevel: 'peer', specialties: ['suicide_prevention'] }),
+      counselor('licensed', { credentialLevel: 'licensed' }, 2)
+    ]
+
+    const decision = routeAlert(alert({ severity: 'critical', needs: ['suicide_prevention'] }), candidates, [], START)
+
+    expect(decision?.counselorId).toBe('licensed')
+    expect(decision?.credentialMet).toBe(true)
+  })
+
+  it('should waive the credential before the language', () => {
+    const candidates = [
+      counselor('licensed-english', { credentialLevel: 'licensed' }),
+      counselor('spanish', { languages: ['es'] })
+    ]
+
+    const decision = routeAlert(
+      alert({ severity: 'critical', language: 'es' }),
+      candidates,
+      [],
+      START + MATCH_WAIT_MS.critical
+    )
+
+    expect(decision?.counselorId).toBe('spanish')
+    expect(decision?.relaxed).toEqual(['credential'])
+  })
+
+  it('should prefer matching specialties and counselors the user has talked to', () => {
+    const candidates = [counselor('a'), counselor('b', { specialties: ['youth', 'lgbtq'] }), counselor('c')]
+
+    expect(routeAlert(alert({ needs: ['youth', 'lgbtq'] }), candidates, [], START)?.counselorId).toBe('b')
+    expect(routeAlert(alert(), candidates, ['c'], START)).toMatchObject({
+      counselorId: 'c',
+      continuity: true
+    })
+  })
+
+  it('should never go past a counselor\'s chat limit', () => {
+    const candidates = [counselor('full', { languages: ['es'], maxConcurrentChats: 2 }, 2)]
+
+    expect(routeAlert(alert({ language: 'es', severity: 'emergency' }), candidates, [], START)).toBeNull()
+  })
+})
+
+describe('CrisisQueue routing', () => {
+  it('should route through the attached directory and publish the decision', async () => {
+    const queue = new CrisisQueue(new MemoryCrisisQueueAdapter(), { instanceId: 'a', now: () => START })
+    queue.attachDirectory({
+      getProfiles: async ids => ids.map(id => counselor(id, id === 'maria' ? { languages: ['es'] } : {}).profile),
+      getPreviousCounselors: async () => []
+    })
+    const events: CrisisQueueEvent[] = []
+    queue.onEvent(event => events.push(event))
+    await queue.start()
+
+    await queue.setCounselorAvailability('john', true)
+    await queue.setCounselorAvailability('maria', true)
+    await queue.enqueue({
+      id: 'alert-1',
+      userId: 'user-1',
+      type: 'suicidal_ideation',
+      severity: 'high',
+      source: 'websocket',
+      message: 'Necesito ayuda',
+      language: 'es-ES'
+    })
+
+    const assigned = await queue.autoAssign('alert-1')
+
+    expect(assigned?.assignedCounselorId).toBe('maria')
+    expect(assigned?.language).toBe('es')
+    expect(events.find(event => event.type === 'alert_assigned')?.routing?.languageMatch).toBe(true)
+    await queue.stop()
+  })
+})
@@ -0,0 +1,598 @@
+/**
+ * Crisis Queue
+ * Open crisis alerts, counselor availability and escalation deadlines,
+ * shared by every server instance through a CrisisQueueAdapter (Redis in
+ * production, in memory for tests). Any instance can raise, assign and
+ * resolve alerts and every instance hears about each change. Only the
+ * instance holding the leader lease fires due timers, and each timer is
+ * handed to one instance at a time, so an escalation happens once however
+ * many instances are running.
+ */
+
+import crypto from 'crypto';
+import { MemoryCrisisQueueAdapter } from './memory-adapter';
+import { RedisCrisisQueueAdapter } from './redis-adapter';
+import { CounselorCandidate, DEFAULT_COUNSELOR_PROFILE, normalizeLanguage, routeAlert } from './routing';
+import {
+  AlertChanges,
+  CounselorDirectory,
+  CounselorSpecialty,
+  CrisisQueueAdapter,
+  CrisisQueueEvent,
+  CrisisQueueEventType,
+  QueuedAlert,
+  QueuedAlertSeverity,
+  RoutingDecision,
+  TimerHandler,
+} from './types';
+
+// How long an unassigned alert waits before it is escalated again
+export const ESCALATION_DELAYS_MS: Record<QueuedAlertSeverity, number> = {
+  emergency: 60 * 1000,
+  critical: 2 * 60 * 1000,
+  high: 5 * 60 * 1000,
+  medium: 10 * 60 * 1000,
+  low: 30 * 60 * 1000,
+};
+
+// Past this level the alert stays with the supervisors already paged
+export const MAX_ESCALATION_LEVEL = 5;
+
+// Counselors drop out of the queue if their instance stops refreshing them
+export const COUNSELOR_TTL_MS = 60 * 1000;
+
+export const ESCALATION_TIMER = 'escalation';
+
+// Alerts raised into the live queue; their SafetyAlert rows share the id,
+// and other SafetyAlert rows are not part of the queue
+export const ALERT_ID_PREFIX = 'alert_';
+
+const LEADER_LEASE = 'leader';
+const RECOVERY_LEASE = 'recovery';
+const LEADER_LEASE_MS = 15 * 1000;
+const RECOVERY_LEASE_MS = 60 * 1000;
+const TICK_INTERVAL_MS = 5 * 1000;
+// A claimed timer fires again if its handler has not finished by then
+const TIMER_RETRY_MS = 30 * 1000;
+const TIMERS_PER_TICK = 50;
+
+const SEVERITY_ORDER: QueuedAlertSeverity[] = ['low', 'medium', 'high', 'critical', 'emergency'];
+
+export interface NewQueuedAlert {
+  id: string;
+  userId: string;
+  type: string;
+  severity: QueuedAlertSeverity;
+  source: string;
+  message: string;
+  triggers?: string[];
+  language?: string | null;
+  needs?: CounselorSpecialty[];
+  // Set when restoring an alert raised before this instance started
+  createdAt?: number;
+}
+
+export interface CrisisQueueOptions {
+  instanceId?: string;
+  now?: () => number;
+  tickIntervalMs?: number;
+}
+
+export interface RecoveryReport {
+  // Alerts found in the database but missing from the queue
+  restored: number;
+  // Unassigned alerts whose escalation timer had been lost
+  rescheduled: number;
+  // Alerts taken back from counselors who are no longer available
+  released: number;
+  assigned: number;
+}
+
+export function generateAlertId(): string {
+  return `${ALERT_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function timerKey(kind: string, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function isOpen(alert: QueuedAlert): boolean {
+  return alert.status !== 'resolved';
+}
+
+function byUrgency(a: QueuedAlert, b: QueuedAlert): number {
+  return SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) || a.createdAt - b.createdAt;
+}
+
+export class CrisisQueue {
+  public readonly instanceId: string;
+  private readonly adapter: CrisisQueueAdapter;
+  private readonly now: () => number;
+  private readonly tickIntervalMs: number;
+  private directory: CounselorDirectory | null = null;
+  private timerHandlers: Map<string, TimerHandler> = new Map();
+  private eventHandlers: Set<(event: CrisisQueueEvent) => void> = new Set();
+  // Counselors connected to this instance, refreshed in the shared store on every tick
+  private localCounselors: Set<string> = new Set();
+  private unsubscribe: (() => void) | null = null;
+  private ticker: NodeJS.Timeout | null = null;
+  private leader = false;
+  private ticking = false;
+
+  constructor(adapter: CrisisQueueAdapter, options: CrisisQueueOptions = {}) {
+    this.adapter = adapter;
+    this.instanceId = options.instanceId ?? `${process.pid}-${crypto.randomUUID()}`;
+    this.now = options.now ?? Date.now;
+    this.tickIntervalMs = options.tickIntervalMs ?? TICK_INTERVAL_MS;
+    this.timerHandlers.set(ESCALATION_TIMER, async alertId => {
+      await this.escalate(alertId);
+    });
+  }
+
+  /**
+   * Look counselors' languages, specialties and limits up here when routing
+   */
+  public attachDirectory(directory: CounselorDirectory): void {
+    this.directory = directory;
+  }
+
+  /**
+   * Run `handler` when a timer of this kind comes due. Register the same
+   * kinds on every instance: whichever one leads fires them.
+   */
+  public onTimer(kind: string, handler: TimerHandler): void {
+    this.timerHandlers.set(kind, handler);
+  }
+
+  /**
+   * Hear about every change to the queue, made here or on another instance
+   */
+  public onEvent(handler: (event: CrisisQueueEvent) => void): () => void {
+    this.eventHandlers.add(handler);
+    return () => {
+      this.eventHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Subscribe to changes, recover in-flight alerts and start firing timers.
+   * `restore` lists open alerts from the database so any the queue has
+   * lost can be put back.
+   */
+  public async start(restore?: () => Promise<NewQueuedAlert[]>): Promise<RecoveryReport> {
+    if (!this.unsubscribe) {
+      this.unsubscribe = await this.adapter.subscribe(event => {
+        this.eventHandlers.forEach(handler => handler(event));
+      });
+    }
+
+    const report = await this.recover(restore);
+    await this.tick();
+
+    if (!this.ticker) {
+      this.ticker = setInterval(() => {
+        void this.tick();
+      }, this.tickIntervalMs);
+      this.ticker.unref?.();
+    }
+    return report;
+  }
+
+  public async stop(): Promise<void> {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.leader) {
+      await this.adapter.releaseLease(LEADER_LEASE, this.instanceId);
+      this.leader = false;
+    }
+  }
+
+  public isLeader(): boolean {
+    return this.leader;
+  }
+
+  // Alerts
+
+  public async enqueue(input: NewQueuedAlert): Promise<QueuedAlert> {
+    const now = this.now();
+    const createdAt = input.createdAt ?? now;
+    const alert: QueuedAlert = {
+      id: input.id,
+      userId: input.userId,
+      type: input.type,
+      severity: input.severity,
+      status: 'pending',
+      assignedCounselorId: null,
+      supportingCounselorId: null,
+      escalationLevel: 0,
+      source: input.source,
+      message: input.message,
+      triggers: input.triggers ?? [],
+      language: normalizeLanguage(input.language),
+      needs: input.needs ?? [],
+      createdAt,
+      updatedAt: now,
+      assignedAt: null,
+      resolvedAt: null,
+    };
+
+    await this.adapter.saveAlert(alert);
+    await this.adapter.scheduleTimer(
+      timerKey(ESCALATION_TIMER, alert.id),
+      createdAt + ESCALATION_DELAYS_MS[alert.severity]
+    );
+    await this.publish('alert_created', { alert });
+    return alert;
+  }
+
+  public async getAlert(alertId: string): Promise<QueuedAlert | null> {
+    return this.adapter.getAlert(alertId);
+  }
+
+  /**
+   * Unresolved alerts, most urgent first
+   */
+  public async listOpen(): Promise<QueuedAlert[]> {
+    return (await this.adapter.listAlerts()).filter(isOpen).sort(byUrgency);
+  }
+
+  public async findOpenForUser(userId: string): Promise<QueuedAlert | null> {
+    return (await this.listOpen()).find(alert => alert.userId === userId) ?? null;
+  }
+
+  /**
+   * Change an alert's details. Raising the severity of an alert still
+   * waiting for a counselor moves its escalation deadline to where it would
+   * be had it been raised at that severity.
+   */
+  public async update(
+    alertId: string,
+    changes: Omit<AlertChanges, 'updatedAt' | 'resolvedAt'>
+  ): Promise<QueuedAlert | null> {
+    const before = changes.severity ? await this.adapter.getAlert(alertId) : null;
+    const alert = await this.adapter.updateAlert(alertId, { ...changes, updatedAt: this.now() });
+    if (!alert) return null;
+
+    const raised = before && SEVERITY_ORDER.indexOf(alert.severity) > SEVERITY_ORDER.indexOf(before.severity);
+    if (raised && isOpen(alert) && !alert.assignedCounselorId) {
+      await this.adapter.scheduleTimer(
+        timerKey(ESCALATION_TIMER, alert.id),
+        alert.createdAt + ESCALATION_DELAYS_MS[alert.severity]
+      );
+    }
+    await this.publish('alert_updated', { alert });
+    return alert;
+  }
+
+  /**
+   * Give an alert to a counselor. Exactly one caller wins: null means the
+   * alert was already assigned or resolved.
+   */
+  public async assign(alertId: string, counselorId: string, routing?: RoutingDecision): Promise<QueuedAlert | null> {
+    const alert = await this.adapter.claimAlert(alertId, counselorId, this.now());
+    if (!alert) return null;
+
+    await this.adapter.cancelTimer(timerKey(ESCALATION_TIMER, alertId));
+    await this.publish('alert_assigned', { alert, counselorId, routing });
+    return alert;
+  }
+
+  /**
+   * Assign to the best-suited available counselor (see routing.ts). Null
+   * if the alert should keep waiting.
+   */
+  public async autoAssign(alertId: string): Promise<QueuedAlert | null> {
+    const alert = await this.adapter.getAlert(alertId);
+    if (!alert || !isOpen(alert) || alert.assignedCounselorId) return null;
+
+    const decision = await this.route(alert);
+    return decision ? this.assign(alertId, decision.counselorId, decision) : null;
+  }
+
+  /**
+   * Who would get this alert now, and why
+   */
+  public async route(alert: QueuedAlert): Promise<RoutingDecision | null> {
+    const [available, loads] = await Promise.all([this.listAvailableCounselors(), this.getCounselorLoads()]);
+    if (available.length === 0) return null;
+
+    const [profiles, previous] = this.directory
+      ? await Promise.all([
+          this.directory.getProfiles(available),
+          this.directory.getPreviousCounselors(alert.userId),
+        ])
+      : [[], []];
+    const byId = new Map(profiles.map(profile => [profile.counselorId, profile]));
+    const candidates: CounselorCandidate[] = available.map(counselorId => ({
+      profile: byId.get(counselorId) ?? { ...DEFAULT_COUNSELOR_PROFILE, counselorId },
+      load: loads.get(counselorId) ?? 0,
+    }));
+    return routeAlert(alert, candidates, previous, this.now());
+  }
+
+  /**
+   * Hand an alert from one counselor to another. The new counselor takes
+   * it over and the first stays on as supporting counselor until
+   * `endSupport`, so the user is never left alone mid-handoff. Null unless
+   * `fromCounselorId` still had it.
+   */
+  public async transfer(alertId: string, fromCounselorId: string, toCounselorId: string): Promise<QueuedAlert | null> {
+    const alert = await this.adapter.transferAlert(alertId, fromCounselorId, toCounselorId, this.now());
+    if (!alert) return null;
+
+    await this.adapter.cancelTimer(timerKey(ESCALATION_TIMER, alertId));
+    await this.publish('alert_transferred', { alert, counselorId: toCounselorId });
+    return alert;
+  }
+
+  /**
+   * The supporting counselor leaves a handed-off alert
+   */
+  public async endSupport(alertId: string, counselorId: string): Promise<QueuedAlert | null> {
+    const alert = await this.adapter.endSupport(alertId, counselorId, this.now());
+    if (!alert) return null;
+
+    await this.publish('alert_handoff_completed', { alert, counselorId });
+    return alert;
+  }
+
+  /**
+   * Take an alert back from a counselor and restart its escalation clock
+   */
+  public async release(alertId: string, counselorId: string): Promise<QueuedAlert | null> {
+    const now = this.now();
+    const alert = await this.adapter.releaseAlert(alertId, counselorId, now);
+    if (!alert) return null;
+
+    await this.adapter.scheduleTimer(timerKey(ESCALATION_TIMER, alertId), now + ESCALATION_DELAYS_MS[alert.severity]);
+    await this.publish('alert_released', { alert, counselorId });
+    return alert;
+  }
+
+  public async resolve(alertId: string): Promise<QueuedAlert | null> {
+    const now = this.now();
+    const alert = await this.adapter.updateAlert(alertId, { status: 'resolved', resolvedAt: now, updatedAt: now });
+    if (!alert) return null;
+
+    await this.adapter.cancelTimer(timerKey(ESCALATION_TIMER, alertId));
+    await this.adapter.removeAlert(alertId);
+    await this.publish('alert_resolved', { alert });
+    return alert;
+  }
+
+  /**
+   * Raise an unassigned alert's escalation level and set its next deadline.
+   * Null, with no escalation, once a counselor has it.
+   */
+  public async escalate(alertId: string): Promise<QueuedAlert | null> {
+    const key = timerKey(ESCALATION_TIMER, alertId);
+    const current = await this.adapter.getAlert(alertId);
+    if (!current || !isOpen(current)) {
+      await this.adapter.cancelTimer(key);
+      return null;
+    }
+
+    const now = this.now();
+    const alert = await this.adapter.updateAlert(
+      alertId,
+      { status: 'escalated', escalationLevel: current.escalationLevel + 1, updatedAt: now },
+      true
+    );
+    if (!alert) {
+      await this.adapter.cancelTimer(key);
+      return null;
+    }
+
+    if (alert.escalationLevel < MAX_ESCALATION_LEVEL) {
+      await this.adapter.scheduleTimer(key, now + ESCALATION_DELAYS_MS[alert.severity]);
+    } else {
+      await this.adapter.cancelTimer(key);
+    }
+    await this.publish('alert_escalated', { alert });
+    return alert;
+  }
+
+  /**
+   * Try to assign every unassigned alert, most urgent first
+   */
+  public async assignPending(): Promise<QueuedAlert[]> {
+    const assigned: QueuedAlert[] = [];
+    for (const alert of await this.listOpen()) {
+      if (alert.assignedCounselorId) continue;
+      const result = await this.autoAssign(alert.id);
+      if (result) {
+        assigned.push(result);
+      } else if ((await this.listAvailableCounselors()).length === 0) {
+        break;
+      }
+    }
+    return assigned;
+  }
+
+  // Counselors
+
+  /**
+   * Mark a counselor connected to this instance as taking alerts or not.
+   * A counselor who stops has their open alerts handed to someone else.
+   */
+  public async setCounselorAvailability(counselorId: string, available: boolean): Promise<QueuedAlert[]> {
+    if (available) {
+      this.localCounselors.add(counselorId);
+      await this.adapter.setCounselorAvailable(counselorId, this.now() + COUNSELOR_TTL_MS);
+      await this.publish('counselor_available', { counselorId });
+      return this.assignPending();
+    }
+
+    this.localCounselors.delete(counselorId);
+    await this.adapter.setCounselorUnavailable(counselorId);
+    await this.publish('counselor_unavailable', { counselorId });
+
+    const reassigned: QueuedAlert[] = [];
+    for (const alert of await this.listOpen()) {
+      if (alert.assignedCounselorId !== counselorId) continue;
+      await this.release(alert.id, counselorId);
+      const next = await this.autoAssign(alert.id);
+      if (next) reassigned.push(next);
+    }
+    return reassigned;
+  }
+
+  public async listAvailableCounselors(): Promise<string[]> {
+    return this.adapter.listAvailableCounselors(this.now());
+  }
+
+  public async getCounselorLoads(): Promise<Map<string, number>> {
+    const loads = new Map<string, number>();
+    for (const alert of await this.listOpen()) {
+      // A counselor still in a handoff overlap is busy with that chat too
+      for (const counselorId of [alert.assignedCounselorId, alert.supportingCounselorId]) {
+        if (counselorId) {
+          loads.set(counselorId, (loads.get(counselorId) ?? 0) + 1);
+        }
+      }
+    }
+    return loads;
+  }
+
+  // Timers
+
+  public async scheduleTimer(kind: string, id: string, delayMs: number): Promise<void> {
+    await this.adapter.scheduleTimer(timerKey(kind, id), this.now() + delayMs);
+  }
+
+  public async cancelTimer(kind: string, id: string): Promise<void> {
+    await this.adapter.cancelTimer(timerKey(kind, id));
+  }
+
+  /**
+   * Refresh this instance's counselors, then, if this instance leads, fire
+   * due timers, take alerts back from counselors who have dropped out and
+   * assign whatever is waiting
+   */
+  public async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = this.now();
+      for (const counselorId of this.localCounselors) {
+        await this.adapter.setCounselorAvailable(counselorId, now + COUNSELOR_TTL_MS);
+      }
+
+      this.leader = await this.adapter.acquireLease(LEADER_LEASE, this.instanceId, LEADER_LEASE_MS);
+      if (!this.leader) return;
+
+      const retryAt = now + TIMER_RETRY_MS;
+      for (const key of await this.adapter.claimDueTimers(now, retryAt, TIMERS_PER_TICK)) {
+        await this.fire(key, retryAt);
+      }
+      await this.releaseLapsed();
+      // Alerts holding out for a better match are reconsidered as time passes
+      await this.assignPending();
+    } catch (error) {
+      console.error('[CrisisQueue] Tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Put back alerts the queue has lost, restart lost escalation clocks and
+   * reassign alerts held by counselors who are gone. One instance recovers
+   * at a time; the others skip it.
+   */
+  public async recover(restore?: () => Promise<NewQueuedAlert[]>): Promise<RecoveryReport> {
+    const report: RecoveryReport = { restored: 0, rescheduled: 0, released: 0, assigned: 0 };
+    if (!(await this.adapter.acquireLease(RECOVERY_LEASE, this.instanceId, RECOVERY_LEASE_MS))) {
+      return report;
+    }
+
+    try {
+      if (restore) {
+        const known = new Set((await this.adapter.listAlerts()).map(alert => alert.id));
+        for (const alert of await restore()) {
+          if (known.has(alert.id)) continue;
+          await this.enqueue(alert);
+          report.restored++;
+        }
+      }
+
+      const now = this.now();
+      for (const alert of await this.listOpen()) {
+        const key = timerKey(ESCALATION_TIMER, alert.id);
+        if (!alert.assignedCounselorId && !(await this.adapter.hasTimer(key))) {
+          await this.adapter.scheduleTimer(key, now);
+          report.rescheduled++;
+        }
+      }
+
+      report.released = (await this.releaseLapsed()).length;
+      report.assigned = (await this.assignPending()).length;
+    } finally {
+      await this.adapter.releaseLease(RECOVERY_LEASE, this.instanceId);
+    }
+    return report;
+  }
+
+  private async fire(key: string, claimedUntil: number): Promise<void> {
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator);
+    const id = key.slice(separator + 1);
+    const handler = this.timerHandlers.get(kind);
+    if (!handler) {
+      console.warn(`[CrisisQueue] No handler for ${kind} timers on this instance`);
+      return;
+    }
+
+    try {
+      await handler(id);
+      await this.adapter.completeTimer(key, claimedUntil);
+    } catch (error) {
+      console.error(`[CrisisQueue] ${kind} timer for ${id} failed, will retry:`, error);
+    }
+  }
+
+  private async releaseLapsed(): Promise<QueuedAlert[]> {
+    const available = new Set(await this.listAvailableCounselors());
+    const released: QueuedAlert[] = [];
+    for (const alert of await this.listOpen()) {
+      if (!alert.assignedCounselorId || available.has(alert.assignedCounselorId)) continue;
+      const result = await this.release(alert.id, alert.assignedCounselorId);
+      if (result) released.push(result);
+    }
+    return released;
+  }
+
+  private async publish(
+    type: CrisisQueueEventType,
+    details: Pick<CrisisQueueEvent, 'alert' | 'counselorId' | 'routing'>
+  ): Promise<void> {
+    try {
+      await this.adapter.publish({ type, ...details, origin: this.instanceId, at: this.now() });
+    } catch (error) {
+      console.error('[CrisisQueue] Failed to publish event:', error);
+    }
+  }
+}
+
+// Singleton instance
+let crisisQueue: CrisisQueue | null = null;
+
+/**
+ * The queue shared by this process: Redis-backed when REDIS_HOST is set,
+ * otherwise in memory, which only works with a single instance
+ */
+export function getCrisisQueue(): CrisisQueue {
+  if (!crisisQueue) {
+    const useRedis = Boolean(process.env.REDIS_HOST) && process.env.CRISIS_QUEUE_ADAPTER !== 'memory';
+    if (!useRedis && process.env.NODE_ENV === 'production') {
+      console.warn('[CrisisQueue] REDIS_HOST is not set; crisis alerts will not be shared between instances');
+    }
+    crisisQueue = new CrisisQueue(useRedis ? new RedisCrisisQueueAdapter() : new MemoryCrisisQueueAdapter());
+  }
+  return crisisQueue;
+}
@@ -0,0 +1,160 @@
+/**
+ * In-memory Crisis Queue Adapter
+ * Keeps the queue in process for tests and single-instance development.
+ * Several CrisisQueue instances can share one adapter to stand in for
+ * several servers sharing Redis.
+ */
+
+import { AlertChanges, CrisisQueueAdapter, CrisisQueueEvent, QueuedAlert } from './types';
+
+function copy(alert: QueuedAlert): QueuedAlert {
+  return { ...alert, triggers: [...alert.triggers], needs: [...alert.needs] };
+}
+
+export class MemoryCrisisQueueAdapter implements CrisisQueueAdapter {
+  private alerts: Map<string, QueuedAlert> = new Map();
+  private timers: Map<string, number> = new Map();
+  private counselors: Map<string, number> = new Map();
+  private leases: Map<string, { owner: string; expiresAt: number }> = new Map();
+  private handlers: Set<(event: CrisisQueueEvent) => void> = new Set();
+
+  public async saveAlert(alert: QueuedAlert): Promise<void> {
+    this.alerts.set(alert.id, copy(alert));
+  }
+
+  public async getAlert(alertId: string): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    return alert ? copy(alert) : null;
+  }
+
+  public async listAlerts(): Promise<QueuedAlert[]> {
+    return Array.from(this.alerts.values()).map(copy);
+  }
+
+  public async removeAlert(alertId: string): Promise<void> {
+    this.alerts.delete(alertId);
+  }
+
+  public async updateAlert(alertId: string, changes: AlertChanges, unassignedOnly = false): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    if (!alert || (unassignedOnly && alert.assignedCounselorId)) return null;
+    Object.assign(alert, changes);
+    return copy(alert);
+  }
+
+  public async claimAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.status === 'resolved' || alert.assignedCounselorId) {
+      return null;
+    }
+    Object.assign(alert, { status: 'assigned', assignedCounselorId: counselorId, assignedAt: now, updatedAt: now });
+    return copy(alert);
+  }
+
+  public async releaseAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.status === 'resolved' || alert.assignedCounselorId !== counselorId) {
+      return null;
+    }
+    Object.assign(alert, { status: 'pending', assignedCounselorId: null, assignedAt: null, updatedAt: now });
+    return copy(alert);
+  }
+
+  public async transferAlert(
+    alertId: string,
+    fromCounselorId: string,
+    toCounselorId: string,
+    now: number
+  ): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.status === 'resolved' || alert.assignedCounselorId !== fromCounselorId) {
+      return null;
+    }
+    Object.assign(alert, {
+      status: 'assigned',
+      assignedCounselorId: toCounselorId,
+      supportingCounselorId: fromCounselorId,
+      assignedAt: now,
+      updatedAt: now,
+    });
+    return copy(alert);
+  }
+
+  public async endSupport(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.supportingCounselorId !== counselorId) {
+      return null;
+    }
+    Object.assign(alert, { supportingCounselorId: null, updatedAt: now });
+    return copy(alert);
+  }
+
+  public async scheduleTimer(key: string, dueAt: number): Promise<void> {
+    this.timers.set(key, dueAt);
+  }
+
+  public async cancelTimer(key: string): Promise<void> {
+    this.timers.delete(key);
+  }
+
+  public async claimDueTimers(now: number, retryAt: number, limit: number): Promise<string[]> {
+    const due = Array.from(this.timers.entries())
+      .filter(([, dueAt]) => dueAt <= now)
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, limit)
+      .map(([key]) => key);
+    due.forEach(key => this.timers.set(key, retryAt));
+    return due;
+  }
+
+  public async completeTimer(key: string, claimedUntil: number): Promise<void> {
+    if (this.timers.get(key) === claimedUntil) {
+      this.timers.delete(key);
+    }
+  }
+
+  public async hasTimer(key: string): Promise<boolean> {
+    return this.timers.has(key);
+  }
+
+  public async setCounselorAvailable(counselorId: string, expiresAt: number): Promise<void> {
+    this.counselors.set(counselorId, expiresAt);
+  }
+
+  public async setCounselorUnavailable(counselorId: string): Promise<void> {
+    this.counselors.delete(counselorId);
+  }
+
+  public async listAvailableCounselors(now: number): Promise<string[]> {
+    return Array.from(this.counselors.entries())
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([counselorId]) => counselorId);
+  }
+
+  public async acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lease = this.leases.get(name);
+    if (lease && lease.owner !== owner && lease.expiresAt > now) {
+      return false;
+    }
+    this.leases.set(name, { owner, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  public async releaseLease(name: string, owner: string): Promise<void> {
+    if (this.leases.get(name)?.owner === owner) {
+      this.leases.delete(name);
+    }
+  }
+
+  public async publish(event: CrisisQueueEvent): Promise<void> {
+    this.handlers.forEach(handler => handler(event));
+  }
+
+  public async subscribe(handler: (event: CrisisQueueEvent) => void): Promise<() => void> {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Prisma Counselor Directory
+ * Reads counselors' routing profiles and users' counselor history from the
+ * database. Counselors who have not filled in a profile are routed on their
+ * account's preferred language, with a credential inferred from their role.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { UserRole } from '@prisma/client';
+import { DEFAULT_MAX_CONCURRENT_CHATS } from './routing';
+import {
+  COUNSELOR_SPECIALTIES,
+  CounselorDirectory,
+  CounselorRoutingProfile,
+  CounselorSpecialty,
+  CREDENTIAL_LEVELS,
+  CredentialLevel,
+} from './types';
+
+// Profiles change rarely; routing runs on every tick
+const PROFILE_CACHE_TTL_MS = 60 * 1000;
+
+// How far back to look for counselors who have helped a user
+const HISTORY_LIMIT = 20;
+
+export function isCounselorSpecialty(value: string): value is CounselorSpecialty {
+  return (COUNSELOR_SPECIALTIES as readonly string[]).includes(value);
+}
+
+export function isCredentialLevel(value: string): value is CredentialLevel {
+  return (CREDENTIAL_LEVELS as readonly string[]).includes(value);
+}
+
+function credentialForRole(role: UserRole): CredentialLevel {
+  return role === UserRole.THERAPIST ? 'licensed' : 'counselor';
+}
+
+export class PrismaCounselorDirectory implements CounselorDirectory {
+  private cache: Map<string, { profile: CounselorRoutingProfile; expiresAt: number }> = new Map();
+
+  public async getProfiles(counselorIds: string[]): Promise<CounselorRoutingProfile[]> {
+    const now = Date.now();
+    const missing = counselorIds.filter(id => (this.cache.get(id)?.expiresAt ?? 0) <= now);
+
+    if (missing.length > 0) {
+      const [profiles, users] = await Promise.all([
+        prisma.crisisCounselorProfile.findMany({ where: { userId: { in: missing } } }),
+        prisma.user.findMany({
+          where: { id: { in: missing } },
+          select: { id: true, role: true, preferredLanguage: true },
+        }),
+      ]);
+      const byUser = new Map(profiles.map(profile => [profile.userId, profile]));
+
+      for (const user of users) {
+        const stored = byUser.get(user.id);
+        const profile: CounselorRoutingProfile = stored
+          ? {
+              counselorId: user.id,
+              languages: stored.languages.length > 0 ? stored.languages : [user.preferredLanguage],
+              specialties: stored.specialties.filter(isCounselorSpecialty),
+              credentialLevel: isCredentialLevel(stored.credentialLevel)
+                ? stored.credentialLevel
+                : credentialForRole(user.role),
+              maxConcurrentChats: stored.maxConcurrentChats,
+            }
+          : {
+              counselorId: user.id,
+              languages: [user.preferredLanguage],
+              specialties: [],
+              credentialLevel: credentialForRole(user.role),
+              maxConcurrentChats: DEFAULT_MAX_CONCURRENT_CHATS,
+            };
+        this.cache.set(user.id, { profile, expiresAt: now + PROFILE_CACHE_TTL_MS });
+      }
+    }
+
+    return counselorIds
+      .map(id => this.cache.get(id)?.profile)
+      .filter((profile): profile is CounselorRoutingProfile => profile !== undefined);
+  }
+
+  public async getPreviousCounselors(userId: string): Promise<string[]> {
+    const alerts = await prisma.safetyAlert.findMany({
+      where: { userId, handledBy: { not: null } },
+      orderBy: { detectedAt: 'desc' },
+      take: HISTORY_LIMIT,
+      select: { handledBy: true },
+    });
+    return Array.from(new Set(alerts.map(alert => alert.handledBy!)));
+  }
+
+  /**
+   * Drop a cached profile so the next routing decision sees an edit
+   */
+  public invalidate(counselorId: string): void {
+    this.cache.delete(counselorId);
+  }
+}
+
+let counselorDirectory: PrismaCounselorDirectory | null = null;
+
+export function getCounselorDirectory(): PrismaCounselorDirectory {
+  if (!counselorDirectory) {
+    counselorDirectory = new PrismaCounselorDirectory();
+  }
+  return counselorDirectory;
+}
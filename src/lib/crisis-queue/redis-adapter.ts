@@ -0,0 +1,279 @@
+/**
+ * Redis Crisis Queue Adapter
+ * Keeps the crisis queue in Redis so every server instance behind the load
+ * balancer sees the same alerts, counselors and escalation deadlines.
+ * Claims, releases, timer hand-outs and leases are Lua scripts, which Redis
+ * runs one at a time, so a race between instances has a single winner.
+ */
+
+import type Redis from 'ioredis';
+import { getRedisClient, getRedisSubscriber } from '@/lib/cache/redis';
+import { AlertChanges, CrisisQueueAdapter, CrisisQueueEvent, QueuedAlert } from './types';
+
+const KEYS = {
+  ALERTS: 'crisis:queue:alerts',
+  TIMERS: 'crisis:queue:timers',
+  COUNSELORS: 'crisis:queue:counselors',
+  LEASE_PREFIX: 'crisis:queue:lease:',
+  CHANNEL: 'crisis:queue:events',
+} as const;
+
+const UPDATE_ALERT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return false end
+local alert = cjson.decode(raw)
+if ARGV[3] == '1' and alert.assignedCounselorId and alert.assignedCounselorId ~= cjson.null then
+  return false
+end
+for field, value in pairs(cjson.decode(ARGV[2])) do
+  alert[field] = value
+end
+local updated = cjson.encode(alert)
+redis.call('HSET', KEYS[1], ARGV[1], updated)
+return updated
+`;
+
+const CLAIM_ALERT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return false end
+local alert = cjson.decode(raw)
+if alert.status == 'resolved' or (alert.assignedCounselorId and alert.assignedCounselorId ~= cjson.null) then
+  return false
+end
+alert.status = 'assigned'
+alert.assignedCounselorId = ARGV[2]
+alert.assignedAt = tonumber(ARGV[3])
+alert.updatedAt = tonumber(ARGV[3])
+local updated = cjson.encode(alert)
+redis.call('HSET', KEYS[1], ARGV[1], updated)
+return updated
+`;
+
+const RELEASE_ALERT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return false end
+local alert = cjson.decode(raw)
+if alert.status == 'resolved' or alert.assignedCounselorId ~= ARGV[2] then
+  return false
+end
+alert.status = 'pending'
+alert.assignedCounselorId = cjson.null
+alert.assignedAt = cjson.null
+alert.updatedAt = tonumber(ARGV[3])
+local updated = cjson.encode(alert)
+redis.call('HSET', KEYS[1], ARGV[1], updated)
+return updated
+`;
+
+const TRANSFER_ALERT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return false end
+local alert = cjson.decode(raw)
+if alert.status == 'resolved' or alert.assignedCounselorId ~= ARGV[2] then
+  return false
+end
+alert.status = 'assigned'
+alert.assignedCounselorId = ARGV[3]
+alert.supportingCounselorId = ARGV[2]
+alert.assignedAt = tonumber(ARGV[4])
+alert.updatedAt = tonumber(ARGV[4])
+local updated = cjson.encode(alert)
+redis.call('HSET', KEYS[1], ARGV[1], updated)
+return updated
+`;
+
+const END_SUPPORT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+if not raw then return false end
+local alert = cjson.decode(raw)
+if alert.supportingCounselorId ~= ARGV[2] then
+  return false
+end
+alert.supportingCounselorId = cjson.null
+alert.updatedAt = tonumber(ARGV[3])
+local updated = cjson.encode(alert)
+redis.call('HSET', KEYS[1], ARGV[1], updated)
+return updated
+`;
+
+const CLAIM_DUE_TIMERS = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[3]))
+for _, key in ipairs(due) do
+  redis.call('ZADD', KEYS[1], ARGV[2], key)
+end
+return due
+`;
+
+const COMPLETE_TIMER = `
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) == ARGV[2] then
+  return redis.call('ZREM', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+const ACQUIRE_LEASE = `
+local owner = redis.call('GET', KEYS[1])
+if owner == false or owner == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+const RELEASE_LEASE = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// cjson writes an empty array as an empty object
+function parseAlert(raw: string): QueuedAlert {
+  const alert = JSON.parse(raw) as QueuedAlert;
+  return {
+    ...alert,
+    triggers: Array.isArray(alert.triggers) ? alert.triggers : [],
+    needs: Array.isArray(alert.needs) ? alert.needs : [],
+    supportingCounselorId: alert.supportingCounselorId ?? null,
+  };
+}
+
+export class RedisCrisisQueueAdapter implements CrisisQueueAdapter {
+  private client: Redis | null = null;
+
+  private async redis(): Promise<Redis> {
+    if (!this.client) {
+      this.client = await getRedisClient();
+    }
+    return this.client;
+  }
+
+  public async saveAlert(alert: QueuedAlert): Promise<void> {
+    await (await this.redis()).hset(KEYS.ALERTS, alert.id, JSON.stringify(alert));
+  }
+
+  public async getAlert(alertId: string): Promise<QueuedAlert | null> {
+    const raw = await (await this.redis()).hget(KEYS.ALERTS, alertId);
+    return raw ? parseAlert(raw) : null;
+  }
+
+  public async listAlerts(): Promise<QueuedAlert[]> {
+    const all = await (await this.redis()).hgetall(KEYS.ALERTS);
+    return Object.values(all).map(parseAlert);
+  }
+
+  public async removeAlert(alertId: string): Promise<void> {
+    await (await this.redis()).hdel(KEYS.ALERTS, alertId);
+  }
+
+  public async updateAlert(alertId: string, changes: AlertChanges, unassignedOnly = false): Promise<QueuedAlert | null> {
+    const updated = await (await this.redis()).eval(
+      UPDATE_ALERT,
+      1,
+      KEYS.ALERTS,
+      alertId,
+      JSON.stringify(changes),
+      unassignedOnly ? '1' : '0'
+    );
+    return typeof updated === 'string' ? parseAlert(updated) : null;
+  }
+
+  public async claimAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const updated = await (await this.redis()).eval(CLAIM_ALERT, 1, KEYS.ALERTS, alertId, counselorId, now);
+    return typeof updated === 'string' ? parseAlert(updated) : null;
+  }
+
+  public async releaseAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const updated = await (await this.redis()).eval(RELEASE_ALERT, 1, KEYS.ALERTS, alertId, counselorId, now);
+    return typeof updated === 'string' ? parseAlert(updated) : null;
+  }
+
+  public async transferAlert(
+    alertId: string,
+    fromCounselorId: string,
+    toCounselorId: string,
+    now: number
+  ): Promise<QueuedAlert | null> {
+    const updated = await (await this.redis()).eval(
+      TRANSFER_ALERT,
+      1,
+      KEYS.ALERTS,
+      alertId,
+      fromCounselorId,
+      toCounselorId,
+      now
+    );
+    return typeof updated === 'string' ? parseAlert(updated) : null;
+  }
+
+  public async endSupport(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null> {
+    const updated = await (await this.redis()).eval(END_SUPPORT, 1, KEYS.ALERTS, alertId, counselorId, now);
+    return typeof updated === 'string' ? parseAlert(updated) : null;
+  }
+
+  public async scheduleTimer(key: string, dueAt: number): Promise<void> {
+    await (await this.redis()).zadd(KEYS.TIMERS, dueAt, key);
+  }
+
+  public async cancelTimer(key: string): Promise<void> {
+    await (await this.redis()).zrem(KEYS.TIMERS, key);
+  }
+
+  public async claimDueTimers(now: number, retryAt: number, limit: number): Promise<string[]> {
+    const due = await (await this.redis()).eval(CLAIM_DUE_TIMERS, 1, KEYS.TIMERS, now, retryAt, limit);
+    return Array.isArray(due) ? (due as string[]) : [];
+  }
+
+  public async completeTimer(key: string, claimedUntil: number): Promise<void> {
+    await (await this.redis()).eval(COMPLETE_TIMER, 1, KEYS.TIMERS, key, String(claimedUntil));
+  }
+
+  public async hasTimer(key: string): Promise<boolean> {
+    return (await (await this.redis()).zscore(KEYS.TIMERS, key)) !== null;
+  }
+
+  public async setCounselorAvailable(counselorId: string, expiresAt: number): Promise<void> {
+    await (await this.redis()).zadd(KEYS.COUNSELORS, expiresAt, counselorId);
+  }
+
+  public async setCounselorUnavailable(counselorId: string): Promise<void> {
+    await (await this.redis()).zrem(KEYS.COUNSELORS, counselorId);
+  }
+
+  public async listAvailableCounselors(now: number): Promise<string[]> {
+    const client = await this.redis();
+    await client.zremrangebyscore(KEYS.COUNSELORS, '-inf', now);
+    return client.zrangebyscore(KEYS.COUNSELORS, `(${now}`, '+inf');
+  }
+
+  public async acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const acquired = await (await this.redis()).eval(ACQUIRE_LEASE, 1, `${KEYS.LEASE_PREFIX}${name}`, owner, ttlMs);
+    return acquired === 1;
+  }
+
+  public async releaseLease(name: string, owner: string): Promise<void> {
+    await (await this.redis()).eval(RELEASE_LEASE, 1, `${KEYS.LEASE_PREFIX}${name}`, owner);
+  }
+
+  public async publish(event: CrisisQueueEvent): Promise<void> {
+    await (await this.redis()).publish(KEYS.CHANNEL, JSON.stringify(event));
+  }
+
+  public async subscribe(handler: (event: CrisisQueueEvent) => void): Promise<() => void> {
+    const subscriber = await getRedisSubscriber();
+    const listener = (channel: string, message: string) => {
+      if (channel !== KEYS.CHANNEL) return;
+      try {
+        const event = JSON.parse(message) as CrisisQueueEvent;
+        handler(event.alert ? { ...event, alert: parseAlert(JSON.stringify(event.alert)) } : event);
+      } catch (error) {
+        console.error('[CrisisQueue] Failed to handle event:', error);
+      }
+    };
+    subscriber.on('message', listener);
+    await subscriber.subscribe(KEYS.CHANNEL);
+    return () => {
+      subscriber.off('message', listener);
+    };
+  }
+}
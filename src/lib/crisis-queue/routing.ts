@@ -0,0 +1,167 @@
+/**
+ * Crisis Counselor Routing
+ * Chooses which available counselor takes an alert. A counselor must have
+ * room for another chat; beyond that the alert goes to someone who speaks
+ * the user's language and holds the credential its severity calls for.
+ * If nobody like that is free, the alert waits a short, severity-dependent
+ * time before those two requirements are waived, so a user is never left
+ * without anyone. Among the counselors left, matching specialties, having
+ * helped this user before and a lighter load decide.
+ */
+
+import {
+  CounselorRoutingProfile,
+  CounselorSpecialty,
+  CREDENTIAL_LEVELS,
+  CredentialLevel,
+  QueuedAlert,
+  QueuedAlertSeverity,
+  RelaxedRequirement,
+  RoutingDecision,
+} from './types';
+
+export const DEFAULT_MAX_CONCURRENT_CHATS = 3;
+
+export const DEFAULT_COUNSELOR_PROFILE: Omit<CounselorRoutingProfile, 'counselorId'> = {
+  languages: ['en'],
+  specialties: [],
+  credentialLevel: 'counselor',
+  maxConcurrentChats: DEFAULT_MAX_CONCURRENT_CHATS,
+};
+
+export const REQUIRED_CREDENTIAL: Record<QueuedAlertSeverity, CredentialLevel> = {
+  low: 'peer',
+  medium: 'peer',
+  high: 'counselor',
+  critical: 'licensed',
+  emergency: 'licensed',
+};
+
+// How long an alert holds out for a counselor who speaks the user's language
+// and holds the right credential before taking whoever is free
+export const MATCH_WAIT_MS: Record<QueuedAlertSeverity, number> = {
+  emergency: 0,
+  critical: 30 * 1000,
+  high: 2 * 60 * 1000,
+  medium: 5 * 60 * 1000,
+  low: 10 * 60 * 1000,
+};
+
+const SPECIALTY_WEIGHT = 3;
+const CONTINUITY_WEIGHT = 2;
+const LOAD_WEIGHT = 2;
+
+const CRISIS_TYPE_SPECIALTIES: Record<string, CounselorSpecialty> = {
+  suicidal_ideation: 'suicide_prevention',
+  suicide_plan: 'suicide_prevention',
+  suicide_intent: 'suicide_prevention',
+  self_harm: 'self_harm',
+  substance_crisis: 'substance_use',
+  substance_abuse: 'substance_use',
+  domestic_violence: 'domestic_violence',
+  psychosis: 'psychosis',
+  psychotic_episode: 'psychosis',
+  child_abuse: 'youth',
+};
+
+export interface CounselorCandidate {
+  profile: CounselorRoutingProfile;
+  // Open alerts the counselor already has
+  load: number;
+}
+
+/**
+ * The specialty that suits a crisis type, from either the risk engine's or
+ * the socket events' naming
+ */
+export function specialtyForCrisisType(type: string): CounselorSpecialty | null {
+  return CRISIS_TYPE_SPECIALTIES[type] ?? null;
+}
+
+export function normalizeLanguage(language: string | null | undefined): string | null {
+  return language ? language.toLowerCase().split(/[-_]/)[0] || null : null;
+}
+
+export function meetsCredential(level: CredentialLevel, required: CredentialLevel): boolean {
+  return CREDENTIAL_LEVELS.indexOf(level) >= CREDENTIAL_LEVELS.indexOf(required);
+}
+
+interface Assessment {
+  candidate: CounselorCandidate;
+  languageMatch: boolean;
+  credentialMet: boolean;
+}
+
+/**
+ * Pick the counselor for an alert, or null if it should wait: everyone is
+ * at capacity, or nobody suitable is free and the wait is not over yet
+ */
+export function routeAlert(
+  alert: Pick<QueuedAlert, 'severity' | 'language' | 'needs' | 'createdAt'>,
+  candidates: CounselorCandidate[],
+  previousCounselorIds: string[],
+  now: number
+): RoutingDecision | null {
+  const language = normalizeLanguage(alert.language);
+  const required = REQUIRED_CREDENTIAL[alert.severity];
+  const assessed: Assessment[] = candidates
+    .filter(candidate => candidate.load < candidate.profile.maxConcurrentChats)
+    .map(candidate => ({
+      candidate,
+      languageMatch: !language || candidate.profile.languages.some(spoken => normalizeLanguage(spoken) === language),
+      credentialMet: meetsCredential(candidate.profile.credentialLevel, required),
+    }));
+  if (assessed.length === 0) return null;
+
+  let pool = assessed.filter(a => a.languageMatch && a.credentialMet);
+  let relaxed: RelaxedRequirement[] = [];
+  if (pool.length === 0) {
+    if (now - alert.createdAt < MATCH_WAIT_MS[alert.severity]) return null;
+
+    // Talking to the user matters more than the exact credential
+    const tiers: [Assessment[], RelaxedRequirement[]][] = [
+      [assessed.filter(a => a.languageMatch), ['credential']],
+      [assessed.filter(a => a.credentialMet), ['language']],
+      [assessed, ['language', 'credential']],
+    ];
+    [pool, relaxed] = tiers.find(([tier]) => tier.length > 0)!;
+  }
+
+  const ranked = pool
+    .map(assessment => score(assessment, alert.needs, previousCounselorIds))
+    .sort((a, b) => b.score - a.score || a.counselorId.localeCompare(b.counselorId));
+  const best = ranked[0]!;
+
+  const reasons = [...best.reasons];
+  if (relaxed.includes('language')) reasons.push(`No counselor who speaks ${language} was free`);
+  if (relaxed.includes('credential')) reasons.push(`No ${required} counselor was free`);
+  return { ...best, relaxed, reasons };
+}
+
+function score(
+  { candidate, languageMatch, credentialMet }: Assessment,
+  needs: CounselorSpecialty[],
+  previousCounselorIds: string[]
+): Omit<RoutingDecision, 'relaxed'> {
+  const { profile, load } = candidate;
+  const matchedSpecialties = needs.filter(need => profile.specialties.includes(need));
+  const continuity = previousCounselorIds.includes(profile.counselorId);
+
+  const reasons: string[] = [];
+  if (matchedSpecialties.length > 0) reasons.push(`Specializes in ${matchedSpecialties.join(', ')}`);
+  if (continuity) reasons.push('Has helped this user before');
+  reasons.push(`${load} of ${profile.maxConcurrentChats} chats open`);
+
+  return {
+    counselorId: profile.counselorId,
+    score:
+      matchedSpecialties.length * SPECIALTY_WEIGHT +
+      (continuity ? CONTINUITY_WEIGHT : 0) -
+      (load / profile.maxConcurrentChats) * LOAD_WEIGHT,
+    languageMatch,
+    credentialMet,
+    matchedSpecialties,
+    continuity,
+    reasons,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Crisis Queue Types
+ * The shared record of open crisis alerts, counselor availability and
+ * escalation deadlines that every server instance reads and writes, and the
+ * storage adapter it lives behind. Times are epoch milliseconds so records
+ * compare the same way in Redis scripts as in code.
+ */
+
+export type QueuedAlertStatus = 'pending' | 'assigned' | 'escalated' | 'resolved';
+
+export type QueuedAlertSeverity = 'low' | 'medium' | 'high' | 'critical' | 'emergency';
+
+export interface QueuedAlert {
+  id: string;
+  userId: string;
+  // What kind of crisis, in the raising system's own terms
+  type: string;
+  severity: QueuedAlertSeverity;
+  status: QueuedAlertStatus;
+  assignedCounselorId: string | null;
+  // Counselor handing the conversation over, still present until the handoff completes
+  supportingCounselorId: string | null;
+  escalationLevel: number;
+  // Which part of the app raised the alert, e.g. 'websocket' or 'alert_system'
+  source: string;
+  message: string;
+  triggers: string[];
+  // Language the user is writing in, for routing; null if unknown
+  language: string | null;
+  // Counselor specialties that would suit this user
+  needs: CounselorSpecialty[];
+  createdAt: number;
+  updatedAt: number;
+  assignedAt: number | null;
+  resolvedAt: number | null;
+}
+
+// Mirrors the crisis types, plus the populations some counselors train for
+export type CounselorSpecialty =
+  | 'suicide_prevention'
+  | 'self_harm'
+  | 'substance_use'
+  | 'domestic_violence'
+  | 'psychosis'
+  | 'youth'
+  | 'lgbtq'
+  | 'veterans';
+
+export const COUNSELOR_SPECIALTIES: CounselorSpecialty[] = [
+  'suicide_prevention',
+  'self_harm',
+  'substance_use',
+  'domestic_violence',
+  'psychosis',
+  'youth',
+  'lgbtq',
+  'veterans',
+];
+
+export type CredentialLevel = 'peer' | 'counselor' | 'licensed';
+
+export const CREDENTIAL_LEVELS: CredentialLevel[] = ['peer', 'counselor', 'licensed'];
+
+export interface CounselorRoutingProfile {
+  counselorId: string;
+  languages: string[];
+  specialties: CounselorSpecialty[];
+  credentialLevel: CredentialLevel;
+  maxConcurrentChats: number;
+}
+
+// A requirement waived because no counselor meeting it was free in time
+export type RelaxedRequirement = 'language' | 'credential';
+
+export interface RoutingDecision {
+  counselorId: string;
+  score: number;
+  languageMatch: boolean;
+  credentialMet: boolean;
+  matchedSpecialties: CounselorSpecialty[];
+  continuity: boolean;
+  relaxed: RelaxedRequirement[];
+  reasons: string[];
+}
+
+/**
+ * Where the queue looks up who counselors are. Without one, every
+ * counselor gets the default profile.
+ */
+export interface CounselorDirectory {
+  getProfiles(counselorIds: string[]): Promise<CounselorRoutingProfile[]>;
+  // Counselors who have helped this user before, most recent first
+  getPreviousCounselors(userId: string): Promise<string[]>;
+}
+
+export type AlertChanges = Partial<
+  Pick<QueuedAlert, 'severity' | 'status' | 'escalationLevel' | 'message' | 'triggers' | 'updatedAt' | 'resolvedAt'>
+>;
+
+export type CrisisQueueEventType =
+  | 'alert_created'
+  | 'alert_updated'
+  | 'alert_assigned'
+  | 'alert_released'
+  | 'alert_escalated'
+  | 'alert_resolved'
+  | 'alert_transferred'
+  | 'alert_handoff_completed'
+  | 'counselor_available'
+  | 'counselor_unavailable';
+
+export interface CrisisQueueEvent {
+  type: CrisisQueueEventType;
+  alert?: QueuedAlert;
+  counselorId?: string;
+  // Why the counselor was chosen, on automatic assignments
+  routing?: RoutingDecision;
+  // Instance that made the change
+  origin: string;
+  at: number;
+}
+
+/**
+ * Storage behind the crisis queue. Every method that decides who gets an
+ * alert or a timer is a single atomic step in the store, so two instances
+ * racing for the same alert cannot both win.
+ */
+export interface CrisisQueueAdapter {
+  saveAlert(alert: QueuedAlert): Promise<void>;
+  getAlert(alertId: string): Promise<QueuedAlert | null>;
+  listAlerts(): Promise<QueuedAlert[]>;
+  removeAlert(alertId: string): Promise<void>;
+  // Merge changes into the stored alert without touching its assignment.
+  // With `unassignedOnly`, null if a counselor has it by then.
+  updateAlert(alertId: string, changes: AlertChanges, unassignedOnly?: boolean): Promise<QueuedAlert | null>;
+  // Assign an unassigned, unresolved alert; null if someone else got there first
+  claimAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null>;
+  // Put an alert back in the queue; null unless it was assigned to this counselor
+  releaseAlert(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null>;
+  // Move an alert from one counselor to another, who becomes the assignee while
+  // the first stays on as supporting counselor; null unless `from` had it
+  transferAlert(alertId: string, fromCounselorId: string, toCounselorId: string, now: number): Promise<QueuedAlert | null>;
+  // The supporting counselor leaves; null unless it was this counselor
+  endSupport(alertId: string, counselorId: string, now: number): Promise<QueuedAlert | null>;
+
+  scheduleTimer(key: string, dueAt: number): Promise<void>;
+  cancelTimer(key: string): Promise<void>;
+  // Hand out timers due by `now`, pushing each back to `retryAt` so it fires
+  // again if whoever took it never completes it
+  claimDueTimers(now: number, retryAt: number, limit: number): Promise<string[]>;
+  // Drop a timer once handled, unless the handler set a new deadline for it
+  completeTimer(key: string, claimedUntil: number): Promise<void>;
+  hasTimer(key: string): Promise<boolean>;
+
+  // Availability lapses at `expiresAt` unless it is refreshed
+  setCounselorAvailable(counselorId: string, expiresAt: number): Promise<void>;
+  setCounselorUnavailable(counselorId: string): Promise<void>;
+  listAvailableCounselors(now: number): Promise<string[]>;
+
+  // Take or renew a lease; false while another owner holds it
+  acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLease(name: string, owner: string): Promise<void>;
+
+  publish(event: CrisisQueueEvent): Promise<void>;
+  subscribe(handler: (event: CrisisQueueEvent) => void): Promise<() => void>;
+}
+
+export type TimerHandler = (id: string) => Promise<void>;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals'
+import { analyzeClauses, ownStatements, subjectAt } from '../clause-analysis'
+
+describe('analyzeClauses', () => {
+  it('should split reported speech from who said it', () => {
+    const [frame, reported] = analyzeClauses('My friend said she is suicidal', 'en')
+
+    expect(frame).toMatchObject({ text: 'My friend said', subject: 'third_person', reportedSpeech: false })
+    expect(reported).toMatchObject({
+      text: 'she is suicidal',
+      subject: 'third_person',
+      reportedSpeech: true,
+      speaker: { person: 'third_person', text: 'My friend' },
+    })
+  })
+
+  it('should carry the speaker across a colon', () => {
+    const clauses = analyzeClauses('Mon ami m\'a dit: je veux mourir', 'fr')
+
+    expect(clauses[1]).toMatchObject({ text: 'je veux mourir', subject: 'first_person', reportedSpeech: true })
+    expect(clauses[1]?.speaker?.text).toBe('Mon ami')
+  })
+
+  it('should find tense and long-past markers', () => {
+    expect(analyzeClauses('I used to want to die', 'en')[0]).toMatchObject({ tense: 'past', pastMarker: 'used to' })
+    expect(analyzeClauses('I used to feel like this and I still do', 'en')[0]).toMatchObject({ tense: 'past', pastMarker: null })
+    expect(analyzeClauses('Vor vielen Jahren wollte ich sterben', 'de')[0]?.pastMarker).toBe('Vor vielen Jahren')
+    expect(analyzeClauses('Mañana voy a hablar con alguien', 'es')[0]?.tense).toBe('future')
+    expect(analyzeClauses('Eu estou cansado', 'pt')[0]?.tense).toBe('present')
+  })
+
+  it('should flag clauses that open with a conditional', () => {
+    expect(analyzeClauses('If I ever felt that way I would call someone', 'en')[0]?.hypothetical).toBe(true)
+    expect(analyzeClauses('Wenn ich traurig bin', 'de')[0]?.hypothetical).toBe(true)
+    expect(analyzeClauses('I feel that way', 'en')[0]?.hypothetical).toBe(false)
+  })
+
+  it('should scope negation to the words after the cue', () => {
+    const [clause] = analyzeClauses('I would never hurt myself', 'en')
+
+    expect(clause?.negations).toEqual([{ cue: 'never', start: 14, end: 25 }])
+    expect(analyzeClauses("I don't know why I feel this way", 'en')[0]?.negations).toEqual([])
+  })
+
+  it('should end a negation where a new statement starts', () => {
+    expect(analyzeClauses('I have no friends and I want to die', 'en')[0]?.negations).toEqual([{ cue: 'no', start: 10, end: 17 }])
+    expect(analyzeClauses('No tengo amigos y quiero morir', 'es')[0]?.negations).toEqual([{ cue: 'no', start: 3, end: 15 }])
+  })
+
+  it('should attribute a phrase to the nearest subject before it', () => {
+    const [clause] = analyzeClauses('My brother makes me want to give up', 'en')
+
+    expect(clause?.subject).toBe('third_person')
+    expect(subjectAt(clause!, 20, 35)?.person).toBe('first_person')
+  })
+})
+
+describe('ownStatements', () => {
+  it('should keep only what the writer says about themselves now', () => {
+    const text = 'My friend said she feels hopeless. I used to feel hopeless. I would never give up, but I feel alone'
+
+    expect(ownStatements(text, analyzeClauses(text, 'en'))).toBe('I would never        \nI feel alone')
+  })
+})
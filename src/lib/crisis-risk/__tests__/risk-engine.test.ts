@@ -0,0 +1,166 @@
+import { describe, expect, it } from '@jest/globals'
+import { assessCrisisRisk, isAtLeast } from '../risk-engine'
+
+describe('assessCrisisRisk', () => {
+  it('should rate explicit suicidal ideation as critical with an explanation', () => {
+    const result = assessCrisisRisk('I want to kill myself')
+
+    expect(result.severity).toBe('critical')
+    expect(result.types).toEqual(['suicidal_ideation'])
+    expect(result.immediateRisk).toBe(true)
+    expect(result.indicators[0]).toMatchObject({ ruleId: 'en.si.kill_myself', matchedText: 'kill myself', start: 10, end: 21 })
+    expect(result.explanation[0]).toBe('Suicidal ideation (critical): "kill myself"')
+  })
+
+  it('should detect plans and intent alongside ideation', () => {
+    const result = assessCrisisRisk("I'm going to kill myself tonight, I have the pills saved up")
+
+    expect(result.types).toEqual(expect.arrayContaining(['suicide_intent', 'suicidal_ideation', 'suicide_plan']))
+    expect(result.score).toBe(1)
+  })
+
+  it('should catch slang, hypotheticals and overdose plans', () => {
+    expect(assessCrisisRisk('i wanna die').types).toEqual(['suicidal_ideation'])
+    expect(assessCrisisRisk('Nobody would care if I killed myself').severity).toBe('critical')
+    expect(assessCrisisRisk('I have pills and I am going to take them all tonight').types).toEqual(['suicide_plan'])
+    expect(assessCrisisRisk('me quiero matar')).toMatchObject({ severity: 'critical', language: 'es' })
+    expect(assessCrisisRisk('I almost killed myself laughing').severity).toBe('none')
+    expect(assessCrisisRisk('I will take all my meds as prescribed').severity).toBe('none')
+  })
+
+  it('should not count negated statements', () => {
+    const result = assessCrisisRisk("I would never kill myself, I just need to vent about my boss")
+
+    expect(result.severity).toBe('none')
+    expect(result.suppressed).toEqual([
+      expect.objectContaining({ ruleId: 'en.si.kill_myself', suppressed: 'negated', suppressedBy: 'never' })
+    ])
+    expect(result.explanation).toEqual(['Not counted, negated by "never": Suicidal ideation (critical): "kill myself"'])
+  })
+
+  it('should keep risk phrases that follow an unrelated negation', () => {
+    expect(assessCrisisRisk("I don't know why I want to die").severity).toBe('critical')
+    expect(assessCrisisRisk('I have no friends and I want to die').severity).toBe('critical')
+    expect(assessCrisisRisk("I didn't sleep and I want to die").severity).toBe('critical')
+    expect(assessCrisisRisk('No one cares I want to die').severity).toBe('critical')
+    expect(assessCrisisRisk('Never would I kill myself').severity).toBe('none')
+    expect(assessCrisisRisk("I'm not okay, I want to die").severity).toBe('critical')
+    expect(assessCrisisRisk("I don't want to be alive anymore").severity).toBe('high')
+    expect(assessCrisisRisk('I no longer want to live').severity).toBe('high')
+    expect(assessCrisisRisk('I no longer want to be here').severity).toBe('high')
+  })
+
+  it('should not count song lyrics and quotations', () => {
+    expect(assessCrisisRisk('Stuck in my head all day, song lyrics: I want to die young').severity).toBe('none')
+
+    const quoted = assessCrisisRisk('My teacher read the line "I want to end my life" from the play')
+    expect(quoted.severity).toBe('none')
+    expect(quoted.suppressed[0]).toMatchObject({ suppressed: 'quoted', suppressedBy: 'quotation marks' })
+  })
+
+  it('should count quotes not credited to anyone else', () => {
+    expect(assessCrisisRisk('I keep thinking "I want to kill myself"').severity).toBe('critical')
+    expect(assessCrisisRisk('I told my therapist "I want to die" and meant it').severity).toBe('critical')
+    expect(assessCrisisRisk('"I want to die," she sang').severity).toBe('none')
+  })
+
+  it('should still count risk when a song is only mentioned', () => {
+    expect(assessCrisisRisk('This song makes me want to die').severity).toBe('critical')
+  })
+
+  it('should ignore common idioms', () => {
+    for (const text of ['This traffic is killing me', 'That comedian killed it', 'I could die of embarrassment', 'My deadline will be the death of me']) {
+      expect(assessCrisisRisk(text).severity).toBe('none')
+    }
+  })
+
+  it('should match text written without apostrophes or capitals', () => {
+    const result = assessCrisisRisk('i cant go on anymore')
+    expect(result.types).toEqual(['suicidal_ideation'])
+  })
+
+  it('should not count risk that belongs to someone else', () => {
+    const reported = assessCrisisRisk('My friend told me: I want to die')
+    expect(reported.severity).toBe('none')
+    expect(reported.explanation).toEqual(['Not counted, about someone else ("My friend"): Suicidal ideation (critical): "want to die"'])
+
+    expect(assessCrisisRisk('My sister is suicidal and I do not know how to help').severity).toBe('none')
+    expect(assessCrisisRisk('Mi amiga me dijo: quiero morir', { language: 'es' }).severity).toBe('none')
+    expect(assessCrisisRisk('Meine Freundin sagte: ich will sterben', { language: 'de' }).severity).toBe('none')
+  })
+
+  it('should keep the writer as the subject when others are mentioned first', () => {
+    expect(assessCrisisRisk('My friend makes me want to die').severity).toBe('critical')
+    expect(assessCrisisRisk('I told my therapist I want to kill myself').severity).toBe('critical')
+  })
+
+  it('should not count risk set well in the past unless it is back', () => {
+    const past = assessCrisisRisk('I used to want to die')
+    expect(past.severity).toBe('none')
+    expect(past.suppressed[0]).toMatchObject({ suppressed: 'past', suppressedBy: 'used to' })
+
+    expect(assessCrisisRisk('Há muitos anos eu queria me matar', { language: 'pt' }).severity).toBe('none')
+    expect(assessCrisisRisk('I used to want to die and lately I feel that way again').severity).toBe('critical')
+    expect(assessCrisisRisk('I was thinking about killing myself last night').severity).toBe('critical')
+  })
+
+  it('should always count abuse reported by the writer', () => {
+    expect(assessCrisisRisk('My husband hits me').types).toEqual(['domestic_violence'])
+  })
+
+  it('should score other languages with their own lexicon and negation words', () => {
+    expect(assessCrisisRisk('Quiero morir, ya no puedo más', { language: 'es' }).severity).toBe('critical')
+    expect(assessCrisisRisk('No estoy pensando en hacerme daño', { language: 'es' }).severity).toBe('none')
+    expect(assessCrisisRisk('Je ne pense pas du tout à me faire du mal', { language: 'fr' }).severity).toBe('none')
+    expect(assessCrisisRisk('Ich werde mich heute Nacht umbringen', { language: 'de' }).types).toEqual(['suicide_intent'])
+    expect(assessCrisisRisk('Vou me matar hoje', { language: 'pt-BR' }).severity).toBe('critical')
+  })
+
+  it('should guess the language when none is given', () => {
+    expect(assessCrisisRisk('Yo no quiero vivir más con este dolor').language).toBe('es')
+    expect(assessCrisisRisk('I feel fine today').language).toBe('en')
+  })
+
+  it('should score short messages in every language when none is given or detected', () => {
+    const cases = [
+      ['quiero morir', 'es'],
+      ['Quiero suicidarme', 'es'],
+      ['ich will sterben', 'de'],
+      ['je veux mourir', 'fr'],
+      ['quero morrer', 'pt'],
+    ]
+
+    for (const [text, language] of cases) {
+      expect(assessCrisisRisk(text!)).toMatchObject({ severity: 'critical', language })
+      expect(assessCrisisRisk(text!, { language: 'en' }).severity).toBe('critical')
+    }
+  })
+
+  it('should list protective factors without lowering severity', () => {
+    const result = assessCrisisRisk('I want to die but my family keeps me going')
+
+    expect(result.severity).toBe('critical')
+    expect(result.protectiveFactors).toEqual(['family'])
+  })
+
+  it('should rate general distress as low without a crisis type', () => {
+    const result = assessCrisisRisk("I'm stressed about exams and feeling pretty down")
+
+    expect(result.severity).toBe('low')
+    expect(result.types).toEqual([])
+    expect(result.immediateRisk).toBe(false)
+  })
+
+  it('should give the same result every time for the same text', () => {
+    const text = 'Everyone would be better off without me'
+    expect(assessCrisisRisk(text)).toEqual(assessCrisisRisk(text))
+  })
+})
+
+describe('isAtLeast', () => {
+  it('should order severities', () => {
+    expect(isAtLeast('high', 'medium')).toBe(true)
+    expect(isAtLeast('low', 'high')).toBe(false)
+    expect(isAtLeast('none', 'none')).toBe(true)
+  })
+})
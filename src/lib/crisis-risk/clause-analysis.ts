@@ -0,0 +1,210 @@
+/**
+ * Clause Analysis
+ * Splits a message into clauses and works out, for each one, who it is
+ * about, when it happened, whether it is hypothetical or reported speech,
+ * and what its negation cues deny. The risk engine uses this to tell
+ * "I want to die" from "my friend said she wants to die" and "I used to
+ * want to die"; the language processor exposes it to the rest of the AI
+ * pipeline.
+ */
+
+import { CLAUSE_CUES, NEGATION_CUES, NEGATION_EXCEPTIONS, NEGATION_SCOPE_ENDS, SUBJECT_PRONOUNS } from './lexicons';
+import { normalizeText, TextSpan } from './text-analysis';
+import { ClauseAnalysis, NegationScope, RiskLanguage, SubjectMention } from './types';
+
+// How many words after a negation cue it can deny
+const NEGATION_WINDOW = 4;
+
+// Clauses end at punctuation and contrastive conjunctions ("..., but I want to die")
+const CLAUSE_BOUNDARY = /[.!?;,:\n]+|\s(?:but|however|though|although|pero|aunque|mais|cependant|aber|jedoch|mas|porém)\s/gu;
+const SENTENCE_END = /[.!?\n]/u;
+
+interface ClauseSpan extends TextSpan {
+  endsSentence: boolean;
+}
+
+interface Word extends TextSpan {
+  text: string;
+}
+
+function clauseSpans(normalized: string): ClauseSpan[] {
+  const result: ClauseSpan[] = [];
+  let start = 0;
+  for (const match of normalized.matchAll(CLAUSE_BOUNDARY)) {
+    result.push({ start, end: match.index!, endsSentence: SENTENCE_END.test(match[0]) });
+    start = match.index! + match[0].length;
+  }
+  result.push({ start, end: normalized.length, endsSentence: true });
+  return result;
+}
+
+function matchesIn(pattern: RegExp, normalized: string, span: TextSpan): Word[] {
+  return [...normalized.slice(span.start, span.end).matchAll(pattern)].map(match => ({
+    text: match[0],
+    start: span.start + match.index!,
+    end: span.start + match.index! + match[0].length,
+  }));
+}
+
+function hasLetters(normalized: string, span: TextSpan): boolean {
+  return /\p{L}/u.test(normalized.slice(span.start, span.end));
+}
+
+function trim(normalized: string, span: TextSpan): TextSpan {
+  let { start, end } = span;
+  while (start < end && /\s/u.test(normalized[start]!)) start++;
+  while (end > start && /\s/u.test(normalized[end - 1]!)) end--;
+  return { start, end };
+}
+
+function isCue(word: string, cues: string[]): boolean {
+  const bare = word.replace(/'/g, '');
+  return cues.some(cue => (cue.endsWith("'") ? word.startsWith(cue) : bare === cue.replace(/'/g, '')));
+}
+
+// Each cue denies the next few words, unless it negates something else
+// ("I don't know why ...") or a new statement starts first ("... and I ...",
+// "no one cares I ..."). A pronoun straight after the negated verb is
+// inversion, not a new subject ("never would I ...").
+function findNegations(normalized: string, span: TextSpan, language: RiskLanguage): NegationScope[] {
+  const words = matchesIn(/[\p{L}\p{N}']+/gu, normalized, span);
+  const scopes: NegationScope[] = [];
+
+  words.forEach((word, i) => {
+    if (!isCue(word.text, NEGATION_CUES[language])) return;
+    const next = words[i + 1];
+    if (!next || NEGATION_EXCEPTIONS[language].includes(next.text.replace(/'/g, ''))) return;
+
+    let last = next;
+    for (const [offset, following] of words.slice(i + 2, i + 1 + NEGATION_WINDOW).entries()) {
+      if (NEGATION_SCOPE_ENDS[language].includes(following.text)) break;
+      if (offset > 0 && isCue(following.text, SUBJECT_PRONOUNS[language])) break;
+      last = following;
+    }
+    scopes.push({ cue: word.text, start: next.start, end: last.end });
+  });
+  return scopes;
+}
+
+// Subject mentions in order; "my friend" wins over the "my" inside it
+function findMentions(text: string, normalized: string, span: TextSpan, language: RiskLanguage): SubjectMention[] {
+  const cues = CLAUSE_CUES[language];
+  const found = (pattern: RegExp, person: SubjectMention['person']): SubjectMention[] =>
+    matchesIn(pattern, normalized, span).map(word => ({ person, text: text.slice(word.start, word.end), start: word.start, end: word.end }));
+  const all = [
+    ...found(cues.firstPerson, 'first_person'),
+    ...found(cues.secondPerson, 'second_person'),
+    ...found(cues.thirdPerson, 'third_person'),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const mentions: SubjectMention[] = [];
+  for (const mention of all) {
+    const previous = mentions[mentions.length - 1];
+    if (!previous || mention.start >= previous.end) mentions.push(mention);
+  }
+  return mentions;
+}
+
+function describe(
+  text: string,
+  normalized: string,
+  span: TextSpan,
+  language: RiskLanguage,
+  speaker: SubjectMention | null | undefined
+): ClauseAnalysis {
+  const { start, end } = trim(normalized, span);
+  const cues = CLAUSE_CUES[language];
+  const clause = normalized.slice(start, end);
+  const mentions = findMentions(text, normalized, { start, end }, language);
+  const remote = matchesIn(cues.remotePast, normalized, { start, end })[0];
+  const recent = matchesIn(cues.recent, normalized, { start, end }).length > 0;
+  const future = matchesIn(cues.future, normalized, { start, end }).length > 0;
+  const past = remote !== undefined || matchesIn(cues.past, normalized, { start, end }).length > 0;
+
+  return {
+    text: text.slice(start, end),
+    start,
+    end,
+    subject: mentions[0]?.person ?? 'unspecified',
+    mentions,
+    tense: future ? 'future' : past ? 'past' : 'present',
+    pastMarker: remote && !recent ? text.slice(remote.start, remote.end) : null,
+    hypothetical: cues.conditional.test(clause),
+    // Null marks speech whose speaker was not named
+    reportedSpeech: speaker !== undefined,
+    ...(speaker && { speaker }),
+    negations: findNegations(normalized, { start, end }, language),
+  };
+}
+
+/**
+ * Analyze every clause of a message. A clause holding a speech verb is
+ * split in two so the reported words ("she wants to die") are analyzed
+ * apart from who said them ("my friend said"); when the reported words
+ * follow a colon or comma they are attributed the same way.
+ */
+export function analyzeClauses(text: string, language: RiskLanguage): ClauseAnalysis[] {
+  const normalized = normalizeText(text);
+  const clauses: ClauseAnalysis[] = [];
+  let pendingSpeaker: SubjectMention | null | undefined;
+
+  for (const span of clauseSpans(normalized)) {
+    if (!hasLetters(normalized, span)) continue;
+    const reportedBy = pendingSpeaker;
+    pendingSpeaker = undefined;
+
+    const speech = matchesIn(CLAUSE_CUES[language].speech, normalized, span)[0];
+    if (!speech) {
+      clauses.push(describe(text, normalized, span, language, reportedBy));
+      continue;
+    }
+
+    const frame = describe(text, normalized, { start: span.start, end: speech.end }, language, reportedBy);
+    clauses.push(frame);
+    const speaker = frame.mentions.filter(mention => mention.start < speech.start).pop() ?? null;
+    const reported = { start: speech.end, end: span.end };
+    if (hasLetters(normalized, reported)) {
+      clauses.push(describe(text, normalized, reported, language, speaker));
+    } else if (!span.endsSentence) {
+      pendingSpeaker = speaker;
+    }
+  }
+  return clauses;
+}
+
+export function clauseAt(clauses: ClauseAnalysis[], offset: number): ClauseAnalysis | undefined {
+  return clauses.find(clause => offset >= clause.start && offset < clause.end)
+    ?? clauses.filter(clause => clause.start <= offset).pop();
+}
+
+/**
+ * Who the words in a span are about: the nearest subject mentioned before
+ * them, or the first one after ("wants to kill herself"). Mentions inside
+ * the span belong to the phrase itself ("they are watching me").
+ */
+export function subjectAt(clause: ClauseAnalysis, start: number, end: number): SubjectMention | undefined {
+  return clause.mentions.filter(mention => mention.start < start).pop()
+    ?? clause.mentions.find(mention => mention.start >= end);
+}
+
+export function negationAt(clause: ClauseAnalysis, offset: number): NegationScope | undefined {
+  return clause.negations.find(scope => offset >= scope.start && offset < scope.end);
+}
+
+/**
+ * The parts of a message where the writer speaks for themselves about the
+ * present: clauses about someone else, reported from someone else or set
+ * well in the past are dropped, and negated words are blanked out
+ */
+export function ownStatements(text: string, clauses: ClauseAnalysis[]): string {
+  return clauses
+    .filter(clause => clause.subject !== 'third_person' && clause.speaker?.person !== 'third_person' && !clause.pastMarker)
+    .map(clause =>
+      clause.negations.reduce(
+        (own, scope) =>
+          own.slice(0, scope.start - clause.start) + ' '.repeat(scope.end - scope.start) + own.slice(scope.end - clause.start),
+        text.slice(clause.start, clause.end)
+      )
+    )
+    .join('\n');
+}
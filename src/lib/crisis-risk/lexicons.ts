@@ -0,0 +1,260 @@
+/**
+ * Crisis Risk Lexicons
+ * Phrase rules per language, merged from the keyword lists the AI detector,
+ * the crisis detection service and community moderation used to keep
+ * separately. Patterns run on lowercased text with straight quotes and
+ * only match whole words, so accented words need no special handling.
+ *
+ * Rules describe first-person risk. Idioms ("this traffic is killing me")
+ * are avoided by matching whole phrases rather than single words like
+ * "die" or "kill"; negation and quotation are handled by the engine.
+ */
+
+import { ClauseCues, CrisisType, LexiconRule, RiskLanguage } from './types';
+
+function rule(
+  id: string,
+  type: CrisisType | null,
+  severity: LexiconRule['severity'],
+  weight: number,
+  source: string
+): LexiconRule {
+  return {
+    id,
+    type,
+    severity,
+    weight,
+    // Apostrophes are optional so "cant" and "im" match like "can't" and "i'm"
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}_])(?:${source.replace(/'/g, "'?")})(?![\\p{L}\\p{N}_])`, 'gu'),
+  };
+}
+
+// Whole-word cue; a cue ending in an apostrophe ("qu'", "m'") may run into the next word
+function cue(source: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${source})(?:(?<=')|(?![\\p{L}\\p{N}_]))`, 'gu');
+}
+
+function opening(source: string): RegExp {
+  return new RegExp(`^[\\s"']*(?:${source})(?![\\p{L}\\p{N}_])`, 'u');
+}
+
+const EN: LexiconRule[] = [
+  // Suicidal ideation
+  rule('en.si.kill_myself', 'suicidal_ideation', 'critical', 0.95, 'kill(?:ing)? myself|(?:if|when|once) i killed myself|kms|suicidal|commit(?:ting)? suicide|(?:hang|hanging|shoot|shooting) myself|slit(?:ting)? (?:my )?wrists'),
+  rule('en.si.end_life', 'suicidal_ideation', 'critical', 0.95, '(?:end|ending|take|taking) my (?:own )?life'),
+  rule('en.si.thoughts_of_suicide', 'suicidal_ideation', 'critical', 0.9, '(?:thoughts?|thinking|thought) (?:of|about) (?:suicide|killing myself|ending (?:my life|it all))'),
+  rule('en.si.want_to_die', 'suicidal_ideation', 'critical', 0.9, 'want(?:ed)? to die|wanna die|wish (?:i was|i were|to be) dead'),
+  rule('en.si.better_off', 'suicidal_ideation', 'high', 0.85, 'better off dead|(?:be |are )?better off without me'),
+  rule('en.si.not_alive', 'suicidal_ideation', 'high', 0.85, "(?:don't|do not|no longer) (?:even )?want to (?:be alive|live|exist|be here)(?: anymore)?"),
+  rule('en.si.no_reason', 'suicidal_ideation', 'high', 0.85, 'no (?:reason|point) (?:to|in) (?:live|living|keep living|go on|going on)|not worth living'),
+  rule('en.si.never_wake', 'suicidal_ideation', 'high', 0.8, '(?:never|not) wake up'),
+  rule('en.si.end_it', 'suicidal_ideation', 'high', 0.8, "end it all|(?:want|need) (?:it|this|everything) (?:all )?to (?:end|stop)|can't go on"),
+  rule('en.si.whats_the_point', 'suicidal_ideation', 'medium', 0.65, "what's the point (?:of|in) (?:going on|living|anything|trying)"),
+  // Suicide plan and intent
+  rule('en.plan.method', 'suicide_plan', 'critical', 0.9, "(?:pills?|meds|tablets)[^.!?]{0,20}(?:saved|stockpiled|ready)|(?:saved|stockpiled|saving) up[^.!?]{0,15}(?:pills?|meds|tablets)"),
+  rule('en.plan.overdose', 'suicide_plan', 'critical', 0.9, "(?:going to|gonna|will|about to|plan(?:ning)? to) (?:swallow (?:all (?:of )?(?:my|the|these|those) (?:pills|meds|tablets)|the whole (?:bottle|pack|packet))|take (?:all (?:of )?(?:my|the|these|those) (?:pills|meds|tablets) at once|the whole (?:bottle|pack|packet)))|(?:pills|meds|tablets)[^.!?]{0,60}(?:going to|gonna|will|about to|plan(?:ning)? to) (?:take|swallow) (?:them|it) all"),
+  rule('en.plan.note', 'suicide_plan', 'critical', 0.85, '(?:suicide|goodbye) note|(?:written|wrote) the note'),
+  rule('en.plan.jump', 'suicide_plan', 'critical', 0.85, 'jump (?:off|from)(?: (?:a|the|that) (?:bridge|building|roof|cliff))?|(?:which|what) (?:bridge|building)'),
+  rule('en.plan.means', 'suicide_plan', 'high', 0.75, '(?:bought|got|have) (?:a |the )?(?:rope|gun)|(?:tied|made|have) (?:a |the )?noose'),
+  rule('en.plan.decided', 'suicide_plan', 'critical', 0.85, "(?:know|decided) (?:how|where|when) (?:i'll|i will|i'm going to|to) (?:do it|die|end it)|(?:have|made) a plan to (?:die|kill myself|end it)|where i'll do it"),
+  rule('en.intent.going_to', 'suicide_intent', 'critical', 0.95, "(?:i'm |i am )?(?:going to|gonna|will|plan to|about to) (?:kill myself|end (?:my life|it all)|take my (?:own )?life)"),
+  rule('en.intent.final_acts', 'suicide_intent', 'critical', 0.85, "giv(?:en|ing) away (?:all )?my (?:things|stuff|belongings|possessions)|said (?:my )?goodbyes|goodbye forever|this is my last (?:message|goodbye)|after i'm gone|won't be around (?:much longer|anymore)"),
+  // Self-harm
+  rule('en.sh.myself', 'self_harm', 'high', 0.9, '(?:cut|cuts|cutting|burn|burned|burnt|burning|hurt|hurting|harm|harming|scratch|scratching) myself'),
+  rule('en.sh.body', 'self_harm', 'high', 0.8, '(?:cutting|burning|burned|burnt|scratching) my (?:arms?|wrists?|legs?|thighs?|skin)'),
+  rule('en.sh.named', 'self_harm', 'high', 0.75, 'self[- ]?(?:harm|harming|injury|injuring)'),
+  // Harm to others
+  rule('en.hi.intent', 'homicidal_ideation', 'critical', 0.9, "(?:going to|gonna|will|want to) (?:kill|murder|stab|shoot) (?:him|her|them|someone|somebody|people|everyone)"),
+  rule('en.hi.thoughts', 'homicidal_ideation', 'high', 0.75, '(?:kill|killing|murder|murdering|hurt|hurting|harm|harming|stab|stabbing|shoot|shooting) (?:someone|somebody|people|everyone|my (?:boss|coworkers?|co-workers?|family|wife|husband|partner|parents|kids))'),
+  // Psychosis
+  rule('en.ps.voices', 'psychosis', 'high', 0.85, '(?:hear|hearing) voices|voices (?:are )?(?:telling|tell|told) me'),
+  rule('en.ps.surveillance', 'psychosis', 'medium', 0.65, '(?:cameras?|microphones?|chips?|implants?) in my (?:walls?|head|house|room|brain)|(?:they|people|someone|the neighbou?rs) (?:are |is )?(?:watching|following|spying on) me'),
+  // Depression and distress
+  rule('en.dep.hopeless', 'severe_depression', 'medium', 0.7, "hopeless|no hope|worthless|empty inside|no way out|unbearable|(?:punish myself|deserve (?:the )?pain)|nothing matters|hate myself|(?:i'm|i am) (?:a|such a) burden|waste of space"),
+  rule('en.dep.function', 'severe_depression', 'medium', 0.65, "(?:can't|cannot) (?:get out of bed|stop crying)|(?:haven't|have not) (?:gotten|got) out of bed"),
+  rule('en.distress.overwhelmed', null, 'medium', 0.6, "falling apart|breaking down|can't cope|losing control|trapped|nobody cares|no one (?:cares|understands)"),
+  rule('en.distress.stress', null, 'low', 0.5, "stressed|overwhelm(?:ed|ing)|anxious|lonely|struggling|feeling (?:pretty |really |so )?down|not sleeping|can't sleep|need help|someone to talk to"),
+  // Panic
+  rule('en.panic.attack', 'panic_attack', 'medium', 0.85, "panic attack|can't breathe|heart (?:is )?(?:racing|pounding)|feel(?:s)? like i'm dying|chest (?:is )?tight"),
+  // Substances
+  rule('en.sub.overdose', 'substance_crisis', 'critical', 0.9, "overdos(?:e|ed|ing)|took (?:way )?too many (?:pills|tablets)|alcohol poisoning"),
+  rule('en.sub.binge', 'substance_crisis', 'high', 0.7, "(?:can't stop|been) (?:drinking|using) (?:all day|all night)|can't stop (?:drinking|using)"),
+  // Abuse
+  rule('en.dv.partner', 'domestic_violence', 'high', 0.85, 'my (?:husband|wife|partner|boyfriend|girlfriend|spouse|ex)[^.!?]{0,40}(?:hit|hits|beat|beats|hurt|hurts|choked|chokes|kicked|slapped|threatens|threatened)'),
+  rule('en.dv.hits_me', 'domestic_violence', 'high', 0.75, '(?:hit|hits|beat|beats|choked|chokes|slapped|kicked) me|threaten(?:s|ed)? to (?:hurt|kill) me'),
+  rule('en.dv.unsafe_home', 'domestic_violence', 'medium', 0.6, '(?:scared|afraid) to go home'),
+  rule('en.ca.parent', 'child_abuse', 'critical', 0.8, 'my (?:stepdad|stepfather|stepmom|stepmother|dad|father|mom|mother|uncle|parents?)[^.!?]{0,30}(?:hits|beats|hurts|touches|molests) me'),
+  rule('en.ca.named', 'child_abuse', 'critical', 0.8, '(?:abuse|abusing|molest|molesting|touching)[^.!?]{0,30}(?:child|kid|minor)'),
+  rule('en.ea.caregiver', 'elder_abuse', 'high', 0.75, '(?:caregiver|carer|nursing home)[^.!?]{0,60}(?:taking|stealing|stole|hitting|hurting|bruises|neglect)'),
+];
+
+const ES: LexiconRule[] = [
+  rule('es.si.want_to_die', 'suicidal_ideation', 'critical', 0.9, 'quiero morir(?:me)?|quisiera morir(?:me)?|deseo morir'),
+  rule('es.si.kill_myself', 'suicidal_ideation', 'critical', 0.95, 'matarme|suicidarme|me (?:quiero|quisiera) (?:matar|suicidar)|quitarme la vida|(?:terminar|acabar) con mi vida|(?:pensado|pensando|pienso) en (?:el )?suicidio'),
+  rule('es.si.better_off', 'suicidal_ideation', 'high', 0.85, 'mejor sin m[ií]|mejor muert[oa]|no quiero vivir|sin razón para vivir|no vale la pena vivir|acabar con todo'),
+  rule('es.intent.going_to', 'suicide_intent', 'critical', 0.95, 'voy a (?:matarme|suicidarme|quitarme la vida)|me voy a (?:matar|suicidar)'),
+  rule('es.plan.means', 'suicide_plan', 'critical', 0.85, '(?:tengo|guardé|guarde|junté) (?:las |los )?(?:pastillas|medicamentos)'),
+  rule('es.sh.myself', 'self_harm', 'high', 0.85, 'me (?:corté|corte|corto|lastimo|lastimé|quemé|quemo)|hacerme daño|autolesi(?:ón|on|onarme)'),
+  rule('es.dv.hits_me', 'domestic_violence', 'high', 0.8, 'me (?:golpea|pega|maltrata)'),
+  rule('es.dep.hopeless', 'severe_depression', 'medium', 0.7, 'sin esperanza|me odio|nada importa|no (?:puedo|aguanto) más'),
+  rule('es.distress.stress', null, 'low', 0.5, 'estresad[oa]|abrumad[oa]|ansios[oa]|deprimid[oa]'),
+];
+
+const FR: LexiconRule[] = [
+  rule('fr.si.want_to_die', 'suicidal_ideation', 'critical', 0.9, 'veux mourir|voudrais mourir|envie de mourir'),
+  rule('fr.si.kill_myself', 'suicidal_ideation', 'critical', 0.95, 'me (?:tuer|suicider)|mettre fin à (?:ma vie|mes jours)|(?:pense|pensé|penser|pensées) (?:au|à) (?:suicide|me suicider)'),
+  rule('fr.si.better_off', 'suicidal_ideation', 'high', 0.85, 'mieux sans moi|aucune raison de vivre|pas la peine de vivre|en finir'),
+  rule('fr.intent.going_to', 'suicide_intent', 'critical', 0.95, 'je vais me (?:tuer|suicider)'),
+  rule('fr.plan.prepared', 'suicide_plan', 'critical', 0.85, "j'ai tout (?:préparé|prévu)"),
+  rule('fr.sh.myself', 'self_harm', 'high', 0.85, 'me (?:suis )?(?:encore )?(?:scarifiée?|coupée?|mutilée?)|me scarifie|me faire du mal'),
+  // "me bat" only with a subject, so English "let me bat" is not read as French
+  rule('fr.dv.hits_me', 'domestic_violence', 'high', 0.8, "me (?:frappe|violente)|(?:il|elle|on|qui) me bat"),
+  rule('fr.dep.hopeless', 'severe_depression', 'medium', 0.7, "désespérée?|sans (?:espoir|valeur)|je me déteste|n'en peux plus"),
+  rule('fr.distress.stress', null, 'low', 0.5, 'stressée?|angoissée?|débordée?|déprimée?'),
+];
+
+const DE: LexiconRule[] = [
+  rule('de.si.want_to_die', 'suicidal_ideation', 'critical', 0.9, 'will sterben|möchte sterben|(?:denke|gedanken)[^.!?]{0,20}(?:selbstmord|suizid)'),
+  rule('de.si.kill_myself', 'suicidal_ideation', 'critical', 0.95, 'mich (?:umbringen|töten)|mein leben beenden|selbstmord begehen'),
+  rule('de.si.better_off', 'suicidal_ideation', 'high', 0.85, 'ohne mich besser dran|besser dran ohne mich|besser tot|kein grund (?:mehr )?zu leben|nicht lebenswert'),
+  rule('de.intent.going_to', 'suicide_intent', 'critical', 0.95, 'werde mich[^.!?]{0,30}umbringen'),
+  rule('de.plan.means', 'suicide_plan', 'critical', 0.85, '(?:tabletten|pillen)[^.!?]{0,20}bereit'),
+  rule('de.sh.myself', 'self_harm', 'high', 0.85, 'mich[^.!?]{0,20}geritzt|ritze mich|verletze mich|mir (?:etwas|was) an(?:zu)?tun'),
+  rule('de.dv.hits_me', 'domestic_violence', 'high', 0.8, 'schlägt mich|verprügelt mich'),
+  rule('de.dep.hopeless', 'severe_depression', 'medium', 0.7, 'hoffnungslos|wertlos|hasse mich|halte das nicht mehr aus|kann nicht mehr'),
+  rule('de.distress.stress', null, 'low', 0.5, 'gestresst|überfordert|ängstlich|deprimiert'),
+];
+
+const PT: LexiconRule[] = [
+  rule('pt.si.want_to_die', 'suicidal_ideation', 'critical', 0.9, 'quero morrer|queria morrer'),
+  rule('pt.si.kill_myself', 'suicidal_ideation', 'critical', 0.95, 'me matar|me suicidar|tirar (?:a )?minha (?:própria )?vida|acabar com (?:a )?minha vida|(?:pensado|pensando|penso) em suicídio'),
+  rule('pt.si.better_off', 'suicidal_ideation', 'high', 0.85, 'melhor(?:es)? sem mim|sem razão para viver|não vale a pena viver|acabar com tudo'),
+  rule('pt.intent.going_to', 'suicide_intent', 'critical', 0.95, 'vou me (?:matar|suicidar)'),
+  rule('pt.plan.means', 'suicide_plan', 'critical', 0.85, '(?:separei|guardei|juntei) (?:os |as )?(?:remédios|comprimidos|pílulas)'),
+  rule('pt.sh.myself', 'self_harm', 'high', 0.85, 'me (?:cortei|corto|machuco|machuquei|queimei)|me machucar|automutila(?:ção|r)'),
+  rule('pt.dv.hits_me', 'domestic_violence', 'high', 0.8, 'me (?:bate|agride|espanca)'),
+  rule('pt.dep.hopeless', 'severe_depression', 'medium', 0.7, 'sem (?:esperança|valor)|me odeio|nada importa|não aguento mais'),
+  rule('pt.distress.stress', null, 'low', 0.5, 'estressad[oa]|sobrecarregad[oa]|ansios[oa]|deprimid[oa]'),
+];
+
+export const LEXICONS: Record<RiskLanguage, LexiconRule[]> = { en: EN, es: ES, fr: FR, de: DE, pt: PT };
+
+// Words that turn a following risk phrase into a denial ("I would never ...")
+export const NEGATION_CUES: Record<RiskLanguage, string[]> = {
+  en: ['not', 'never', 'no', 'nor', "don't", "won't", "wouldn't", "isn't", "didn't", "doesn't", "shouldn't", "couldn't"],
+  es: ['no', 'nunca', 'jamás', 'tampoco', 'ni'],
+  fr: ['ne', "n'", 'pas', 'jamais', 'aucun', 'aucune', 'ni'],
+  de: ['nicht', 'nie', 'niemals', 'kein', 'keine', 'keinen', 'keiner'],
+  pt: ['não', 'nunca', 'jamais', 'nem'],
+};
+
+// Words after a negation cue that leave the risk phrase standing ("I don't know why I want to die")
+export const NEGATION_EXCEPTIONS: Record<RiskLanguage, string[]> = {
+  en: ['know', 'sure', 'understand', 'care', 'think', 'see', 'get'],
+  es: ['sé', 'entiendo', 'importa'],
+  fr: ['sais', 'comprends'],
+  de: ['weiß', 'verstehe'],
+  pt: ['sei', 'entendo'],
+};
+
+// Words that start a new statement, where a negation cue's reach ends ("I have no friends and I want to die")
+export const NEGATION_SCOPE_ENDS: Record<RiskLanguage, string[]> = {
+  en: ['and', 'so', 'then', 'because'],
+  es: ['y', 'e', 'así', 'entonces', 'porque'],
+  fr: ['et', 'donc', 'alors', 'puis', 'parce'],
+  de: ['und', 'also', 'dann', 'weil', 'deshalb'],
+  pt: ['e', 'então', 'depois', 'porque'],
+};
+
+// Subject pronouns; one after a negated phrase starts a new statement ("no one cares I want to die")
+export const SUBJECT_PRONOUNS: Record<RiskLanguage, string[]> = {
+  en: ['i', "i'm", 'im', "i've", "i'll", "i'd", 'he', 'she', 'we', 'they'],
+  es: ['yo', 'él', 'ella', 'nosotros', 'nosotras', 'ellos', 'ellas'],
+  fr: ['je', "j'", 'il', 'elle', 'on', 'nous', 'ils', 'elles'],
+  de: ['ich', 'er', 'sie', 'wir'],
+  pt: ['eu', 'ele', 'ela', 'nós', 'eles', 'elas'],
+};
+
+// Words marking text as lyrics or a quotation rather than the writer's own words
+export const QUOTATION_CUES: Record<RiskLanguage, string[]> = {
+  en: ['lyrics', 'lyric', 'song', 'sings', 'sang', 'quote', 'quoting', 'quoted', 'poem', 'line', 'movie', 'film', 'book', 'character'],
+  es: ['letra', 'canción', 'cita', 'poema', 'película', 'libro', 'personaje'],
+  fr: ['paroles', 'chanson', 'citation', 'poème', 'film', 'livre', 'personnage'],
+  de: ['songtext', 'lied', 'liedzeile', 'zitat', 'gedicht', 'film', 'buch', 'figur'],
+  pt: ['letra', 'música', 'citação', 'poema', 'filme', 'livro', 'personagem'],
+};
+
+export const PROTECTIVE_FACTORS: Record<RiskLanguage, string[]> = {
+  en: ['family', 'friends', 'my therapist', 'safety plan', 'hope', 'future', 'goals', 'getting better', 'coping'],
+  es: ['familia', 'amigos', 'terapeuta', 'esperanza', 'futuro'],
+  fr: ['famille', 'amis', 'thérapeute', 'espoir', 'avenir'],
+  de: ['familie', 'freunde', 'therapeut', 'hoffnung', 'zukunft'],
+  pt: ['família', 'amigos', 'terapeuta', 'esperança', 'futuro'],
+};
+
+// Common function words, for guessing the language when it is not given
+export const LANGUAGE_MARKERS: Record<Exclude<RiskLanguage, 'en'>, string[]> = {
+  es: ['el', 'la', 'que', 'y', 'en', 'un', 'por', 'con', 'para', 'yo', 'me', 'quiero', 'estoy', 'más'],
+  fr: ['le', 'les', 'un', 'et', 'à', 'que', 'pour', 'dans', 'je', 'suis', 'pas', 'ne', 'mes'],
+  de: ['der', 'die', 'und', 'das', 'von', 'zu', 'mit', 'sich', 'auf', 'ich', 'nicht', 'bin', 'mich'],
+  pt: ['o', 'a', 'para', 'em', 'com', 'um', 'que', 'não', 'eu', 'estou', 'muito', 'de'],
+};
+
+// Who a clause is about, when it happened, and whether it is hypothetical or reported
+export const CLAUSE_CUES: Record<RiskLanguage, ClauseCues> = {
+  en: {
+    firstPerson: cue("i|im|me|my|myself|mine"),
+    secondPerson: cue('you|your|yourself'),
+    thirdPerson: cue('he|she|they|someone|somebody|himself|herself|themselves|my (?:best )?(?:friend|brother|sister|mom|mum|mother|dad|father|son|daughter|husband|wife|partner|boyfriend|girlfriend|cousin|roommate|kid|child|coworker|colleague|classmate)'),
+    past: cue('was|were|had|did|used to|wanted|thought|tried|felt|attempted'),
+    remotePast: cue('used to|years ago|(?:a )?long time ago|when i was (?:younger|little|a kid|a teenager|in (?:high )?school)|as a (?:kid|teen|teenager)|in the past|back then'),
+    recent: cue('still|again|lately|recently|last night|yesterday|today|tonight|this (?:morning|week)|now'),
+    future: cue("will|i'll|gonna|going to|tomorrow"),
+    conditional: opening('if|what if|even if|suppose|imagine|hypothetically'),
+    speech: cue('(?:said|says|told|tells|wrote|writes|texted|posted|mentioned|admitted|keeps saying)(?: (?:me|us|him|her|them|everyone))?(?: that)?'),
+  },
+  es: {
+    firstPerson: cue('yo|me|mi|mí|conmigo'),
+    secondPerson: cue('tú|usted|ti|contigo'),
+    thirdPerson: cue('él|ella|ellos|ellas|alguien|mi (?:mejor )?(?:amigo|amiga|hermano|hermana|madre|padre|mamá|papá|hijo|hija|novio|novia|esposo|esposa|pareja|primo|prima)'),
+    past: cue('fue|era|estaba|tuve|tenía|quería|pensaba|intenté|sentía'),
+    remotePast: cue('solía|hace (?:muchos |unos )?años|hace mucho(?: tiempo)?|cuando era (?:niño|niña|joven|pequeño|pequeña)|en el pasado'),
+    recent: cue('todavía|aún|otra vez|de nuevo|últimamente|anoche|ayer|hoy|ahora'),
+    future: cue('voy a|mañana'),
+    conditional: opening('si|qué pasaría si|imagina|supongamos'),
+    speech: cue('(?:(?:me|le|nos|les) )?(?:dijo|dice|dicen|contó|cuenta|escribió|publicó)(?: que)?'),
+  },
+  fr: {
+    firstPerson: cue("je|j'|moi|me|m'|mon|ma|mes"),
+    secondPerson: cue("tu|toi|vous|te|t'"),
+    thirdPerson: cue("il|elle|ils|elles|quelqu'un|mon (?:meilleur )?(?:ami|frère|père|copain|mari|fils|cousin)|ma (?:meilleure )?(?:amie|sœur|soeur|mère|copine|femme|fille|cousine)"),
+    past: cue('étais|était|avais|avait|voulais|pensais|ai (?:voulu|pensé|essayé|eu|été)'),
+    remotePast: cue("il y a (?:des|quelques|plusieurs) années|il y a longtemps|quand j'étais (?:petit|petite|jeune|enfant|ado)|autrefois|dans le passé"),
+    recent: cue("encore|toujours|à nouveau|de nouveau|récemment|hier|ce soir|aujourd'hui|maintenant"),
+    future: cue('vais|demain'),
+    conditional: opening('si|et si|imagine|imaginons|supposons'),
+    speech: cue("(?:(?:m'|t'|lui |nous )?a (?:dit|écrit|raconté)|dit|disait)(?: que| qu')?"),
+  },
+  de: {
+    firstPerson: cue('ich|mich|mir|mein|meine|meinen|meinem|meiner'),
+    secondPerson: cue('du|dich|dir|dein|deine'),
+    thirdPerson: cue('er|sie|jemand|mein (?:bester )?(?:freund|bruder|vater|mann|sohn|partner)|meine (?:beste )?(?:freundin|schwester|mutter|frau|tochter|partnerin)'),
+    past: cue('war|waren|hatte|hatten|wollte|dachte|habe (?:gedacht|versucht|gewollt)'),
+    remotePast: cue('früher|vor (?:vielen |ein paar )?jahren|als ich (?:klein|jung|ein kind|jugendlich) war|damals|in der vergangenheit'),
+    recent: cue('immer noch|noch immer|wieder|in letzter zeit|gestern|heute|jetzt|gerade'),
+    future: cue('werde|morgen'),
+    conditional: opening('wenn|falls|angenommen|stell dir vor|was wäre wenn'),
+    speech: cue('(?:hat (?:mir |uns )?gesagt|sagte|sagt|schrieb|meinte|erzählte)(?: mir| uns)?(?: dass)?'),
+  },
+  pt: {
+    firstPerson: cue('eu|me|mim|comigo|meu|minha'),
+    secondPerson: cue('você|tu|te|contigo'),
+    thirdPerson: cue('ele|ela|eles|elas|alguém|meu (?:melhor )?(?:amigo|irmão|pai|namorado|marido|filho|primo)|minha (?:melhor )?(?:amiga|irmã|mãe|namorada|esposa|filha|prima)'),
+    past: cue('foi|era|estava|tive|tinha|queria|pensava|tentei|senti'),
+    remotePast: cue('costumava|há (?:muitos |alguns )?anos|anos atrás|muito tempo atrás|quando eu era (?:criança|pequeno|pequena|jovem|adolescente)|no passado'),
+    recent: cue('ainda|de novo|outra vez|ultimamente|ontem|hoje|agora|esta noite'),
+    future: cue('vou|amanhã'),
+    conditional: opening('se|e se|imagine|suponha'),
+    speech: cue('(?:(?:me|nos|lhe) )?(?:disse|diz|dizem|contou|escreveu|postou)(?: que)?'),
+  },
+};
@@ -0,0 +1,182 @@
+/**
+ * Crisis Risk Engine
+ * The one place text is scored for crisis risk. Journal entries, community
+ * posts and messages, peer chat, crisis chat and the AI assistant all call
+ * assessCrisisRisk, so a sentence gets the same severity wherever it was
+ * typed. Scoring depends only on the text and its language; callers add
+ * their own context (typing behavior, history) on top.
+ */
+
+import { LEXICONS, PROTECTIVE_FACTORS } from './lexicons';
+import { analyzeClauses, clauseAt, negationAt, subjectAt } from './clause-analysis';
+import { detectLanguage, findQuotation, normalizeText, supportedLanguage } from './text-analysis';
+import {
+  ClauseAnalysis,
+  CRISIS_TYPE_LABELS,
+  CrisisRiskAssessment,
+  CrisisType,
+  RISK_LANGUAGES,
+  RISK_SEVERITIES,
+  RiskAssessmentOptions,
+  RiskIndicator,
+  RiskLanguage,
+  RiskSeverity,
+  SuppressionReason,
+} from './types';
+
+export const RISK_ENGINE_VERSION = '1.2.2';
+
+// Each corroborating indicator adds a little to the strongest one's score
+const CORROBORATION_BOOST = 0.05;
+
+const IMMEDIATE_RISK_TYPES: CrisisType[] = ['suicide_plan', 'suicide_intent', 'homicidal_ideation'];
+
+// Abuse is what someone else does to the writer, often in the past, so it is never attributed away
+const ABUSE_TYPES: CrisisType[] = ['domestic_violence', 'child_abuse', 'elder_abuse'];
+
+export function compareSeverity(a: RiskSeverity, b: RiskSeverity): number {
+  return RISK_SEVERITIES.indexOf(a) - RISK_SEVERITIES.indexOf(b);
+}
+
+export function isAtLeast(severity: RiskSeverity, threshold: RiskSeverity): boolean {
+  return compareSeverity(severity, threshold) >= 0;
+}
+
+function explain(indicator: Omit<RiskIndicator, 'explanation'>): string {
+  const label = indicator.type ? CRISIS_TYPE_LABELS[indicator.type] : 'Emotional distress';
+  const found = `${label} (${indicator.severity}): "${indicator.matchedText}"`;
+  if (indicator.suppressed === 'negated') return `Not counted, negated by "${indicator.suppressedBy}": ${found}`;
+  if (indicator.suppressed === 'quoted') return `Not counted, quoted (${indicator.suppressedBy}): ${found}`;
+  if (indicator.suppressed === 'other_person') return `Not counted, about someone else ("${indicator.suppressedBy}"): ${found}`;
+  if (indicator.suppressed === 'past') return `Not counted, in the past ("${indicator.suppressedBy}"): ${found}`;
+  return found;
+}
+
+/**
+ * Why a match should not count, checked in order: denied, quoted, about
+ * someone else (named as the subject, or reported by them), or set well in
+ * the past. Hypothetical clauses still count; "if this fails I'll end it"
+ * is a plan, not a thought experiment.
+ */
+function findSuppression(
+  normalized: string,
+  clause: ClauseAnalysis | undefined,
+  start: number,
+  end: number,
+  type: CrisisType | null,
+  language: RiskLanguage
+): { suppressed: SuppressionReason; suppressedBy: string } | null {
+  const negation = clause && negationAt(clause, start);
+  if (negation) return { suppressed: 'negated', suppressedBy: negation.cue };
+
+  const quotation = findQuotation(normalized, start, language);
+  if (quotation) return { suppressed: 'quoted', suppressedBy: quotation };
+
+  if (!clause || (type && ABUSE_TYPES.includes(type))) return null;
+
+  const subject = subjectAt(clause, start, end);
+  if (subject?.person === 'third_person') return { suppressed: 'other_person', suppressedBy: subject.text };
+  if (clause.speaker?.person === 'third_person') return { suppressed: 'other_person', suppressedBy: clause.speaker.text };
+  if (clause.pastMarker) return { suppressed: 'past', suppressedBy: clause.pastMarker };
+  return null;
+}
+
+/**
+ * Which languages' rules to run: the writer's known language and the one
+ * the text points to, plus English for mixed-language messages. When the
+ * text does not settle its language, every language's rules run, so a
+ * short "quiero morir" is not scored by English rules alone.
+ */
+function ruleLanguages(requested: RiskLanguage | null, detected: RiskLanguage | null): RiskLanguage[] {
+  if (!detected) return RISK_LANGUAGES;
+  return [...new Set<RiskLanguage>([...(requested ? [requested] : []), detected, 'en'])];
+}
+
+function findIndicators(original: string, normalized: string, languages: RiskLanguage[]): RiskIndicator[] {
+  const indicators: RiskIndicator[] = [];
+
+  for (const ruleLanguage of languages) {
+    // Cues come from the matched rule's language; Portuguese "no" is not a negation
+    const clauses = analyzeClauses(original, ruleLanguage);
+    for (const rule of LEXICONS[ruleLanguage]) {
+      for (const match of normalized.matchAll(rule.pattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        const clause = clauseAt(clauses, start);
+        const suppression = findSuppression(normalized, clause, start, end, rule.type, ruleLanguage);
+
+        const indicator: Omit<RiskIndicator, 'explanation'> = {
+          ruleId: rule.id,
+          type: rule.type,
+          severity: rule.severity,
+          weight: rule.weight,
+          language: ruleLanguage,
+          matchedText: original.slice(start, end),
+          start,
+          end,
+          clause: clause?.text ?? original.slice(start, end),
+          ...suppression,
+        };
+        indicators.push({ ...indicator, explanation: explain(indicator) });
+      }
+    }
+  }
+
+  return indicators.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Score a piece of text. Counted indicators set the severity; denied,
+ * quoted, other people's and long-past matches are returned separately so
+ * reviewers can see what was discounted and why. Protective factors are listed but never lower the
+ * severity.
+ */
+export function assessCrisisRisk(text: string, options: RiskAssessmentOptions = {}): CrisisRiskAssessment {
+  const normalized = normalizeText(text);
+  const requested = supportedLanguage(options.language);
+  const detected = detectLanguage(normalized);
+  const found = findIndicators(text, normalized, ruleLanguages(requested, detected));
+  const indicators = found.filter(indicator => !indicator.suppressed);
+  const suppressed = found.filter(indicator => indicator.suppressed);
+
+  const severity = indicators.reduce<RiskSeverity>(
+    (highest, indicator) => (compareSeverity(indicator.severity, highest) > 0 ? indicator.severity : highest),
+    'none'
+  );
+  const strongest = Math.max(0, ...indicators.map(indicator => indicator.weight));
+  const score = indicators.length === 0
+    ? 0
+    : Math.min(1, strongest + CORROBORATION_BOOST * (indicators.length - 1));
+
+  // Without a known or detected language, the text is in the language of its most severe match
+  const mostSevere = indicators.reduce<RiskIndicator | null>(
+    (top, indicator) => (!top || compareSeverity(indicator.severity, top.severity) > 0 ? indicator : top),
+    null
+  );
+  const language = requested ?? detected ?? mostSevere?.language ?? 'en';
+
+  const types = [...new Set(indicators.flatMap(indicator => (indicator.type ? [indicator.type] : [])))];
+  const immediateRisk = severity === 'critical'
+    || indicators.some(indicator => indicator.type !== null && IMMEDIATE_RISK_TYPES.includes(indicator.type));
+
+  const protectiveFactors = PROTECTIVE_FACTORS[language].filter(factor => normalized.includes(factor));
+
+  const explanation = [
+    ...indicators.map(indicator => indicator.explanation),
+    ...suppressed.map(indicator => indicator.explanation),
+    ...(protectiveFactors.length > 0 ? [`Protective factors mentioned: ${protectiveFactors.join(', ')}`] : []),
+  ];
+
+  return {
+    severity,
+    score,
+    types,
+    immediateRisk,
+    indicators,
+    suppressed,
+    protectiveFactors,
+    language,
+    explanation,
+    engineVersion: RISK_ENGINE_VERSION,
+  };
+}
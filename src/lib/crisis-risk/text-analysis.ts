@@ -0,0 +1,125 @@
+/**
+ * Crisis Risk Text Analysis
+ * Normalization, language guessing, and the quotation check that stops
+ * song lyrics and quoted lines from counting as risk.
+ */
+
+import { CLAUSE_CUES, LANGUAGE_MARKERS, QUOTATION_CUES } from './lexicons';
+import { RISK_LANGUAGES, RiskLanguage } from './types';
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_BOUNDARY = /[.!?\n]+/gu;
+
+/**
+ * Lowercase with straight quotes, keeping every character at its offset so
+ * match positions map back onto the original text
+ */
+export function normalizeText(text: string): string {
+  return text
+    .split('')
+    .map(char => {
+      if (char === '‘' || char === '’' || char === '`') return "'";
+      if (char === '“' || char === '”' || char === '„' || char === '«' || char === '»') return '"';
+      const lower = char.toLowerCase();
+      return lower.length === 1 ? lower : char;
+    })
+    .join('');
+}
+
+export function supportedLanguage(requested?: string): RiskLanguage | null {
+  const base = requested?.toLowerCase().split(/[-_]/)[0];
+  return base && (RISK_LANGUAGES as string[]).includes(base) ? (base as RiskLanguage) : null;
+}
+
+/**
+ * The language the text's function words point to, or null when they do
+ * not settle it. Short messages ("quiero morir") rarely have the two
+ * marker words needed, and English has no markers of its own.
+ */
+export function detectLanguage(normalized: string): RiskLanguage | null {
+  const words = normalized.split(/[^\p{L}']+/u).filter(Boolean);
+  let best: RiskLanguage | null = null;
+  let bestHits = 1; // Needs at least two marker words
+  for (const [language, markers] of Object.entries(LANGUAGE_MARKERS)) {
+    const hits = words.filter(word => markers.includes(word)).length;
+    if (hits > bestHits) {
+      best = language as RiskLanguage;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+function spans(text: string, boundary: RegExp): TextSpan[] {
+  const result: TextSpan[] = [];
+  let start = 0;
+  for (const match of text.matchAll(boundary)) {
+    result.push({ start, end: match.index! });
+    start = match.index! + match[0].length;
+  }
+  result.push({ start, end: text.length });
+  return result;
+}
+
+function spanAt(all: TextSpan[], offset: number): TextSpan {
+  return all.find(span => offset >= span.start && offset < span.end) ?? all[all.length - 1]!;
+}
+
+function words(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}']+|[^\p{L}']+$/gu, ''))
+    .filter(Boolean);
+}
+
+function quotationCue(text: string, language: RiskLanguage): string | null {
+  const cues = [...QUOTATION_CUES[language], ...(language === 'en' ? [] : QUOTATION_CUES.en)];
+  return words(text).find(word => cues.includes(word)) ?? null;
+}
+
+// What a quote's lead-in or tag credits it to, if anyone other than the writer
+function attribution(context: string, language: RiskLanguage): string | null {
+  const cue = quotationCue(context, language);
+  if (cue) return cue;
+
+  const { speech, firstPerson, thirdPerson } = CLAUSE_CUES[language];
+  const verb = [...context.matchAll(speech)][0];
+  if (!verb) return null;
+  // "I said ..." is still the writer's own words
+  const speaker = context.slice(0, verb.index);
+  const self = [...speaker.matchAll(firstPerson)].length > 0 && [...speaker.matchAll(thirdPerson)].length === 0;
+  return self ? null : verb[0];
+}
+
+/**
+ * What marks a match as someone else's words, if anything: double quotes
+ * credited to someone or something else ("my brother said", "the song
+ * goes"), or a lyrics/quote cue followed by a colon or dash before it in
+ * the same sentence ("song lyrics: ..."). Quotes with no one credited are
+ * often the writer's own thoughts ("I keep thinking "I want to die"") and
+ * still count.
+ */
+export function findQuotation(normalized: string, matchStart: number, language: RiskLanguage): string | null {
+  const sentences = spans(normalized, SENTENCE_BOUNDARY);
+  const sentence = spanAt(sentences, matchStart);
+  const before = normalized.slice(sentence.start, matchStart);
+
+  // Quotations may run across sentences, so count marks from the start
+  const quoteMarks = (normalized.slice(0, matchStart).match(/"/g) ?? []).length;
+  const close = normalized.indexOf('"', matchStart);
+  if (quoteMarks % 2 === 1 && close !== -1) {
+    const open = normalized.lastIndexOf('"', matchStart);
+    const leadIn = normalized.slice(spanAt(sentences, open).start, open);
+    const tag = normalized.slice(close + 1, spanAt(sentences, close + 1).end);
+    const credited = attribution(leadIn, language) ?? attribution(tag, language);
+    return credited ? 'quotation marks' : null;
+  }
+
+  const introduced = before.search(/[:–—]|\s-\s/u);
+  if (introduced === -1) return null;
+  return quotationCue(before.slice(0, introduced), language);
+}
@@ -0,0 +1,147 @@
+/**
+ * Crisis Risk Types
+ * The one crisis taxonomy and severity scale shared by every crisis check —
+ * journal, community posts and messages, peer chat, crisis chat and the AI
+ * assistant — and the explainable assessment the risk engine returns.
+ */
+
+export type CrisisType =
+  | 'suicidal_ideation'
+  | 'suicide_plan'
+  | 'suicide_intent'
+  | 'self_harm'
+  | 'homicidal_ideation'
+  | 'psychosis'
+  | 'severe_depression'
+  | 'panic_attack'
+  | 'substance_crisis'
+  | 'domestic_violence'
+  | 'child_abuse'
+  | 'elder_abuse';
+
+export const CRISIS_TYPE_LABELS: Record<CrisisType, string> = {
+  suicidal_ideation: 'Suicidal ideation',
+  suicide_plan: 'Suicide plan',
+  suicide_intent: 'Suicide intent',
+  self_harm: 'Self-harm',
+  homicidal_ideation: 'Homicidal ideation',
+  psychosis: 'Psychosis',
+  severe_depression: 'Severe depression',
+  panic_attack: 'Panic attack',
+  substance_crisis: 'Substance crisis',
+  domestic_violence: 'Domestic violence',
+  child_abuse: 'Child abuse',
+  elder_abuse: 'Elder abuse',
+};
+
+export type RiskSeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+export const RISK_SEVERITIES: RiskSeverity[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+export type RiskLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+export const RISK_LANGUAGES: RiskLanguage[] = ['en', 'es', 'fr', 'de', 'pt'];
+
+// Why a matched phrase was not counted
+export type SuppressionReason = 'negated' | 'quoted' | 'other_person' | 'past';
+
+export interface LexiconRule {
+  id: string;
+  // Null for general distress that is not a specific crisis
+  type: CrisisType | null;
+  severity: Exclude<RiskSeverity, 'none'>;
+  // 0-1 confidence that a match means what the rule says
+  weight: number;
+  pattern: RegExp;
+}
+
+export interface RiskIndicator {
+  ruleId: string;
+  type: CrisisType | null;
+  severity: Exclude<RiskSeverity, 'none'>;
+  weight: number;
+  language: RiskLanguage;
+  matchedText: string;
+  start: number;
+  end: number;
+  // The clause the match was found in, for reviewers
+  clause: string;
+  suppressed?: SuppressionReason;
+  // The word or quotation cue that caused suppression
+  suppressedBy?: string;
+  explanation: string;
+}
+
+export interface CrisisRiskAssessment {
+  severity: RiskSeverity;
+  // 0-1, strongest counted indicator with a small boost for corroborating ones
+  score: number;
+  types: CrisisType[];
+  // A plan, intent or threat to others, or critical severity
+  immediateRisk: boolean;
+  indicators: RiskIndicator[];
+  // Matches that were found but not counted, with the reason
+  suppressed: RiskIndicator[];
+  protectiveFactors: string[];
+  language: RiskLanguage;
+  explanation: string[];
+  engineVersion: string;
+}
+
+export type ClauseSubject = 'first_person' | 'second_person' | 'third_person' | 'unspecified';
+
+export type ClauseTense = 'past' | 'present' | 'future';
+
+export interface SubjectMention {
+  person: Exclude<ClauseSubject, 'unspecified'>;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// The words a negation cue denies ("never [kill myself]")
+export interface NegationScope {
+  cue: string;
+  start: number;
+  end: number;
+}
+
+export interface ClauseAnalysis {
+  text: string;
+  start: number;
+  end: number;
+  // Person of the first subject mentioned
+  subject: ClauseSubject;
+  mentions: SubjectMention[];
+  tense: ClauseTense;
+  // Marker placing the clause well in the past ("used to", "years ago"), unless "still" or "again" brings it back
+  pastMarker: string | null;
+  // Opens with a conditional ("if", "what if", "suppose")
+  hypothetical: boolean;
+  // Follows a speech verb ("my friend said ...")
+  reportedSpeech: boolean;
+  speaker?: SubjectMention;
+  negations: NegationScope[];
+}
+
+// Per-language cue patterns for clause analysis
+export interface ClauseCues {
+  firstPerson: RegExp;
+  secondPerson: RegExp;
+  thirdPerson: RegExp;
+  past: RegExp;
+  remotePast: RegExp;
+  recent: RegExp;
+  future: RegExp;
+  // Anchored to the start of a clause
+  conditional: RegExp;
+  // A speech verb with its optional object and complementizer ("told me that")
+  speech: RegExp;
+}
+
+export interface RiskAssessmentOptions {
+  // The writer's language when known, e.g. their preferredLanguage. Its
+  // rules always run; when neither this nor the text settles the
+  // language, every language's rules run.
+  language?: string;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from '@jest/globals'
+import { forecastVolume } from '../forecast'
+import { buildCoverage, dutyRoster, requiredCounselors } from '../coverage'
+import { measureQueuePressure, nextOnCall, PAGE_ANSWER_TIMEOUT_MS } from '../paging'
+import { RotaShift } from '../types'
+import type { QueuedAlert } from '@/lib/crisis-queue/types'
+
+const HOUR = 60 * 60 * 1000
+const WEEK = 7 * 24 * HOUR
+// A Monday, 00:00 UTC
+const MONDAY = new Date(Date.UTC(2024, 0, 8))
+
+const at = (hours: number) => new Date(MONDAY.getTime() + hours * HOUR)
+
+const shift = (id: string, counselorId: string, from: number, to: number, role: RotaShift['role'] = 'primary'): RotaShift => ({
+  id,
+  counselorId,
+  role,
+  startsAt: at(from),
+  endsAt: at(to)
+})
+
+const queued = (id: string, overrides: Partial<QueuedAlert> = {}): QueuedAlert => ({
+  id,
+  userId: `user-${id}`,
+  type: 'other',
+  severity: 'medium',
+  status: 'pending',
+  assignedCounselorId: null,
+  supportingCounselorId: null,
+  escalationLevel: 0,
+  source: 'websocket',
+  message: '',
+  triggers: [],
+  language: null,
+  needs: [],
+  createdAt: MONDAY.getTime(),
+  updatedAt: MONDAY.getTime(),
+  assignedAt: null,
+  resolvedAt: null,
+  ...overrides
+})
+
+describe('forecastVolume', () => {
+  it('should forecast each hour from the same hour in previous weeks', () => {
+    // Monday 22:00 was busy in each of the last four weeks, 23:00 only once
+    const history = [1, 2, 3, 4].flatMap(week => [
+      new Date(at(22).getTime() - week * WEEK),
+      new Date(at(22).getTime() - week * WEEK + 10 * 60 * 1000),
+      new Date(at(22).getTime() - week * WEEK + 20 * 60 * 1000)
+    ])
+    history.push(new Date(at(23).getTime() - WEEK))
+
+    const [ten, eleven] = forecastVolume(history, at(22), 2, 4)
+
+    expect(ten).toMatchObject({ expected: 3, peak: 3, weeksObserved: 4 })
+    expect(eleven?.expected).toBe(0.25)
+    expect(eleven!.peak).toBeGreaterThan(eleven!.expected)
+  })
+
+  it('should ignore reports outside the history window', () => {
+    const tooOld = new Date(at(0).getTime() - 9 * WEEK)
+    const future = at(1)
+
+    expect(forecastVolume([tooOld, future], at(0), 1, 8)[0]?.expected).toBe(0)
+  })
+})
+
+describe('buildCoverage', () => {
+  it('should report hours with too few or no counselors scheduled', () => {
+    const forecast = [0, 1, 2, 3].map(hour => ({ hourStart: at(hour), expected: 3, peak: 3.5, weeksObserved: 8 }))
+    const shifts = [
+      shift('s1', 'alice', 0, 2),
+      shift('s2', 'bob', 0, 1),
+      shift('s3', 'carol', 1, 3, 'on_call')
+    ]
+
+    const coverage = buildCoverage(shifts, forecast)
+
+    expect(requiredCounselors(3.5)).toBe(2)
+    expect(coverage.slots.map(slot => slot.status)).toEqual(['covered', 'short', 'uncovered', 'uncovered'])
+    expect(coverage.gaps).toEqual([
+      { start: at(1), end: at(2), status: 'short', shortfall: 1, hasOnCall: true },
+      { start: at(2), end: at(3), status: 'uncovered', shortfall: 2, hasOnCall: true },
+      { start: at(3), end: at(4), status: 'uncovered', shortfall: 2, hasOnCall: false }
+    ])
+  })
+})
+
+describe('dutyRoster', () => {
+  it('should put primary staff on duty and on-call staff only once they answer a page', () => {
+    const shifts = [shift('s1', 'alice', 0, 8), shift('s2', 'bob', 0, 8, 'on_call'), shift('s3', 'carol', 8, 16)]
+
+    expect(dutyRoster(shifts, at(1))).toMatchObject({ scheduled: true, onDuty: ['alice'] })
+    expect(dutyRoster(shifts, at(1), ['bob']).onDuty).toEqual(['alice', 'bob'])
+    expect(dutyRoster(shifts, at(20)).scheduled).toBe(false)
+  })
+})
+
+describe('measureQueuePressure', () => {
+  it('should stay quiet while the queue keeps up', () => {
+    const alerts = [queued('1', { assignedCounselorId: 'alice', status: 'assigned' }), queued('2')]
+
+    expect(measureQueuePressure(alerts, 2, MONDAY.getTime() + 60 * 1000).reasons).toEqual([])
+  })
+
+  it('should flag a backlog, long waits and unassigned critical alerts', () => {
+    const now = MONDAY.getTime() + 6 * 60 * 1000
+    const alerts = [queued('1'), queued('2'), queued('3', { severity: 'critical' })]
+
+    const pressure = measureQueuePressure(alerts, 0, now)
+
+    expect(pressure.unassignedAlerts).toBe(3)
+    expect(pressure.reasons).toEqual([
+      '3 alerts are waiting for a counselor',
+      'An alert has waited 6 minutes',
+      '1 critical alert is unassigned',
+      'No counselors are available'
+    ])
+  })
+})
+
+describe('nextOnCall', () => {
+  const onCall = [shift('s1', 'bob', -2, 8, 'on_call'), shift('s2', 'dana', 0, 8, 'on_call')]
+  const now = at(1).getTime()
+
+  it('should page whoever has been on call longest', () => {
+    expect(nextOnCall(onCall, [], [], now)?.counselorId).toBe('bob')
+  })
+
+  it('should wait for an answer before paging the next counselor', () => {
+    const pages = [{ counselorId: 'bob', sentAt: new Date(now - 60 * 1000), acknowledgedAt: null }]
+
+    expect(nextOnCall(onCall, pages, [], now)).toBeNull()
+    expect(nextOnCall(onCall, pages, [], now - 60 * 1000 + PAGE_ANSWER_TIMEOUT_MS)?.counselorId).toBe('dana')
+  })
+
+  it('should skip counselors who are already taking alerts', () => {
+    expect(nextOnCall(onCall, [], ['bob'], now)?.counselorId).toBe('dana')
+  })
+})
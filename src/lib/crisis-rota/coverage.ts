@@ -0,0 +1,104 @@
+/**
+ * Crisis Rota Coverage
+ * Compares the shifts on the rota with forecast alert volume, hour by hour,
+ * and works out who should be taking alerts right now.
+ */
+
+import {
+  CoverageGap,
+  CoverageReport,
+  CoverageSlot,
+  CoverageStatus,
+  DutyRoster,
+  RotaShift,
+  VolumeForecast,
+} from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Alerts one counselor can work through in an hour at the forecast peak
+export const ALERTS_PER_COUNSELOR_HOUR = 2;
+
+// The line is never staffed by fewer than this, however quiet the forecast
+export const MIN_COUNSELORS_ON_DUTY = 1;
+
+export function requiredCounselors(peak: number): number {
+  return Math.max(MIN_COUNSELORS_ON_DUTY, Math.ceil(peak / ALERTS_PER_COUNSELOR_HOUR));
+}
+
+function overlaps(shift: RotaShift, start: number, end: number): boolean {
+  return shift.startsAt.getTime() < end && shift.endsAt.getTime() > start;
+}
+
+function covers(shift: RotaShift, at: number): boolean {
+  return shift.startsAt.getTime() <= at && shift.endsAt.getTime() > at;
+}
+
+function counselorsOn(shifts: RotaShift[]): string[] {
+  return Array.from(new Set(shifts.map(shift => shift.counselorId))).sort();
+}
+
+export function buildCoverage(shifts: RotaShift[], forecast: VolumeForecast[]): CoverageReport {
+  const slots: CoverageSlot[] = forecast.map(hour => {
+    const start = hour.hourStart.getTime();
+    const end = start + HOUR_MS;
+    const during = shifts.filter(shift => overlaps(shift, start, end));
+    const scheduledCounselors = counselorsOn(during.filter(shift => shift.role === 'primary'));
+    const onCallCounselors = counselorsOn(during.filter(shift => shift.role === 'on_call'))
+      .filter(counselorId => !scheduledCounselors.includes(counselorId));
+
+    const required = requiredCounselors(hour.peak);
+    const shortfall = Math.max(0, required - scheduledCounselors.length);
+    const status: CoverageStatus =
+      scheduledCounselors.length === 0 ? 'uncovered' : shortfall > 0 ? 'short' : 'covered';
+
+    return { ...hour, requiredCounselors: required, scheduledCounselors, onCallCounselors, shortfall, status };
+  });
+
+  const from = forecast[0]?.hourStart ?? new Date();
+  const to = new Date((forecast[forecast.length - 1]?.hourStart.getTime() ?? from.getTime() - HOUR_MS) + HOUR_MS);
+  return { from, to, slots, gaps: mergeGaps(slots) };
+}
+
+function mergeGaps(slots: CoverageSlot[]): CoverageGap[] {
+  const gaps: CoverageGap[] = [];
+  for (const slot of slots) {
+    if (slot.status === 'covered') continue;
+
+    const start = slot.hourStart;
+    const end = new Date(start.getTime() + HOUR_MS);
+    const hasOnCall = slot.onCallCounselors.length > 0;
+    const last = gaps[gaps.length - 1];
+    if (
+      last &&
+      last.end.getTime() === start.getTime() &&
+      last.status === slot.status &&
+      last.shortfall === slot.shortfall &&
+      last.hasOnCall === hasOnCall
+    ) {
+      last.end = end;
+    } else {
+      gaps.push({ start, end, status: slot.status, shortfall: slot.shortfall, hasOnCall });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Who should be taking alerts at `now`: counselors on a primary shift, and
+ * on-call counselors who have acknowledged a page during their shift
+ */
+export function dutyRoster(shifts: RotaShift[], now: Date, acknowledgedPagers: string[] = []): DutyRoster {
+  const at = now.getTime();
+  const current = shifts.filter(shift => covers(shift, at));
+  const onCall = current.filter(shift => shift.role === 'on_call');
+
+  return {
+    scheduled: current.length > 0,
+    onDuty: counselorsOn([
+      ...current.filter(shift => shift.role === 'primary'),
+      ...onCall.filter(shift => acknowledgedPagers.includes(shift.counselorId)),
+    ]),
+    onCall,
+  };
+}
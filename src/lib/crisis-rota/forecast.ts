@@ -0,0 +1,65 @@
+/**
+ * Crisis Volume Forecast
+ * Predicts alerts per hour from past crisis reports: each hour of the week
+ * (Monday 22:00, say) is forecast from the same hour in previous weeks.
+ * Hours are UTC so a forecast does not shift with the server's time zone.
+ */
+
+import { VolumeForecast } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const HOURS_PER_WEEK = 7 * 24;
+
+export const DEFAULT_HISTORY_WEEKS = 8;
+
+export function startOfHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+function hourOfWeek(date: Date): number {
+  return date.getUTCDay() * 24 + date.getUTCHours();
+}
+
+/**
+ * Forecast `hours` hourly slots starting at the hour containing `from`,
+ * from report times in the `historyWeeks` full weeks before it
+ */
+export function forecastVolume(
+  reportTimes: Date[],
+  from: Date,
+  hours: number,
+  historyWeeks: number = DEFAULT_HISTORY_WEEKS
+): VolumeForecast[] {
+  const start = startOfHour(from);
+  const historyStart = start.getTime() - historyWeeks * WEEK_MS;
+
+  // counts[hourOfWeek][week], week 0 being the most recent
+  const counts: number[][] = Array.from({ length: HOURS_PER_WEEK }, () => new Array(historyWeeks).fill(0));
+  for (const time of reportTimes) {
+    const at = time.getTime();
+    if (at < historyStart || at >= start.getTime()) continue;
+    const week = Math.floor((start.getTime() - 1 - at) / WEEK_MS);
+    counts[hourOfWeek(time)]![week]! += 1;
+  }
+
+  return Array.from({ length: hours }, (_, index) => {
+    const hourStart = new Date(start.getTime() + index * HOUR_MS);
+    const samples = counts[hourOfWeek(hourStart)]!;
+    const expected = historyWeeks > 0 ? samples.reduce((sum, count) => sum + count, 0) / historyWeeks : 0;
+    const variance = historyWeeks > 0
+      ? samples.reduce((sum, count) => sum + (count - expected) ** 2, 0) / historyWeeks
+      : 0;
+
+    return {
+      hourStart,
+      expected: round(expected),
+      peak: round(expected + Math.sqrt(variance)),
+      weeksObserved: historyWeeks,
+    };
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
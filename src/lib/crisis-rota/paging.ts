@@ -0,0 +1,86 @@
+/**
+ * On-call Paging
+ * Decides when the live crisis queue has backed up enough to page on-call
+ * staff, and which on-call counselor is next. Pages go out one at a time:
+ * the next counselor is paged only when the last page went unanswered or
+ * the queue is still behind after it was answered.
+ */
+
+import type { QueuedAlert } from '@/lib/crisis-queue/types';
+import { PagingThresholds, QueuePressure, RotaShift } from './types';
+
+export const DEFAULT_PAGING_THRESHOLDS: PagingThresholds = {
+  unassignedAlerts: 3,
+  longestWaitMs: 5 * 60 * 1000,
+  criticalWaitMs: 60 * 1000,
+};
+
+// How long to wait for an answer before paging the next counselor
+export const PAGE_ANSWER_TIMEOUT_MS = 5 * 60 * 1000;
+
+// A counselor is not paged again this soon, answered or not
+export const PAGE_COOLDOWN_MS = 30 * 60 * 1000;
+
+export interface SentPage {
+  counselorId: string;
+  sentAt: Date;
+  acknowledgedAt: Date | null;
+}
+
+const URGENT_SEVERITIES = ['critical', 'emergency'];
+
+export function measureQueuePressure(
+  alerts: QueuedAlert[],
+  availableCounselors: number,
+  now: number,
+  thresholds: PagingThresholds = DEFAULT_PAGING_THRESHOLDS
+): QueuePressure {
+  const unassigned = alerts.filter(alert => alert.status !== 'resolved' && !alert.assignedCounselorId);
+  const longestWaitMs = unassigned.reduce((longest, alert) => Math.max(longest, now - alert.createdAt), 0);
+  const urgentWaiting = unassigned.filter(
+    alert => URGENT_SEVERITIES.includes(alert.severity) && now - alert.createdAt >= thresholds.criticalWaitMs
+  );
+
+  const reasons: string[] = [];
+  if (unassigned.length >= thresholds.unassignedAlerts) {
+    reasons.push(`${unassigned.length} alerts are waiting for a counselor`);
+  }
+  if (unassigned.length > 0 && longestWaitMs >= thresholds.longestWaitMs) {
+    reasons.push(`An alert has waited ${Math.floor(longestWaitMs / 60000)} minutes`);
+  }
+  if (urgentWaiting.length > 0) {
+    reasons.push(`${urgentWaiting.length} critical alert${urgentWaiting.length === 1 ? ' is' : 's are'} unassigned`);
+  }
+  if (unassigned.length > 0 && availableCounselors === 0) {
+    reasons.push('No counselors are available');
+  }
+
+  return { unassignedAlerts: unassigned.length, longestWaitMs, availableCounselors, reasons };
+}
+
+/**
+ * The on-call shift to page next, or null to hold off
+ */
+export function nextOnCall(
+  onCall: RotaShift[],
+  recentPages: SentPage[],
+  availableCounselorIds: string[],
+  now: number
+): RotaShift | null {
+  const awaitingAnswer = recentPages.some(
+    page => !page.acknowledgedAt && now - page.sentAt.getTime() < PAGE_ANSWER_TIMEOUT_MS
+  );
+  if (awaitingAnswer) return null;
+
+  const pagedRecently = new Set(
+    recentPages.filter(page => now - page.sentAt.getTime() < PAGE_COOLDOWN_MS).map(page => page.counselorId)
+  );
+
+  // Whoever has been on call longest is paged first
+  return (
+    [...onCall]
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.counselorId.localeCompare(b.counselorId))
+      .find(shift => !pagedRecently.has(shift.counselorId) && !availableCounselorIds.includes(shift.counselorId)) ??
+    null
+  );
+}
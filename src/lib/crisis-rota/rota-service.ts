@@ -0,0 +1,265 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { buildCoverage, dutyRoster } from './coverage';
+import { DEFAULT_HISTORY_WEEKS, forecastVolume, startOfHour } from './forecast';
+import { nextOnCall, PAGE_COOLDOWN_MS } from './paging';
+import { CoverageReport, DutyRoster, QueuePressure, RotaShift, ShiftRole } from './types';
+
+export interface NewShift {
+  counselorId: string;
+  role: ShiftRole;
+  startsAt: Date;
+  endsAt: Date;
+  notes?: string;
+}
+
+// Longest single shift the rota accepts
+export const MAX_SHIFT_HOURS = 24;
+
+// Roles that can be put on the crisis rota
+const ROTA_ROLES: UserRole[] = [UserRole.CRISIS_COUNSELOR, UserRole.THERAPIST, UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+function toRotaShift(shift: {
+  id: string;
+  counselorId: string;
+  role: string;
+  startsAt: Date;
+  endsAt: Date;
+  notes: string | null;
+}): RotaShift {
+  return {
+    id: shift.id,
+    counselorId: shift.counselorId,
+    role: shift.role === 'on_call' ? 'on_call' : 'primary',
+    startsAt: shift.startsAt,
+    endsAt: shift.endsAt,
+    notes: shift.notes,
+  };
+}
+
+/**
+ * Crisis Rota Service
+ * Keeps the crisis line's shift rota, checks it against forecast alert
+ * volume, decides who is on duty at any moment and pages on-call backups
+ * when the live queue falls behind.
+ */
+export class CrisisRotaService {
+  private static instance: CrisisRotaService;
+
+  private constructor() {}
+
+  static getInstance(): CrisisRotaService {
+    if (!CrisisRotaService.instance) {
+      CrisisRotaService.instance = new CrisisRotaService();
+    }
+    return CrisisRotaService.instance;
+  }
+
+  async listShifts(from: Date, to: Date): Promise<RotaShift[]> {
+    const shifts = await prisma.crisisShift.findMany({
+      where: { startsAt: { lt: to }, endsAt: { gt: from } },
+      orderBy: [{ startsAt: 'asc' }, { counselorId: 'asc' }],
+    });
+    return shifts.map(toRotaShift);
+  }
+
+  /**
+   * Add shifts, all or none. A counselor cannot hold two overlapping
+   * shifts, whether already on the rota or in the same batch.
+   */
+  async createShifts(shifts: NewShift[], createdBy: string): Promise<RotaShift[]> {
+    for (const shift of shifts) {
+      if (shift.endsAt <= shift.startsAt) {
+        throw new ValidationError('Shifts must end after they start');
+      }
+      if (shift.endsAt.getTime() - shift.startsAt.getTime() > MAX_SHIFT_HOURS * HOUR_MS) {
+        throw new ValidationError(`Shifts cannot be longer than ${MAX_SHIFT_HOURS} hours`);
+      }
+    }
+
+    const counselorIds = Array.from(new Set(shifts.map(shift => shift.counselorId)));
+    const counselors = await prisma.user.findMany({
+      where: { id: { in: counselorIds }, role: { in: ROTA_ROLES }, isActive: true },
+      select: { id: true },
+    });
+    const missing = counselorIds.filter(id => !counselors.some(counselor => counselor.id === id));
+    if (missing.length > 0) {
+      throw new ValidationError('Shifts can only be given to active crisis staff', undefined, { counselorIds: missing });
+    }
+
+    return prisma.$transaction(async tx => {
+      const from = new Date(Math.min(...shifts.map(shift => shift.startsAt.getTime())));
+      const to = new Date(Math.max(...shifts.map(shift => shift.endsAt.getTime())));
+      const existing = await tx.crisisShift.findMany({
+        where: { counselorId: { in: counselorIds }, startsAt: { lt: to }, endsAt: { gt: from } },
+      });
+
+      const taken: { counselorId: string; startsAt: Date; endsAt: Date }[] = [...existing];
+      for (const shift of shifts) {
+        const clash = taken.find(
+          other =>
+            other.counselorId === shift.counselorId &&
+            other.startsAt < shift.endsAt &&
+            other.endsAt > shift.startsAt
+        );
+        if (clash) {
+          throw new WorkflowError('Counselor already has a shift at this time', {
+            counselorId: shift.counselorId,
+            startsAt: shift.startsAt,
+            conflictsWith: { startsAt: clash.startsAt, endsAt: clash.endsAt },
+          });
+        }
+        taken.push(shift);
+      }
+
+      const created = [];
+      for (const shift of shifts) {
+        created.push(
+          await tx.crisisShift.create({
+            data: {
+              id: generatePrismaCreateFields().id,
+              counselorId: shift.counselorId,
+              role: shift.role,
+              startsAt: shift.startsAt,
+              endsAt: shift.endsAt,
+              notes: shift.notes,
+              createdBy,
+            },
+          })
+        );
+      }
+      return created.map(toRotaShift);
+    });
+  }
+
+  async deleteShift(shiftId: string): Promise<RotaShift> {
+    const shift = await prisma.crisisShift.findUnique({ where: { id: shiftId } });
+    if (!shift) {
+      throw new WorkflowError('Shift not found', { shiftId });
+    }
+    await prisma.crisisShift.delete({ where: { id: shiftId } });
+    return toRotaShift(shift);
+  }
+
+  /**
+   * Who should be taking alerts at `now`
+   */
+  async getDutyRoster(now: Date = new Date()): Promise<DutyRoster> {
+    const shifts = await this.listShifts(now, new Date(now.getTime() + 1));
+    const onCall = shifts.filter(shift => shift.role === 'on_call');
+    if (onCall.length === 0) {
+      return dutyRoster(shifts, now);
+    }
+
+    // On-call counselors join once they answer a page during their shift
+    const earliest = new Date(Math.min(...onCall.map(shift => shift.startsAt.getTime())));
+    const answered = await prisma.crisisPage.findMany({
+      where: {
+        counselorId: { in: onCall.map(shift => shift.counselorId) },
+        acknowledgedAt: { not: null },
+        sentAt: { gte: earliest },
+      },
+      select: { counselorId: true, sentAt: true },
+    });
+    const acknowledged = answered
+      .filter(page =>
+        onCall.some(shift => shift.counselorId === page.counselorId && page.sentAt >= shift.startsAt)
+      )
+      .map(page => page.counselorId);
+    return dutyRoster(shifts, now, acknowledged);
+  }
+
+  /**
+   * Forecast volume and scheduled staff for each hour from `from`
+   */
+  async getCoverage(from: Date, hours: number, historyWeeks: number = DEFAULT_HISTORY_WEEKS): Promise<CoverageReport> {
+    const start = startOfHour(from);
+    const end = new Date(start.getTime() + hours * HOUR_MS);
+    const [reports, shifts] = await Promise.all([
+      prisma.crisisReport.findMany({
+        where: { createdAt: { gte: new Date(start.getTime() - historyWeeks * WEEK_MS), lt: start } },
+        select: { createdAt: true },
+      }),
+      this.listShifts(start, end),
+    ]);
+
+    const forecast = forecastVolume(
+      reports.map(report => report.createdAt),
+      start,
+      hours,
+      historyWeeks
+    );
+    return buildCoverage(shifts, forecast);
+  }
+
+  async listRecentPages(since: Date) {
+    return prisma.crisisPage.findMany({
+      where: { sentAt: { gte: since } },
+      orderBy: { sentAt: 'desc' },
+    });
+  }
+
+  /**
+   * Page the next on-call counselor about a backed-up queue. Null when
+   * nobody is on call, or the last page is still waiting for an answer.
+   */
+  async pageOnCall(pressure: QueuePressure, roster: DutyRoster, availableCounselorIds: string[], now: Date = new Date()) {
+    if (pressure.reasons.length === 0 || roster.onCall.length === 0) return null;
+
+    const recent = await this.listRecentPages(new Date(now.getTime() - PAGE_COOLDOWN_MS));
+    const shift = nextOnCall(roster.onCall, recent, availableCounselorIds, now.getTime());
+    if (!shift) return null;
+
+    const page = await prisma.crisisPage.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        counselorId: shift.counselorId,
+        shiftId: shift.id,
+        reasons: pressure.reasons,
+        unassignedAlerts: pressure.unassignedAlerts,
+        longestWaitSeconds: Math.round(pressure.longestWaitMs / 1000),
+        availableCounselors: pressure.availableCounselors,
+        sentAt: now,
+      },
+    });
+
+    try {
+      await notificationService.createNotification({
+        userId: shift.counselorId,
+        type: 'crisis',
+        title: 'On-call: crisis queue needs you',
+        message: pressure.reasons.join('. '),
+        priority: 'urgent',
+        data: { pageId: page.id, shiftId: shift.id },
+        actionUrl: '/crisis-dashboard?tab=rota',
+        actionText: 'Acknowledge',
+      });
+    } catch (error) {
+      // The page is on record; the next check pages someone else if this one goes unanswered
+      console.error('Failed to deliver on-call page:', error);
+    }
+
+    return page;
+  }
+
+  async acknowledgePage(pageId: string, counselorId: string, now: Date = new Date()) {
+    const page = await prisma.crisisPage.findUnique({ where: { id: pageId } });
+    if (!page || page.counselorId !== counselorId) {
+      throw new WorkflowError('Page not found', { pageId });
+    }
+    if (page.acknowledgedAt) return page;
+
+    return prisma.crisisPage.update({
+      where: { id: pageId },
+      data: { acknowledgedAt: now },
+    });
+  }
+}
+
+export const crisisRotaService = CrisisRotaService.getInstance();
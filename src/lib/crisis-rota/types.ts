@@ -0,0 +1,80 @@
+/**
+ * Crisis Rota Types
+ * Shifts, forecast coverage and on-call paging for the crisis line
+ */
+
+export type ShiftRole = 'primary' | 'on_call';
+
+export const SHIFT_ROLES: ShiftRole[] = ['primary', 'on_call'];
+
+export interface RotaShift {
+  id: string;
+  counselorId: string;
+  role: ShiftRole;
+  startsAt: Date;
+  endsAt: Date;
+  notes?: string | null;
+}
+
+export interface VolumeForecast {
+  // Start of the hour, UTC
+  hourStart: Date;
+  // Average alerts in this hour of the week over the history window
+  expected: number;
+  // Expected plus one standard deviation, what staffing is planned against
+  peak: number;
+  // Weeks of history the forecast is based on
+  weeksObserved: number;
+}
+
+export type CoverageStatus = 'covered' | 'short' | 'uncovered';
+
+export interface CoverageSlot extends VolumeForecast {
+  requiredCounselors: number;
+  scheduledCounselors: string[];
+  onCallCounselors: string[];
+  // Counselors missing against the requirement; 0 when covered
+  shortfall: number;
+  status: CoverageStatus;
+}
+
+export interface CoverageReport {
+  from: Date;
+  to: Date;
+  slots: CoverageSlot[];
+  // Consecutive hours with the same shortfall, merged for display
+  gaps: CoverageGap[];
+}
+
+export interface CoverageGap {
+  start: Date;
+  end: Date;
+  status: Exclude<CoverageStatus, 'covered'>;
+  shortfall: number;
+  hasOnCall: boolean;
+}
+
+export interface DutyRoster {
+  // False when no shift covers this moment, so the rota is not in use
+  scheduled: boolean;
+  // Counselors who should be taking alerts now
+  onDuty: string[];
+  onCall: RotaShift[];
+}
+
+export interface PagingThresholds {
+  // Unassigned alerts waiting at once
+  unassignedAlerts: number;
+  // How long the oldest unassigned alert may wait
+  longestWaitMs: number;
+  // How long a critical or emergency alert may wait unassigned
+  criticalWaitMs: number;
+}
+
+export interface QueuePressure {
+  unassignedAlerts: number;
+  longestWaitMs: number;
+  availableCounselors: number;
+  // Why on-call staff should be paged; empty when the queue is keeping up
+  reasons: string[];
+}
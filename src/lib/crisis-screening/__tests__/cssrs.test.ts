@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals'
+import { applicableQuestions, nextQuestion, scoreCssrs, validateAnswers } from '../cssrs'
+import { CssrsAnswers, CssrsVersion } from '../types'
+
+const ids = (version: CssrsVersion, answers: CssrsAnswers) =>
+  applicableQuestions(version, answers).map(question => question.id)
+
+describe('C-SSRS branching', () => {
+  it('should skip questions 3-5 when question 2 is no but always ask about behavior', () => {
+    const answers = { q1_past_month: true, q2_past_month: false }
+
+    expect(ids('screener', answers)).toEqual(['q1_past_month', 'q2_past_month', 'q6_lifetime'])
+    expect(nextQuestion('screener', answers)?.id).toBe('q6_lifetime')
+    expect(nextQuestion('screener', { ...answers, q6_lifetime: true })?.id).toBe('q6_past_3_months')
+    expect(nextQuestion('screener', { ...answers, q6_lifetime: false })).toBeNull()
+  })
+
+  it('should ask questions 3-5 once question 2 is yes', () => {
+    expect(ids('screener', { q1_past_month: false, q2_past_month: true })).toEqual([
+      'q1_past_month', 'q2_past_month', 'q3_past_month', 'q4_past_month', 'q5_past_month', 'q6_lifetime'
+    ])
+  })
+
+  it('should ask about the past month on the lifetime/recent version only after a lifetime yes', () => {
+    const answers = { q1_lifetime: true, q1_past_month: false, q2_lifetime: true, q2_past_month: false, q3_lifetime: false }
+
+    expect(ids('lifetime_recent', answers)).toEqual([
+      'q1_lifetime', 'q1_past_month', 'q2_lifetime', 'q2_past_month',
+      'q3_lifetime', 'q4_lifetime', 'q5_lifetime', 'q6_lifetime'
+    ])
+  })
+
+  it('should report unanswered and unknown questions', () => {
+    expect(validateAnswers('screener', { q1_past_month: false, q2_past_month: true, q9_past_month: true })).toEqual([
+      'Unknown question q9_past_month',
+      'Question 3 (past month) has not been answered',
+      'Question 4 (past month) has not been answered',
+      'Question 5 (past month) has not been answered',
+      'Question 6 (lifetime) has not been answered'
+    ])
+  })
+})
+
+describe('scoreCssrs', () => {
+  const screen = (answers: CssrsAnswers) => scoreCssrs('screener', {
+    q1_past_month: false, q2_past_month: false, q6_lifetime: false, ...answers
+  })
+
+  it('should triage with the standard risk levels', () => {
+    expect(screen({}).risk).toBe('none')
+    expect(screen({ q1_past_month: true }).risk).toBe('low')
+    expect(screen({ q2_past_month: true, q3_past_month: true, q4_past_month: false, q5_past_month: false }).risk).toBe('moderate')
+    expect(screen({ q6_lifetime: true, q6_past_3_months: false }).risk).toBe('moderate')
+    expect(screen({ q2_past_month: true, q3_past_month: false, q4_past_month: true, q5_past_month: false }).risk).toBe('high')
+    expect(screen({ q6_lifetime: true, q6_past_3_months: true }).risk).toBe('high')
+  })
+
+  it('should not let lifetime ideation set the level but report it', () => {
+    const result = scoreCssrs('lifetime_recent', {
+      q1_lifetime: true, q1_past_month: true,
+      q2_lifetime: true, q2_past_month: false,
+      q3_lifetime: true, q4_lifetime: true, q5_lifetime: true,
+      q6_lifetime: false
+    })
+
+    expect(result.risk).toBe('low')
+    expect(result.ideation).toEqual({ recent: 1, lifetime: 5 })
+    expect(result.reasons).toContain('At the worst point: active suicidal ideation with specific plan and intent')
+  })
+
+  it('should drop answers to questions the branching skipped', () => {
+    const result = screen({ q2_past_month: false, q5_past_month: true })
+
+    expect(result.risk).toBe('none')
+    expect(result.answers).toEqual({ q1_past_month: false, q2_past_month: false, q6_lifetime: false })
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * C-SSRS
+ * Questions, branching and risk triage for the Columbia Suicide Severity
+ * Rating Scale screens. Wording follows the published Screen Version.
+ *
+ * Branching, as on the paper form: items 1 and 2 are always asked; items
+ * 3-5 only when item 2 is "yes"; the behavior item is always asked, with
+ * "was this within the past 3 months?" after a "yes". On the
+ * Lifetime/Recent version each ideation item is asked for the worst point
+ * in the person's life, then for the past month if that was "yes".
+ */
+
+import {
+  CssrsAnswers,
+  CssrsItem,
+  CssrsPeriod,
+  CssrsQuestion,
+  CssrsResult,
+  CssrsRisk,
+  CssrsVersion,
+} from './types';
+
+const ITEMS: Record<CssrsItem, { text: string; construct: string }> = {
+  1: {
+    text: 'Have you wished you were dead or wished you could go to sleep and not wake up?',
+    construct: 'Wish to be dead',
+  },
+  2: {
+    text: 'Have you actually had any thoughts of killing yourself?',
+    construct: 'Non-specific active suicidal thoughts',
+  },
+  3: {
+    text: 'Have you been thinking about how you might do this?',
+    construct: 'Active suicidal ideation with any methods (not plan) without intent to act',
+  },
+  4: {
+    text: 'Have you had these thoughts and had some intention of acting on them?',
+    construct: 'Active suicidal ideation with some intent to act, without specific plan',
+  },
+  5: {
+    text: 'Have you started to work out or worked out the details of how to kill yourself? Do you intend to carry out this plan?',
+    construct: 'Active suicidal ideation with specific plan and intent',
+  },
+  6: {
+    text: 'Have you ever done anything, started to do anything, or prepared to do anything to end your life? ' +
+      "For example: collected pills, obtained a gun, gave away valuables, wrote a will or suicide note, took out pills but didn't swallow any, " +
+      "held a gun but changed your mind or it was grabbed from your hand, went to the roof but didn't jump; " +
+      'or actually took pills, tried to shoot yourself, cut yourself, tried to hang yourself, etc.',
+    construct: 'Suicidal behavior',
+  },
+};
+
+export const PERIOD_LABELS: Record<CssrsPeriod, string> = {
+  lifetime: 'Lifetime',
+  past_month: 'Past month',
+  past_3_months: 'Past 3 months',
+};
+
+const IDEATION_ITEMS: CssrsItem[] = [1, 2, 3, 4, 5];
+
+export function questionId(item: CssrsItem, period: CssrsPeriod): string {
+  return `q${item}_${period}`;
+}
+
+function question(item: CssrsItem, period: CssrsPeriod, requires: string[] = []): CssrsQuestion {
+  return { id: questionId(item, period), item, period, ...ITEMS[item], requires };
+}
+
+const BEHAVIOR_QUESTIONS: CssrsQuestion[] = [
+  question(6, 'lifetime'),
+  {
+    ...question(6, 'past_3_months', [questionId(6, 'lifetime')]),
+    text: 'Was this within the past 3 months?',
+  },
+];
+
+export const CSSRS_QUESTIONS: Record<CssrsVersion, CssrsQuestion[]> = {
+  screener: [
+    ...IDEATION_ITEMS.map(item => question(item, 'past_month', item >= 3 ? [questionId(2, 'past_month')] : [])),
+    ...BEHAVIOR_QUESTIONS,
+  ],
+  lifetime_recent: [
+    ...IDEATION_ITEMS.flatMap(item => {
+      const lifetime = question(item, 'lifetime', item >= 3 ? [questionId(2, 'lifetime')] : []);
+      const pastMonth = question(item, 'past_month', [
+        lifetime.id,
+        ...(item >= 3 ? [questionId(2, 'past_month')] : []),
+      ]);
+      return [lifetime, pastMonth];
+    }),
+    ...BEHAVIOR_QUESTIONS,
+  ],
+};
+
+/**
+ * The questions that apply given the answers so far, in the order they are asked
+ */
+export function applicableQuestions(version: CssrsVersion, answers: CssrsAnswers): CssrsQuestion[] {
+  return CSSRS_QUESTIONS[version].filter(q => q.requires.every(id => answers[id] === true));
+}
+
+/**
+ * The next question to ask, or null once the screen is complete
+ */
+export function nextQuestion(version: CssrsVersion, answers: CssrsAnswers): CssrsQuestion | null {
+  return applicableQuestions(version, answers).find(q => answers[q.id] === undefined) ?? null;
+}
+
+/**
+ * Problems that stop a screen being scored: unanswered questions and
+ * answers to questions that do not exist
+ */
+export function validateAnswers(version: CssrsVersion, answers: CssrsAnswers): string[] {
+  const known = new Set(CSSRS_QUESTIONS[version].map(q => q.id));
+  const problems = Object.keys(answers)
+    .filter(id => !known.has(id))
+    .map(id => `Unknown question ${id}`);
+
+  for (const q of applicableQuestions(version, answers)) {
+    if (typeof answers[q.id] !== 'boolean') {
+      problems.push(`Question ${q.item} (${PERIOD_LABELS[q.period].toLowerCase()}) has not been answered`);
+    }
+  }
+  return problems;
+}
+
+function mostSevereIdeation(answers: CssrsAnswers, period: CssrsPeriod): number {
+  return Math.max(0, ...IDEATION_ITEMS.filter(item => answers[questionId(item, period)] === true));
+}
+
+export const RECOMMENDED_ACTIONS: Record<CssrsRisk, string[]> = {
+  high: [
+    'Do not leave the person alone; connect them with a crisis counselor now',
+    'Arrange an immediate emergency mental health evaluation',
+    'Review the safety plan and remove access to lethal means',
+  ],
+  moderate: [
+    'Consult a licensed clinician before the contact ends',
+    'Complete or review the safety plan, including access to lethal means',
+    'Refer for a behavioral health follow-up within 24 hours',
+  ],
+  low: [
+    'Refer for a behavioral health follow-up',
+    'Share crisis line contacts and review coping strategies',
+  ],
+  none: [
+    'Continue routine care and screen again at the next contact',
+  ],
+};
+
+/**
+ * Score a complete screen with the standard C-SSRS triage: intent, a plan
+ * or behavior in the past 3 months is high risk; a method, or behavior
+ * longer ago, moderate; a wish to be dead or non-specific thoughts, low.
+ * Lifetime ideation is reported alongside but does not set the level.
+ */
+export function scoreCssrs(version: CssrsVersion, rawAnswers: CssrsAnswers): CssrsResult {
+  const applicable = applicableQuestions(version, rawAnswers);
+  const answers: CssrsAnswers = Object.fromEntries(
+    applicable.filter(q => typeof rawAnswers[q.id] === 'boolean').map(q => [q.id, rawAnswers[q.id]!])
+  );
+
+  const recent = mostSevereIdeation(answers, 'past_month');
+  const lifetime = version === 'lifetime_recent' ? mostSevereIdeation(answers, 'lifetime') : null;
+  const behavior = {
+    lifetime: answers[questionId(6, 'lifetime')] === true,
+    recent: answers[questionId(6, 'past_3_months')] === true,
+  };
+
+  const reasons: string[] = [];
+  if (recent >= 4) reasons.push(`${ITEMS[recent as CssrsItem].construct} in the past month`);
+  if (behavior.recent) reasons.push('Suicidal behavior in the past 3 months');
+  if (recent === 3) reasons.push(`${ITEMS[3].construct} in the past month`);
+  if (behavior.lifetime && !behavior.recent) reasons.push('Suicidal behavior more than 3 months ago');
+  if (recent > 0 && recent <= 2) reasons.push(`${ITEMS[recent as CssrsItem].construct} in the past month`);
+  if (lifetime !== null && lifetime > recent) {
+    reasons.push(`At the worst point: ${ITEMS[lifetime as CssrsItem].construct.toLowerCase()}`);
+  }
+
+  const risk: CssrsRisk =
+    recent >= 4 || behavior.recent ? 'high' :
+    recent === 3 || behavior.lifetime ? 'moderate' :
+    recent > 0 ? 'low' :
+    'none';
+
+  return {
+    version,
+    risk,
+    ideation: { recent, lifetime },
+    behavior,
+    reasons,
+    recommendedActions: RECOMMENDED_ACTIONS[risk],
+    answers,
+  };
+}
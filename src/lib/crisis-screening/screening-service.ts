@@ -0,0 +1,379 @@
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { decryptJSON, encryptJSON } from '@/lib/encryption-exports';
+import { CrisisQueue, generateAlertId, getCrisisQueue, NewQueuedAlert } from '@/lib/crisis-queue/crisis-queue';
+import { crisisHandoffService } from '@/lib/crisis-handoff/handoff-service';
+import type { QueuedAlertSeverity } from '@/lib/crisis-queue/types';
+import { RECOMMENDED_ACTIONS, scoreCssrs, validateAnswers } from './cssrs';
+import { CssrsAnswers, CssrsResult, CssrsRisk, CssrsVersion } from './types';
+
+export interface NewScreening {
+  version: CssrsVersion;
+  answers: CssrsAnswers;
+  administeredBy: string;
+  // The person screened, if they have an account
+  userId?: string;
+  // Their crisis client record
+  reportId?: string;
+}
+
+export interface ScreeningSummary {
+  id: string;
+  userId: string | null;
+  reportId: string | null;
+  alertId: string | null;
+  version: CssrsVersion;
+  risk: CssrsRisk;
+  ideationRecent: number;
+  ideationLifetime: number | null;
+  behaviorLifetime: boolean;
+  behaviorRecent: boolean;
+  administeredBy: string;
+  createdAt: Date;
+}
+
+// Client record risk levels, as used by /api/crisis/clients, least to most urgent
+type ClientRiskLevel = 'low' | 'moderate' | 'high' | 'imminent';
+
+const CLIENT_RISK_LEVELS: ClientRiskLevel[] = ['low', 'moderate', 'high', 'imminent'];
+
+const CLIENT_SEVERITY_LEVELS: Record<ClientRiskLevel, number> = {
+  imminent: 10,
+  high: 7,
+  moderate: 5,
+  low: 3,
+};
+
+type ScreeningRow = Omit<ScreeningSummary, 'version' | 'risk'> & {
+  version: string;
+  risk: string;
+  answersEncrypted: unknown;
+};
+
+function toSummary(screening: ScreeningRow): ScreeningSummary {
+  return {
+    id: screening.id,
+    userId: screening.userId,
+    reportId: screening.reportId,
+    alertId: screening.alertId,
+    version: screening.version === 'lifetime_recent' ? 'lifetime_recent' : 'screener',
+    risk: screening.risk as CssrsRisk,
+    ideationRecent: screening.ideationRecent,
+    ideationLifetime: screening.ideationLifetime,
+    behaviorLifetime: screening.behaviorLifetime,
+    behaviorRecent: screening.behaviorRecent,
+    administeredBy: screening.administeredBy,
+    createdAt: screening.createdAt,
+  };
+}
+
+/**
+ * Where a result puts the client on the client record's scale. A plan or
+ * recent behavior is imminent; other high-risk answers are high.
+ */
+function clientRiskLevel(result: CssrsResult): ClientRiskLevel | null {
+  switch (result.risk) {
+    case 'high':
+      return result.ideation.recent === 5 || result.behavior.recent ? 'imminent' : 'high';
+    case 'moderate':
+      return 'moderate';
+    case 'low':
+      return 'low';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Crisis Screening Service
+ * Records C-SSRS screens against the client's crisis record. A high-risk
+ * result goes straight onto the live crisis alert queue, where it is
+ * routed to a counselor and escalated like any other crisis alert.
+ */
+export class CrisisScreeningService {
+  private static instance: CrisisScreeningService;
+  private queue: CrisisQueue;
+
+  private constructor(queue: CrisisQueue = getCrisisQueue()) {
+    this.queue = queue;
+  }
+
+  static getInstance(): CrisisScreeningService {
+    if (!CrisisScreeningService.instance) {
+      CrisisScreeningService.instance = new CrisisScreeningService();
+    }
+    return CrisisScreeningService.instance;
+  }
+
+  /**
+   * Score and record a screen. `alertUnavailable` is set when the result is
+   * high risk but no alert could be raised, because the crisis client has no
+   * account for the queue to alert on; the counselor must escalate by hand.
+   */
+  async recordScreening(
+    screening: NewScreening,
+    now: Date = new Date()
+  ): Promise<{ screening: ScreeningSummary; result: CssrsResult; alertUnavailable: boolean }> {
+    const problems = validateAnswers(screening.version, screening.answers);
+    if (problems.length > 0) {
+      throw new ValidationError('The C-SSRS screen is incomplete', undefined, { problems });
+    }
+    if (!screening.userId && !screening.reportId) {
+      throw new ValidationError('A screen must be recorded for a crisis client or a user');
+    }
+
+    const result = scoreCssrs(screening.version, screening.answers);
+
+    let report = screening.reportId
+      ? await prisma.crisisReport.findUnique({ where: { id: screening.reportId } })
+      : null;
+    if (screening.reportId && !report) {
+      throw new WorkflowError('Crisis client not found', { reportId: screening.reportId });
+    }
+    const userId = screening.userId ?? report?.userId ?? null;
+
+    // Without a record named, the result goes on the user's open one, or a
+    // new one if the result is high risk
+    if (!report && userId) {
+      report = await prisma.crisisReport.findFirst({
+        where: { userId, resolved: false },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!report && result.risk === 'high') {
+        report = await this.createClientRecord(userId, result, screening.administeredBy, now);
+      }
+    }
+
+    const alertId = result.risk === 'high' && userId ? await this.raiseAlert(userId, result, now) : null;
+
+    const created = await prisma.cssrsScreening.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId,
+        reportId: report?.id ?? null,
+        alertId,
+        version: screening.version,
+        answersEncrypted: encryptJSON(result.answers),
+        risk: result.risk,
+        ideationRecent: result.ideation.recent,
+        ideationLifetime: result.ideation.lifetime,
+        behaviorLifetime: result.behavior.lifetime,
+        behaviorRecent: result.behavior.recent,
+        administeredBy: screening.administeredBy,
+        createdAt: now,
+      },
+    });
+
+    if (report) {
+      await this.updateClientRecord(report, created.id, result, screening.administeredBy, now);
+      if (alertId) {
+        // The alert's chain of custody is kept on the same record
+        await crisisHandoffService.linkReport(alertId, report.id);
+      }
+    }
+
+    return { screening: toSummary(created), result, alertUnavailable: result.risk === 'high' && !alertId };
+  }
+
+  async listScreenings(filter: { userId?: string; reportId?: string }, limit = 50): Promise<ScreeningSummary[]> {
+    const screenings = await prisma.cssrsScreening.findMany({
+      where: {
+        ...(filter.userId && { userId: filter.userId }),
+        ...(filter.reportId && { reportId: filter.reportId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return screenings.map(toSummary);
+  }
+
+  /**
+   * A screen with its answers. The risk and item levels are the ones
+   * recorded; the answers only supply the reasons. Answers that cannot be
+   * decrypted are reported unavailable rather than scored as all "no".
+   */
+  async getScreening(
+    screeningId: string
+  ): Promise<{ screening: ScreeningSummary; result: CssrsResult; answersAvailable: boolean }> {
+    const screening = await prisma.cssrsScreening.findUnique({ where: { id: screeningId } });
+    if (!screening) {
+      throw new WorkflowError('Screening not found', { screeningId });
+    }
+
+    const summary = toSummary(screening);
+    // decryptJSON returns {} on failure, and a recorded screen always has answers
+    const answers = decryptJSON(screening.answersEncrypted as string) as CssrsAnswers;
+    const answersAvailable = Object.keys(answers).length > 0;
+    const rescored = answersAvailable ? scoreCssrs(summary.version, answers) : null;
+
+    return {
+      screening: summary,
+      result: {
+        version: summary.version,
+        risk: summary.risk,
+        ideation: { recent: summary.ideationRecent, lifetime: summary.ideationLifetime },
+        behavior: { lifetime: summary.behaviorLifetime, recent: summary.behaviorRecent },
+        reasons: rescored?.reasons ?? [],
+        recommendedActions: RECOMMENDED_ACTIONS[summary.risk],
+        answers: rescored?.answers ?? {},
+      },
+      answersAvailable,
+    };
+  }
+
+  /**
+   * Most recent screen on each of the given client records
+   */
+  async getLatestForReports(reportIds: string[]): Promise<Map<string, ScreeningSummary>> {
+    const screenings = await prisma.cssrsScreening.findMany({
+      where: { reportId: { in: reportIds } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const latest = new Map<string, ScreeningSummary>();
+    for (const screening of screenings) {
+      if (screening.reportId && !latest.has(screening.reportId)) {
+        latest.set(screening.reportId, toSummary(screening));
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Put a high-risk result on the live queue. A user who already has an
+   * open alert has it raised to this severity instead of getting a second.
+   */
+  private async raiseAlert(userId: string, result: CssrsResult, now: Date): Promise<string> {
+    const severity: QueuedAlertSeverity = clientRiskLevel(result) === 'imminent' ? 'critical' : 'high';
+    const message = `C-SSRS screen: ${result.reasons.join('; ')}`;
+
+    const existing = await this.queue.findOpenForUser(userId);
+    if (existing) {
+      if (existing.severity !== 'critical' && existing.severity !== 'emergency' && existing.severity !== severity) {
+        const updated = await this.queue.update(existing.id, {
+          severity,
+          triggers: [...existing.triggers, ...result.reasons],
+        });
+        await prisma.safetyAlert.updateMany({
+          where: { id: existing.id },
+          data: { severity, indicators: updated?.triggers ?? existing.triggers },
+        });
+      }
+      return existing.id;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredLanguage: true },
+    });
+
+    const alert: NewQueuedAlert = {
+      id: generateAlertId(),
+      userId,
+      type: 'suicidal_ideation',
+      severity,
+      source: 'cssrs',
+      message,
+      triggers: result.reasons,
+      language: user?.preferredLanguage ?? null,
+      needs: ['suicide_prevention'],
+    };
+    await prisma.safetyAlert.create({
+      data: {
+        id: alert.id,
+        type: alert.type,
+        userId,
+        severity,
+        context: message,
+        indicators: result.reasons,
+        actions: [],
+        handled: false,
+        detectedAt: now,
+        source: alert.source,
+        language: alert.language,
+        needs: alert.needs,
+      },
+    });
+    await this.queue.enqueue(alert);
+    return alert.id;
+  }
+
+  private async createClientRecord(userId: string, result: CssrsResult, administeredBy: string, now: Date) {
+    const riskLevel = clientRiskLevel(result) ?? 'high';
+    return prisma.crisisReport.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId,
+        severityLevel: CLIENT_SEVERITY_LEVELS[riskLevel],
+        triggerType: 'suicidal_ideation',
+        interventionType: 'initial_assessment',
+        encryptedDetails: {
+          riskLevel,
+          primaryConcern: 'suicidal_ideation',
+          status: 'active',
+          assignedCounselor: administeredBy,
+          createdBy: administeredBy,
+          createdAt: now.toISOString(),
+        },
+        responseTime: 0,
+        resolved: false,
+        emergencyContactUsed: false,
+        updatedAt: now,
+      },
+    });
+  }
+
+  /**
+   * Note the screen on the client record and raise, never lower, its risk
+   * level; only a counselor lowers it. Records whose details are encrypted
+   * only have their severity raised.
+   */
+  private async updateClientRecord(
+    report: { id: string; severityLevel: number; encryptedDetails: unknown },
+    screeningId: string,
+    result: CssrsResult,
+    administeredBy: string,
+    now: Date
+  ): Promise<void> {
+    const riskLevel = clientRiskLevel(result);
+    const severityLevel = Math.max(report.severityLevel, riskLevel ? CLIENT_SEVERITY_LEVELS[riskLevel] : 0);
+
+    const details = report.encryptedDetails;
+    if (!details || typeof details !== 'object' || Array.isArray(details)) {
+      await prisma.crisisReport.update({
+        where: { id: report.id },
+        data: { severityLevel, updatedAt: now },
+      });
+      return;
+    }
+
+    const current = details as Record<string, unknown>;
+    const currentLevel = CLIENT_RISK_LEVELS.indexOf(current.riskLevel as ClientRiskLevel);
+    const raised = riskLevel && CLIENT_RISK_LEVELS.indexOf(riskLevel) > currentLevel;
+
+    await prisma.crisisReport.update({
+      where: { id: report.id },
+      data: {
+        severityLevel,
+        encryptedDetails: {
+          ...current,
+          ...(raised && { riskLevel }),
+          latestScreening: {
+            id: screeningId,
+            version: result.version,
+            risk: result.risk,
+            reasons: result.reasons,
+            administeredBy,
+            at: now.toISOString(),
+          },
+          lastUpdatedBy: administeredBy,
+          lastUpdatedAt: now.toISOString(),
+        },
+        updatedAt: now,
+      },
+    });
+  }
+}
+
+export const crisisScreeningService = CrisisScreeningService.getInstance();
@@ -0,0 +1,58 @@
+/**
+ * Crisis Screening Types
+ * Columbia Suicide Severity Rating Scale (C-SSRS) screens
+ */
+
+// The Screen Version asks about the past month, plus suicidal behavior
+// ever and in the past 3 months. The Lifetime/Recent version asks each
+// ideation item twice: at the worst point in the person's life, and in
+// the past month.
+export type CssrsVersion = 'screener' | 'lifetime_recent';
+
+export const CSSRS_VERSIONS: CssrsVersion[] = ['screener', 'lifetime_recent'];
+
+export type CssrsPeriod = 'lifetime' | 'past_month' | 'past_3_months';
+
+// C-SSRS items 1-5 are ideation of increasing severity, item 6 is behavior
+export type CssrsItem = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface CssrsQuestion {
+  // e.g. 'q3_past_month'
+  id: string;
+  item: CssrsItem;
+  period: CssrsPeriod;
+  text: string;
+  // What a "yes" means, for the counselor recording it
+  construct: string;
+  // Only asked once all of these have been answered "yes"
+  requires: string[];
+}
+
+// Question id -> yes/no
+export type CssrsAnswers = Record<string, boolean>;
+
+// Standard C-SSRS screen triage
+export type CssrsRisk = 'none' | 'low' | 'moderate' | 'high';
+
+export const CSSRS_RISKS: CssrsRisk[] = ['none', 'low', 'moderate', 'high'];
+
+export interface CssrsResult {
+  version: CssrsVersion;
+  risk: CssrsRisk;
+  // Most severe ideation item endorsed (0-5), recently and, on the
+  // Lifetime/Recent version, at the worst point in the person's life
+  ideation: {
+    recent: number;
+    lifetime: number | null;
+  };
+  behavior: {
+    lifetime: boolean;
+    // Within the past 3 months
+    recent: boolean;
+  };
+  // Why the risk level was given, in the counselor's terms
+  reasons: string[];
+  recommendedActions: string[];
+  // Answers to the questions that applied; answers the branching skipped are dropped
+  answers: CssrsAnswers;
+}
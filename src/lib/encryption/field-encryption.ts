@@ -73,6 +73,8 @@ export const PHI_FIELD_TYPES = {
   MOOD_DATA: 'mood_data',
   JOURNAL_ENTRY: 'journal_entry',
   SESSION_TRANSCRIPT: 'session_transcript',
+  AI_CONVERSATION_MEMORY: 'ai_conversation_memory',
+  EXERCISE_RESPONSES: 'exercise_responses',
   
   // Communication
   PRIVATE_MESSAGE: 'private_message',
@@ -301,6 +301,19 @@ export class ResourceLimitError extends AppError {
   }
 }
 
+export class WorkflowError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(
+      message,
+      ErrorCategory.WORKFLOW,
+      ErrorSeverity.LOW,
+      409,
+      true,
+      context
+    );
+  }
+}
+
 // Error code mappings for consistent error responses
 export const ERROR_CODES = {
   // Authentication
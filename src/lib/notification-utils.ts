@@ -381,7 +381,8 @@ export async function sendTemplatedNotification(
   userId: string,
   templateName: string,
   variables: Record<string, any>,
-  channels?: NotificationChannel[]
+  channels?: NotificationChannel[],
+  options: { scheduledFor?: Date; metadata?: Record<string, any> } = {}
 ): Promise<{ sent: number; failed: number }> {
   // Get template
   const template = await prisma.notificationTemplate.findFirst({
@@ -473,8 +474,8 @@ export async function sendTemplatedNotification(
         subject,
         content,
         template.priority as NotificationPriority,
-        undefined,
-        { variables: fullVariables }
+        options.scheduledFor,
+        { ...options.metadata, variables: fullVariables }
       );
       
       sent++;
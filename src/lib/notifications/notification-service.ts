@@ -116,23 +116,32 @@ export class NotificationService {
   async createNotification(payload: NotificationPayload): Promise<string> {
     try {
       // Store notification in database
-      const notification = await prisma.notification.create({
+      // Priority and action details live in metadata on the Notification model
+      const stored = await prisma.notification.create({
         data: {
           id: crypto.randomUUID(),
           userId: payload.userId,
           type: payload.type,
           title: payload.title,
           message: payload.message,
-          priority: payload.priority,
-          data: payload.data || {},
-          actionUrl: payload.actionUrl,
-          actionText: payload.actionText,
+          isPriority: payload.priority === 'high' || payload.priority === 'urgent',
           isRead: false,
-          expiresAt: payload.expiresAt,
+          metadata: {
+            ...(payload.data || {}),
+            priority: payload.priority,
+            actionUrl: payload.actionUrl,
+            actionText: payload.actionText,
+            expiresAt: payload.expiresAt?.toISOString(),
+          },
           createdAt: new Date(),
-          updatedAt: new Date(),
         },
       });
+      const notification = {
+        ...stored,
+        priority: payload.priority,
+        actionUrl: payload.actionUrl,
+        actionText: payload.actionText,
+      };
 
       // Get user's notification preferences
       const preferences = await this.getUserPreferences(payload.userId);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  INSTRUMENT_NORMS,
+  buildTrajectory,
+  calculateSlopePerWeek,
+  classifyChange,
+  evaluateOnTrack,
+  getReliableChangeThreshold,
+} from '../reliable-change'
+import { TrajectoryPoint } from '../types'
+
+const week = (n: number) => new Date(Date.UTC(2024, 0, 1) + n * 7 * 24 * 60 * 60 * 1000)
+
+const points = (...entries: Array<[number, number]>): TrajectoryPoint[] =>
+  entries.map(([weekNumber, score], i) => ({
+    assessmentId: `a${i}`,
+    administeredAt: week(weekNumber),
+    score,
+  }))
+
+describe('Reliable change', () => {
+  describe('getReliableChangeThreshold', () => {
+    it('should derive instrument thresholds from reliability and SD', () => {
+      expect(getReliableChangeThreshold(INSTRUMENT_NORMS.phq9)).toBeCloseTo(6.1, 1)
+      expect(getReliableChangeThreshold(INSTRUMENT_NORMS.gad7)).toBeCloseTo(3.92, 1)
+    })
+  })
+
+  describe('classifyChange', () => {
+    it('should classify recovery when improvement crosses the clinical cut-off', () => {
+      const result = classifyChange(18, 8, INSTRUMENT_NORMS.phq9)
+
+      expect(result.category).toBe('recovered')
+      expect(result.clinicallySignificant).toBe(true)
+      expect(result.reliableChangeIndex).toBeLessThan(-1.96)
+    })
+
+    it('should classify reliable improvement that stays in the clinical range', () => {
+      const result = classifyChange(25, 15, INSTRUMENT_NORMS.phq9)
+
+      expect(result.category).toBe('improved')
+      expect(result.clinicallySignificant).toBe(false)
+    })
+
+    it('should not treat changes below the threshold as reliable', () => {
+      expect(classifyChange(15, 10, INSTRUMENT_NORMS.phq9).category).toBe('no_reliable_change')
+    })
+
+    it('should classify reliable deterioration', () => {
+      expect(classifyChange(8, 14, INSTRUMENT_NORMS.gad7).category).toBe('deteriorated')
+    })
+  })
+
+  describe('buildTrajectory', () => {
+    it('should sort points and summarise change from baseline', () => {
+      const trajectory = buildTrajectory('client-1', 'phq9', points([4, 9], [0, 18], [8, 8]))!
+
+      expect(trajectory.baseline.score).toBe(18)
+      expect(trajectory.latest.score).toBe(8)
+      expect(trajectory.change).toBe(-10)
+      expect(trajectory.category).toBe('recovered')
+      expect(trajectory.weeksInTreatment).toBe(8)
+      expect(trajectory.slopePerWeek).toBeLessThan(0)
+    })
+
+    it('should not report reliable change from a single administration', () => {
+      const trajectory = buildTrajectory('client-1', 'phq9', points([0, 20]))!
+
+      expect(trajectory.reliableChangeIndex).toBeNull()
+      expect(trajectory.category).toBe('no_reliable_change')
+      expect(calculateSlopePerWeek(trajectory.points)).toBeNull()
+    })
+  })
+
+  describe('evaluateOnTrack', () => {
+    it('should alert on reliable deterioration', () => {
+      const trajectory = buildTrajectory('client-1', 'phq9', points([0, 10], [2, 17]))!
+
+      expect(evaluateOnTrack(trajectory, week(2))).toEqual(expect.objectContaining({
+        reason: 'reliable_deterioration',
+        severity: 'high',
+      }))
+    })
+
+    it('should alert on a reliable rise since the previous administration', () => {
+      const trajectory = buildTrajectory('client-1', 'phq9', points([0, 16], [2, 6], [4, 13]))!
+
+      expect(evaluateOnTrack(trajectory, week(4))?.reason).toBe('worsening_since_last')
+    })
+
+    it('should alert when a clinical client has not reliably improved by the review point', () => {
+      const trajectory = buildTrajectory('client-1', 'gad7', points([0, 14], [3, 13], [6, 12]))!
+
+      expect(evaluateOnTrack(trajectory, week(5))).toBeNull()
+      expect(evaluateOnTrack(trajectory, week(6))).toEqual(expect.objectContaining({
+        reason: 'no_reliable_improvement',
+        severity: 'medium',
+      }))
+    })
+
+    it('should not alert for clients who are improving', () => {
+      const trajectory = buildTrajectory('client-1', 'phq9', points([0, 18], [3, 12], [6, 9]))!
+
+      expect(evaluateOnTrack(trajectory, week(6))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { prisma } from '@/lib/prisma';
+import { decryptJSON } from '@/lib/encryption-exports';
+import {
+  NotOnTrackAlert,
+  OutcomeInstrument,
+  ScoreTrajectory,
+  TrajectoryPoint,
+} from './types';
+import { buildTrajectory, evaluateOnTrack, isOutcomeInstrument } from './reliable-change';
+
+interface ClientAssessmentScores {
+  clientName: string;
+  points: Map<OutcomeInstrument, TrajectoryPoint[]>;
+}
+
+/**
+ * Outcomes Service
+ * Builds per-client score trajectories from assessments recorded through
+ * /api/therapy/assessments and raises "not on track" alerts for a caseload.
+ */
+class OutcomesService {
+  private static instance: OutcomesService;
+
+  private constructor() {}
+
+  static getInstance(): OutcomesService {
+    if (!OutcomesService.instance) {
+      OutcomesService.instance = new OutcomesService();
+    }
+    return OutcomesService.instance;
+  }
+
+  async getClientTrajectories(
+    clientId: string,
+    instrument?: OutcomeInstrument
+  ): Promise<ScoreTrajectory[]> {
+    const scores = await this.loadAssessmentScores([clientId], instrument);
+    return this.buildTrajectories(clientId, scores.get(clientId));
+  }
+
+  /**
+   * Returns alerts for every client with an active support session with the
+   * therapist, most severe and most recent first
+   */
+  async getCaseloadAlerts(therapistId: string): Promise<NotOnTrackAlert[]> {
+    const activeSessions = await prisma.supportSession.findMany({
+      where: {
+        helperId: therapistId,
+        status: 'active',
+      },
+      select: { userId: true },
+    });
+
+    const clientIds = [...new Set(activeSessions.map(s => s.userId).filter(Boolean))] as string[];
+    if (clientIds.length === 0) return [];
+
+    const scores = await this.loadAssessmentScores(clientIds);
+    const alerts: NotOnTrackAlert[] = [];
+    const now = new Date();
+
+    for (const clientId of clientIds) {
+      const clientScores = scores.get(clientId);
+      for (const trajectory of this.buildTrajectories(clientId, clientScores)) {
+        const alert = evaluateOnTrack(trajectory, now);
+        if (alert) {
+          alerts.push({ ...alert, clientName: clientScores?.clientName });
+        }
+      }
+    }
+
+    return alerts.sort((a, b) =>
+      a.severity !== b.severity
+        ? (a.severity === 'high' ? -1 : 1)
+        : b.latestAt.getTime() - a.latestAt.getTime()
+    );
+  }
+
+  private buildTrajectories(clientId: string, scores?: ClientAssessmentScores): ScoreTrajectory[] {
+    if (!scores) return [];
+
+    return Array.from(scores.points.entries())
+      .map(([instrument, points]) => buildTrajectory(clientId, instrument, points))
+      .filter((trajectory): trajectory is ScoreTrajectory => trajectory !== null);
+  }
+
+  // Assessments are stored as encrypted MoodEntry records by /api/therapy/assessments
+  private async loadAssessmentScores(
+    clientIds: string[],
+    instrument?: OutcomeInstrument
+  ): Promise<Map<string, ClientAssessmentScores>> {
+    const entries = await prisma.moodEntry.findMany({
+      where: { userId: { in: clientIds } },
+      include: {
+        User: {
+          select: { firstName: true, lastName: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const byClient = new Map<string, ClientAssessmentScores>();
+
+    for (const entry of entries) {
+      if (!entry.encryptedNotes) continue;
+
+      let data: any;
+      try {
+        data = decryptJSON(entry.encryptedNotes as string);
+      } catch (error) {
+        console.error('Failed to decrypt assessment:', error);
+        continue;
+      }
+
+      if (!data || typeof data !== 'object' || data.isDeleted) continue;
+      if (!isOutcomeInstrument(data.assessmentType)) continue;
+      if (instrument && data.assessmentType !== instrument) continue;
+
+      const score = Number(data.scores?.total);
+      if (!Number.isFinite(score)) continue;
+
+      let clientScores = byClient.get(entry.userId);
+      if (!clientScores) {
+        clientScores = {
+          clientName: `${entry.User.firstName || ''} ${entry.User.lastName || ''}`.trim(),
+          points: new Map(),
+        };
+        byClient.set(entry.userId, clientScores);
+      }
+
+      const points = clientScores.points.get(data.assessmentType) || [];
+      points.push({ assessmentId: entry.id, administeredAt: entry.createdAt, score });
+      clientScores.points.set(data.assessmentType, points);
+    }
+
+    return byClient;
+  }
+}
+
+export const outcomesService = OutcomesService.getInstance();
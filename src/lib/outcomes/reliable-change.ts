@@ -0,0 +1,224 @@
+import {
+  InstrumentNorms,
+  NotOnTrackAlert,
+  OutcomeInstrument,
+  ReliableChangeCategory,
+  ScoreTrajectory,
+  TrajectoryPoint,
+} from './types';
+
+/**
+ * Reliable and Clinically Significant Change (Jacobson & Truax, 1991)
+ * RCI = (latest - baseline) / SEdiff, where SEdiff = SD * sqrt(2) * sqrt(1 - r).
+ * |RCI| >= 1.96 is reliable change. Clinically significant change additionally
+ * requires moving from the clinical to the non-clinical range; criterion c is
+ * taken as each instrument's published caseness cut-off.
+ */
+
+export const RELIABLE_CHANGE_Z = 1.96;
+
+// Reliable change thresholds work out to roughly PHQ-9 6, GAD-7 4, PCL-5 10,
+// AUDIT 8 and DAST-10 3 points
+export const INSTRUMENT_NORMS: Record<OutcomeInstrument, InstrumentNorms> = {
+  phq9: {
+    name: 'Patient Health Questionnaire-9',
+    reliability: 0.84,
+    clinicalSd: 5.5,
+    clinicalCutoff: 10,
+    maxScore: 27,
+  },
+  gad7: {
+    name: 'Generalized Anxiety Disorder-7',
+    reliability: 0.92,
+    clinicalSd: 5.0,
+    clinicalCutoff: 8,
+    maxScore: 21,
+  },
+  pcl5: {
+    name: 'PTSD Checklist for DSM-5',
+    reliability: 0.94,
+    clinicalSd: 14.0,
+    clinicalCutoff: 33,
+    maxScore: 80,
+  },
+  audit: {
+    name: 'Alcohol Use Disorders Identification Test',
+    reliability: 0.83,
+    clinicalSd: 7.0,
+    clinicalCutoff: 8,
+    maxScore: 40,
+  },
+  dast10: {
+    name: 'Drug Abuse Screening Test-10',
+    reliability: 0.86,
+    clinicalSd: 2.6,
+    clinicalCutoff: 3,
+    maxScore: 10,
+  },
+};
+
+// Review point for clients who started in the clinical range but have not reliably improved
+export const ON_TRACK_REVIEW_WEEKS = 6;
+export const ON_TRACK_MIN_MEASUREMENTS = 3;
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+export function isOutcomeInstrument(value: unknown): value is OutcomeInstrument {
+  return typeof value === 'string' && value in INSTRUMENT_NORMS;
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+export function standardErrorOfDifference(norms: InstrumentNorms): number {
+  return norms.clinicalSd * Math.sqrt(2) * Math.sqrt(1 - norms.reliability);
+}
+
+export function getReliableChangeThreshold(norms: InstrumentNorms): number {
+  return round(RELIABLE_CHANGE_Z * standardErrorOfDifference(norms));
+}
+
+export function calculateReliableChangeIndex(
+  baseline: number,
+  latest: number,
+  norms: InstrumentNorms
+): number {
+  return round((latest - baseline) / standardErrorOfDifference(norms));
+}
+
+export function classifyChange(
+  baseline: number,
+  latest: number,
+  norms: InstrumentNorms
+): { reliableChangeIndex: number; category: ReliableChangeCategory; clinicallySignificant: boolean } {
+  const reliableChangeIndex = calculateReliableChangeIndex(baseline, latest, norms);
+
+  if (reliableChangeIndex >= RELIABLE_CHANGE_Z) {
+    return { reliableChangeIndex, category: 'deteriorated', clinicallySignificant: false };
+  }
+
+  if (reliableChangeIndex <= -RELIABLE_CHANGE_Z) {
+    const crossedCutoff = baseline >= norms.clinicalCutoff && latest < norms.clinicalCutoff;
+    return {
+      reliableChangeIndex,
+      category: crossedCutoff ? 'recovered' : 'improved',
+      clinicallySignificant: crossedCutoff,
+    };
+  }
+
+  return { reliableChangeIndex, category: 'no_reliable_change', clinicallySignificant: false };
+}
+
+/**
+ * Least-squares slope in score points per week; negative is improvement
+ */
+export function calculateSlopePerWeek(points: TrajectoryPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const origin = points[0]!.administeredAt.getTime();
+  const xs = points.map(p => (p.administeredAt.getTime() - origin) / MS_PER_WEEK);
+  const ys = points.map(p => p.score);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, i) => {
+    numerator += (x - meanX) * (ys[i]! - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+
+  return denominator === 0 ? null : round(numerator / denominator);
+}
+
+export function buildTrajectory(
+  clientId: string,
+  instrument: OutcomeInstrument,
+  points: TrajectoryPoint[]
+): ScoreTrajectory | null {
+  if (points.length === 0) return null;
+
+  const norms = INSTRUMENT_NORMS[instrument];
+  const sorted = [...points].sort((a, b) => a.administeredAt.getTime() - b.administeredAt.getTime());
+  const baseline = sorted[0]!;
+  const latest = sorted[sorted.length - 1]!;
+  const change = classifyChange(baseline.score, latest.score, norms);
+  const hasRepeat = sorted.length > 1;
+
+  return {
+    clientId,
+    instrument,
+    instrumentName: norms.name,
+    points: sorted,
+    baseline,
+    latest,
+    change: latest.score - baseline.score,
+    reliableChangeIndex: hasRepeat ? change.reliableChangeIndex : null,
+    reliableChangeThreshold: getReliableChangeThreshold(norms),
+    category: hasRepeat ? change.category : 'no_reliable_change',
+    clinicallySignificant: hasRepeat && change.clinicallySignificant,
+    slopePerWeek: calculateSlopePerWeek(sorted),
+    weeksInTreatment: round((latest.administeredAt.getTime() - baseline.administeredAt.getTime()) / MS_PER_WEEK, 1),
+  };
+}
+
+/**
+ * Flags trajectories that are not on track: reliable deterioration from
+ * baseline, reliable worsening since the previous administration, or no
+ * reliable improvement by the review point for clients who started in the
+ * clinical range.
+ */
+export function evaluateOnTrack(
+  trajectory: ScoreTrajectory,
+  now: Date = new Date()
+): Omit<NotOnTrackAlert, 'clientName'> | null {
+  const base = {
+    clientId: trajectory.clientId,
+    instrument: trajectory.instrument,
+    instrumentName: trajectory.instrumentName,
+    baselineScore: trajectory.baseline.score,
+    latestScore: trajectory.latest.score,
+    change: trajectory.change,
+    reliableChangeIndex: trajectory.reliableChangeIndex,
+    latestAt: trajectory.latest.administeredAt,
+  };
+
+  if (trajectory.category === 'deteriorated') {
+    return {
+      ...base,
+      reason: 'reliable_deterioration',
+      severity: 'high',
+      message: `${trajectory.instrumentName} has reliably worsened from ${trajectory.baseline.score} to ${trajectory.latest.score}`,
+    };
+  }
+
+  const previous = trajectory.points[trajectory.points.length - 2];
+  if (previous && trajectory.latest.score - previous.score >= trajectory.reliableChangeThreshold) {
+    return {
+      ...base,
+      reason: 'worsening_since_last',
+      severity: 'high',
+      message: `${trajectory.instrumentName} rose ${trajectory.latest.score - previous.score} points since the previous administration`,
+    };
+  }
+
+  const norms = INSTRUMENT_NORMS[trajectory.instrument];
+  const weeksSinceBaseline = (now.getTime() - trajectory.baseline.administeredAt.getTime()) / MS_PER_WEEK;
+  if (
+    trajectory.baseline.score >= norms.clinicalCutoff &&
+    trajectory.points.length >= ON_TRACK_MIN_MEASUREMENTS &&
+    weeksSinceBaseline >= ON_TRACK_REVIEW_WEEKS &&
+    trajectory.category === 'no_reliable_change'
+  ) {
+    return {
+      ...base,
+      reason: 'no_reliable_improvement',
+      severity: 'medium',
+      message: `No reliable improvement on ${trajectory.instrumentName} after ${Math.floor(weeksSinceBaseline)} weeks of treatment`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Measurement-Based Care Types
+ * Score trajectories, reliable change classification and "not on track"
+ * alerts for the standardized instruments stored by /api/therapy/assessments.
+ */
+
+// Instruments stored by /api/therapy/assessments that have outcome norms
+export type OutcomeInstrument = 'phq9' | 'gad7' | 'pcl5' | 'audit' | 'dast10';
+
+// All supported instruments score symptoms, so a falling score is improvement
+export interface InstrumentNorms {
+  name: string;
+  reliability: number;       // Internal consistency (Cronbach's alpha) or test-retest r
+  clinicalSd: number;        // Standard deviation in a treatment-seeking sample at intake
+  clinicalCutoff: number;    // Caseness cut-off; scores below are in the non-clinical range
+  maxScore: number;
+}
+
+export type ReliableChangeCategory =
+  | 'recovered'            // Reliable improvement that crossed the clinical cut-off
+  | 'improved'             // Reliable improvement
+  | 'no_reliable_change'
+  | 'deteriorated';        // Reliable worsening
+
+export interface TrajectoryPoint {
+  assessmentId: string;
+  administeredAt: Date;
+  score: number;
+}
+
+export interface ScoreTrajectory {
+  clientId: string;
+  instrument: OutcomeInstrument;
+  instrumentName: string;
+  points: TrajectoryPoint[];
+  baseline: TrajectoryPoint;
+  latest: TrajectoryPoint;
+  change: number;                       // latest - baseline
+  reliableChangeIndex: number | null;   // null until there are two administrations
+  reliableChangeThreshold: number;      // Smallest raw-score change that is reliable
+  category: ReliableChangeCategory;
+  clinicallySignificant: boolean;
+  slopePerWeek: number | null;
+  weeksInTreatment: number;
+}
+
+export type NotOnTrackReason =
+  | 'reliable_deterioration'
+  | 'worsening_since_last'
+  | 'no_reliable_improvement';
+
+export interface NotOnTrackAlert {
+  clientId: string;
+  clientName?: string;
+  instrument: OutcomeInstrument;
+  instrumentName: string;
+  reason: NotOnTrackReason;
+  severity: 'medium' | 'high';
+  message: string;
+  baselineScore: number;
+  latestScore: number;
+  change: number;
+  reliableChangeIndex: number | null;
+  latestAt: Date;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  assessPolicyFee,
+  getReminderTimes,
+  isLateCancellation,
+  isNoShowDue,
+  resolveReminderSettings,
+  summarizeAttendance,
+} from '../attendance'
+import { signActionToken, verifyActionToken } from '../action-token'
+
+const scheduledAt = new Date('2024-01-10T15:00:00Z')
+
+describe('Attendance policy', () => {
+  it('should schedule only reminders that are still ahead', () => {
+    const reminders = getReminderTimes(scheduledAt, [120, 2880], new Date('2024-01-09T12:00:00Z'))
+    expect(reminders).toEqual([{ offsetMinutes: 120, sendAt: new Date('2024-01-10T13:00:00Z') }])
+  })
+
+  it('should let booking-time settings override policy offsets and channels', () => {
+    expect(resolveReminderSettings(undefined, [2880, 120])).toEqual({ offsets: [2880, 120] })
+    expect(resolveReminderSettings({ email: true, sms: false, push: false, timing: ['24h', '15m'] }, [2880]))
+      .toEqual({ offsets: [1440, 15], channels: ['in-app', 'email'] })
+  })
+
+  it('should detect late cancellations and due no-shows', () => {
+    expect(isLateCancellation(scheduledAt, new Date('2024-01-09T16:00:00Z'), 24)).toBe(true)
+    expect(isLateCancellation(scheduledAt, new Date('2024-01-09T14:00:00Z'), 24)).toBe(false)
+    expect(isNoShowDue(scheduledAt, 15, new Date('2024-01-10T15:10:00Z'))).toBe(false)
+    expect(isNoShowDue(scheduledAt, 15, new Date('2024-01-10T15:15:00Z'))).toBe(true)
+  })
+
+  it('should waive the first offense and charge repeat ones', () => {
+    const policy = { ...DEFAULT_ATTENDANCE_POLICY, noShowFee: 75 }
+    expect(assessPolicyFee('no_show', policy, 0)).toEqual({
+      type: 'no_show',
+      amount: 75,
+      waived: true,
+      reason: 'First offense waived by policy',
+    })
+    expect(assessPolicyFee('no_show', policy, 1)).toEqual({ type: 'no_show', amount: 75, waived: false })
+    expect(assessPolicyFee('late_cancel', policy, 3)).toBeNull()
+  })
+
+  it('should summarize attendance history', () => {
+    const summary = summarizeAttendance([
+      { status: 'completed' },
+      { status: 'completed' },
+      { status: 'completed' },
+      { status: 'no_show' },
+      { status: 'cancelled', lateCancellation: true },
+      { status: 'cancelled' },
+      { status: 'scheduled' },
+    ])
+    expect(summary).toEqual({
+      total: 7,
+      attended: 3,
+      noShows: 1,
+      lateCancellations: 1,
+      cancellations: 2,
+      noShowRate: 0.25,
+    })
+  })
+})
+
+describe('Appointment action tokens', () => {
+  const secret = 'test-action-secret'
+
+  it('should verify tokens until the appointment starts', () => {
+    const token = signActionToken({ appointmentId: 'apt-1', expiresAt: scheduledAt }, secret)
+    expect(verifyActionToken(token, secret, new Date('2024-01-10T14:00:00Z')))
+      .toEqual({ appointmentId: 'apt-1', expiresAt: scheduledAt })
+    expect(verifyActionToken(token, secret, scheduledAt)).toBeNull()
+    expect(verifyActionToken(token, 'other-secret', new Date('2024-01-10T14:00:00Z'))).toBeNull()
+  })
+})
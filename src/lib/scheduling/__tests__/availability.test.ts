@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals'
+import { DEFAULT_BOOKING_RULES, findAvailableSlots, isSlotAvailable, validateWindows } from '../availability'
+import { BookingRules, WeeklyWindow } from '../types'
+
+const rules: BookingRules = {
+  ...DEFAULT_BOOKING_RULES,
+  timeZone: 'America/New_York',
+  minNoticeHours: 0,
+  slotIntervalMinutes: 60,
+}
+
+// Monday 09:00-12:00 New York time
+const windows: WeeklyWindow[] = [{ dayOfWeek: 1, startTime: '09:00', endTime: '12:00', sessionTypes: [] }]
+
+const now = new Date('2024-01-01T00:00:00Z')
+const from = new Date('2024-01-08T00:00:00Z')
+const to = new Date('2024-01-09T00:00:00Z')
+const iso = (slots: { start: Date }[]) => slots.map(slot => slot.start.toISOString())
+
+describe('Provider availability', () => {
+  it('should generate slots inside working hours in the provider time zone', () => {
+    const slots = findAvailableSlots({ rules, windows, blackouts: [], busy: [], sessionType: 'follow_up', from, to, now })
+
+    // 09:00, 10:00 and 11:00 EST; an 11:00 50-minute session still ends by 12:00
+    expect(iso(slots)).toEqual([
+      '2024-01-08T14:00:00.000Z',
+      '2024-01-08T15:00:00.000Z',
+      '2024-01-08T16:00:00.000Z',
+    ])
+    expect(slots[0].end.toISOString()).toBe('2024-01-08T14:50:00.000Z')
+  })
+
+  it('should drop slots that do not fit or are too close to a booking', () => {
+    const busy = [{ id: 'apt-1', start: new Date('2024-01-08T15:10:00Z'), end: new Date('2024-01-08T16:00:00Z') }]
+    const slots = findAvailableSlots({ rules, windows, blackouts: [], busy, sessionType: 'initial', from, to, now })
+
+    // 60-minute sessions either overlap the booking or fall inside its 15 minute buffer
+    expect(iso(slots)).toEqual([])
+  })
+
+  it('should respect blackout dates, notice periods and session type windows', () => {
+    const blackouts = [{ startsAt: new Date('2024-01-08T14:30:00Z'), endsAt: new Date('2024-01-08T15:30:00Z') }]
+    expect(iso(findAvailableSlots({ rules, windows, blackouts, busy: [], sessionType: 'follow_up', from, to, now })))
+      .toEqual(['2024-01-08T16:00:00.000Z'])
+
+    const late = new Date('2024-01-07T15:00:00Z')
+    expect(iso(findAvailableSlots({
+      rules: { ...rules, minNoticeHours: 24 }, windows, blackouts: [], busy: [], sessionType: 'follow_up', from, to, now: late,
+    }))).toEqual(['2024-01-08T15:00:00.000Z', '2024-01-08T16:00:00.000Z'])
+
+    const intakeOnly = [{ ...windows[0], sessionTypes: ['initial'] }]
+    expect(findAvailableSlots({ rules, windows: intakeOnly, blackouts: [], busy: [], sessionType: 'follow_up', from, to, now }))
+      .toEqual([])
+  })
+
+  it('should close a day once the session cap is reached', () => {
+    const busy = [{ id: 'apt-1', start: new Date('2024-01-08T20:00:00Z'), end: new Date('2024-01-08T20:50:00Z') }]
+    const slots = findAvailableSlots({
+      rules: { ...rules, maxSessionsPerDay: 1 }, windows, blackouts: [], busy, sessionType: 'follow_up', from, to, now,
+    })
+    expect(slots).toEqual([])
+  })
+
+  it('should confirm only exact slot starts', () => {
+    const input = { rules, windows, blackouts: [], busy: [], sessionType: 'follow_up', now }
+    expect(isSlotAvailable(input, new Date('2024-01-08T15:00:00Z'))).toBe(true)
+    expect(isSlotAvailable(input, new Date('2024-01-08T15:10:00Z'))).toBe(false)
+  })
+
+  it('should reject overlapping or inverted windows', () => {
+    expect(() => validateWindows([
+      { dayOfWeek: 2, startTime: '09:00', endTime: '12:00', sessionTypes: [] },
+      { dayOfWeek: 2, startTime: '11:00', endTime: '14:00', sessionTypes: [] },
+    ])).toThrow('Overlapping availability windows')
+    expect(() => validateWindows([{ dayOfWeek: 2, startTime: '12:00', endTime: '09:00', sessionTypes: [] }]))
+      .toThrow('must end after it starts')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildCalendar, escapeICalText, foldLine } from '../ics'
+import { signFeedToken, verifyFeedToken } from '../feed-token'
+
+describe('iCalendar feed', () => {
+  it('should escape text values', () => {
+    expect(escapeICalText('Room 2; floor 1, east\nwing')).toBe('Room 2\\; floor 1\\, east\\nwing')
+  })
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(100)}`)
+    const lines = folded.split('\r\n')
+    expect(lines).toHaveLength(2)
+    expect(Buffer.byteLength(lines[0])).toBe(75)
+    expect(lines[1].startsWith(' ')).toBe(true)
+  })
+
+  it('should render events with UTC times and CRLF line endings', () => {
+    const calendar = buildCalendar(
+      [
+        {
+          uid: 'apt-1@astralcore.com',
+          start: new Date('2024-01-08T10:00:00Z'),
+          end: new Date('2024-01-08T10:50:00Z'),
+          summary: 'Therapy session',
+          status: 'CANCELLED',
+        },
+      ],
+      { name: 'Therapy Sessions', now: new Date('2024-01-01T00:00:00Z') }
+    )
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(calendar).toContain('DTSTART:20240108T100000Z\r\n')
+    expect(calendar).toContain('DTEND:20240108T105000Z\r\n')
+    expect(calendar).toContain('STATUS:CANCELLED\r\n')
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+})
+
+describe('Calendar feed tokens', () => {
+  const secret = 'test-feed-secret'
+
+  it('should verify tokens it signed', () => {
+    const token = signFeedToken({ userId: 'user-1', version: 3 }, secret)
+    expect(verifyFeedToken(token, secret)).toEqual({ userId: 'user-1', version: 3 })
+  })
+
+  it('should reject tampered tokens and other secrets', () => {
+    const token = signFeedToken({ userId: 'user-1', version: 1 }, secret)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from('user-2:1').toString('base64url')}.${signature}`
+
+    expect(verifyFeedToken(forged, secret)).toBeNull()
+    expect(verifyFeedToken(token, 'another-secret')).toBeNull()
+    expect(verifyFeedToken('not-a-token', secret)).toBeNull()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals'
+import { expandRRule, formatRRule, parseRRule, presetRule } from '../rrule'
+import { findSeriesConflicts } from '../conflicts'
+
+const iso = (dates: { start: Date }[]) => dates.map(d => d.start.toISOString())
+
+describe('Recurrence rules', () => {
+  describe('parsing', () => {
+    it('should round-trip a weekly rule with several days', () => {
+      const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=6')
+      expect(rule).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        count: 6,
+        byDay: [{ weekday: 'MO' }, { weekday: 'TH' }],
+      })
+      expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;COUNT=6;BYDAY=MO,TH')
+    })
+
+    it('should reject unsupported or contradictory rules', () => {
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('RRULE FREQ must be one of')
+      expect(() => parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported RRULE parts: BYSETPOS')
+      expect(() => parseRRule('FREQ=WEEKLY;COUNT=3;UNTIL=20240101')).toThrow('both COUNT and UNTIL')
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2MO')).toThrow('only supported for MONTHLY')
+    })
+  })
+
+  describe('expansion', () => {
+    it('should expand biweekly presets until the end date inclusive', () => {
+      const rule = presetRule('biweekly', { until: new Date('2024-02-12T10:00:00Z') })
+      const occurrences = expandRRule(rule, new Date('2024-01-01T10:00:00Z'), { durationMinutes: 50 })
+
+      expect(iso(occurrences)).toEqual([
+        '2024-01-01T10:00:00.000Z',
+        '2024-01-15T10:00:00.000Z',
+        '2024-01-29T10:00:00.000Z',
+        '2024-02-12T10:00:00.000Z',
+      ])
+      expect(occurrences[0].end.toISOString()).toBe('2024-01-01T10:50:00.000Z')
+    })
+
+    it('should skip BYDAY days that fall before the series start', () => {
+      // 2024-01-03 is a Wednesday, so Monday of that week is skipped
+      const occurrences = expandRRule(
+        parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3'),
+        new Date('2024-01-03T15:00:00Z'),
+        { durationMinutes: 60 }
+      )
+      expect(iso(occurrences)).toEqual([
+        '2024-01-03T15:00:00.000Z',
+        '2024-01-08T15:00:00.000Z',
+        '2024-01-10T15:00:00.000Z',
+      ])
+    })
+
+    it('should support the last weekday of the month', () => {
+      const occurrences = expandRRule(
+        parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3'),
+        new Date('2024-01-01T09:00:00Z'),
+        { durationMinutes: 60 }
+      )
+      expect(iso(occurrences)).toEqual([
+        '2024-01-26T09:00:00.000Z',
+        '2024-02-23T09:00:00.000Z',
+        '2024-03-29T09:00:00.000Z',
+      ])
+    })
+
+    it('should skip months without the start day', () => {
+      const occurrences = expandRRule(presetRule('monthly', { count: 3 }), new Date('2024-01-31T09:00:00Z'), {
+        durationMinutes: 60,
+      })
+      expect(iso(occurrences)).toEqual([
+        '2024-01-31T09:00:00.000Z',
+        '2024-03-31T09:00:00.000Z',
+        '2024-05-31T09:00:00.000Z',
+      ])
+    })
+
+    it('should keep wall-clock time across daylight saving changes', () => {
+      // 10:00 in New York is 15:00Z in winter and 14:00Z after 10 March 2024
+      const occurrences = expandRRule(
+        presetRule('weekly', { count: 3 }),
+        new Date('2024-03-04T15:00:00Z'),
+        { durationMinutes: 50, timeZone: 'America/New_York' }
+      )
+      expect(iso(occurrences)).toEqual([
+        '2024-03-04T15:00:00.000Z',
+        '2024-03-11T14:00:00.000Z',
+        '2024-03-18T14:00:00.000Z',
+      ])
+    })
+  })
+
+  describe('series conflicts', () => {
+    it('should report every occurrence that overlaps a booking including the buffer', () => {
+      const occurrences = expandRRule(presetRule('weekly', { count: 3 }), new Date('2024-01-01T10:00:00Z'), {
+        durationMinutes: 50,
+      })
+      const booked = [
+        { id: 'a', start: new Date('2024-01-08T11:00:00Z'), end: new Date('2024-01-08T11:50:00Z') },
+        { id: 'b', start: new Date('2024-01-15T11:10:00Z'), end: new Date('2024-01-15T12:00:00Z') },
+      ]
+
+      const conflicts = findSeriesConflicts(occurrences, booked)
+      expect(conflicts.map(c => c.conflictingAppointmentId)).toEqual(['a'])
+      expect(conflicts[0].occurrenceStart.toISOString()).toBe('2024-01-08T10:00:00.000Z')
+    })
+  })
+})
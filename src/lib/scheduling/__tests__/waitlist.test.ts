@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals'
+import { getClaimDeadline, matchesPreferences, rankCandidates } from '../waitlist'
+import { BackfillSlot, WaitlistCandidate } from '../types'
+
+// Tuesday 10:00 in New York
+const slot: BackfillSlot = {
+  start: new Date('2024-01-09T15:00:00Z'),
+  durationMinutes: 50,
+  sessionType: 'follow_up',
+  modality: 'virtual',
+}
+const timeZone = 'America/New_York'
+
+const candidate = (overrides: Partial<WaitlistCandidate>): WaitlistCandidate => ({
+  id: 'entry',
+  clientId: 'client',
+  priority: 0,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  preferredDays: [],
+  sessionTypes: [],
+  modalities: [],
+  ...overrides,
+})
+
+describe('Waitlist matching', () => {
+  it('should match preferences in the therapist time zone', () => {
+    expect(matchesPreferences(candidate({ preferredDays: [2] }), slot, timeZone)).toBe(true)
+    expect(matchesPreferences(candidate({ preferredDays: [2] }), slot, 'Asia/Tokyo')).toBe(false)
+    expect(matchesPreferences(
+      candidate({ preferredStartTime: '09:00', preferredEndTime: '10:50' }), slot, timeZone
+    )).toBe(true)
+    expect(matchesPreferences(
+      candidate({ preferredStartTime: '09:00', preferredEndTime: '10:30' }), slot, timeZone
+    )).toBe(false)
+  })
+
+  it('should respect modality, session type and date range', () => {
+    expect(matchesPreferences(candidate({ modalities: ['office'] }), slot, timeZone)).toBe(false)
+    expect(matchesPreferences(candidate({ sessionTypes: ['initial'] }), slot, timeZone)).toBe(false)
+    expect(matchesPreferences(candidate({ earliestDate: new Date('2024-01-10T00:00:00Z') }), slot, timeZone)).toBe(false)
+  })
+
+  it('should rank by priority, then by time on the waitlist', () => {
+    const ranked = rankCandidates([
+      candidate({ id: 'late', createdAt: new Date('2024-01-05T00:00:00Z') }),
+      candidate({ id: 'office-only', priority: 5, modalities: ['office'] }),
+      candidate({ id: 'urgent', priority: 3, createdAt: new Date('2024-01-06T00:00:00Z') }),
+      candidate({ id: 'early', createdAt: new Date('2024-01-02T00:00:00Z') }),
+    ], slot, timeZone)
+
+    expect(ranked.map(entry => entry.id)).toEqual(['urgent', 'early', 'late'])
+  })
+
+  it('should shorten the claim window as the session approaches', () => {
+    const now = new Date('2024-01-09T10:00:00Z')
+    expect(getClaimDeadline(slot.start, now)?.toISOString()).toBe('2024-01-09T12:00:00.000Z')
+    expect(getClaimDeadline(slot.start, new Date('2024-01-09T13:30:00Z'))?.toISOString())
+      .toBe('2024-01-09T14:00:00.000Z')
+    expect(getClaimDeadline(slot.start, new Date('2024-01-09T13:50:00Z'))).toBeNull()
+  })
+})
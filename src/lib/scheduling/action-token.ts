@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { AppointmentActionTokenPayload } from './types';
+
+/**
+ * Appointment Action Tokens
+ * Signed links in reminders that let a client confirm, cancel or reschedule
+ * one appointment without signing in. Tokens stop working once the session
+ * has started.
+ */
+
+export function signActionToken(payload: AppointmentActionTokenPayload, secret: string): string {
+  const body = Buffer.from(`${payload.appointmentId}:${payload.expiresAt.getTime()}`).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+export function verifyActionToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): AppointmentActionTokenPayload | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const [appointmentId, expiry] = Buffer.from(body, 'base64url').toString('utf8').split(':');
+  const expiresAt = Number(expiry);
+  if (!appointmentId || !Number.isInteger(expiresAt) || expiresAt <= now.getTime()) return null;
+
+  return { appointmentId, expiresAt: new Date(expiresAt) };
+}
+
+function sign(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`appointment-action:${body}`).digest('base64url');
+}
@@ -0,0 +1,520 @@
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { decryptJSON, encryptJSON } from '@/lib/encryption-exports';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import { sendTemplatedNotification } from '@/lib/notification-utils';
+import { billingService } from '@/lib/billing/billing-service';
+import { AppointmentAction, AttendancePolicy, FeeAssessment, PolicyFeeType } from './types';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  POLICY_FEE_CODES,
+  assessPolicyFee,
+  getReminderTimes,
+  isLateCancellation,
+  isNoShowDue,
+  resolveReminderSettings,
+  summarizeAttendance,
+} from './attendance';
+import { signActionToken, verifyActionToken } from './action-token';
+import { getFeedSecret } from './feed-token';
+import { availabilityService } from './availability-service';
+import { seriesService } from './series-service';
+import { waitlistService } from './waitlist-service';
+
+type AppointmentRecord = NonNullable<Awaited<ReturnType<typeof prisma.appointment.findUnique>>>;
+
+// Appointment statuses that can still be confirmed, cancelled or missed
+const OPEN_STATUSES = ['scheduled', 'confirmed'];
+
+// Longest no-show grace a policy may set; bounds the overdue scan
+const MAX_GRACE_MINUTES = 120;
+
+/**
+ * Appointment Attendance Service
+ * Schedules reminders through the notification queue, handles the confirm,
+ * cancel and reschedule links in them, marks sessions nobody started as
+ * no-shows, and invoices late-cancellation and no-show fees under each
+ * professional's policy.
+ */
+export class AttendanceService {
+  private static instance: AttendanceService;
+
+  private constructor() {}
+
+  static getInstance(): AttendanceService {
+    if (!AttendanceService.instance) {
+      AttendanceService.instance = new AttendanceService();
+    }
+    return AttendanceService.instance;
+  }
+
+  async getPolicy(professionalId: string): Promise<AttendancePolicy> {
+    const policy = await prisma.appointmentPolicy.findUnique({ where: { professionalId } });
+    if (!policy) return DEFAULT_ATTENDANCE_POLICY;
+
+    return {
+      reminderOffsets: policy.reminderOffsets,
+      noShowGraceMinutes: policy.noShowGraceMinutes,
+      lateCancelHours: policy.lateCancelHours,
+      lateCancelFee: policy.lateCancelFee,
+      noShowFee: policy.noShowFee,
+      waiveFirstOffense: policy.waiveFirstOffense,
+    };
+  }
+
+  async updatePolicy(professionalId: string, update: Partial<AttendancePolicy>): Promise<AttendancePolicy> {
+    await prisma.appointmentPolicy.upsert({
+      where: { professionalId },
+      create: { professionalId, ...DEFAULT_ATTENDANCE_POLICY, ...update },
+      update,
+    });
+    return this.getPolicy(professionalId);
+  }
+
+  /**
+   * Queue the policy's reminders for an appointment, replacing any pending
+   * ones (e.g. after a reschedule). Returns the number of reminders queued.
+   */
+  async scheduleReminders(appointmentId: string, now: Date = new Date()): Promise<number> {
+    const appointment = await prisma.appointment.findUnique({ where: { id: appointmentId } });
+    if (!appointment || !OPEN_STATUSES.includes(appointment.status)) return 0;
+
+    await this.cancelReminders([appointmentId]);
+
+    const [policy, availability] = await Promise.all([
+      this.getPolicy(appointment.professionalId),
+      prisma.providerAvailability.findUnique({
+        where: { professionalId: appointment.professionalId },
+        select: { timeZone: true },
+      }),
+    ]);
+    const timeZone = availability?.timeZone || 'UTC';
+    const links = this.getActionLinks(appointment);
+    const { offsets, channels } = resolveReminderSettings(this.readNotes(appointment).reminders, policy.reminderOffsets);
+
+    let queued = 0;
+    for (const reminder of getReminderTimes(appointment.scheduledAt, offsets, now)) {
+      await sendTemplatedNotification(
+        appointment.userId,
+        'appointment_reminder',
+        {
+          appointmentTime: formatAppointmentTime(appointment.scheduledAt, timeZone),
+          duration: appointment.duration,
+          lateCancelHours: policy.lateCancelHours,
+          ...links,
+        },
+        channels,
+        {
+          scheduledFor: reminder.sendAt,
+          metadata: { appointmentId, reminderOffset: reminder.offsetMinutes },
+        }
+      );
+      queued++;
+    }
+    return queued;
+  }
+
+  /**
+   * Withdraw reminders that have not been sent yet
+   */
+  async cancelReminders(appointmentIds: string[]): Promise<void> {
+    for (const appointmentId of appointmentIds) {
+      await prisma.notificationQueue.updateMany({
+        where: {
+          status: 'pending',
+          metadata: { path: ['appointmentId'], equals: appointmentId },
+        },
+        data: { status: 'cancelled' },
+      });
+    }
+  }
+
+  /**
+   * The appointment a reminder link refers to, if the token is valid
+   */
+  async resolveActionToken(token: string, now: Date = new Date()) {
+    const payload = verifyActionToken(token, getFeedSecret(), now);
+    if (!payload) return null;
+    return prisma.appointment.findUnique({ where: { id: payload.appointmentId } });
+  }
+
+  async confirmAppointment(appointmentId: string, now: Date = new Date()) {
+    const appointment = await this.getOpenAppointment(appointmentId);
+    if (appointment.status === 'confirmed') return appointment;
+
+    return prisma.appointment.update({
+      where: { id: appointment.id },
+      data: { status: 'confirmed', confirmedAt: now, updatedAt: now },
+    });
+  }
+
+  /**
+   * Client-initiated cancellation. Inside the policy's notice period the
+   * cancellation is recorded as late and the late-cancel fee applied.
+   */
+  async cancelByClient(appointmentId: string, reason: string | undefined, now: Date = new Date()) {
+    const appointment = await this.getOpenAppointment(appointmentId);
+    const policy = await this.getPolicy(appointment.professionalId);
+    const late = isLateCancellation(appointment.scheduledAt, now, policy.lateCancelHours);
+
+    const cancelled = await this.cancelAppointment(appointment, {
+      reason: reason || 'Cancelled by client',
+      cancelledBy: appointment.userId,
+      late,
+      now,
+    });
+    const fee = late ? await this.chargeFee(appointment, 'late_cancel', policy, now) : null;
+
+    await this.notifyProfessional(
+      appointment,
+      'appointment_cancelled',
+      late ? 'Late cancellation' : 'Appointment cancelled',
+      `A client cancelled their session on ${appointment.scheduledAt.toISOString()}.`,
+      late
+    );
+
+    try {
+      await waitlistService.startBackfill(appointment.id, now);
+    } catch (error) {
+      console.error('Failed to start waitlist backfill:', error);
+    }
+
+    return { appointment: cancelled, fee };
+  }
+
+  /**
+   * Move a client's appointment to another open slot in the professional's
+   * availability. Late moves are treated as late cancellations.
+   */
+  async rescheduleByClient(appointmentId: string, newStart: Date, now: Date = new Date()) {
+    const appointment = await this.getOpenAppointment(appointmentId);
+    const notes = this.readNotes(appointment);
+    const location = notes.location || 'office';
+
+    const hold = await availabilityService.holdSlot({
+      professionalId: appointment.professionalId,
+      clientId: appointment.userId,
+      start: newStart,
+      sessionType: appointment.type,
+      location,
+    }, now);
+    const rescheduled = await availabilityService.confirmHold(hold.id, appointment.userId, notes.notes, now);
+
+    const policy = await this.getPolicy(appointment.professionalId);
+    const late = isLateCancellation(appointment.scheduledAt, now, policy.lateCancelHours);
+    await this.cancelAppointment(appointment, {
+      reason: 'Rescheduled by client',
+      cancelledBy: appointment.userId,
+      late,
+      now,
+      rescheduledTo: rescheduled.id,
+    });
+    const fee = late ? await this.chargeFee(appointment, 'late_cancel', policy, now) : null;
+
+    await this.scheduleReminders(rescheduled.id, now);
+    await this.notifyProfessional(
+      appointment,
+      'appointment_rescheduled',
+      'Appointment rescheduled',
+      `A client moved their ${appointment.scheduledAt.toISOString()} session to ${rescheduled.scheduledAt.toISOString()}.`,
+      late
+    );
+
+    return { appointment: rescheduled, previousAppointmentId: appointment.id, fee };
+  }
+
+  async markNoShow(appointmentId: string, markedBy: string, now: Date = new Date()) {
+    const appointment = await this.getOpenAppointment(appointmentId);
+    const policy = await this.getPolicy(appointment.professionalId);
+
+    const notes = this.readNotes(appointment);
+    const updated = await prisma.appointment.update({
+      where: { id: appointment.id },
+      data: {
+        status: 'no_show',
+        noShowAt: now,
+        updatedAt: now,
+        encryptedNotes: encryptJSON({
+          ...notes,
+          cancellation: {
+            status: 'no_show',
+            cancelledBy: markedBy,
+            cancelledAt: now.toISOString(),
+          },
+        }),
+      },
+    });
+    await this.cancelReminders([appointment.id]);
+
+    const fee = await this.chargeFee(appointment, 'no_show', policy, now);
+
+    await prisma.notification.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId: appointment.userId,
+        type: 'appointment_no_show',
+        title: 'Missed Appointment',
+        message: fee && !fee.waived
+          ? `You missed your scheduled appointment. A missed appointment fee of $${fee.amount.toFixed(2)} has been applied. Please contact us to reschedule.`
+          : 'You missed your scheduled appointment. Please contact us to reschedule.',
+        isPriority: true,
+        metadata: { appointmentId: appointment.id, feeAmount: fee && !fee.waived ? fee.amount : undefined },
+      },
+    });
+
+    return { appointment: updated, fee };
+  }
+
+  /**
+   * Mark every open appointment past its professional's grace period as a
+   * no-show. Run on a schedule.
+   */
+  async markOverdueNoShows(now: Date = new Date()): Promise<{ marked: number; feesCharged: number }> {
+    const candidates = await prisma.appointment.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        scheduledAt: { lte: now, gte: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000) },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    const policies = new Map<string, AttendancePolicy>();
+    let marked = 0;
+    let feesCharged = 0;
+
+    for (const appointment of candidates) {
+      let policy = policies.get(appointment.professionalId);
+      if (!policy) {
+        policy = await this.getPolicy(appointment.professionalId);
+        policies.set(appointment.professionalId, policy);
+      }
+
+      const grace = Math.min(policy.noShowGraceMinutes, MAX_GRACE_MINUTES);
+      if (!isNoShowDue(appointment.scheduledAt, grace, now)) continue;
+
+      // A session note for the slot means the session happened but was never closed out
+      const documented = await prisma.therapySessionNote.count({
+        where: {
+          therapistId: appointment.professionalId,
+          clientId: appointment.userId,
+          sessionDate: {
+            gte: new Date(appointment.scheduledAt.getTime() - 12 * 60 * 60 * 1000),
+            lte: new Date(appointment.scheduledAt.getTime() + 12 * 60 * 60 * 1000),
+          },
+        },
+      });
+      if (documented > 0) continue;
+
+      try {
+        const { fee } = await this.markNoShow(appointment.id, 'system', now);
+        marked++;
+        if (fee && !fee.waived) feesCharged++;
+      } catch (error) {
+        console.error(`Failed to mark appointment ${appointment.id} as a no-show:`, error);
+      }
+    }
+
+    return { marked, feesCharged };
+  }
+
+  /**
+   * Waive a fee, cancelling its invoice if nothing has been paid on it
+   */
+  async waiveFee(feeId: string, professionalId: string, waivedBy: string, reason: string) {
+    const fee = await prisma.appointmentFee.findUnique({ where: { id: feeId } });
+    if (!fee || fee.professionalId !== professionalId) {
+      throw new WorkflowError('Fee not found', { feeId });
+    }
+    if (fee.status === 'waived') return fee;
+
+    if (fee.invoiceId) {
+      const invoice = await prisma.invoice.findUnique({ where: { id: fee.invoiceId } });
+      if (invoice && invoice.paidAmount > 0) {
+        throw new WorkflowError('Fee has already been paid; issue a refund instead', { feeId });
+      }
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.appointmentFee.update({
+        where: { id: fee.id },
+        data: { status: 'waived', waivedBy, waivedReason: reason, waivedAt: new Date() },
+      }),
+      ...(fee.invoiceId
+        ? [prisma.invoice.update({
+          where: { id: fee.invoiceId },
+          data: { status: 'CANCELLED', balance: 0 },
+        })]
+        : []),
+    ]);
+    return updated;
+  }
+
+  /**
+   * A client's attendance record and policy fees with one professional
+   */
+  async getClientHistory(clientId: string, professionalId: string) {
+    const [appointments, fees] = await Promise.all([
+      prisma.appointment.findMany({
+        where: { userId: clientId, professionalId },
+        select: { id: true, scheduledAt: true, status: true, lateCancellation: true, noShowAt: true, cancelledAt: true },
+        orderBy: { scheduledAt: 'desc' },
+      }),
+      prisma.appointmentFee.findMany({
+        where: { clientId, professionalId },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      summary: summarizeAttendance(appointments),
+      missed: appointments.filter(apt => apt.status === 'no_show' || apt.lateCancellation),
+      fees,
+    };
+  }
+
+  getActionLinks(appointment: AppointmentRecord): Record<`${AppointmentAction}Url`, string> {
+    const token = signActionToken(
+      { appointmentId: appointment.id, expiresAt: appointment.scheduledAt },
+      getFeedSecret()
+    );
+    const base = `${(process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')}/therapy/appointments/respond`;
+    const link = (action: AppointmentAction) => `${base}?token=${encodeURIComponent(token)}&action=${action}`;
+
+    return {
+      confirmUrl: link('confirm'),
+      cancelUrl: link('cancel'),
+      rescheduleUrl: link('reschedule'),
+    };
+  }
+
+  private async chargeFee(
+    appointment: AppointmentRecord,
+    type: PolicyFeeType,
+    policy: AttendancePolicy,
+    now: Date
+  ): Promise<FeeAssessment | null> {
+    const priorOffenses = await prisma.appointmentFee.count({
+      where: { clientId: appointment.userId, professionalId: appointment.professionalId, type },
+    });
+    const assessment = assessPolicyFee(type, policy, priorOffenses);
+    if (!assessment) return null;
+
+    let invoiceId: string | undefined;
+    if (!assessment.waived) {
+      const invoice = await billingService.createInvoice({
+        appointmentId: appointment.id,
+        clientId: appointment.userId,
+        professionalId: appointment.professionalId,
+        serviceDate: appointment.scheduledAt,
+        cptCodes: [{ ...POLICY_FEE_CODES[type], units: 1, rate: assessment.amount }],
+        notes: `${POLICY_FEE_CODES[type].description} for ${appointment.scheduledAt.toISOString()}`,
+      });
+      invoiceId = invoice.id;
+    }
+
+    await prisma.appointmentFee.create({
+      data: {
+        appointmentId: appointment.id,
+        clientId: appointment.userId,
+        professionalId: appointment.professionalId,
+        type,
+        amount: assessment.amount,
+        status: assessment.waived ? 'waived' : 'invoiced',
+        invoiceId,
+        waivedBy: assessment.waived ? 'policy' : undefined,
+        waivedReason: assessment.reason,
+        waivedAt: assessment.waived ? now : undefined,
+      },
+    });
+
+    return assessment;
+  }
+
+  private async cancelAppointment(
+    appointment: AppointmentRecord,
+    details: { reason: string; cancelledBy: string; late: boolean; now: Date; rescheduledTo?: string }
+  ) {
+    const notes = this.readNotes(appointment);
+    const cancelled = await prisma.appointment.update({
+      where: { id: appointment.id },
+      data: {
+        status: 'cancelled',
+        cancelledAt: details.now,
+        lateCancellation: details.late,
+        updatedAt: details.now,
+        encryptedNotes: encryptJSON({
+          ...notes,
+          cancellation: {
+            reason: details.reason,
+            cancelledBy: details.cancelledBy,
+            cancelledAt: details.now.toISOString(),
+            rescheduledTo: details.rescheduledTo,
+          },
+        }),
+      },
+    });
+
+    if (appointment.seriesId) {
+      await seriesService.applyOccurrenceException({
+        appointmentId: appointment.id,
+        type: 'cancelled',
+        reason: details.reason,
+        changedBy: details.cancelledBy,
+      });
+    }
+    await this.cancelReminders([appointment.id]);
+
+    return cancelled;
+  }
+
+  private async notifyProfessional(
+    appointment: AppointmentRecord,
+    type: string,
+    title: string,
+    message: string,
+    isPriority: boolean
+  ): Promise<void> {
+    await prisma.notification.create({
+      data: {
+        id: generatePrismaCreateFields().id,
+        userId: appointment.professionalId,
+        type,
+        title,
+        message,
+        isPriority,
+        metadata: { appointmentId: appointment.id, clientId: appointment.userId },
+      },
+    });
+  }
+
+  private async getOpenAppointment(appointmentId: string): Promise<AppointmentRecord> {
+    const appointment = await prisma.appointment.findUnique({ where: { id: appointmentId } });
+    if (!appointment) {
+      throw new WorkflowError('Appointment not found', { appointmentId });
+    }
+    if (!OPEN_STATUSES.includes(appointment.status)) {
+      throw new WorkflowError(`Appointment is already ${appointment.status.replace('_', ' ')}`, { appointmentId });
+    }
+    return appointment;
+  }
+
+  private readNotes(appointment: AppointmentRecord): Record<string, any> {
+    if (!appointment.encryptedNotes) return {};
+    try {
+      return decryptJSON(appointment.encryptedNotes as string);
+    } catch (error) {
+      console.error('Failed to decrypt appointment notes:', error);
+      return {};
+    }
+  }
+}
+
+function formatAppointmentTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(date) + ` (${timeZone})`;
+}
+
+export const attendanceService = AttendanceService.getInstance();
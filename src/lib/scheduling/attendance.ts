@@ -0,0 +1,121 @@
+import { AttendancePolicy, AttendanceSummary, FeeAssessment, PolicyFeeType } from './types';
+
+/**
+ * Attendance Policy Rules
+ * Reminder timing, late-cancellation and no-show detection, and the fee a
+ * professional's policy charges for each, including first-offense waivers.
+ */
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  reminderOffsets: [48 * 60, 2 * 60],
+  noShowGraceMinutes: 15,
+  lateCancelHours: 24,
+  lateCancelFee: 0,
+  noShowFee: 0,
+  waiveFirstOffense: true,
+};
+
+// Billing codes used on invoice lines for policy fees
+export const POLICY_FEE_CODES: Record<PolicyFeeType, { code: string; description: string }> = {
+  late_cancel: { code: 'LCF', description: 'Late cancellation fee' },
+  no_show: { code: 'NSF', description: 'Missed appointment fee' },
+};
+
+// Per-appointment reminder timings offered in the booking form
+export const REMINDER_TIMING_MINUTES: Record<string, number> = {
+  '24h': 24 * 60,
+  '2h': 2 * 60,
+  '15m': 15,
+};
+
+export interface AppointmentReminderSettings {
+  email?: boolean;
+  sms?: boolean;
+  push?: boolean;
+  timing?: string[];
+}
+
+/**
+ * Reminder offsets and channels for one appointment. Settings chosen when
+ * booking override the professional's default offsets; without them every
+ * channel on the reminder template is used.
+ */
+export function resolveReminderSettings(
+  settings: AppointmentReminderSettings | undefined,
+  policyOffsets: number[]
+): { offsets: number[]; channels?: Array<'email' | 'sms' | 'push' | 'in-app'> } {
+  if (!settings) return { offsets: policyOffsets };
+
+  const offsets = (settings.timing || [])
+    .map(timing => REMINDER_TIMING_MINUTES[timing])
+    .filter((offset): offset is number => offset !== undefined);
+  const channels: Array<'email' | 'sms' | 'push' | 'in-app'> = ['in-app'];
+  if (settings.email) channels.push('email');
+  if (settings.sms) channels.push('sms');
+  if (settings.push) channels.push('push');
+
+  return { offsets: offsets.length > 0 ? offsets : policyOffsets, channels };
+}
+
+/**
+ * Reminder send times still in the future, latest offset first
+ */
+export function getReminderTimes(
+  scheduledAt: Date,
+  offsets: number[],
+  now: Date = new Date()
+): Array<{ offsetMinutes: number; sendAt: Date }> {
+  return [...new Set(offsets)]
+    .sort((a, b) => b - a)
+    .map(offsetMinutes => ({ offsetMinutes, sendAt: new Date(scheduledAt.getTime() - offsetMinutes * 60000) }))
+    .filter(reminder => reminder.sendAt.getTime() > now.getTime());
+}
+
+export function isLateCancellation(scheduledAt: Date, cancelledAt: Date, lateCancelHours: number): boolean {
+  return scheduledAt.getTime() - cancelledAt.getTime() < lateCancelHours * 60 * 60 * 1000;
+}
+
+/**
+ * Whether a session nobody started should now be recorded as a no-show
+ */
+export function isNoShowDue(scheduledAt: Date, graceMinutes: number, now: Date = new Date()): boolean {
+  return now.getTime() >= scheduledAt.getTime() + graceMinutes * 60000;
+}
+
+/**
+ * The fee owed under the policy. `priorOffenses` counts earlier fees of the
+ * same type for this client with this professional, waived ones included.
+ */
+export function assessPolicyFee(
+  type: PolicyFeeType,
+  policy: AttendancePolicy,
+  priorOffenses: number
+): FeeAssessment | null {
+  const amount = type === 'late_cancel' ? policy.lateCancelFee : policy.noShowFee;
+  if (amount <= 0) return null;
+
+  if (policy.waiveFirstOffense && priorOffenses === 0) {
+    return { type, amount, waived: true, reason: 'First offense waived by policy' };
+  }
+  return { type, amount, waived: false };
+}
+
+export function summarizeAttendance(
+  appointments: Array<{ status: string; lateCancellation?: boolean }>
+): AttendanceSummary {
+  const count = (predicate: (apt: { status: string; lateCancellation?: boolean }) => boolean) =>
+    appointments.filter(predicate).length;
+
+  const attended = count(apt => apt.status === 'completed');
+  const noShows = count(apt => apt.status === 'no_show');
+  const resolved = attended + noShows;
+
+  return {
+    total: appointments.length,
+    attended,
+    noShows,
+    lateCancellations: count(apt => apt.status === 'cancelled' && !!apt.lateCancellation),
+    cancellations: count(apt => apt.status === 'cancelled'),
+    noShowRate: resolved > 0 ? Math.round((noShows / resolved) * 1000) / 1000 : 0,
+  };
+}
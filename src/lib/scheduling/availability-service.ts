@@ -0,0 +1,359 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { encryptJSON } from '@/lib/encryption-exports';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { AvailableSlot, BlackoutPeriod, BookingRules, ScheduledInterval, WeeklyWindow } from './types';
+import {
+  DEFAULT_BOOKING_RULES,
+  MAX_SEARCH_DAYS,
+  findAvailableSlots,
+  getSessionDuration,
+  isSlotAvailable,
+  validateWindows,
+} from './availability';
+import { isValidTimeZone } from './rrule';
+import { intervalsOverlap } from './conflicts';
+import { BOOKED_STATUSES, generateMeetingUrl } from './series-service';
+
+export interface AvailabilityUpdate extends Partial<BookingRules> {
+  acceptingNewClients?: boolean;
+  windows?: WeeklyWindow[];
+  blackouts?: BlackoutPeriod[];
+}
+
+export interface HoldParams {
+  professionalId: string;
+  clientId: string;
+  start: Date;
+  sessionType: string;
+  location: string;
+}
+
+// How long a client has to confirm a held slot
+export const HOLD_MINUTES = 10;
+
+const AVAILABILITY_INCLUDE = {
+  windows: { orderBy: [{ dayOfWeek: 'asc' as const }, { startTime: 'asc' as const }] },
+  blackouts: { orderBy: { startsAt: 'asc' as const } },
+};
+
+/**
+ * Provider Availability Service
+ * Stores each professional's working hours and booking rules, offers the
+ * resulting open slots to clients, and books them through a short hold that
+ * the client confirms, so two clients can never take the same slot.
+ */
+export class AvailabilityService {
+  private static instance: AvailabilityService;
+
+  private constructor() {}
+
+  static getInstance(): AvailabilityService {
+    if (!AvailabilityService.instance) {
+      AvailabilityService.instance = new AvailabilityService();
+    }
+    return AvailabilityService.instance;
+  }
+
+  async getAvailability(professionalId: string) {
+    return prisma.providerAvailability.findUnique({
+      where: { professionalId },
+      include: AVAILABILITY_INCLUDE,
+    });
+  }
+
+  /**
+   * Create or update a professional's booking rules. Windows and blackouts,
+   * when given, replace the existing ones.
+   */
+  async updateAvailability(professionalId: string, update: AvailabilityUpdate) {
+    if (update.timeZone && !isValidTimeZone(update.timeZone)) {
+      throw new ValidationError(`Unknown time zone "${update.timeZone}"`);
+    }
+    if (update.windows) validateWindows(update.windows);
+    if (update.blackouts?.some(blackout => blackout.endsAt <= blackout.startsAt)) {
+      throw new ValidationError('Blackout periods must end after they start');
+    }
+
+    const { windows, blackouts, ...rules } = update;
+
+    return prisma.$transaction(async (tx) => {
+      const availability = await tx.providerAvailability.upsert({
+        where: { professionalId },
+        create: {
+          professionalId,
+          ...DEFAULT_BOOKING_RULES,
+          ...rules,
+          sessionDurations: { ...DEFAULT_BOOKING_RULES.sessionDurations, ...rules.sessionDurations },
+        },
+        update: rules,
+      });
+
+      if (windows) {
+        await tx.availabilityWindow.deleteMany({ where: { availabilityId: availability.id } });
+        await tx.availabilityWindow.createMany({
+          data: windows.map(window => ({ availabilityId: availability.id, ...window })),
+        });
+      }
+
+      if (blackouts) {
+        await tx.availabilityBlackout.deleteMany({ where: { availabilityId: availability.id } });
+        await tx.availabilityBlackout.createMany({
+          data: blackouts.map(blackout => ({ availabilityId: availability.id, ...blackout })),
+        });
+      }
+
+      return tx.providerAvailability.findUniqueOrThrow({
+        where: { id: availability.id },
+        include: AVAILABILITY_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Open slots for one session type. Clients see the provider's time zone
+   * in the response so the UI can label times unambiguously.
+   */
+  async searchSlots(professionalId: string, sessionType: string, from: Date, to: Date): Promise<{
+    timeZone: string;
+    durationMinutes: number;
+    slots: AvailableSlot[];
+  }> {
+    if (to <= from) {
+      throw new ValidationError('Search range must end after it starts');
+    }
+    if (to.getTime() - from.getTime() > MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ValidationError(`Search range cannot exceed ${MAX_SEARCH_DAYS} days`);
+    }
+
+    const { rules, windows, blackouts } = await this.loadRules(professionalId);
+    const busy = await this.getBusyIntervals(prisma, professionalId, from, to);
+
+    return {
+      timeZone: rules.timeZone,
+      durationMinutes: getSessionDuration(rules, sessionType),
+      slots: findAvailableSlots({ rules, windows, blackouts, busy, sessionType, from, to }),
+    };
+  }
+
+  /**
+   * Clients new to a provider may only book when the provider accepts new
+   * clients, and only an initial consultation
+   */
+  async assertClientCanBook(professionalId: string, clientId: string, sessionType: string): Promise<void> {
+    const { acceptingNewClients } = await this.loadRules(professionalId);
+    const existing = await prisma.appointment.count({
+      where: { professionalId, userId: clientId, status: { not: 'cancelled' } },
+    });
+    if (existing > 0) return;
+
+    if (!acceptingNewClients) {
+      throw new WorkflowError('This provider is not accepting new clients', { professionalId });
+    }
+    if (sessionType !== 'initial') {
+      throw new WorkflowError('New clients must book an initial consultation first', { professionalId });
+    }
+  }
+
+  /**
+   * Reserve a slot for HOLD_MINUTES. The availability check and insert run
+   * in a serializable transaction so concurrent holds on one slot cannot
+   * both succeed. Any other hold the client has with the provider is released.
+   */
+  async holdSlot(params: HoldParams, now: Date = new Date()) {
+    const { rules, windows, blackouts } = await this.loadRules(params.professionalId);
+    const duration = getSessionDuration(rules, params.sessionType);
+    const end = new Date(params.start.getTime() + duration * 60000);
+
+    return this.runExclusive(async (tx) => {
+      await tx.slotHold.updateMany({
+        where: {
+          professionalId: params.professionalId,
+          clientId: params.clientId,
+          status: 'held',
+        },
+        data: { status: 'released', releasedAt: now },
+      });
+
+      const busy = await this.getBusyIntervals(tx, params.professionalId, params.start, end, now);
+      const available = isSlotAvailable(
+        { rules, windows, blackouts, busy, sessionType: params.sessionType, now },
+        params.start
+      );
+      if (!available) {
+        throw new WorkflowError('This time is no longer available', { start: params.start });
+      }
+
+      return tx.slotHold.create({
+        data: {
+          professionalId: params.professionalId,
+          clientId: params.clientId,
+          startsAt: params.start,
+          endsAt: end,
+          sessionType: params.sessionType,
+          location: params.location,
+          expiresAt: new Date(now.getTime() + HOLD_MINUTES * 60000),
+        },
+      });
+    });
+  }
+
+  /**
+   * Turn an unexpired hold into a scheduled appointment
+   */
+  async confirmHold(holdId: string, clientId: string, notes?: string, now: Date = new Date()) {
+    return this.runExclusive(async (tx) => {
+      const hold = await tx.slotHold.findUnique({ where: { id: holdId } });
+      if (!hold || hold.clientId !== clientId) {
+        throw new WorkflowError('Reservation not found', { holdId });
+      }
+      if (hold.status !== 'held' || hold.expiresAt <= now) {
+        throw new WorkflowError('Reservation has expired, please choose another time', { holdId });
+      }
+
+      // Therapist-side bookings made while the slot was held still win
+      const busy = await this.getBusyIntervals(tx, hold.professionalId, hold.startsAt, hold.endsAt, now);
+      const slot = { start: hold.startsAt, end: hold.endsAt };
+      if (busy.some(interval => interval.id !== hold.id && intervalsOverlap(slot, interval))) {
+        await tx.slotHold.update({ where: { id: hold.id }, data: { status: 'released', releasedAt: now } });
+        throw new WorkflowError('This time is no longer available', { holdId });
+      }
+
+      const appointment = await tx.appointment.create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: hold.clientId,
+          professionalId: hold.professionalId,
+          scheduledAt: hold.startsAt,
+          duration: Math.round((hold.endsAt.getTime() - hold.startsAt.getTime()) / 60000),
+          type: hold.sessionType,
+          status: 'scheduled',
+          encryptedNotes: encryptJSON({
+            notes,
+            location: hold.location,
+            bookedVia: 'self_scheduling',
+            createdBy: clientId,
+          }),
+          meetingUrl: hold.location === 'virtual' ? generateMeetingUrl() : null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await tx.slotHold.update({
+        where: { id: hold.id },
+        data: { status: 'confirmed', confirmedAt: now, appointmentId: appointment.id },
+      });
+
+      return appointment;
+    });
+  }
+
+  async releaseHold(holdId: string, clientId: string) {
+    const { count } = await prisma.slotHold.updateMany({
+      where: { id: holdId, clientId, status: 'held' },
+      data: { status: 'released', releasedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Reservation not found', { holdId });
+    }
+  }
+
+  private async loadRules(professionalId: string): Promise<{
+    rules: BookingRules;
+    windows: WeeklyWindow[];
+    blackouts: BlackoutPeriod[];
+    acceptingNewClients: boolean;
+  }> {
+    const availability = await this.getAvailability(professionalId);
+    if (!availability || availability.windows.length === 0) {
+      throw new WorkflowError('This provider has not published availability', { professionalId });
+    }
+
+    return {
+      rules: {
+        timeZone: availability.timeZone,
+        bufferMinutes: availability.bufferMinutes,
+        maxSessionsPerDay: availability.maxSessionsPerDay,
+        minNoticeHours: availability.minNoticeHours,
+        maxAdvanceDays: availability.maxAdvanceDays,
+        slotIntervalMinutes: availability.slotIntervalMinutes,
+        sessionDurations: availability.sessionDurations as Record<string, number>,
+      },
+      windows: availability.windows,
+      blackouts: availability.blackouts.map(blackout => ({
+        startsAt: blackout.startsAt,
+        endsAt: blackout.endsAt,
+        reason: blackout.reason ?? undefined,
+      })),
+      acceptingNewClients: availability.acceptingNewClients,
+    };
+  }
+
+  /**
+   * Booked appointments and unexpired holds around a range. The range is
+   * widened to whole days so the daily session cap sees every booking.
+   */
+  private async getBusyIntervals(
+    client: Prisma.TransactionClient,
+    professionalId: string,
+    from: Date,
+    to: Date,
+    now: Date = new Date()
+  ): Promise<ScheduledInterval[]> {
+    const rangeStart = new Date(from.getTime() - 24 * 60 * 60 * 1000);
+    const rangeEnd = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+
+    const [appointments, holds] = await Promise.all([
+      client.appointment.findMany({
+        where: {
+          professionalId,
+          status: { in: BOOKED_STATUSES },
+          scheduledAt: { gte: rangeStart, lte: rangeEnd },
+        },
+        select: { id: true, scheduledAt: true, duration: true },
+      }),
+      client.slotHold.findMany({
+        where: {
+          professionalId,
+          status: 'held',
+          expiresAt: { gt: now },
+          startsAt: { gte: rangeStart, lte: rangeEnd },
+        },
+        select: { id: true, startsAt: true, endsAt: true },
+      }),
+    ]);
+
+    return [
+      ...appointments.map(apt => ({
+        id: apt.id,
+        start: apt.scheduledAt,
+        end: new Date(apt.scheduledAt.getTime() + apt.duration * 60000),
+      })),
+      ...holds.map(hold => ({ id: hold.id, start: hold.startsAt, end: hold.endsAt })),
+    ];
+  }
+
+  /**
+   * Run a check-then-write transaction serializably; a concurrent booking
+   * of the same time surfaces as a conflict rather than a double booking
+   */
+  private async runExclusive<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    try {
+      return await prisma.$transaction(work, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError
+        && (error.code === 'P2034' || error.code === 'P2002')
+      ) {
+        throw new WorkflowError('This time is no longer available');
+      }
+      throw error;
+    }
+  }
+}
+
+export const availabilityService = AvailabilityService.getInstance();
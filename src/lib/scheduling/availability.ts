@@ -0,0 +1,145 @@
+import { ValidationError } from '@/lib/error-handling/error-types';
+import { AvailableSlot, BookingRules, SlotSearchInput, WeeklyWindow } from './types';
+import { fromWallTime, toWallTime } from './rrule';
+import { intervalsOverlap } from './conflicts';
+
+/**
+ * Provider Availability Rules
+ * Turns working hours, buffers, daily caps, notice periods and blackout dates
+ * into the bookable slots offered to clients for self-scheduling.
+ */
+
+export const DEFAULT_SESSION_DURATIONS: Record<string, number> = {
+  initial: 60,
+  follow_up: 50,
+  teletherapy: 50,
+  group: 90,
+};
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  timeZone: 'UTC',
+  bufferMinutes: 15,
+  maxSessionsPerDay: 6,
+  minNoticeHours: 24,
+  maxAdvanceDays: 60,
+  slotIntervalMinutes: 30,
+  sessionDurations: DEFAULT_SESSION_DURATIONS,
+};
+
+// Widest range a single slot search may cover
+export const MAX_SEARCH_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function parseTimeOfDay(value: string): number {
+  const match = value.match(TIME_PATTERN);
+  if (!match) {
+    throw new ValidationError(`Invalid time "${value}", expected HH:mm`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function getSessionDuration(rules: BookingRules, sessionType: string): number {
+  return rules.sessionDurations[sessionType] ?? DEFAULT_SESSION_DURATIONS[sessionType] ?? 50;
+}
+
+/**
+ * Windows must be well-formed and not overlap on the same weekday
+ */
+export function validateWindows(windows: WeeklyWindow[]): void {
+  const byDay = new Map<number, Array<[number, number]>>();
+
+  for (const window of windows) {
+    const start = parseTimeOfDay(window.startTime);
+    const end = parseTimeOfDay(window.endTime);
+    if (end <= start) {
+      throw new ValidationError(`Window ${window.startTime}-${window.endTime} must end after it starts`);
+    }
+
+    const ranges = byDay.get(window.dayOfWeek) ?? [];
+    if (ranges.some(([s, e]) => start < e && s < end)) {
+      throw new ValidationError(`Overlapping availability windows on day ${window.dayOfWeek}`);
+    }
+    ranges.push([start, end]);
+    byDay.set(window.dayOfWeek, ranges);
+  }
+}
+
+/**
+ * Bookable slots between `from` and `to`, in start order. A slot must fit
+ * inside a working window, respect notice and advance limits, avoid blackout
+ * dates, keep the buffer around every busy interval and fall on a day that
+ * has not reached the provider's session cap.
+ */
+export function findAvailableSlots(input: SlotSearchInput): AvailableSlot[] {
+  const { rules } = input;
+  const now = input.now ?? new Date();
+  const duration = getSessionDuration(rules, input.sessionType);
+  const earliest = Math.max(input.from.getTime(), now.getTime() + rules.minNoticeHours * 60 * 60 * 1000);
+  const latest = Math.min(input.to.getTime(), now.getTime() + rules.maxAdvanceDays * DAY_MS);
+  if (earliest >= latest) return [];
+
+  const sessionsPerDay = new Map<number, number>();
+  for (const interval of input.busy) {
+    const day = localDay(interval.start, rules.timeZone);
+    sessionsPerDay.set(day, (sessionsPerDay.get(day) ?? 0) + 1);
+  }
+
+  const slots: AvailableSlot[] = [];
+  const lastDay = localDay(new Date(latest), rules.timeZone);
+
+  for (let day = localDay(new Date(earliest), rules.timeZone); day <= lastDay; day += DAY_MS) {
+    if ((sessionsPerDay.get(day) ?? 0) >= rules.maxSessionsPerDay) continue;
+
+    const weekday = new Date(day).getUTCDay();
+    const windows = input.windows.filter(window =>
+      window.dayOfWeek === weekday
+      && (window.sessionTypes.length === 0 || window.sessionTypes.includes(input.sessionType))
+    );
+
+    for (const window of windows) {
+      const windowEnd = parseTimeOfDay(window.endTime);
+      for (
+        let minute = parseTimeOfDay(window.startTime);
+        minute + duration <= windowEnd;
+        minute += rules.slotIntervalMinutes
+      ) {
+        const start = fromWallTime(new Date(day + minute * 60000), rules.timeZone);
+        const slot = {
+          start,
+          end: new Date(start.getTime() + duration * 60000),
+          sessionType: input.sessionType,
+        };
+
+        if (start.getTime() < earliest || start.getTime() > latest) continue;
+        if (input.blackouts.some(blackout => intervalsOverlap(slot, { start: blackout.startsAt, end: blackout.endsAt }))) {
+          continue;
+        }
+        if (input.busy.some(interval => intervalsOverlap(slot, interval, rules.bufferMinutes))) continue;
+
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Whether a specific start time is one of the provider's bookable slots
+ */
+export function isSlotAvailable(input: Omit<SlotSearchInput, 'from' | 'to'>, start: Date): boolean {
+  const duration = getSessionDuration(input.rules, input.sessionType);
+  return findAvailableSlots({
+    ...input,
+    from: start,
+    to: new Date(start.getTime() + duration * 60000),
+  }).some(slot => slot.start.getTime() === start.getTime());
+}
+
+// Midnight of the local calendar day, as a UTC-based wall-clock timestamp
+function localDay(date: Date, timeZone: string): number {
+  const wall = toWallTime(date, timeZone).getTime();
+  return wall - (((wall % DAY_MS) + DAY_MS) % DAY_MS);
+}
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/prisma';
+import { decryptJSON } from '@/lib/encryption-exports';
+import { CalendarEvent } from './types';
+import { buildCalendar } from './ics';
+import { getFeedSecret, signFeedToken, verifyFeedToken } from './feed-token';
+
+// Feed window around today; older history and far-future bookings are omitted
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+const LOCATION_LABELS: Record<string, string> = {
+  office: 'Office',
+  virtual: 'Video session',
+  phone: 'Phone session',
+};
+
+/**
+ * Calendar Feed Service
+ * Issues per-user signed ICS subscription URLs and renders the user's
+ * sessions, as client or as professional, into an iCalendar feed.
+ */
+export class CalendarFeedService {
+  private static instance: CalendarFeedService;
+
+  private constructor() {}
+
+  static getInstance(): CalendarFeedService {
+    if (!CalendarFeedService.instance) {
+      CalendarFeedService.instance = new CalendarFeedService();
+    }
+    return CalendarFeedService.instance;
+  }
+
+  async getFeedToken(userId: string): Promise<string> {
+    const feed = await prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+    return signFeedToken({ userId, version: feed.tokenVersion }, getFeedSecret());
+  }
+
+  /**
+   * Invalidate every previously issued URL and return a new token
+   */
+  async rotateFeedToken(userId: string): Promise<string> {
+    const feed = await prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenVersion: 2, rotatedAt: new Date() },
+      update: { tokenVersion: { increment: 1 }, rotatedAt: new Date() },
+    });
+    return signFeedToken({ userId, version: feed.tokenVersion }, getFeedSecret());
+  }
+
+  /**
+   * Resolve a subscription token to its user, or null if the signature is
+   * invalid or the token has been rotated out
+   */
+  async resolveFeedToken(token: string): Promise<string | null> {
+    const payload = verifyFeedToken(token, getFeedSecret());
+    if (!payload) return null;
+
+    const feed = await prisma.calendarFeed.findUnique({ where: { userId: payload.userId } });
+    if (!feed || feed.tokenVersion !== payload.version) return null;
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+    return payload.userId;
+  }
+
+  async buildFeed(userId: string, now: Date = new Date()): Promise<string> {
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        OR: [{ userId }, { professionalId: userId }],
+        scheduledAt: {
+          gte: new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000),
+          lte: new Date(now.getTime() + FEED_FUTURE_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    const events: CalendarEvent[] = appointments.map(apt => {
+      let location: string | undefined;
+      if (apt.encryptedNotes) {
+        try {
+          location = decryptJSON(apt.encryptedNotes as string).location;
+        } catch (error) {
+          console.error('Failed to decrypt appointment notes for calendar feed:', error);
+        }
+      }
+
+      const moved = !!apt.originalStart && apt.originalStart.getTime() !== apt.scheduledAt.getTime();
+      return {
+        uid: `${apt.id}@astralcore.com`,
+        start: apt.scheduledAt,
+        end: new Date(apt.scheduledAt.getTime() + apt.duration * 60000),
+        // Summaries stay generic: feeds are synced to third-party calendars
+        summary: apt.professionalId === userId ? 'Client session' : 'Therapy session',
+        location: LOCATION_LABELS[location || 'office'],
+        url: apt.meetingUrl || undefined,
+        status: ['cancelled', 'no_show'].includes(apt.status) ? 'CANCELLED' : 'CONFIRMED',
+        sequence: (moved ? 1 : 0) + (apt.status === 'cancelled' ? 1 : 0),
+        lastModified: apt.updatedAt,
+      };
+    });
+
+    return buildCalendar(events, { name: 'Therapy Sessions', now });
+  }
+}
+
+export const calendarFeedService = CalendarFeedService.getInstance();
@@ -0,0 +1,44 @@
+import { Occurrence, ScheduledInterval, SchedulingConflict } from './types';
+
+/**
+ * Series Conflict Checks
+ * Compares every occurrence of a series against the professional's booked
+ * appointments, including a turnaround buffer between sessions.
+ */
+
+// Minutes kept free between back-to-back sessions
+export const DEFAULT_BUFFER_MINUTES = 15;
+
+export function intervalsOverlap(
+  a: { start: Date; end: Date },
+  b: { start: Date; end: Date },
+  bufferMinutes: number = 0
+): boolean {
+  const buffer = bufferMinutes * 60000;
+  return a.start.getTime() < b.end.getTime() + buffer && b.start.getTime() < a.end.getTime() + buffer;
+}
+
+export function findSeriesConflicts(
+  occurrences: Occurrence[],
+  booked: ScheduledInterval[],
+  bufferMinutes: number = DEFAULT_BUFFER_MINUTES
+): SchedulingConflict[] {
+  const sorted = [...booked].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const conflicts: SchedulingConflict[] = [];
+
+  for (const occurrence of occurrences) {
+    for (const appointment of sorted) {
+      if (appointment.start.getTime() >= occurrence.end.getTime() + bufferMinutes * 60000) break;
+      if (intervalsOverlap(occurrence, appointment, bufferMinutes)) {
+        conflicts.push({
+          occurrenceStart: occurrence.start,
+          conflictingAppointmentId: appointment.id,
+          conflictingStart: appointment.start,
+          conflictingEnd: appointment.end,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
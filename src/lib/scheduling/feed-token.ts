@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import { CalendarFeedTokenPayload } from './types';
+
+/**
+ * Calendar Feed Tokens
+ * Signed, revocable tokens for per-user ICS subscription URLs. Calendar apps
+ * cannot send session cookies, so the token is the credential; rotating the
+ * user's feed version invalidates every URL issued before it.
+ */
+
+export function getFeedSecret(): string {
+  const secret = process.env.CALENDAR_FEED_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('CALENDAR_FEED_SECRET is not configured');
+  }
+  return secret;
+}
+
+export function signFeedToken(payload: CalendarFeedTokenPayload, secret: string): string {
+  const body = Buffer.from(`${payload.userId}:${payload.version}`).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Returns the payload of a well-formed token with a valid signature. The
+ * caller must still check the version against the user's current feed.
+ */
+export function verifyFeedToken(token: string, secret: string): CalendarFeedTokenPayload | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const [userId, version] = Buffer.from(body, 'base64url').toString('utf8').split(':');
+  const parsedVersion = Number(version);
+  if (!userId || !Number.isInteger(parsedVersion) || parsedVersion < 1) return null;
+
+  return { userId, version: parsedVersion };
+}
+
+function sign(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`calendar-feed:${body}`).digest('base64url');
+}
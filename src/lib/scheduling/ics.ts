@@ -0,0 +1,81 @@
+import { CalendarEvent } from './types';
+import { formatICalDateTime } from './rrule';
+
+/**
+ * iCalendar Feed Builder
+ * Serializes appointments as an RFC 5545 VCALENDAR for calendar subscriptions.
+ * Events carry no clinical detail; subscription URLs are bearer credentials
+ * and calendar apps sync them to third-party servers.
+ */
+
+const PRODUCT_ID = '-//Astral Core//Therapy Scheduling//EN';
+const MAX_LINE_OCTETS = 75;
+
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets with CRLF + space, never
+ * splitting a multi-byte character
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: { name: string; now?: Date; refreshMinutes?: number }
+): string {
+  const stamp = formatICalDateTime(options.now ?? new Date());
+  const refresh = options.refreshMinutes ?? 60;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDateTime(event.start)}`,
+      `DTEND:${formatICalDateTime(event.end)}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence ?? 0}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
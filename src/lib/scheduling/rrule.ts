@@ -0,0 +1,275 @@
+import { ValidationError } from '@/lib/error-handling/error-types';
+import { ByDayRule, Occurrence, RecurrenceFrequency, RecurrenceRule, Weekday } from './types';
+
+/**
+ * RFC 5545 Recurrence Rules
+ * Parses, formats and expands the RRULE subset used for appointment series
+ * (DAILY / WEEKLY / MONTHLY with INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY).
+ * Occurrences are expanded in the series' wall-clock time zone so a standing
+ * 10:00 session stays at 10:00 across daylight saving changes.
+ */
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bound on generated occurrences for any single series
+export const MAX_SERIES_OCCURRENCES = 104;
+
+const SUPPORTED_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 5000;
+
+export function parseRRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, raw] = part.split('=');
+    if (!key || raw === undefined) {
+      throw new ValidationError(`Malformed RRULE part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), raw.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !SUPPORTED_FREQUENCIES.includes(freq)) {
+    throw new ValidationError(`RRULE FREQ must be one of ${SUPPORTED_FREQUENCIES.join(', ')}`);
+  }
+
+  const unsupported = [...parts.keys()].filter(
+    key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key)
+  );
+  if (unsupported.length > 0) {
+    throw new ValidationError(`Unsupported RRULE parts: ${unsupported.join(', ')}`);
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new ValidationError('RRULE cannot specify both COUNT and UNTIL');
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parsePositiveInt(parts.get('INTERVAL') ?? '1', 'INTERVAL'),
+  };
+
+  if (parts.has('COUNT')) rule.count = parsePositiveInt(parts.get('COUNT')!, 'COUNT');
+  if (parts.has('UNTIL')) rule.until = parseICalDate(parts.get('UNTIL')!);
+  if (parts.has('BYDAY')) rule.byDay = parts.get('BYDAY')!.split(',').map(parseByDay);
+  if (parts.has('BYMONTHDAY')) {
+    rule.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map(day => {
+      const parsed = Number(day);
+      if (!Number.isInteger(parsed) || parsed === 0 || parsed < -31 || parsed > 31) {
+        throw new ValidationError(`Invalid BYMONTHDAY value "${day}"`);
+      }
+      return parsed;
+    });
+  }
+
+  if (rule.freq !== 'MONTHLY' && rule.byDay?.some(day => day.ordinal !== undefined)) {
+    throw new ValidationError('Ordinal BYDAY values are only supported for MONTHLY rules');
+  }
+
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatICalDateTime(rule.until)}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  return parts.join(';');
+}
+
+/**
+ * Build the rule for the presets offered in the booking form
+ */
+export function presetRule(
+  frequency: 'weekly' | 'biweekly' | 'monthly',
+  end: { until?: Date; count?: number }
+): RecurrenceRule {
+  const base: RecurrenceRule = frequency === 'monthly'
+    ? { freq: 'MONTHLY', interval: 1 }
+    : { freq: 'WEEKLY', interval: frequency === 'biweekly' ? 2 : 1 };
+  return { ...base, ...end };
+}
+
+/**
+ * Expand a rule from `dtstart` into concrete occurrences. Rules without COUNT
+ * or UNTIL stop at `limit` occurrences (at most MAX_SERIES_OCCURRENCES).
+ */
+export function expandRRule(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  options: { durationMinutes: number; timeZone?: string; limit?: number }
+): Occurrence[] {
+  const timeZone = options.timeZone || 'UTC';
+  const limit = Math.min(rule.count ?? options.limit ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const startWall = toWallTime(dtstart, timeZone);
+  const occurrences: Occurrence[] = [];
+
+  for (const candidate of generateWallCandidates(rule, startWall)) {
+    if (occurrences.length >= limit) break;
+    if (candidate.getTime() < startWall.getTime()) continue;
+
+    const start = fromWallTime(candidate, timeZone);
+    if (rule.until && start.getTime() > rule.until.getTime()) break;
+
+    occurrences.push({
+      originalStart: start,
+      start,
+      end: new Date(start.getTime() + options.durationMinutes * 60000),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Candidate wall-clock starts in ascending order. Dates that do not exist in
+ * a month (e.g. the 31st) are skipped, as RFC 5545 requires.
+ */
+function* generateWallCandidates(rule: RecurrenceRule, startWall: Date): Generator<Date> {
+  const timeOfDay = startWall.getTime() % DAY_MS;
+  const startDay = startWall.getTime() - timeOfDay;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const step = period * rule.interval;
+
+    if (rule.freq === 'DAILY') {
+      yield new Date(startDay + step * DAY_MS + timeOfDay);
+      continue;
+    }
+
+    if (rule.freq === 'WEEKLY') {
+      // Weeks start on Monday (WKST=MO)
+      const weekStart = startDay - ((startWall.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const days = rule.byDay?.length
+        ? rule.byDay.map(day => (WEEKDAYS.indexOf(day.weekday) + 6) % 7)
+        : [(startWall.getUTCDay() + 6) % 7];
+      for (const offset of [...new Set(days)].sort((a, b) => a - b)) {
+        yield new Date(weekStart + offset * DAY_MS + timeOfDay);
+      }
+      continue;
+    }
+
+    const year = startWall.getUTCFullYear();
+    const month = startWall.getUTCMonth() + step;
+    for (const day of monthlyDays(rule, year, month, startWall.getUTCDate())) {
+      yield new Date(Date.UTC(year, month, day) + timeOfDay);
+    }
+  }
+}
+
+function monthlyDays(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  let days: number[];
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay.map(day => (day > 0 ? day : daysInMonth + day + 1));
+  } else if (rule.byDay?.length) {
+    days = rule.byDay.flatMap(day => weekdaysInMonth(year, month, day, daysInMonth));
+  } else {
+    days = [defaultDay];
+  }
+
+  return [...new Set(days)].filter(day => day >= 1 && day <= daysInMonth).sort((a, b) => a - b);
+}
+
+function weekdaysInMonth(year: number, month: number, rule: ByDayRule, daysInMonth: number): number[] {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const first = ((WEEKDAYS.indexOf(rule.weekday) - firstWeekday + 7) % 7) + 1;
+  const all: number[] = [];
+  for (let day = first; day <= daysInMonth; day += 7) all.push(day);
+
+  if (rule.ordinal === undefined) return all;
+  const index = rule.ordinal > 0 ? rule.ordinal - 1 : all.length + rule.ordinal;
+  return all[index] !== undefined ? [all[index]] : [];
+}
+
+/**
+ * Wall-clock time in `timeZone`, represented as a UTC-based Date
+ */
+export function toWallTime(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  return new Date(Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+    date.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Instant at which the wall-clock time occurs in `timeZone`. Times skipped by
+ * a daylight saving jump resolve to the same clock time after the jump.
+ */
+export function fromWallTime(wall: Date, timeZone: string): Date {
+  const guess = wall.getTime();
+  const offset = toWallTime(new Date(guess), timeZone).getTime() - guess;
+  const candidate = guess - offset;
+  const candidateOffset = toWallTime(new Date(candidate), timeZone).getTime() - candidate;
+
+  return new Date(candidateOffset === offset ? candidate : guess - candidateOffset);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseICalDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new ValidationError(`Invalid RRULE UNTIL value "${value}"`);
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  // A date-only UNTIL includes the whole day
+  return match[4] === undefined
+    ? new Date(Date.UTC(year!, month! - 1, day!, 23, 59, 59))
+    : new Date(Date.UTC(year!, month! - 1, day!, hour!, minute!, second!));
+}
+
+function parseByDay(value: string): ByDayRule {
+  const match = value.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) {
+    throw new ValidationError(`Invalid BYDAY value "${value}"`);
+  }
+  const ordinal = match[1] ? Number(match[1]) : undefined;
+  if (ordinal !== undefined && (ordinal === 0 || ordinal < -1 || ordinal > 4)) {
+    throw new ValidationError(`BYDAY ordinal must be 1-4 or -1, got "${value}"`);
+  }
+  return { weekday: match[2] as Weekday, ...(ordinal !== undefined && { ordinal }) };
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError(`RRULE ${name} must be a positive integer`);
+  }
+  return parsed;
+}
@@ -0,0 +1,311 @@
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { encryptJSON } from '@/lib/encryption-exports';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { Occurrence, RecurrenceRule, ScheduledInterval, SchedulingConflict } from './types';
+import { expandRRule, formatRRule, parseRRule } from './rrule';
+import { DEFAULT_BUFFER_MINUTES, findSeriesConflicts } from './conflicts';
+
+export interface SeriesParams {
+  clientId: string;
+  professionalId: string;
+  dtstart: Date;
+  rule: RecurrenceRule;
+  timeZone: string;
+  duration: number;
+  type: string;
+  location: string;
+  notes?: string;
+  reminders?: Record<string, unknown>;
+  createdBy: string;
+}
+
+export interface OccurrenceExceptionParams {
+  appointmentId: string;
+  type: 'cancelled' | 'moved';
+  newStart?: Date;
+  newDuration?: number;
+  reason?: string;
+  changedBy: string;
+}
+
+// Appointment statuses that occupy the professional's time
+export const BOOKED_STATUSES = ['scheduled', 'confirmed'];
+
+// Longest bookable session, used to find appointments overlapping a window start
+const MAX_APPOINTMENT_MINUTES = 180;
+
+/**
+ * Appointment Series Service
+ * Books RRULE-based recurring series as individual appointments, checks the
+ * whole series for conflicts before anything is written, and records moved
+ * or cancelled occurrences as series exceptions.
+ */
+export class SeriesService {
+  private static instance: SeriesService;
+
+  private constructor() {}
+
+  static getInstance(): SeriesService {
+    if (!SeriesService.instance) {
+      SeriesService.instance = new SeriesService();
+    }
+    return SeriesService.instance;
+  }
+
+  /**
+   * Expand a series and compare every occurrence with the professional's
+   * existing bookings
+   */
+  async previewSeries(params: Pick<SeriesParams, 'professionalId' | 'dtstart' | 'rule' | 'timeZone' | 'duration'>): Promise<{
+    occurrences: Occurrence[];
+    conflicts: SchedulingConflict[];
+  }> {
+    const occurrences = expandRRule(params.rule, params.dtstart, {
+      durationMinutes: params.duration,
+      timeZone: params.timeZone,
+    });
+    const first = occurrences[0];
+    const last = occurrences[occurrences.length - 1];
+    if (!first || !last) {
+      throw new ValidationError('Recurrence rule produces no occurrences');
+    }
+
+    const booked = await this.getBookedIntervals(params.professionalId, first.start, last.end);
+
+    return { occurrences, conflicts: findSeriesConflicts(occurrences, booked) };
+  }
+
+  /**
+   * Create the series and one appointment per occurrence. Callers check
+   * conflicts with previewSeries first so the clinician can see them.
+   */
+  async createSeries(params: SeriesParams, occurrences: Occurrence[]) {
+    // Open-ended rules are stored with the count that was actually booked
+    const rule = params.rule.count || params.rule.until
+      ? params.rule
+      : { ...params.rule, count: occurrences.length };
+    const now = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const series = await tx.appointmentSeries.create({
+        data: {
+          clientId: params.clientId,
+          professionalId: params.professionalId,
+          rrule: formatRRule(rule),
+          dtstart: params.dtstart,
+          timeZone: params.timeZone,
+          duration: params.duration,
+          type: params.type,
+          location: params.location,
+          encryptedNotes: params.notes ? encryptJSON({ notes: params.notes }) : undefined,
+          createdBy: params.createdBy,
+        },
+      });
+
+      const appointments = occurrences.map(occurrence => ({
+        id: generatePrismaCreateFields().id,
+        userId: params.clientId,
+        professionalId: params.professionalId,
+        scheduledAt: occurrence.start,
+        originalStart: occurrence.originalStart,
+        seriesId: series.id,
+        duration: params.duration,
+        type: params.type,
+        status: 'scheduled',
+        encryptedNotes: encryptJSON({
+          notes: params.notes,
+          location: params.location,
+          reminders: params.reminders,
+          recurring: true,
+          seriesId: series.id,
+          createdBy: params.createdBy,
+        }),
+        meetingUrl: params.location === 'virtual' ? generateMeetingUrl() : null,
+        createdAt: now,
+        updatedAt: now,
+      }));
+      await tx.appointment.createMany({ data: appointments });
+
+      return { series, appointments };
+    });
+  }
+
+  async getSeries(seriesId: string) {
+    return prisma.appointmentSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        exceptions: { orderBy: { originalStart: 'asc' } },
+        appointments: { orderBy: { scheduledAt: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Move or cancel one occurrence of a series, recording it as an exception
+   * against the occurrence's original start
+   */
+  async applyOccurrenceException(params: OccurrenceExceptionParams) {
+    const appointment = await prisma.appointment.findUnique({ where: { id: params.appointmentId } });
+    if (!appointment?.seriesId) {
+      throw new WorkflowError('Appointment is not part of a series', { appointmentId: params.appointmentId });
+    }
+
+    const duration = params.newDuration ?? appointment.duration;
+    if (params.type === 'moved') {
+      if (!params.newStart) {
+        throw new ValidationError('A new start time is required to move an occurrence');
+      }
+      const conflicts = await this.findConflictsForSlot(
+        appointment.professionalId,
+        params.newStart,
+        duration,
+        appointment.id
+      );
+      if (conflicts.length > 0) {
+        throw new WorkflowError('New time conflicts with an existing appointment', {
+          appointmentId: appointment.id,
+          conflicts,
+        });
+      }
+    }
+
+    const originalStart = appointment.originalStart ?? appointment.scheduledAt;
+    const exception = {
+      type: params.type,
+      newStart: params.type === 'moved' ? params.newStart : null,
+      newDuration: params.type === 'moved' ? duration : null,
+      reason: params.reason,
+      createdBy: params.changedBy,
+    };
+
+    const [, updated] = await prisma.$transaction([
+      prisma.appointmentSeriesException.upsert({
+        where: { seriesId_originalStart: { seriesId: appointment.seriesId, originalStart } },
+        create: { seriesId: appointment.seriesId, originalStart, ...exception },
+        update: exception,
+      }),
+      prisma.appointment.update({
+        where: { id: appointment.id },
+        data: params.type === 'moved'
+          ? { scheduledAt: params.newStart, duration, originalStart, updatedAt: new Date() }
+          : { status: 'cancelled', cancelledAt: new Date(), originalStart, updatedAt: new Date() },
+      }),
+    ]);
+
+    return updated;
+  }
+
+  /**
+   * Cancel this and all following occurrences. The series rule is ended the
+   * moment before `from`, or the whole series cancelled if nothing precedes it.
+   */
+  async cancelSeriesFrom(seriesId: string, from: Date, cancelledBy: string, reason: string) {
+    const series = await prisma.appointmentSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new WorkflowError('Appointment series not found', { seriesId });
+    }
+
+    const upcoming = await prisma.appointment.findMany({
+      where: {
+        seriesId,
+        scheduledAt: { gte: from },
+        status: { in: BOOKED_STATUSES },
+      },
+    });
+
+    const wholeSeries = from.getTime() <= series.dtstart.getTime();
+    const rule = parseRRule(series.rrule);
+    const endedRule: RecurrenceRule = { ...rule, count: undefined, until: new Date(from.getTime() - 1000) };
+    const cancelledAt = new Date();
+
+    await prisma.$transaction([
+      ...upcoming.map(apt => prisma.appointment.update({
+        where: { id: apt.id },
+        data: { status: 'cancelled', cancelledAt, updatedAt: cancelledAt },
+      })),
+      ...upcoming.map(apt => prisma.appointmentSeriesException.upsert({
+        where: {
+          seriesId_originalStart: { seriesId, originalStart: apt.originalStart ?? apt.scheduledAt },
+        },
+        create: {
+          seriesId,
+          originalStart: apt.originalStart ?? apt.scheduledAt,
+          type: 'cancelled',
+          reason,
+          createdBy: cancelledBy,
+        },
+        update: { type: 'cancelled', newStart: null, newDuration: null, reason, createdBy: cancelledBy },
+      })),
+      prisma.appointmentSeries.update({
+        where: { id: seriesId },
+        data: wholeSeries
+          ? { status: 'cancelled', endedAt: cancelledAt }
+          : { status: 'ended', endedAt: cancelledAt, rrule: formatRRule(endedRule) },
+      }),
+    ]);
+
+    return { cancelledCount: upcoming.length, appointmentIds: upcoming.map(apt => apt.id) };
+  }
+
+  /**
+   * Booked appointments overlapping a single slot, excluding one appointment
+   * (the one being moved)
+   */
+  async findConflictsForSlot(
+    professionalId: string,
+    start: Date,
+    durationMinutes: number,
+    excludeAppointmentId?: string
+  ): Promise<SchedulingConflict[]> {
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+    const booked = await this.getBookedIntervals(professionalId, start, end);
+    return findSeriesConflicts(
+      [{ originalStart: start, start, end }],
+      booked.filter(interval => interval.id !== excludeAppointmentId)
+    );
+  }
+
+  /**
+   * Booked appointments plus slots a client is holding mid-booking
+   */
+  private async getBookedIntervals(professionalId: string, from: Date, to: Date): Promise<ScheduledInterval[]> {
+    const rangeStart = new Date(from.getTime() - (MAX_APPOINTMENT_MINUTES + DEFAULT_BUFFER_MINUTES) * 60000);
+    const rangeEnd = new Date(to.getTime() + DEFAULT_BUFFER_MINUTES * 60000);
+
+    const [appointments, holds] = await Promise.all([
+      prisma.appointment.findMany({
+        where: {
+          professionalId,
+          status: { in: BOOKED_STATUSES },
+          scheduledAt: { gte: rangeStart, lte: rangeEnd },
+        },
+        select: { id: true, scheduledAt: true, duration: true },
+      }),
+      prisma.slotHold.findMany({
+        where: {
+          professionalId,
+          status: 'held',
+          expiresAt: { gt: new Date() },
+          startsAt: { gte: rangeStart, lte: rangeEnd },
+        },
+        select: { id: true, startsAt: true, endsAt: true },
+      }),
+    ]);
+
+    return [
+      ...appointments.map(apt => ({
+        id: apt.id,
+        start: apt.scheduledAt,
+        end: new Date(apt.scheduledAt.getTime() + apt.duration * 60000),
+      })),
+      ...holds.map(hold => ({ id: hold.id, start: hold.startsAt, end: hold.endsAt })),
+    ];
+  }
+}
+
+export function generateMeetingUrl(): string {
+  return `https://therapy.astralcore.com/room/${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export const seriesService = SeriesService.getInstance();
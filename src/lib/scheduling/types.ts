@@ -0,0 +1,186 @@
+/**
+ * Scheduling Types
+ * Shared shapes for recurring appointment series, per-occurrence exceptions,
+ * conflict checks and iCalendar feeds.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface ByDayRule {
+  weekday: Weekday;
+  // Nth weekday of the month (1-4, or -1 for last); monthly rules only
+  ordinal?: number;
+}
+
+/**
+ * Subset of an RFC 5545 RRULE supported for appointment series
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: ByDayRule[];
+  byMonthDay?: number[];
+}
+
+export type SeriesStatus = 'active' | 'ended' | 'cancelled';
+export type SeriesExceptionType = 'cancelled' | 'moved';
+
+export interface Occurrence {
+  // Start of the occurrence as generated by the rule (iCalendar RECURRENCE-ID)
+  originalStart: Date;
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduledInterval {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+export interface SchedulingConflict {
+  occurrenceStart: Date;
+  conflictingAppointmentId: string;
+  conflictingStart: Date;
+  conflictingEnd: Date;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;
+  lastModified?: Date;
+}
+
+export interface CalendarFeedTokenPayload {
+  userId: string;
+  version: number;
+}
+
+export type SelfScheduledSessionType = 'initial' | 'follow_up' | 'teletherapy';
+export type SlotHoldStatus = 'held' | 'confirmed' | 'released';
+
+/**
+ * Recurring weekly working hours in the provider's time zone
+ */
+export interface WeeklyWindow {
+  dayOfWeek: number; // 0-6 (Sunday-Saturday)
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  // Session types offered in this window; empty offers every type
+  sessionTypes: string[];
+}
+
+export interface BlackoutPeriod {
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
+export interface BookingRules {
+  timeZone: string;
+  bufferMinutes: number;
+  maxSessionsPerDay: number;
+  minNoticeHours: number;
+  maxAdvanceDays: number;
+  slotIntervalMinutes: number;
+  sessionDurations: Record<string, number>;
+}
+
+export interface SlotSearchInput {
+  rules: BookingRules;
+  windows: WeeklyWindow[];
+  blackouts: BlackoutPeriod[];
+  // Booked appointments and active holds
+  busy: ScheduledInterval[];
+  sessionType: string;
+  from: Date;
+  to: Date;
+  now?: Date;
+}
+
+export interface AvailableSlot {
+  start: Date;
+  end: Date;
+  sessionType: string;
+}
+
+export type WaitlistStatus = 'active' | 'booked' | 'removed';
+export type WaitlistOfferStatus = 'pending' | 'claimed' | 'declined' | 'expired' | 'withdrawn';
+export type SessionModality = 'office' | 'virtual' | 'phone';
+
+/**
+ * When and how a waitlisted client can be seen; empty lists accept anything
+ */
+export interface WaitlistPreferences {
+  preferredDays: number[]; // 0-6 (Sunday-Saturday)
+  preferredStartTime?: string | null; // HH:mm
+  preferredEndTime?: string | null; // HH:mm
+  sessionTypes: string[];
+  modalities: string[];
+  earliestDate?: Date | null;
+  latestDate?: Date | null;
+}
+
+export interface WaitlistCandidate extends WaitlistPreferences {
+  id: string;
+  clientId: string;
+  priority: number;
+  createdAt: Date;
+}
+
+/**
+ * A freed slot being offered to the waitlist
+ */
+export interface BackfillSlot {
+  start: Date;
+  durationMinutes: number;
+  sessionType: string;
+  modality: string;
+}
+
+export type PolicyFeeType = 'late_cancel' | 'no_show';
+export type PolicyFeeStatus = 'invoiced' | 'waived';
+export type AppointmentAction = 'confirm' | 'cancel' | 'reschedule';
+
+/**
+ * A professional's reminder schedule and attendance fee rules
+ */
+export interface AttendancePolicy {
+  reminderOffsets: number[]; // minutes before the session
+  noShowGraceMinutes: number;
+  lateCancelHours: number;
+  lateCancelFee: number;
+  noShowFee: number;
+  waiveFirstOffense: boolean;
+}
+
+export interface FeeAssessment {
+  type: PolicyFeeType;
+  amount: number;
+  waived: boolean;
+  reason?: string;
+}
+
+export interface AttendanceSummary {
+  total: number;
+  attended: number;
+  noShows: number;
+  lateCancellations: number;
+  cancellations: number;
+  noShowRate: number;
+}
+
+export interface AppointmentActionTokenPayload {
+  appointmentId: string;
+  expiresAt: Date;
+}
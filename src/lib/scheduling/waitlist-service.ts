@@ -0,0 +1,371 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { decryptJSON, encryptJSON } from '@/lib/encryption-exports';
+import { ValidationError, WorkflowError } from '@/lib/error-handling/error-types';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { BackfillSlot, WaitlistPreferences } from './types';
+import { getClaimDeadline, rankCandidates } from './waitlist';
+import { parseTimeOfDay } from './availability';
+import { generateMeetingUrl, seriesService } from './series-service';
+
+export interface JoinWaitlistParams extends WaitlistPreferences {
+  professionalId: string;
+  clientId: string;
+  priority?: number;
+  notes?: string;
+  createdBy: string;
+}
+
+export type WaitlistEntryUpdate = Partial<WaitlistPreferences> & { priority?: number; notes?: string };
+
+// Slots further out than this are left to regular self-scheduling
+const BACKFILL_HORIZON_DAYS = 28;
+
+/**
+ * Waitlist Service
+ * Keeps each therapist's waitlist and backfills cancelled appointments by
+ * offering the freed slot to one matching client at a time, in priority
+ * order, each with a limited window to claim it before it moves on.
+ */
+export class WaitlistService {
+  private static instance: WaitlistService;
+
+  private constructor() {}
+
+  static getInstance(): WaitlistService {
+    if (!WaitlistService.instance) {
+      WaitlistService.instance = new WaitlistService();
+    }
+    return WaitlistService.instance;
+  }
+
+  async joinWaitlist(params: JoinWaitlistParams) {
+    this.validatePreferences(params);
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: { professionalId: params.professionalId, clientId: params.clientId, status: 'active' },
+    });
+    if (existing) {
+      throw new WorkflowError('Client is already on this waitlist', { entryId: existing.id });
+    }
+
+    return prisma.waitlistEntry.create({
+      data: {
+        professionalId: params.professionalId,
+        clientId: params.clientId,
+        priority: params.priority ?? 0,
+        preferredDays: params.preferredDays,
+        preferredStartTime: params.preferredStartTime,
+        preferredEndTime: params.preferredEndTime,
+        sessionTypes: params.sessionTypes,
+        modalities: params.modalities,
+        earliestDate: params.earliestDate,
+        latestDate: params.latestDate,
+        notesEncrypted: params.notes ? encryptJSON({ notes: params.notes }) : undefined,
+        createdBy: params.createdBy,
+      },
+    });
+  }
+
+  async listEntries(professionalId: string, status: string = 'active') {
+    return prisma.waitlistEntry.findMany({
+      where: { professionalId, status },
+      include: { offers: { orderBy: { createdAt: 'desc' }, take: 5 } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async listForClient(clientId: string, now: Date = new Date()) {
+    const [entries, offers] = await Promise.all([
+      prisma.waitlistEntry.findMany({
+        where: { clientId, status: 'active' },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.waitlistOffer.findMany({
+        where: { clientId, status: 'pending', expiresAt: { gt: now } },
+        orderBy: { expiresAt: 'asc' },
+      }),
+    ]);
+    return { entries, offers };
+  }
+
+  async updateEntry(entryId: string, professionalId: string, update: WaitlistEntryUpdate) {
+    const entry = await this.getActiveEntry(entryId);
+    if (entry.professionalId !== professionalId) {
+      throw new WorkflowError('Waitlist entry not found', { entryId });
+    }
+    this.validatePreferences({ ...entry, ...update });
+
+    const { notes, ...preferences } = update;
+    return prisma.waitlistEntry.update({
+      where: { id: entryId },
+      data: {
+        ...preferences,
+        ...(notes !== undefined && { notesEncrypted: encryptJSON({ notes }) }),
+      },
+    });
+  }
+
+  /**
+   * Take an entry off the waitlist, withdrawing any offer it is holding
+   */
+  async removeEntry(entryId: string, owner: { professionalId?: string; clientId?: string }, now: Date = new Date()) {
+    const entry = await this.getActiveEntry(entryId);
+    if (
+      (owner.professionalId && entry.professionalId !== owner.professionalId)
+      || (owner.clientId && entry.clientId !== owner.clientId)
+    ) {
+      throw new WorkflowError('Waitlist entry not found', { entryId });
+    }
+
+    const pending = await prisma.waitlistOffer.findMany({ where: { entryId, status: 'pending' } });
+
+    await prisma.$transaction([
+      prisma.waitlistEntry.update({
+        where: { id: entryId },
+        data: { status: 'removed', removedAt: now },
+      }),
+      prisma.waitlistOffer.updateMany({
+        where: { entryId, status: 'pending' },
+        data: { status: 'withdrawn', respondedAt: now },
+      }),
+    ]);
+
+    for (const offer of pending) {
+      await this.offerNext(offer.sourceAppointmentId, now);
+    }
+  }
+
+  /**
+   * Offer a cancelled appointment's slot to the waitlist. Returns the offer
+   * made, or null when no one matches or the slot is too close or far out.
+   */
+  async startBackfill(appointmentId: string, now: Date = new Date()) {
+    return this.offerNext(appointmentId, now);
+  }
+
+  /**
+   * Book the offered slot for the client, if the offer is still open and
+   * the therapist's calendar is still free
+   */
+  async claimOffer(offerId: string, clientId: string, now: Date = new Date()) {
+    const offer = await prisma.waitlistOffer.findUnique({ where: { id: offerId } });
+    if (!offer || offer.clientId !== clientId) {
+      throw new WorkflowError('Offer not found', { offerId });
+    }
+    if (offer.status !== 'pending' || offer.expiresAt <= now) {
+      throw new WorkflowError('This offer is no longer available', { offerId });
+    }
+
+    const conflicts = await seriesService.findConflictsForSlot(offer.professionalId, offer.slotStart, offer.duration);
+    if (conflicts.length > 0) {
+      await prisma.waitlistOffer.update({
+        where: { id: offer.id },
+        data: { status: 'withdrawn', respondedAt: now },
+      });
+      throw new WorkflowError('This slot has already been filled', { offerId });
+    }
+
+    const appointment = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: 'pending', expiresAt: { gt: now } },
+        data: { status: 'claimed', respondedAt: now },
+      });
+      if (count === 0) {
+        throw new WorkflowError('This offer is no longer available', { offerId });
+      }
+
+      const created = await tx.appointment.create({
+        data: {
+          id: generatePrismaCreateFields().id,
+          userId: offer.clientId,
+          professionalId: offer.professionalId,
+          scheduledAt: offer.slotStart,
+          duration: offer.duration,
+          type: offer.sessionType,
+          status: 'scheduled',
+          encryptedNotes: encryptJSON({
+            location: offer.modality,
+            bookedVia: 'waitlist',
+            waitlistOfferId: offer.id,
+            createdBy: clientId,
+          }),
+          meetingUrl: offer.modality === 'virtual' ? generateMeetingUrl() : null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await tx.waitlistOffer.update({
+        where: { id: offer.id },
+        data: { claimedAppointmentId: created.id },
+      });
+      await tx.waitlistEntry.update({
+        where: { id: offer.entryId },
+        data: { status: 'booked', bookedAppointmentId: created.id },
+      });
+
+      return created;
+    });
+
+    await notificationService.createNotification({
+      userId: offer.professionalId,
+      type: 'appointment',
+      title: 'Cancelled slot filled from waitlist',
+      message: `A waitlisted client booked the ${offer.slotStart.toISOString()} slot.`,
+      priority: 'medium',
+      data: { appointmentId: appointment.id, offerId: offer.id },
+    });
+
+    return appointment;
+  }
+
+  async declineOffer(offerId: string, clientId: string, now: Date = new Date()) {
+    const { count } = await prisma.waitlistOffer.updateMany({
+      where: { id: offerId, clientId, status: 'pending' },
+      data: { status: 'declined', respondedAt: now },
+    });
+    if (count === 0) {
+      throw new WorkflowError('Offer not found', { offerId });
+    }
+
+    const offer = await prisma.waitlistOffer.findUniqueOrThrow({ where: { id: offerId } });
+    await this.offerNext(offer.sourceAppointmentId, now);
+  }
+
+  /**
+   * Expire offers whose claim window has passed and move each slot on to
+   * the next client. Run on a schedule.
+   */
+  async expireOffers(now: Date = new Date()): Promise<{ expired: number; reoffered: number }> {
+    const stale = await prisma.waitlistOffer.findMany({
+      where: { status: 'pending', expiresAt: { lte: now } },
+      select: { id: true, sourceAppointmentId: true },
+    });
+
+    let expired = 0;
+    let reoffered = 0;
+    for (const offer of stale) {
+      const { count } = await prisma.waitlistOffer.updateMany({
+        where: { id: offer.id, status: 'pending' },
+        data: { status: 'expired' },
+      });
+      if (count === 0) continue;
+      expired++;
+
+      if (await this.offerNext(offer.sourceAppointmentId, now)) reoffered++;
+    }
+
+    return { expired, reoffered };
+  }
+
+  private async offerNext(sourceAppointmentId: string, now: Date) {
+    const source = await prisma.appointment.findUnique({ where: { id: sourceAppointmentId } });
+    if (!source || source.status !== 'cancelled') return null;
+    if (source.scheduledAt.getTime() > now.getTime() + BACKFILL_HORIZON_DAYS * 24 * 60 * 60 * 1000) return null;
+
+    const expiresAt = getClaimDeadline(source.scheduledAt, now);
+    if (!expiresAt) return null;
+
+    const conflicts = await seriesService.findConflictsForSlot(
+      source.professionalId,
+      source.scheduledAt,
+      source.duration
+    );
+    if (conflicts.length > 0) return null;
+
+    const slot: BackfillSlot = {
+      start: source.scheduledAt,
+      durationMinutes: source.duration,
+      sessionType: source.type,
+      modality: this.getModality(source.encryptedNotes),
+    };
+
+    const [entries, availability] = await Promise.all([
+      prisma.waitlistEntry.findMany({
+        where: {
+          professionalId: source.professionalId,
+          status: 'active',
+          clientId: { not: source.userId },
+          offers: { none: { sourceAppointmentId } },
+        },
+      }),
+      prisma.providerAvailability.findUnique({
+        where: { professionalId: source.professionalId },
+        select: { timeZone: true },
+      }),
+    ]);
+
+    const [next] = rankCandidates(entries, slot, availability?.timeZone || 'UTC');
+    if (!next) return null;
+
+    let offer;
+    try {
+      offer = await prisma.waitlistOffer.create({
+        data: {
+          entryId: next.id,
+          professionalId: source.professionalId,
+          clientId: next.clientId,
+          sourceAppointmentId,
+          slotStart: slot.start,
+          duration: slot.durationMinutes,
+          sessionType: slot.sessionType,
+          modality: slot.modality,
+          expiresAt,
+        },
+      });
+    } catch (error) {
+      // Another worker already has an open offer out for this slot
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+      throw error;
+    }
+
+    await notificationService.createNotification({
+      userId: next.clientId,
+      type: 'appointment',
+      title: 'An earlier appointment is available',
+      message: `A session on ${slot.start.toISOString()} has opened up. Claim it before ${expiresAt.toISOString()} to book it.`,
+      priority: 'high',
+      data: { offerId: offer.id, slotStart: slot.start.toISOString(), duration: slot.durationMinutes },
+      actionUrl: `/appointments/waitlist?offer=${offer.id}`,
+      actionText: 'Claim appointment',
+      expiresAt,
+    });
+
+    return offer;
+  }
+
+  private async getActiveEntry(entryId: string) {
+    const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+    if (!entry || entry.status !== 'active') {
+      throw new WorkflowError('Waitlist entry not found', { entryId });
+    }
+    return entry;
+  }
+
+  private getModality(encryptedNotes: unknown): string {
+    if (!encryptedNotes) return 'office';
+    try {
+      return decryptJSON(encryptedNotes as string).location || 'office';
+    } catch (error) {
+      console.error('Failed to decrypt appointment notes for waitlist backfill:', error);
+      return 'office';
+    }
+  }
+
+  private validatePreferences(preferences: Partial<WaitlistPreferences>): void {
+    const { preferredStartTime, preferredEndTime, earliestDate, latestDate } = preferences;
+    if (
+      preferredStartTime && preferredEndTime
+      && parseTimeOfDay(preferredEndTime) <= parseTimeOfDay(preferredStartTime)
+    ) {
+      throw new ValidationError('Preferred end time must be after the start time');
+    }
+    if (earliestDate && latestDate && latestDate <= earliestDate) {
+      throw new ValidationError('Latest date must be after the earliest date');
+    }
+  }
+}
+
+export const waitlistService = WaitlistService.getInstance();
@@ -0,0 +1,60 @@
+import { BackfillSlot, WaitlistCandidate, WaitlistPreferences } from './types';
+import { toWallTime } from './rrule';
+import { parseTimeOfDay } from './availability';
+
+/**
+ * Waitlist Matching
+ * Decides which waitlisted clients a freed slot suits, the order they are
+ * offered it in, and how long each offer stays claimable.
+ */
+
+// Longest time a single client can sit on an offer
+export const CLAIM_WINDOW_MINUTES = 120;
+
+// Offers close this long before the session so the therapist can prepare
+export const CLAIM_CUTOFF_MINUTES = 60;
+
+// Shortest claim window worth sending
+export const MIN_CLAIM_WINDOW_MINUTES = 15;
+
+export function matchesPreferences(preferences: WaitlistPreferences, slot: BackfillSlot, timeZone: string): boolean {
+  if (preferences.earliestDate && slot.start < preferences.earliestDate) return false;
+  if (preferences.latestDate && slot.start > preferences.latestDate) return false;
+  if (preferences.sessionTypes.length > 0 && !preferences.sessionTypes.includes(slot.sessionType)) return false;
+  if (preferences.modalities.length > 0 && !preferences.modalities.includes(slot.modality)) return false;
+
+  const wall = toWallTime(slot.start, timeZone);
+  if (preferences.preferredDays.length > 0 && !preferences.preferredDays.includes(wall.getUTCDay())) return false;
+
+  const startMinute = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+  if (preferences.preferredStartTime && startMinute < parseTimeOfDay(preferences.preferredStartTime)) return false;
+  if (preferences.preferredEndTime && startMinute + slot.durationMinutes > parseTimeOfDay(preferences.preferredEndTime)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Matching candidates in offer order: highest priority first, then longest waiting
+ */
+export function rankCandidates<T extends WaitlistCandidate>(
+  candidates: T[],
+  slot: BackfillSlot,
+  timeZone: string
+): T[] {
+  return candidates
+    .filter(candidate => matchesPreferences(candidate, slot, timeZone))
+    .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * When an offer made now expires, or null if the slot is too close to offer
+ */
+export function getClaimDeadline(slotStart: Date, now: Date = new Date()): Date | null {
+  const deadline = Math.min(
+    now.getTime() + CLAIM_WINDOW_MINUTES * 60000,
+    slotStart.getTime() - CLAIM_CUTOFF_MINUTES * 60000
+  );
+  return deadline - now.getTime() >= MIN_CLAIM_WINDOW_MINUTES * 60000 ? new Date(deadline) : null;
+}
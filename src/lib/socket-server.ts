@@ -8,6 +8,7 @@ import { z } from 'zod';
 import CryptoJS from 'crypto-js';
 import { Redis } from '@upstash/redis';
 import { Ratelimit } from '@upstash/ratelimit';
+import { assessCrisisRisk, isAtLeast } from '@/lib/crisis-risk/risk-engine';
 
 const prisma = new PrismaClient();
 
@@ -64,14 +65,6 @@ function decryptMessage(encryptedText: string): string {
   return bytes.toString(CryptoJS.enc.Utf8);
 }
 
-// Crisis keywords for detection
-const CRISIS_KEYWORDS = [
-  'suicide', 'kill myself', 'end it all', 'not worth living',
-  'self harm', 'hurt myself', 'cutting', 'overdose',
-  'no one would care', 'better off without me', 'goodbye forever',
-  'final goodbye', 'last message', 'can\'t go on'
-];
-
 // Socket authentication middleware
 async function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
   try {
@@ -151,24 +144,23 @@ function generateColorTheme(): string {
   return themes[Math.floor(Math.random() * themes.length)] || '#8B5CF6';
 }
 
-// Crisis detection
+// Crisis detection, scored by the shared crisis risk engine in the user's language
 async function detectCrisis(message: string, userId: string): Promise<boolean> {
-  const lowerMessage = message.toLowerCase();
-  
-  // Check for crisis keywords
-  const containsCrisisKeyword = CRISIS_KEYWORDS.some(keyword => 
-    lowerMessage.includes(keyword.toLowerCase())
-  );
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { preferredLanguage: true },
+  });
+  const risk = assessCrisisRisk(message, { language: user?.preferredLanguage });
 
-  if (containsCrisisKeyword) {
+  if (isAtLeast(risk.severity, 'high')) {
     // Create safety alert
     await prisma.safetyAlert.create({
       data: {
         type: 'crisis',
-        severity: 'high',
+        severity: risk.severity,
         userId,
         context: 'chat_message',
-        indicators: ['crisis_keyword_detected'],
+        indicators: risk.indicators.map(indicator => indicator.ruleId),
         handled: false,
         actions: ['auto_resources_sent', 'moderator_notified'],
       },
@@ -0,0 +1,143 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  assertCanSign,
+  assertPlanTransition,
+  calculateNextReviewDate,
+  canTransitionPlan,
+  hashPlanSnapshot,
+  isReviewReminderDue,
+  rollupGoalProgress,
+  rollupObjective,
+} from '../plan-rules'
+import { TreatmentPlanSnapshot, TreatmentPlanStatus } from '../types'
+
+const snapshot: TreatmentPlanSnapshot = {
+  version: 1,
+  diagnoses: [],
+  presentingProblems: [],
+  interventions: [],
+  strengthsAndResources: ['supportive partner'],
+  barriers: [],
+  crisisplan: {
+    warningSignsEncrypted: [],
+    copingStrategies: [],
+    supportContacts: [],
+    professionalContacts: [],
+    safeEnvironment: [],
+  },
+  consentObtained: true,
+  clientInvolvement: 'collaborative',
+  reviewSchedule: { frequency: 'monthly', nextReviewDate: '2024-02-01T00:00:00.000Z' },
+  goals: [],
+}
+
+const unsigned = { version: 2, clientSignedAt: null, clinicianSignedAt: null }
+
+describe('Treatment plan rules', () => {
+  describe('status transitions', () => {
+    it('should allow the active plan to be put on hold and resumed', () => {
+      expect(canTransitionPlan(TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ON_HOLD)).toBe(true)
+      expect(canTransitionPlan(TreatmentPlanStatus.ON_HOLD, TreatmentPlanStatus.ACTIVE)).toBe(true)
+    })
+
+    it('should reject reopening an archived plan', () => {
+      expect(() =>
+        assertPlanTransition(TreatmentPlanStatus.ARCHIVED, TreatmentPlanStatus.ACTIVE)
+      ).toThrow('Treatment plan cannot move from archived to active')
+    })
+  })
+
+  describe('review cadence', () => {
+    it('should add calendar months and clamp to the end of shorter months', () => {
+      const next = calculateNextReviewDate(new Date(2024, 0, 31), 'monthly')
+      expect(next.getMonth()).toBe(1)
+      expect(next.getDate()).toBe(29)
+
+      const quarterly = calculateNextReviewDate(new Date(2024, 10, 15), 'quarterly')
+      expect(quarterly.getFullYear()).toBe(2025)
+      expect(quarterly.getMonth()).toBe(1)
+      expect(quarterly.getDate()).toBe(15)
+    })
+
+    it('should remind once the plan enters the lead window for its cadence', () => {
+      const now = new Date('2024-03-01T00:00:00Z')
+      const plan = {
+        status: TreatmentPlanStatus.ACTIVE,
+        reviewFrequency: 'monthly',
+        nextReviewDate: new Date('2024-03-10T00:00:00Z'),
+        reviewReminderSentAt: null,
+      }
+
+      expect(isReviewReminderDue(plan, now)).toBe(false)
+      expect(isReviewReminderDue({ ...plan, nextReviewDate: new Date('2024-03-07T00:00:00Z') }, now)).toBe(true)
+      expect(isReviewReminderDue({ ...plan, reviewFrequency: 'weekly' }, now)).toBe(false)
+    })
+
+    it('should not remind twice or for plans no longer in use', () => {
+      const now = new Date('2024-03-01T00:00:00Z')
+      const overdue = {
+        status: TreatmentPlanStatus.ACTIVE,
+        reviewFrequency: 'weekly',
+        nextReviewDate: new Date('2024-02-20T00:00:00Z'),
+        reviewReminderSentAt: null,
+      }
+
+      expect(isReviewReminderDue(overdue, now)).toBe(true)
+      expect(isReviewReminderDue({ ...overdue, reviewReminderSentAt: now }, now)).toBe(false)
+      expect(isReviewReminderDue({ ...overdue, status: TreatmentPlanStatus.DRAFT }, now)).toBe(false)
+    })
+  })
+
+  describe('signatures', () => {
+    it('should hash snapshots independently of key order', () => {
+      const reordered = JSON.parse(JSON.stringify({ goals: [], ...snapshot }))
+      expect(hashPlanSnapshot(reordered)).toBe(hashPlanSnapshot(snapshot))
+      expect(hashPlanSnapshot({ ...snapshot, barriers: ['cost'] })).not.toBe(hashPlanSnapshot(snapshot))
+    })
+
+    it('should only allow the current revision to be signed', () => {
+      const plan = { status: TreatmentPlanStatus.ACTIVE, currentVersion: 3 }
+      expect(() => assertCanSign(plan, unsigned, 'clinician')).toThrow(
+        'Only the current revision of a treatment plan can be signed'
+      )
+      expect(() => assertCanSign({ ...plan, currentVersion: 2 }, unsigned, 'clinician')).not.toThrow()
+    })
+
+    it('should reject a second signature from the same party', () => {
+      const plan = { status: TreatmentPlanStatus.DRAFT, currentVersion: 2 }
+      const clientSigned = { ...unsigned, clientSignedAt: new Date() }
+
+      expect(() => assertCanSign(plan, clientSigned, 'client')).toThrow('already been signed by the client')
+      expect(() => assertCanSign(plan, clientSigned, 'clinician')).not.toThrow()
+    })
+  })
+
+  describe('progress rollup', () => {
+    it('should mark an objective achieved at 100 and clamp ratings', () => {
+      expect(rollupObjective(120, 'active')).toEqual({ progress: 100, status: 'achieved' })
+      expect(rollupObjective(40, 'achieved')).toEqual({ progress: 40, status: 'active' })
+      expect(rollupObjective(100, 'discontinued')).toEqual({ progress: 100, status: 'discontinued' })
+    })
+
+    it('should average open objectives and ignore discontinued ones', () => {
+      const rollup = rollupGoalProgress(
+        [
+          { progress: 100, status: 'achieved' },
+          { progress: 50, status: 'active' },
+          { progress: 0, status: 'discontinued' },
+        ],
+        'active'
+      )
+      expect(rollup).toEqual({ progress: 75, status: 'active' })
+    })
+
+    it('should achieve the goal once every counted objective is achieved', () => {
+      const objectives = [
+        { progress: 100, status: 'achieved' },
+        { progress: 10, status: 'discontinued' },
+      ]
+      expect(rollupGoalProgress(objectives, 'active')).toEqual({ progress: 100, status: 'achieved' })
+      expect(rollupGoalProgress(objectives, 'modified')).toEqual({ progress: 100, status: 'modified' })
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  GoalStatus,
+  ProgressRollup,
+  ReviewFrequency,
+  ReviewReminderCandidate,
+  RevisionSignatureState,
+  SignerRole,
+  TreatmentPlanSnapshot,
+  TreatmentPlanStatus,
+} from './types';
+
+/**
+ * Treatment Plan Rules
+ * draft → active (once both parties sign) → on hold / completed → archived.
+ * Every content change creates a new revision that must be signed again;
+ * signed revisions are never edited.
+ */
+
+export const PLAN_STATUS_TRANSITIONS: Record<TreatmentPlanStatus, TreatmentPlanStatus[]> = {
+  [TreatmentPlanStatus.DRAFT]: [TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ARCHIVED],
+  [TreatmentPlanStatus.ACTIVE]: [
+    TreatmentPlanStatus.ON_HOLD,
+    TreatmentPlanStatus.COMPLETED,
+    TreatmentPlanStatus.ARCHIVED,
+  ],
+  [TreatmentPlanStatus.ON_HOLD]: [
+    TreatmentPlanStatus.ACTIVE,
+    TreatmentPlanStatus.COMPLETED,
+    TreatmentPlanStatus.ARCHIVED,
+  ],
+  [TreatmentPlanStatus.COMPLETED]: [TreatmentPlanStatus.ARCHIVED],
+  [TreatmentPlanStatus.ARCHIVED]: [],
+};
+
+// Days before the due date that the therapist is reminded, per review cadence
+export const REVIEW_REMINDER_LEAD_DAYS: Record<ReviewFrequency, number> = {
+  weekly: 1,
+  biweekly: 2,
+  monthly: 7,
+  quarterly: 14,
+};
+
+// Statuses whose plans are still being delivered and so must be reviewed
+const REVIEWABLE_STATUSES = [TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ON_HOLD];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function canTransitionPlan(from: TreatmentPlanStatus, to: TreatmentPlanStatus): boolean {
+  return PLAN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertPlanTransition(from: TreatmentPlanStatus, to: TreatmentPlanStatus): void {
+  if (!canTransitionPlan(from, to)) {
+    throw new WorkflowError(
+      `Treatment plan cannot move from ${from.toLowerCase()} to ${to.toLowerCase()}`,
+      { from, to, allowed: PLAN_STATUS_TRANSITIONS[from] }
+    );
+  }
+}
+
+export function isReviewFrequency(value: string): value is ReviewFrequency {
+  return value in REVIEW_REMINDER_LEAD_DAYS;
+}
+
+/**
+ * Next review date after a review on `from`. Monthly and quarterly cadences
+ * follow calendar months, clamped to the last day of shorter months.
+ */
+export function calculateNextReviewDate(from: Date, frequency: ReviewFrequency): Date {
+  const next = new Date(from);
+
+  switch (frequency) {
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      return next;
+    case 'biweekly':
+      next.setDate(next.getDate() + 14);
+      return next;
+    case 'monthly':
+    case 'quarterly': {
+      const months = frequency === 'monthly' ? 1 : 3;
+      const day = next.getDate();
+      next.setDate(1);
+      next.setMonth(next.getMonth() + months);
+      const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+      next.setDate(Math.min(day, lastDay));
+      return next;
+    }
+  }
+}
+
+export function isReviewOverdue(nextReviewDate: Date, now: Date = new Date()): boolean {
+  return nextReviewDate.getTime() < now.getTime();
+}
+
+/**
+ * A reminder is due once the plan enters its cadence's lead window and no
+ * reminder has been sent since the last review reset it.
+ */
+export function isReviewReminderDue(plan: ReviewReminderCandidate, now: Date = new Date()): boolean {
+  if (!REVIEWABLE_STATUSES.includes(plan.status)) return false;
+  if (plan.reviewReminderSentAt) return false;
+
+  const leadDays = isReviewFrequency(plan.reviewFrequency)
+    ? REVIEW_REMINDER_LEAD_DAYS[plan.reviewFrequency]
+    : REVIEW_REMINDER_LEAD_DAYS.monthly;
+
+  return plan.nextReviewDate.getTime() - now.getTime() <= leadDays * DAY_MS;
+}
+
+/**
+ * Hash of a revision snapshot with keys sorted, so signatures can be checked
+ * against the exact content that was signed
+ */
+export function hashPlanSnapshot(snapshot: TreatmentPlanSnapshot): string {
+  return createHash('sha256').update(stableStringify(snapshot)).digest('hex');
+}
+
+export function getSignatureState(revision: {
+  clientSignedAt: Date | null;
+  clinicianSignedAt: Date | null;
+}): RevisionSignatureState {
+  const clientSigned = !!revision.clientSignedAt;
+  const clinicianSigned = !!revision.clinicianSignedAt;
+  return { clientSigned, clinicianSigned, fullySigned: clientSigned && clinicianSigned };
+}
+
+/**
+ * Only the current revision of a plan that is still in use can be signed,
+ * and each party signs a revision once
+ */
+export function assertCanSign(
+  plan: { status: TreatmentPlanStatus; currentVersion: number },
+  revision: { version: number; clientSignedAt: Date | null; clinicianSignedAt: Date | null },
+  role: SignerRole
+): void {
+  if (plan.status === TreatmentPlanStatus.COMPLETED || plan.status === TreatmentPlanStatus.ARCHIVED) {
+    throw new WorkflowError(`A ${plan.status.toLowerCase()} treatment plan cannot be signed`, {
+      status: plan.status,
+    });
+  }
+
+  if (revision.version !== plan.currentVersion) {
+    throw new WorkflowError('Only the current revision of a treatment plan can be signed', {
+      version: revision.version,
+      currentVersion: plan.currentVersion,
+    });
+  }
+
+  const state = getSignatureState(revision);
+  if ((role === 'client' && state.clientSigned) || (role === 'clinician' && state.clinicianSigned)) {
+    throw new WorkflowError(`Revision ${revision.version} has already been signed by the ${role}`, {
+      version: revision.version,
+      role,
+    });
+  }
+}
+
+export function clampRating(rating: number): number {
+  return Math.min(100, Math.max(0, Math.round(rating)));
+}
+
+/**
+ * Objective status after a progress rating. Closed objectives keep their
+ * status; a rating of 100 marks an active objective achieved.
+ */
+export function rollupObjective(rating: number, currentStatus: GoalStatus): ProgressRollup {
+  const progress = clampRating(rating);
+  if (currentStatus === 'discontinued' || currentStatus === 'modified') {
+    return { progress, status: currentStatus };
+  }
+  return { progress, status: progress >= 100 ? 'achieved' : 'active' };
+}
+
+/**
+ * Goal progress is the mean of its open and achieved objectives. Discontinued
+ * and modified objectives no longer count towards the goal.
+ */
+export function rollupGoalProgress(
+  objectives: Array<{ progress: number; status: string }>,
+  currentStatus: GoalStatus
+): ProgressRollup {
+  const counted = objectives.filter(o => o.status === 'active' || o.status === 'achieved');
+  if (counted.length === 0) return { progress: 0, status: currentStatus };
+
+  const progress = clampRating(counted.reduce((sum, o) => sum + o.progress, 0) / counted.length);
+  if (currentStatus !== 'active' && currentStatus !== 'achieved') {
+    return { progress, status: currentStatus };
+  }
+
+  return {
+    progress,
+    status: counted.every(o => o.status === 'achieved') ? 'achieved' : 'active',
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,698 @@
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { generatePrismaCreateFields } from '@/lib/prisma-helpers';
+import { encryptJSON, decryptJSON } from '@/lib/encryption-exports';
+import { WorkflowError } from '@/lib/error-handling/error-types';
+import {
+  GoalInput,
+  GoalStatus,
+  ObjectiveInput,
+  ReviewSchedule,
+  SignatureDetails,
+  SignerRole,
+  SnapshotGoal,
+  TreatmentPlanContent,
+  TreatmentPlanSnapshot,
+  TreatmentPlanStatus,
+} from './types';
+import {
+  REVIEW_REMINDER_LEAD_DAYS,
+  assertCanSign,
+  assertPlanTransition,
+  calculateNextReviewDate,
+  getSignatureState,
+  hashPlanSnapshot,
+  isReviewFrequency,
+  isReviewOverdue,
+  isReviewReminderDue,
+  rollupGoalProgress,
+  rollupObjective,
+} from './plan-rules';
+
+export interface CreateTreatmentPlanParams {
+  clientId: string;
+  therapistId: string;
+  content: TreatmentPlanContent;
+  goals: GoalInput[];
+  reviewSchedule: ReviewSchedule;
+}
+
+export interface ReviseTreatmentPlanParams {
+  planId: string;
+  revisedBy: string;
+  content?: Partial<TreatmentPlanContent>;
+  goals?: GoalInput[];
+  reviewSchedule?: ReviewSchedule;
+  status?: TreatmentPlanStatus;
+  progressNote?: string;
+}
+
+export interface SignRevisionParams {
+  planId: string;
+  version: number;
+  role: SignerRole;
+  signedBy: string;
+  signature: SignatureDetails;
+}
+
+export interface RecordObjectiveProgressParams {
+  objectiveId: string;
+  rating: number;
+  sessionNoteId?: string;
+  notes?: string;
+  recordedBy: string;
+}
+
+export interface ListTreatmentPlansParams {
+  clientId?: string;
+  therapistId?: string;
+  status?: TreatmentPlanStatus;
+  page: number;
+  limit: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const CONTENT_FIELDS: Array<keyof TreatmentPlanContent> = [
+  'diagnoses',
+  'presentingProblems',
+  'interventions',
+  'strengthsAndResources',
+  'barriers',
+  'crisisplan',
+  'consentObtained',
+  'clientInvolvement',
+];
+
+const PLAN_INCLUDE = {
+  goals: {
+    orderBy: { sortOrder: 'asc' },
+    include: { objectives: { orderBy: { sortOrder: 'asc' } } },
+  },
+  revisions: { orderBy: { version: 'desc' } },
+} satisfies Prisma.TreatmentPlanInclude;
+
+type PlanWithRelations = Prisma.TreatmentPlanGetPayload<{ include: typeof PLAN_INCLUDE }>;
+
+/**
+ * Treatment Plan Service
+ * Persists treatment plans with goals, objectives and objective progress,
+ * versions every change as a revision for client and clinician signature,
+ * and raises review-due reminders on each plan's cadence.
+ */
+export class TreatmentPlanService {
+  private static instance: TreatmentPlanService;
+
+  private constructor() {}
+
+  static getInstance(): TreatmentPlanService {
+    if (!TreatmentPlanService.instance) {
+      TreatmentPlanService.instance = new TreatmentPlanService();
+    }
+    return TreatmentPlanService.instance;
+  }
+
+  /**
+   * Create a draft plan and its first revision. The plan becomes active once
+   * both client and clinician have signed that revision.
+   */
+  async createPlan(params: CreateTreatmentPlanParams) {
+    const planId = await prisma.$transaction(async (tx) => {
+      const plan = await tx.treatmentPlan.create({
+        data: {
+          clientId: params.clientId,
+          therapistId: params.therapistId,
+          status: TreatmentPlanStatus.DRAFT,
+          currentVersion: 1,
+          contentEncrypted: encryptJSON(params.content),
+          reviewFrequency: params.reviewSchedule.frequency,
+          nextReviewDate: new Date(params.reviewSchedule.nextReviewDate),
+          createdBy: params.therapistId,
+        },
+      });
+
+      await this.syncGoals(tx, plan.id, [], params.goals);
+      await this.createRevision(tx, plan.id, 1, params.therapistId, 'Initial treatment plan');
+      return plan.id;
+    });
+
+    return this.getPlanOrThrow(planId);
+  }
+
+  async listPlans(params: ListTreatmentPlansParams) {
+    const where: Prisma.TreatmentPlanWhereInput = {
+      ...(params.clientId && { clientId: params.clientId }),
+      ...(params.therapistId && { therapistId: params.therapistId }),
+      status: params.status ?? { not: TreatmentPlanStatus.ARCHIVED },
+    };
+
+    const [plans, total] = await Promise.all([
+      prisma.treatmentPlan.findMany({
+        where,
+        include: PLAN_INCLUDE,
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+        orderBy: { updatedAt: 'desc' },
+      }),
+      prisma.treatmentPlan.count({ where }),
+    ]);
+
+    return { plans, total };
+  }
+
+  async getPlan(planId: string) {
+    return prisma.treatmentPlan.findUnique({ where: { id: planId }, include: PLAN_INCLUDE });
+  }
+
+  /**
+   * Apply a plan review: merge content, reconcile goals and objectives, record
+   * a new unsigned revision and move the next review date along the cadence
+   */
+  async revisePlan(params: ReviseTreatmentPlanParams) {
+    const plan = await this.getPlanOrThrow(params.planId);
+    const from = plan.status as TreatmentPlanStatus;
+
+    if (from === TreatmentPlanStatus.ARCHIVED || from === TreatmentPlanStatus.COMPLETED) {
+      throw new WorkflowError(`A ${from.toLowerCase()} treatment plan cannot be revised`, {
+        planId: params.planId,
+      });
+    }
+
+    if (params.status && params.status !== from) {
+      if (from === TreatmentPlanStatus.DRAFT && params.status === TreatmentPlanStatus.ACTIVE) {
+        throw new WorkflowError(
+          'A treatment plan becomes active once the client and clinician have signed it',
+          { planId: params.planId }
+        );
+      }
+      assertPlanTransition(from, params.status);
+    }
+
+    const content: TreatmentPlanContent = {
+      ...decryptJSON(plan.contentEncrypted as string),
+      ...pickContent(params.content),
+    };
+
+    const now = new Date();
+    const frequency = params.reviewSchedule?.frequency
+      ?? (isReviewFrequency(plan.reviewFrequency) ? plan.reviewFrequency : 'monthly');
+    const nextReviewDate = params.reviewSchedule
+      ? new Date(params.reviewSchedule.nextReviewDate)
+      : calculateNextReviewDate(now, frequency);
+    const version = plan.currentVersion + 1;
+    const status = params.status ?? from;
+
+    await prisma.$transaction(async (tx) => {
+      if (params.goals) {
+        await this.syncGoals(tx, plan.id, plan.goals, params.goals);
+      }
+
+      await tx.treatmentPlan.update({
+        where: { id: plan.id },
+        data: {
+          contentEncrypted: encryptJSON(content),
+          currentVersion: version,
+          reviewFrequency: frequency,
+          nextReviewDate,
+          lastReviewedAt: now,
+          reviewReminderSentAt: null,
+          status,
+          ...(status === TreatmentPlanStatus.COMPLETED && { completedAt: now }),
+        },
+      });
+
+      await this.createRevision(
+        tx,
+        plan.id,
+        version,
+        params.revisedBy,
+        summarizeChanges(params),
+        params.progressNote
+      );
+    });
+
+    return this.getPlanOrThrow(plan.id);
+  }
+
+  /**
+   * Sign the current revision as client or clinician. A draft plan is
+   * activated, and any other in-use plan for the client archived, when its
+   * revision carries both signatures.
+   */
+  async signRevision(params: SignRevisionParams) {
+    const plan = await this.getPlanOrThrow(params.planId);
+    const revision = plan.revisions.find(r => r.version === params.version);
+    if (!revision) {
+      throw new WorkflowError('Treatment plan revision not found', {
+        planId: params.planId,
+        version: params.version,
+      });
+    }
+
+    assertCanSign(
+      { status: plan.status as TreatmentPlanStatus, currentVersion: plan.currentVersion },
+      revision,
+      params.role
+    );
+
+    const now = new Date();
+    const signature = encryptJSON({ ...params.signature, contentHash: revision.contentHash });
+    const signatureData = params.role === 'client'
+      ? { clientSignedBy: params.signedBy, clientSignedAt: now, clientSignatureEncrypted: signature }
+      : { clinicianSignedBy: params.signedBy, clinicianSignedAt: now, clinicianSignatureEncrypted: signature };
+
+    const state = getSignatureState({
+      clientSignedAt: params.role === 'client' ? now : revision.clientSignedAt,
+      clinicianSignedAt: params.role === 'clinician' ? now : revision.clinicianSignedAt,
+    });
+    const activate = state.fullySigned && plan.status === TreatmentPlanStatus.DRAFT;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.treatmentPlanRevision.update({
+        where: { id: revision.id },
+        data: signatureData,
+      });
+
+      if (activate) {
+        await tx.treatmentPlan.updateMany({
+          where: {
+            clientId: plan.clientId,
+            id: { not: plan.id },
+            status: { in: [TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ON_HOLD] },
+          },
+          data: { status: TreatmentPlanStatus.ARCHIVED, archivedAt: now },
+        });
+
+        await tx.treatmentPlan.update({
+          where: { id: plan.id },
+          data: { status: TreatmentPlanStatus.ACTIVE, activatedAt: now, lastReviewedAt: now },
+        });
+      }
+    });
+
+    return { plan: await this.getPlanOrThrow(plan.id), signatures: state, activated: activate };
+  }
+
+  async archivePlan(planId: string) {
+    const plan = await this.getPlanOrThrow(planId);
+    assertPlanTransition(plan.status as TreatmentPlanStatus, TreatmentPlanStatus.ARCHIVED);
+
+    return prisma.treatmentPlan.update({
+      where: { id: planId },
+      data: { status: TreatmentPlanStatus.ARCHIVED, archivedAt: new Date() },
+    });
+  }
+
+  /**
+   * Record a progress rating (0-100) against an objective, optionally linked
+   * to the session note it was assessed in, and roll it up to the goal
+   */
+  async recordObjectiveProgress(params: RecordObjectiveProgressParams) {
+    const objective = await prisma.treatmentObjective.findUnique({
+      where: { id: params.objectiveId },
+      include: { goal: { include: { plan: true } } },
+    });
+    if (!objective) {
+      throw new WorkflowError('Treatment objective not found', { objectiveId: params.objectiveId });
+    }
+
+    const plan = objective.goal.plan;
+    if (plan.status !== TreatmentPlanStatus.ACTIVE) {
+      throw new WorkflowError('Progress can only be recorded against an active treatment plan', {
+        planId: plan.id,
+        status: plan.status,
+      });
+    }
+
+    if (params.sessionNoteId) {
+      const note = await prisma.therapySessionNote.findUnique({
+        where: { id: params.sessionNoteId },
+        select: { clientId: true },
+      });
+      if (!note || note.clientId !== plan.clientId) {
+        throw new WorkflowError('Session note does not belong to this client', {
+          sessionNoteId: params.sessionNoteId,
+        });
+      }
+    }
+
+    const objectiveRollup = rollupObjective(params.rating, objective.status as GoalStatus);
+    const now = new Date();
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.objectiveProgress.create({
+        data: {
+          objectiveId: objective.id,
+          sessionNoteId: params.sessionNoteId,
+          recordedBy: params.recordedBy,
+          previousRating: objective.progress,
+          currentRating: objectiveRollup.progress,
+          notesEncrypted: params.notes ? encryptJSON({ notes: params.notes }) : undefined,
+        },
+      });
+
+      await tx.treatmentObjective.update({
+        where: { id: objective.id },
+        data: {
+          progress: objectiveRollup.progress,
+          status: objectiveRollup.status,
+          achievedAt: objectiveRollup.status === 'achieved' ? objective.achievedAt ?? now : null,
+        },
+      });
+
+      await this.rollupGoal(tx, objective.goalId, now);
+      return created;
+    });
+
+    return { entry, objective: objectiveRollup, planId: plan.id, clientId: plan.clientId };
+  }
+
+  /**
+   * Progress history for every objective of a plan, oldest first
+   */
+  async getPlanProgress(planId: string) {
+    const entries = await prisma.objectiveProgress.findMany({
+      where: { objective: { goal: { planId } } },
+      orderBy: { recordedAt: 'asc' },
+    });
+
+    return entries.map(entry => ({
+      id: entry.id,
+      objectiveId: entry.objectiveId,
+      sessionNoteId: entry.sessionNoteId,
+      previousRating: entry.previousRating,
+      currentRating: entry.currentRating,
+      notes: entry.notesEncrypted ? decryptJSON(entry.notesEncrypted as string).notes : undefined,
+      recordedBy: entry.recordedBy,
+      recordedAt: entry.recordedAt,
+    }));
+  }
+
+  /**
+   * Plans in a therapist's care whose review is due within the longest
+   * reminder window or already overdue, soonest first
+   */
+  async getDueReviews(therapistId: string, now: Date = new Date()) {
+    const horizon = new Date(now.getTime() + REVIEW_REMINDER_LEAD_DAYS.quarterly * 24 * 60 * 60 * 1000);
+    const plans = await prisma.treatmentPlan.findMany({
+      where: {
+        therapistId,
+        status: { in: [TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ON_HOLD] },
+        nextReviewDate: { lte: horizon },
+      },
+      orderBy: { nextReviewDate: 'asc' },
+    });
+
+    return plans
+      .filter(plan => isReviewOverdue(plan.nextReviewDate, now) || isReviewReminderDue(
+        { ...plan, status: plan.status as TreatmentPlanStatus, reviewReminderSentAt: null },
+        now
+      ))
+      .map(plan => ({
+        planId: plan.id,
+        clientId: plan.clientId,
+        reviewFrequency: plan.reviewFrequency,
+        nextReviewDate: plan.nextReviewDate,
+        lastReviewedAt: plan.lastReviewedAt,
+        overdue: isReviewOverdue(plan.nextReviewDate, now),
+      }));
+  }
+
+  /**
+   * Notify therapists of plans entering their review window. Safe to run on
+   * any schedule: each plan is reminded once per review cycle.
+   */
+  async sendReviewReminders(now: Date = new Date()) {
+    const horizon = new Date(now.getTime() + REVIEW_REMINDER_LEAD_DAYS.quarterly * 24 * 60 * 60 * 1000);
+    const candidates = await prisma.treatmentPlan.findMany({
+      where: {
+        status: { in: [TreatmentPlanStatus.ACTIVE, TreatmentPlanStatus.ON_HOLD] },
+        reviewReminderSentAt: null,
+        nextReviewDate: { lte: horizon },
+      },
+    });
+
+    const due = candidates.filter(plan =>
+      isReviewReminderDue({ ...plan, status: plan.status as TreatmentPlanStatus }, now)
+    );
+
+    for (const plan of due) {
+      const overdue = isReviewOverdue(plan.nextReviewDate, now);
+      await prisma.$transaction([
+        prisma.notification.create({
+          data: {
+            id: generatePrismaCreateFields().id,
+            userId: plan.therapistId,
+            type: 'treatment_plan_review',
+            title: overdue ? 'Treatment Plan Review Overdue' : 'Treatment Plan Review Due',
+            message: `Treatment plan review ${overdue ? 'was due' : 'is due'} on ${plan.nextReviewDate.toISOString().split('T')[0]}`,
+            isPriority: overdue,
+            metadata: {
+              planId: plan.id,
+              clientId: plan.clientId,
+              reviewDate: plan.nextReviewDate.toISOString(),
+            },
+          },
+        }),
+        prisma.treatmentPlan.update({
+          where: { id: plan.id },
+          data: { reviewReminderSentAt: now },
+        }),
+      ]);
+    }
+
+    return { checked: candidates.length, reminded: due.length };
+  }
+
+  /**
+   * Decrypt a plan for API responses, with the signature state of the
+   * current revision and the latest fully signed version
+   */
+  formatPlan(plan: PlanWithRelations) {
+    const current = plan.revisions.find(r => r.version === plan.currentVersion);
+    const signed = plan.revisions.find(r => getSignatureState(r).fullySigned);
+
+    return {
+      ...decryptJSON(plan.contentEncrypted as string),
+      reviewSchedule: {
+        frequency: plan.reviewFrequency,
+        nextReviewDate: plan.nextReviewDate.toISOString(),
+      },
+      goals: plan.goals.map(goal => ({
+        id: goal.id,
+        type: goal.type,
+        description: decryptJSON(goal.descriptionEncrypted as string),
+        measurableOutcome: decryptJSON(goal.measurableOutcomeEncrypted as string),
+        targetDate: goal.targetDate,
+        status: goal.status,
+        progress: goal.progress,
+        achievedAt: goal.achievedAt,
+        objectives: goal.objectives.map(objective => ({
+          id: objective.id,
+          description: decryptJSON(objective.descriptionEncrypted as string),
+          targetDate: objective.targetDate,
+          status: objective.status,
+          progress: objective.progress,
+          completed: objective.status === 'achieved',
+          achievedAt: objective.achievedAt,
+        })),
+      })),
+      version: plan.currentVersion,
+      signedVersion: signed?.version ?? null,
+      signatures: current
+        ? {
+            ...getSignatureState(current),
+            clientSignedAt: current.clientSignedAt,
+            clinicianSignedAt: current.clinicianSignedAt,
+          }
+        : null,
+    };
+  }
+
+  private async getPlanOrThrow(planId: string) {
+    const plan = await this.getPlan(planId);
+    if (!plan) {
+      throw new WorkflowError('Treatment plan not found', { planId });
+    }
+    return plan;
+  }
+
+  /**
+   * Reconcile stored goals and objectives with the submitted list. Items are
+   * matched by id; unmatched stored items are discontinued rather than
+   * deleted so their progress history is kept.
+   */
+  private async syncGoals(
+    tx: Tx,
+    planId: string,
+    existing: PlanWithRelations['goals'],
+    goals: GoalInput[]
+  ) {
+    const now = new Date();
+    const keptGoalIds = new Set<string>();
+
+    for (const [index, goal] of goals.entries()) {
+      const stored = goal.id ? existing.find(g => g.id === goal.id) : undefined;
+      const goalData = {
+        type: goal.type,
+        descriptionEncrypted: encryptJSON(goal.description),
+        measurableOutcomeEncrypted: encryptJSON(goal.measurableOutcome),
+        targetDate: new Date(goal.targetDate),
+        sortOrder: index,
+        ...(goal.status && { status: goal.status }),
+      };
+
+      const goalId = stored
+        ? (await tx.treatmentGoal.update({ where: { id: stored.id }, data: goalData })).id
+        : (await tx.treatmentGoal.create({ data: { ...goalData, planId } })).id;
+      keptGoalIds.add(goalId);
+
+      await this.syncObjectives(tx, goalId, stored?.objectives ?? [], goal.objectives, now);
+      await this.rollupGoal(tx, goalId, now);
+    }
+
+    const dropped = existing.filter(g => !keptGoalIds.has(g.id) && g.status !== 'discontinued');
+    if (dropped.length > 0) {
+      await tx.treatmentGoal.updateMany({
+        where: { id: { in: dropped.map(g => g.id) } },
+        data: { status: 'discontinued' },
+      });
+    }
+  }
+
+  private async syncObjectives(
+    tx: Tx,
+    goalId: string,
+    existing: PlanWithRelations['goals'][number]['objectives'],
+    objectives: ObjectiveInput[],
+    now: Date
+  ) {
+    const keptIds = new Set<string>();
+
+    for (const [index, objective] of objectives.entries()) {
+      const stored = objective.id ? existing.find(o => o.id === objective.id) : undefined;
+      const data = {
+        descriptionEncrypted: encryptJSON(objective.description),
+        targetDate: new Date(objective.targetDate),
+        sortOrder: index,
+        ...(objective.completed && {
+          status: 'achieved',
+          progress: 100,
+          achievedAt: stored?.achievedAt ?? now,
+        }),
+      };
+
+      const id = stored
+        ? (await tx.treatmentObjective.update({ where: { id: stored.id }, data })).id
+        : (await tx.treatmentObjective.create({ data: { ...data, goalId } })).id;
+      keptIds.add(id);
+    }
+
+    const dropped = existing.filter(o => !keptIds.has(o.id) && o.status !== 'discontinued');
+    if (dropped.length > 0) {
+      await tx.treatmentObjective.updateMany({
+        where: { id: { in: dropped.map(o => o.id) } },
+        data: { status: 'discontinued' },
+      });
+    }
+  }
+
+  private async rollupGoal(tx: Tx, goalId: string, now: Date) {
+    const goal = await tx.treatmentGoal.findUnique({
+      where: { id: goalId },
+      include: { objectives: { select: { progress: true, status: true } } },
+    });
+    if (!goal) return;
+
+    const rollup = rollupGoalProgress(goal.objectives, goal.status as GoalStatus);
+    await tx.treatmentGoal.update({
+      where: { id: goalId },
+      data: {
+        progress: rollup.progress,
+        status: rollup.status,
+        achievedAt: rollup.status === 'achieved' ? goal.achievedAt ?? now : null,
+      },
+    });
+  }
+
+  /**
+   * Snapshot the plan as it now stands and store it as an immutable revision
+   */
+  private async createRevision(
+    tx: Tx,
+    planId: string,
+    version: number,
+    createdBy: string,
+    changeSummary: string,
+    progressNote?: string
+  ) {
+    const plan = await tx.treatmentPlan.findUniqueOrThrow({
+      where: { id: planId },
+      include: PLAN_INCLUDE,
+    });
+    const snapshot = buildSnapshot(plan, version);
+
+    return tx.treatmentPlanRevision.create({
+      data: {
+        planId,
+        version,
+        snapshotEncrypted: encryptJSON(snapshot),
+        contentHash: hashPlanSnapshot(snapshot),
+        changeSummary,
+        progressNoteEncrypted: progressNote ? encryptJSON({ note: progressNote }) : undefined,
+        createdBy,
+      },
+    });
+  }
+}
+
+function buildSnapshot(plan: PlanWithRelations, version: number): TreatmentPlanSnapshot {
+  const content: TreatmentPlanContent = decryptJSON(plan.contentEncrypted as string);
+  const goals: SnapshotGoal[] = plan.goals
+    .filter(goal => goal.status !== 'discontinued')
+    .map(goal => ({
+      id: goal.id,
+      type: goal.type as SnapshotGoal['type'],
+      description: decryptJSON(goal.descriptionEncrypted as string),
+      measurableOutcome: decryptJSON(goal.measurableOutcomeEncrypted as string),
+      targetDate: goal.targetDate.toISOString(),
+      status: goal.status as GoalStatus,
+      objectives: goal.objectives
+        .filter(objective => objective.status !== 'discontinued')
+        .map(objective => ({
+          id: objective.id,
+          description: decryptJSON(objective.descriptionEncrypted as string),
+          targetDate: objective.targetDate.toISOString(),
+          status: objective.status as GoalStatus,
+        })),
+    }));
+
+  return {
+    ...content,
+    version,
+    reviewSchedule: {
+      frequency: plan.reviewFrequency as ReviewSchedule['frequency'],
+      nextReviewDate: plan.nextReviewDate.toISOString(),
+    },
+    goals,
+  };
+}
+
+function pickContent(content?: Partial<TreatmentPlanContent>): Partial<TreatmentPlanContent> {
+  if (!content) return {};
+  return Object.fromEntries(
+    CONTENT_FIELDS.filter(field => content[field] !== undefined).map(field => [field, content[field]])
+  ) as Partial<TreatmentPlanContent>;
+}
+
+function summarizeChanges(params: ReviseTreatmentPlanParams): string {
+  const changed = [
+    ...Object.keys(pickContent(params.content)),
+    ...(params.goals ? ['goals'] : []),
+    ...(params.reviewSchedule ? ['reviewSchedule'] : []),
+    ...(params.status ? ['status'] : []),
+  ];
+  return changed.length > 0 ? `Updated ${changed.join(', ')}` : 'Plan reviewed without changes';
+}
+
+export const treatmentPlanService = TreatmentPlanService.getInstance();
@@ -0,0 +1,142 @@
+/**
+ * Treatment Plan Types
+ * Shared shapes for treatment plans, signed revisions, goals, objectives and
+ * objective progress. Mirrors the TreatmentPlan Prisma models.
+ */
+
+// Plan lifecycle statuses (matches the TreatmentPlanStatus Prisma enum)
+export enum TreatmentPlanStatus {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  ON_HOLD = 'ON_HOLD',
+  COMPLETED = 'COMPLETED',
+  ARCHIVED = 'ARCHIVED',
+}
+
+export type ReviewFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+export type GoalType = 'long_term' | 'short_term';
+export type GoalStatus = 'active' | 'achieved' | 'modified' | 'discontinued';
+export type SignerRole = 'client' | 'clinician';
+export type SignatureMethod = 'typed' | 'drawn' | 'in_person';
+
+export interface DiagnosisEntry {
+  code: string;
+  description: string;
+  severity: 'mild' | 'moderate' | 'severe';
+  onset: string;
+  status: 'active' | 'remission' | 'resolved';
+}
+
+export interface PresentingProblem {
+  problem: string;
+  severity: number;
+  duration: string;
+  triggers: string[];
+  maintainingFactors: string[];
+}
+
+export interface PlannedIntervention {
+  type: string;
+  description: string;
+  frequency: string;
+  duration: string;
+  rationale: string;
+  evidenceBase?: string;
+}
+
+export interface CrisisPlanSummary {
+  warningSignsEncrypted: string[];
+  copingStrategies: string[];
+  supportContacts: Array<{ name: string; relationship: string; phone: string; available: string }>;
+  professionalContacts: Array<{ name: string; role: string; phone: string; available: string }>;
+  safeEnvironment: string[];
+}
+
+export interface ReviewSchedule {
+  frequency: ReviewFrequency;
+  nextReviewDate: string;
+}
+
+/**
+ * Plan-level content stored encrypted on TreatmentPlan.contentEncrypted.
+ * Goals and objectives live in their own tables so progress can be tracked.
+ */
+export interface TreatmentPlanContent {
+  diagnoses: DiagnosisEntry[];
+  presentingProblems: PresentingProblem[];
+  interventions: PlannedIntervention[];
+  strengthsAndResources: string[];
+  barriers: string[];
+  crisisplan: CrisisPlanSummary;
+  consentObtained: boolean;
+  clientInvolvement: string;
+}
+
+export interface ObjectiveInput {
+  id?: string;
+  description: string;
+  targetDate: string;
+  completed?: boolean;
+}
+
+export interface GoalInput {
+  id?: string;
+  type: GoalType;
+  description: string;
+  targetDate: string;
+  measurableOutcome: string;
+  status?: GoalStatus;
+  objectives: ObjectiveInput[];
+}
+
+export interface SnapshotObjective {
+  id: string;
+  description: string;
+  targetDate: string;
+  status: GoalStatus;
+}
+
+export interface SnapshotGoal {
+  id: string;
+  type: GoalType;
+  description: string;
+  measurableOutcome: string;
+  targetDate: string;
+  status: GoalStatus;
+  objectives: SnapshotObjective[];
+}
+
+/**
+ * Full plan as of one revision. This is what client and clinician sign, so
+ * progress ratings are deliberately excluded.
+ */
+export interface TreatmentPlanSnapshot extends TreatmentPlanContent {
+  version: number;
+  reviewSchedule: ReviewSchedule;
+  goals: SnapshotGoal[];
+}
+
+export interface SignatureDetails {
+  signerName: string;
+  method: SignatureMethod;
+  attestation: string;
+  signatureData?: string;
+}
+
+export interface RevisionSignatureState {
+  clientSigned: boolean;
+  clinicianSigned: boolean;
+  fullySigned: boolean;
+}
+
+export interface ProgressRollup {
+  progress: number;
+  status: GoalStatus;
+}
+
+export interface ReviewReminderCandidate {
+  status: TreatmentPlanStatus;
+  reviewFrequency: string;
+  nextReviewDate: Date;
+  reviewReminderSentAt: Date | null;
+}
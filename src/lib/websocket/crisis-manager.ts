@@ -1,6 +1,9 @@
 /**
  * Crisis Manager
- * Handles crisis detection, alerting, and counselor coordination
+ * Handles crisis detection, alerting, and counselor coordination. Alerts,
+ * counselor availability and escalation deadlines live in the shared crisis
+ * queue, so every server instance sees the same alerts; this class turns
+ * queue changes into socket events for the users connected here.
  */
 
 import { prisma } from "@/lib/prisma";
@@ -11,28 +14,28 @@ import {
   CrisisAlertPayload,
   CrisisSeverity,
   CrisisStatus,
-  CrisisTrigger,
+  CrisisType,
+  Notification,
+  NotificationEvent,
+  NotificationPriority,
 } from "./events";
 import type { WebSocketServer } from "./server";
-
-// Crisis keywords for detection
-const CRISIS_KEYWORDS = {
-  critical: [
-    "suicide", "kill myself", "end it all", "can't go on", "want to die",
-    "better off dead", "no point living", "ending my life", "overdose",
-    "self harm", "cutting", "hurting myself"
-  ],
-  high: [
-    "hopeless", "worthless", "can't take it", "giving up", "no way out",
-    "trapped", "unbearable", "can't cope", "breaking down", "falling apart",
-    "panic attack", "can't breathe", "losing control"
-  ],
-  medium: [
-    "depressed", "anxious", "scared", "alone", "isolated", "struggling",
-    "overwhelmed", "stressed", "crying", "can't sleep", "nightmares",
-    "flashback", "triggered"
-  ],
-};
+import { assessCrisisRisk } from "@/lib/crisis-risk/risk-engine";
+import { ALERT_ID_PREFIX, CrisisQueue, generateAlertId, getCrisisQueue, NewQueuedAlert } from "@/lib/crisis-queue/crisis-queue";
+import { getCounselorDirectory, isCounselorSpecialty } from "@/lib/crisis-queue/prisma-directory";
+import { specialtyForCrisisType } from "@/lib/crisis-queue/routing";
+import { crisisRotaService } from "@/lib/crisis-rota/rota-service";
+import { measureQueuePressure } from "@/lib/crisis-rota/paging";
+import { crisisHandoffService } from "@/lib/crisis-handoff/handoff-service";
+import type { CustodyAction } from "@/lib/crisis-handoff/types";
+import type { CounselorSpecialty, CrisisQueueEvent, QueuedAlert, RoutingDecision } from "@/lib/crisis-queue/types";
+
+export interface CrisisTrigger {
+  keywords: string[];
+  severity?: CrisisSeverity;
+  // The message the keywords came from, for detecting the user's language
+  text?: string;
+}
 
 // Crisis response templates
 const CRISIS_RESPONSES = {
@@ -50,19 +53,62 @@ const CRISIS_RESPONSES = {
   },
 };
 
+const SEVERITY_ORDER = Object.values(CrisisSeverity);
+
+// Unhandled alerts older than this are left to the crisis dashboard rather than requeued
+const RECOVERY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// How often the rota is re-read, so counselors come on and off duty with their shifts
+const ROTA_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Queue timer the leading instance uses to check whether on-call staff need paging
+const ON_CALL_CHECK_TIMER = "on_call_check";
+const ON_CALL_CHECK_ID = "crisis_queue";
+const ON_CALL_CHECK_INTERVAL_MS = 60 * 1000;
+
+type ManagerNotification = Omit<Notification, "id" | "userId" | "category" | "read" | "acknowledged" | "timestamp"> & {
+  metadata?: Record<string, unknown>;
+  actions?: { label: string; url: string }[];
+};
+
 export class CrisisManager {
   private server: WebSocketServer;
-  private activeAlerts: Map<string, CrisisAlert> = new Map();
-  private counselorQueue: Map<string, Set<string>> = new Map(); // counselorId -> Set of alertIds
-  private availableCounselors: Set<string> = new Set();
-  private escalationTimers: Map<string, NodeJS.Timeout> = new Map();
-
-  constructor(server: WebSocketServer) {
+  private queue: CrisisQueue;
+  private stopListening: () => void;
+  // Counselors connected here who want alerts, and those of them the rota has on duty
+  private readyCounselors: Set<string> = new Set();
+  private onDutyCounselors: Set<string> = new Set();
+  private rotaSync: NodeJS.Timeout | null = null;
+
+  constructor(server: WebSocketServer, queue: CrisisQueue = getCrisisQueue()) {
     this.server = server;
-    this.initializeCounselors();
+    this.queue = queue;
+    this.queue.attachDirectory(getCounselorDirectory());
+    this.queue.onTimer(ON_CALL_CHECK_TIMER, () => this.checkOnCall());
+    this.stopListening = this.queue.onEvent(event => this.handleQueueEvent(event));
+    this.initialize();
+  }
+
+  // Join the shared queue and recover alerts raised before this instance started
+  private async initialize(): Promise<void> {
+    try {
+      const report = await this.queue.start(() => this.loadOpenAlerts());
+      await this.initializeCounselors();
+      await this.queue.scheduleTimer(ON_CALL_CHECK_TIMER, ON_CALL_CHECK_ID, ON_CALL_CHECK_INTERVAL_MS);
+      this.rotaSync = setInterval(() => {
+        this.syncRota().catch(error => console.error("Failed to sync crisis rota:", error));
+      }, ROTA_SYNC_INTERVAL_MS);
+      this.rotaSync.unref?.();
+      console.log(
+        `Crisis queue ready: ${report.restored} restored, ${report.rescheduled} rescheduled, ` +
+        `${report.released} released, ${report.assigned} assigned`
+      );
+    } catch (error) {
+      console.error("Failed to start crisis queue:", error);
+    }
   }
 
-  // Initialize available counselors from database
+  // Mark counselors already connected to this instance and on duty as available
   private async initializeCounselors(): Promise<void> {
     try {
       const counselors = await prisma.user.findMany({
@@ -77,14 +123,15 @@ export class CrisisManager {
         },
       });
 
-      // Check which counselors are online
-      counselors.forEach(counselor => {
+      for (const counselor of counselors) {
         if (this.server.isUserOnline(counselor.id)) {
-          this.availableCounselors.add(counselor.id);
+          this.readyCounselors.add(counselor.id);
         }
-      });
+      }
+      await this.syncRota();
 
-      console.log(`Initialized with ${this.availableCounselors.size} available counselors`);
+      const available = await this.queue.listAvailableCounselors();
+      console.log(`Initialized with ${available.length} available counselors`);
     } catch (error) {
       console.error("Failed to initialize counselors:", error);
     }
@@ -95,46 +142,77 @@ export class CrisisManager {
     userId: string,
     payload: CrisisAlertPayload
   ): Promise<CrisisAlert> {
-    const alertId = this.generateAlertId();
-    
-    const alert: CrisisAlert = {
-      id: alertId,
+    return this.toCrisisAlert(await this.raiseAlert(userId, payload));
+  }
+
+  private async raiseAlert(userId: string, payload: CrisisAlertPayload, text?: string): Promise<QueuedAlert> {
+    const { language, needs } = await this.routingHints(userId, payload, text ?? payload.message);
+    const alert: NewQueuedAlert = {
+      id: generateAlertId(),
       userId,
+      type: payload.type || CrisisType.OTHER,
       severity: payload.severity,
-      status: CrisisStatus.PENDING,
+      source: "websocket",
       message: payload.message,
       triggers: payload.triggers || [],
-      location: (payload as any).location,
-      
-      timestamp: new Date(),
-      assignedCounselor: null,
-      resolvedAt: null,
-      notes: [],
-      interventions: [],
+      language,
+      needs,
     };
 
-    // Store alert
-    this.activeAlerts.set(alertId, alert);
-
-    // Save to database
+    // Saved before it is queued, so a restart in between still restores it
     await this.saveAlertToDatabase(alert);
-
-    // Broadcast to counselors
-    this.server.broadcastCrisisAlert(alert);
+    const queued = await this.queue.enqueue(alert);
 
     // Auto-assign if critical
-    if (alert.severity === CrisisSeverity.CRITICAL) {
-      await this.autoAssignCounselor(alert);
-      this.startEscalationTimer(alert);
+    if (this.isAtLeast(queued.severity, CrisisSeverity.CRITICAL)) {
+      await this.autoAssignCounselor(queued.id);
     }
 
     // Send immediate response to user
-    this.sendImmediateResponse(userId, alert.severity);
+    this.sendImmediateResponse(userId, payload.severity);
 
     // Log the alert
-    await this.logCrisisEvent(userId, "crisis_alert_created", alert);
+    await this.logCrisisEvent(userId, "crisis_alert_created", queued);
 
-    return alert;
+    return (await this.queue.getAlert(queued.id)) ?? queued;
+  }
+
+  // What the counselor who takes this alert should speak and specialize in
+  private async routingHints(
+    userId: string,
+    payload: CrisisAlertPayload,
+    text: string
+  ): Promise<{ language: string; needs: CounselorSpecialty[] }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredLanguage: true, dateOfBirth: true },
+    });
+
+    // A language the user chose outranks one guessed from a few words; "en" is also the default, so it is only a hint
+    const preferred = payload.language ?? user?.preferredLanguage;
+    const chosen = preferred && preferred !== "en" ? preferred : undefined;
+    const assessment = assessCrisisRisk(text, { language: chosen });
+    const language = chosen ?? assessment.language;
+
+    const needs = new Set<CounselorSpecialty>();
+    for (const type of [payload.type, ...assessment.types]) {
+      const specialty = type && specialtyForCrisisType(type);
+      if (specialty) needs.add(specialty);
+    }
+    if (user?.dateOfBirth && this.ageOn(user.dateOfBirth, new Date()) < 18) {
+      needs.add("youth");
+    }
+    (payload.specialties ?? []).filter(isCounselorSpecialty).forEach(specialty => needs.add(specialty));
+
+    return { language, needs: Array.from(needs) };
+  }
+
+  private ageOn(dateOfBirth: Date, today: Date): number {
+    const age = today.getFullYear() - dateOfBirth.getFullYear();
+    const hadBirthday =
+      today.getMonth() > dateOfBirth.getMonth() ||
+      (today.getMonth() === dateOfBirth.getMonth() && today.getDate() >= dateOfBirth.getDate());
+    return hadBirthday ? age : age - 1;
   }
 
   // Handle potential crisis detected in message content
@@ -143,7 +221,7 @@ export class CrisisManager {
     triggers: CrisisTrigger
   ): Promise<void> {
     // Check if user already has active alert
-    const existingAlert = this.getUserActiveAlert(userId);
+    const existingAlert = await this.queue.findOpenForUser(userId);
     if (existingAlert) {
       // Update existing alert
       await this.updateAlertSeverity(existingAlert, triggers);
@@ -152,212 +230,352 @@ export class CrisisManager {
 
     // Determine severity based on triggers
     const severity = this.determineSeverity(triggers);
-    
-    if (severity === (CrisisSeverity as any).NONE) {
-      return;
-    }
 
     // Create automated alert
-    const alert = await this.createAlert(userId, {
+    await this.raiseAlert(userId, {
       severity,
+      type: CrisisType.OTHER,
       message: "Crisis indicators detected in user communication",
       triggers: triggers.keywords,
-      
-    });
+    }, triggers.text ?? triggers.keywords.join(". "));
 
     // Notify user support is available
-    this.server.sendNotification(userId, {
-      id: this.generateNotificationId(),
+    this.server.sendNotification(userId, this.notification({
       type: "crisis_support" as any,
       title: "Support Available",
       message: "We noticed you might be going through a difficult time. Support is available if you need it.",
-      priority: "high",
-      timestamp: new Date(),
+      priority: NotificationPriority.HIGH,
       actionUrl: "/crisis/support",
       actionLabel: "Get Help Now",
-    });
+    }, userId));
   }
 
   // Request crisis help
   public async requestHelp(
     userId: string,
-    data: { message: string; severity: CrisisSeverity }
-  ): Promise<any> {
+    data: { message: string; severity: CrisisSeverity; language?: string; specialties?: string[] }
+  ): Promise<CrisisAlert> {
     // Create or update alert
-    const existingAlert = this.getUserActiveAlert(userId);
-    
+    const existingAlert = await this.queue.findOpenForUser(userId);
+
     if (existingAlert) {
       // Update existing alert
-      existingAlert.message = data.message;
-      existingAlert.severity = data.severity;
-      existingAlert.status = (CrisisStatus as any).ACTIVE;
-      
-      await this.updateAlert(existingAlert);
-      return existingAlert;
+      const updated = await this.queue.update(existingAlert.id, {
+        message: data.message,
+        severity: data.severity,
+      });
+      if (updated) {
+        await this.updateAlertInDatabase(updated);
+        if (!updated.assignedCounselorId) {
+          await this.autoAssignCounselor(updated.id);
+        }
+      }
+      return this.toCrisisAlert((await this.queue.getAlert(existingAlert.id)) ?? updated ?? existingAlert);
     }
 
     // Create new help request
-    const alert = await this.createAlert(userId, {
+    const alert = await this.raiseAlert(userId, {
       severity: data.severity,
+      type: CrisisType.OTHER,
       message: data.message,
-      
+      language: data.language,
+      specialties: data.specialties,
     });
 
     // Immediately assign counselor for help requests
-    await this.autoAssignCounselor(alert);
+    if (!alert.assignedCounselorId) {
+      await this.autoAssignCounselor(alert.id);
+    }
 
-    return alert;
+    return this.toCrisisAlert((await this.queue.getAlert(alert.id)) ?? alert);
   }
 
   // Auto-assign counselor to alert
-  private async autoAssignCounselor(alert: CrisisAlert): Promise<void> {
-    // Find available counselor with least load
-    let selectedCounselor: string | null = null;
-    let minLoad = Infinity;
-
-    for (const counselorId of this.availableCounselors) {
-      const load = this.counselorQueue.get(counselorId)?.size || 0;
-      if (load < minLoad) {
-        minLoad = load;
-        selectedCounselor = counselorId;
-      }
-    }
-
-    if (selectedCounselor) {
-      await this.assignCounselor(alert.id, selectedCounselor);
-    } else {
-      // No counselors available - escalate
-      await this.escalateAlert(alert);
+  private async autoAssignCounselor(alertId: string): Promise<void> {
+    // The queue routes to the best-suited counselor with room for another chat
+    const assigned = await this.queue.autoAssign(alertId);
+    const alert = assigned ?? (await this.queue.getAlert(alertId));
+    if (assigned || !alert || alert.assignedCounselorId) return;
+
+    // No counselors available - escalate. If some are, the alert is holding
+    // out for a better match and its escalation timer is still running.
+    if ((await this.queue.listAvailableCounselors()).length === 0) {
+      await this.queue.escalate(alertId);
     }
   }
 
-  // Assign counselor to alert
+  // Assign counselor to alert; false if another counselor already has it
   public async assignCounselor(
     alertId: string,
     counselorId: string
-  ): Promise<void> {
-    const alert = this.activeAlerts.get(alertId);
-    if (!alert) return;
+  ): Promise<boolean> {
+    return (await this.queue.assign(alertId, counselorId)) !== null;
+  }
 
-    alert.assignedCounselor = counselorId;
-    alert.status = CrisisStatus.ASSIGNED;
+  // Update counselor availability
+  public updateCounselorAvailability(
+    counselorId: string,
+    available: boolean
+  ): void {
+    if (available) {
+      this.readyCounselors.add(counselorId);
+    } else {
+      this.readyCounselors.delete(counselorId);
+    }
 
-    // Update counselor queue
-    if (!this.counselorQueue.has(counselorId)) {
-      this.counselorQueue.set(counselorId, new Set());
+    // Pending alerts are assigned, or the counselor's alerts reassigned, by the queue
+    this.syncRota([counselorId]).catch(error => {
+      console.error("Failed to update counselor availability:", error);
+    });
+  }
+
+  /**
+   * Offer alerts to the ready counselors the rota has on duty. While no
+   * shift covers the current time the rota is not in use, and everyone
+   * ready takes alerts rather than leaving the line unstaffed.
+   */
+  private async syncRota(counselorIds: string[] = Array.from(new Set([
+    ...this.readyCounselors,
+    ...this.onDutyCounselors,
+  ]))): Promise<void> {
+    const roster = await crisisRotaService.getDutyRoster();
+
+    for (const counselorId of counselorIds) {
+      const shouldTake = this.readyCounselors.has(counselorId) &&
+        (!roster.scheduled || roster.onDuty.includes(counselorId));
+      if (shouldTake === this.onDutyCounselors.has(counselorId)) continue;
+
+      if (shouldTake) {
+        this.onDutyCounselors.add(counselorId);
+      } else {
+        this.onDutyCounselors.delete(counselorId);
+      }
+      await this.queue.setCounselorAvailability(counselorId, shouldTake);
     }
-    this.counselorQueue.get(counselorId)!.add(alertId);
+  }
 
-    // Update database
-    await this.updateAlertInDatabase(alert);
+  // Page on-call staff if the queue has backed up; runs on the leading instance
+  private async checkOnCall(): Promise<void> {
+    try {
+      const [alerts, available, roster] = await Promise.all([
+        this.queue.listOpen(),
+        this.queue.listAvailableCounselors(),
+        crisisRotaService.getDutyRoster(),
+      ]);
+      const pressure = measureQueuePressure(alerts, available.length, Date.now());
+      const page = await crisisRotaService.pageOnCall(pressure, roster, available);
+      if (page) {
+        console.warn(`Paged on-call counselor ${page.counselorId}: ${pressure.reasons.join("; ")}`);
+        this.server.getIO().to("admins").emit(NotificationEvent.PUSH, this.notification({
+          type: "crisis_escalation" as any,
+          title: "On-call counselor paged",
+          message: pressure.reasons.join(". "),
+          priority: NotificationPriority.HIGH,
+          actionUrl: "/crisis-dashboard",
+          actionLabel: "View Rota",
+          metadata: { pageId: page.id, counselorId: page.counselorId },
+        }));
+      } else if (pressure.reasons.length > 0 && roster.onCall.length === 0) {
+        console.warn(`Crisis queue is behind with nobody on call: ${pressure.reasons.join("; ")}`);
+      }
+    } finally {
+      await this.queue.scheduleTimer(ON_CALL_CHECK_TIMER, ON_CALL_CHECK_ID, ON_CALL_CHECK_INTERVAL_MS);
+    }
+  }
+
+  // React to a queue change made on any instance
+  private handleQueueEvent(event: CrisisQueueEvent): void {
+    const alert = event.alert;
+    if (!alert) return;
+
+    // Database writes and one-off actions happen once, on the instance that made the change
+    const isOrigin = event.origin === this.queue.instanceId;
+
+    const handle = async () => {
+      switch (event.type) {
+        case "alert_created":
+          this.server.broadcastCrisisAlert(this.toCrisisAlert(alert));
+          break;
+        case "alert_assigned":
+          await this.onAssigned(alert, isOrigin, event.routing);
+          break;
+        case "alert_escalated":
+          await this.onEscalated(alert, isOrigin);
+          break;
+        case "alert_resolved":
+          this.onResolved(alert, isOrigin);
+          break;
+        case "alert_released":
+          if (isOrigin) {
+            await this.updateAlertInDatabase(alert);
+            await this.recordCustody(alert, event.counselorId!, "released");
+          }
+          this.broadcastUpdate(alert);
+          break;
+        case "alert_transferred":
+          await this.onTransferred(alert, isOrigin);
+          break;
+        case "alert_handoff_completed":
+          this.onHandoffCompleted(alert, event.counselorId!);
+          break;
+        case "alert_updated":
+          this.broadcastUpdate(alert);
+          break;
+      }
+    };
+
+    handle().catch(error => {
+      console.error(`Failed to handle crisis queue event ${event.type}:`, error);
+    });
+  }
+
+  private async onAssigned(alert: QueuedAlert, isOrigin: boolean, routing?: RoutingDecision): Promise<void> {
+    const counselorId = alert.assignedCounselorId!;
+
+    if (isOrigin) {
+      await this.updateAlertInDatabase(alert);
+      await this.recordCustody(alert, counselorId, "assigned");
+      if (routing) {
+        await this.logCrisisEvent(alert.userId, "crisis_alert_routed", alert, { routing });
+      }
+    }
 
     // Notify counselor
-    this.server.sendNotification(counselorId, {
-      id: this.generateNotificationId(),
+    this.deliver(counselorId, isOrigin, {
       type: "crisis_assignment" as any,
       title: "Crisis Alert Assigned",
       message: `You have been assigned to a ${alert.severity} severity crisis alert`,
-      priority: "urgent",
-      timestamp: new Date(),
-      actionUrl: `/crisis/alert/${alertId}`,
+      priority: NotificationPriority.URGENT,
+      actionUrl: `/crisis/alert/${alert.id}`,
       actionLabel: "View Alert",
-      metadata: { alertId },
+      metadata: { alertId: alert.id },
     });
 
     // Notify user
-    this.server.sendNotification(alert.userId, {
-      id: this.generateNotificationId(),
+    this.deliver(alert.userId, isOrigin, {
       type: "counselor_assigned" as any,
       title: "Counselor Assigned",
       message: "A crisis counselor has been assigned to help you",
-      priority: "high",
-      timestamp: new Date(),
+      priority: NotificationPriority.HIGH,
     });
 
     // Broadcast assignment
-    this.server.getIO().emit((CrisisEvent as any).COUNSELOR_ASSIGNED, {
-      alertId,
+    this.server.getIO().emit(CrisisEvent.HELP_ASSIGNED, {
+      alertId: alert.id,
       counselorId,
       timestamp: new Date(),
     });
-
-    // Cancel escalation timer
-    this.cancelEscalationTimer(alertId);
   }
 
-  // Update counselor availability
-  public updateCounselorAvailability(
-    counselorId: string,
-    available: boolean
-  ): void {
-    if (available) {
-      this.availableCounselors.add(counselorId);
-      
-      // Check for pending alerts to assign
-      this.assignPendingAlerts();
-    } else {
-      this.availableCounselors.delete(counselorId);
-      
-      // Reassign counselor's active alerts
-      const alerts = this.counselorQueue.get(counselorId);
-      if (alerts) {
-        alerts.forEach(alertId => {
-          const alert = this.activeAlerts.get(alertId);
-          if (alert) {
-            this.autoAssignCounselor(alert);
-          }
-        });
-        this.counselorQueue.delete(counselorId);
-      }
+  /**
+   * A counselor accepted a handoff: they take the conversation over while
+   * the previous counselor stays on until the overlap ends. The handoff
+   * service records the custody change.
+   */
+  private async onTransferred(alert: QueuedAlert, isOrigin: boolean): Promise<void> {
+    const counselorId = alert.assignedCounselorId!;
+
+    if (isOrigin) {
+      await this.updateAlertInDatabase(alert);
     }
-  }
 
-  // Escalate alert
-  private async escalateAlert(alert: CrisisAlert): Promise<void> {
-    alert.status = CrisisStatus.ESCALATED;
-    
-    // Update database
-    await this.updateAlertInDatabase(alert);
+    this.deliver(counselorId, isOrigin, {
+      type: "crisis_assignment" as any,
+      title: "Crisis Conversation Handed To You",
+      message: "You have joined a live crisis conversation. The handoff notes and transcript are on the alert.",
+      priority: NotificationPriority.URGENT,
+      actionUrl: `/crisis/alert/${alert.id}`,
+      actionLabel: "Open Conversation",
+      metadata: { alertId: alert.id },
+    });
 
-    // Notify all admins and senior counselors
-    const admins = await prisma.user.findMany({
-      where: {
-        role: {
-          in: [UserRole.ADMIN, UserRole.SUPER_ADMIN],
-        },
-      },
-      select: { id: true },
+    this.deliver(alert.userId, isOrigin, {
+      type: "counselor_assigned" as any,
+      title: "Another Counselor Is Joining",
+      message: "Your counselor is introducing a colleague who will continue supporting you. " +
+        "They have your conversation so far, so you won't need to repeat anything.",
+      priority: NotificationPriority.HIGH,
     });
 
-    admins.forEach(admin => {
-      this.server.sendNotification(admin.id, {
-        id: this.generateNotificationId(),
-        type: "crisis_escalation" as any,
-        title: "URGENT: Crisis Escalation",
-        message: `Critical crisis alert requires immediate attention`,
-        priority: "urgent",
-        timestamp: new Date(),
-        actionUrl: `/crisis/alert/${alert.id}`,
-        actionLabel: "Respond Now",
-        metadata: { alertId: alert.id },
-      });
+    // Move the user's open chat over to the new counselor
+    this.emitToUser(alert.userId, CrisisEvent.HANDOFF_STARTED, {
+      alertId: alert.id,
+      counselorId,
+      previousCounselorId: alert.supportingCounselorId,
+      timestamp: new Date(),
+    });
+
+    this.server.getIO().emit(CrisisEvent.HELP_ASSIGNED, {
+      alertId: alert.id,
+      counselorId,
+      timestamp: new Date(),
     });
+    this.broadcastUpdate(alert);
+  }
+
+  // The previous counselor has left a handed-off conversation
+  private onHandoffCompleted(alert: QueuedAlert, previousCounselorId: string): void {
+    this.emitToUser(alert.userId, CrisisEvent.HANDOFF_COMPLETED, {
+      alertId: alert.id,
+      counselorId: alert.assignedCounselorId,
+      previousCounselorId,
+      timestamp: new Date(),
+    });
+    this.emitToUser(previousCounselorId, CrisisEvent.HANDOFF_COMPLETED, {
+      alertId: alert.id,
+      counselorId: alert.assignedCounselorId,
+      previousCounselorId,
+      timestamp: new Date(),
+    });
+    this.broadcastUpdate(alert);
+  }
+
+  // Escalated: no counselor picked the alert up in time
+  private async onEscalated(alert: QueuedAlert, isOrigin: boolean): Promise<void> {
+    if (isOrigin) {
+      await this.updateAlertInDatabase(alert);
+    }
+
+    // Notify admins and senior counselors connected here
+    this.server.getIO().to("admins").emit(NotificationEvent.PUSH, this.notification({
+      type: "crisis_escalation" as any,
+      title: "URGENT: Crisis Escalation",
+      message: `Crisis alert requires immediate attention (escalation level ${alert.escalationLevel})`,
+      priority: NotificationPriority.URGENT,
+      actionUrl: `/crisis/alert/${alert.id}`,
+      actionLabel: "Respond Now",
+      metadata: { alertId: alert.id },
+    }));
 
     // Broadcast escalation
-    this.server.getIO().emit(CrisisEvent.ESCALATED, {
+    this.server.getIO().emit(CrisisEvent.ESCALATE, {
       alertId: alert.id,
       severity: alert.severity,
+      escalationLevel: alert.escalationLevel,
       timestamp: new Date(),
     });
 
-    // Send emergency protocols if critical
-    if (alert.severity === CrisisSeverity.CRITICAL) {
+    // Send emergency protocols the first time a critical alert escalates
+    if (isOrigin && alert.escalationLevel === 1 && this.isAtLeast(alert.severity, CrisisSeverity.CRITICAL)) {
       await this.activateEmergencyProtocol(alert);
     }
   }
 
+  private onResolved(alert: QueuedAlert, isOrigin: boolean): void {
+    // Notify user
+    this.deliver(alert.userId, isOrigin, {
+      type: "crisis_resolved" as any,
+      title: "Crisis Support Completed",
+      message: "Your crisis support session has been completed. We're here if you need us again.",
+      priority: NotificationPriority.NORMAL,
+    });
+
+    // Broadcast resolution
+    this.broadcastUpdate(alert);
+  }
+
   // Activate emergency protocol
-  private async activateEmergencyProtocol(alert: CrisisAlert): Promise<void> {
+  private async activateEmergencyProtocol(alert: QueuedAlert): Promise<void> {
     // Log emergency activation
     await this.logCrisisEvent(alert.userId, "emergency_protocol_activated", alert);
 
@@ -367,7 +585,7 @@ export class CrisisManager {
       include: {
         UserProfile: {
           include: {
-            
+
           },
         },
       },
@@ -393,13 +611,11 @@ export class CrisisManager {
 
     if (safetyPlan) {
       // Send safety plan to user
-      this.server.sendNotification(alert.userId, {
-        id: this.generateNotificationId(),
+      this.deliver(alert.userId, true, {
         type: "safety_plan_activated" as any,
         title: "Your Safety Plan",
         message: "Your safety plan has been activated. Follow the steps you've prepared.",
-        priority: "urgent",
-        timestamp: new Date(),
+        priority: NotificationPriority.URGENT,
         actionUrl: "/wellness/safety-plan",
         actionLabel: "View Safety Plan",
         metadata: { safetyPlanId: safetyPlan.id },
@@ -413,74 +629,36 @@ export class CrisisManager {
     counselorId: string,
     notes: string
   ): Promise<void> {
-    const alert = this.activeAlerts.get(alertId);
+    const alert = await this.queue.resolve(alertId);
     if (!alert) return;
 
-    alert.status = CrisisStatus.RESOLVED;
-    (alert as any).resolvedAt = new Date();
-    (alert as any).notesEncrypted.push({
-      author: counselorId,
-      content: notes,
-      timestamp: new Date(),
-    });
-
     // Update database
-    await this.updateAlertInDatabase(alert);
-
-    // Remove from active alerts
-    this.activeAlerts.delete(alertId);
-
-    // Remove from counselor queue
-    this.counselorQueue.get(counselorId)?.delete(alertId);
-
-    // Cancel timers
-    this.cancelEscalationTimer(alertId);
-
-    // Notify user
-    this.server.sendNotification(alert.userId, {
-      id: this.generateNotificationId(),
-      type: "crisis_resolved" as any,
-      title: "Crisis Support Completed",
-      message: "Your crisis support session has been completed. We're here if you need us again.",
-      priority: "normal",
-      timestamp: new Date(),
-    });
-
-    // Broadcast resolution
-    this.server.getIO().emit((CrisisEvent as any).RESOLVED, {
-      alertId,
-      timestamp: new Date(),
-    });
+    await this.updateAlertInDatabase(alert, { handledBy: counselorId, notes });
+    await this.recordCustody(alert, counselorId, "resolved");
 
     // Log resolution
     await this.logCrisisEvent(alert.userId, "crisis_alert_resolved", alert);
   }
 
   // Helper methods
-  private getUserActiveAlert(userId: string): CrisisAlert | null {
-    for (const alert of this.activeAlerts.values()) {
-      if (alert.userId === userId && alert.status !== CrisisStatus.RESOLVED) {
-        return alert;
-      }
-    }
-    return null;
-  }
-
   private async updateAlertSeverity(
-    alert: CrisisAlert,
+    alert: QueuedAlert,
     triggers: CrisisTrigger
   ): Promise<void> {
     const newSeverity = this.determineSeverity(triggers);
-    
-    if (newSeverity > alert.severity) {
-      alert.severity = newSeverity;
-      alert.triggers = [...alert.triggers, ...triggers.keywords];
-      
-      await this.updateAlertInDatabase(alert);
-      
+
+    if (SEVERITY_ORDER.indexOf(newSeverity) > SEVERITY_ORDER.indexOf(alert.severity as CrisisSeverity)) {
+      const updated = await this.queue.update(alert.id, {
+        severity: newSeverity,
+        triggers: [...alert.triggers, ...triggers.keywords],
+      });
+      if (!updated) return;
+
+      await this.updateAlertInDatabase(updated);
+
       // Re-escalate if needed
-      if (newSeverity === CrisisSeverity.CRITICAL && !alert.assignedCounselor) {
-        await this.escalateAlert(alert);
+      if (newSeverity === CrisisSeverity.CRITICAL && !updated.assignedCounselorId) {
+        await this.queue.escalate(alert.id);
       }
     }
   }
@@ -490,51 +668,42 @@ export class CrisisManager {
       return triggers.severity;
     }
 
-    // Analyze keywords to determine severity
-    const keywords = triggers.keywords.map(k => k.toLowerCase());
-    
-    for (const keyword of CRISIS_KEYWORDS.critical) {
-      if (keywords.some(k => k.includes(keyword))) {
+    // Score the reported keywords with the shared crisis risk engine
+    switch (assessCrisisRisk(triggers.keywords.join(". ")).severity) {
+      case "critical":
         return CrisisSeverity.CRITICAL;
-      }
-    }
-    
-    for (const keyword of CRISIS_KEYWORDS.high) {
-      if (keywords.some(k => k.includes(keyword))) {
+      case "high":
         return CrisisSeverity.HIGH;
-      }
-    }
-    
-    for (const keyword of CRISIS_KEYWORDS.medium) {
-      if (keywords.some(k => k.includes(keyword))) {
+      case "medium":
         return CrisisSeverity.MEDIUM;
-      }
+      default:
+        return CrisisSeverity.LOW;
     }
-    
-    return CrisisSeverity.LOW;
+  }
+
+  private isAtLeast(severity: string, threshold: CrisisSeverity): boolean {
+    return SEVERITY_ORDER.indexOf(severity as CrisisSeverity) >= SEVERITY_ORDER.indexOf(threshold);
   }
 
   private sendImmediateResponse(userId: string, severity: CrisisSeverity): void {
     let response = CRISIS_RESPONSES.moderate;
-    
-    if (severity === CrisisSeverity.CRITICAL) {
+
+    if (this.isAtLeast(severity, CrisisSeverity.CRITICAL)) {
       response = CRISIS_RESPONSES.immediate;
     } else if (severity === CrisisSeverity.HIGH) {
       response = CRISIS_RESPONSES.urgent;
     }
 
-    this.server.sendNotification(userId, {
-      id: this.generateNotificationId(),
+    this.server.sendNotification(userId, this.notification({
       type: "crisis_response" as any,
       title: "We're Here to Help",
       message: response.message,
-      priority: "urgent",
-      timestamp: new Date(),
+      priority: NotificationPriority.URGENT,
       actions: response.actions.map(action => ({
         label: action,
         url: this.getActionUrl(action),
       })),
-    });
+    }, userId));
   }
 
   private getActionUrl(action: string): string {
@@ -549,67 +718,112 @@ export class CrisisManager {
       "Suggest coping techniques": "/wellness/coping",
       "Schedule check-in": "/wellness/check-in",
     };
-    
+
     return actionMap[action] || "/crisis";
   }
 
-  private assignPendingAlerts(): void {
-    for (const alert of this.activeAlerts.values()) {
-      if (alert.status === CrisisStatus.PENDING && !alert.assignedCounselor) {
-        this.autoAssignCounselor(alert);
-      }
+  /**
+   * Send a notification if the user is connected to this instance. The
+   * instance that made the change also queues it for users who are not, so
+   * an offline user gets it once they reconnect.
+   */
+  private deliver(userId: string, isOrigin: boolean, notification: ManagerNotification): void {
+    if (isOrigin || this.server.isUserOnline(userId)) {
+      this.server.sendNotification(userId, this.notification(notification, userId));
     }
   }
 
-  private startEscalationTimer(alert: CrisisAlert): void {
-    // Escalate if not handled within 2 minutes for critical alerts
-    const timeout = alert.severity === CrisisSeverity.CRITICAL ? 120000 : 300000;
-    
-    const timer = setTimeout(() => {
-      if (alert.status === CrisisStatus.PENDING) {
-        this.escalateAlert(alert);
-      }
-    }, timeout);
-    
-    this.escalationTimers.set(alert.id, timer);
+  private notification(
+    notification: ManagerNotification,
+    userId = ""
+  ): Notification {
+    return {
+      id: this.generateNotificationId(),
+      timestamp: new Date(),
+      ...notification,
+      userId,
+    } as unknown as Notification;
   }
 
-  private cancelEscalationTimer(alertId: string): void {
-    const timer = this.escalationTimers.get(alertId);
-    if (timer) {
-      clearTimeout(timer);
-      this.escalationTimers.delete(alertId);
-    }
+  // Emit to a user's sockets on this instance; every instance handles the queue event
+  private emitToUser(userId: string, event: CrisisEvent, data: Record<string, unknown>): void {
+    this.server.getUserSockets(userId)?.forEach(socketId => {
+      this.server.getIO().to(socketId).emit(event, data);
+    });
   }
 
-  private async updateAlert(alert: CrisisAlert): Promise<void> {
-    await this.updateAlertInDatabase(alert);
-    
-    // Broadcast update
-    this.server.getIO().emit((CrisisEvent as any).UPDATED, {
+  private broadcastUpdate(alert: QueuedAlert): void {
+    this.server.getIO().emit(CrisisEvent.ALERT_UPDATED, {
       alertId: alert.id,
       status: alert.status,
       severity: alert.severity,
+      assignedCounselorId: alert.assignedCounselorId,
       timestamp: new Date(),
     });
   }
 
+  private toCrisisAlert(alert: QueuedAlert): CrisisAlert {
+    return {
+      id: alert.id,
+      userId: alert.userId,
+      severity: alert.severity as CrisisSeverity,
+      type: alert.type as CrisisType,
+      message: alert.message,
+      triggers: alert.triggers,
+      // Both counselors are on the alert during a handoff's overlap
+      assignedCounselors: [alert.assignedCounselorId, alert.supportingCounselorId].filter(
+        (counselorId): counselorId is string => Boolean(counselorId)
+      ),
+      status: alert.status as CrisisStatus,
+      timestamp: new Date(alert.createdAt),
+      escalationLevel: alert.escalationLevel,
+    };
+  }
+
   // Database operations
-  private async saveAlertToDatabase(alert: CrisisAlert): Promise<void> {
+
+  // Unhandled alerts this manager raised recently, for the queue to restore on boot
+  private async loadOpenAlerts(): Promise<NewQueuedAlert[]> {
+    const alerts = await prisma.safetyAlert.findMany({
+      where: {
+        id: { startsWith: ALERT_ID_PREFIX },
+        handled: false,
+        detectedAt: { gte: new Date(Date.now() - RECOVERY_WINDOW_MS) },
+      },
+    });
+
+    return alerts
+      .filter(alert => SEVERITY_ORDER.includes(alert.severity as CrisisSeverity))
+      .map(alert => ({
+        id: alert.id,
+        userId: alert.userId,
+        type: alert.type,
+        severity: alert.severity as CrisisSeverity,
+        // Rows saved before routing hints were stored all came from here
+        source: alert.source ?? "websocket",
+        message: alert.context,
+        triggers: alert.indicators,
+        language: alert.language,
+        needs: alert.needs.filter(isCounselorSpecialty),
+        createdAt: alert.detectedAt.getTime(),
+      }));
+  }
+
+  private async saveAlertToDatabase(alert: NewQueuedAlert): Promise<void> {
     try {
       await prisma.safetyAlert.create({
         data: {
           id: alert.id,
+          type: alert.type,
           userId: alert.userId,
           severity: alert.severity,
-          
+          context: alert.message,
+          indicators: alert.triggers ?? [],
+          actions: [],
           handled: false,
-          metadata: {
-            triggers: alert.triggers,
-            location: alert.location,
-            contactMethod: (alert as any).contactMethod,
-            status: alert.status,
-          },
+          source: alert.source,
+          language: alert.language ?? null,
+          needs: alert.needs ?? [],
         },
       });
     } catch (error) {
@@ -617,24 +831,20 @@ export class CrisisManager {
     }
   }
 
-  private async updateAlertInDatabase(alert: CrisisAlert): Promise<void> {
+  private async updateAlertInDatabase(
+    alert: QueuedAlert,
+    resolution?: { handledBy: string; notes: string }
+  ): Promise<void> {
     try {
       await prisma.safetyAlert.update({
         where: { id: alert.id },
         data: {
           severity: alert.severity,
-          
-          handled: alert.status === CrisisStatus.RESOLVED,
-          handledBy: alert.assignedCounselor,
-          handledAt: (alert as any).resolvedAt,
-          metadata: {
-            triggers: alert.triggers,
-            location: alert.location,
-            contactMethod: (alert as any).contactMethod,
-            status: alert.status,
-            notes: (alert as any).notesEncrypted,
-            interventions: (alert as any).interventions,
-          },
+          indicators: alert.triggers,
+          handled: alert.status === "resolved",
+          handledBy: resolution?.handledBy ?? alert.assignedCounselorId,
+          handledAt: alert.resolvedAt ? new Date(alert.resolvedAt) : null,
+          ...(resolution && { notes: resolution.notes }),
         },
       });
     } catch (error) {
@@ -645,10 +855,11 @@ export class CrisisManager {
   private async logCrisisEvent(
     userId: string,
     action: string,
-    alert: CrisisAlert
+    alert: QueuedAlert,
+    extra: Record<string, unknown> = {}
   ): Promise<void> {
     try {
-      await prisma.auditLog.create({
+      await (prisma.auditLog as any).create({
         data: {
           userId,
           action,
@@ -657,7 +868,9 @@ export class CrisisManager {
           details: {
             severity: alert.severity,
             status: alert.status,
-            assignedCounselor: alert.assignedCounselor,
+            assignedCounselor: alert.assignedCounselorId,
+            escalationLevel: alert.escalationLevel,
+            ...extra,
           },
           outcome: "success",
         },
@@ -667,21 +880,26 @@ export class CrisisManager {
     }
   }
 
-  // ID generators
-  private generateAlertId(): string {
-    return `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private async recordCustody(alert: QueuedAlert, counselorId: string, action: CustodyAction): Promise<void> {
+    try {
+      await crisisHandoffService.recordCustody(alert.id, counselorId, action);
+    } catch (error) {
+      console.error("Failed to record crisis custody:", error);
+    }
   }
 
+  // ID generators
   private generateNotificationId(): string {
     return `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  // Cleanup
-  public cleanup(): void {
-    this.escalationTimers.forEach(timer => clearTimeout(timer));
-    this.escalationTimers.clear();
-    this.activeAlerts.clear();
-    this.counselorQueue.clear();
-    this.availableCounselors.clear();
+  // Cleanup: alerts stay in the shared queue for the other instances
+  public async cleanup(): Promise<void> {
+    if (this.rotaSync) {
+      clearInterval(this.rotaSync);
+      this.rotaSync = null;
+    }
+    this.stopListening();
+    await this.queue.stop();
   }
-}
\ No newline at end of file
+}
@@ -45,6 +45,8 @@ export enum CrisisEvent {
   INTERVENTION_COMPLETED = "crisis:intervention_completed",
   REPORT_CREATED = "crisis:report_created",
   REPORT_ESCALATED = "crisis:report_escalated",
+  HANDOFF_STARTED = "crisis:handoff_started",
+  HANDOFF_COMPLETED = "crisis:handoff_completed",
 }
 
 // Notification Events
@@ -378,6 +380,9 @@ export interface CrisisAlertPayload {
   suicidalIdeation?: boolean;
   selfHarmRisk?: boolean;
   shareLocation?: boolean;
+  // Routing preferences: the language to be helped in and counselor specialties asked for
+  language?: string;
+  specialties?: string[];
 }
 
 export interface NotificationPayload {
@@ -6,6 +6,7 @@
 import BadWordsFilter from "bad-words";
 import { MessagePayload, MESSAGE_VALIDATION } from "./events";
 import { prisma } from "@/lib/prisma";
+import { assessCrisisRisk, isAtLeast } from "@/lib/crisis-risk/risk-engine";
 
 // Initialize bad words filter
 const filter = new BadWordsFilter();
@@ -27,69 +28,6 @@ filter.addWords(
   "better off dead"
 );
 
-// Crisis trigger keywords
-const CRISIS_KEYWORDS = {
-  high: [
-    "suicide",
-    "kill myself",
-    "end my life",
-    "not worth living",
-    "better off dead",
-    "want to die",
-    "can't go on",
-    "no point in living",
-    "kms",
-    "kys",
-    "overdose",
-    "slit wrists",
-    "jump off",
-    "hang myself",
-    "shoot myself",
-    "poison",
-    "bleach",
-    "noose",
-  ],
-  medium: [
-    "self harm",
-    "cutting",
-    "burning",
-    "hurt myself",
-    "punish myself",
-    "deserve pain",
-    "worthless",
-    "hopeless",
-    "no hope",
-    "give up",
-    "can't take it",
-    "unbearable",
-    "too much pain",
-    "nobody cares",
-    "all alone",
-    "trapped",
-    "no way out",
-  ],
-  low: [
-    "depressed",
-    "anxious",
-    "panic",
-    "scared",
-    "overwhelmed",
-    "struggling",
-    "hard time",
-    "difficult",
-    "stress",
-    "worried",
-    "sad",
-    "lonely",
-    "isolated",
-    "exhausted",
-    "burnt out",
-    "crying",
-    "can't sleep",
-    "nightmares",
-  ],
-};
-
 // Supportive response templates
 const SUPPORTIVE_RESPONSES = {
   high: [
@@ -224,9 +162,10 @@ export async function moderateContent(
   return { flagged: false };
 }
 
-// Crisis trigger detection
+// Crisis trigger detection, scored by the shared crisis risk engine in the sender's language
 export async function detectCrisisTriggers(
-  content: string
+  content: string,
+  userId?: string
 ): Promise<{
   detected: boolean;
   severity?: "low" | "medium" | "high";
@@ -234,62 +173,25 @@ export async function detectCrisisTriggers(
   suggestedResponse?: string;
   requiresImmediate?: boolean;
 }> {
-  const lowerContent = content.toLowerCase();
-  const detectedTriggers: string[] = [];
-  let highestSeverity: "low" | "medium" | "high" | null = null;
-
-  // Check for high severity triggers
-  for (const trigger of CRISIS_KEYWORDS.high) {
-    if (lowerContent.includes(trigger)) {
-      detectedTriggers.push(trigger);
-      highestSeverity = "high";
-    }
-  }
-
-  // Check for medium severity triggers if no high found
-  if (highestSeverity !== "high") {
-    for (const trigger of CRISIS_KEYWORDS.medium) {
-      if (lowerContent.includes(trigger)) {
-        detectedTriggers.push(trigger);
-        highestSeverity = "medium";
-      }
-    }
-  }
-
-  // Check for low severity triggers if no medium/high found
-  if (!highestSeverity) {
-    for (const trigger of CRISIS_KEYWORDS.low) {
-      if (lowerContent.includes(trigger)) {
-        detectedTriggers.push(trigger);
-        highestSeverity = "low";
-      }
-    }
-  }
-
-  if (detectedTriggers.length > 0 && highestSeverity) {
-    // Get contextual analysis
-    const context = await analyzeContext(content, detectedTriggers);
-    
-    // Adjust severity based on context
-    if (context.isPositive) {
-      // User might be talking about recovery or helping others
-      highestSeverity = highestSeverity === "high" ? "medium" : 
-                       highestSeverity === "medium" ? "low" : "low";
-    }
-
-    const responses = SUPPORTIVE_RESPONSES[highestSeverity];
-    const suggestedResponse = responses[Math.floor(Math.random() * responses.length)];
-
-    return {
-      detected: true,
-      severity: highestSeverity,
-      triggers: detectedTriggers,
-      suggestedResponse,
-      requiresImmediate: highestSeverity === "high" && !context.isPositive,
-    };
-  }
-
-  return { detected: false };
+  const sender = userId
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { preferredLanguage: true } })
+    : null;
+  const risk = assessCrisisRisk(content, { language: sender?.preferredLanguage });
+  if (risk.severity === "none") {
+    return { detected: false };
+  }
+
+  const severity = isAtLeast(risk.severity, "high") ? "high" : (risk.severity as "low" | "medium");
+  const responses = SUPPORTIVE_RESPONSES[severity];
+  const suggestedResponse = responses[Math.floor(Math.random() * responses.length)];
+
+  return {
+    detected: true,
+    severity,
+    triggers: risk.indicators.map((indicator) => indicator.matchedText),
+    suggestedResponse,
+    requiresImmediate: risk.immediateRisk,
+  };
 }
 
 // Spam detection
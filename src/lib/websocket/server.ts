@@ -440,9 +440,12 @@ export class WebSocketServer {
       }
 
       // Crisis detection
-      const crisisTriggers = await detectCrisisTriggers(data.content);
+      const crisisTriggers = await detectCrisisTriggers(data.content, socket.userId);
       if (crisisTriggers.detected) {
-        this.crisisManager.handlePotentialCrisis(socket.userId!, crisisTriggers);
+        this.crisisManager.handlePotentialCrisis(socket.userId!, {
+          keywords: crisisTriggers.triggers ?? [],
+          text: data.content,
+        });
       }
 
       // Create message
@@ -0,0 +1,129 @@
+import { describe, expect, it } from '@jest/globals'
+import { evaluateFlagRules, getQuestionScore, scoreAssessment } from '../scoring'
+import {
+  createAUDITAssessment,
+  createBDIAssessment,
+  createDASS21Assessment,
+  createMDQAssessment,
+  createPSSAssessment,
+  createSTAIAssessment,
+  createWEMWBSAssessment
+} from '../standardInstruments'
+import { Assessment, RiskLevel } from '../types'
+
+const answerAll = (assessment: Assessment, value: any): Record<string, any> =>
+  Object.fromEntries(
+    assessment.sections.flatMap(section => section.questions).map(question => [question.id, value])
+  )
+
+const findQuestion = (assessment: Assessment, id: string) =>
+  assessment.sections.flatMap(section => section.questions).find(question => question.id === id)!
+
+describe('Assessment scoring', () => {
+  describe('getQuestionScore', () => {
+    it('should reverse option-scored items within the option range', () => {
+      const pss = createPSSAssessment()
+
+      expect(getQuestionScore(findQuestion(pss, 'pss_1'), 4)).toBe(4)
+      expect(getQuestionScore(findQuestion(pss, 'pss_4'), 4)).toBe(0)
+      expect(getQuestionScore(findQuestion(pss, 'pss_4'), 1)).toBe(3)
+    })
+
+    it('should reverse rating items that do not start at zero', () => {
+      const stai = createSTAIAssessment()
+
+      expect(getQuestionScore(findQuestion(stai, 'stai_1'), 1)).toBe(4)
+      expect(getQuestionScore(findQuestion(stai, 'stai_3'), 1)).toBe(1)
+    })
+  })
+
+  describe('scoreAssessment', () => {
+    it('should double DASS-21 subscales and take the most severe band', () => {
+      const dass = createDASS21Assessment()
+      const responses = answerAll(dass, 0)
+      // Anxiety items 2, 4, 7, 9: raw 8, doubled 16 (severe)
+      for (const id of ['dass21_2', 'dass21_4', 'dass21_7', 'dass21_9']) {
+        responses[id] = 2
+      }
+      responses.dass21_13 = 3
+
+      const score = scoreAssessment(dass, responses)
+
+      expect(score.totalScore).toBe(11)
+      expect(score.subscaleScores).toEqual({ depression: 6, anxiety: 16, stress: 0 })
+      expect(score.subscaleRiskLevels).toEqual({
+        depression: RiskLevel.MINIMAL,
+        anxiety: RiskLevel.SEVERE,
+        stress: RiskLevel.MINIMAL
+      })
+      expect(score.riskLevel).toBe(RiskLevel.SEVERE)
+    })
+
+    it('should score PSS-10 with reverse-scored items', () => {
+      const pss = createPSSAssessment()
+      // All "Very often": six stress items score 4, four coping items score 0
+      const score = scoreAssessment(pss, answerAll(pss, 4))
+
+      expect(score.totalScore).toBe(24)
+      expect(score.subscaleScores).toEqual({ perceived_helplessness: 24, perceived_self_efficacy: 0 })
+      expect(score.riskLevel).toBe(RiskLevel.MODERATE)
+    })
+
+    it('should band STAI state and trait scores separately', () => {
+      const stai = createSTAIAssessment()
+      const responses = answerAll(stai, 4)
+
+      const score = scoreAssessment(stai, responses)
+
+      // 10 of 20 state items and 9 of 20 trait items are reverse scored
+      expect(score.subscaleScores).toEqual({ state: 50, trait: 53 })
+      expect(score.riskLevel).toBe(RiskLevel.SEVERE)
+    })
+
+    it('should treat low well-being scores as higher risk', () => {
+      const wemwbs = createWEMWBSAssessment()
+
+      expect(scoreAssessment(wemwbs, answerAll(wemwbs, 2)).riskLevel).toBe(RiskLevel.MODERATE)
+      expect(scoreAssessment(wemwbs, answerAll(wemwbs, 3)).riskLevel).toBe(RiskLevel.MILD)
+      expect(scoreAssessment(wemwbs, answerAll(wemwbs, 4)).riskLevel).toBe(RiskLevel.MINIMAL)
+    })
+
+    it('should map AUDIT totals to WHO risk zones', () => {
+      const audit = createAUDITAssessment()
+      const responses = answerAll(audit, 0)
+      responses.audit_1 = 4
+      responses.audit_2 = 3
+      responses.audit_3 = 3
+
+      const score = scoreAssessment(audit, responses)
+
+      expect(score.totalScore).toBe(10)
+      expect(score.subscaleScores?.consumption).toBe(10)
+      expect(score.riskLevel).toBe(RiskLevel.MILD)
+    })
+
+    it('should require clustering and impairment for a positive MDQ screen', () => {
+      const mdq = createMDQAssessment()
+      const responses = { ...answerAll(mdq, true), mdq_part2: true, mdq_part3: 'minor' }
+
+      expect(scoreAssessment(mdq, responses).totalScore).toBe(13)
+      expect(scoreAssessment(mdq, responses).riskLevel).toBe(RiskLevel.MILD)
+      expect(scoreAssessment(mdq, { ...responses, mdq_part3: 'serious' }).riskLevel).toBe(RiskLevel.MODERATE)
+      expect(scoreAssessment(mdq, answerAll(mdq, false)).riskLevel).toBe(RiskLevel.MINIMAL)
+    })
+  })
+
+  describe('evaluateFlagRules', () => {
+    it('should return the most severe matching rule for critical items', () => {
+      const item9 = findQuestion(createBDIAssessment(), 'bdi_9')
+
+      expect(evaluateFlagRules(item9, 0)).toBeNull()
+      expect(evaluateFlagRules(item9, 1)).toEqual(expect.objectContaining({
+        questionId: 'bdi_9',
+        reason: 'crisis_indicator',
+        severity: 'high'
+      }))
+      expect(evaluateFlagRules(item9, 3)?.severity).toBe('critical')
+    })
+  })
+})
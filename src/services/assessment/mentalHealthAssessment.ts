@@ -6,208 +6,20 @@
 
 import { auditLogger, AuditEventType, AuditSeverity } from '../security/auditLogger';
 import { hipaaService, PHICategory, HIPAARole, AccessLevel } from '../compliance/hipaaService';
-
-// Standardized assessment types
-export enum AssessmentType {
-  // Depression Assessments
-  PHQ9 = 'phq9',           // Patient Health Questionnaire-9
-  PHQ2 = 'phq2',           // Brief depression screening
-  BDI = 'bdi',             // Beck Depression Inventory
-  
-  // Anxiety Assessments
-  GAD7 = 'gad7',           // Generalized Anxiety Disorder-7
-  BAI = 'bai',             // Beck Anxiety Inventory
-  STAI = 'stai',           // State-Trait Anxiety Inventory
-  
-  // Stress Assessments
-  PSS = 'pss',             // Perceived Stress Scale
-  DASS21 = 'dass21',       // Depression, Anxiety, Stress Scales
-  
-  // Trauma Assessments
-  PTSD5 = 'ptsd5',         // PTSD Checklist for DSM-5
-  PCL5 = 'pcl5',           // PTSD Checklist-5
-  ACES = 'aces',           // Adverse Childhood Experiences
-  
-  // Mood Assessments
-  MDQ = 'mdq',             // Mood Disorder Questionnaire
-  YMRS = 'ymrs',           // Young Mania Rating Scale
-  
-  // Substance Use
-  AUDIT = 'audit',         // Alcohol Use Disorders Test
-  DAST = 'dast',           // Drug Abuse Screening Test
-  
-  // General Mental Health
-  GHQ12 = 'ghq12',         // General Health Questionnaire-12
-  WEMWBS = 'wemwbs',       // Warwick-Edinburgh Mental Well-being Scale
-  
-  // Crisis Assessment
-  CRISIS_RISK = 'crisis_risk',     // Suicide risk assessment
-  SELF_HARM = 'self_harm'          // Self-harm risk assessment
-}
-
-// Risk levels for clinical decision making
-export enum RiskLevel {
-  MINIMAL = 'minimal',
-  MILD = 'mild',
-  MODERATE = 'moderate',
-  SEVERE = 'severe',
-  CRISIS = 'crisis'
-}
-
-// Question types supported
-export enum QuestionType {
-  LIKERT = 'likert',           // 1-5 scale
-  BINARY = 'binary',           // Yes/No
-  MULTIPLE_CHOICE = 'multiple_choice',
-  RATING = 'rating',           // 0-10 scale
-  TEXT = 'text',              // Free text response
-  CHECKLIST = 'checklist'      // Multiple selection
-}
-
-// Individual assessment question
-export interface AssessmentQuestion {
-  id: string;
-  text: string;
-  type: QuestionType;
-  required: boolean;
-  
-  // For structured questions
-  options?: AssessmentOption[];
-  scale?: {
-    min: number;
-    max: number;
-    labels?: Record<number, string>;
-  };
-  
-  // Scoring
-  weight?: number;
-  reverseScored?: boolean;
-  
-  // Conditional logic
-  showIf?: {
-    questionId: string;
-    condition: 'equals' | 'greater_than' | 'less_than';
-    value: any;
-  };
-}
-
-export interface AssessmentOption {
-  value: any;
-  label: string;
-  score?: number;
-}
-
-// Complete assessment definition
-export interface Assessment {
-  id: string;
-  type: AssessmentType;
-  name: string;
-  description: string;
-  version: string;
-  
-  // Clinical information
-  validatedFor: string[];      // Population types
-  ageRange: { min: number; max: number };
-  estimatedTime: number;       // minutes
-  
-  // Questions and structure
-  sections: AssessmentSection[];
-  totalQuestions: number;
-  
-  // Scoring information
-  scoringAlgorithm: ScoringAlgorithm;
-  riskThresholds: Record<RiskLevel, number>;
-  
-  // Clinical interpretation
-  interpretationGuide: string;
-  recommendedActions: Record<RiskLevel, string[]>;
-  
-  // Metadata
-  createdBy: string;
-  validatedDate: Date;
-  references: string[];
-}
-
-export interface AssessmentSection {
-  id: string;
-  title: string;
-  description?: string;
-  questions: AssessmentQuestion[];
-  weight?: number;
-}
-
-export interface ScoringAlgorithm {
-  method: 'sum' | 'average' | 'weighted' | 'custom';
-  customFunction?: string;
-  subscales?: {
-    name: string;
-    questionIds: string[];
-    method: 'sum' | 'average' | 'weighted';
-  }[];
-}
-
-// Assessment session/response
-export interface AssessmentSession {
-  id: string;
-  userId: string;
-  assessmentId: string;
-  
-  // Session details
-  startedAt: Date;
-  completedAt?: Date;
-  status: 'in_progress' | 'completed' | 'abandoned';
-  
-  // Responses
-  responses: Record<string, any>;
-  currentQuestionIndex: number;
-  
-  // Results (available after completion)
-  results?: AssessmentResults;
-  
-  // Clinical context
-  administeringClinician?: string;
-  clinicalContext?: string;
-  referralSource?: string;
-}
-
-export interface AssessmentResults {
-  sessionId: string;
-  assessmentId: string;
-  
-  // Scores
-  totalScore: number;
-  percentileScore?: number;
-  subscaleScores?: Record<string, number>;
-  
-  // Risk assessment
-  riskLevel: RiskLevel;
-  riskFactors: string[];
-  protectiveFactors: string[];
-  
-  // Clinical interpretation
-  interpretation: string;
-  recommendations: string[];
-  flaggedResponses: FlaggedResponse[];
-  
-  // Follow-up
-  requiresImmediateAttention: boolean;
-  suggestedFollowUp: Date;
-  
-  // Metadata
-  scoredAt: Date;
-  scoredBy: 'system' | 'clinician';
-  reliability: number;     // 0-1 scale
-  validity: number;        // 0-1 scale
-}
-
-export interface FlaggedResponse {
-  questionId: string;
-  questionText: string;
-  response: any;
-  reason: 'crisis_indicator' | 'inconsistent' | 'extreme_score' | 'skip_pattern_violation';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  suggestedAction: string;
-}
+import {
+  Assessment,
+  AssessmentQuestion,
+  AssessmentResults,
+  AssessmentSession,
+  AssessmentType,
+  FlaggedResponse,
+  QuestionType,
+  RiskLevel
+} from './types';
+import { evaluateFlagRules, scoreAssessment } from './scoring';
+import * as instruments from './standardInstruments';
+
+export * from './types';
 
 class MentalHealthAssessmentService {
   private static instance: MentalHealthAssessmentService;
@@ -549,186 +361,43 @@ class MentalHealthAssessmentService {
   // Private helper methods
 
   private initializeStandardAssessments(): void {
-    // PHQ-9 Depression Assessment
-    const phq9 = this.createPHQ9Assessment();
-    this.assessments.set(phq9.id, phq9);
-
-    // GAD-7 Anxiety Assessment
-    const gad7 = this.createGAD7Assessment();
-    this.assessments.set(gad7.id, gad7);
-
-    // Crisis Risk Assessment
-    const crisisRisk = this.createCrisisRiskAssessment();
-    this.assessments.set(crisisRisk.id, crisisRisk);
-  }
-
-  private createPHQ9Assessment(): Assessment {
-    const questions: AssessmentQuestion[] = [
-      {
-        id: 'phq9_1',
-        text: 'Over the last 2 weeks, how often have you been bothered by little interest or pleasure in doing things?',
-        type: QuestionType.LIKERT,
-        required: true,
-        options: [
-          { value: 0, label: 'Not at all', score: 0 },
-          { value: 1, label: 'Several days', score: 1 },
-          { value: 2, label: 'More than half the days', score: 2 },
-          { value: 3, label: 'Nearly every day', score: 3 }
-        ]
-      },
-      {
-        id: 'phq9_2',
-        text: 'Over the last 2 weeks, how often have you been bothered by feeling down, depressed, or hopeless?',
-        type: QuestionType.LIKERT,
-        required: true,
-        options: [
-          { value: 0, label: 'Not at all', score: 0 },
-          { value: 1, label: 'Several days', score: 1 },
-          { value: 2, label: 'More than half the days', score: 2 },
-          { value: 3, label: 'Nearly every day', score: 3 }
-        ]
-      },
-      // Additional PHQ-9 questions would be added here
-    ];
-
-    return {
-      id: 'phq9_v1',
-      type: AssessmentType.PHQ9,
-      name: 'Patient Health Questionnaire-9 (PHQ-9)',
-      description: 'A validated screening tool for depression severity',
-      version: '1.0',
-      validatedFor: ['adults', 'adolescents'],
-      ageRange: { min: 12, max: 100 },
-      estimatedTime: 5,
-      sections: [{
-        id: 'main',
-        title: 'Depression Symptoms',
-        questions
-      }],
-      totalQuestions: questions.length,
-      scoringAlgorithm: {
-        method: 'sum'
-      },
-      riskThresholds: {
-        [RiskLevel.MINIMAL]: 4,
-        [RiskLevel.MILD]: 9,
-        [RiskLevel.MODERATE]: 14,
-        [RiskLevel.SEVERE]: 19,
-        [RiskLevel.CRISIS]: 25
-      },
-      interpretationGuide: 'PHQ-9 scores: 0-4 minimal depression, 5-9 mild, 10-14 moderate, 15-19 moderately severe, 20-27 severe',
-      recommendedActions: {
-        [RiskLevel.MINIMAL]: ['Monitor symptoms', 'Lifestyle interventions'],
-        [RiskLevel.MILD]: ['Psychoeducation', 'Self-help resources', 'Follow-up in 2-4 weeks'],
-        [RiskLevel.MODERATE]: ['Consider therapy', 'Medication evaluation', 'Weekly follow-up'],
-        [RiskLevel.SEVERE]: ['Immediate clinical evaluation', 'Consider hospitalization', 'Daily monitoring'],
-        [RiskLevel.CRISIS]: ['Immediate psychiatric evaluation', 'Crisis intervention', 'Safety planning']
-      },
-      createdBy: 'system',
-      validatedDate: new Date(),
-      references: ['Kroenke, K., Spitzer, R. L., & Williams, J. B. (2001). The PHQ-9']
-    };
-  }
-
-  private createGAD7Assessment(): Assessment {
-    // Similar structure to PHQ-9, focused on anxiety
-    return {
-      id: 'gad7_v1',
-      type: AssessmentType.GAD7,
-      name: 'Generalized Anxiety Disorder 7-item (GAD-7)',
-      description: 'A validated screening tool for generalized anxiety disorder',
-      version: '1.0',
-      validatedFor: ['adults'],
-      ageRange: { min: 18, max: 100 },
-      estimatedTime: 3,
-      sections: [{
-        id: 'main',
-        title: 'Anxiety Symptoms',
-        questions: [] // Would include GAD-7 questions
-      }],
-      totalQuestions: 7,
-      scoringAlgorithm: { method: 'sum' },
-      riskThresholds: {
-        [RiskLevel.MINIMAL]: 4,
-        [RiskLevel.MILD]: 9,
-        [RiskLevel.MODERATE]: 14,
-        [RiskLevel.SEVERE]: 18,
-        [RiskLevel.CRISIS]: 21
-      },
-      interpretationGuide: 'GAD-7 scores: 0-4 minimal anxiety, 5-9 mild, 10-14 moderate, 15+ severe',
-      recommendedActions: {
-        [RiskLevel.MINIMAL]: ['Monitor symptoms'],
-        [RiskLevel.MILD]: ['Self-help resources', 'Relaxation techniques'],
-        [RiskLevel.MODERATE]: ['Consider therapy', 'Anxiety management'],
-        [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
-        [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
-      },
-      createdBy: 'system',
-      validatedDate: new Date(),
-      references: ['Spitzer, R. L., Kroenke, K., Williams, J. B., & Löwe, B. (2006)']
-    };
-  }
-
-  private createCrisisRiskAssessment(): Assessment {
-    const questions: AssessmentQuestion[] = [
-      {
-        id: 'crisis_1',
-        text: 'In the past month, have you wished you were dead or wished you could go to sleep and not wake up?',
-        type: QuestionType.BINARY,
-        required: true,
-        options: [
-          { value: false, label: 'No', score: 0 },
-          { value: true, label: 'Yes', score: 5 }
-        ]
-      },
-      {
-        id: 'crisis_2',
-        text: 'In the past month, have you actually had any thoughts about killing yourself?',
-        type: QuestionType.BINARY,
-        required: true,
-        options: [
-          { value: false, label: 'No', score: 0 },
-          { value: true, label: 'Yes', score: 10 }
-        ]
-      },
-      // Additional crisis assessment questions
+    const standardAssessments: Assessment[] = [
+      // Depression
+      instruments.createPHQ9Assessment(),
+      instruments.createPHQ2Assessment(),
+      instruments.createBDIAssessment(),
+
+      // Anxiety
+      instruments.createGAD7Assessment(),
+      instruments.createBAIAssessment(),
+      instruments.createSTAIAssessment(),
+
+      // Stress
+      instruments.createPSSAssessment(),
+      instruments.createDASS21Assessment(),
+
+      // Trauma
+      instruments.createPCL5Assessment(),
+      instruments.createACEsAssessment(),
+
+      // Mood
+      instruments.createMDQAssessment(),
+
+      // Substance use
+      instruments.createAUDITAssessment(),
+      instruments.createDASTAssessment(),
+
+      // General mental health
+      instruments.createGHQ12Assessment(),
+      instruments.createWEMWBSAssessment(),
+
+      // Crisis
+      instruments.createCrisisRiskAssessment()
     ];
 
-    return {
-      id: 'crisis_risk_v1',
-      type: AssessmentType.CRISIS_RISK,
-      name: 'Crisis Risk Assessment',
-      description: 'Screening for suicide risk and crisis intervention needs',
-      version: '1.0',
-      validatedFor: ['adults', 'adolescents'],
-      ageRange: { min: 12, max: 100 },
-      estimatedTime: 10,
-      sections: [{
-        id: 'main',
-        title: 'Crisis Risk Factors',
-        questions
-      }],
-      totalQuestions: questions.length,
-      scoringAlgorithm: { method: 'weighted' },
-      riskThresholds: {
-        [RiskLevel.MINIMAL]: 0,
-        [RiskLevel.MILD]: 5,
-        [RiskLevel.MODERATE]: 15,
-        [RiskLevel.SEVERE]: 25,
-        [RiskLevel.CRISIS]: 35
-      },
-      interpretationGuide: 'Crisis risk assessment requires immediate clinical evaluation for any positive responses',
-      recommendedActions: {
-        [RiskLevel.MINIMAL]: ['Document assessment', 'Regular monitoring'],
-        [RiskLevel.MILD]: ['Safety planning', 'Increased support'],
-        [RiskLevel.MODERATE]: ['Clinical evaluation', 'Safety measures', 'Frequent contact'],
-        [RiskLevel.SEVERE]: ['Immediate psychiatric evaluation', 'Consider hospitalization'],
-        [RiskLevel.CRISIS]: ['Emergency intervention', 'Hospitalization', 'Continuous monitoring']
-      },
-      createdBy: 'system',
-      validatedDate: new Date(),
-      references: ['Columbia Suicide Severity Rating Scale']
-    };
+    for (const assessment of standardAssessments) {
+      this.assessments.set(assessment.id, assessment);
+    }
   }
 
   private findQuestion(assessment: Assessment, questionId: string): AssessmentQuestion | null {
@@ -817,6 +486,10 @@ class MentalHealthAssessmentService {
     response: any,
     assessmentType: AssessmentType
   ): Promise<FlaggedResponse | null> {
+    // Critical-item rules declared on the instrument take precedence
+    const ruleFlag = evaluateFlagRules(question, response);
+    if (ruleFlag) return ruleFlag;
+
     // Crisis indicators for different assessment types
     const crisisPatterns: Record<string, Record<string, (response: any) => boolean>> = {
       [AssessmentType.PHQ9]: {
@@ -872,17 +545,12 @@ class MentalHealthAssessmentService {
 
   private async calculateResults(session: AssessmentSession, assessment: Assessment): Promise<AssessmentResults> {
     const allQuestions = this.getAllQuestions(assessment);
-    let totalScore = 0;
     const flaggedResponses: FlaggedResponse[] = [];
 
-    // Calculate total score
+    // Check for flags during scoring
     for (const question of allQuestions) {
       const response = session.responses[question.id];
       if (response !== undefined) {
-        const score = this.getQuestionScore(question, response);
-        totalScore += score * (question.weight || 1);
-
-        // Check for flags during scoring
         const flag = await this.checkForCrisisIndicators(question, response, assessment.type);
         if (flag) {
           flaggedResponses.push(flag);
@@ -890,17 +558,19 @@ class MentalHealthAssessmentService {
       }
     }
 
-    // Determine risk level
-    const riskLevel = this.determineRiskLevel(totalScore, assessment.riskThresholds);
+    // Calculate total and subscale scores and determine risk level
+    const { totalScore, subscaleScores, subscaleRiskLevels, riskLevel } = scoreAssessment(assessment, session.responses);
     
     // Generate interpretation and recommendations
-    const interpretation = this.generateInterpretation(totalScore, riskLevel, assessment);
+    const interpretation = this.generateInterpretation(totalScore, riskLevel, assessment, subscaleScores);
     const recommendations = assessment.recommendedActions[riskLevel] || [];
 
     return {
       sessionId: session.id,
       assessmentId: assessment.id,
       totalScore,
+      subscaleScores,
+      subscaleRiskLevels,
       riskLevel,
       riskFactors: this.identifyRiskFactors(session.responses, assessment),
       protectiveFactors: this.identifyProtectiveFactors(session.responses, assessment),
@@ -916,29 +586,16 @@ class MentalHealthAssessmentService {
     };
   }
 
-  private getQuestionScore(question: AssessmentQuestion, response: any): number {
-    if (question.options) {
-      const option = question.options.find(opt => opt.value === response);
-      return option?.score || 0;
-    }
-    
-    if (typeof response === 'number') {
-      return question.reverseScored ? (question.scale?.max || 0) - response : response;
-    }
-    
-    return 0;
-  }
-
-  private determineRiskLevel(score: number, thresholds: Record<RiskLevel, number>): RiskLevel {
-    if (score >= thresholds[RiskLevel.CRISIS]) return RiskLevel.CRISIS;
-    if (score >= thresholds[RiskLevel.SEVERE]) return RiskLevel.SEVERE;
-    if (score >= thresholds[RiskLevel.MODERATE]) return RiskLevel.MODERATE;
-    if (score >= thresholds[RiskLevel.MILD]) return RiskLevel.MILD;
-    return RiskLevel.MINIMAL;
-  }
-
-  private generateInterpretation(score: number, riskLevel: RiskLevel, assessment: Assessment): string {
-    return `${assessment.name} score: ${score}. Risk level: ${riskLevel}. ${assessment.interpretationGuide}`;
+  private generateInterpretation(
+    score: number,
+    riskLevel: RiskLevel,
+    assessment: Assessment,
+    subscaleScores?: Record<string, number>
+  ): string {
+    const subscaleSummary = subscaleScores && Object.keys(subscaleScores).length > 0
+      ? ` Subscales: ${Object.entries(subscaleScores).map(([name, value]) => `${name} ${value}`).join(', ')}.`
+      : '';
+    return `${assessment.name} score: ${score}. Risk level: ${riskLevel}.${subscaleSummary} ${assessment.interpretationGuide}`;
   }
 
   private identifyRiskFactors(responses: Record<string, any>, assessment: Assessment): string[] {
@@ -0,0 +1,210 @@
+/**
+ * Assessment Scoring
+ * Item, subscale and total scoring for standardized instruments, including
+ * reverse-scored items, severity banding and critical-item flag rules
+ */
+
+import {
+  Assessment,
+  AssessmentQuestion,
+  AssessmentSubscale,
+  FlaggedResponse,
+  FlagRule,
+  RiskLevel
+} from './types';
+
+export const RISK_LEVEL_ORDER: RiskLevel[] = [
+  RiskLevel.MINIMAL,
+  RiskLevel.MILD,
+  RiskLevel.MODERATE,
+  RiskLevel.SEVERE,
+  RiskLevel.CRISIS
+];
+
+export interface AssessmentScore {
+  totalScore: number;
+  subscaleScores?: Record<string, number>;
+  subscaleRiskLevels?: Record<string, RiskLevel>;
+  riskLevel: RiskLevel;
+}
+
+type CustomRiskRule = (responses: Record<string, any>, score: AssessmentScore) => RiskLevel;
+
+// Instruments whose screening result is not a simple cut-off on the total
+const CUSTOM_RISK_RULES: Record<string, CustomRiskRule> = {
+  // MDQ is positive with 7+ symptoms that clustered in time and caused
+  // moderate or serious problems (Hirschfeld et al., 2000)
+  mdq: (responses, score) => {
+    const symptomCount = score.subscaleScores?.symptoms ?? score.totalScore;
+    if (symptomCount < 7) return RiskLevel.MINIMAL;
+
+    const clustered = responses.mdq_part2 === true;
+    const impaired = responses.mdq_part3 === 'moderate' || responses.mdq_part3 === 'serious';
+    return clustered && impaired ? RiskLevel.MODERATE : RiskLevel.MILD;
+  }
+};
+
+export function matchesCondition(
+  condition: FlagRule['condition'],
+  value: any,
+  response: any
+): boolean {
+  switch (condition) {
+    case 'equals':
+      return response === value;
+    case 'greater_than':
+      return response > value;
+    case 'less_than':
+      return response < value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Scores a single item. Reverse-scored items are mirrored within the item's
+ * own option or scale range, so 1-4 and 0-4 items both reverse correctly.
+ */
+export function getQuestionScore(question: AssessmentQuestion, response: any): number {
+  if (question.options) {
+    const option = question.options.find(opt => opt.value === response);
+    const score = option?.score || 0;
+    if (!question.reverseScored || !option) return score;
+
+    const scores = question.options.map(opt => opt.score || 0);
+    return Math.max(...scores) + Math.min(...scores) - score;
+  }
+
+  if (typeof response === 'number') {
+    if (!question.reverseScored) return response;
+    return (question.scale?.max || 0) + (question.scale?.min || 0) - response;
+  }
+
+  return 0;
+}
+
+export function determineRiskLevel(
+  score: number,
+  thresholds: Record<RiskLevel, number>,
+  higherIsBetter: boolean = false
+): RiskLevel {
+  if (higherIsBetter) {
+    if (score <= thresholds[RiskLevel.CRISIS]) return RiskLevel.CRISIS;
+    if (score <= thresholds[RiskLevel.SEVERE]) return RiskLevel.SEVERE;
+    if (score <= thresholds[RiskLevel.MODERATE]) return RiskLevel.MODERATE;
+    if (score <= thresholds[RiskLevel.MILD]) return RiskLevel.MILD;
+    return RiskLevel.MINIMAL;
+  }
+
+  if (score >= thresholds[RiskLevel.CRISIS]) return RiskLevel.CRISIS;
+  if (score >= thresholds[RiskLevel.SEVERE]) return RiskLevel.SEVERE;
+  if (score >= thresholds[RiskLevel.MODERATE]) return RiskLevel.MODERATE;
+  if (score >= thresholds[RiskLevel.MILD]) return RiskLevel.MILD;
+  return RiskLevel.MINIMAL;
+}
+
+export function highestRiskLevel(levels: RiskLevel[]): RiskLevel {
+  return levels.reduce(
+    (highest, level) =>
+      RISK_LEVEL_ORDER.indexOf(level) > RISK_LEVEL_ORDER.indexOf(highest) ? level : highest,
+    RiskLevel.MINIMAL
+  );
+}
+
+/**
+ * Returns the first matching flag rule for a response. Rules are declared
+ * from most to least severe, so the most severe match wins.
+ */
+export function evaluateFlagRules(question: AssessmentQuestion, response: any): FlaggedResponse | null {
+  const rule = question.flagRules?.find(r => matchesCondition(r.condition, r.value, response));
+  if (!rule) return null;
+
+  return {
+    questionId: question.id,
+    questionText: question.text,
+    response,
+    reason: rule.reason,
+    severity: rule.severity,
+    suggestedAction: rule.suggestedAction
+  };
+}
+
+export function scoreAssessment(assessment: Assessment, responses: Record<string, any>): AssessmentScore {
+  const questions = assessment.sections.flatMap(section => section.questions);
+  const algorithm = assessment.scoringAlgorithm;
+
+  let totalScore = 0;
+  let answered = 0;
+  for (const question of questions) {
+    const response = responses[question.id];
+    if (response === undefined) continue;
+    totalScore += getQuestionScore(question, response) * (question.weight || 1);
+    answered++;
+  }
+
+  if (algorithm.method === 'average' && answered > 0) {
+    totalScore = roundScore(totalScore / answered);
+  }
+
+  const result: AssessmentScore = { totalScore, riskLevel: RiskLevel.MINIMAL };
+
+  if (algorithm.subscales?.length) {
+    result.subscaleScores = {};
+    result.subscaleRiskLevels = {};
+
+    for (const subscale of algorithm.subscales) {
+      const score = scoreSubscale(subscale, questions, responses);
+      result.subscaleScores[subscale.name] = score;
+      if (subscale.riskThresholds) {
+        result.subscaleRiskLevels[subscale.name] = determineRiskLevel(
+          score,
+          subscale.riskThresholds,
+          algorithm.higherIsBetter
+        );
+      }
+    }
+  }
+
+  const subscaleLevels = Object.values(result.subscaleRiskLevels || {});
+  result.riskLevel = algorithm.riskBasis === 'highest_subscale' && subscaleLevels.length > 0
+    ? highestRiskLevel(subscaleLevels)
+    : determineRiskLevel(totalScore, assessment.riskThresholds, algorithm.higherIsBetter);
+
+  const customRule = algorithm.method === 'custom' && algorithm.customFunction
+    ? CUSTOM_RISK_RULES[algorithm.customFunction]
+    : undefined;
+  if (customRule) {
+    result.riskLevel = customRule(responses, result);
+  }
+
+  return result;
+}
+
+function scoreSubscale(
+  subscale: AssessmentSubscale,
+  questions: AssessmentQuestion[],
+  responses: Record<string, any>
+): number {
+  let score = 0;
+  let answered = 0;
+
+  for (const questionId of subscale.questionIds) {
+    const question = questions.find(q => q.id === questionId);
+    const response = responses[questionId];
+    if (!question || response === undefined) continue;
+
+    const itemScore = getQuestionScore(question, response);
+    score += subscale.method === 'weighted' ? itemScore * (question.weight || 1) : itemScore;
+    answered++;
+  }
+
+  if (subscale.method === 'average' && answered > 0) {
+    score = score / answered;
+  }
+
+  return roundScore(score * (subscale.multiplier || 1));
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,1245 @@
+/**
+ * Standardized Assessment Instruments
+ * Item sets, subscales, reverse scoring, severity bands and critical-item
+ * flag rules for the instruments registered by MentalHealthAssessmentService.
+ *
+ * Severity bands an instrument does not publish are set just outside its
+ * score range so they can never be reached. BDI-II, BAI, STAI and GHQ-12
+ * item wording is licensed by their publishers; those instruments are
+ * administered from the licensed form and item scores are recorded here.
+ */
+
+import {
+  Assessment,
+  AssessmentOption,
+  AssessmentQuestion,
+  AssessmentType,
+  QuestionType,
+  RiskLevel
+} from './types';
+
+type ItemDefaults = Omit<AssessmentQuestion, 'id' | 'text'>;
+
+function buildItems(
+  prefix: string,
+  texts: string[],
+  defaults: ItemDefaults,
+  overrides: Record<number, Partial<AssessmentQuestion>> = {}
+): AssessmentQuestion[] {
+  return texts.map((text, index) => ({
+    ...defaults,
+    id: `${prefix}_${index + 1}`,
+    text,
+    ...overrides[index + 1]
+  }));
+}
+
+function itemIds(prefix: string, itemNumbers: number[]): string[] {
+  return itemNumbers.map(n => `${prefix}_${n}`);
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function scoredOptions(labels: string[], start: number = 0): AssessmentOption[] {
+  return labels.map((label, i) => ({ value: start + i, label, score: start + i }));
+}
+
+const YES_NO_OPTIONS: AssessmentOption[] = [
+  { value: false, label: 'No', score: 0 },
+  { value: true, label: 'Yes', score: 1 }
+];
+
+const PHQ_FREQUENCY_OPTIONS = scoredOptions([
+  'Not at all',
+  'Several days',
+  'More than half the days',
+  'Nearly every day'
+]);
+
+export function createPHQ9Assessment(): Assessment {
+  const questions: AssessmentQuestion[] = [
+    {
+      id: 'phq9_1',
+      text: 'Over the last 2 weeks, how often have you been bothered by little interest or pleasure in doing things?',
+      type: QuestionType.LIKERT,
+      required: true,
+      options: [
+        { value: 0, label: 'Not at all', score: 0 },
+        { value: 1, label: 'Several days', score: 1 },
+        { value: 2, label: 'More than half the days', score: 2 },
+        { value: 3, label: 'Nearly every day', score: 3 }
+      ]
+    },
+    {
+      id: 'phq9_2',
+      text: 'Over the last 2 weeks, how often have you been bothered by feeling down, depressed, or hopeless?',
+      type: QuestionType.LIKERT,
+      required: true,
+      options: [
+        { value: 0, label: 'Not at all', score: 0 },
+        { value: 1, label: 'Several days', score: 1 },
+        { value: 2, label: 'More than half the days', score: 2 },
+        { value: 3, label: 'Nearly every day', score: 3 }
+      ]
+    },
+    // Additional PHQ-9 questions would be added here
+  ];
+
+  return {
+    id: 'phq9_v1',
+    type: AssessmentType.PHQ9,
+    name: 'Patient Health Questionnaire-9 (PHQ-9)',
+    description: 'A validated screening tool for depression severity',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 12, max: 100 },
+    estimatedTime: 5,
+    sections: [{
+      id: 'main',
+      title: 'Depression Symptoms',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum'
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 4,
+      [RiskLevel.MILD]: 9,
+      [RiskLevel.MODERATE]: 14,
+      [RiskLevel.SEVERE]: 19,
+      [RiskLevel.CRISIS]: 25
+    },
+    interpretationGuide: 'PHQ-9 scores: 0-4 minimal depression, 5-9 mild, 10-14 moderate, 15-19 moderately severe, 20-27 severe',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms', 'Lifestyle interventions'],
+      [RiskLevel.MILD]: ['Psychoeducation', 'Self-help resources', 'Follow-up in 2-4 weeks'],
+      [RiskLevel.MODERATE]: ['Consider therapy', 'Medication evaluation', 'Weekly follow-up'],
+      [RiskLevel.SEVERE]: ['Immediate clinical evaluation', 'Consider hospitalization', 'Daily monitoring'],
+      [RiskLevel.CRISIS]: ['Immediate psychiatric evaluation', 'Crisis intervention', 'Safety planning']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Kroenke, K., Spitzer, R. L., & Williams, J. B. (2001). The PHQ-9']
+  };
+}
+
+export function createGAD7Assessment(): Assessment {
+  // Similar structure to PHQ-9, focused on anxiety
+  return {
+    id: 'gad7_v1',
+    type: AssessmentType.GAD7,
+    name: 'Generalized Anxiety Disorder 7-item (GAD-7)',
+    description: 'A validated screening tool for generalized anxiety disorder',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 18, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'Anxiety Symptoms',
+      questions: [] // Would include GAD-7 questions
+    }],
+    totalQuestions: 7,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 4,
+      [RiskLevel.MILD]: 9,
+      [RiskLevel.MODERATE]: 14,
+      [RiskLevel.SEVERE]: 18,
+      [RiskLevel.CRISIS]: 21
+    },
+    interpretationGuide: 'GAD-7 scores: 0-4 minimal anxiety, 5-9 mild, 10-14 moderate, 15+ severe',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms'],
+      [RiskLevel.MILD]: ['Self-help resources', 'Relaxation techniques'],
+      [RiskLevel.MODERATE]: ['Consider therapy', 'Anxiety management'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Spitzer, R. L., Kroenke, K., Williams, J. B., & Löwe, B. (2006)']
+  };
+}
+
+export function createCrisisRiskAssessment(): Assessment {
+  const questions: AssessmentQuestion[] = [
+    {
+      id: 'crisis_1',
+      text: 'In the past month, have you wished you were dead or wished you could go to sleep and not wake up?',
+      type: QuestionType.BINARY,
+      required: true,
+      options: [
+        { value: false, label: 'No', score: 0 },
+        { value: true, label: 'Yes', score: 5 }
+      ]
+    },
+    {
+      id: 'crisis_2',
+      text: 'In the past month, have you actually had any thoughts about killing yourself?',
+      type: QuestionType.BINARY,
+      required: true,
+      options: [
+        { value: false, label: 'No', score: 0 },
+        { value: true, label: 'Yes', score: 10 }
+      ]
+    },
+    // Additional crisis assessment questions
+  ];
+
+  return {
+    id: 'crisis_risk_v1',
+    type: AssessmentType.CRISIS_RISK,
+    name: 'Crisis Risk Assessment',
+    description: 'Screening for suicide risk and crisis intervention needs',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 12, max: 100 },
+    estimatedTime: 10,
+    sections: [{
+      id: 'main',
+      title: 'Crisis Risk Factors',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'weighted' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 5,
+      [RiskLevel.MODERATE]: 15,
+      [RiskLevel.SEVERE]: 25,
+      [RiskLevel.CRISIS]: 35
+    },
+    interpretationGuide: 'Crisis risk assessment requires immediate clinical evaluation for any positive responses',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Document assessment', 'Regular monitoring'],
+      [RiskLevel.MILD]: ['Safety planning', 'Increased support'],
+      [RiskLevel.MODERATE]: ['Clinical evaluation', 'Safety measures', 'Frequent contact'],
+      [RiskLevel.SEVERE]: ['Immediate psychiatric evaluation', 'Consider hospitalization'],
+      [RiskLevel.CRISIS]: ['Emergency intervention', 'Hospitalization', 'Continuous monitoring']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Columbia Suicide Severity Rating Scale']
+  };
+}
+
+export function createPHQ2Assessment(): Assessment {
+  const questions = buildItems('phq2', [
+    'Over the last 2 weeks, how often have you been bothered by little interest or pleasure in doing things?',
+    'Over the last 2 weeks, how often have you been bothered by feeling down, depressed, or hopeless?'
+  ], { type: QuestionType.LIKERT, required: true, options: PHQ_FREQUENCY_OPTIONS });
+
+  return {
+    id: 'phq2_v1',
+    type: AssessmentType.PHQ2,
+    name: 'Patient Health Questionnaire-2 (PHQ-2)',
+    description: 'Two-item screen for depressed mood and anhedonia',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 12, max: 100 },
+    estimatedTime: 1,
+    sections: [{
+      id: 'main',
+      title: 'Depression Screen',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 3,
+      [RiskLevel.MODERATE]: 3,
+      [RiskLevel.SEVERE]: 7,
+      [RiskLevel.CRISIS]: 7
+    },
+    interpretationGuide: 'PHQ-2 scores range 0-6. A score of 3 or more is a positive screen and should be followed by the full PHQ-9',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Rescreen at next routine visit'],
+      [RiskLevel.MILD]: ['Administer PHQ-9'],
+      [RiskLevel.MODERATE]: ['Administer PHQ-9', 'Clinical interview for depressive disorder'],
+      [RiskLevel.SEVERE]: ['Administer PHQ-9', 'Clinical interview for depressive disorder'],
+      [RiskLevel.CRISIS]: ['Immediate clinical evaluation', 'Safety planning']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Kroenke, K., Spitzer, R. L., & Williams, J. B. (2003). The Patient Health Questionnaire-2']
+  };
+}
+
+export function createBDIAssessment(): Assessment {
+  const questions = buildItems('bdi', [
+    'Sadness',
+    'Pessimism',
+    'Past failure',
+    'Loss of pleasure',
+    'Guilty feelings',
+    'Punishment feelings',
+    'Self-dislike',
+    'Self-criticalness',
+    'Suicidal thoughts or wishes',
+    'Crying',
+    'Agitation',
+    'Loss of interest',
+    'Indecisiveness',
+    'Worthlessness',
+    'Loss of energy',
+    'Changes in sleeping pattern',
+    'Irritability',
+    'Changes in appetite',
+    'Concentration difficulty',
+    'Tiredness or fatigue',
+    'Loss of interest in sex'
+  ], {
+    type: QuestionType.RATING,
+    required: true,
+    scale: { min: 0, max: 3, labels: { 0: 'Statement 0', 1: 'Statement 1', 2: 'Statement 2', 3: 'Statement 3' } }
+  }, {
+    9: {
+      flagRules: [
+        {
+          condition: 'greater_than',
+          value: 1,
+          reason: 'crisis_indicator',
+          severity: 'critical',
+          suggestedAction: 'Endorsed wish or intent to die: immediate suicide risk assessment and safety planning required'
+        },
+        {
+          condition: 'equals',
+          value: 1,
+          reason: 'crisis_indicator',
+          severity: 'high',
+          suggestedAction: 'Passive suicidal thoughts endorsed: complete a structured suicide risk assessment this session'
+        }
+      ]
+    }
+  });
+
+  return {
+    id: 'bdi_v1',
+    type: AssessmentType.BDI,
+    name: 'Beck Depression Inventory-II (BDI-II)',
+    description: 'Clinician-recorded item scores (0-3) from the licensed BDI-II form, covering the past two weeks',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 13, max: 80 },
+    estimatedTime: 10,
+    sections: [{
+      id: 'main',
+      title: 'Depression Symptoms',
+      description: 'For sleep and appetite items, record 1a/1b as 1, 2a/2b as 2 and 3a/3b as 3',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 14,
+      [RiskLevel.MODERATE]: 20,
+      [RiskLevel.SEVERE]: 29,
+      [RiskLevel.CRISIS]: 64
+    },
+    interpretationGuide: 'BDI-II scores: 0-13 minimal depression, 14-19 mild, 20-28 moderate, 29-63 severe. Item 9 is reviewed regardless of total',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms'],
+      [RiskLevel.MILD]: ['Psychoeducation', 'Follow-up in 2-4 weeks'],
+      [RiskLevel.MODERATE]: ['Psychotherapy', 'Medication evaluation', 'Repeat BDI-II every 2-4 weeks'],
+      [RiskLevel.SEVERE]: ['Combined psychotherapy and medication evaluation', 'Weekly monitoring', 'Review suicide risk'],
+      [RiskLevel.CRISIS]: ['Immediate psychiatric evaluation', 'Crisis intervention', 'Safety planning']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Beck, A. T., Steer, R. A., & Brown, G. K. (1996). Manual for the Beck Depression Inventory-II']
+  };
+}
+
+export function createBAIAssessment(): Assessment {
+  const questions = buildItems('bai', [
+    'Numbness or tingling',
+    'Feeling hot',
+    'Wobbliness in legs',
+    'Unable to relax',
+    'Fear of worst happening',
+    'Dizzy or lightheaded',
+    'Heart pounding or racing',
+    'Unsteady',
+    'Terrified or afraid',
+    'Nervous',
+    'Feeling of choking',
+    'Hands trembling',
+    'Shaky or unsteady',
+    'Fear of losing control',
+    'Difficulty in breathing',
+    'Fear of dying',
+    'Scared',
+    'Indigestion',
+    'Faint or lightheaded',
+    'Face flushed',
+    'Hot or cold sweats'
+  ], {
+    type: QuestionType.RATING,
+    required: true,
+    scale: { min: 0, max: 3, labels: { 0: 'Not at all', 1: 'Mildly', 2: 'Moderately', 3: 'Severely' } }
+  }, {
+    16: {
+      flagRules: [{
+        condition: 'equals',
+        value: 3,
+        reason: 'extreme_score',
+        severity: 'medium',
+        suggestedAction: 'Severe fear of dying: assess for panic attacks and rule out medical causes'
+      }]
+    }
+  });
+
+  return {
+    id: 'bai_v1',
+    type: AssessmentType.BAI,
+    name: 'Beck Anxiety Inventory (BAI)',
+    description: 'Clinician-recorded item scores (0-3) from the licensed BAI form, covering the past month',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 17, max: 80 },
+    estimatedTime: 10,
+    sections: [{
+      id: 'main',
+      title: 'Anxiety Symptoms',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 8,
+      [RiskLevel.MODERATE]: 16,
+      [RiskLevel.SEVERE]: 26,
+      [RiskLevel.CRISIS]: 64
+    },
+    interpretationGuide: 'BAI scores: 0-7 minimal anxiety, 8-15 mild, 16-25 moderate, 26-63 severe',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms'],
+      [RiskLevel.MILD]: ['Self-help resources', 'Relaxation techniques'],
+      [RiskLevel.MODERATE]: ['Consider therapy', 'Anxiety management'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Beck, A. T., Epstein, N., Brown, G., & Steer, R. A. (1988). An inventory for measuring clinical anxiety']
+  };
+}
+
+export function createSTAIAssessment(): Assessment {
+  // Anxiety-absent items are reverse scored (Spielberger, 1983)
+  const stateReversed = [1, 2, 5, 8, 10, 11, 15, 16, 19, 20];
+  const traitReversed = [21, 23, 26, 27, 30, 33, 34, 36, 39];
+
+  const stateItems = range(1, 20).map(n => ({
+    id: `stai_${n}`,
+    text: `State anxiety item ${n} (${stateReversed.includes(n) ? 'anxiety-absent' : 'anxiety-present'})`,
+    type: QuestionType.RATING,
+    required: true,
+    scale: { min: 1, max: 4, labels: { 1: 'Not at all', 2: 'Somewhat', 3: 'Moderately so', 4: 'Very much so' } },
+    reverseScored: stateReversed.includes(n)
+  }));
+
+  const traitItems = range(21, 40).map(n => ({
+    id: `stai_${n}`,
+    text: `Trait anxiety item ${n - 20} (${traitReversed.includes(n) ? 'anxiety-absent' : 'anxiety-present'})`,
+    type: QuestionType.RATING,
+    required: true,
+    scale: { min: 1, max: 4, labels: { 1: 'Almost never', 2: 'Sometimes', 3: 'Often', 4: 'Almost always' } },
+    reverseScored: traitReversed.includes(n)
+  }));
+
+  const subscaleThresholds = {
+    [RiskLevel.MINIMAL]: 20,
+    [RiskLevel.MILD]: 38,
+    [RiskLevel.MODERATE]: 38,
+    [RiskLevel.SEVERE]: 45,
+    [RiskLevel.CRISIS]: 81
+  };
+
+  return {
+    id: 'stai_v1',
+    type: AssessmentType.STAI,
+    name: 'State-Trait Anxiety Inventory, Form Y (STAI-Y)',
+    description: 'Clinician-recorded item ratings (1-4) from the licensed STAI Form Y',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 15, max: 100 },
+    estimatedTime: 10,
+    sections: [
+      {
+        id: 'state',
+        title: 'State Anxiety (Y-1)',
+        description: 'How the client feels right now, at this moment',
+        questions: stateItems
+      },
+      {
+        id: 'trait',
+        title: 'Trait Anxiety (Y-2)',
+        description: 'How the client generally feels',
+        questions: traitItems
+      }
+    ],
+    totalQuestions: stateItems.length + traitItems.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      riskBasis: 'highest_subscale',
+      subscales: [
+        { name: 'state', questionIds: itemIds('stai', range(1, 20)), method: 'sum', riskThresholds: subscaleThresholds },
+        { name: 'trait', questionIds: itemIds('stai', range(21, 40)), method: 'sum', riskThresholds: subscaleThresholds }
+      ]
+    },
+    // Severity is banded per subscale
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 40,
+      [RiskLevel.MILD]: 161,
+      [RiskLevel.MODERATE]: 161,
+      [RiskLevel.SEVERE]: 161,
+      [RiskLevel.CRISIS]: 161
+    },
+    interpretationGuide: 'STAI state and trait scores each range 20-80: 20-37 no or low anxiety, 38-44 moderate, 45-80 high',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms'],
+      [RiskLevel.MILD]: ['Relaxation techniques'],
+      [RiskLevel.MODERATE]: ['Consider therapy', 'Anxiety management'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Spielberger, C. D. (1983). Manual for the State-Trait Anxiety Inventory (Form Y)']
+  };
+}
+
+export function createPSSAssessment(): Assessment {
+  const questions = buildItems('pss', [
+    'In the last month, how often have you been upset because of something that happened unexpectedly?',
+    'In the last month, how often have you felt that you were unable to control the important things in your life?',
+    'In the last month, how often have you felt nervous and "stressed"?',
+    'In the last month, how often have you felt confident about your ability to handle your personal problems?',
+    'In the last month, how often have you felt that things were going your way?',
+    'In the last month, how often have you found that you could not cope with all the things that you had to do?',
+    'In the last month, how often have you been able to control irritations in your life?',
+    'In the last month, how often have you felt that you were on top of things?',
+    'In the last month, how often have you been angered because of things that were outside of your control?',
+    'In the last month, how often have you felt difficulties were piling up so high that you could not overcome them?'
+  ], {
+    type: QuestionType.LIKERT,
+    required: true,
+    options: scoredOptions(['Never', 'Almost never', 'Sometimes', 'Fairly often', 'Very often'])
+  }, {
+    4: { reverseScored: true },
+    5: { reverseScored: true },
+    7: { reverseScored: true },
+    8: { reverseScored: true }
+  });
+
+  return {
+    id: 'pss_v1',
+    type: AssessmentType.PSS,
+    name: 'Perceived Stress Scale (PSS-10)',
+    description: 'Measures the degree to which situations in the last month were appraised as stressful',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 12, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'Perceived Stress',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      subscales: [
+        { name: 'perceived_helplessness', questionIds: itemIds('pss', [1, 2, 3, 6, 9, 10]), method: 'sum' },
+        { name: 'perceived_self_efficacy', questionIds: itemIds('pss', [4, 5, 7, 8]), method: 'sum' }
+      ]
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 14,
+      [RiskLevel.MODERATE]: 14,
+      [RiskLevel.SEVERE]: 27,
+      [RiskLevel.CRISIS]: 41
+    },
+    interpretationGuide: 'PSS-10 scores: 0-13 low stress, 14-26 moderate, 27-40 high perceived stress. Items 4, 5, 7 and 8 are reverse scored',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Maintain current coping strategies'],
+      [RiskLevel.MILD]: ['Stress management resources'],
+      [RiskLevel.MODERATE]: ['Stress management skills', 'Review sleep and workload', 'Follow-up in 4 weeks'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation for anxiety and depression', 'Structured stress reduction intervention'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Cohen, S., Kamarck, T., & Mermelstein, R. (1983). A global measure of perceived stress']
+  };
+}
+
+export function createDASS21Assessment(): Assessment {
+  const questions = buildItems('dass21', [
+    'I found it hard to wind down',
+    'I was aware of dryness of my mouth',
+    "I couldn't seem to experience any positive feeling at all",
+    'I experienced breathing difficulty (e.g. excessively rapid breathing, breathlessness in the absence of physical exertion)',
+    'I found it difficult to work up the initiative to do things',
+    'I tended to over-react to situations',
+    'I experienced trembling (e.g. in the hands)',
+    'I felt that I was using a lot of nervous energy',
+    'I was worried about situations in which I might panic and make a fool of myself',
+    'I felt that I had nothing to look forward to',
+    'I found myself getting agitated',
+    'I found it difficult to relax',
+    'I felt down-hearted and blue',
+    'I was intolerant of anything that kept me from getting on with what I was doing',
+    'I felt I was close to panic',
+    'I was unable to become enthusiastic about anything',
+    "I felt I wasn't worth much as a person",
+    'I felt that I was rather touchy',
+    'I was aware of the action of my heart in the absence of physical exertion (e.g. sense of heart rate increase, heart missing a beat)',
+    'I felt scared without any good reason',
+    'I felt that life was meaningless'
+  ], {
+    type: QuestionType.LIKERT,
+    required: true,
+    options: scoredOptions([
+      'Did not apply to me at all',
+      'Applied to me to some degree, or some of the time',
+      'Applied to me to a considerable degree, or a good part of time',
+      'Applied to me very much, or most of the time'
+    ])
+  }, {
+    21: {
+      flagRules: [{
+        condition: 'greater_than',
+        value: 1,
+        reason: 'crisis_indicator',
+        severity: 'high',
+        suggestedAction: 'Life felt meaningless much of the time: screen for suicidal ideation this session'
+      }]
+    }
+  });
+
+  return {
+    id: 'dass21_v1',
+    type: AssessmentType.DASS21,
+    name: 'Depression Anxiety Stress Scales (DASS-21)',
+    description: 'Short-form measure of depression, anxiety and stress over the past week',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 14, max: 100 },
+    estimatedTime: 5,
+    sections: [{
+      id: 'main',
+      title: 'Over the past week',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      riskBasis: 'highest_subscale',
+      // Subscale sums are doubled to be comparable with the full DASS-42 norms
+      subscales: [
+        {
+          name: 'depression',
+          questionIds: itemIds('dass21', [3, 5, 10, 13, 16, 17, 21]),
+          method: 'sum',
+          multiplier: 2,
+          riskThresholds: {
+            [RiskLevel.MINIMAL]: 0,
+            [RiskLevel.MILD]: 10,
+            [RiskLevel.MODERATE]: 14,
+            [RiskLevel.SEVERE]: 21,
+            [RiskLevel.CRISIS]: 43
+          }
+        },
+        {
+          name: 'anxiety',
+          questionIds: itemIds('dass21', [2, 4, 7, 9, 15, 19, 20]),
+          method: 'sum',
+          multiplier: 2,
+          riskThresholds: {
+            [RiskLevel.MINIMAL]: 0,
+            [RiskLevel.MILD]: 8,
+            [RiskLevel.MODERATE]: 10,
+            [RiskLevel.SEVERE]: 15,
+            [RiskLevel.CRISIS]: 43
+          }
+        },
+        {
+          name: 'stress',
+          questionIds: itemIds('dass21', [1, 6, 8, 11, 12, 14, 18]),
+          method: 'sum',
+          multiplier: 2,
+          riskThresholds: {
+            [RiskLevel.MINIMAL]: 0,
+            [RiskLevel.MILD]: 15,
+            [RiskLevel.MODERATE]: 19,
+            [RiskLevel.SEVERE]: 26,
+            [RiskLevel.CRISIS]: 43
+          }
+        }
+      ]
+    },
+    // Severity is banded per subscale
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 64,
+      [RiskLevel.MODERATE]: 64,
+      [RiskLevel.SEVERE]: 64,
+      [RiskLevel.CRISIS]: 64
+    },
+    interpretationGuide: 'DASS-21 subscales are doubled. Depression: 0-9 normal, 10-13 mild, 14-20 moderate, 21-27 severe, 28+ extremely severe. Anxiety: 0-7 normal, 8-9 mild, 10-14 moderate, 15-19 severe, 20+ extremely severe. Stress: 0-14 normal, 15-18 mild, 19-25 moderate, 26-33 severe, 34+ extremely severe',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms'],
+      [RiskLevel.MILD]: ['Psychoeducation', 'Self-help resources', 'Follow-up in 2-4 weeks'],
+      [RiskLevel.MODERATE]: ['Consider therapy targeting the elevated subscale', 'Follow-up in 1-2 weeks'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment', 'Weekly monitoring'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Lovibond, S. H., & Lovibond, P. F. (1995). Manual for the Depression Anxiety Stress Scales']
+  };
+}
+
+export function createPCL5Assessment(): Assessment {
+  const questions = buildItems('pcl5', [
+    'Repeated, disturbing, and unwanted memories of the stressful experience?',
+    'Repeated, disturbing dreams of the stressful experience?',
+    'Suddenly feeling or acting as if the stressful experience were actually happening again (as if you were actually back there reliving it)?',
+    'Feeling very upset when something reminded you of the stressful experience?',
+    'Having strong physical reactions when something reminded you of the stressful experience (for example, heart pounding, trouble breathing, sweating)?',
+    'Avoiding memories, thoughts, or feelings related to the stressful experience?',
+    'Avoiding external reminders of the stressful experience (for example, people, places, conversations, activities, objects, or situations)?',
+    'Trouble remembering important parts of the stressful experience?',
+    'Having strong negative beliefs about yourself, other people, or the world (for example, having thoughts such as: I am bad, there is something seriously wrong with me, no one can be trusted, the world is completely dangerous)?',
+    'Blaming yourself or someone else for the stressful experience or what happened after it?',
+    'Having strong negative feelings such as fear, horror, anger, guilt, or shame?',
+    'Loss of interest in activities that you used to enjoy?',
+    'Feeling distant or cut off from other people?',
+    'Trouble experiencing positive feelings (for example, being unable to feel happiness or have loving feelings for people close to you)?',
+    'Irritable behavior, angry outbursts, or acting aggressively?',
+    'Taking too many risks or doing things that could cause you harm?',
+    'Being "superalert" or watchful or on guard?',
+    'Feeling jumpy or easily startled?',
+    'Having difficulty concentrating?',
+    'Trouble falling or staying asleep?'
+  ], {
+    type: QuestionType.LIKERT,
+    required: true,
+    options: scoredOptions(['Not at all', 'A little bit', 'Moderately', 'Quite a bit', 'Extremely'])
+  }, {
+    16: {
+      flagRules: [{
+        condition: 'greater_than',
+        value: 2,
+        reason: 'crisis_indicator',
+        severity: 'high',
+        suggestedAction: 'Frequent harmful risk-taking: assess self-harm and safety this session'
+      }]
+    }
+  });
+
+  return {
+    id: 'pcl5_v1',
+    type: AssessmentType.PCL5,
+    name: 'PTSD Checklist for DSM-5 (PCL-5)',
+    description: 'Self-report of the 20 DSM-5 PTSD symptoms over the past month',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 18, max: 100 },
+    estimatedTime: 7,
+    sections: [{
+      id: 'main',
+      title: 'In the past month, how much were you bothered by:',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      subscales: [
+        { name: 'intrusion', questionIds: itemIds('pcl5', range(1, 5)), method: 'sum' },
+        { name: 'avoidance', questionIds: itemIds('pcl5', [6, 7]), method: 'sum' },
+        { name: 'negative_cognitions_mood', questionIds: itemIds('pcl5', range(8, 14)), method: 'sum' },
+        { name: 'arousal_reactivity', questionIds: itemIds('pcl5', range(15, 20)), method: 'sum' }
+      ]
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 31,
+      [RiskLevel.MODERATE]: 31,
+      [RiskLevel.SEVERE]: 81,
+      [RiskLevel.CRISIS]: 81
+    },
+    interpretationGuide: 'PCL-5 scores range 0-80. A score of 31-33 or higher suggests probable PTSD and warrants a diagnostic interview. Subscales follow DSM-5 clusters B-E',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Monitor symptoms', 'Rescreen if new trauma exposure'],
+      [RiskLevel.MILD]: ['Clinical interview for PTSD'],
+      [RiskLevel.MODERATE]: ['Diagnostic interview (e.g. CAPS-5)', 'Consider trauma-focused therapy', 'Repeat PCL-5 monthly'],
+      [RiskLevel.SEVERE]: ['Trauma-focused therapy', 'Medication evaluation'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Weathers, F. W., Litz, B. T., Keane, T. M., et al. (2013). The PTSD Checklist for DSM-5 (PCL-5). National Center for PTSD']
+  };
+}
+
+export function createACEsAssessment(): Assessment {
+  const questions = buildItems('aces', [
+    'Did a parent or other adult in the household often or very often swear at you, insult you, put you down, or humiliate you? Or act in a way that made you afraid that you might be physically hurt?',
+    'Did a parent or other adult in the household often or very often push, grab, slap, or throw something at you? Or ever hit you so hard that you had marks or were injured?',
+    'Did an adult or person at least 5 years older than you ever touch or fondle you or have you touch their body in a sexual way? Or attempt or actually have oral, anal, or vaginal intercourse with you?',
+    'Did you often or very often feel that no one in your family loved you or thought you were important or special? Or your family didn\'t look out for each other, feel close to each other, or support each other?',
+    'Did you often or very often feel that you didn\'t have enough to eat, had to wear dirty clothes, and had no one to protect you? Or your parents were too drunk or high to take care of you or take you to the doctor if you needed it?',
+    'Was a biological parent ever lost to you through divorce, abandonment, or other reason?',
+    'Was your mother or stepmother often or very often pushed, grabbed, slapped, or had something thrown at her? Or sometimes, often, or very often kicked, bitten, hit with a fist, or hit with something hard? Or ever repeatedly hit over at least a few minutes or threatened with a gun or knife?',
+    'Did you live with anyone who was a problem drinker or alcoholic, or who used street drugs?',
+    'Was a household member depressed or mentally ill, or did a household member attempt suicide?',
+    'Did a household member go to prison?'
+  ], { type: QuestionType.BINARY, required: true, options: YES_NO_OPTIONS });
+
+  return {
+    id: 'aces_v1',
+    type: AssessmentType.ACES,
+    name: 'Adverse Childhood Experiences (ACE) Questionnaire',
+    description: 'Counts categories of abuse, neglect and household dysfunction experienced before age 18',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 18, max: 100 },
+    estimatedTime: 5,
+    sections: [{
+      id: 'main',
+      title: 'Before your 18th birthday',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      subscales: [
+        { name: 'abuse', questionIds: itemIds('aces', [1, 2, 3]), method: 'sum' },
+        { name: 'neglect', questionIds: itemIds('aces', [4, 5]), method: 'sum' },
+        { name: 'household_dysfunction', questionIds: itemIds('aces', range(6, 10)), method: 'sum' }
+      ]
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 1,
+      [RiskLevel.MODERATE]: 4,
+      [RiskLevel.SEVERE]: 11,
+      [RiskLevel.CRISIS]: 11
+    },
+    interpretationGuide: 'ACE scores range 0-10. Scores of 4 or more are associated with substantially elevated risk of adverse health and mental health outcomes. The score describes exposure, not current symptoms',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['No additional action'],
+      [RiskLevel.MILD]: ['Trauma-informed care', 'Discuss impact of early experiences if clinically relevant'],
+      [RiskLevel.MODERATE]: ['Trauma-informed care', 'Screen for PTSD (PCL-5)', 'Consider trauma-focused therapy'],
+      [RiskLevel.SEVERE]: ['Trauma-focused therapy', 'Coordinate care for physical health risks'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Felitti, V. J., Anda, R. F., Nordenberg, D., et al. (1998). Relationship of childhood abuse and household dysfunction to many of the leading causes of death in adults']
+  };
+}
+
+export function createMDQAssessment(): Assessment {
+  const symptoms = buildItems('mdq', [
+    '...you felt so good or so hyper that other people thought you were not your normal self or you were so hyper that you got into trouble?',
+    '...you were so irritable that you shouted at people or started fights or arguments?',
+    '...you felt much more self-confident than usual?',
+    '...you got much less sleep than usual and found you didn\'t really miss it?',
+    '...you were much more talkative or spoke much faster than usual?',
+    '...thoughts raced through your head or you couldn\'t slow your mind down?',
+    '...you were so easily distracted by things around you that you had trouble concentrating or staying on track?',
+    '...you had much more energy than usual?',
+    '...you were much more active or did many more things than usual?',
+    '...you were much more social or outgoing than usual, for example, you telephoned friends in the middle of the night?',
+    '...you were much more interested in sex than usual?',
+    '...you did things that were unusual for you or that other people might have thought were excessive, foolish, or risky?',
+    '...spending money got you or your family into trouble?'
+  ], { type: QuestionType.BINARY, required: true, options: YES_NO_OPTIONS });
+
+  const followUp: AssessmentQuestion[] = [
+    {
+      id: 'mdq_part2',
+      text: 'If you checked YES to more than one of the above, have several of these ever happened during the same period of time?',
+      type: QuestionType.BINARY,
+      required: true,
+      options: [
+        { value: false, label: 'No', score: 0 },
+        { value: true, label: 'Yes', score: 0 }
+      ]
+    },
+    {
+      id: 'mdq_part3',
+      text: 'How much of a problem did any of these cause you - like being unable to work; having family, money or legal troubles; getting into arguments or fights?',
+      type: QuestionType.MULTIPLE_CHOICE,
+      required: true,
+      options: [
+        { value: 'none', label: 'No problem', score: 0 },
+        { value: 'minor', label: 'Minor problem', score: 0 },
+        { value: 'moderate', label: 'Moderate problem', score: 0 },
+        { value: 'serious', label: 'Serious problem', score: 0 }
+      ]
+    }
+  ];
+
+  return {
+    id: 'mdq_v1',
+    type: AssessmentType.MDQ,
+    name: 'Mood Disorder Questionnaire (MDQ)',
+    description: 'Screening instrument for lifetime history of manic or hypomanic symptoms',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 18, max: 100 },
+    estimatedTime: 5,
+    sections: [
+      {
+        id: 'symptoms',
+        title: 'Has there ever been a period of time when you were not your usual self and...',
+        questions: symptoms
+      },
+      {
+        id: 'impact',
+        title: 'Clustering and Impact',
+        questions: followUp
+      }
+    ],
+    totalQuestions: symptoms.length + followUp.length,
+    // Total is the symptom count; the screen result is decided by the mdq risk rule
+    scoringAlgorithm: {
+      method: 'custom',
+      customFunction: 'mdq',
+      subscales: [
+        { name: 'symptoms', questionIds: itemIds('mdq', range(1, 13)), method: 'sum' }
+      ]
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 7,
+      [RiskLevel.MODERATE]: 7,
+      [RiskLevel.SEVERE]: 14,
+      [RiskLevel.CRISIS]: 14
+    },
+    interpretationGuide: 'MDQ is positive when 7 or more symptoms are endorsed, several occurred during the same period, and they caused a moderate or serious problem. A positive screen is not a diagnosis of bipolar disorder',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['No additional action'],
+      [RiskLevel.MILD]: ['Review symptom history at next session', 'Ask about family history of bipolar disorder'],
+      [RiskLevel.MODERATE]: ['Diagnostic interview for bipolar spectrum disorder', 'Review antidepressant prescribing', 'Psychiatric referral'],
+      [RiskLevel.SEVERE]: ['Psychiatric referral', 'Mood monitoring'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Hirschfeld, R. M., Williams, J. B., Spitzer, R. L., et al. (2000). Development and validation of a screening instrument for bipolar spectrum disorder: the Mood Disorder Questionnaire']
+  };
+}
+
+export function createAUDITAssessment(): Assessment {
+  const lastYearFrequency = scoredOptions(['Never', 'Less than monthly', 'Monthly', 'Weekly', 'Daily or almost daily']);
+  const harmOptions: AssessmentOption[] = [
+    { value: 0, label: 'No', score: 0 },
+    { value: 2, label: 'Yes, but not in the last year', score: 2 },
+    { value: 4, label: 'Yes, during the last year', score: 4 }
+  ];
+
+  const questions = buildItems('audit', [
+    'How often do you have a drink containing alcohol?',
+    'How many drinks containing alcohol do you have on a typical day when you are drinking?',
+    'How often do you have six or more drinks on one occasion?',
+    'How often during the last year have you found that you were not able to stop drinking once you had started?',
+    'How often during the last year have you failed to do what was normally expected from you because of drinking?',
+    'How often during the last year have you needed a first drink in the morning to get yourself going after a heavy drinking session?',
+    'How often during the last year have you had a feeling of guilt or remorse after drinking?',
+    'How often during the last year have you been unable to remember what happened the night before because you had been drinking?',
+    'Have you or someone else been injured as a result of your drinking?',
+    'Has a relative or friend or a doctor or another health worker been concerned about your drinking or suggested you cut down?'
+  ], {
+    type: QuestionType.MULTIPLE_CHOICE,
+    required: true,
+    options: lastYearFrequency
+  }, {
+    1: { options: scoredOptions(['Never', 'Monthly or less', '2-4 times a month', '2-3 times a week', '4 or more times a week']) },
+    2: { options: scoredOptions(['1 or 2', '3 or 4', '5 or 6', '7, 8 or 9', '10 or more']) },
+    // Morning drinking signals physical dependence and withdrawal risk
+    6: {
+      flagRules: [{
+        condition: 'greater_than',
+        value: 2,
+        reason: 'extreme_score',
+        severity: 'high',
+        suggestedAction: 'Weekly or daily morning drinking: assess withdrawal risk before advising reduction and consider medically supervised detox'
+      }]
+    },
+    9: {
+      options: harmOptions,
+      flagRules: [{
+        condition: 'equals',
+        value: 4,
+        reason: 'extreme_score',
+        severity: 'medium',
+        suggestedAction: 'Alcohol-related injury in the last year: review safety, driving and risk to others'
+      }]
+    },
+    10: { options: harmOptions }
+  });
+
+  return {
+    id: 'audit_v1',
+    type: AssessmentType.AUDIT,
+    name: 'Alcohol Use Disorders Identification Test (AUDIT)',
+    description: 'WHO screen for hazardous and harmful drinking and possible alcohol dependence',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 16, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'Alcohol Use',
+      description: 'One drink is one standard drink (about 10g of alcohol)',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: {
+      method: 'sum',
+      subscales: [
+        { name: 'consumption', questionIds: itemIds('audit', [1, 2, 3]), method: 'sum' },
+        { name: 'dependence', questionIds: itemIds('audit', [4, 5, 6]), method: 'sum' },
+        { name: 'alcohol_related_harm', questionIds: itemIds('audit', [7, 8, 9, 10]), method: 'sum' }
+      ]
+    },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 8,
+      [RiskLevel.MODERATE]: 16,
+      [RiskLevel.SEVERE]: 20,
+      [RiskLevel.CRISIS]: 41
+    },
+    interpretationGuide: 'AUDIT risk zones: 0-7 low risk (Zone I), 8-15 hazardous use (Zone II), 16-19 harmful use (Zone III), 20-40 possible dependence (Zone IV)',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Alcohol education'],
+      [RiskLevel.MILD]: ['Simple advice on reducing drinking'],
+      [RiskLevel.MODERATE]: ['Brief counselling', 'Continued monitoring'],
+      [RiskLevel.SEVERE]: ['Referral to specialist for diagnostic evaluation and treatment', 'Assess withdrawal risk'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Babor, T. F., Higgins-Biddle, J. C., Saunders, J. B., & Monteiro, M. G. (2001). AUDIT: Guidelines for Use in Primary Care. World Health Organization']
+  };
+}
+
+export function createDASTAssessment(): Assessment {
+  const questions = buildItems('dast', [
+    'Have you used drugs other than those required for medical reasons?',
+    'Do you abuse more than one drug at a time?',
+    'Are you always able to stop using drugs when you want to?',
+    'Have you had "blackouts" or "flashbacks" as a result of drug use?',
+    'Do you ever feel bad or guilty about your drug use?',
+    'Does your spouse (or parents) ever complain about your involvement with drugs?',
+    'Have you neglected your family because of your use of drugs?',
+    'Have you engaged in illegal activities in order to obtain drugs?',
+    'Have you ever experienced withdrawal symptoms (felt sick) when you stopped taking drugs?',
+    'Have you had medical problems as a result of your drug use (e.g. memory loss, hepatitis, convulsions, bleeding)?'
+  ], { type: QuestionType.BINARY, required: true, options: YES_NO_OPTIONS }, {
+    3: { reverseScored: true },
+    9: {
+      flagRules: [{
+        condition: 'equals',
+        value: true,
+        reason: 'extreme_score',
+        severity: 'high',
+        suggestedAction: 'Withdrawal symptoms reported: medical evaluation for withdrawal management before any change in use'
+      }]
+    },
+    10: {
+      flagRules: [{
+        condition: 'equals',
+        value: true,
+        reason: 'extreme_score',
+        severity: 'medium',
+        suggestedAction: 'Drug-related medical problems reported: coordinate with primary care'
+      }]
+    }
+  });
+
+  return {
+    id: 'dast_v1',
+    type: AssessmentType.DAST,
+    name: 'Drug Abuse Screening Test (DAST-10)',
+    description: 'Screen for problems related to drug use, excluding alcohol and tobacco, over the past 12 months',
+    version: '1.0',
+    validatedFor: ['adults'],
+    ageRange: { min: 18, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'In the past 12 months',
+      description: '"Drug use" refers to prescribed or over-the-counter drugs used in excess of directions and any non-medical use of drugs',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 1,
+      [RiskLevel.MODERATE]: 3,
+      [RiskLevel.SEVERE]: 6,
+      [RiskLevel.CRISIS]: 11
+    },
+    interpretationGuide: 'DAST-10 scores: 0 no problems reported, 1-2 low, 3-5 moderate, 6-8 substantial, 9-10 severe. Item 3 is reverse scored',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['No additional action'],
+      [RiskLevel.MILD]: ['Monitor and reassess at a later date'],
+      [RiskLevel.MODERATE]: ['Further investigation', 'Brief intervention'],
+      [RiskLevel.SEVERE]: ['Intensive assessment', 'Referral to substance use treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Skinner, H. A. (1982). The Drug Abuse Screening Test. Addictive Behaviors, 7(4), 363-371']
+  };
+}
+
+export function createGHQ12Assessment(): Assessment {
+  // GHQ scoring (0-0-1-1): only the two more symptomatic responses count
+  const questions = buildItems('ghq12', [
+    'Able to concentrate',
+    'Lost much sleep over worry',
+    'Playing a useful part in things',
+    'Capable of making decisions',
+    'Constantly under strain',
+    "Couldn't overcome difficulties",
+    'Able to enjoy normal day-to-day activities',
+    'Able to face up to problems',
+    'Feeling unhappy and depressed',
+    'Losing confidence in self',
+    'Thinking of self as a worthless person',
+    'Feeling reasonably happy, all things considered'
+  ], {
+    type: QuestionType.LIKERT,
+    required: true,
+    options: [
+      { value: 0, label: 'Better than usual / Not at all', score: 0 },
+      { value: 1, label: 'Same as usual / No more than usual', score: 0 },
+      { value: 2, label: 'Less than usual / Rather more than usual', score: 1 },
+      { value: 3, label: 'Much less than usual / Much more than usual', score: 1 }
+    ]
+  }, {
+    11: {
+      flagRules: [{
+        condition: 'equals',
+        value: 3,
+        reason: 'crisis_indicator',
+        severity: 'medium',
+        suggestedAction: 'Strong feelings of worthlessness: follow up with depression and suicide risk screening'
+      }]
+    }
+  });
+
+  return {
+    id: 'ghq12_v1',
+    type: AssessmentType.GHQ12,
+    name: 'General Health Questionnaire-12 (GHQ-12)',
+    description: 'Clinician-recorded responses from the licensed GHQ-12 form, screening for common mental disorders over recent weeks',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 16, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'Recent Psychological Distress',
+      description: 'Record each response as 0-3 from least to most symptomatic',
+      questions
+    }],
+    totalQuestions: questions.length,
+    scoringAlgorithm: { method: 'sum' },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 0,
+      [RiskLevel.MILD]: 4,
+      [RiskLevel.MODERATE]: 4,
+      [RiskLevel.SEVERE]: 13,
+      [RiskLevel.CRISIS]: 13
+    },
+    interpretationGuide: 'GHQ-12 scored 0-0-1-1 gives 0-12. A score of 4 or more indicates probable caseness for a common mental disorder',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['No additional action'],
+      [RiskLevel.MILD]: ['Follow-up screening with PHQ-9 and GAD-7'],
+      [RiskLevel.MODERATE]: ['Follow-up screening with PHQ-9 and GAD-7', 'Clinical interview'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Goldberg, D. P., & Williams, P. (1988). A User\'s Guide to the General Health Questionnaire']
+  };
+}
+
+export function createWEMWBSAssessment(): Assessment {
+  const questions = buildItems('wemwbs', [
+    "I've been feeling optimistic about the future",
+    "I've been feeling useful",
+    "I've been feeling relaxed",
+    "I've been feeling interested in other people",
+    "I've had energy to spare",
+    "I've been dealing with problems well",
+    "I've been thinking clearly",
+    "I've been feeling good about myself",
+    "I've been feeling close to other people",
+    "I've been feeling confident",
+    "I've been able to make up my own mind about things",
+    "I've been feeling loved",
+    "I've been interested in new things",
+    "I've been feeling cheerful"
+  ], {
+    type: QuestionType.LIKERT,
+    required: true,
+    options: scoredOptions(['None of the time', 'Rarely', 'Some of the time', 'Often', 'All of the time'], 1)
+  });
+
+  return {
+    id: 'wemwbs_v1',
+    type: AssessmentType.WEMWBS,
+    name: 'Warwick-Edinburgh Mental Well-being Scale (WEMWBS)',
+    description: 'Positively worded measure of mental well-being over the last two weeks',
+    version: '1.0',
+    validatedFor: ['adults', 'adolescents'],
+    ageRange: { min: 13, max: 100 },
+    estimatedTime: 3,
+    sections: [{
+      id: 'main',
+      title: 'Over the last 2 weeks',
+      questions
+    }],
+    totalQuestions: questions.length,
+    // Lower scores indicate poorer well-being, so thresholds are upper bounds
+    scoringAlgorithm: { method: 'sum', higherIsBetter: true },
+    riskThresholds: {
+      [RiskLevel.MINIMAL]: 70,
+      [RiskLevel.MILD]: 44,
+      [RiskLevel.MODERATE]: 40,
+      [RiskLevel.SEVERE]: 13,
+      [RiskLevel.CRISIS]: 13
+    },
+    interpretationGuide: 'WEMWBS scores range 14-70: 60-70 high well-being, 45-59 average, 41-44 possible depression, 40 or below probable depression',
+    recommendedActions: {
+      [RiskLevel.MINIMAL]: ['Maintain current well-being practices'],
+      [RiskLevel.MILD]: ['Screen for depression with PHQ-9', 'Well-being resources'],
+      [RiskLevel.MODERATE]: ['Screen for depression with PHQ-9', 'Clinical interview'],
+      [RiskLevel.SEVERE]: ['Clinical evaluation', 'Comprehensive treatment'],
+      [RiskLevel.CRISIS]: ['Immediate evaluation', 'Crisis support']
+    },
+    createdBy: 'system',
+    validatedDate: new Date(),
+    references: ['Tennant, R., Hiller, L., Fishwick, R., et al. (2007). The Warwick-Edinburgh Mental Well-being Scale (WEMWBS)']
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Mental Health Assessment Types
+ * Shared definitions for standardized instruments, sessions and scoring results
+ */
+
+// Standardized assessment types
+export enum AssessmentType {
+  // Depression Assessments
+  PHQ9 = 'phq9',           // Patient Health Questionnaire-9
+  PHQ2 = 'phq2',           // Brief depression screening
+  BDI = 'bdi',             // Beck Depression Inventory
+  
+  // Anxiety Assessments
+  GAD7 = 'gad7',           // Generalized Anxiety Disorder-7
+  BAI = 'bai',             // Beck Anxiety Inventory
+  STAI = 'stai',           // State-Trait Anxiety Inventory
+  
+  // Stress Assessments
+  PSS = 'pss',             // Perceived Stress Scale
+  DASS21 = 'dass21',       // Depression, Anxiety, Stress Scales
+  
+  // Trauma Assessments
+  PTSD5 = 'ptsd5',         // PTSD Checklist for DSM-5
+  PCL5 = 'pcl5',           // PTSD Checklist-5
+  ACES = 'aces',           // Adverse Childhood Experiences
+  
+  // Mood Assessments
+  MDQ = 'mdq',             // Mood Disorder Questionnaire
+  YMRS = 'ymrs',           // Young Mania Rating Scale
+  
+  // Substance Use
+  AUDIT = 'audit',         // Alcohol Use Disorders Test
+  DAST = 'dast',           // Drug Abuse Screening Test
+  
+  // General Mental Health
+  GHQ12 = 'ghq12',         // General Health Questionnaire-12
+  WEMWBS = 'wemwbs',       // Warwick-Edinburgh Mental Well-being Scale
+  
+  // Crisis Assessment
+  CRISIS_RISK = 'crisis_risk',     // Suicide risk assessment
+  SELF_HARM = 'self_harm'          // Self-harm risk assessment
+}
+
+// Risk levels for clinical decision making
+export enum RiskLevel {
+  MINIMAL = 'minimal',
+  MILD = 'mild',
+  MODERATE = 'moderate',
+  SEVERE = 'severe',
+  CRISIS = 'crisis'
+}
+
+// Question types supported
+export enum QuestionType {
+  LIKERT = 'likert',           // 1-5 scale
+  BINARY = 'binary',           // Yes/No
+  MULTIPLE_CHOICE = 'multiple_choice',
+  RATING = 'rating',           // 0-10 scale
+  TEXT = 'text',              // Free text response
+  CHECKLIST = 'checklist'      // Multiple selection
+}
+
+// Individual assessment question
+export interface AssessmentQuestion {
+  id: string;
+  text: string;
+  type: QuestionType;
+  required: boolean;
+  
+  // For structured questions
+  options?: AssessmentOption[];
+  scale?: {
+    min: number;
+    max: number;
+    labels?: Record<number, string>;
+  };
+  
+  // Scoring
+  weight?: number;
+  reverseScored?: boolean;
+  
+  // Conditional logic
+  showIf?: {
+    questionId: string;
+    condition: 'equals' | 'greater_than' | 'less_than';
+    value: any;
+  };
+
+  // Clinical flags for critical items, listed from most to least severe
+  flagRules?: FlagRule[];
+}
+
+export interface FlagRule {
+  condition: 'equals' | 'greater_than' | 'less_than';
+  value: any;
+  reason: FlaggedResponse['reason'];
+  severity: FlaggedResponse['severity'];
+  suggestedAction: string;
+}
+
+export interface AssessmentOption {
+  value: any;
+  label: string;
+  score?: number;
+}
+
+// Complete assessment definition
+export interface Assessment {
+  id: string;
+  type: AssessmentType;
+  name: string;
+  description: string;
+  version: string;
+  
+  // Clinical information
+  validatedFor: string[];      // Population types
+  ageRange: { min: number; max: number };
+  estimatedTime: number;       // minutes
+  
+  // Questions and structure
+  sections: AssessmentSection[];
+  totalQuestions: number;
+  
+  // Scoring information
+  scoringAlgorithm: ScoringAlgorithm;
+  riskThresholds: Record<RiskLevel, number>;
+  
+  // Clinical interpretation
+  interpretationGuide: string;
+  recommendedActions: Record<RiskLevel, string[]>;
+  
+  // Metadata
+  createdBy: string;
+  validatedDate: Date;
+  references: string[];
+}
+
+export interface AssessmentSection {
+  id: string;
+  title: string;
+  description?: string;
+  questions: AssessmentQuestion[];
+  weight?: number;
+}
+
+export interface ScoringAlgorithm {
+  method: 'sum' | 'average' | 'weighted' | 'custom';
+  customFunction?: string;       // Named risk rule applied to the summed score
+  subscales?: AssessmentSubscale[];
+  riskBasis?: 'total' | 'highest_subscale';
+  higherIsBetter?: boolean;      // Thresholds are upper bounds (e.g. well-being scales)
+}
+
+export interface AssessmentSubscale {
+  name: string;
+  questionIds: string[];
+  method: 'sum' | 'average' | 'weighted';
+  multiplier?: number;           // e.g. DASS-21 subscales are doubled
+  riskThresholds?: Record<RiskLevel, number>;
+}
+
+// Assessment session/response
+export interface AssessmentSession {
+  id: string;
+  userId: string;
+  assessmentId: string;
+  
+  // Session details
+  startedAt: Date;
+  completedAt?: Date;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  
+  // Responses
+  responses: Record<string, any>;
+  currentQuestionIndex: number;
+  
+  // Results (available after completion)
+  results?: AssessmentResults;
+  
+  // Clinical context
+  administeringClinician?: string;
+  clinicalContext?: string;
+  referralSource?: string;
+}
+
+export interface AssessmentResults {
+  sessionId: string;
+  assessmentId: string;
+  
+  // Scores
+  totalScore: number;
+  percentileScore?: number;
+  subscaleScores?: Record<string, number>;
+  subscaleRiskLevels?: Record<string, RiskLevel>;
+  
+  // Risk assessment
+  riskLevel: RiskLevel;
+  riskFactors: string[];
+  protectiveFactors: string[];
+  
+  // Clinical interpretation
+  interpretation: string;
+  recommendations: string[];
+  flaggedResponses: FlaggedResponse[];
+  
+  // Follow-up
+  requiresImmediateAttention: boolean;
+  suggestedFollowUp: Date;
+  
+  // Metadata
+  scoredAt: Date;
+  scoredBy: 'system' | 'clinician';
+  reliability: number;     // 0-1 scale
+  validity: number;        // 0-1 scale
+}
+
+export interface FlaggedResponse {
+  questionId: string;
+  questionText: string;
+  response: any;
+  reason: 'crisis_indicator' | 'inconsistent' | 'extreme_score' | 'skip_pattern_violation';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  suggestedAction: string;
+}
@@ -7,54 +7,10 @@ import {
   CrisisAction, 
   CrisisResource
 } from '@/types/community';
+import { assessCrisisRisk } from '@/lib/crisis-risk/risk-engine';
 
 const prisma = new PrismaClient();
 
-// Crisis detection patterns
-const CRISIS_PATTERNS = {
-  immediate: {
-    keywords: [
-      'kill myself', 'end my life', 'suicide', 'want to die',
-      'better off dead', 'no reason to live', 'final goodbye',
-      'last words', 'end it all', 'overdose'
-    ],
-    behaviors: [
-      'repeated_crisis_messages',
-      'isolation_pattern',
-      'goodbye_messages',
-      'giving_away_possessions'
-    ],
-    severity: 'critical' as const,
-  },
-  high: {
-    keywords: [
-      'self harm', 'cutting', 'hurt myself', 'worthless',
-      'hopeless', 'no one cares', 'burden', 'alone forever',
-      'cant go on', 'nothing matters'
-    ],
-    behaviors: [
-      'withdrawal_from_support',
-      'mood_decline_pattern',
-      'substance_mentions',
-      'relationship_crisis'
-    ],
-    severity: 'high' as const,
-  },
-  medium: {
-    keywords: [
-      'depressed', 'anxious', 'panic', 'scared',
-      'overwhelmed', 'cant cope', 'breaking down',
-      'falling apart', 'losing control'
-    ],
-    behaviors: [
-      'seeking_support',
-      'expressing_distress',
-      'asking_for_help'
-    ],
-    severity: 'medium' as const,
-  },
-};
-
 // Global crisis resources
 const GLOBAL_CRISIS_RESOURCES: CrisisResource[] = [
   {
@@ -140,38 +96,14 @@ export class CrisisInterventionService {
     resources: CrisisResource[];
     protocol?: CrisisProtocol;
   }> {
-    const lowerContent = content.toLowerCase();
-    const indicators: string[] = [];
-    let severity: 'low' | 'medium' | 'high' | 'critical' = 'low';
-
-    // Check for immediate crisis patterns
-    for (const keyword of CRISIS_PATTERNS.immediate.keywords) {
-      if (lowerContent.includes(keyword)) {
-        indicators.push(`crisis_keyword: ${keyword}`);
-        severity = 'critical';
-        break;
-      }
-    }
-
-    // Check for high-risk patterns if not immediate
-    if (severity !== 'critical') {
-      for (const keyword of CRISIS_PATTERNS.high.keywords) {
-        if (lowerContent.includes(keyword)) {
-          indicators.push(`high_risk_keyword: ${keyword}`);
-          severity = 'high';
-        }
-      }
-    }
-
-    // Check for medium-risk patterns if not high or critical
-    if (severity === 'low') {
-      for (const keyword of CRISIS_PATTERNS.medium.keywords) {
-        if (lowerContent.includes(keyword)) {
-          indicators.push(`distress_keyword: ${keyword}`);
-          severity = 'medium';
-        }
-      }
-    }
+    // Score the text with the shared crisis risk engine, in the user's language
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredLanguage: true },
+    });
+    const risk = assessCrisisRisk(content, { language: user?.preferredLanguage });
+    const indicators = risk.indicators.map(indicator => `${indicator.ruleId}: ${indicator.matchedText}`);
+    let severity: 'low' | 'medium' | 'high' | 'critical' = risk.severity === 'none' ? 'low' : risk.severity;
 
     // Check user history for patterns
     const userHistory = await this.getUserCrisisHistory(userId);
@@ -4,14 +4,16 @@
  * Target: 89% accuracy with < 15 second response time
  * 
  * Features:
- * - Multi-language crisis detection (EN, ES, FR, DE, PT)
- * - Behavioral pattern analysis
+ * - Multi-language crisis detection (EN, ES, FR, DE, PT) through the shared
+ *   crisis risk engine (lib/crisis-risk), with negation and quotation handling
  * - Real-time text analysis with ML-ready architecture
  * - Typing pattern and pause detection
  * - Escalation protocols
  */
 
 import { EventEmitter } from 'events';
+import { assessCrisisRisk } from '@/lib/crisis-risk/risk-engine';
+import { CrisisType, RiskIndicator } from '@/lib/crisis-risk/types';
 
 // Crisis severity levels
 export enum CrisisSeverity {
@@ -30,6 +32,8 @@ export interface CrisisIndicator {
   confidence: number; // 0-1 confidence score
   language?: string;
   details?: string;
+  // Set on indicators from the risk engine that name a specific crisis
+  crisisType?: CrisisType;
   timestamp: Date;
 }
 
@@ -63,154 +67,6 @@ export interface TypingBehavior {
   hesitationScore: number;
 }
 
-// Multi-language crisis keywords with severity levels
-const CRISIS_KEYWORDS_MULTILANG = {
-  en: {
-    immediate: [
-      'suicide', 'kill myself', 'end it all', 'not worth living',
-      'better off dead', 'want to die', 'can\'t go on', 'no reason to live',
-      'end my life', 'take my life', 'commit suicide', 'overdose'
-    ],
-    high: [
-      'hopeless', 'worthless', 'burden', 'give up', 'can\'t take it',
-      'nothing matters', 'alone forever', 'nobody cares', 'hate myself',
-      'disappear', 'not exist', 'waste of space', 'pointless'
-    ],
-    moderate: [
-      'depressed', 'anxious', 'panic', 'scared', 'overwhelmed',
-      'falling apart', 'breaking down', 'can\'t cope', 'losing control',
-      'trapped', 'suffocating', 'drowning', 'numb'
-    ]
-  },
-  es: {
-    immediate: [
-      'suicidio', 'matarme', 'acabar con todo', 'no vale la pena vivir',
-      'mejor muerto', 'quiero morir', 'no puedo seguir', 'sin razón para vivir',
-      'terminar mi vida', 'quitarme la vida'
-    ],
-    high: [
-      'sin esperanza', 'inútil', 'carga', 'rendirse', 'no puedo más',
-      'nada importa', 'solo para siempre', 'a nadie le importa', 'me odio',
-      'desaparecer', 'no existir'
-    ],
-    moderate: [
-      'deprimido', 'ansioso', 'pánico', 'asustado', 'abrumado',
-      'desmoronándome', 'perdiendo control', 'atrapado', 'ahogándome'
-    ]
-  },
-  fr: {
-    immediate: [
-      'suicide', 'me tuer', 'en finir', 'pas la peine de vivre',
-      'mieux vaut mourir', 'veux mourir', 'ne peux plus continuer',
-      'aucune raison de vivre', 'mettre fin à ma vie'
-    ],
-    high: [
-      'sans espoir', 'inutile', 'fardeau', 'abandonner', 'n\'en peux plus',
-      'rien n\'a d\'importance', 'seul pour toujours', 'personne ne s\'en soucie',
-      'je me déteste', 'disparaître'
-    ],
-    moderate: [
-      'déprimé', 'anxieux', 'panique', 'effrayé', 'submergé',
-      's\'effondrer', 'perdre le contrôle', 'piégé', 'se noyer'
-    ]
-  },
-  de: {
-    immediate: [
-      'selbstmord', 'mich umbringen', 'alles beenden', 'nicht lebenswert',
-      'besser tot', 'will sterben', 'kann nicht weitermachen',
-      'kein grund zu leben', 'mein leben beenden'
-    ],
-    high: [
-      'hoffnungslos', 'wertlos', 'last', 'aufgeben', 'kann nicht mehr',
-      'nichts ist wichtig', 'für immer allein', 'niemand kümmert sich',
-      'hasse mich', 'verschwinden'
-    ],
-    moderate: [
-      'deprimiert', 'ängstlich', 'panik', 'verängstigt', 'überwältigt',
-      'zusammenbrechen', 'kontrolle verlieren', 'gefangen', 'ertrinken'
-    ]
-  },
-  pt: {
-    immediate: [
-      'suicídio', 'me matar', 'acabar com tudo', 'não vale a pena viver',
-      'melhor morto', 'quero morrer', 'não posso continuar',
-      'sem razão para viver', 'terminar minha vida'
-    ],
-    high: [
-      'sem esperança', 'inútil', 'fardo', 'desistir', 'não aguento mais',
-      'nada importa', 'sozinho para sempre', 'ninguém se importa',
-      'me odeio', 'desaparecer'
-    ],
-    moderate: [
-      'deprimido', 'ansioso', 'pânico', 'assustado', 'sobrecarregado',
-      'desmoronando', 'perdendo controle', 'preso', 'afogando'
-    ]
-  }
-};
-
-// Behavioral patterns with advanced detection
-const BEHAVIORAL_PATTERNS = {
-  finalStatements: {
-    patterns: [
-      /goodbye\s+forever/i,
-      /this\s+is\s+it/i,
-      /last\s+(message|words|time)/i,
-      /won't\s+be\s+around/i,
-      /sorry\s+for\s+everything/i,
-      /thank\s+you\s+for\s+everything/i
-    ],
-    severity: CrisisSeverity.IMMEDIATE,
-    confidence: 0.95
-  },
-  planMentions: {
-    patterns: [
-      /have\s+a\s+plan/i,
-      /know\s+how\s+to/i,
-      /decided\s+how/i,
-      /way\s+to\s+do\s+it/i,
-      /method\s+(ready|prepared)/i,
-      /pills?\s+(saved|ready)/i,
-      /gun|weapon|knife/i
-    ],
-    severity: CrisisSeverity.IMMEDIATE,
-    confidence: 0.98
-  },
-  isolation: {
-    patterns: [
-      /no\s+one\s+understands/i,
-      /completely\s+alone/i,
-      /nobody\s+cares/i,
-      /all\s+alone/i,
-      /abandoned/i,
-      /forgotten/i
-    ],
-    severity: CrisisSeverity.HIGH,
-    confidence: 0.75
-  },
-  hopelessness: {
-    patterns: [
-      /no\s+hope/i,
-      /never\s+get\s+better/i,
-      /always\s+be\s+this\s+way/i,
-      /no\s+future/i,
-      /can't\s+see\s+a\s+way\s+out/i
-    ],
-    severity: CrisisSeverity.HIGH,
-    confidence: 0.8
-  },
-  giftGiving: {
-    patterns: [
-      /giving\s+away/i,
-      /want\s+you\s+to\s+have/i,
-      /won't\s+need\s+this/i,
-      /take\s+care\s+of\s+my/i,
-      /after\s+I'm\s+gone/i
-    ],
-    severity: CrisisSeverity.CRITICAL,
-    confidence: 0.85
-  }
-};
-
 /**
  * Advanced Crisis Detection Service
  * Singleton pattern for consistent crisis monitoring across the application
@@ -263,39 +119,25 @@ export class CrisisDetectionService extends EventEmitter {
   async analyzeText(
     text: string, 
     userId?: string,
-    language: string = 'en',
+    language?: string,
     typingBehavior?: TypingBehavior
   ): Promise<CrisisAssessment> {
     this.detectionStartTime = Date.now();
     
-    // Detect language if not provided
-    const detectedLanguage = this.detectLanguage(text) || language;
-    
-    // Normalize text for analysis
-    const normalizedText = this.normalizeText(text);
+    // Text risk from the shared engine, which detects the language if not provided
+    const risk = assessCrisisRisk(text, { language });
+    const detectedLanguage = risk.language;
     
     // Collect all indicators
-    const indicators: CrisisIndicator[] = [];
+    const indicators: CrisisIndicator[] = risk.indicators.map(indicator => this.toIndicator(indicator, detectedLanguage));
     
-    // 1. Keyword analysis
-    const keywordIndicators = this.analyzeKeywords(normalizedText, detectedLanguage);
-    indicators.push(...keywordIndicators);
-    
-    // 2. Pattern analysis
-    const patternIndicators = this.analyzeBehavioralPatterns(normalizedText);
-    indicators.push(...patternIndicators);
-    
-    // 3. Linguistic analysis
-    const linguisticIndicators = this.analyzeLinguisticFeatures(text);
-    indicators.push(...linguisticIndicators);
-    
-    // 4. Typing behavior analysis (if available)
+    // Typing behavior analysis (if available)
     if (typingBehavior) {
       const behaviorIndicators = this.analyzeTypingBehavior(typingBehavior, userId);
       indicators.push(...behaviorIndicators);
     }
     
-    // 5. Historical analysis (if user ID provided)
+    // Historical analysis (if user ID provided)
     let riskFactors: RiskFactor[] = [];
     if (userId) {
       riskFactors = await this.analyzeHistoricalRisk(userId);
@@ -316,132 +158,26 @@ export class CrisisDetectionService extends EventEmitter {
   }
 
   /**
-   * Analyze keywords for crisis indicators
+   * Convert a risk engine indicator to this service's severity scale
    */
-  private analyzeKeywords(text: string, language: string): CrisisIndicator[] {
-    const indicators: CrisisIndicator[] = [];
-    const keywords = CRISIS_KEYWORDS_MULTILANG[language as keyof typeof CRISIS_KEYWORDS_MULTILANG] || CRISIS_KEYWORDS_MULTILANG.en;
-    
-    // Check immediate severity keywords
-    for (const keyword of keywords.immediate) {
-      if (text.includes(keyword.toLowerCase())) {
-        indicators.push({
-          type: 'keyword',
-          severity: CrisisSeverity.IMMEDIATE,
-          confidence: 0.95,
-          language,
-          details: `Immediate risk keyword detected: "${keyword}"`,
-          timestamp: new Date()
-        });
-      }
-    }
-    
-    // Check high severity keywords
-    for (const keyword of keywords.high) {
-      if (text.includes(keyword.toLowerCase())) {
-        indicators.push({
-          type: 'keyword',
-          severity: CrisisSeverity.HIGH,
-          confidence: 0.85,
-          language,
-          details: `High risk keyword detected: "${keyword}"`,
-          timestamp: new Date()
-        });
-      }
-    }
-    
-    // Check moderate severity keywords
-    for (const keyword of keywords.moderate) {
-      if (text.includes(keyword.toLowerCase())) {
-        indicators.push({
-          type: 'keyword',
-          severity: CrisisSeverity.MODERATE,
-          confidence: 0.75,
-          language,
-          details: `Moderate concern keyword detected: "${keyword}"`,
-          timestamp: new Date()
-        });
-      }
-    }
-    
-    return indicators;
-  }
-
-  /**
-   * Analyze text for behavioral patterns
-   */
-  private analyzeBehavioralPatterns(text: string): CrisisIndicator[] {
-    const indicators: CrisisIndicator[] = [];
-    
-    for (const [patternName, patternConfig] of Object.entries(BEHAVIORAL_PATTERNS)) {
-      for (const pattern of patternConfig.patterns) {
-        if (pattern.test(text)) {
-          indicators.push({
-            type: 'pattern',
-            severity: patternConfig.severity,
-            confidence: patternConfig.confidence,
-            details: `Behavioral pattern detected: ${patternName}`,
-            timestamp: new Date()
-          });
-          break; // Only count each pattern type once
-        }
-      }
-    }
-    
-    return indicators;
-  }
+  private toIndicator(indicator: RiskIndicator, language: string): CrisisIndicator {
+    const severity = {
+      low: CrisisSeverity.LOW,
+      medium: CrisisSeverity.MODERATE,
+      high: CrisisSeverity.HIGH,
+      critical: CrisisSeverity.CRITICAL
+    }[indicator.severity];
+    const isPlanOrIntent = indicator.type === 'suicide_plan' || indicator.type === 'suicide_intent';
 
-  /**
-   * Analyze linguistic features (sentence structure, emotion density)
-   */
-  private analyzeLinguisticFeatures(text: string): CrisisIndicator[] {
-    const indicators: CrisisIndicator[] = [];
-    
-    // Analyze sentence length and structure
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim());
-    const avgSentenceLength = sentences.reduce((sum, s) => sum + s.split(' ').length, 0) / (sentences.length || 1);
-    
-    // Short, fragmented sentences can indicate distress
-    if (avgSentenceLength < 5 && sentences.length > 2) {
-      indicators.push({
-        type: 'linguistic',
-        severity: CrisisSeverity.MODERATE,
-        confidence: 0.6,
-        details: 'Fragmented sentence structure detected',
-        timestamp: new Date()
-      });
-    }
-    
-    // Analyze negation density
-    const negations = (text.match(/\b(no|not|never|nothing|nobody|nowhere|neither|none|cannot|can't|won't|wouldn't|shouldn't|couldn't)\b/gi) || []).length;
-    const wordCount = text.split(/\s+/).length;
-    const negationDensity = negations / (wordCount || 1);
-    
-    if (negationDensity > 0.15) {
-      indicators.push({
-        type: 'linguistic',
-        severity: CrisisSeverity.MODERATE,
-        confidence: 0.7,
-        details: 'High negation density detected',
-        timestamp: new Date()
-      });
-    }
-    
-    // Analyze personal pronoun usage
-    const firstPersonPronouns = (text.match(/\b(i|me|my|myself)\b/gi) || []).length;
-    const pronounDensity = firstPersonPronouns / (wordCount || 1);
-    
-    if (pronounDensity > 0.2) {
-      indicators.push({
-        type: 'linguistic',
-        severity: CrisisSeverity.LOW,
-        confidence: 0.5,
-        details: 'High self-focus detected',
-        timestamp: new Date()
-      });
-    }
-    
-    return indicators;
+    return {
+      type: 'keyword',
+      severity: isPlanOrIntent && severity === CrisisSeverity.CRITICAL ? CrisisSeverity.IMMEDIATE : severity,
+      confidence: indicator.weight,
+      language,
+      details: indicator.explanation,
+      crisisType: indicator.type ?? undefined,
+      timestamp: new Date()
+    };
   }
 
   /**
@@ -667,7 +403,7 @@ export class CrisisDetectionService extends EventEmitter {
     }
     
     // Add specific actions based on indicators
-    if (indicators.some(i => i.type === 'pattern' && i.details?.includes('plan'))) {
+    if (indicators.some(i => i.crisisType === 'suicide_plan' || i.crisisType === 'suicide_intent')) {
       actions.unshift('URGENT: Remove access to means');
       actions.unshift('Immediate safety assessment required');
     }
@@ -759,41 +495,6 @@ export class CrisisDetectionService extends EventEmitter {
     return increasingCount >= severities.length * 0.6;
   }
 
-  /**
-   * Detect language of text
-   */
-  private detectLanguage(text: string): string {
-    // Simple language detection based on common words
-    const languageMarkers = {
-      es: ['el', 'la', 'de', 'que', 'y', 'en', 'un', 'por', 'con', 'para'],
-      fr: ['le', 'de', 'un', 'être', 'et', 'à', 'avoir', 'que', 'pour', 'dans'],
-      de: ['der', 'die', 'und', 'in', 'das', 'von', 'zu', 'mit', 'sich', 'auf'],
-      pt: ['o', 'a', 'de', 'para', 'em', 'com', 'um', 'por', 'que', 'não']
-    };
-    
-    const words = text.toLowerCase().split(/\s+/);
-    const scores: { [key: string]: number } = {};
-    
-    for (const [lang, markers] of Object.entries(languageMarkers)) {
-      scores[lang] = words.filter(word => markers.includes(word)).length;
-    }
-    
-    const detectedLang = Object.entries(scores).reduce((a, b) => a[1] > b[1] ? a : b)[0];
-    return scores[detectedLang] && scores[detectedLang] > 2 ? detectedLang : 'en';
-  }
-
-  /**
-   * Normalize text for analysis
-   */
-  private normalizeText(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/['']/g, "'")
-      .replace(/[""]/g, '"')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   /**
    * Generate unique assessment ID
    */
@@ -4,6 +4,9 @@
  * Target: 89% accuracy in identifying crisis situations
  */
 
+import { assessCrisisRisk } from "@/lib/crisis-risk/risk-engine";
+import { RiskSeverity } from "@/lib/crisis-risk/types";
+
 export interface CrisisIndicator {
   type: "keyword" | "pattern" | "behavioral" | "temporal";
   severity: 1 | 2 | 3 | 4 | 5; // 1 = low concern, 5 = immediate danger
@@ -19,50 +22,15 @@ export interface CrisisAssessment {
   requiresImmediate: boolean;
 }
 
-// Crisis keywords categorized by severity
-const CRISIS_KEYWORDS = {
-  immediate: [
-    "suicide", "kill myself", "end it all", "not worth living",
-    "better off dead", "want to die", "can't go on", "no reason to live"
-  ],
-  high: [
-    "hopeless", "worthless", "burden", "give up", "can't take it",
-    "nothing matters", "alone forever", "nobody cares", "hate myself"
-  ],
-  moderate: [
-    "depressed", "anxious", "panic", "scared", "overwhelmed",
-    "falling apart", "breaking down", "can't cope", "losing control"
-  ],
-  contextual: [
-    "tired", "stressed", "worried", "sad", "lonely",
-    "frustrated", "angry", "confused", "lost", "empty"
-  ]
+// Risk engine severities on this service's 1-5 scale
+const SEVERITY_SCALE: Record<RiskSeverity, number> = {
+  none: 0,
+  low: 2,
+  medium: 3,
+  high: 4,
+  critical: 5,
 };
 
-// Behavioral patterns that may indicate crisis
-// const BEHAVIORAL_PATTERNS = {
-//   suddenWithdrawal: {
-//     indicator: "Sudden cessation of regular activity",
-//     severity: 3
-//   },
-//   giftGiving: {
-//     indicator: "Mentions of giving away possessions",
-//     severity: 4
-//   },
-//   finalStatements: {
-//     indicator: "Language suggesting finality or goodbye",
-//     severity: 5
-//   },
-//   planMentions: {
-//     indicator: "References to specific harmful plans",
-//     severity: 5
-//   },
-//   isolationLanguage: {
-//     indicator: "Expressions of extreme isolation",
-//     severity: 3
-//   }
-// };
-
 export class CrisisDetectionService {
   private static instance: CrisisDetectionService;
   
@@ -76,58 +44,19 @@ export class CrisisDetectionService {
   }
 
   /**
-   * Analyze text for crisis indicators
+   * Analyze text for crisis indicators, in the writer's language when known
    */
-  analyzeText(text: string): CrisisAssessment {
-    const normalizedText = text.toLowerCase();
-    const indicators: CrisisIndicator[] = [];
-    let maxSeverity = 0;
+  analyzeText(text: string, language?: string): CrisisAssessment {
+    const risk = assessCrisisRisk(text, { language });
     let totalConfidence = 0;
 
-    // Check for immediate crisis keywords
-    for (const keyword of CRISIS_KEYWORDS.immediate) {
-      if (normalizedText.includes(keyword)) {
-        indicators.push({
-          type: "keyword",
-          severity: 5,
-          confidence: 0.95
-        });
-        maxSeverity = 5;
-      }
-    }
-
-    // Check for high-risk keywords
-    for (const keyword of CRISIS_KEYWORDS.high) {
-      if (normalizedText.includes(keyword)) {
-        indicators.push({
-          type: "keyword",
-          severity: 4,
-          confidence: 0.85
-        });
-        maxSeverity = Math.max(maxSeverity, 4);
-      }
-    }
-
-    // Check for moderate keywords
-    for (const keyword of CRISIS_KEYWORDS.moderate) {
-      if (normalizedText.includes(keyword)) {
-        indicators.push({
-          type: "keyword",
-          severity: 3,
-          confidence: 0.75
-        });
-        maxSeverity = Math.max(maxSeverity, 3);
-      }
-    }
-
-    // Check for behavioral patterns
-    const patterns = this.detectBehavioralPatterns(normalizedText);
-    indicators.push(...patterns);
-    
-    if (patterns.length > 0) {
-      const patternSeverity = Math.max(...patterns.map(p => p.severity));
-      maxSeverity = Math.max(maxSeverity, patternSeverity);
-    }
+    // Keyword, plan and farewell matches all come from the shared risk engine
+    const indicators: CrisisIndicator[] = risk.indicators.map(indicator => ({
+      type: indicator.type === "suicide_plan" || indicator.type === "suicide_intent" ? "pattern" : "keyword",
+      severity: SEVERITY_SCALE[indicator.severity] as CrisisIndicator["severity"],
+      confidence: indicator.weight
+    }));
+    const maxSeverity = SEVERITY_SCALE[risk.severity];
 
     // Calculate overall confidence
     if (indicators.length > 0) {
@@ -209,42 +138,6 @@ export class CrisisDetectionService {
     };
   }
 
-  /**
-   * Detect behavioral patterns in text
-   */
-  private detectBehavioralPatterns(text: string): CrisisIndicator[] {
-    const patterns: CrisisIndicator[] = [];
-
-    // Check for final statements
-    if (text.match(/goodbye|farewell|this is it|last (message|words|time)/)) {
-      patterns.push({
-        type: "pattern",
-        severity: 5,
-        confidence: 0.9
-      });
-    }
-
-    // Check for plan mentions
-    if (text.match(/(have a plan|know how|decided how|way to do it)/)) {
-      patterns.push({
-        type: "pattern",
-        severity: 5,
-        confidence: 0.95
-      });
-    }
-
-    // Check for isolation language
-    if (text.match(/(no one understands|completely alone|nobody cares|all alone)/)) {
-      patterns.push({
-        type: "pattern",
-        severity: 3,
-        confidence: 0.7
-      });
-    }
-
-    return patterns;
-  }
-
   /**
    * Calculate trend from numerical array (-1 to 1)
    */
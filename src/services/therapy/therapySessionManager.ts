@@ -47,7 +47,8 @@ export enum DocumentationType {
   CRISIS_NOTE = 'crisis_note',
   DISCHARGE_SUMMARY = 'discharge_summary',
   SUPERVISION_NOTE = 'supervision_note',
-  CASE_CONSULTATION = 'case_consultation'
+  CASE_CONSULTATION = 'case_consultation',
+  INTAKE_ASSESSMENT = 'intake_assessment'
 }
 
 // Therapy session record
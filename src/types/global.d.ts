@@ -47,7 +47,7 @@ declare module '@/lib/community/moderation' {
   
   export function sanitizeContent(content: string): string;
   export function checkContentRateLimit(userId: string, limit: number): boolean;
-  export function detectCrisis(content: string): Promise<{
+  export function detectCrisis(content: string, language?: string): Promise<{
     detected: boolean;
     level: string;
     indicators: string[];